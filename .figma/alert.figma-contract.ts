@@ -0,0 +1,158 @@
+/**
+ * TypeScript contract for Alert component
+ * Source: .figma/alert.figma-contract.json
+ *
+ * ⚠️ STATUS: PENDING FIGMA DATA EXTRACTION
+ * Layout follows the Untitled UI Alert; values marked
+ * TODO_EXTRACT_FROM_FIGMA must be replaced with actual Figma data.
+ *
+ * This file defines the interface that all Alert implementations must satisfy
+ * to match the Figma design specification (Single Source of Truth).
+ */
+
+/**
+ * Alert severity colors (subset of the Badge colors)
+ */
+export type AlertColor = 'gray' | 'primary' | 'error' | 'warning' | 'success';
+
+/**
+ * Core interface that Alert component must implement
+ */
+export interface FigmaAlertContract {
+  /**
+   * Severity color
+   * @default 'gray'
+   */
+  color: AlertColor;
+
+  /**
+   * Bold title
+   */
+  heading?: string;
+
+  /**
+   * Show a dismiss button
+   * @default false
+   */
+  dismissible: boolean;
+}
+
+/**
+ * Extended interface including web-specific properties
+ */
+export interface WebAlertContract extends FigmaAlertContract {
+  /**
+   * Accessible label of the dismiss button (web-specific)
+   * @default 'Dismiss'
+   */
+  closeLabel: string;
+
+  /**
+   * Whether the alert is shown (web-specific)
+   * @default true
+   */
+  open: boolean;
+}
+
+/**
+ * Validation helper: Check if a value is a valid AlertColor
+ */
+export function isValidAlertColor(value: string): value is AlertColor {
+  return ['gray', 'primary', 'error', 'warning', 'success'].includes(value);
+}
+
+/**
+ * Contract metadata
+ */
+export const FIGMA_ALERT_CONTRACT = {
+  componentId: 'TODO_EXTRACT_FROM_FIGMA',
+  componentName: 'Alert',
+  figmaFileId: 'CICp1MWc31lkvjX3jYo1rj',
+  extractedAt: 'PENDING_FIGMA_DATA',
+  version: '0.1.0',
+
+  properties: {
+    color: {
+      values: ['gray', 'primary', 'error', 'warning', 'success'] as const,
+      required: false,
+      default: 'gray' as AlertColor,
+    },
+    heading: {
+      required: false,
+      default: '',
+    },
+    dismissible: {
+      required: false,
+      default: false,
+    },
+    closeLabel: {
+      required: false,
+      default: 'Dismiss',
+    },
+    open: {
+      required: false,
+      default: true,
+    },
+  },
+
+  events: ['kds-alert-dismiss'] as const,
+
+  designTokens: {
+    colors: {
+      gray: { bg: '#F5F5F5', accent: '#414651', border: '#D5D7DA' },
+      primary: { bg: '#F9F5FF', accent: '#6941C6', border: '#D6BBFB' },
+      error: { bg: '#FEF3F2', accent: '#B42318', border: '#FDA29B' },
+      warning: { bg: '#FFFAEB', accent: '#B54708', border: '#FEC84B' },
+      success: { bg: '#ECFDF3', accent: '#027A48', border: '#75E0A7' },
+    },
+    spacing: {
+      padding: '16px',
+      gap: '12px',
+    },
+    radius: '12px',
+  },
+
+  typography: {
+    title: 'Inter Semibold, 14px/20px',
+    body: 'Inter Regular, 14px/20px',
+  },
+
+  _extractionStatus: {
+    status: 'PENDING_FIGMA_DATA',
+    notes: 'Alert nodeId, border colors and icon treatment still need to be extracted from Figma',
+  },
+} as const;
+
+/**
+ * Get validation errors for a component implementation
+ */
+export function getContractValidationErrors(obj: any): string[] {
+  const errors: string[] = [];
+
+  if (obj == null || typeof obj !== 'object') {
+    errors.push('Object is null or not an object');
+    return errors;
+  }
+
+  if ('color' in obj && !isValidAlertColor(obj.color)) {
+    errors.push(`Invalid color value: "${obj.color}". Must be one of: gray, primary, error, warning, success`);
+  }
+
+  if ('dismissible' in obj && typeof obj.dismissible !== 'boolean') {
+    errors.push('Invalid dismissible value: must be a boolean');
+  }
+
+  if ('open' in obj && typeof obj.open !== 'boolean') {
+    errors.push('Invalid open value: must be a boolean');
+  }
+
+  return errors;
+}
+
+/**
+ * ⏳ PENDING EXTRACTION
+ *
+ * - [ ] Alert node ID
+ * - [ ] Border colors per color
+ * - [ ] Icon treatment (plain or featured icon)
+ */
@@ -0,0 +1,108 @@
+/**
+ * TypeScript contract for Avatar Group component
+ * Source: .figma/avatar-group.figma-contract.json
+ *
+ * ⚠️ STATUS: PENDING FIGMA DATA EXTRACTION
+ * Styles follow the Untitled UI avatar group; values marked
+ * TODO_EXTRACT_FROM_FIGMA must be replaced with actual Figma data.
+ *
+ * This file defines the interface that all Avatar Group implementations must satisfy
+ * to match the Figma design specification (Single Source of Truth).
+ */
+
+import { isValidAvatarSize } from './avatar.figma-contract.js';
+import type { AvatarSize } from './avatar.figma-contract.js';
+
+/**
+ * Core interface that Avatar Group component must implement
+ */
+export interface FigmaAvatarGroupContract {
+  /**
+   * @default 'sm'
+   */
+  size: AvatarSize;
+}
+
+/**
+ * Extended interface including web-specific properties
+ */
+export interface WebAvatarGroupContract extends FigmaAvatarGroupContract {
+  /**
+   * 0 shows all avatars
+   * @default 0
+   */
+  max: number;
+
+  ariaLabel: string | null;
+}
+
+/**
+ * Contract metadata
+ */
+export const FIGMA_AVATAR_GROUP_CONTRACT = {
+  componentId: 'TODO_EXTRACT_FROM_FIGMA',
+  componentName: 'Avatar group',
+  figmaFileId: 'CICp1MWc31lkvjX3jYo1rj',
+  extractedAt: 'PENDING_FIGMA_DATA',
+  version: '0.1.0',
+
+  properties: {
+    size: {
+      values: ['xs', 'sm', 'md', 'lg', 'xl', '2xl'] as const,
+      required: false,
+      default: 'sm' as AvatarSize,
+    },
+    max: {
+      required: false,
+      default: 0,
+    },
+  },
+
+  designTokens: {
+    colors: {
+      'ring': '#FFFFFF',
+      'overflow-background': 'var(--kds-color-gray-50)',
+      'overflow-text': 'var(--kds-color-gray-600)',
+    },
+    overlap: {
+      xs: '-4px',
+      sm: '-8px',
+      md: '-12px',
+    },
+  },
+
+  _extractionStatus: {
+    status: 'PENDING_FIGMA_DATA',
+    notes: 'Avatar group nodeId, overlaps and the add-user button still need to be extracted from Figma',
+  },
+} as const;
+
+/**
+ * Get validation errors for a component implementation
+ */
+export function getContractValidationErrors(obj: any): string[] {
+  const errors: string[] = [];
+
+  if (obj == null || typeof obj !== 'object') {
+    errors.push('Object is null or not an object');
+    return errors;
+  }
+
+  if ('size' in obj && !isValidAvatarSize(obj.size)) {
+    errors.push(`Invalid size value: "${obj.size}". Must be one of: xs, sm, md, lg, xl, 2xl`);
+  }
+
+  if ('max' in obj && !(Number.isInteger(obj.max) && obj.max >= 0)) {
+    errors.push(`Invalid max: ${obj.max}. Must be a non-negative integer`);
+  }
+
+  return errors;
+}
+
+/**
+ * ⏳ PENDING EXTRACTION
+ *
+ * - [ ] Avatar group node ID
+ * - [ ] Overlap and ring width per size
+ * - [ ] Add-user button
+ */
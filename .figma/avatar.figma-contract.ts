@@ -0,0 +1,144 @@
+/**
+ * TypeScript contract for Avatar component
+ * Source: .figma/avatar.figma-contract.json
+ *
+ * ⚠️ STATUS: PENDING FIGMA DATA EXTRACTION
+ * Styles follow the Untitled UI avatar; values marked
+ * TODO_EXTRACT_FROM_FIGMA must be replaced with actual Figma data.
+ *
+ * This file defines the interface that all Avatar implementations must satisfy
+ * to match the Figma design specification (Single Source of Truth).
+ */
+
+/**
+ * Avatar sizes (ButtonSize plus xs and 2xl)
+ */
+export type AvatarSize = 'xs' | 'sm' | 'md' | 'lg' | 'xl' | '2xl';
+
+export type AvatarStatus = 'none' | 'online' | 'offline';
+
+/**
+ * Core interface that Avatar component must implement
+ */
+export interface FigmaAvatarContract {
+  /**
+   * @default 'md'
+   */
+  size: AvatarSize;
+
+  src: string;
+
+  initials: string;
+
+  /**
+   * @default 'none'
+   */
+  status: AvatarStatus;
+}
+
+/**
+ * Extended interface including web-specific properties
+ */
+export interface WebAvatarContract extends FigmaAvatarContract {
+  name: string;
+
+  ariaLabel: string | null;
+}
+
+/**
+ * Validation helper: Check if a value is a valid AvatarSize
+ */
+export function isValidAvatarSize(value: string): value is AvatarSize {
+  return ['xs', 'sm', 'md', 'lg', 'xl', '2xl'].includes(value);
+}
+
+/**
+ * Contract metadata
+ */
+export const FIGMA_AVATAR_CONTRACT = {
+  componentId: 'TODO_EXTRACT_FROM_FIGMA',
+  componentName: 'Avatar',
+  figmaFileId: 'CICp1MWc31lkvjX3jYo1rj',
+  extractedAt: 'PENDING_FIGMA_DATA',
+  version: '0.1.0',
+
+  properties: {
+    size: {
+      values: ['xs', 'sm', 'md', 'lg', 'xl', '2xl'] as const,
+      required: false,
+      default: 'md' as AvatarSize,
+    },
+    status: {
+      values: ['none', 'online', 'offline'] as const,
+      required: false,
+      default: 'none' as AvatarStatus,
+    },
+    src: {
+      required: false,
+      default: '',
+    },
+    initials: {
+      required: false,
+      default: '',
+    },
+    name: {
+      required: false,
+      default: '',
+    },
+  },
+
+  designTokens: {
+    colors: {
+      'placeholder-background': 'var(--kds-color-gray-100)',
+      'status-online': 'var(--kds-color-success-500)',
+      'status-offline': 'var(--kds-color-gray-300)',
+    },
+    sizes: {
+      'xs': '24px',
+      'sm': '32px',
+      'md': '40px',
+      'lg': '48px',
+      'xl': '56px',
+      '2xl': '64px',
+    },
+  },
+
+  _extractionStatus: {
+    status: 'PENDING_FIGMA_DATA',
+    notes: 'Avatar nodeId, sizes and the company / verified variants still need to be extracted from Figma',
+  },
+} as const;
+
+/**
+ * Get validation errors for a component implementation
+ */
+export function getContractValidationErrors(obj: any): string[] {
+  const errors: string[] = [];
+
+  if (obj == null || typeof obj !== 'object') {
+    errors.push('Object is null or not an object');
+    return errors;
+  }
+
+  if ('size' in obj && !isValidAvatarSize(obj.size)) {
+    errors.push(`Invalid size value: "${obj.size}". Must be one of: xs, sm, md, lg, xl, 2xl`);
+  }
+
+  if ('status' in obj && !['none', 'online', 'offline'].includes(obj.status)) {
+    errors.push(`Invalid status value: "${obj.status}". Must be one of: none, online, offline`);
+  }
+
+  if ('initials' in obj && typeof obj.initials === 'string' && [...obj.initials].length > 3) {
+    errors.push(`Invalid initials: "${obj.initials}". Must be at most 3 characters`);
+  }
+
+  return errors;
+}
+
+/**
+ * ⏳ PENDING EXTRACTION
+ *
+ * - [ ] Avatar node ID
+ * - [ ] Pixel sizes per size variant
+ * - [ ] Company icon and verified tick variants
+ */
@@ -67,6 +67,41 @@ export interface WebButtonGroupItemContract extends FigmaButtonGroupItemContract
   label?: string;
 }
 
+/**
+ * Selection mode of the group (web-specific, not in Figma)
+ *
+ * - none: each item's `selected` is set by the consumer
+ * - single: exactly one item selected, radio-group behaviour
+ * - multiple: any number of items selected
+ */
+export type ButtonGroupSelection = 'none' | 'single' | 'multiple';
+
+/**
+ * Web-specific interface for the Button Group container
+ */
+export interface WebButtonGroupContract {
+  /**
+   * ARIA label for the group
+   */
+  ariaLabel?: string | null;
+
+  /**
+   * Selection mode
+   * @default 'none'
+   */
+  selection: ButtonGroupSelection;
+
+  /**
+   * Value of the selected item (first selected item in multiple mode)
+   */
+  value: string;
+
+  /**
+   * Values of all selected items, in item order
+   */
+  values: string[];
+}
+
 /**
  * Validation helper: Check if a value is a valid ButtonGroupItemIcon
  */
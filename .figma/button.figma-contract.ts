@@ -95,12 +95,51 @@ export interface FigmaButtonContract {
  * These properties don't exist in Figma but are necessary for web implementation
  */
 export interface WebButtonContract extends FigmaButtonContract {
+  /**
+   * Pending state (web-specific)
+   * Not in Figma: shows a spinner in place of the icon and sets aria-busy
+   * @default false
+   */
+  loading?: boolean;
+
+  /**
+   * Text announced to screen readers while loading (web-specific)
+   * @default 'Loading'
+   */
+  loadingText?: string;
+
   /**
    * Button type attribute (web-specific)
    * Not in Figma
    */
   type?: 'button' | 'submit' | 'reset';
 
+  /**
+   * Form submission (web-specific)
+   * Not in Figma: the pressed submit button contributes name=value
+   */
+  name?: string;
+  value?: string;
+
+  /**
+   * Submission overrides (web-specific)
+   * Not in Figma: same as the native submit button's form* attributes
+   */
+  formAction?: string;
+  formMethod?: string;
+  formEnctype?: string;
+  formTarget?: string;
+  formNoValidate?: boolean;
+
+  /**
+   * Link mode (web-specific)
+   * Not in Figma: setting href renders an <a> with the same styling
+   */
+  href?: string;
+  target?: string;
+  rel?: string;
+  download?: string;
+
   /**
    * ARIA label for accessibility (web-specific)
    * Not in Figma, required for icon-only buttons
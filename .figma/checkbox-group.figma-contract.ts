@@ -0,0 +1,190 @@
+/**
+ * TypeScript contract for Checkbox Group component
+ * Source: .figma/checkbox-group.figma-contract.json
+ *
+ * ⚠️ STATUS: PENDING FIGMA DATA EXTRACTION
+ * Option visuals come from the Checkbox contract; group-level values marked
+ * TODO_EXTRACT_FROM_FIGMA must be replaced with actual Figma data.
+ *
+ * This file defines the interface that all Checkbox Group implementations must satisfy
+ * to match the Figma design specification (Single Source of Truth).
+ */
+
+import type { CheckboxSize } from './checkbox.figma-contract.js';
+
+/**
+ * Option layout
+ *
+ * - vertical: options stacked (default)
+ * - horizontal: options in a wrapping row
+ */
+export type CheckboxGroupOrientation = 'vertical' | 'horizontal';
+
+/**
+ * Core interface that Checkbox Group component must implement
+ */
+export interface FigmaCheckboxGroupContract {
+  /**
+   * Group label shown above the options
+   * @optional
+   */
+  label?: string;
+
+  /**
+   * Hint text below the options; rendered as the error message in error state
+   * @optional
+   */
+  hint?: string;
+
+  /**
+   * Layout of the options
+   * @default 'vertical'
+   */
+  orientation: CheckboxGroupOrientation;
+
+  /**
+   * Checkbox size applied to every option
+   * @default 'md'
+   */
+  size: CheckboxSize;
+
+  /**
+   * Tri-state "select all" parent checkbox
+   * @default false
+   */
+  selectAll?: boolean;
+
+  /**
+   * Whether every option is disabled
+   * @default false
+   */
+  disabled?: boolean;
+}
+
+/**
+ * Extended interface including web-specific properties
+ */
+export interface WebCheckboxGroupContract extends FigmaCheckboxGroupContract {
+  /**
+   * Values of the checked options (web-specific)
+   */
+  value: string[];
+
+  /**
+   * Name applied to every option for form submission (web-specific)
+   */
+  name?: string;
+
+  /**
+   * Error state (web-specific, like Checkbox error)
+   */
+  error?: boolean;
+
+  /**
+   * Label of the "select all" parent checkbox (web-specific)
+   * @default 'Select all'
+   */
+  selectAllLabel?: string;
+
+  /**
+   * ARIA label when there is no visible label (web-specific)
+   */
+  ariaLabel?: string | null;
+}
+
+/**
+ * Validation helper: Check if a value is a valid CheckboxGroupOrientation
+ */
+export function isValidCheckboxGroupOrientation(value: string): value is CheckboxGroupOrientation {
+  return ['vertical', 'horizontal'].includes(value);
+}
+
+/**
+ * Contract metadata
+ */
+export const FIGMA_CHECKBOX_GROUP_CONTRACT = {
+  componentId: 'TODO_EXTRACT_FROM_FIGMA',
+  componentName: 'Checkbox group',
+  figmaFileId: 'CICp1MWc31lkvjX3jYo1rj',
+  extractedAt: 'PENDING_FIGMA_DATA',
+  version: '0.1.0',
+
+  properties: {
+    orientation: {
+      required: false,
+      default: 'vertical' as CheckboxGroupOrientation,
+      values: ['vertical', 'horizontal'] as const,
+    },
+    size: {
+      required: false,
+      default: 'md' as CheckboxSize,
+      values: ['sm', 'md'] as const,
+    },
+    selectAll: {
+      required: false,
+      default: false,
+    },
+    disabled: {
+      required: false,
+      default: false,
+    },
+  },
+
+  designTokens: {
+    colors: {
+      'label-text': '#414651',
+      'hint-text': '#535862',
+      'error-text': '#D92D20',
+      'disabled-text': '#A4ACBA',
+    },
+    spacing: {
+      gap: '12px',
+      gapHorizontal: '24px',
+    },
+  },
+
+  typography: {
+    label: 'Inter Medium, 14px/20px',
+    hint: 'Inter Regular, 14px/20px',
+  },
+
+  _extractionStatus: {
+    status: 'PENDING_FIGMA_DATA',
+    notes: 'Group frame nodeId, spacing and label/hint placement still need to be extracted from Figma',
+  },
+} as const;
+
+/**
+ * Get validation errors for a component implementation
+ */
+export function getContractValidationErrors(obj: any): string[] {
+  const errors: string[] = [];
+
+  if (obj == null || typeof obj !== 'object') {
+    errors.push('Object is null or not an object');
+    return errors;
+  }
+
+  if ('orientation' in obj && !isValidCheckboxGroupOrientation(obj.orientation)) {
+    errors.push(`Invalid orientation value: "${obj.orientation}". Must be one of: ${FIGMA_CHECKBOX_GROUP_CONTRACT.properties.orientation.values.join(', ')}`);
+  }
+
+  if ('size' in obj && !FIGMA_CHECKBOX_GROUP_CONTRACT.properties.size.values.includes(obj.size)) {
+    errors.push(`Invalid size value: "${obj.size}". Must be one of: ${FIGMA_CHECKBOX_GROUP_CONTRACT.properties.size.values.join(', ')}`);
+  }
+
+  if ('value' in obj && !Array.isArray(obj.value)) {
+    errors.push('Invalid value: must be an array of strings');
+  }
+
+  return errors;
+}
+
+/**
+ * ⏳ PENDING EXTRACTION
+ *
+ * - [ ] Group frame node ID
+ * - [ ] Label and hint placement relative to the options
+ * - [ ] Vertical and horizontal gaps
+ * - [ ] Nested indent of options under a "select all" parent
+ */
@@ -0,0 +1,207 @@
+/**
+ * TypeScript contract for Date Picker component
+ * Source: .figma/date-picker.figma-contract.json
+ *
+ * ⚠️ STATUS: PENDING FIGMA DATA EXTRACTION
+ * Styles follow the Untitled UI date picker; values marked
+ * TODO_EXTRACT_FROM_FIGMA must be replaced with actual Figma data.
+ *
+ * This file defines the interface that all Date Picker implementations must satisfy
+ * to match the Figma design specification (Single Source of Truth).
+ */
+
+/**
+ * Core interface that Date Picker component must implement
+ */
+export interface FigmaDatePickerContract {
+  /**
+   * @default false
+   */
+  range: boolean;
+
+  disabledDates: string[];
+}
+
+/**
+ * Extended interface including web-specific properties
+ */
+export interface WebDatePickerContract extends FigmaDatePickerContract {
+  /** YYYY-MM-DD */
+  value: string;
+
+  /** YYYY-MM-DD */
+  valueStart: string;
+
+  /** YYYY-MM-DD */
+  valueEnd: string;
+
+  min: string;
+
+  max: string;
+
+  isDateDisabled: ((date: Date) => boolean) | null;
+
+  locale: string;
+
+  firstDayOfWeek?: number;
+
+  label: string;
+
+  hint: string;
+
+  placeholder: string;
+
+  name: string;
+
+  /**
+   * @default false
+   */
+  required: boolean;
+
+  /**
+   * @default false
+   */
+  disabled: boolean;
+
+  /**
+   * @default false
+   */
+  open: boolean;
+}
+
+/**
+ * Validation helper: Check if a value is an ISO date (YYYY-MM-DD) that exists
+ */
+export function isValidIsoDate(value: string): boolean {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return false;
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+/**
+ * Contract metadata
+ */
+export const FIGMA_DATE_PICKER_CONTRACT = {
+  componentId: 'TODO_EXTRACT_FROM_FIGMA',
+  componentName: 'Date picker',
+  figmaFileId: 'CICp1MWc31lkvjX3jYo1rj',
+  extractedAt: 'PENDING_FIGMA_DATA',
+  version: '0.1.0',
+
+  properties: {
+    value: {
+      required: false,
+      default: '',
+    },
+    range: {
+      required: false,
+      default: false,
+    },
+    valueStart: {
+      required: false,
+      default: '',
+    },
+    valueEnd: {
+      required: false,
+      default: '',
+    },
+    min: {
+      required: false,
+      default: '',
+    },
+    max: {
+      required: false,
+      default: '',
+    },
+    required: {
+      required: false,
+      default: false,
+    },
+    disabled: {
+      required: false,
+      default: false,
+    },
+    open: {
+      required: false,
+      default: false,
+    },
+  },
+
+  events: ['kds-date-picker-change'] as const,
+
+  designTokens: {
+    colors: {
+      'background': '#FFFFFF',
+      'border': '#E9EAEB',
+      'day': '#414651',
+      'day-hover': '#F9FAFB',
+      'day-selected': 'var(--kds-color-brand-600)',
+      'day-in-range': '#F9FAFB',
+      'day-disabled': '#A4A7AE',
+    },
+    spacing: {
+      padding: '20px 24px',
+      daySize: '40px',
+      navSize: '36px',
+    },
+  },
+
+  typography: {
+    month: 'Inter Semibold, 16px/24px',
+    weekday: 'Inter Medium, 14px/20px',
+    day: 'Inter Regular, 14px/20px',
+  },
+
+  _extractionStatus: {
+    status: 'PENDING_FIGMA_DATA',
+    notes: 'Date picker nodeId, the range calendar and the footer actions still need to be extracted from Figma',
+  },
+} as const;
+
+/**
+ * Get validation errors for a component implementation
+ */
+export function getContractValidationErrors(obj: any): string[] {
+  const errors: string[] = [];
+
+  if (obj == null || typeof obj !== 'object') {
+    errors.push('Object is null or not an object');
+    return errors;
+  }
+
+  for (const key of ['value', 'valueStart', 'valueEnd', 'min', 'max'] as const) {
+    if (key in obj && obj[key] !== '' && !isValidIsoDate(obj[key])) {
+      errors.push(`Invalid ${key}: "${obj[key]}". Must be a date as YYYY-MM-DD`);
+    }
+  }
+
+  if (obj.min && obj.max && obj.min > obj.max) {
+    errors.push('Invalid max: must not be before min');
+  }
+
+  if (obj.range && obj.valueStart && obj.valueEnd && obj.valueStart > obj.valueEnd) {
+    errors.push('Invalid range: valueStart must not be after valueEnd');
+  }
+
+  if ('disabledDates' in obj && (!Array.isArray(obj.disabledDates) || !obj.disabledDates.every(isValidIsoDate))) {
+    errors.push('Invalid disabledDates: must be an array of YYYY-MM-DD dates');
+  }
+
+  if ('firstDayOfWeek' in obj && obj.firstDayOfWeek !== undefined &&
+      !(Number.isInteger(obj.firstDayOfWeek) && obj.firstDayOfWeek >= 0 && obj.firstDayOfWeek <= 6)) {
+    errors.push('Invalid firstDayOfWeek: must be an integer from 0 (Sunday) to 6');
+  }
+
+  return errors;
+}
+
+/**
+ * ⏳ PENDING EXTRACTION
+ *
+ * - [ ] Date picker node ID
+ * - [ ] Range calendar variant (two months side by side)
+ * - [ ] Cancel / Apply footer and preset ranges
+ */
@@ -0,0 +1,162 @@
+/**
+ * TypeScript contract for Dialog component
+ * Source: .figma/dialog.figma-contract.json
+ *
+ * ⚠️ STATUS: PENDING FIGMA DATA EXTRACTION
+ * Layout follows the Untitled UI Modal; values marked
+ * TODO_EXTRACT_FROM_FIGMA must be replaced with actual Figma data.
+ *
+ * This file defines the interface that all Dialog implementations must satisfy
+ * to match the Figma design specification (Single Source of Truth).
+ */
+
+/**
+ * Dialog widths
+ */
+export type DialogSize = 'sm' | 'md' | 'lg';
+
+/**
+ * Core interface that Dialog component must implement
+ */
+export interface FigmaDialogContract {
+  /**
+   * Dialog title shown in the header
+   */
+  heading?: string;
+
+  /**
+   * Dialog width
+   * @default 'md'
+   */
+  size: DialogSize;
+
+  /**
+   * Destructive confirmation (Figma type "Error")
+   * @default false
+   */
+  destructive?: boolean;
+}
+
+/**
+ * Extended interface including web-specific properties
+ */
+export interface WebDialogContract extends FigmaDialogContract {
+  /**
+   * Whether the dialog is shown (web-specific)
+   * @default false
+   */
+  open: boolean;
+
+  /**
+   * Label of the built-in confirm button (web-specific)
+   */
+  confirmLabel?: string;
+
+  /**
+   * Label of the built-in cancel button (web-specific)
+   * @default 'Cancel'
+   */
+  cancelLabel?: string;
+
+  /**
+   * Value the dialog was last closed with (web-specific)
+   */
+  returnValue: string;
+
+  ariaLabel?: string | null;
+}
+
+/**
+ * Validation helper: Check if a value is a valid DialogSize
+ */
+export function isValidDialogSize(value: string): value is DialogSize {
+  return ['sm', 'md', 'lg'].includes(value);
+}
+
+/**
+ * Contract metadata
+ */
+export const FIGMA_DIALOG_CONTRACT = {
+  componentId: 'TODO_EXTRACT_FROM_FIGMA',
+  componentName: 'Modal',
+  figmaFileId: 'CICp1MWc31lkvjX3jYo1rj',
+  extractedAt: 'PENDING_FIGMA_DATA',
+  version: '0.1.0',
+
+  properties: {
+    size: {
+      values: ['sm', 'md', 'lg'] as const,
+      required: false,
+      default: 'md' as DialogSize,
+    },
+    destructive: {
+      required: false,
+      default: false,
+    },
+    open: {
+      required: false,
+      default: false,
+    },
+  },
+
+  events: ['kds-dialog-open', 'kds-dialog-close'] as const,
+
+  designTokens: {
+    colors: {
+      'backdrop': 'rgba(10, 13, 18, 0.7)',
+      'bg': '#FFFFFF',
+      'title': '#181D27',
+      'text': '#535862',
+      'featured-icon-bg': '#FEE4E2',
+      'featured-icon-ring': '#FEF3F2',
+      'featured-icon': '#D92D20',
+    },
+    spacing: {
+      padding: '24px',
+      actionsGap: '12px',
+    },
+    radius: '12px',
+  },
+
+  typography: {
+    title: 'Inter Semibold, 18px/28px',
+    body: 'Inter Regular, 14px/20px',
+  },
+
+  _extractionStatus: {
+    status: 'PENDING_FIGMA_DATA',
+    notes: 'Modal nodeId and widths still need to be extracted from Figma',
+  },
+} as const;
+
+/**
+ * Get validation errors for a component implementation
+ */
+export function getContractValidationErrors(obj: any): string[] {
+  const errors: string[] = [];
+
+  if (obj == null || typeof obj !== 'object') {
+    errors.push('Object is null or not an object');
+    return errors;
+  }
+
+  if ('size' in obj && !isValidDialogSize(obj.size)) {
+    errors.push(`Invalid size value: "${obj.size}". Must be one of: sm, md, lg`);
+  }
+
+  for (const name of ['open', 'destructive']) {
+    if (name in obj && typeof obj[name] !== 'boolean') {
+      errors.push(`Invalid ${name} value: must be a boolean`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * ⏳ PENDING EXTRACTION
+ *
+ * - [ ] Modal node ID
+ * - [ ] Widths per size
+ * - [ ] Header close button (not rendered in code yet)
+ */
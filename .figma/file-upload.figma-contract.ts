@@ -0,0 +1,171 @@
+/**
+ * TypeScript contract for File Upload component
+ * Source: .figma/file-upload.figma-contract.json
+ *
+ * ⚠️ STATUS: PENDING FIGMA DATA EXTRACTION
+ * Layout follows the Untitled UI File upload; values marked
+ * TODO_EXTRACT_FROM_FIGMA must be replaced with actual Figma data.
+ *
+ * This file defines the interface that all File Upload implementations must satisfy
+ * to match the Figma design specification (Single Source of Truth).
+ */
+
+/**
+ * Why a dropped or picked file was not added
+ */
+export type FileRejectionReason = 'type' | 'size' | 'count';
+
+/**
+ * Core interface that File Upload component must implement
+ */
+export interface FigmaFileUploadContract {
+  /**
+   * Supporting text below the dropzone
+   */
+  hint: string;
+
+  /**
+   * @default false
+   */
+  disabled: boolean;
+}
+
+/**
+ * Extended interface including web-specific properties
+ */
+export interface WebFileUploadContract extends FigmaFileUploadContract {
+  label: string;
+
+  name: string;
+
+  /**
+   * Extensions and MIME types, e.g. ".pdf,image/*"
+   */
+  accept: string;
+
+  /**
+   * @default false
+   */
+  multiple: boolean;
+
+  /**
+   * Bytes; 0 = no limit
+   * @default 0
+   */
+  maxSize: number;
+
+  /**
+   * @default false
+   */
+  required: boolean;
+
+  /**
+   * @default false
+   */
+  destructive: boolean;
+}
+
+/**
+ * Contract metadata
+ */
+export const FIGMA_FILE_UPLOAD_CONTRACT = {
+  componentId: 'TODO_EXTRACT_FROM_FIGMA',
+  componentName: 'File upload',
+  figmaFileId: 'CICp1MWc31lkvjX3jYo1rj',
+  extractedAt: 'PENDING_FIGMA_DATA',
+  version: '0.1.0',
+
+  properties: {
+    label: {
+      required: false,
+      default: '',
+    },
+    hint: {
+      required: false,
+      default: '',
+    },
+    name: {
+      required: false,
+      default: '',
+    },
+    accept: {
+      required: false,
+      default: '',
+    },
+    multiple: {
+      required: false,
+      default: false,
+    },
+    maxSize: {
+      required: false,
+      default: 0,
+    },
+    required: {
+      required: false,
+      default: false,
+    },
+    disabled: {
+      required: false,
+      default: false,
+    },
+    destructive: {
+      required: false,
+      default: false,
+    },
+  },
+
+  events: ['kds-file-add', 'kds-file-remove', 'kds-file-reject'] as const,
+
+  rejectionReasons: ['type', 'size', 'count'] as const,
+
+  designTokens: {
+    colors: {
+      'dropzone-border': '#E9EAEB',
+      'dropzone-border-active': 'var(--kds-color-brand-600)',
+      'dropzone-border-error': '#FDA29B',
+      'error-text': '#D92D20',
+    },
+    radius: '12px',
+  },
+
+  _extractionStatus: {
+    status: 'PENDING_FIGMA_DATA',
+    notes: 'File upload nodeId, dropzone layout and the completed / failed file states still need to be extracted from Figma',
+  },
+} as const;
+
+/**
+ * Get validation errors for a component implementation
+ */
+export function getContractValidationErrors(obj: any): string[] {
+  const errors: string[] = [];
+
+  if (obj == null || typeof obj !== 'object') {
+    errors.push('Object is null or not an object');
+    return errors;
+  }
+
+  if ('maxSize' in obj && !(typeof obj.maxSize === 'number' && obj.maxSize >= 0)) {
+    errors.push('Invalid maxSize value: must be a non-negative number of bytes');
+  }
+
+  for (const name of ['multiple', 'required', 'disabled', 'destructive']) {
+    if (name in obj && typeof obj[name] !== 'boolean') {
+      errors.push(`Invalid ${name} value: must be a boolean`);
+    }
+  }
+
+  if ('accept' in obj && typeof obj.accept !== 'string') {
+    errors.push('Invalid accept value: must be a comma-separated string');
+  }
+
+  return errors;
+}
+
+/**
+ * ⏳ PENDING EXTRACTION
+ *
+ * - [ ] File upload node ID
+ * - [ ] Supporting text inside or below the dropzone
+ * - [ ] Completed and failed file item states
+ */
@@ -80,6 +80,31 @@ export interface InputFieldProps {
 
   /** HTML required attribute for native form validation. */
   required: boolean;
+
+  /** Minimum number of characters (web-specific, constraint validation). */
+  minLength?: number;
+
+  /** Maximum number of characters (web-specific, constraint validation). */
+  maxLength?: number;
+
+  /** Regular expression the value must match (web-specific, constraint validation). */
+  pattern?: string;
+
+  /** Minimum value for numeric / date input types (web-specific). */
+  min?: string;
+
+  /** Maximum value for numeric / date input types (web-specific). */
+  max?: string;
+
+  /** Step granularity for numeric / date input types (web-specific). */
+  step?: string;
+
+  /**
+   * Custom validators run after the native constraints (web-specific, property only).
+   * A failing validator switches the field to the destructive state and
+   * shows its message as the hint.
+   */
+  validators?: Array<(value: string) => string | null | undefined>;
 }
 
 /** Default prop values */
@@ -0,0 +1,187 @@
+/**
+ * TypeScript contract for Menu component
+ * Source: .figma/menu.figma-contract.json
+ *
+ * ⚠️ STATUS: PENDING FIGMA DATA EXTRACTION
+ * Styles follow the Untitled UI "Dropdown" menu and the kds-select listbox;
+ * values marked TODO_EXTRACT_FROM_FIGMA must be replaced with actual Figma data.
+ *
+ * This file defines the interface that all Menu implementations must satisfy
+ * to match the Figma design specification (Single Source of Truth).
+ */
+
+/**
+ * Menu placements relative to the trigger
+ */
+export type MenuPlacement = 'bottom-start' | 'bottom-end' | 'top-start' | 'top-end';
+
+/**
+ * Menu item types
+ */
+export type MenuItemType = 'normal' | 'checkbox' | 'radio';
+
+/**
+ * Core interface that Menu component must implement
+ */
+export interface FigmaMenuContract {
+  /**
+   * @default false
+   */
+  open: boolean;
+}
+
+/**
+ * Extended interface including web-specific properties
+ */
+export interface WebMenuContract extends FigmaMenuContract {
+  /**
+   * Preferred position relative to the trigger (web-specific)
+   * @default 'bottom-start'
+   */
+  placement: MenuPlacement;
+
+  ariaLabel?: string | null;
+}
+
+/**
+ * Interface that each menu item must implement
+ */
+export interface WebMenuItemContract {
+  /**
+   * Value reported by kds-menu-select; defaults to the item text
+   */
+  value: string;
+
+  /**
+   * @default 'normal'
+   */
+  type: MenuItemType;
+
+  /**
+   * @default false
+   */
+  checked: boolean;
+
+  name: string;
+
+  shortcut: string;
+
+  /**
+   * @default false
+   */
+  disabled: boolean;
+}
+
+/**
+ * Validation helper: Check if a value is a valid MenuPlacement
+ */
+export function isValidMenuPlacement(value: string): value is MenuPlacement {
+  return ['bottom-start', 'bottom-end', 'top-start', 'top-end'].includes(value);
+}
+
+/**
+ * Validation helper: Check if a value is a valid MenuItemType
+ */
+export function isValidMenuItemType(value: string): value is MenuItemType {
+  return ['normal', 'checkbox', 'radio'].includes(value);
+}
+
+/**
+ * Contract metadata
+ */
+export const FIGMA_MENU_CONTRACT = {
+  componentId: 'TODO_EXTRACT_FROM_FIGMA',
+  componentName: 'Dropdown',
+  figmaFileId: 'CICp1MWc31lkvjX3jYo1rj',
+  extractedAt: 'PENDING_FIGMA_DATA',
+  version: '0.1.0',
+
+  properties: {
+    open: {
+      required: false,
+      default: false,
+    },
+    placement: {
+      values: ['bottom-start', 'bottom-end', 'top-start', 'top-end'] as const,
+      required: false,
+      default: 'bottom-start' as MenuPlacement,
+    },
+  },
+
+  itemProperties: {
+    type: {
+      values: ['normal', 'checkbox', 'radio'] as const,
+      required: false,
+      default: 'normal' as MenuItemType,
+    },
+    checked: {
+      required: false,
+      default: false,
+    },
+    disabled: {
+      required: false,
+      default: false,
+    },
+  },
+
+  events: ['kds-menu-select'] as const,
+
+  designTokens: {
+    colors: {
+      'background': '#FFFFFF',
+      'border': '#E9EAEB',
+      'item-text': '#414651',
+      'item-active-bg': '#FAFAFA',
+      'item-text-disabled': '#A4ACBA',
+      'shortcut-text': '#717680',
+    },
+    spacing: {
+      itemMargin: '1px 6px',
+      itemPadding: '9px 10px',
+    },
+    radius: {
+      menu: '8px',
+      item: '6px',
+    },
+  },
+
+  typography: {
+    item: 'Inter Medium, 14px/20px',
+    shortcut: 'Inter Medium, 12px/18px',
+  },
+
+  _extractionStatus: {
+    status: 'PENDING_FIGMA_DATA',
+    notes: 'Dropdown nodeId, item header/avatar variants and shortcut styling still need to be extracted from Figma',
+  },
+} as const;
+
+/**
+ * Get validation errors for a component implementation
+ */
+export function getContractValidationErrors(obj: any): string[] {
+  const errors: string[] = [];
+
+  if (obj == null || typeof obj !== 'object') {
+    errors.push('Object is null or not an object');
+    return errors;
+  }
+
+  if ('placement' in obj && !isValidMenuPlacement(obj.placement)) {
+    errors.push(`Invalid placement value: "${obj.placement}". Must be one of: bottom-start, bottom-end, top-start, top-end`);
+  }
+
+  if ('open' in obj && typeof obj.open !== 'boolean') {
+    errors.push('Invalid open value: must be a boolean');
+  }
+
+  return errors;
+}
+
+/**
+ * ⏳ PENDING EXTRACTION
+ *
+ * - [ ] Dropdown node ID
+ * - [ ] Menu header (avatar + name) and footer variants
+ * - [ ] Shortcut badge styling
+ */
@@ -0,0 +1,185 @@
+/**
+ * TypeScript contract for Pagination component
+ * Source: .figma/pagination.figma-contract.json
+ *
+ * ⚠️ STATUS: PENDING FIGMA DATA EXTRACTION
+ * Styles follow the Untitled UI button group pagination; values marked
+ * TODO_EXTRACT_FROM_FIGMA must be replaced with actual Figma data.
+ *
+ * This file defines the interface that all Pagination implementations must satisfy
+ * to match the Figma design specification (Single Source of Truth).
+ */
+
+/**
+ * Core interface that Pagination component must implement
+ */
+export interface FigmaPaginationContract {
+  /**
+   * @default 1
+   */
+  page: number;
+
+  /**
+   * @default false
+   */
+  showFirstLast: boolean;
+}
+
+/**
+ * Extended interface including web-specific properties
+ */
+export interface WebPaginationContract extends FigmaPaginationContract {
+  /**
+   * @default 0
+   */
+  total: number;
+
+  /**
+   * 0 derives the page count from total
+   * @default 0
+   */
+  pageCount: number;
+
+  /**
+   * @default 10
+   */
+  pageSize: number;
+
+  pageSizes: number[];
+
+  /**
+   * @default 1
+   */
+  siblingCount: number;
+
+  /**
+   * @default 'Rows per page'
+   */
+  pageSizeLabel: string;
+
+  /**
+   * @default false
+   */
+  disabled: boolean;
+
+  ariaLabel: string | null;
+}
+
+/**
+ * Validation helper: Check if a value is a whole number of at least `min`
+ */
+export function isValidCount(value: unknown, min = 0): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min;
+}
+
+/**
+ * Contract metadata
+ */
+export const FIGMA_PAGINATION_CONTRACT = {
+  componentId: 'TODO_EXTRACT_FROM_FIGMA',
+  componentName: 'Pagination',
+  figmaFileId: 'CICp1MWc31lkvjX3jYo1rj',
+  extractedAt: 'PENDING_FIGMA_DATA',
+  version: '0.1.0',
+
+  properties: {
+    page: {
+      required: false,
+      default: 1,
+    },
+    total: {
+      required: false,
+      default: 0,
+    },
+    pageCount: {
+      required: false,
+      default: 0,
+    },
+    pageSize: {
+      required: false,
+      default: 10,
+    },
+    siblingCount: {
+      required: false,
+      default: 1,
+    },
+    showFirstLast: {
+      required: false,
+      default: false,
+    },
+    pageSizeLabel: {
+      required: false,
+      default: 'Rows per page',
+    },
+    disabled: {
+      required: false,
+      default: false,
+    },
+  },
+
+  events: ['kds-page-change'] as const,
+
+  designTokens: {
+    colors: {
+      'background': '#FFFFFF',
+      'border': '#D5D7DA',
+      'text': '#414651',
+      'current-background': '#F9FAFB',
+    },
+    spacing: {
+      itemPadding: '10px 16px',
+      itemMinWidth: '40px',
+      gap: '12px',
+    },
+  },
+
+  typography: {
+    page: 'Inter Semibold, 14px/20px',
+    label: 'Inter Medium, 14px/20px',
+  },
+
+  _extractionStatus: {
+    status: 'PENDING_FIGMA_DATA',
+    notes: 'Pagination nodeId, the ellipsis cell and the page size selector still need to be extracted from Figma',
+  },
+} as const;
+
+/**
+ * Get validation errors for a component implementation
+ */
+export function getContractValidationErrors(obj: any): string[] {
+  const errors: string[] = [];
+
+  if (obj == null || typeof obj !== 'object') {
+    errors.push('Object is null or not an object');
+    return errors;
+  }
+
+  if ('page' in obj && !isValidCount(obj.page, 1)) {
+    errors.push(`Invalid page: ${obj.page}. Must be an integer of at least 1`);
+  }
+
+  for (const key of ['total', 'pageCount', 'siblingCount'] as const) {
+    if (key in obj && !isValidCount(obj[key])) {
+      errors.push(`Invalid ${key}: ${obj[key]}. Must be a non-negative integer`);
+    }
+  }
+
+  if ('pageSize' in obj && !isValidCount(obj.pageSize, 1)) {
+    errors.push(`Invalid pageSize: ${obj.pageSize}. Must be an integer of at least 1`);
+  }
+
+  if ('pageSizes' in obj && (!Array.isArray(obj.pageSizes) || !obj.pageSizes.every((size: unknown) => isValidCount(size, 1)))) {
+    errors.push('Invalid pageSizes: must be an array of positive integers');
+  }
+
+  return errors;
+}
+
+/**
+ * ⏳ PENDING EXTRACTION
+ *
+ * - [ ] Pagination node ID
+ * - [ ] Ellipsis cell and icon-only arrow controls
+ * - [ ] Page size selector placement
+ */
@@ -0,0 +1,170 @@
+/**
+ * TypeScript contract for Progress Bar component
+ * Source: .figma/progress-bar.figma-contract.json
+ *
+ * ⚠️ STATUS: PENDING FIGMA DATA EXTRACTION
+ * Styles follow the Untitled UI progress bar; values marked
+ * TODO_EXTRACT_FROM_FIGMA must be replaced with actual Figma data.
+ *
+ * This file defines the interface that all Progress Bar implementations must satisfy
+ * to match the Figma design specification (Single Source of Truth).
+ */
+
+/**
+ * Progress colors
+ */
+export type ProgressVariant = 'brand' | 'error';
+
+/**
+ * Positions of the percentage text
+ */
+export type ProgressValuePosition = 'none' | 'right' | 'bottom';
+
+/**
+ * Core interface that Progress Bar component must implement
+ */
+export interface FigmaProgressBarContract {
+  /**
+   * @default 0
+   */
+  value: number;
+
+  /**
+   * @default 'right'
+   */
+  valuePosition: ProgressValuePosition;
+}
+
+/**
+ * Extended interface including web-specific properties
+ */
+export interface WebProgressBarContract extends FigmaProgressBarContract {
+  /**
+   * @default 100
+   */
+  max: number;
+
+  label: string;
+
+  /**
+   * @default 'brand'
+   */
+  variant: ProgressVariant;
+
+  /**
+   * @default false
+   */
+  indeterminate: boolean;
+
+  ariaLabel?: string | null;
+}
+
+/**
+ * Validation helper: Check if a value is a valid ProgressVariant
+ */
+export function isValidProgressVariant(value: string): value is ProgressVariant {
+  return ['brand', 'error'].includes(value);
+}
+
+/**
+ * Validation helper: Check if a value is a valid ProgressValuePosition
+ */
+export function isValidProgressValuePosition(value: string): value is ProgressValuePosition {
+  return ['none', 'right', 'bottom'].includes(value);
+}
+
+/**
+ * Contract metadata
+ */
+export const FIGMA_PROGRESS_BAR_CONTRACT = {
+  componentId: 'TODO_EXTRACT_FROM_FIGMA',
+  componentName: 'Progress bar',
+  figmaFileId: 'CICp1MWc31lkvjX3jYo1rj',
+  extractedAt: 'PENDING_FIGMA_DATA',
+  version: '0.1.0',
+
+  properties: {
+    value: {
+      required: false,
+      default: 0,
+    },
+    max: {
+      required: false,
+      default: 100,
+    },
+    valuePosition: {
+      values: ['none', 'right', 'bottom'] as const,
+      required: false,
+      default: 'right' as ProgressValuePosition,
+    },
+    variant: {
+      values: ['brand', 'error'] as const,
+      required: false,
+      default: 'brand' as ProgressVariant,
+    },
+    indeterminate: {
+      required: false,
+      default: false,
+    },
+  },
+
+  designTokens: {
+    colors: {
+      'track': 'var(--kds-color-gray-200)',
+      'fill': 'var(--kds-color-brand-600)',
+      'fill-error': 'var(--kds-color-error-600)',
+    },
+    spacing: {
+      height: '8px',
+      gap: '12px',
+    },
+  },
+
+  typography: {
+    label: 'Inter Medium, 14px/20px',
+    value: 'Inter Medium, 14px/20px',
+  },
+
+  _extractionStatus: {
+    status: 'PENDING_FIGMA_DATA',
+    notes: 'Progress bar nodeId and the floating label positions still need to be extracted from Figma',
+  },
+} as const;
+
+/**
+ * Get validation errors for a component implementation
+ */
+export function getContractValidationErrors(obj: any): string[] {
+  const errors: string[] = [];
+
+  if (obj == null || typeof obj !== 'object') {
+    errors.push('Object is null or not an object');
+    return errors;
+  }
+
+  if ('variant' in obj && !isValidProgressVariant(obj.variant)) {
+    errors.push(`Invalid variant value: "${obj.variant}". Must be one of: brand, error`);
+  }
+
+  if ('valuePosition' in obj && !isValidProgressValuePosition(obj.valuePosition)) {
+    errors.push(`Invalid valuePosition value: "${obj.valuePosition}". Must be one of: none, right, bottom`);
+  }
+
+  if ('value' in obj && typeof obj.value !== 'number') {
+    errors.push('Invalid value: must be a number');
+  }
+
+  if ('max' in obj && (typeof obj.max !== 'number' || obj.max <= 0)) {
+    errors.push('Invalid max: must be a positive number');
+  }
+
+  return errors;
+}
+
+/**
+ * ⏳ PENDING EXTRACTION
+ *
+ * - [ ] Progress bar node ID
+ * - [ ] Top floating and Bottom floating label positions
+ * - [ ] Progress circle variant
+ */
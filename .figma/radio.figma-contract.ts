@@ -0,0 +1,247 @@
+/**
+ * TypeScript contract for Radio and Radio Group components
+ * Source: .figma/radio.figma-contract.json
+ *
+ * ⚠️ STATUS: PENDING FIGMA DATA EXTRACTION
+ * Sizes, colors and states come from the Checkbox contract; values marked
+ * TODO_EXTRACT_FROM_FIGMA must be replaced with actual Figma data.
+ *
+ * This file defines the interface that all Radio implementations must satisfy
+ * to match the Figma design specification (Single Source of Truth).
+ */
+
+import type { CheckboxSize } from './checkbox.figma-contract.js';
+
+/**
+ * Radio size variants (same as Checkbox)
+ *
+ * - sm: 16px × 16px radio
+ * - md: 20px × 20px radio (default)
+ */
+export type RadioSize = CheckboxSize;
+
+/**
+ * Option layout of a Radio group
+ *
+ * - vertical: options stacked (default)
+ * - horizontal: options in a wrapping row
+ */
+export type RadioGroupOrientation = 'vertical' | 'horizontal';
+
+/**
+ * Core interface that Radio component must implement
+ */
+export interface FigmaRadioContract {
+  /**
+   * Radio size variant
+   * @required
+   * @default 'md'
+   */
+  size: RadioSize;
+
+  /**
+   * Whether the radio is checked
+   * @required
+   * @default false
+   */
+  checked: boolean;
+
+  /**
+   * Whether the radio is disabled (Figma state "Disabled")
+   * @default false
+   */
+  disabled?: boolean;
+}
+
+/**
+ * Extended interface including web-specific properties
+ */
+export interface WebRadioContract extends FigmaRadioContract {
+  /**
+   * Error state (web-specific, like Checkbox error)
+   */
+  error?: boolean;
+
+  /**
+   * Name for form submission; radios sharing a name form one set (web-specific)
+   */
+  name?: string;
+
+  /**
+   * Value submitted when checked (web-specific)
+   * @default 'on'
+   */
+  value?: string;
+
+  /**
+   * Whether a radio of the set must be checked (web-specific)
+   */
+  required?: boolean;
+
+  /**
+   * ARIA label when there is no label text (web-specific)
+   */
+  ariaLabel?: string | null;
+
+  /**
+   * ARIA described-by (web-specific)
+   */
+  ariaDescribedBy?: string;
+}
+
+/**
+ * Interface that Radio Group component must implement
+ */
+export interface WebRadioGroupContract {
+  label?: string;
+  hint?: string;
+
+  /**
+   * @default 'vertical'
+   */
+  orientation: RadioGroupOrientation;
+
+  /**
+   * @default 'md'
+   */
+  size: RadioSize;
+
+  name?: string;
+
+  /**
+   * Value of the checked option ('' when none is checked)
+   */
+  value: string;
+
+  required?: boolean;
+  disabled?: boolean;
+  error?: boolean;
+  ariaLabel?: string | null;
+}
+
+/**
+ * Validation helper: Check if a value is a valid RadioSize
+ */
+export function isValidRadioSize(value: string): value is RadioSize {
+  return ['sm', 'md'].includes(value);
+}
+
+/**
+ * Validation helper: Check if a value is a valid RadioGroupOrientation
+ */
+export function isValidRadioGroupOrientation(value: string): value is RadioGroupOrientation {
+  return ['vertical', 'horizontal'].includes(value);
+}
+
+/**
+ * Contract metadata
+ */
+export const FIGMA_RADIO_CONTRACT = {
+  componentId: 'TODO_EXTRACT_FROM_FIGMA',
+  componentName: 'Radio',
+  figmaFileId: 'CICp1MWc31lkvjX3jYo1rj',
+  extractedAt: 'PENDING_FIGMA_DATA',
+  version: '0.1.0',
+
+  properties: {
+    size: {
+      required: true,
+      default: 'md' as RadioSize,
+      values: ['sm', 'md'] as const,
+    },
+    checked: {
+      required: true,
+      default: false,
+    },
+    disabled: {
+      required: false,
+      default: false,
+    },
+  },
+
+  group: {
+    componentName: 'Radio group',
+    properties: {
+      orientation: {
+        required: false,
+        default: 'vertical' as RadioGroupOrientation,
+        values: ['vertical', 'horizontal'] as const,
+      },
+      size: {
+        required: false,
+        default: 'md' as RadioSize,
+        values: ['sm', 'md'] as const,
+      },
+      required: {
+        required: false,
+        default: false,
+      },
+      disabled: {
+        required: false,
+        default: false,
+      },
+    },
+  },
+
+  designTokens: {
+    colors: {
+      'border-default': '#D5D7DA',
+      'bg-checked': '#7F56D9',
+      'bg-hover': '#F9F5FF',
+      'dot': '#FFFFFF',
+      'bg-disabled': '#F5F5F5',
+      'border-disabled': '#E9EAEB',
+      'error': '#D92D20',
+      'focus-ring': '#F4EBFF',
+    },
+    spacing: {
+      gap: '12px',
+      groupGap: '12px',
+      groupGapHorizontal: '24px',
+    },
+  },
+
+  typography: {
+    sm: 'Inter Medium, 14px/20px',
+    md: 'Inter Medium, 16px/24px',
+  },
+
+  _extractionStatus: {
+    status: 'PENDING_FIGMA_DATA',
+    notes: 'Radio nodeId, dot sizes and group spacing still need to be extracted from Figma',
+  },
+} as const;
+
+/**
+ * Get validation errors for a component implementation
+ */
+export function getContractValidationErrors(obj: any): string[] {
+  const errors: string[] = [];
+
+  if (obj == null || typeof obj !== 'object') {
+    errors.push('Object is null or not an object');
+    return errors;
+  }
+
+  if ('size' in obj && !isValidRadioSize(obj.size)) {
+    errors.push(`Invalid size value: "${obj.size}". Must be one of: ${FIGMA_RADIO_CONTRACT.properties.size.values.join(', ')}`);
+  }
+
+  if ('checked' in obj && typeof obj.checked !== 'boolean') {
+    errors.push('Invalid checked value: must be a boolean');
+  }
+
+  if ('orientation' in obj && !isValidRadioGroupOrientation(obj.orientation)) {
+    errors.push(`Invalid orientation value: "${obj.orientation}". Must be one of: ${FIGMA_RADIO_CONTRACT.group.properties.orientation.values.join(', ')}`);
+  }
+
+  return errors;
+}
+
+/**
+ * ⏳ PENDING EXTRACTION
+ *
+ * - [ ] Radio node ID
+ * - [ ] Inner dot size per size variant
+ * - [ ] Radio group frame node ID and spacing
+ */
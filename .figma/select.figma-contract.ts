@@ -0,0 +1,201 @@
+/**
+ * TypeScript contract for Select component
+ * Source: .figma/select.figma-contract.json
+ *
+ * ⚠️ STATUS: PENDING FIGMA DATA EXTRACTION
+ * Field styling comes from the Input field contract; values marked
+ * TODO_EXTRACT_FROM_FIGMA must be replaced with actual Figma data.
+ *
+ * This file defines the interface that all Select implementations must satisfy
+ * to match the Figma design specification (Single Source of Truth).
+ */
+
+/**
+ * Core interface that Select component must implement
+ */
+export interface FigmaSelectContract {
+  /**
+   * Label text shown above the trigger
+   */
+  label?: string;
+
+  /**
+   * Hint text shown below the trigger (error message in destructive state)
+   */
+  hint?: string;
+
+  /**
+   * Text shown while nothing is selected
+   */
+  placeholder?: string;
+
+  /**
+   * Error state
+   * @default false
+   */
+  destructive?: boolean;
+
+  /**
+   * Whether the select is disabled (Figma state "Disabled")
+   * @default false
+   */
+  disabled?: boolean;
+}
+
+/**
+ * Extended interface including web-specific properties
+ */
+export interface WebSelectContract extends FigmaSelectContract {
+  /**
+   * Value of the selected option ('' when none is selected)
+   */
+  value: string;
+
+  /**
+   * Values of all selected options
+   */
+  values: string[];
+
+  /**
+   * Allow selecting several options (web-specific)
+   * @default false
+   */
+  multiple?: boolean;
+
+  /**
+   * Name for form submission (web-specific)
+   */
+  name?: string;
+
+  /**
+   * Whether an option must be selected (web-specific)
+   */
+  required?: boolean;
+
+  /**
+   * ARIA label when there is no label text (web-specific)
+   */
+  ariaLabel?: string | null;
+}
+
+/**
+ * Interface that the option element must implement
+ */
+export interface WebOptionContract {
+  value: string;
+  label: string;
+
+  /**
+   * @default false
+   */
+  selected: boolean;
+
+  /**
+   * @default false
+   */
+  disabled: boolean;
+}
+
+/**
+ * Contract metadata
+ */
+export const FIGMA_SELECT_CONTRACT = {
+  componentId: 'TODO_EXTRACT_FROM_FIGMA',
+  componentName: 'Select',
+  figmaFileId: 'CICp1MWc31lkvjX3jYo1rj',
+  extractedAt: 'PENDING_FIGMA_DATA',
+  version: '0.1.0',
+
+  properties: {
+    destructive: {
+      required: false,
+      default: false,
+    },
+    disabled: {
+      required: false,
+      default: false,
+    },
+  },
+
+  option: {
+    componentName: 'Select menu item',
+    properties: {
+      selected: {
+        required: false,
+        default: false,
+      },
+      disabled: {
+        required: false,
+        default: false,
+      },
+    },
+  },
+
+  designTokens: {
+    colors: {
+      'border-default': '#D5D7DA',
+      'border-focused': '#D6BBFB',
+      'border-error': '#FDA29B',
+      'focus-ring': '#F4EBFF',
+      'focus-ring-error': '#FEF3F2',
+      'text': '#181D27',
+      'placeholder': '#717680',
+      'listbox-border': '#E9EAEB',
+      'option-active-bg': '#FAFAFA',
+      'check': '#7F56D9',
+    },
+    spacing: {
+      triggerPadding: '10px 14px',
+      listboxOffset: '4px',
+      optionPadding: '10px 8px',
+    },
+  },
+
+  typography: {
+    label: 'Inter Medium, 14px/20px',
+    value: 'Inter Regular, 16px/24px',
+    option: 'Inter Medium, 16px/24px',
+    hint: 'Inter Regular, 14px/20px',
+  },
+
+  _extractionStatus: {
+    status: 'PENDING_FIGMA_DATA',
+    notes: 'Select nodeId, listbox measurements and group label typography still need to be extracted from Figma',
+  },
+} as const;
+
+/**
+ * Get validation errors for a component implementation
+ */
+export function getContractValidationErrors(obj: any): string[] {
+  const errors: string[] = [];
+
+  if (obj == null || typeof obj !== 'object') {
+    errors.push('Object is null or not an object');
+    return errors;
+  }
+
+  for (const name of ['destructive', 'disabled', 'multiple']) {
+    if (name in obj && typeof obj[name] !== 'boolean') {
+      errors.push(`Invalid ${name} value: must be a boolean`);
+    }
+  }
+
+  if ('values' in obj && !Array.isArray(obj.values)) {
+    errors.push('Invalid values value: must be an array of strings');
+  }
+
+  if ('multiple' in obj && !obj.multiple && Array.isArray(obj.values) && obj.values.length > 1) {
+    errors.push('Only one value can be selected unless multiple is set');
+  }
+
+  return errors;
+}
+
+/**
+ * ⏳ PENDING EXTRACTION
+ *
+ * - [ ] Select node ID
+ * - [ ] Dropdown menu (listbox) node ID, max height and shadow
+ * - [ ] Group label typography
+ */
@@ -0,0 +1,210 @@
+/**
+ * TypeScript contract for Slider component
+ * Source: .figma/slider.figma-contract.json
+ *
+ * ⚠️ STATUS: PENDING FIGMA DATA EXTRACTION
+ * Styles follow the Untitled UI slider; values marked
+ * TODO_EXTRACT_FROM_FIGMA must be replaced with actual Figma data.
+ *
+ * This file defines the interface that all Slider implementations must satisfy
+ * to match the Figma design specification (Single Source of Truth).
+ */
+
+/**
+ * When the value bubble is shown
+ */
+export type SliderTooltip = 'auto' | 'always' | 'none';
+
+/**
+ * Core interface that Slider component must implement
+ */
+export interface FigmaSliderContract {
+  /**
+   * @default false
+   */
+  range: boolean;
+
+  /**
+   * @default 'auto'
+   */
+  tooltip: SliderTooltip;
+}
+
+/**
+ * Extended interface including web-specific properties
+ */
+export interface WebSliderContract extends FigmaSliderContract {
+  /**
+   * @default 0
+   */
+  value: number;
+
+  /**
+   * @default 0
+   */
+  valueStart: number;
+
+  /**
+   * @default 100
+   */
+  valueEnd: number;
+
+  /**
+   * @default 0
+   */
+  min: number;
+
+  /**
+   * @default 100
+   */
+  max: number;
+
+  /**
+   * @default 1
+   */
+  step: number;
+
+  marks: number[];
+
+  minLabel: string;
+
+  maxLabel: string;
+
+  label: string;
+
+  name: string;
+
+  /**
+   * @default false
+   */
+  disabled: boolean;
+
+  ariaLabel?: string | null;
+}
+
+/**
+ * Validation helper: Check if a value is a valid SliderTooltip
+ */
+export function isValidSliderTooltip(value: string): value is SliderTooltip {
+  return ['auto', 'always', 'none'].includes(value);
+}
+
+/**
+ * Contract metadata
+ */
+export const FIGMA_SLIDER_CONTRACT = {
+  componentId: 'TODO_EXTRACT_FROM_FIGMA',
+  componentName: 'Slider',
+  figmaFileId: 'CICp1MWc31lkvjX3jYo1rj',
+  extractedAt: 'PENDING_FIGMA_DATA',
+  version: '0.1.0',
+
+  properties: {
+    value: {
+      required: false,
+      default: 0,
+    },
+    range: {
+      required: false,
+      default: false,
+    },
+    valueStart: {
+      required: false,
+      default: 0,
+    },
+    valueEnd: {
+      required: false,
+      default: 100,
+    },
+    min: {
+      required: false,
+      default: 0,
+    },
+    max: {
+      required: false,
+      default: 100,
+    },
+    step: {
+      required: false,
+      default: 1,
+    },
+    tooltip: {
+      values: ['auto', 'always', 'none'] as const,
+      required: false,
+      default: 'auto' as SliderTooltip,
+    },
+    disabled: {
+      required: false,
+      default: false,
+    },
+  },
+
+  events: ['kds-slider-input', 'kds-slider-change'] as const,
+
+  designTokens: {
+    colors: {
+      'track': 'var(--kds-color-gray-200)',
+      'fill': 'var(--kds-color-brand-600)',
+      'thumb-border': 'var(--kds-color-brand-600)',
+      'thumb-background': '#FFFFFF',
+      'disabled': '#D5D7DA',
+    },
+    spacing: {
+      trackHeight: '8px',
+      thumbSize: '24px',
+      tooltipOffset: '4px',
+    },
+  },
+
+  typography: {
+    label: 'Inter Medium, 14px/20px',
+    scale: 'Inter Regular, 12px/18px',
+  },
+
+  _extractionStatus: {
+    status: 'PENDING_FIGMA_DATA',
+    notes: 'Slider nodeId, the range variant and the label placements still need to be extracted from Figma',
+  },
+} as const;
+
+/**
+ * Get validation errors for a component implementation
+ */
+export function getContractValidationErrors(obj: any): string[] {
+  const errors: string[] = [];
+
+  if (obj == null || typeof obj !== 'object') {
+    errors.push('Object is null or not an object');
+    return errors;
+  }
+
+  if ('tooltip' in obj && !isValidSliderTooltip(obj.tooltip)) {
+    errors.push(`Invalid tooltip value: "${obj.tooltip}". Must be one of: auto, always, none`);
+  }
+
+  if ('min' in obj && 'max' in obj && !(obj.max > obj.min)) {
+    errors.push('Invalid max: must be greater than min');
+  }
+
+  if ('step' in obj && (typeof obj.step !== 'number' || obj.step <= 0)) {
+    errors.push('Invalid step: must be a positive number');
+  }
+
+  if ('marks' in obj && !Array.isArray(obj.marks)) {
+    errors.push('Invalid marks: must be an array of numbers');
+  }
+
+  if (obj.range && 'valueStart' in obj && 'valueEnd' in obj && obj.valueStart > obj.valueEnd) {
+    errors.push('Invalid range: valueStart must not exceed valueEnd');
+  }
+
+  return errors;
+}
+
+/**
+ * ⏳ PENDING EXTRACTION
+ *
+ * - [ ] Slider node ID
+ * - [ ] Range (two-handle) variant name
+ * - [ ] Label placements (bottom, floating)
+ */
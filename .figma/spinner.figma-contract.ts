@@ -0,0 +1,127 @@
+/**
+ * TypeScript contract for Spinner component
+ * Source: .figma/spinner.figma-contract.json
+ *
+ * ⚠️ STATUS: PENDING FIGMA DATA EXTRACTION
+ * Styles follow the Untitled UI "line-simple" loading indicator; values marked
+ * TODO_EXTRACT_FROM_FIGMA must be replaced with actual Figma data.
+ *
+ * This file defines the interface that all Spinner implementations must satisfy
+ * to match the Figma design specification (Single Source of Truth).
+ */
+
+import type { ProgressVariant } from './progress-bar.figma-contract.js';
+
+/**
+ * Spinner sizes (same as ButtonSize)
+ */
+export type SpinnerSize = 'sm' | 'md' | 'lg' | 'xl';
+
+/**
+ * Core interface that Spinner component must implement
+ */
+export interface FigmaSpinnerContract {
+  /**
+   * @default 'md'
+   */
+  size: SpinnerSize;
+}
+
+/**
+ * Extended interface including web-specific properties
+ */
+export interface WebSpinnerContract extends FigmaSpinnerContract {
+  /**
+   * @default 'brand'
+   */
+  variant: ProgressVariant;
+
+  /**
+   * Accessible name (web-specific)
+   * @default 'Loading'
+   */
+  label: string;
+}
+
+/**
+ * Validation helper: Check if a value is a valid SpinnerSize
+ */
+export function isValidSpinnerSize(value: string): value is SpinnerSize {
+  return ['sm', 'md', 'lg', 'xl'].includes(value);
+}
+
+/**
+ * Contract metadata
+ */
+export const FIGMA_SPINNER_CONTRACT = {
+  componentId: 'TODO_EXTRACT_FROM_FIGMA',
+  componentName: 'Loading indicator',
+  figmaFileId: 'CICp1MWc31lkvjX3jYo1rj',
+  extractedAt: 'PENDING_FIGMA_DATA',
+  version: '0.1.0',
+
+  properties: {
+    size: {
+      values: ['sm', 'md', 'lg', 'xl'] as const,
+      required: false,
+      default: 'md' as SpinnerSize,
+    },
+    variant: {
+      values: ['brand', 'error'] as const,
+      required: false,
+      default: 'brand' as ProgressVariant,
+    },
+    label: {
+      required: false,
+      default: 'Loading',
+    },
+  },
+
+  designTokens: {
+    colors: {
+      'arc': 'var(--kds-color-brand-600)',
+      'arc-error': 'var(--kds-color-error-600)',
+    },
+    sizes: {
+      sm: '16px',
+      md: '20px',
+      lg: '24px',
+      xl: '32px',
+    },
+  },
+
+  _extractionStatus: {
+    status: 'PENDING_FIGMA_DATA',
+    notes: 'Loading indicator nodeId, sizes and the line-spinner/dot-circle styles still need to be extracted from Figma',
+  },
+} as const;
+
+/**
+ * Get validation errors for a component implementation
+ */
+export function getContractValidationErrors(obj: any): string[] {
+  const errors: string[] = [];
+
+  if (obj == null || typeof obj !== 'object') {
+    errors.push('Object is null or not an object');
+    return errors;
+  }
+
+  if ('size' in obj && !isValidSpinnerSize(obj.size)) {
+    errors.push(`Invalid size value: "${obj.size}". Must be one of: sm, md, lg, xl`);
+  }
+
+  if ('variant' in obj && !['brand', 'error'].includes(obj.variant)) {
+    errors.push(`Invalid variant value: "${obj.variant}". Must be one of: brand, error`);
+  }
+
+  return errors;
+}
+
+/**
+ * ⏳ PENDING EXTRACTION
+ *
+ * - [ ] Loading indicator node ID
+ * - [ ] Pixel sizes per size variant
+ * - [ ] line-spinner and dot-circle styles
+ */
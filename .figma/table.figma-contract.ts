@@ -0,0 +1,218 @@
+/**
+ * TypeScript contract for Table component
+ * Source: .figma/table.figma-contract.json
+ *
+ * ⚠️ STATUS: PENDING FIGMA DATA EXTRACTION
+ * Styles follow the Untitled UI table; values marked
+ * TODO_EXTRACT_FROM_FIGMA must be replaced with actual Figma data.
+ *
+ * This file defines the interface that all Table implementations must satisfy
+ * to match the Figma design specification (Single Source of Truth).
+ */
+
+export type TableSortDirection = 'ascending' | 'descending';
+
+/**
+ * Core interface that Table component must implement
+ */
+export interface FigmaTableContract {
+  columns: Array<{ key: string; label: string; sortable?: boolean; align?: 'start' | 'center' | 'end'; width?: string }>;
+
+  rows: Array<Record<string, unknown>>;
+
+  sortKey: string;
+
+  /**
+   * @default 'ascending'
+   */
+  sortDirection: TableSortDirection;
+
+  /**
+   * @default false
+   */
+  selectable: boolean;
+
+  selectedKeys: string[];
+}
+
+/**
+ * Extended interface including web-specific properties
+ */
+export interface WebTableContract extends FigmaTableContract {
+  /**
+   * @default 'id'
+   */
+  rowKey: string;
+
+  /**
+   * @default false
+   */
+  manualSort: boolean;
+
+  /**
+   * @default false
+   */
+  loading: boolean;
+
+  /**
+   * @default 'Loading'
+   */
+  loadingLabel: string;
+
+  /**
+   * @default 'No results'
+   */
+  emptyText: string;
+
+  /**
+   * @default false
+   */
+  stickyHeader: boolean;
+
+  /**
+   * @default false
+   */
+  virtualize: boolean;
+
+  /**
+   * @default 52
+   */
+  rowHeight: number;
+
+  ariaLabel: string | null;
+}
+
+/**
+ * Validation helper: Check if value is a valid sort direction
+ */
+export function isValidSortDirection(value: string): value is TableSortDirection {
+  return ['ascending', 'descending'].includes(value);
+}
+
+/**
+ * Contract metadata
+ */
+export const FIGMA_TABLE_CONTRACT = {
+  componentId: 'TODO_EXTRACT_FROM_FIGMA',
+  componentName: 'Table',
+  figmaFileId: 'CICp1MWc31lkvjX3jYo1rj',
+  extractedAt: 'PENDING_FIGMA_DATA',
+  version: '0.1.0',
+
+  properties: {
+    rowKey: {
+      required: false,
+      default: 'id',
+    },
+    sortKey: {
+      required: false,
+      default: '',
+    },
+    sortDirection: {
+      required: false,
+      default: 'ascending',
+    },
+    manualSort: {
+      required: false,
+      default: false,
+    },
+    selectable: {
+      required: false,
+      default: false,
+    },
+    loading: {
+      required: false,
+      default: false,
+    },
+    emptyText: {
+      required: false,
+      default: 'No results',
+    },
+    stickyHeader: {
+      required: false,
+      default: false,
+    },
+    virtualize: {
+      required: false,
+      default: false,
+    },
+    rowHeight: {
+      required: false,
+      default: 52,
+    },
+  },
+
+  events: ['kds-table-sort', 'kds-table-selection-change'] as const,
+
+  designTokens: {
+    colors: {
+      'background': '#FFFFFF',
+      'border': '#E9EAEB',
+      'header-background': '#FAFAFA',
+      'header-text': '#535862',
+      'cell-text': '#535862',
+      'row-hover': '#FAFAFA',
+    },
+    spacing: {
+      headerPadding: '12px 24px',
+      cellPadding: '16px 24px',
+      rowHeight: '52px',
+    },
+  },
+
+  typography: {
+    header: 'Inter Semibold, 12px/18px',
+    cell: 'Inter Regular, 14px/20px',
+  },
+
+  _extractionStatus: {
+    status: 'PENDING_FIGMA_DATA',
+    notes: 'Table nodeId, the loading and empty states and the sort arrow still need to be extracted from Figma',
+  },
+} as const;
+
+/**
+ * Get validation errors for a component implementation
+ */
+export function getContractValidationErrors(obj: any): string[] {
+  const errors: string[] = [];
+
+  if (obj == null || typeof obj !== 'object') {
+    errors.push('Object is null or not an object');
+    return errors;
+  }
+
+  if ('columns' in obj) {
+    if (!Array.isArray(obj.columns) || !obj.columns.every((col: any) => typeof col?.key === 'string' && typeof col?.label === 'string')) {
+      errors.push('Invalid columns: must be an array of objects with a key and a label');
+    } else if (new Set(obj.columns.map((col: any) => col.key)).size !== obj.columns.length) {
+      errors.push('Invalid columns: keys must be unique');
+    }
+  }
+
+  if ('rows' in obj && !Array.isArray(obj.rows)) {
+    errors.push('Invalid rows: must be an array');
+  }
+
+  if ('sortDirection' in obj && !isValidSortDirection(obj.sortDirection)) {
+    errors.push(`Invalid sortDirection: "${obj.sortDirection}". Must be one of: ascending, descending`);
+  }
+
+  if ('selectedKeys' in obj && (!Array.isArray(obj.selectedKeys) || !obj.selectedKeys.every((key: unknown) => typeof key === 'string'))) {
+    errors.push('Invalid selectedKeys: must be an array of strings');
+  }
+
+  if ('rowHeight' in obj && !(typeof obj.rowHeight === 'number' && obj.rowHeight > 0)) {
+    errors.push(`Invalid rowHeight: ${obj.rowHeight}. Must be a positive number`);
+  }
+
+  return errors;
+}
+
+/**
+ * ⏳ PENDING EXTRACTION
+ *
+ * - [ ] Table node ID
+ * - [ ] Sort arrow and header cell states
+ * - [ ] Loading and empty states
+ */
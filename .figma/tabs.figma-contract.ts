@@ -0,0 +1,169 @@
+/**
+ * TypeScript contract for Tabs component
+ * Source: .figma/tabs.figma-contract.json
+ *
+ * ⚠️ STATUS: PENDING FIGMA DATA EXTRACTION
+ * Styles follow the Untitled UI "Underline" tabs type; values marked
+ * TODO_EXTRACT_FROM_FIGMA must be replaced with actual Figma data.
+ *
+ * This file defines the interface that all Tabs implementations must satisfy
+ * to match the Figma design specification (Single Source of Truth).
+ */
+
+/**
+ * Tab list layouts
+ */
+export type TabsOrientation = 'horizontal' | 'vertical';
+
+/**
+ * Keyboard activation modes
+ */
+export type TabsActivation = 'automatic' | 'manual';
+
+/**
+ * Core interface that Tabs component must implement
+ */
+export interface FigmaTabsContract {
+  /**
+   * Layout of the tab list
+   * @default 'horizontal'
+   */
+  orientation: TabsOrientation;
+}
+
+/**
+ * Extended interface including web-specific properties
+ */
+export interface WebTabsContract extends FigmaTabsContract {
+  /**
+   * Value of the selected tab (web-specific)
+   */
+  value: string;
+
+  /**
+   * Whether arrow keys also select the tab (web-specific)
+   * @default 'automatic'
+   */
+  activation: TabsActivation;
+
+  ariaLabel?: string | null;
+}
+
+/**
+ * Interface that each tab must implement
+ */
+export interface WebTabContract {
+  /**
+   * Value identifying the tab; defaults to its index
+   */
+  value: string;
+
+  /**
+   * @default false
+   */
+  disabled: boolean;
+}
+
+/**
+ * Validation helper: Check if a value is a valid TabsOrientation
+ */
+export function isValidTabsOrientation(value: string): value is TabsOrientation {
+  return ['horizontal', 'vertical'].includes(value);
+}
+
+/**
+ * Validation helper: Check if a value is a valid TabsActivation
+ */
+export function isValidTabsActivation(value: string): value is TabsActivation {
+  return ['automatic', 'manual'].includes(value);
+}
+
+/**
+ * Contract metadata
+ */
+export const FIGMA_TABS_CONTRACT = {
+  componentId: 'TODO_EXTRACT_FROM_FIGMA',
+  componentName: 'Tabs',
+  figmaFileId: 'CICp1MWc31lkvjX3jYo1rj',
+  extractedAt: 'PENDING_FIGMA_DATA',
+  version: '0.1.0',
+
+  properties: {
+    orientation: {
+      values: ['horizontal', 'vertical'] as const,
+      required: false,
+      default: 'horizontal' as TabsOrientation,
+    },
+    activation: {
+      values: ['automatic', 'manual'] as const,
+      required: false,
+      default: 'automatic' as TabsActivation,
+    },
+  },
+
+  tabProperties: {
+    disabled: {
+      required: false,
+      default: false,
+    },
+  },
+
+  events: ['kds-tabs-change'] as const,
+
+  designTokens: {
+    colors: {
+      'text': '#717680',
+      'text-selected': '#6941C6',
+      'indicator': '#7F56D9',
+      'border': '#E9EAEB',
+      'text-disabled': '#A4ACBA',
+    },
+    spacing: {
+      gap: '12px',
+      panelGap: '24px',
+    },
+  },
+
+  typography: {
+    tab: 'Inter Semibold, 14px/20px',
+  },
+
+  _extractionStatus: {
+    status: 'PENDING_FIGMA_DATA',
+    notes: 'Tabs nodeId, sizes and the Button types still need to be extracted from Figma',
+  },
+} as const;
+
+/**
+ * Get validation errors for a component implementation
+ */
+export function getContractValidationErrors(obj: any): string[] {
+  const errors: string[] = [];
+
+  if (obj == null || typeof obj !== 'object') {
+    errors.push('Object is null or not an object');
+    return errors;
+  }
+
+  if ('orientation' in obj && !isValidTabsOrientation(obj.orientation)) {
+    errors.push(`Invalid orientation value: "${obj.orientation}". Must be one of: horizontal, vertical`);
+  }
+
+  if ('activation' in obj && !isValidTabsActivation(obj.activation)) {
+    errors.push(`Invalid activation value: "${obj.activation}". Must be one of: automatic, manual`);
+  }
+
+  if ('value' in obj && typeof obj.value !== 'string') {
+    errors.push('Invalid value: must be a string');
+  }
+
+  return errors;
+}
+
+/**
+ * ⏳ PENDING EXTRACTION
+ *
+ * - [ ] Tabs node ID
+ * - [ ] Sizes (sm / md)
+ * - [ ] Button brand, Button gray, Button white border and Button minimal types
+ */
@@ -0,0 +1,170 @@
+/**
+ * TypeScript contract for Textarea component
+ * Source: .figma/textarea.figma-contract.json
+ *
+ * ⚠️ STATUS: PENDING FIGMA DATA EXTRACTION
+ * Field styling comes from the Input field contract; values marked
+ * TODO_EXTRACT_FROM_FIGMA must be replaced with actual Figma data.
+ *
+ * This file defines the interface that all Textarea implementations must satisfy
+ * to match the Figma design specification (Single Source of Truth).
+ */
+
+/**
+ * Core interface that Textarea component must implement
+ */
+export interface FigmaTextareaContract {
+  /**
+   * Label text shown above the textarea
+   */
+  label?: string;
+
+  /**
+   * Hint text shown below the textarea (error message in destructive state)
+   */
+  hint?: string;
+
+  /**
+   * Text shown while the textarea is empty
+   */
+  placeholder?: string;
+
+  /**
+   * Error state
+   * @default false
+   */
+  destructive?: boolean;
+
+  /**
+   * Whether the textarea is disabled (Figma state "Disabled")
+   * @default false
+   */
+  disabled?: boolean;
+}
+
+/**
+ * Extended interface including web-specific properties
+ */
+export interface WebTextareaContract extends FigmaTextareaContract {
+  value: string;
+  name?: string;
+  required?: boolean;
+  minLength?: number;
+
+  /**
+   * Maximum number of characters; shows the character counter (web-specific)
+   */
+  maxLength?: number;
+
+  /**
+   * Visible lines when empty (web-specific)
+   * @default 4
+   */
+  minRows: number;
+
+  /**
+   * Lines the textarea grows to before it scrolls (web-specific)
+   */
+  maxRows?: number;
+
+  ariaLabel?: string | null;
+}
+
+/**
+ * Validation helper: Check if a value is a valid row count
+ */
+export function isValidRowCount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 1;
+}
+
+/**
+ * Contract metadata
+ */
+export const FIGMA_TEXTAREA_CONTRACT = {
+  componentId: 'TODO_EXTRACT_FROM_FIGMA',
+  componentName: 'Textarea input field',
+  figmaFileId: 'CICp1MWc31lkvjX3jYo1rj',
+  extractedAt: 'PENDING_FIGMA_DATA',
+  version: '0.1.0',
+
+  properties: {
+    destructive: {
+      required: false,
+      default: false,
+    },
+    disabled: {
+      required: false,
+      default: false,
+    },
+    minRows: {
+      required: false,
+      default: 4,
+    },
+  },
+
+  designTokens: {
+    colors: {
+      'border-default': '#D5D7DA',
+      'border-focused': '#D6BBFB',
+      'border-error': '#FDA29B',
+      'focus-ring': '#F4EBFF',
+      'focus-ring-error': '#FEF3F2',
+      'text': '#181D27',
+      'placeholder': '#717680',
+      'hint': '#535862',
+      'error': '#D92D20',
+    },
+    spacing: {
+      padding: '12px 14px',
+      gap: '6px',
+    },
+  },
+
+  typography: {
+    label: 'Inter Medium, 14px/20px',
+    value: 'Inter Regular, 16px/24px',
+    hint: 'Inter Regular, 14px/20px',
+    counter: 'Inter Regular, 14px/20px',
+  },
+
+  _extractionStatus: {
+    status: 'PENDING_FIGMA_DATA',
+    notes: 'Textarea nodeId, padding and default height still need to be extracted from Figma',
+  },
+} as const;
+
+/**
+ * Get validation errors for a component implementation
+ */
+export function getContractValidationErrors(obj: any): string[] {
+  const errors: string[] = [];
+
+  if (obj == null || typeof obj !== 'object') {
+    errors.push('Object is null or not an object');
+    return errors;
+  }
+
+  for (const name of ['destructive', 'disabled']) {
+    if (name in obj && typeof obj[name] !== 'boolean') {
+      errors.push(`Invalid ${name} value: must be a boolean`);
+    }
+  }
+
+  if ('minRows' in obj && !isValidRowCount(obj.minRows)) {
+    errors.push(`Invalid minRows value: "${obj.minRows}". Must be a whole number of at least 1`);
+  }
+
+  if (obj.maxRows != null && !isValidRowCount(obj.maxRows)) {
+    errors.push(`Invalid maxRows value: "${obj.maxRows}". Must be a whole number of at least 1`);
+  }
+
+  return errors;
+}
+
+/**
+ * ⏳ PENDING EXTRACTION
+ *
+ * - [ ] Textarea input field node ID
+ * - [ ] Padding and default height
+ * - [ ] Resize handle (not rendered in code: the textarea auto-grows)
+ */
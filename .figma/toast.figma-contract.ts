@@ -0,0 +1,177 @@
+/**
+ * TypeScript contract for Toast component
+ * Source: .figma/toast.figma-contract.json
+ *
+ * ⚠️ STATUS: PENDING FIGMA DATA EXTRACTION
+ * Layout follows the Untitled UI Notification; values marked
+ * TODO_EXTRACT_FROM_FIGMA must be replaced with actual Figma data.
+ *
+ * This file defines the interface that all Toast implementations must satisfy
+ * to match the Figma design specification (Single Source of Truth).
+ */
+
+/**
+ * Toast color variants (Badge palette)
+ */
+export type ToastVariant = 'success' | 'error' | 'warning' | 'info';
+
+/**
+ * Toast region positions
+ */
+export type ToastPosition =
+  | 'top-left'
+  | 'top-center'
+  | 'top-right'
+  | 'bottom-left'
+  | 'bottom-center'
+  | 'bottom-right';
+
+/**
+ * Core interface that Toast component must implement
+ */
+export interface FigmaToastContract {
+  /**
+   * Color variant
+   * @default 'info'
+   */
+  variant: ToastVariant;
+
+  /**
+   * Bold first line
+   */
+  heading?: string;
+}
+
+/**
+ * Extended interface including web-specific properties
+ */
+export interface WebToastContract extends FigmaToastContract {
+  /**
+   * Auto-dismiss delay in ms, 0 = no auto-dismiss (web-specific)
+   * @default 0
+   */
+  duration: number;
+
+  /**
+   * Label of the built-in action button (web-specific)
+   */
+  actionLabel?: string;
+
+  /**
+   * Accessible label of the close button (web-specific)
+   * @default 'Dismiss'
+   */
+  closeLabel: string;
+
+  /**
+   * Whether the toast is shown (web-specific)
+   * @default true
+   */
+  open: boolean;
+}
+
+/**
+ * Validation helper: Check if a value is a valid ToastVariant
+ */
+export function isValidToastVariant(value: string): value is ToastVariant {
+  return ['success', 'error', 'warning', 'info'].includes(value);
+}
+
+/**
+ * Validation helper: Check if a value is a valid ToastPosition
+ */
+export function isValidToastPosition(value: string): value is ToastPosition {
+  return ['top-left', 'top-center', 'top-right', 'bottom-left', 'bottom-center', 'bottom-right'].includes(value);
+}
+
+/**
+ * Contract metadata
+ */
+export const FIGMA_TOAST_CONTRACT = {
+  componentId: 'TODO_EXTRACT_FROM_FIGMA',
+  componentName: 'Notification',
+  figmaFileId: 'CICp1MWc31lkvjX3jYo1rj',
+  extractedAt: 'PENDING_FIGMA_DATA',
+  version: '0.1.0',
+
+  properties: {
+    variant: {
+      values: ['success', 'error', 'warning', 'info'] as const,
+      required: false,
+      default: 'info' as ToastVariant,
+    },
+    duration: {
+      required: false,
+      default: 0,
+    },
+    open: {
+      required: false,
+      default: true,
+    },
+    position: {
+      values: ['top-left', 'top-center', 'top-right', 'bottom-left', 'bottom-center', 'bottom-right'] as const,
+      required: false,
+      default: 'bottom-right' as ToastPosition,
+    },
+  },
+
+  events: ['kds-toast-action', 'kds-toast-close'] as const,
+
+  designTokens: {
+    colors: {
+      success: { bg: '#ECFDF3', accent: '#027A48' },
+      error: { bg: '#FEF3F2', accent: '#B42318' },
+      warning: { bg: '#FFFAEB', accent: '#B54708' },
+      info: { bg: '#EFF8FF', accent: '#175CD3' },
+    },
+    spacing: {
+      padding: '16px',
+      gap: '12px',
+    },
+    radius: '12px',
+  },
+
+  typography: {
+    title: 'Inter Semibold, 14px/20px',
+    body: 'Inter Regular, 14px/20px',
+  },
+
+  _extractionStatus: {
+    status: 'PENDING_FIGMA_DATA',
+    notes: 'Notification nodeId and width still need to be extracted from Figma',
+  },
+} as const;
+
+/**
+ * Get validation errors for a component implementation
+ */
+export function getContractValidationErrors(obj: any): string[] {
+  const errors: string[] = [];
+
+  if (obj == null || typeof obj !== 'object') {
+    errors.push('Object is null or not an object');
+    return errors;
+  }
+
+  if ('variant' in obj && !isValidToastVariant(obj.variant)) {
+    errors.push(`Invalid variant value: "${obj.variant}". Must be one of: success, error, warning, info`);
+  }
+
+  if ('duration' in obj && (typeof obj.duration !== 'number' || obj.duration < 0)) {
+    errors.push('Invalid duration value: must be a non-negative number');
+  }
+
+  if ('open' in obj && typeof obj.open !== 'boolean') {
+    errors.push('Invalid open value: must be a boolean');
+  }
+
+  return errors;
+}
+
+/**
+ * ⏳ PENDING EXTRACTION
+ *
+ * - [ ] Notification node ID
+ * - [ ] Width and shadow
+ * - [ ] Whether info uses the brand or blue palette
+ */
@@ -92,6 +92,39 @@ export interface WebTooltipContract extends Omit<FigmaTooltipContract, 'supporti
    * Not in Figma
    */
   ariaLabel?: string | null;
+
+  /**
+   * Id of the trigger element to anchor to (web-specific, attribute "for")
+   * Not in Figma. Alternatively the trigger is wrapped in the default slot
+   */
+  htmlFor?: string;
+
+  /**
+   * Side of the trigger the anchored tooltip opens on (web-specific).
+   * The arrow faces the trigger from this side; `auto` flips/shifts within the
+   * viewport and scroll containers and picks the arrow
+   * Not in Figma
+   * @default 'top'
+   */
+  placement?: 'top' | 'bottom' | 'left' | 'right' | 'auto';
+
+  /**
+   * Delay in ms before opening on hover/focus (web-specific)
+   * @default 300
+   */
+  showDelay?: number;
+
+  /**
+   * Delay in ms before closing once pointer/focus leaves (web-specific)
+   * @default 100
+   */
+  hideDelay?: number;
+
+  /**
+   * Whether an anchored tooltip is visible (web-specific)
+   * @default false
+   */
+  open?: boolean;
 }
 
 /**
@@ -0,0 +1,262 @@
+/**
+ * @package @kds/web-components
+ * @component kds-alert
+ * @description Alert (inline banner) component from Untitled UI design system
+ * @author Kilian Sala <kilian@kapsch.net>
+ * @source Figma: Untitled UI - FREE Figma UI kit v2.0
+ *
+ * ⚠️ STATUS: PENDING FIGMA DATA VALIDATION
+ * Colors reuse the kds-badge palette (same custom properties) and the icon is
+ * the kds-input-field alert circle; layout follows the Untitled UI alert.
+ * TODO markers indicate values that must be verified against actual Figma design.
+ */
+
+import { LitElement, html, css, nothing } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import { alertCircleIcon } from './kds-input-field.js';
+import type { BadgeColor } from './kds-badge.js';
+
+// The badge colors Untitled UI defines alerts for
+export type AlertColor = Extract<BadgeColor, 'gray' | 'primary' | 'error' | 'warning' | 'success'>;
+
+/**
+ * Alert component built with LIT
+ *
+ * A persistent, page-level message. Unlike `kds-toast` it stays in the flow of
+ * the page until it is dismissed or removed.
+ *
+ * @example
+ * ```html
+ * <kds-alert color="warning" heading="Scheduled maintenance" dismissible>
+ *   The toll portal is unavailable on Sunday from 02:00 to 04:00.
+ *   <kds-button slot="actions" hierarchy="link-gray" size="sm">Learn more</kds-button>
+ * </kds-alert>
+ * ```
+ *
+ * Error and warning alerts are `role="alert"`, so screen readers announce them
+ * immediately when they appear; the other colors are `role="status"` and are
+ * announced politely. Actions and the dismiss button sit outside the live
+ * region so they aren't read as part of the message.
+ *
+ * @slot - Supporting text
+ * @slot actions - Action buttons (typically link `kds-button`s)
+ *
+ * @fires {CustomEvent<{}>} kds-alert-dismiss - Fired when the alert is dismissed
+ */
+@customElement('kds-alert')
+export class KdsAlert extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      font-family: var(--kds-font-family, 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif);
+    }
+
+    :host([hidden]),
+    :host(:not([open])) {
+      display: none;
+    }
+
+    /* TODO: Verify padding, radius and border colors against the Figma alert */
+    .alert {
+      display: flex;
+      align-items: flex-start;
+      gap: 12px;
+      box-sizing: border-box;
+      padding: 16px;
+      border: 1px solid var(--kds-alert-border);
+      border-radius: var(--kds-alert-border-radius, 12px);
+      background-color: var(--kds-alert-bg);
+      color: var(--kds-alert-accent);
+    }
+
+    /* Colors: same custom properties as kds-badge */
+    .alert.color-gray {
+      --kds-alert-bg: var(--kds-badge-gray-bg, #F5F5F5);
+      --kds-alert-accent: var(--kds-badge-gray-text, #414651);
+      --kds-alert-border: var(--kds-alert-gray-border, #D5D7DA);
+    }
+
+    .alert.color-primary {
+      --kds-alert-bg: var(--kds-badge-primary-bg, #F9F5FF);
+      --kds-alert-accent: var(--kds-badge-primary-text, #6941C6);
+      --kds-alert-border: var(--kds-alert-primary-border, #D6BBFB);
+    }
+
+    .alert.color-error {
+      --kds-alert-bg: var(--kds-badge-error-bg, #FEF3F2);
+      --kds-alert-accent: var(--kds-badge-error-text, #B42318);
+      --kds-alert-border: var(--kds-alert-error-border, #FDA29B);
+    }
+
+    .alert.color-warning {
+      --kds-alert-bg: var(--kds-badge-warning-bg, #FFFAEB);
+      --kds-alert-accent: var(--kds-badge-warning-text, #B54708);
+      --kds-alert-border: var(--kds-alert-warning-border, #FEC84B);
+    }
+
+    .alert.color-success {
+      --kds-alert-bg: var(--kds-badge-success-bg, #ECFDF3);
+      --kds-alert-accent: var(--kds-badge-success-text, #027A48);
+      --kds-alert-border: var(--kds-alert-success-border, #75E0A7);
+    }
+
+    .icon {
+      display: flex;
+      flex-shrink: 0;
+    }
+
+    .icon svg {
+      width: 20px;
+      height: 20px;
+    }
+
+    .content {
+      flex: 1;
+      min-width: 0;
+      display: flex;
+      flex-direction: column;
+      gap: 12px;
+      font-size: var(--kds-text-sm-font-size, 14px);
+      line-height: var(--kds-text-sm-line-height, 20px);
+    }
+
+    .message {
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
+    }
+
+    .heading {
+      font-weight: 600;
+    }
+
+    .actions {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 12px;
+    }
+
+    .actions.empty {
+      display: none;
+    }
+
+    .close {
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      flex-shrink: 0;
+      width: 20px;
+      height: 20px;
+      padding: 0;
+      border: none;
+      border-radius: 4px;
+      background: none;
+      color: inherit;
+      cursor: pointer;
+    }
+
+    .close:focus-visible {
+      outline: none;
+      box-shadow: 0 0 0 2px var(--kds-alert-accent);
+    }
+
+    .close svg {
+      width: 12px;
+      height: 12px;
+    }
+  `;
+
+  /**
+   * Severity color
+   * @default 'gray'
+   */
+  @property({ type: String, reflect: true })
+  color: AlertColor = 'gray';
+
+  /**
+   * Bold title
+   */
+  @property({ type: String })
+  heading = '';
+
+  /**
+   * Show a dismiss button
+   * @default false
+   */
+  @property({ type: Boolean })
+  dismissible = false;
+
+  /**
+   * Accessible label of the dismiss button
+   * @default 'Dismiss'
+   */
+  @property({ type: String, attribute: 'close-label' })
+  closeLabel = 'Dismiss';
+
+  /**
+   * Whether the alert is shown; cleared when it is dismissed
+   * @default true
+   */
+  @property({ type: Boolean, reflect: true })
+  open = true;
+
+  /** Hides the alert and fires kds-alert-dismiss. */
+  dismiss() {
+    if (!this.open) return;
+    this.open = false;
+
+    this.dispatchEvent(
+      new CustomEvent('kds-alert-dismiss', {
+        detail: {},
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  private _handleActionsSlotChange() {
+    this.requestUpdate();
+  }
+
+  override render() {
+    const assertive = this.color === 'error' || this.color === 'warning';
+    const hasActions = this.querySelector(':scope > [slot="actions"]') !== null;
+
+    return html`
+      <div class=${classMap({ alert: true, [`color-${this.color}`]: true })} part="alert">
+        <span class="icon" part="icon">${alertCircleIcon}</span>
+        <div class="content">
+          <div class="message" role=${assertive ? 'alert' : 'status'}>
+            ${this.heading ? html`<div class="heading" part="heading">${this.heading}</div>` : nothing}
+            <div class="text" part="text"><slot></slot></div>
+          </div>
+          <div class=${classMap({ actions: true, empty: !hasActions })} part="actions">
+            <slot name="actions" @slotchange=${this._handleActionsSlotChange}></slot>
+          </div>
+        </div>
+        ${this.dismissible
+          ? html`
+              <button
+                class="close"
+                part="close"
+                type="button"
+                aria-label=${this.closeLabel}
+                @click=${() => this.dismiss()}
+              >
+                <svg viewBox="0 0 12 12" fill="none" aria-hidden="true">
+                  <path d="M9 3L3 9M3 3L9 9" stroke="currentColor" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round"></path>
+                </svg>
+              </button>
+            `
+          : nothing}
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'kds-alert': KdsAlert;
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * @package @kds/web-components
+ * @component kds-avatar-group
+ * @description Avatar group component from Untitled UI design system
+ * @author Kilian Sala <kilian@kapsch.net>
+ * @source Figma: Untitled UI - FREE Figma UI kit v2.0
+ *
+ * ⚠️ STATUS: PENDING FIGMA DATA VALIDATION
+ * Overlapping kds-avatar elements with a white ring, followed by a "+N"
+ * avatar for the ones that don't fit.
+ * TODO markers indicate values that must be verified against actual Figma design.
+ */
+
+import { LitElement, html, css, nothing, PropertyValues } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import './kds-avatar.js';
+import type { KdsAvatar, AvatarSize } from './kds-avatar.js';
+
+/**
+ * Avatar group component built with LIT
+ *
+ * @example
+ * ```html
+ * <kds-avatar-group aria-label="Shift operators" max="3">
+ *   <kds-avatar name="Olivia Rhye" src="/users/olivia.jpg"></kds-avatar>
+ *   <kds-avatar name="Phoenix Baker" src="/users/phoenix.jpg"></kds-avatar>
+ *   <kds-avatar name="Lana Steiner"></kds-avatar>
+ *   <kds-avatar name="Demi Wilkinson"></kds-avatar>
+ *   <kds-avatar name="Candice Wu"></kds-avatar>
+ * </kds-avatar-group>
+ * ```
+ *
+ * The group controls the size of its avatars: its `size` replaces the `size`
+ * of every slotted avatar, so sizes set on the avatars themselves are ignored.
+ * With `max`, only the first `max` avatars are shown, followed by a "+N" avatar
+ * named "N more". The group is a `role="group"` named by `aria-label`.
+ */
+@customElement('kds-avatar-group')
+export class KdsAvatarGroup extends LitElement {
+  static override styles = css`
+    :host {
+      display: inline-flex;
+      vertical-align: middle;
+    }
+
+    :host([hidden]) {
+      display: none;
+    }
+
+    /* TODO: Verify overlap and ring widths against the Figma avatar group */
+    .group {
+      display: inline-flex;
+      align-items: center;
+      --kds-avatar-group-overlap: -8px;
+      --kds-avatar-group-ring: 1.5px;
+    }
+
+    .group.size-xs {
+      --kds-avatar-group-overlap: -4px;
+    }
+
+    .group.size-md,
+    .group.size-lg,
+    .group.size-xl,
+    .group.size-2xl {
+      --kds-avatar-group-overlap: -12px;
+      --kds-avatar-group-ring: 2px;
+    }
+
+    ::slotted(kds-avatar),
+    .overflow {
+      --kds-avatar-ring: 0 0 0 var(--kds-avatar-group-ring) var(--kds-avatar-group-ring-color, var(--kds-color-white, #FFFFFF));
+    }
+
+    ::slotted(kds-avatar:not(:first-child)),
+    .overflow {
+      margin-inline-start: var(--kds-avatar-group-overlap);
+    }
+
+    ::slotted([data-overflow]) {
+      display: none;
+    }
+
+    .overflow {
+      --kds-avatar-bg: var(--kds-avatar-group-overflow-bg, var(--kds-color-gray-50, #FAFAFA));
+      --kds-avatar-text: var(--kds-avatar-group-overflow-text, var(--kds-color-gray-600, #535862));
+    }
+  `;
+
+  /**
+   * Size of every avatar in the group; replaces the avatars' own `size`
+   * @default 'sm'
+   */
+  @property({ type: String, reflect: true })
+  size: AvatarSize = 'sm';
+
+  /**
+   * Most avatars to show before the "+N" avatar; 0 shows all
+   * @default 0
+   */
+  @property({ type: Number })
+  max = 0;
+
+  /**
+   * ARIA label of the group, e.g. "Shift operators"
+   */
+  @property({ type: String, attribute: 'aria-label' })
+  override ariaLabel: string | null = null;
+
+  /** Number of avatars hidden behind the "+N" avatar. */
+  @state()
+  private _overflowCount = 0;
+
+  private get _avatars(): KdsAvatar[] {
+    return Array.from(this.querySelectorAll<KdsAvatar>(':scope > kds-avatar'));
+  }
+
+  override willUpdate(changed: PropertyValues<this>) {
+    // Before render, so the "+N" count is part of this update
+    if (changed.has('size') || changed.has('max')) {
+      this._syncAvatars();
+    }
+  }
+
+  private _syncAvatars() {
+    const avatars = this._avatars;
+    const visible = this.max > 0 ? Math.floor(this.max) : avatars.length;
+
+    avatars.forEach((avatar, index) => {
+      avatar.size = this.size;
+      avatar.toggleAttribute('data-overflow', index >= visible);
+    });
+
+    this._overflowCount = Math.max(avatars.length - visible, 0);
+  }
+
+  override render() {
+    const count = this._overflowCount;
+
+    return html`
+      <div
+        class=${classMap({ group: true, [`size-${this.size}`]: true })}
+        part="group"
+        role="group"
+        aria-label=${this.ariaLabel || nothing}
+      >
+        <slot @slotchange=${this._syncAvatars}></slot>
+        ${count > 0
+          ? html`<kds-avatar class="overflow" part="overflow" size=${this.size} initials=${`+${count}`} aria-label=${`${count} more`}></kds-avatar>`
+          : nothing}
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'kds-avatar-group': KdsAvatarGroup;
+  }
+}
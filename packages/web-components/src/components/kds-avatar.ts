@@ -0,0 +1,269 @@
+/**
+ * @package @kds/web-components
+ * @component kds-avatar
+ * @description Avatar component from Untitled UI design system
+ * @author Kilian Sala <kilian@kapsch.net>
+ * @source Figma: Untitled UI - FREE Figma UI kit v2.0
+ *
+ * ⚠️ STATUS: PENDING FIGMA DATA VALIDATION
+ * Sizes and the initials / user icon placeholders follow the Untitled UI
+ * avatar; the status dot shares the kds-badge dot styles.
+ * TODO markers indicate values that must be verified against actual Figma design.
+ */
+
+import { LitElement, html, css, nothing, PropertyValues } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import { badgeDotStyles } from './kds-badge.js';
+
+// Button size names, extended with the smallest and largest Untitled UI avatars
+export type AvatarSize = 'xs' | 'sm' | 'md' | 'lg' | 'xl' | '2xl';
+export type AvatarStatus = 'none' | 'online' | 'offline';
+
+/** Initials of the first and last word of a name, e.g. "Olivia Rhye" → "OR". */
+function getInitials(name: string): string {
+  const words = name.trim().split(/\s+/).filter(Boolean);
+  if (!words.length) return '';
+
+  // Spread so letters outside the BMP aren't split in half
+  const first = [...words[0]][0];
+  const last = words.length > 1 ? [...words[words.length - 1]][0] : '';
+  return (first + last).toUpperCase();
+}
+
+/**
+ * Avatar component built with LIT
+ *
+ * @example
+ * ```html
+ * <!-- Photo -->
+ * <kds-avatar src="/users/olivia.jpg" name="Olivia Rhye"></kds-avatar>
+ *
+ * <!-- Initials from the name, with an online dot -->
+ * <kds-avatar name="Olivia Rhye" size="lg" status="online"></kds-avatar>
+ *
+ * <!-- Generic user icon -->
+ * <kds-avatar size="sm"></kds-avatar>
+ * ```
+ *
+ * The avatar shows the image; if there is none or it fails to load, the
+ * initials (given or derived from `name`); otherwise a user icon. With a
+ * `name` (or `aria-label`) it is an image named after the person, including
+ * the status, e.g. "Olivia Rhye (online)". Without one it is decorative, as
+ * when the name is already shown next to it.
+ */
+@customElement('kds-avatar')
+export class KdsAvatar extends LitElement {
+  static override styles = [badgeDotStyles, css`
+    :host {
+      display: inline-flex;
+      vertical-align: middle;
+      font-family: var(--kds-font-family, 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif);
+    }
+
+    :host([hidden]) {
+      display: none;
+    }
+
+    /* TODO: Verify sizes, placeholder colors and the inner border against Figma */
+    .avatar {
+      position: relative;
+      display: inline-flex;
+      align-items: center;
+      justify-content: center;
+      flex-shrink: 0;
+      width: var(--kds-avatar-size);
+      height: var(--kds-avatar-size);
+      box-sizing: border-box;
+      border-radius: 50%;
+      background-color: var(--kds-avatar-bg, var(--kds-color-gray-100, #F5F5F5));
+      color: var(--kds-avatar-text, #717680);
+      font-weight: 600;
+      user-select: none;
+      /* Set by kds-avatar-group to separate overlapping avatars */
+      box-shadow: var(--kds-avatar-ring, none);
+    }
+
+    /* Subtle inner border so light photos don't blend into the background */
+    .avatar::after {
+      content: '';
+      position: absolute;
+      inset: 0;
+      border-radius: 50%;
+      border: 0.75px solid var(--kds-avatar-border, rgba(0, 0, 0, 0.08));
+      pointer-events: none;
+    }
+
+    .size-xs {
+      --kds-avatar-size: 24px;
+      --kds-avatar-icon: 16px;
+      --kds-avatar-dot: 6px;
+      font-size: 12px;
+      line-height: 18px;
+    }
+
+    .size-sm {
+      --kds-avatar-size: 32px;
+      --kds-avatar-icon: 20px;
+      --kds-avatar-dot: 8px;
+      font-size: 14px;
+      line-height: 20px;
+    }
+
+    .size-md {
+      --kds-avatar-size: 40px;
+      --kds-avatar-icon: 24px;
+      --kds-avatar-dot: 10px;
+      font-size: 16px;
+      line-height: 24px;
+    }
+
+    .size-lg {
+      --kds-avatar-size: 48px;
+      --kds-avatar-icon: 28px;
+      --kds-avatar-dot: 12px;
+      font-size: 18px;
+      line-height: 28px;
+    }
+
+    .size-xl {
+      --kds-avatar-size: 56px;
+      --kds-avatar-icon: 32px;
+      --kds-avatar-dot: 14px;
+      font-size: 20px;
+      line-height: 30px;
+    }
+
+    .size-2xl {
+      --kds-avatar-size: 64px;
+      --kds-avatar-icon: 32px;
+      --kds-avatar-dot: 16px;
+      font-size: 24px;
+      line-height: 32px;
+    }
+
+    img {
+      width: 100%;
+      height: 100%;
+      border-radius: 50%;
+      object-fit: cover;
+    }
+
+    .icon {
+      width: var(--kds-avatar-icon);
+      height: var(--kds-avatar-icon);
+    }
+
+    /* Status dot: the badge dot, sized per avatar and ringed to stand off the photo */
+    .dot {
+      position: absolute;
+      right: 0;
+      bottom: 0;
+      width: var(--kds-avatar-dot);
+      height: var(--kds-avatar-dot);
+      box-sizing: border-box;
+      box-shadow: 0 0 0 1.5px var(--kds-avatar-dot-ring, var(--kds-color-white, #FFFFFF));
+    }
+
+    .dot.online {
+      color: var(--kds-avatar-online, var(--kds-color-success-500, #12B76A));
+    }
+
+    .dot.offline {
+      color: var(--kds-avatar-offline, var(--kds-color-gray-300, #D5D7DA));
+    }
+  `];
+
+  /**
+   * Image URL
+   */
+  @property({ type: String })
+  src = '';
+
+  /**
+   * Person's name: names the avatar and provides the initials
+   */
+  @property({ type: String })
+  name = '';
+
+  /**
+   * Initials shown without an image; derived from `name` when empty
+   */
+  @property({ type: String })
+  initials = '';
+
+  /**
+   * Avatar size
+   * @default 'md'
+   */
+  @property({ type: String, reflect: true })
+  size: AvatarSize = 'md';
+
+  /**
+   * Presence shown as a dot in the corner
+   * @default 'none'
+   */
+  @property({ type: String, reflect: true })
+  status: AvatarStatus = 'none';
+
+  /**
+   * ARIA label (defaults to the name and status)
+   */
+  @property({ type: String, attribute: 'aria-label' })
+  override ariaLabel: string | null = null;
+
+  @state()
+  private _imageFailed = false;
+
+  override willUpdate(changed: PropertyValues<this>) {
+    if (changed.has('src')) {
+      this._imageFailed = false;
+    }
+  }
+
+  private get _label(): string {
+    if (this.ariaLabel) return this.ariaLabel;
+    if (!this.name) return '';
+    return this.status === 'none' ? this.name : `${this.name} (${this.status})`;
+  }
+
+  private _renderContent() {
+    if (this.src && !this._imageFailed) {
+      return html`<img src=${this.src} alt="" part="image" @error=${() => (this._imageFailed = true)} />`;
+    }
+
+    const initials = this.initials || getInitials(this.name);
+    if (initials) {
+      return html`<span class="initials" part="initials">${initials}</span>`;
+    }
+
+    return html`
+      <svg class="icon" part="icon" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+        <path d="M20 21c0-1.396 0-2.093-.172-2.661a4 4 0 0 0-2.667-2.667C16.593 15.5 15.896 15.5 14.5 15.5h-5c-1.396 0-2.093 0-2.661.172a4 4 0 0 0-2.667 2.667C4 18.907 4 19.604 4 21M16.5 7.5a4.5 4.5 0 1 1-9 0 4.5 4.5 0 0 1 9 0Z" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"/>
+      </svg>
+    `;
+  }
+
+  override render() {
+    const label = this._label;
+
+    return html`
+      <span
+        class=${classMap({ avatar: true, [`size-${this.size}`]: true })}
+        part="avatar"
+        role=${label ? 'img' : nothing}
+        aria-label=${label || nothing}
+        aria-hidden=${label ? nothing : 'true'}
+      >
+        ${this._renderContent()}
+        ${this.status !== 'none' ? html`<span class="dot ${this.status}" part="status"></span>` : nothing}
+      </span>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'kds-avatar': KdsAvatar;
+  }
+}
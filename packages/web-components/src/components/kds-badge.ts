@@ -20,6 +20,20 @@ export type BadgeColor =
   | 'pink' | 'rose' | 'orange';
 export type BadgeIcon = 'false' | 'dot' | 'country' | 'avatar' | 'x-close' | 'icon-right' | 'icon-left' | 'only';
 
+/**
+ * Dot indicator, also used for the kds-avatar status dot. It takes the text
+ * color; components set the size where it differs from the 6px default.
+ */
+export const badgeDotStyles = css`
+  .dot {
+    width: 6px;
+    height: 6px;
+    border-radius: 50%;
+    flex-shrink: 0;
+    background-color: currentColor;
+  }
+`;
+
 /**
  * Badge component built with LIT
  *
@@ -54,7 +68,7 @@ export type BadgeIcon = 'false' | 'dot' | 'country' | 'avatar' | 'x-close' | 'ic
  */
 @customElement('kds-badge')
 export class KdsBadge extends LitElement {
-  static override styles = css`
+  static override styles = [badgeDotStyles, css`
     :host {
       display: inline-flex;
       font-family: var(--kds-font-family, 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif);
@@ -197,14 +211,6 @@ export class KdsBadge extends LitElement {
     }
 
     /* === DOT INDICATOR === */
-    .dot {
-      width: 6px;
-      height: 6px;
-      border-radius: 50%;
-      flex-shrink: 0;
-      background-color: currentColor;
-    }
-
     .badge.size-md .dot,
     .badge.size-lg .dot {
       width: 8px;
@@ -285,7 +291,7 @@ export class KdsBadge extends LitElement {
       width: 18px;
       height: 18px;
     }
-  `;
+  `];
 
   /**
    * Badge size variant
@@ -9,11 +9,13 @@
  * Frame nodeId: 1046:10170
  */
 
-import { LitElement, html, css, nothing } from 'lit';
-import { customElement, property } from 'lit/decorators.js';
+import { LitElement, html, css, nothing, PropertyValues } from 'lit';
+import { customElement, property, query } from 'lit/decorators.js';
 import { classMap } from 'lit/directives/class-map.js';
+import { ifDefined } from 'lit/directives/if-defined.js';
 
 export type ButtonGroupItemIcon = 'none' | 'leading' | 'only' | 'dot';
+export type ButtonGroupSelection = 'none' | 'single' | 'multiple';
 
 /**
  * Button Group container component
@@ -21,6 +23,16 @@ export type ButtonGroupItemIcon = 'none' | 'leading' | 'only' | 'dot';
  * Groups multiple `kds-button-group-item` elements horizontally with
  * shared border, rounded corners, and shadow.
  *
+ * With `selection="single"` or `"multiple"` the group owns the items'
+ * `selected` state and tracks it through `value`/`values`. Single mode keeps
+ * exactly one item selected, like a radio group. Items are identified by their
+ * `value`, falling back to their index.
+ *
+ * The group is a single tab stop (roving tabindex). Arrow keys, Home and End
+ * move focus between enabled items, following the WAI-ARIA toolbar pattern;
+ * left/right are swapped in RTL. In single mode the group is exposed as a
+ * `radiogroup` of `radio` items and arrow keys also move the selection.
+ *
  * @example
  * ```html
  * <!-- Text only -->
@@ -54,9 +66,16 @@ export type ButtonGroupItemIcon = 'none' | 'leading' | 'only' | 'dot';
  *     <svg slot="icon" ...></svg>
  *   </kds-button-group-item>
  * </kds-button-group>
+ *
+ * <!-- Segmented control -->
+ * <kds-button-group selection="single" value="week" aria-label="Range">
+ *   <kds-button-group-item value="day">Day</kds-button-group-item>
+ *   <kds-button-group-item value="week">Week</kds-button-group-item>
+ *   <kds-button-group-item value="month">Month</kds-button-group-item>
+ * </kds-button-group>
  * ```
  *
- * @fires {CustomEvent} kds-button-group-change - Fired when a different item is selected
+ * @fires {CustomEvent<{value: string, values: string[]}>} kds-button-group-change - Fired when the user changes the selection
  */
 @customElement('kds-button-group')
 export class KdsButtonGroup extends LitElement {
@@ -82,14 +101,224 @@ export class KdsButtonGroup extends LitElement {
   @property({ type: String, attribute: 'aria-label' })
   override ariaLabel: string | null = null;
 
+  /**
+   * How the group manages item selection. `none` leaves `selected` to each item.
+   * @default 'none'
+   */
+  @property({ type: String, reflect: true })
+  selection: ButtonGroupSelection = 'none';
+
+  /**
+   * Value of the selected item (the first selected item in multiple mode)
+   */
+  @property({ type: String })
+  value = '';
+
+  /**
+   * Values of all selected items, in item order
+   */
+  @property({ type: Array, attribute: false })
+  values: string[] = [];
+
+  /** Item holding the group's tab stop. */
+  private _activeItem: KdsButtonGroupItem | null = null;
+
+  override willUpdate(changed: PropertyValues<this>) {
+    if (changed.has('values') && (this.values.length || !changed.has('value'))) {
+      this.value = this.values[0] ?? '';
+    } else if (changed.has('value')) {
+      this.values = this.value ? [this.value] : [];
+    }
+
+    // Markup-driven groups start from the items' own `selected` attributes
+    if (!this.hasUpdated && !this.values.length) {
+      this.values = this._selectedItemValues();
+    }
+
+    if (this.selection !== 'none') {
+      this.values = this._normalizeValues(this.values);
+      this.value = this.values[0] ?? '';
+    }
+  }
+
+  override updated(changed: PropertyValues<this>) {
+    if (changed.has('values') || changed.has('selection')) {
+      this._syncItems();
+    }
+  }
+
+  private _getItems(): KdsButtonGroupItem[] {
+    return Array.from(this.querySelectorAll('kds-button-group-item'));
+  }
+
+  private _itemValue(item: KdsButtonGroupItem, index: number): string {
+    return item.value || String(index);
+  }
+
+  private _selectedItemValues(): string[] {
+    return this._getItems()
+      .map((item, index) => (item.selected ? this._itemValue(item, index) : null))
+      .filter((value): value is string => value !== null);
+  }
+
+  private _normalizeValues(values: string[]): string[] {
+    const items = this._getItems();
+    if (this.selection !== 'single' || !items.length) return values;
+
+    const known = items.map((item, index) => this._itemValue(item, index));
+    if (known.includes(values[0])) return values.slice(0, 1);
+
+    // Exactly one item stays selected: fall back to the first enabled one
+    const index = items.findIndex((item) => !item.disabled);
+    return index >= 0 ? [known[index]] : [];
+  }
+
+  private _syncItems() {
+    const items = this._getItems();
+
+    items.forEach((item, index) => {
+      if (this.selection !== 'none') {
+        item.selected = this.values.includes(this._itemValue(item, index));
+      }
+      item.itemRole = this.selection === 'single' ? 'radio' : 'button';
+    });
+
+    this._updateTabStops(items);
+  }
+
+  /**
+   * Roving tabindex: only one enabled item is in the tab order. In single
+   * mode that is the selected item, otherwise the last focused one.
+   */
+  private _updateTabStops(items = this._getItems()) {
+    const enabled = items.filter((item) => !item.disabled);
+    const selected = enabled.find((item) => item.selected);
+    const current = this._activeItem && enabled.includes(this._activeItem) ? this._activeItem : null;
+
+    this._activeItem =
+      (this.selection === 'single' ? selected ?? current : current ?? selected) ??
+      enabled[0] ??
+      null;
+
+    items.forEach((item) => {
+      item.rovingTabIndex = item === this._activeItem ? 0 : -1;
+    });
+  }
+
+  private _handleSlotChange() {
+    if (this.selection !== 'none') {
+      if (!this.values.length) {
+        this.values = this._selectedItemValues();
+      }
+      this.values = this._normalizeValues(this.values);
+    }
+    this._syncItems();
+  }
+
+  private _handleFocusIn(event: FocusEvent) {
+    const item = event.target as KdsButtonGroupItem;
+    if (this._getItems().includes(item) && !item.disabled) {
+      this._activeItem = item;
+      this._updateTabStops();
+    }
+  }
+
+  private _handleKeyDown(event: KeyboardEvent) {
+    const items = this._getItems().filter((item) => !item.disabled);
+    const index = items.indexOf(event.target as KdsButtonGroupItem);
+    if (index < 0) return;
+
+    const step = getComputedStyle(this).direction === 'rtl' ? -1 : 1;
+    let next: number;
+
+    switch (event.key) {
+      case 'ArrowRight':
+        next = index + step;
+        break;
+      case 'ArrowLeft':
+        next = index - step;
+        break;
+      case 'ArrowDown':
+        next = index + 1;
+        break;
+      case 'ArrowUp':
+        next = index - 1;
+        break;
+      case 'Home':
+        next = 0;
+        break;
+      case 'End':
+        next = items.length - 1;
+        break;
+      default:
+        return;
+    }
+
+    event.preventDefault();
+    const item = items[(next + items.length) % items.length];
+    this._activeItem = item;
+
+    // Radio groups select on focus move; toolbars only move focus
+    if (this.selection === 'single') {
+      this._selectItem(item);
+    } else {
+      this._updateTabStops();
+    }
+    item.focus();
+  }
+
+  private _handleItemClick(event: CustomEvent<{ value: string }>) {
+    this._selectItem(event.target as KdsButtonGroupItem);
+  }
+
+  private _selectItem(item: KdsButtonGroupItem) {
+    if (this.selection === 'none') return;
+
+    const items = this._getItems();
+    const index = items.indexOf(item);
+    if (index < 0) return;
+
+    const value = this._itemValue(items[index], index);
+    let values: string[];
+
+    if (this.selection === 'single') {
+      if (this.values[0] === value) return;
+      values = [value];
+    } else {
+      const next = new Set(this.values);
+      if (next.has(value)) {
+        next.delete(value);
+      } else {
+        next.add(value);
+      }
+      values = items
+        .map((item, i) => this._itemValue(item, i))
+        .filter((itemValue) => next.has(itemValue));
+    }
+
+    this.values = values;
+    this._syncItems();
+
+    this.dispatchEvent(
+      new CustomEvent('kds-button-group-change', {
+        detail: { value: values[0] ?? '', values },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
   override render() {
     return html`
       <div
         class="button-group"
-        role="group"
+        role=${this.selection === 'single' ? 'radiogroup' : 'group'}
         aria-label=${this.ariaLabel || nothing}
+        @kds-button-group-item-click=${this._handleItemClick}
+        @focusin=${this._handleFocusIn}
+        @keydown=${this._handleKeyDown}
       >
-        <slot></slot>
+        <slot @slotchange=${this._handleSlotChange}></slot>
       </div>
     `;
   }
@@ -219,6 +448,43 @@ export class KdsButtonGroupItem extends LitElement {
   @property({ type: String, attribute: 'aria-label' })
   override ariaLabel: string | null = null;
 
+  /**
+   * Marks the current item of a set, e.g. `page` in a pagination. When set,
+   * it replaces the `aria-pressed` toggle state.
+   */
+  @property({ type: String, attribute: 'aria-current' })
+  override ariaCurrent: string | null = null;
+
+  /**
+   * ARIA role of the inner button, set by the group (`radio` in single mode)
+   * @internal
+   */
+  @property({ attribute: false })
+  itemRole: 'button' | 'radio' = 'button';
+
+  /**
+   * Whether the inner button exposes `selected` as `aria-pressed`. Turned off
+   * by a pagination, where only the current page carries `aria-current`.
+   * @internal
+   */
+  @property({ attribute: false })
+  pressable = true;
+
+  /**
+   * Tab index of the inner button, set by the group's roving tabindex
+   * @internal
+   */
+  @property({ attribute: false })
+  rovingTabIndex?: number;
+
+  @query('button')
+  private _button?: HTMLButtonElement;
+
+  /** Programmatically focus the inner button. */
+  override focus(options?: FocusOptions) {
+    this._button?.focus(options);
+  }
+
   private _handleClick(event: MouseEvent) {
     if (this.disabled) {
       event.preventDefault();
@@ -236,6 +502,9 @@ export class KdsButtonGroupItem extends LitElement {
 
   override render() {
     const isIconOnly = this.icon === 'only';
+    const isRadio = this.itemRole === 'radio';
+    const isCurrentItem = this.ariaCurrent !== null;
+    const isPressed = this.pressable && !isRadio && !isCurrentItem;
 
     const classes = {
       item: true,
@@ -250,8 +519,12 @@ export class KdsButtonGroupItem extends LitElement {
       <button
         class=${classMap(classes)}
         ?disabled=${this.disabled}
-        aria-pressed=${this.selected}
+        role=${ifDefined(isRadio ? 'radio' : undefined)}
+        aria-checked=${ifDefined(isRadio ? String(this.selected) : undefined)}
+        aria-pressed=${ifDefined(isPressed ? String(this.selected) : undefined)}
+        aria-current=${ifDefined(isCurrentItem ? this.ariaCurrent! : undefined)}
         aria-label=${this.ariaLabel || nothing}
+        tabindex=${ifDefined(this.rovingTabIndex)}
         @click=${this._handleClick}
         type="button"
       >
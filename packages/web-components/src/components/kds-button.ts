@@ -6,9 +6,11 @@
  * @source Figma: Untitled UI - FREE Figma UI kit v2.0
  */
 
-import { LitElement, html, css, nothing } from 'lit';
-import { customElement, property } from 'lit/decorators.js';
+import { LitElement, html, css, nothing, PropertyValues } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
 import { classMap } from 'lit/directives/class-map.js';
+import './kds-spinner.js';
+import { announce } from './live-announcer.js';
 
 export type ButtonSize = 'sm' | 'md' | 'lg' | 'xl';
 export type ButtonHierarchy = 
@@ -31,17 +33,31 @@ export type IconPosition = 'none' | 'leading' | 'trailing' | 'dot' | 'only';
  *   <svg slot="icon">...</svg>
  *   Button Text
  * </kds-button>
+ * <kds-button loading loading-text="Saving">Save</kds-button>
+ * <kds-button href="/settings" hierarchy="secondary-gray">Settings</kds-button>
+ * <form>
+ *   <kds-button type="submit" name="action" value="publish">Publish</kds-button>
+ *   <kds-button type="submit" formaction="/drafts" formnovalidate hierarchy="secondary-gray">Save draft</kds-button>
+ *   <kds-button type="reset" hierarchy="secondary-gray">Reset</kds-button>
+ * </form>
  * ```
+ *
+ * A submit button submits through a temporary hidden native `<button>` placed
+ * inside it, which carries `name`, `value` and the `form*` overrides. The
+ * submit event's `submitter` is that native button, so
+ * `event.submitter.closest('kds-button')` is the kds-button that was pressed.
  */
 @customElement('kds-button')
 export class KdsButton extends LitElement {
+  static formAssociated = true;
+
   static override styles = css`
     :host {
       display: inline-block;
       font-family: var(--kds-font-family, 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif);
     }
 
-    button {
+    .button {
       display: inline-flex;
       align-items: center;
       justify-content: center;
@@ -57,15 +73,16 @@ export class KdsButton extends LitElement {
       user-select: none;
       position: relative;
       box-sizing: border-box;
+      text-decoration: none;
     }
 
-    button:focus-visible {
+    .button:focus-visible {
       outline: none;
       box-shadow: var(--kds-shadow-xs-focused-primary, 0 0 0 4px #F4EBFF, 0 1px 2px 0 rgba(10, 13, 18, 0.05));
     }
 
     /* Size: Small */
-    button.size-sm {
+    .button.size-sm {
       height: var(--kds-button-height-sm, 36px);
       padding: var(--kds-button-padding-y-sm, 8px) var(--kds-button-padding-x-sm, 12px);
       font-size: var(--kds-text-sm-font-size, 14px);
@@ -73,7 +90,7 @@ export class KdsButton extends LitElement {
     }
 
     /* Size: Medium */
-    button.size-md {
+    .button.size-md {
       height: var(--kds-button-height-md, 40px);
       padding: var(--kds-button-padding-y-md, 10px) var(--kds-button-padding-x-md, 16px);
       font-size: var(--kds-text-sm-font-size, 14px);
@@ -81,7 +98,7 @@ export class KdsButton extends LitElement {
     }
 
     /* Size: Large */
-    button.size-lg {
+    .button.size-lg {
       height: var(--kds-button-height-lg, 44px);
       padding: var(--kds-button-padding-y-lg, 12px) var(--kds-button-padding-x-lg, 18px);
       font-size: var(--kds-text-md-font-size, 16px);
@@ -89,7 +106,7 @@ export class KdsButton extends LitElement {
     }
 
     /* Size: Extra Large */
-    button.size-xl {
+    .button.size-xl {
       height: var(--kds-button-height-xl, 48px);
       padding: var(--kds-button-padding-y-xl, 14px) var(--kds-button-padding-x-xl, 20px);
       font-size: var(--kds-text-md-font-size, 16px);
@@ -97,103 +114,103 @@ export class KdsButton extends LitElement {
     }
 
     /* Icon-only buttons */
-    button.icon-only.size-sm {
+    .button.icon-only.size-sm {
       width: 36px;
       padding: 8px;
     }
 
-    button.icon-only.size-md {
+    .button.icon-only.size-md {
       width: 40px;
       padding: 10px;
     }
 
-    button.icon-only.size-lg {
+    .button.icon-only.size-lg {
       width: 44px;
       padding: 12px;
     }
 
-    button.icon-only.size-xl {
+    .button.icon-only.size-xl {
       width: 48px;
       padding: 14px;
     }
 
     /* Primary Hierarchy */
-    button.hierarchy-primary {
+    .button.hierarchy-primary {
       background-color: var(--kds-button-primary-bg, var(--kds-color-brand-600, #7F56D9));
       color: var(--kds-button-primary-text, var(--kds-color-white, #ffffff));
       box-shadow: var(--kds-shadow-xs, 0 1px 2px 0 rgba(10, 13, 18, 0.05));
     }
 
-    button.hierarchy-primary:hover:not(:disabled) {
+    .button.hierarchy-primary:hover:not(:disabled) {
       background-color: var(--kds-button-primary-hover-bg, var(--kds-color-brand-700, #6941C6));
     }
 
-    button.hierarchy-primary:active:not(:disabled) {
+    .button.hierarchy-primary:active:not(:disabled) {
       background-color: var(--kds-button-primary-active-bg, var(--kds-color-brand-800, #53389E));
     }
 
     /* Secondary Color Hierarchy */
-    button.hierarchy-secondary-color {
+    .button.hierarchy-secondary-color {
       background-color: var(--kds-button-secondary-color-bg, var(--kds-color-brand-100, #F4EBFF));
       color: var(--kds-button-secondary-color-text, var(--kds-color-brand-700, #6941C6));
       box-shadow: var(--kds-shadow-xs, 0 1px 2px 0 rgba(10, 13, 18, 0.05));
     }
 
-    button.hierarchy-secondary-color:hover:not(:disabled) {
+    .button.hierarchy-secondary-color:hover:not(:disabled) {
       background-color: var(--kds-button-secondary-color-hover-bg, var(--kds-color-brand-200, #E9D7FE));
     }
 
-    button.hierarchy-secondary-color:active:not(:disabled) {
+    .button.hierarchy-secondary-color:active:not(:disabled) {
       background-color: var(--kds-button-secondary-color-active-bg, var(--kds-color-brand-300, #D6BBFB));
     }
 
     /* Secondary Gray Hierarchy */
-    button.hierarchy-secondary-gray {
+    .button.hierarchy-secondary-gray {
       background-color: var(--kds-button-secondary-gray-bg, var(--kds-color-gray-50, #FAFAFA));
       color: var(--kds-button-secondary-gray-text, var(--kds-color-gray-700, #414651));
       box-shadow: var(--kds-shadow-xs, 0 1px 2px 0 rgba(10, 13, 18, 0.05));
     }
 
-    button.hierarchy-secondary-gray:hover:not(:disabled) {
+    .button.hierarchy-secondary-gray:hover:not(:disabled) {
       background-color: var(--kds-button-secondary-gray-hover-bg, var(--kds-color-gray-200, #E9EAEB));
     }
 
-    button.hierarchy-secondary-gray:active:not(:disabled) {
+    .button.hierarchy-secondary-gray:active:not(:disabled) {
       background-color: var(--kds-button-secondary-gray-active-bg, var(--kds-color-gray-300, #D5D7DA));
     }
 
     /* Tertiary Color Hierarchy */
-    button.hierarchy-tertiary-color {
+    .button.hierarchy-tertiary-color {
       background-color: transparent;
       border: 1px solid var(--kds-button-tertiary-color-border, var(--kds-color-brand-600, #7F56D9));
       color: var(--kds-button-tertiary-color-text, var(--kds-color-brand-600, #7F56D9));
     }
 
-    button.hierarchy-tertiary-color:hover:not(:disabled) {
+    .button.hierarchy-tertiary-color:hover:not(:disabled) {
       background-color: var(--kds-button-tertiary-color-hover-bg, var(--kds-color-brand-50, #F9F5FF));
     }
 
-    button.hierarchy-tertiary-color:active:not(:disabled) {
+    .button.hierarchy-tertiary-color:active:not(:disabled) {
       background-color: var(--kds-button-tertiary-color-active-bg, var(--kds-color-brand-100, #F4EBFF));
     }
 
     /* Tertiary Gray Hierarchy */
-    button.hierarchy-tertiary-gray {
+    .button.hierarchy-tertiary-gray {
       background-color: transparent;
       border: 1px solid var(--kds-button-tertiary-gray-border, var(--kds-color-gray-300, #D5D7DA));
       color: var(--kds-button-tertiary-gray-text, var(--kds-color-gray-700, #414651));
     }
 
-    button.hierarchy-tertiary-gray:hover:not(:disabled) {
+    .button.hierarchy-tertiary-gray:hover:not(:disabled) {
       background-color: var(--kds-button-tertiary-gray-hover-bg, var(--kds-color-gray-50, #FAFAFA));
     }
 
-    button.hierarchy-tertiary-gray:active:not(:disabled) {
+    .button.hierarchy-tertiary-gray:active:not(:disabled) {
       background-color: var(--kds-button-tertiary-gray-active-bg, var(--kds-color-gray-200, #E9EAEB));
     }
 
     /* Link Color Hierarchy */
-    button.hierarchy-link-color {
+    .button.hierarchy-link-color {
       background-color: transparent;
       border: none;
       color: var(--kds-button-link-color-text, var(--kds-color-brand-600, #7F56D9));
@@ -201,17 +218,17 @@ export class KdsButton extends LitElement {
       padding-right: 0;
     }
 
-    button.hierarchy-link-color:hover:not(:disabled) {
+    .button.hierarchy-link-color:hover:not(:disabled) {
       color: var(--kds-button-link-color-hover-text, var(--kds-color-brand-700, #6941C6));
       text-decoration: underline;
     }
 
-    button.hierarchy-link-color:active:not(:disabled) {
+    .button.hierarchy-link-color:active:not(:disabled) {
       color: var(--kds-button-link-color-active-text, var(--kds-color-brand-800, #53389E));
     }
 
     /* Link Gray Hierarchy */
-    button.hierarchy-link-gray {
+    .button.hierarchy-link-gray {
       background-color: transparent;
       border: none;
       color: var(--kds-button-link-gray-text, var(--kds-color-gray-600, #535862));
@@ -219,55 +236,84 @@ export class KdsButton extends LitElement {
       padding-right: 0;
     }
 
-    button.hierarchy-link-gray:hover:not(:disabled) {
+    .button.hierarchy-link-gray:hover:not(:disabled) {
       color: var(--kds-button-link-gray-hover-text, var(--kds-color-gray-700, #414651));
       text-decoration: underline;
     }
 
-    button.hierarchy-link-gray:active:not(:disabled) {
+    .button.hierarchy-link-gray:active:not(:disabled) {
       color: var(--kds-button-link-gray-active-text, var(--kds-color-gray-800, #252B37));
     }
 
     /* Destructive Variant */
-    button.destructive {
+    .button.destructive {
       background-color: var(--kds-button-destructive-bg, var(--kds-color-error-600, #D92D20));
       color: var(--kds-button-destructive-text, var(--kds-color-white, #ffffff));
     }
 
-    button.destructive:hover:not(:disabled) {
+    .button.destructive:hover:not(:disabled) {
       background-color: var(--kds-button-destructive-hover-bg, var(--kds-color-error-700, #B42318));
     }
 
-    button.destructive:active:not(:disabled) {
+    .button.destructive:active:not(:disabled) {
       background-color: var(--kds-button-destructive-active-bg, var(--kds-color-error-800, #912018));
     }
 
-    button.destructive:focus-visible {
+    .button.destructive:focus-visible {
       box-shadow: var(--kds-shadow-xs-focused-error, 0 0 0 4px #FEE4E2, 0 1px 2px 0 rgba(10, 13, 18, 0.05));
     }
 
-    button.destructive.hierarchy-secondary-color {
+    .button.destructive.hierarchy-secondary-color {
       background-color: var(--kds-button-destructive-secondary-bg, var(--kds-color-error-100, #FEE4E2));
       color: var(--kds-button-destructive-secondary-text, var(--kds-color-error-700, #B42318));
     }
 
-    button.destructive.hierarchy-tertiary-color {
+    .button.destructive.hierarchy-tertiary-color {
       background-color: transparent;
       border-color: var(--kds-button-destructive-tertiary-border, var(--kds-color-error-600, #D92D20));
       color: var(--kds-button-destructive-tertiary-text, var(--kds-color-error-600, #D92D20));
     }
 
-    button.destructive.hierarchy-link-color {
+    .button.destructive.hierarchy-link-color {
       color: var(--kds-button-destructive-link-text, var(--kds-color-error-600, #D92D20));
     }
 
     /* Disabled State */
-    button:disabled {
+    .button:disabled,
+    .button.disabled {
       opacity: 0.5;
       cursor: not-allowed;
       pointer-events: none;
     }
 
+    /* Loading State */
+    .button.loading {
+      cursor: progress;
+    }
+
+    /* Without an icon to replace, the spinner overlays the hidden label so the width stays the same */
+    .button.loading-overlay > slot,
+    .button.loading-overlay > .dot-indicator {
+      visibility: hidden;
+    }
+
+    .button.loading-overlay > kds-spinner {
+      position: absolute;
+      top: 50%;
+      left: 50%;
+      transform: translate(-50%, -50%);
+    }
+
+    /* The spinner takes the text color, like the icon it replaces */
+    kds-spinner {
+      flex-shrink: 0;
+      --kds-spinner-color: currentColor;
+    }
+
+    .button.icon-only kds-spinner {
+      margin: auto;
+    }
+
     /* Icon Styles */
     ::slotted([slot="icon"]) {
       display: flex;
@@ -276,7 +322,7 @@ export class KdsButton extends LitElement {
       flex-shrink: 0;
     }
 
-    button.icon-only ::slotted([slot="icon"]) {
+    .button.icon-only ::slotted([slot="icon"]) {
       width: 100%;
       height: 100%;
     }
@@ -326,6 +372,20 @@ export class KdsButton extends LitElement {
   @property({ type: Boolean, reflect: true })
   disabled = false;
 
+  /**
+   * Pending state: shows a spinner, sets aria-busy and blocks clicks
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  loading = false;
+
+  /**
+   * Text announced to screen readers when loading starts
+   * @default 'Loading'
+   */
+  @property({ type: String, attribute: 'loading-text' })
+  loadingText = 'Loading';
+
   /**
    * Button type attribute
    * @default 'button'
@@ -333,14 +393,143 @@ export class KdsButton extends LitElement {
   @property({ type: String })
   type: 'button' | 'submit' | 'reset' = 'button';
 
+  /**
+   * Name submitted with the form when this button submits it
+   */
+  @property({ type: String, reflect: true })
+  name?: string;
+
+  /**
+   * Value submitted under name when this button submits the form
+   * @default ''
+   */
+  @property({ type: String })
+  value = '';
+
+  /**
+   * URL that processes the submission, overriding the form's action (type="submit" only)
+   */
+  @property({ type: String, attribute: 'formaction' })
+  formAction?: string;
+
+  /**
+   * HTTP method of the submission, overriding the form's method (type="submit" only)
+   */
+  @property({ type: String, attribute: 'formmethod' })
+  formMethod?: string;
+
+  /**
+   * Encoding of the submission, overriding the form's enctype (type="submit" only)
+   */
+  @property({ type: String, attribute: 'formenctype' })
+  formEnctype?: string;
+
+  /**
+   * Where to show the response, overriding the form's target (type="submit" only)
+   */
+  @property({ type: String, attribute: 'formtarget' })
+  formTarget?: string;
+
+  /**
+   * Submits without validating the form (type="submit" only)
+   * @default false
+   */
+  @property({ type: Boolean, attribute: 'formnovalidate' })
+  formNoValidate = false;
+
+  /**
+   * URL to navigate to. When set, renders an <a> with the same styling
+   */
+  @property({ type: String })
+  href?: string;
+
+  /**
+   * Where to open the linked URL (link mode only)
+   */
+  @property({ type: String })
+  target?: string;
+
+  /**
+   * Relationship of the linked URL (link mode only)
+   */
+  @property({ type: String })
+  rel?: string;
+
+  /**
+   * Downloads the linked URL instead of navigating; the value is the suggested file name (link mode only)
+   */
+  @property({ type: String })
+  download?: string;
+
   /**
    * ARIA label for icon-only buttons
    */
   @property({ type: String, attribute: 'aria-label' })
   ariaLabel: string | null = null;
 
+  /**
+   * Popup the button opens (e.g. `menu`); set by kds-menu on its trigger
+   */
+  @property({ type: String, attribute: 'aria-haspopup' })
+  ariaHasPopup: string | null = null;
+
+  /**
+   * Whether the popup the button controls is open; set by kds-menu on its trigger
+   */
+  @property({ type: String, attribute: 'aria-expanded' })
+  ariaExpanded: string | null = null;
+
+  /**
+   * Set when an ancestor `<fieldset>` is disabled
+   */
+  @state()
+  private _formDisabled = false;
+
+  private _internals: ElementInternals;
+
+  constructor() {
+    super();
+    this._internals = this.attachInternals();
+  }
+
+  /**
+   * The form this button submits or resets, if any (honours the form attribute)
+   */
+  get form(): HTMLFormElement | null {
+    return this._internals.form;
+  }
+
+  /**
+   * Called when an ancestor `<fieldset>` toggles its disabled state
+   */
+  formDisabledCallback(disabled: boolean) {
+    this._formDisabled = disabled;
+  }
+
+  override updated(changed: PropertyValues<this>) {
+    // Announced when loading starts, not for buttons that render already loading
+    if (changed.has('loading') && changed.get('loading') === false && this.loading) {
+      announce(this.loadingText, false);
+    }
+  }
+
+  /**
+   * Programmatically focus the inner button or link
+   */
+  override focus(options?: FocusOptions) {
+    this.renderRoot.querySelector<HTMLElement>('.button')?.focus(options);
+  }
+
+  private get isDisabled(): boolean {
+    return this.disabled || this._formDisabled;
+  }
+
+  private get isLink(): boolean {
+    return this.href != null;
+  }
+
   private handleClick(event: MouseEvent) {
-    if (this.disabled) {
+    if (this.isDisabled || this.loading) {
       event.preventDefault();
       event.stopPropagation();
       return;
@@ -354,53 +543,122 @@ export class KdsButton extends LitElement {
         composed: true,
       })
     );
+
+    if (!this.isLink) {
+      this.activateForm();
+    }
   }
 
-  private handleKeyDown(event: KeyboardEvent) {
-    if (this.disabled) {
+  /**
+   * The inner <button> lives in shadow DOM, so it can't submit or reset the
+   * light-DOM form itself; this does what a native button of the same type would.
+   */
+  private activateForm() {
+    const form = this._internals.form;
+    if (!form) {
       return;
     }
 
-    // Handle Enter and Space for accessibility
-    if (event.key === 'Enter' || event.key === ' ') {
-      if (event.key === ' ') {
-        event.preventDefault(); // Prevent page scroll
-      }
-      this.handleClick(event as unknown as MouseEvent);
+    if (this.type === 'submit') {
+      this.submitForm(form);
+    } else if (this.type === 'reset') {
+      form.reset();
+    }
+  }
+
+  /**
+   * Submits through a native button placed inside the host, so the form sees a
+   * real submitter: it contributes name/value, applies the form* overrides and
+   * is associated with the form the same way as the host (including `form`).
+   */
+  private submitForm(form: HTMLFormElement) {
+    const submitter = document.createElement('button');
+    submitter.type = 'submit';
+    submitter.hidden = true;
+    if (this.name) {
+      submitter.name = this.name;
+      submitter.value = this.value;
+    }
+    const formId = this.getAttribute('form');
+    if (formId) submitter.setAttribute('form', formId);
+    if (this.formAction) submitter.formAction = this.formAction;
+    if (this.formMethod) submitter.formMethod = this.formMethod;
+    if (this.formEnctype) submitter.formEnctype = this.formEnctype;
+    if (this.formTarget) submitter.formTarget = this.formTarget;
+    submitter.formNoValidate = this.formNoValidate;
+
+    this.append(submitter);
+    try {
+      form.requestSubmit(submitter);
+    } finally {
+      submitter.remove();
     }
   }
 
   override render() {
+    const hasIcon = this.iconPosition !== 'none' && this.iconPosition !== 'dot';
+    const showDot = this.iconPosition === 'dot';
+    const isIconOnly = this.iconPosition === 'only';
+
     const classes = {
+      button: true,
       [`size-${this.size}`]: true,
       [`hierarchy-${this.hierarchy}`]: true,
-      'icon-only': this.iconPosition === 'only',
+      'icon-only': isIconOnly,
       destructive: this.destructive,
+      disabled: this.isDisabled,
+      loading: this.loading,
+      'loading-overlay': this.loading && !hasIcon,
     };
 
-    const hasIcon = this.iconPosition !== 'none' && this.iconPosition !== 'dot';
-    const showDot = this.iconPosition === 'dot';
-    const isIconOnly = this.iconPosition === 'only';
+    // Hidden from assistive technology: aria-busy and the loading announcement cover it
+    const spinner = html`<kds-spinner size=${this.size} aria-hidden="true"></kds-spinner>`;
+
+    // While loading, the spinner takes the icon's place
+    const icon = this.loading ? spinner : html`<slot name="icon"></slot>`;
+
+    const content = html`
+      ${hasIcon && this.iconPosition === 'leading' ? icon : nothing}
+      ${showDot ? html`<span class="dot-indicator"></span>` : nothing}
+      ${!isIconOnly ? html`<slot></slot>` : nothing}
+      ${hasIcon && this.iconPosition === 'trailing' ? icon : nothing}
+      ${isIconOnly ? icon : nothing}
+      ${this.loading && !hasIcon ? spinner : nothing}
+    `;
+
+    if (this.isLink) {
+      // A disabled link drops its href so it can't navigate; role keeps it exposed as a link
+      return html`
+        <a
+          class=${classMap(classes)}
+          href=${this.isDisabled ? nothing : this.href!}
+          target=${this.isDisabled ? nothing : this.target || nothing}
+          rel=${this.rel || nothing}
+          download=${this.isDisabled ? nothing : this.download ?? nothing}
+          role=${this.isDisabled ? 'link' : nothing}
+          aria-label=${this.ariaLabel || nothing}
+          aria-disabled=${this.isDisabled || this.loading ? 'true' : nothing}
+          aria-busy=${this.loading ? 'true' : nothing}
+          @click=${this.handleClick}
+        >
+          ${content}
+        </a>
+      `;
+    }
 
     return html`
       <button
         type=${this.type}
         class=${classMap(classes)}
-        ?disabled=${this.disabled}
+        ?disabled=${this.isDisabled}
         aria-label=${this.ariaLabel || nothing}
-        aria-disabled=${this.disabled ? 'true' : nothing}
+        aria-haspopup=${this.ariaHasPopup || nothing}
+        aria-expanded=${this.ariaExpanded || nothing}
+        aria-disabled=${this.isDisabled || this.loading ? 'true' : nothing}
+        aria-busy=${this.loading ? 'true' : nothing}
         @click=${this.handleClick}
-        @keydown=${this.handleKeyDown}
       >
-        ${hasIcon && this.iconPosition === 'leading'
-          ? html`<slot name="icon"></slot>`
-          : nothing}
-        ${showDot ? html`<span class="dot-indicator"></span>` : nothing}
-        ${!isIconOnly ? html`<slot></slot>` : nothing}
-        ${hasIcon && this.iconPosition === 'trailing'
-          ? html`<slot name="icon"></slot>`
-          : nothing}
-        ${isIconOnly ? html`<slot name="icon"></slot>` : nothing}
+        ${content}
       </button>
     `;
   }
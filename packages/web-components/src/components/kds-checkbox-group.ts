@@ -0,0 +1,375 @@
+/**
+ * @package @kds/web-components
+ * @component kds-checkbox-group
+ * @description Checkbox Group component from Untitled UI design system
+ * @author Kilian Sala <kilian@kapsch.net>
+ * @source Figma: Untitled UI - FREE Figma UI kit v2.0
+ *
+ * ⚠️ STATUS: PENDING FIGMA DATA VALIDATION
+ * Built on kds-checkbox; label and hint typography follow kds-input-field.
+ * TODO markers indicate values that must be verified against actual Figma design.
+ */
+
+import { LitElement, html, css, nothing, PropertyValues } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import { live } from 'lit/directives/live.js';
+import './kds-checkbox.js';
+import type { KdsCheckbox, CheckboxSize } from './kds-checkbox.js';
+
+export type CheckboxGroupOrientation = 'vertical' | 'horizontal';
+
+/**
+ * Checkbox Group component built with LIT
+ *
+ * Groups `kds-checkbox` elements under a shared label and hint, and tracks the
+ * values of the checked options in `value`.
+ *
+ * @example
+ * ```html
+ * <!-- Basic group -->
+ * <kds-checkbox-group label="Notifications" hint="Choose how we contact you.">
+ *   <kds-checkbox value="email" checked>Email</kds-checkbox>
+ *   <kds-checkbox value="sms">SMS</kds-checkbox>
+ *   <kds-checkbox value="push">Push</kds-checkbox>
+ * </kds-checkbox-group>
+ *
+ * <!-- Horizontal with a "select all" parent -->
+ * <kds-checkbox-group label="Days" orientation="horizontal" select-all>
+ *   <kds-checkbox value="mon">Mon</kds-checkbox>
+ *   <kds-checkbox value="tue">Tue</kds-checkbox>
+ * </kds-checkbox-group>
+ *
+ * <!-- Error state: hint is shown as the error message -->
+ * <kds-checkbox-group label="Terms" hint="Accept both to continue." error>
+ *   <kds-checkbox value="tos">Terms of service</kds-checkbox>
+ *   <kds-checkbox value="privacy">Privacy policy</kds-checkbox>
+ * </kds-checkbox-group>
+ * ```
+ *
+ * `size` and `name` are applied to every option; `disabled` and `error` are
+ * applied once set on the group. With `select-all` a parent checkbox is shown
+ * above the options: it is checked when every enabled option is checked,
+ * indeterminate when only some are, and toggles all enabled options. When the
+ * owning form is reset, `value` and the parent follow the options' reset state.
+ *
+ * @slot - `kds-checkbox` options
+ *
+ * @fires {CustomEvent<{value: string[]}>} kds-checkbox-group-change - Fired when the user changes the checked options
+ */
+@customElement('kds-checkbox-group')
+export class KdsCheckboxGroup extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      font-family: var(--kds-font-family, 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif);
+    }
+
+    .group {
+      display: flex;
+      flex-direction: column;
+      gap: var(--kds-checkbox-group-gap, 12px);
+    }
+
+    /* Group label - same typography as kds-input-field label */
+    .label {
+      display: block;
+      margin: 0;
+      font-size: 14px;
+      line-height: 20px;
+      font-weight: 500;
+      color: var(--kds-checkbox-group-label-color, #414651);
+    }
+
+    .options {
+      display: flex;
+      flex-direction: column;
+      gap: var(--kds-checkbox-group-gap, 12px);
+    }
+
+    :host([orientation="horizontal"]) .options {
+      flex-direction: row;
+      flex-wrap: wrap;
+      column-gap: var(--kds-checkbox-group-gap-horizontal, 24px);
+    }
+
+    /* Options nest under the parent: checkbox width + 12px checkbox gap */
+    .group.has-select-all .options.size-sm {
+      padding-inline-start: 28px;
+    }
+
+    .group.has-select-all .options.size-md {
+      padding-inline-start: 32px;
+    }
+
+    /* Hint text - same typography as kds-input-field hint */
+    .hint {
+      margin: 0;
+      font-size: 14px;
+      line-height: 20px;
+      font-weight: 400;
+      color: var(--kds-checkbox-group-hint-color, #535862);
+    }
+
+    .group.error .hint {
+      color: var(--kds-checkbox-group-error-color, #D92D20);
+    }
+
+    .group.disabled .label,
+    .group.disabled .hint {
+      color: var(--kds-checkbox-group-disabled-text, #A4ACBA);
+    }
+  `;
+
+  /**
+   * Group label text
+   */
+  @property({ type: String })
+  label = '';
+
+  /**
+   * Hint text below the options. In error state, rendered as the error message.
+   */
+  @property({ type: String })
+  hint = '';
+
+  /**
+   * Layout of the options
+   * @default 'vertical'
+   */
+  @property({ type: String, reflect: true })
+  orientation: CheckboxGroupOrientation = 'vertical';
+
+  /**
+   * Size applied to every option and the "select all" parent
+   * @default 'md'
+   */
+  @property({ type: String, reflect: true })
+  size: CheckboxSize = 'md';
+
+  /**
+   * Name applied to every option for form submission
+   */
+  @property({ type: String, reflect: true })
+  name?: string;
+
+  /**
+   * Values of the checked options
+   */
+  @property({ type: Array, attribute: false })
+  value: string[] = [];
+
+  /**
+   * Disables every option
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  disabled = false;
+
+  /**
+   * Error state: red hint and error styling on every option
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  error = false;
+
+  /**
+   * Show a tri-state "select all" parent checkbox above the options
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true, attribute: 'select-all' })
+  selectAll = false;
+
+  /**
+   * Label of the "select all" parent checkbox
+   * @default 'Select all'
+   */
+  @property({ type: String, attribute: 'select-all-label' })
+  selectAllLabel = 'Select all';
+
+  /**
+   * ARIA label for the group (when there is no visible label)
+   */
+  @property({ type: String, attribute: 'aria-label' })
+  override ariaLabel: string | null = null;
+
+  override willUpdate() {
+    // Markup-driven groups start from the options' own `checked` attributes
+    if (!this.hasUpdated && !this.value.length) {
+      this.value = this._checkedValues();
+    }
+  }
+
+  override updated(changed: PropertyValues<this>) {
+    const checkboxes = this._getCheckboxes();
+
+    if (changed.has('value')) {
+      this._syncCheckboxes(checkboxes);
+    }
+
+    if (['size', 'name', 'disabled', 'error'].some((key) => changed.has(key as keyof KdsCheckboxGroup))) {
+      this._applyGroupState(checkboxes, changed);
+    }
+  }
+
+  private _getCheckboxes(): KdsCheckbox[] {
+    return Array.from(this.querySelectorAll('kds-checkbox'));
+  }
+
+  private _checkedValues(checkboxes = this._getCheckboxes()): string[] {
+    return checkboxes.filter((checkbox) => checkbox.checked).map((checkbox) => checkbox.value);
+  }
+
+  private _syncCheckboxes(checkboxes = this._getCheckboxes()) {
+    checkboxes.forEach((checkbox) => {
+      checkbox.checked = this.value.includes(checkbox.value);
+    });
+  }
+
+  /**
+   * Applies group-level state to the options. `disabled` and `error` only
+   * override the options' own values once they have been set on the group.
+   */
+  private _applyGroupState(checkboxes = this._getCheckboxes(), changed?: PropertyValues<this>) {
+    checkboxes.forEach((checkbox) => {
+      checkbox.size = this.size;
+      if (this.name) checkbox.name = this.name;
+      if (this.disabled || changed?.get('disabled')) checkbox.disabled = this.disabled;
+      if (this.error || changed?.get('error')) checkbox.error = this.error;
+    });
+  }
+
+  /**
+   * Parent state: checked when every enabled option is checked, indeterminate
+   * when only some are.
+   */
+  private _getSelectAllState() {
+    const checkboxes = this._getCheckboxes();
+    const enabled = checkboxes.filter((checkbox) => !checkbox.disabled);
+    const counted = enabled.length ? enabled : checkboxes;
+    const checkedCount = counted.filter((checkbox) => checkbox.checked).length;
+
+    return {
+      checked: counted.length > 0 && checkedCount === counted.length,
+      indeterminate: checkedCount > 0 && checkedCount < counted.length,
+    };
+  }
+
+  private _handleSlotChange() {
+    const checkboxes = this._getCheckboxes();
+
+    if (this.value.length) {
+      this._syncCheckboxes(checkboxes);
+    } else {
+      this.value = this._checkedValues(checkboxes);
+    }
+    this._applyGroupState(checkboxes);
+    this.requestUpdate();
+  }
+
+  /** An option was reset by its form; `value` and the parent follow. */
+  private _handleOptionReset(event: CustomEvent) {
+    const checkboxes = this._getCheckboxes();
+    if (!checkboxes.includes(event.target as KdsCheckbox)) return;
+
+    this.value = this._checkedValues(checkboxes);
+  }
+
+  private _handleOptionChange(event: CustomEvent) {
+    const checkboxes = this._getCheckboxes();
+    if (!checkboxes.includes(event.target as KdsCheckbox)) return;
+
+    this._commitValue(this._checkedValues(checkboxes));
+  }
+
+  private _handleSelectAllChange(event: CustomEvent<{ checked: boolean }>) {
+    // The parent is internal; the group reports its own change event instead
+    event.stopPropagation();
+
+    const checkboxes = this._getCheckboxes();
+    checkboxes
+      .filter((checkbox) => !checkbox.disabled)
+      .forEach((checkbox) => {
+        checkbox.checked = event.detail.checked;
+        checkbox.indeterminate = false;
+      });
+
+    this._commitValue(this._checkedValues(checkboxes));
+  }
+
+  private _commitValue(value: string[]) {
+    this.value = value;
+
+    this.dispatchEvent(
+      new CustomEvent('kds-checkbox-group-change', {
+        detail: { value },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  override render() {
+    const groupClasses = {
+      group: true,
+      error: this.error,
+      disabled: this.disabled,
+      'has-select-all': this.selectAll,
+    };
+
+    const optionsClasses = {
+      options: true,
+      [`size-${this.size}`]: true,
+    };
+
+    const selectAllState = this.selectAll ? this._getSelectAllState() : null;
+
+    return html`
+      <div
+        class=${classMap(groupClasses)}
+        part="group"
+        role="group"
+        aria-labelledby=${this.label ? 'label' : nothing}
+        aria-label=${!this.label && this.ariaLabel ? this.ariaLabel : nothing}
+        aria-describedby=${this.hint ? 'hint' : nothing}
+        aria-invalid=${this.error ? 'true' : nothing}
+      >
+        ${this.label
+          ? html`<span class="label" id="label" part="label">${this.label}</span>`
+          : nothing}
+
+        ${selectAllState
+          ? html`<kds-checkbox
+              class="select-all"
+              part="select-all"
+              size=${this.size}
+              .checked=${live(selectAllState.checked)}
+              .indeterminate=${live(selectAllState.indeterminate)}
+              ?disabled=${this.disabled}
+              ?error=${this.error}
+              @kds-checkbox-change=${this._handleSelectAllChange}
+            >${this.selectAllLabel}</kds-checkbox>`
+          : nothing}
+
+        <div
+          class=${classMap(optionsClasses)}
+          part="options"
+          @kds-checkbox-change=${this._handleOptionChange}
+          @kds-checkbox-reset=${this._handleOptionReset}
+        >
+          <slot @slotchange=${this._handleSlotChange}></slot>
+        </div>
+
+        ${this.hint
+          ? html`<p class="hint" id="hint" part="hint">${this.hint}</p>`
+          : nothing}
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'kds-checkbox-group': KdsCheckboxGroup;
+  }
+}
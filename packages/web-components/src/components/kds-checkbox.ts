@@ -10,8 +10,8 @@
  * TODO markers indicate values that must be verified against actual Figma design.
  */
 
-import { LitElement, html, css, nothing } from 'lit';
-import { customElement, property } from 'lit/decorators.js';
+import { LitElement, html, css, nothing, PropertyValues } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
 import { classMap } from 'lit/directives/class-map.js';
 import { live } from 'lit/directives/live.js';
 
@@ -40,14 +40,26 @@ export type CheckboxSize = 'sm' | 'md';
  *
  * <!-- Without label (requires aria-label) -->
  * <kds-checkbox aria-label="Accept terms"></kds-checkbox>
+ *
+ * <!-- Inside a form: submits "newsletter=yes" when checked -->
+ * <form>
+ *   <kds-checkbox name="newsletter" value="yes">Subscribe</kds-checkbox>
+ * </form>
  * ```
  *
+ * The element is form-associated (ElementInternals): when checked its value is
+ * part of the owning form's FormData, it resets to its initial checked state on
+ * form reset, and it is disabled by an ancestor `<fieldset disabled>`.
+ *
  * @fires {CustomEvent} kds-checkbox-change - Fired when checkbox value changes
  * @fires {CustomEvent} kds-checkbox-focus - Fired when checkbox receives focus
  * @fires {CustomEvent} kds-checkbox-blur - Fired when checkbox loses focus
+ * @fires {CustomEvent} kds-checkbox-reset - Fired when the owning form resets the checkbox
  */
 @customElement('kds-checkbox')
 export class KdsCheckbox extends LitElement {
+  static formAssociated = true;
+
   static override styles = css`
     :host {
       display: inline-flex;
@@ -58,7 +70,8 @@ export class KdsCheckbox extends LitElement {
       user-select: none;
     }
 
-    :host([disabled]) {
+    :host([disabled]),
+    :host(:disabled) {
       cursor: not-allowed;
       opacity: 0.5;
     }
@@ -116,13 +129,13 @@ export class KdsCheckbox extends LitElement {
     }
 
     /* Hover states - from Figma design tokens */
-    :host(:not([disabled])) .checkbox:hover {
+    :host(:not([disabled]):not(:disabled)) .checkbox:hover {
       border-color: var(--kds-color-brand-600, #7F56D9);
       background-color: var(--kds-color-brand-50, #F9F5FF);
     }
 
-    :host(:not([disabled])) .checkbox.checked:hover,
-    :host(:not([disabled])) .checkbox.indeterminate:hover {
+    :host(:not([disabled]):not(:disabled)) .checkbox.checked:hover,
+    :host(:not([disabled]):not(:disabled)) .checkbox.indeterminate:hover {
       background-color: var(--kds-color-brand-600, #7F56D9);
       border-color: var(--kds-color-brand-600, #7F56D9);
     }
@@ -149,7 +162,8 @@ export class KdsCheckbox extends LitElement {
     }
 
     /* Disabled state */
-    :host([disabled]) .checkbox {
+    :host([disabled]) .checkbox,
+    :host(:disabled) .checkbox {
       background-color: var(--kds-color-gray-100, #F5F5F5);
       border-color: var(--kds-color-gray-200, #E9EAEB);
       cursor: not-allowed;
@@ -198,7 +212,8 @@ export class KdsCheckbox extends LitElement {
       line-height: 24px;
     }
 
-    :host([disabled]) .label {
+    :host([disabled]) .label,
+    :host(:disabled) .label {
       color: var(--kds-color-gray-600, #535862);
     }
 
@@ -267,7 +282,7 @@ export class KdsCheckbox extends LitElement {
   /**
    * Name attribute for form submission
    */
-  @property({ type: String })
+  @property({ type: String, reflect: true })
   name?: string;
 
   /**
@@ -296,8 +311,87 @@ export class KdsCheckbox extends LitElement {
   @property({ type: String, attribute: 'aria-describedby' })
   ariaDescribedBy?: string;
 
+  /**
+   * Set when an ancestor `<fieldset>` is disabled
+   */
+  @state()
+  private formDisabled = false;
+
+  private internals: ElementInternals;
+
+  /**
+   * Checked state restored on form reset — captured on first render
+   */
+  private defaultChecked = false;
+
+  constructor() {
+    super();
+    this.internals = this.attachInternals();
+  }
+
+  /**
+   * The form this element is associated with, if any
+   */
+  get form(): HTMLFormElement | null {
+    return this.internals.form;
+  }
+
+  private get isDisabled(): boolean {
+    return this.disabled || this.formDisabled;
+  }
+
+  override firstUpdated() {
+    this.defaultChecked = this.checked;
+  }
+
+  override updated(changed: PropertyValues<this>) {
+    if (changed.has('checked') || changed.has('value')) {
+      this.internals.setFormValue(this.checked ? this.value : null, String(this.checked));
+    }
+
+    if (changed.has('checked') || changed.has('required')) {
+      if (this.required && !this.checked) {
+        this.internals.setValidity({ valueMissing: true }, 'Please check this box if you want to proceed.');
+      } else {
+        this.internals.setValidity({});
+      }
+    }
+  }
+
+  /**
+   * Called by the owning form on reset
+   */
+  formResetCallback() {
+    this.checked = this.defaultChecked;
+    this.indeterminate = false;
+    // Lets a kds-checkbox-group follow the reset without a change event
+    this.dispatchEvent(
+      new CustomEvent('kds-checkbox-reset', {
+        detail: { checked: this.checked, value: this.value },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  /**
+   * Called by the browser when restoring state (back/forward cache, autofill)
+   */
+  formStateRestoreCallback(state: string | File | FormData | null) {
+    if (typeof state === 'string') {
+      this.checked = state === 'true';
+    }
+  }
+
+  /**
+   * Called when an ancestor `<fieldset>` toggles its disabled state
+   */
+  formDisabledCallback(disabled: boolean) {
+    this.formDisabled = disabled;
+  }
+
   private handleChange(event: Event) {
-    if (this.disabled) {
+    if (this.isDisabled) {
       event.preventDefault();
       event.stopPropagation();
       return;
@@ -333,7 +427,7 @@ export class KdsCheckbox extends LitElement {
   }
 
   private handleFocus(event: FocusEvent) {
-    if (this.disabled) return;
+    if (this.isDisabled) return;
 
     this.dispatchEvent(
       new CustomEvent('kds-checkbox-focus', {
@@ -345,7 +439,7 @@ export class KdsCheckbox extends LitElement {
   }
 
   private handleBlur(event: FocusEvent) {
-    if (this.disabled) return;
+    if (this.isDisabled) return;
 
     this.dispatchEvent(
       new CustomEvent('kds-checkbox-blur', {
@@ -359,7 +453,7 @@ export class KdsCheckbox extends LitElement {
   private handleClick(event: MouseEvent) {
     // Let the native checkbox handle the click
     // This is mainly for the label to work correctly
-    if (this.disabled) {
+    if (this.isDisabled) {
       event.preventDefault();
       event.stopPropagation();
     }
@@ -388,7 +482,7 @@ export class KdsCheckbox extends LitElement {
           type="checkbox"
           .checked=${live(this.checked)}
           .indeterminate=${live(this.indeterminate)}
-          ?disabled=${this.disabled}
+          ?disabled=${this.isDisabled}
           ?required=${this.required}
           name=${this.name || nothing}
           value=${this.value}
@@ -0,0 +1,1192 @@
+/**
+ * @package @kds/web-components
+ * @component kds-date-picker
+ * @description Date picker component from Untitled UI design system
+ * @author Kilian Sala <kilian@kapsch.net>
+ * @source Figma: Untitled UI - FREE Figma UI kit v2.0
+ *
+ * ⚠️ STATUS: PENDING FIGMA DATA VALIDATION
+ * The text entry is a kds-input-field; the calendar follows the Untitled UI
+ * date picker menu.
+ * TODO markers indicate values that must be verified against actual Figma design.
+ */
+
+import { LitElement, html, css, nothing, PropertyValues } from 'lit';
+import { customElement, property, query, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import { live } from 'lit/directives/live.js';
+import { styleMap } from 'lit/directives/style-map.js';
+import './kds-input-field.js';
+import type { KdsInputField, InputFieldValidator } from './kds-input-field.js';
+
+/** Detail of `kds-date-picker-change` */
+export interface DatePickerValueDetail {
+  value: string;
+  valueStart: string;
+  valueEnd: string;
+}
+
+/** Gap between the field and the calendar, in px. */
+const CALENDAR_OFFSET = 4;
+
+/** Minimum distance kept between the calendar and the viewport edge, in px. */
+const VIEWPORT_PADDING = 8;
+
+/** Regions whose week starts on Sunday, for browsers without `Intl.Locale` week info. */
+const SUNDAY_START_REGIONS = ['US', 'CA', 'MX', 'BR', 'JP', 'KR', 'TW', 'HK', 'IL', 'PH', 'IN', 'ZA', 'SA'];
+
+/** Formats a local date as `YYYY-MM-DD`. */
+function toIsoDate(date: Date): string {
+  const year = String(date.getFullYear()).padStart(4, '0');
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+/** Local midnight of the given day, or null when the day does not exist (e.g. February 30). */
+function createDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(2000, 0, 1);
+  date.setFullYear(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+/** Parses a `YYYY-MM-DD` string to a local date. */
+function fromIsoDate(value: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  return match ? createDate(Number(match[1]), Number(match[2]), Number(match[3])) : null;
+}
+
+function addDays(iso: string, days: number): string {
+  const date = fromIsoDate(iso)!;
+  date.setDate(date.getDate() + days);
+  return toIsoDate(date);
+}
+
+/** Moves by whole months, keeping the day where the target month allows it. */
+function addMonths(iso: string, months: number): string {
+  const date = fromIsoDate(iso)!;
+  const day = date.getDate();
+  date.setDate(1);
+  date.setMonth(date.getMonth() + months);
+  const lastDay = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+  date.setDate(Math.min(day, lastDay));
+  return toIsoDate(date);
+}
+
+interface DateFormats {
+  /** Order of the numeric fields in the locale, e.g. month, day, year. */
+  order: ('day' | 'month' | 'year')[];
+  /** Human-readable input pattern, e.g. `MM/DD/YYYY`. */
+  pattern: string;
+  input: Intl.DateTimeFormat;
+  full: Intl.DateTimeFormat;
+  monthYear: Intl.DateTimeFormat;
+  weekdayShort: Intl.DateTimeFormat;
+  weekdayLong: Intl.DateTimeFormat;
+  weekStart: number;
+}
+
+/**
+ * Date Picker component built with LIT
+ *
+ * @example
+ * ```html
+ * <!-- Single date -->
+ * <kds-date-picker label="Due date" name="due" value="2026-10-19"></kds-date-picker>
+ *
+ * <!-- Range, limited to the next 90 days -->
+ * <kds-date-picker
+ *   label="Travel dates"
+ *   range
+ *   value-start="2026-11-02"
+ *   value-end="2026-11-06"
+ *   min="2026-10-19"
+ *   max="2027-01-17"
+ * ></kds-date-picker>
+ *
+ * <!-- Fixed locale and holidays -->
+ * <kds-date-picker label="Liefertermin" locale="de-AT" disabled-dates='["2026-12-25"]'></kds-date-picker>
+ * ```
+ *
+ * Values are ISO dates (`YYYY-MM-DD`), like a native `<input type="date">`.
+ * The field shows and accepts dates in the locale's numeric format (from
+ * `locale`, the nearest `lang` attribute or the browser), and ISO dates are
+ * always accepted when typing. In range mode, type both dates separated by a
+ * dash, e.g. `11/02/2026 – 11/06/2026`. Text that can't be parsed, or a date
+ * outside `min` / `max` or disabled, shows a validation message and keeps
+ * the previous value.
+ *
+ * The calendar opens from the button in the field or with Alt+ArrowDown. It is
+ * a dialog with a date grid: arrow keys move by day and week, Home / End to
+ * the start / end of the week, Page Up / Page Down by month (with Shift by
+ * year), Enter / Space select and Escape closes. In range mode the first
+ * selected date starts the range and the second one ends it.
+ *
+ * The element is form-associated: single mode submits `value`; range mode
+ * submits two entries under `name`, start then end.
+ *
+ * @fires {CustomEvent<{value: string, valueStart: string, valueEnd: string}>} kds-date-picker-change - Fired when the user selects or types a new date
+ */
+@customElement('kds-date-picker')
+export class KdsDatePicker extends LitElement {
+  static formAssociated = true;
+
+  static override styles = css`
+    :host {
+      display: block;
+      font-family: var(--kds-font-family, 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif);
+    }
+
+    :host([hidden]) {
+      display: none;
+    }
+
+    /* === CALENDAR TOGGLE (in the field's trailing slot) === */
+    .toggle {
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      align-self: stretch;
+      padding: 0 14px;
+      border: none;
+      background: none;
+      color: var(--kds-date-picker-icon, #717680);
+      cursor: pointer;
+    }
+
+    .toggle:hover {
+      color: #414651;
+    }
+
+    .toggle:focus-visible {
+      outline: 2px solid var(--kds-color-brand-600, #7F56D9);
+      outline-offset: -2px;
+    }
+
+    .toggle:disabled {
+      color: #A4ACBA;
+      cursor: not-allowed;
+    }
+
+    .toggle svg {
+      display: block;
+      width: 20px;
+      height: 20px;
+    }
+
+    /* === CALENDAR POPUP === */
+    /* TODO: Verify calendar measurements against the Figma date picker menu */
+    .calendar {
+      position: fixed;
+      top: 0;
+      left: 0;
+      z-index: var(--kds-date-picker-z-index, 1000);
+      box-sizing: border-box;
+      padding: 20px 24px;
+      background-color: var(--kds-date-picker-bg, #FFFFFF);
+      border: 1px solid var(--kds-date-picker-border, #E9EAEB);
+      border-radius: 12px;
+      box-shadow: 0px 20px 24px -4px rgba(10, 13, 18, 0.08), 0px 8px 8px -4px rgba(10, 13, 18, 0.03);
+    }
+
+    .calendar[hidden] {
+      display: none;
+    }
+
+    .header {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      gap: 8px;
+      margin-bottom: 12px;
+    }
+
+    .month {
+      margin: 0;
+      font-size: 16px;
+      line-height: 24px;
+      font-weight: 600;
+      color: #414651;
+    }
+
+    .nav {
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      width: 36px;
+      height: 36px;
+      padding: 0;
+      border: none;
+      border-radius: 8px;
+      background: none;
+      color: #A4A7AE;
+      cursor: pointer;
+    }
+
+    .nav:hover {
+      background-color: #F9FAFB;
+      color: #717680;
+    }
+
+    .nav:focus-visible {
+      outline: none;
+      box-shadow: var(--kds-shadow-xs-focused-primary, 0 0 0 4px #F4EBFF, 0 1px 2px 0 rgba(10, 13, 18, 0.05));
+    }
+
+    .nav:disabled {
+      color: #D5D7DA;
+      background: none;
+      cursor: not-allowed;
+    }
+
+    .nav svg {
+      width: 20px;
+      height: 20px;
+    }
+
+    :host(:dir(rtl)) .nav svg {
+      transform: scaleX(-1);
+    }
+
+    .grid {
+      border-collapse: collapse;
+      border-spacing: 0;
+    }
+
+    th {
+      width: 40px;
+      height: 40px;
+      padding: 0;
+      font-size: 14px;
+      line-height: 20px;
+      font-weight: 500;
+      color: #414651;
+    }
+
+    td {
+      padding: 0;
+    }
+
+    .day {
+      position: relative;
+      width: 40px;
+      height: 40px;
+      border-radius: 9999px;
+      font-size: 14px;
+      line-height: 20px;
+      text-align: center;
+      color: var(--kds-date-picker-day, #414651);
+      cursor: pointer;
+      outline: none;
+    }
+
+    .day:hover {
+      background-color: var(--kds-date-picker-day-hover, #F9FAFB);
+    }
+
+    .day:focus-visible {
+      box-shadow: var(--kds-shadow-xs-focused-primary, 0 0 0 4px #F4EBFF, 0 1px 2px 0 rgba(10, 13, 18, 0.05));
+    }
+
+    .day.today::after {
+      content: '';
+      position: absolute;
+      bottom: 6px;
+      left: 50%;
+      width: 5px;
+      height: 5px;
+      margin-left: -2.5px;
+      border-radius: 9999px;
+      background-color: currentColor;
+    }
+
+    .day.in-range {
+      border-radius: 0;
+      background-color: var(--kds-date-picker-range, #F9FAFB);
+    }
+
+    .day.selected {
+      font-weight: 500;
+      color: #FFFFFF;
+      background-color: var(--kds-date-picker-selected, var(--kds-color-brand-600, #7F56D9));
+    }
+
+    .day.disabled {
+      color: #A4A7AE;
+      background: none;
+      cursor: not-allowed;
+    }
+  `;
+
+  /** Label text shown above the field. */
+  @property({ type: String })
+  label = '';
+
+  /** Helper text shown below the field; replaced by the validation message when invalid. */
+  @property({ type: String })
+  hint = '';
+
+  /** Placeholder text; defaults to the locale's date pattern, e.g. `MM/DD/YYYY`. */
+  @property({ type: String })
+  placeholder = '';
+
+  /** Name used when submitting the value with a form. */
+  @property({ type: String, reflect: true })
+  name = '';
+
+  /** Selected date in single mode (`YYYY-MM-DD`). */
+  @property({ type: String })
+  value = '';
+
+  /**
+   * Range mode, using `valueStart` and `valueEnd`
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  range = false;
+
+  /** First date of the range (`YYYY-MM-DD`). */
+  @property({ type: String, attribute: 'value-start' })
+  valueStart = '';
+
+  /** Last date of the range (`YYYY-MM-DD`). */
+  @property({ type: String, attribute: 'value-end' })
+  valueEnd = '';
+
+  /** Earliest selectable date (`YYYY-MM-DD`). */
+  @property({ type: String })
+  min = '';
+
+  /** Latest selectable date (`YYYY-MM-DD`). */
+  @property({ type: String })
+  max = '';
+
+  /** Dates that can't be selected, e.g. `disabled-dates='["2026-12-25"]'`. */
+  @property({ type: Array, attribute: 'disabled-dates' })
+  disabledDates: string[] = [];
+
+  /** Disables dates by rule, e.g. weekends. Property only. */
+  @property({ attribute: false })
+  isDateDisabled: ((date: Date) => boolean) | null = null;
+
+  /** BCP 47 locale for formatting and parsing; defaults to the nearest `lang` or the browser. */
+  @property({ type: String })
+  locale = '';
+
+  /** First day of the week, 0 (Sunday) to 6; defaults to the locale's week start. */
+  @property({ type: Number, attribute: 'first-day-of-week' })
+  firstDayOfWeek?: number;
+
+  /**
+   * Whether a date must be entered
+   * @default false
+   */
+  @property({ type: Boolean })
+  required = false;
+
+  /**
+   * Disabled state. Prevents interaction.
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  disabled = false;
+
+  /**
+   * Whether the calendar is open
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  open = false;
+
+  /** Text in the field; differs from the value while the user is typing. */
+  @state()
+  private _text = '';
+
+  /** Date with keyboard focus in the grid; its month is the one shown. */
+  @state()
+  private _focusedDate = '';
+
+  /** First date of a range whose end is still being picked. */
+  @state()
+  private _rangeAnchor = '';
+
+  /** Date under the pointer, previewing the end of the range. */
+  @state()
+  private _hoverDate = '';
+
+  @state()
+  private _position: { top: number; left: number } | null = null;
+
+  /** Set when an ancestor `<fieldset>` is disabled. */
+  @state()
+  private _formDisabled = false;
+
+  /** Validator handed to the field; replaced when the rules change so the field re-validates. */
+  @state()
+  private _validators: InputFieldValidator[] = [];
+
+  /** Show the validation error on the field — set once the form reports it. */
+  @state()
+  private _showValidity = false;
+
+  @query('kds-input-field')
+  private _field?: KdsInputField;
+
+  @query('.toggle')
+  private _toggle?: HTMLButtonElement;
+
+  @query('.calendar')
+  private _calendar?: HTMLElement;
+
+  private _internals: ElementInternals;
+
+  private _formats!: DateFormats;
+
+  /** Values restored on form reset — captured on first render. */
+  private _defaults = { value: '', valueStart: '', valueEnd: '' };
+
+  /** Move focus into the grid once the opened calendar is positioned. */
+  private _pendingFocus = false;
+
+  /** Set while checkValidity() runs, so its `invalid` event leaves the UI alone. */
+  private _checkingValidity = false;
+
+  constructor() {
+    super();
+    this._internals = this.attachInternals();
+    this.addEventListener('invalid', () => {
+      if (this._checkingValidity) return;
+      this._showValidity = true;
+      this._field?.focus();
+    });
+  }
+
+  /** The form this element is associated with, if any. */
+  get form(): HTMLFormElement | null {
+    return this._internals.form;
+  }
+
+  /** The validity state of the field. */
+  get validity(): ValidityState {
+    return this._internals.validity;
+  }
+
+  /** The message shown when the field is invalid; empty when valid. */
+  get validationMessage(): string {
+    return this._internals.validationMessage;
+  }
+
+  /** Returns true when valid; otherwise fires `invalid` and returns false. */
+  checkValidity(): boolean {
+    this._checkingValidity = true;
+    try {
+      return this._internals.checkValidity();
+    } finally {
+      this._checkingValidity = false;
+    }
+  }
+
+  /** Like checkValidity(), and also shows the error state to the user. */
+  reportValidity(): boolean {
+    return this._internals.reportValidity();
+  }
+
+  /** Opens the calendar and moves focus into the date grid. */
+  show() {
+    if (this._isDisabled) return;
+    this._focusedDate = this._initialFocusDate();
+    this._pendingFocus = true;
+    this.open = true;
+  }
+
+  /** Closes the calendar. */
+  hide() {
+    this.open = false;
+  }
+
+  private get _isDisabled(): boolean {
+    return this.disabled || this._formDisabled;
+  }
+
+  /** Names the calendar dialog and the button that opens it. */
+  private get _dialogLabel(): string {
+    return this.range ? 'Choose dates' : 'Choose date';
+  }
+
+  override connectedCallback() {
+    super.connectedCallback();
+    if (this.open) this._addOpenListeners();
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this._removeOpenListeners();
+  }
+
+  override willUpdate(changed: PropertyValues<this>) {
+    if (!this.hasUpdated || changed.has('locale') || changed.has('firstDayOfWeek')) {
+      this._formats = this._createFormats();
+    }
+
+    if (
+      !this.hasUpdated ||
+      changed.has('value') || changed.has('valueStart') || changed.has('valueEnd') ||
+      changed.has('range') || changed.has('locale')
+    ) {
+      this._text = this._formatValue();
+    }
+
+    const rules = ['range', 'min', 'max', 'disabledDates', 'isDateDisabled', 'locale'] as const;
+    if (!this.hasUpdated || rules.some((key) => changed.has(key))) {
+      this._validators = [(text) => this._validateText(text)];
+    }
+
+    if (changed.has('open') && !this.open) {
+      this._rangeAnchor = '';
+      this._hoverDate = '';
+      this._pendingFocus = false;
+    }
+
+    const constraints = ['_text', '_validators', 'required', 'disabled', '_formDisabled'];
+    if (constraints.some((key) => changed.has(key as keyof KdsDatePicker))) {
+      this._updateValidity();
+    }
+  }
+
+  override firstUpdated() {
+    this._defaults = { value: this.value, valueStart: this.valueStart, valueEnd: this.valueEnd };
+    // The field exists from here on to anchor the browser's validation bubble
+    this._updateValidity();
+  }
+
+  override updated(changed: PropertyValues<this>) {
+    if (changed.has('value') || changed.has('valueStart') || changed.has('valueEnd') || changed.has('range') || changed.has('name')) {
+      this._updateFormValue();
+    }
+
+    if (changed.has('open')) {
+      if (this.open) {
+        this._addOpenListeners();
+        this._updatePosition();
+      } else {
+        this._removeOpenListeners();
+        this._position = null;
+      }
+    }
+
+    if (this.open && this._position && this._pendingFocus) {
+      this._pendingFocus = false;
+      this._focusCell();
+    }
+  }
+
+  /** Called by the owning form on reset. */
+  formResetCallback() {
+    this.value = this._defaults.value;
+    this.valueStart = this._defaults.valueStart;
+    this.valueEnd = this._defaults.valueEnd;
+    this.open = false;
+    this._text = this._formatValue();
+    this._showValidity = false;
+    this._field?.formResetCallback();
+    this.requestUpdate();
+  }
+
+  /** Called by the browser when restoring state (back/forward cache, autofill). */
+  formStateRestoreCallback(state: string | File | FormData | null) {
+    if (typeof state !== 'string') return;
+
+    if (this.range) {
+      const [start = '', end = ''] = state.split(',');
+      this.valueStart = start;
+      this.valueEnd = end;
+    } else {
+      this.value = state;
+    }
+  }
+
+  /** Called when an ancestor `<fieldset>` toggles its disabled state. */
+  formDisabledCallback(disabled: boolean) {
+    this._formDisabled = disabled;
+    if (disabled) this.open = false;
+  }
+
+  /** Programmatically focus the text field. */
+  override focus(options?: FocusOptions) {
+    this._field?.focus(options);
+  }
+
+  private _updateFormValue() {
+    if (!this.range) {
+      this._internals.setFormValue(this.value || null, this.value);
+      return;
+    }
+
+    // A range is submitted as two entries under the same name, start then end
+    const state = `${this.valueStart},${this.valueEnd}`;
+    const data = new FormData();
+    if (this.name && this.valueStart && this.valueEnd) {
+      data.append(this.name, this.valueStart);
+      data.append(this.name, this.valueEnd);
+    }
+    this._internals.setFormValue(data, state);
+  }
+
+  /**
+   * Validates the text with the same rules the field uses, so the host's
+   * validity is current as soon as `value` or `required` change.
+   */
+  private _updateValidity() {
+    const field = this._field;
+    if (!field) return;
+
+    const message = this._validateText(this._text);
+    if (this._isDisabled) {
+      this._internals.setValidity({});
+    } else if (this.required && !this._text.trim()) {
+      this._internals.setValidity({ valueMissing: true }, 'Please fill out this field.', field);
+    } else if (message) {
+      this._internals.setValidity({ customError: true }, message, field);
+    } else {
+      this._internals.setValidity({});
+    }
+  }
+
+  private _resolveLocale(): string {
+    const locale = this.locale || this.closest<HTMLElement>('[lang]')?.lang || navigator.language;
+    try {
+      return Intl.DateTimeFormat.supportedLocalesOf(locale).length ? locale : 'en-US';
+    } catch {
+      return 'en-US';
+    }
+  }
+
+  private _resolveWeekStart(locale: string): number {
+    if (this.firstDayOfWeek !== undefined && this.firstDayOfWeek >= 0 && this.firstDayOfWeek <= 6) {
+      return Math.floor(this.firstDayOfWeek);
+    }
+
+    // Intl week info numbers the days 1 (Monday) to 7 (Sunday)
+    const intlLocale = new Intl.Locale(locale) as Intl.Locale & {
+      getWeekInfo?: () => { firstDay: number };
+      weekInfo?: { firstDay: number };
+    };
+    const weekInfo = intlLocale.getWeekInfo?.() ?? intlLocale.weekInfo;
+    if (weekInfo) return weekInfo.firstDay % 7;
+
+    const region = intlLocale.maximize().region ?? '';
+    return SUNDAY_START_REGIONS.includes(region) ? 0 : 1;
+  }
+
+  private _createFormats(): DateFormats {
+    const locale = this._resolveLocale();
+    const input = new Intl.DateTimeFormat(locale, { year: 'numeric', month: '2-digit', day: '2-digit' });
+
+    const parts = input.formatToParts(new Date(2026, 10, 22));
+    const order = parts
+      .map((part) => part.type)
+      .filter((type): type is 'day' | 'month' | 'year' => type === 'day' || type === 'month' || type === 'year');
+    const pattern = parts
+      .map((part) => ({ day: 'DD', month: 'MM', year: 'YYYY' } as Record<string, string>)[part.type] ?? part.value)
+      .join('');
+
+    return {
+      order,
+      pattern,
+      input,
+      full: new Intl.DateTimeFormat(locale, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' }),
+      monthYear: new Intl.DateTimeFormat(locale, { month: 'long', year: 'numeric' }),
+      weekdayShort: new Intl.DateTimeFormat(locale, { weekday: 'short' }),
+      weekdayLong: new Intl.DateTimeFormat(locale, { weekday: 'long' }),
+      weekStart: this._resolveWeekStart(locale),
+    };
+  }
+
+  private _formatDate(iso: string): string {
+    const date = fromIsoDate(iso);
+    return date ? this._formats.input.format(date) : '';
+  }
+
+  private _formatValue(): string {
+    if (!this.range) return this._formatDate(this.value);
+    if (!this.valueStart || !this.valueEnd) return '';
+    return `${this._formatDate(this.valueStart)} – ${this._formatDate(this.valueEnd)}`;
+  }
+
+  /** Parses one date typed in the locale format, or as `YYYY-MM-DD`. */
+  private _parseDate(text: string): string | null {
+    const iso = fromIsoDate(text);
+    if (iso) return toIsoDate(iso);
+
+    const numbers = text.split(/\D+/).filter(Boolean).map(Number);
+    if (numbers.length !== 3) return null;
+
+    const fields = { day: 0, month: 0, year: 0 };
+    this._formats.order.forEach((type, index) => {
+      fields[type] = numbers[index];
+    });
+    // Two-digit years are read as this century
+    const year = fields.year < 100 ? 2000 + fields.year : fields.year;
+
+    const date = createDate(year, fields.month, fields.day);
+    return date ? toIsoDate(date) : null;
+  }
+
+  /** The dates in the field text, sorted; null when it can't be parsed. */
+  private _parseText(text: string): string[] | null {
+    const trimmed = text.trim();
+    if (!this.range) {
+      const date = this._parseDate(trimmed);
+      return date ? [date] : null;
+    }
+
+    // En / em dash with optional spaces, or a hyphen with spaces (ISO dates contain hyphens)
+    const parts = trimmed.split(/\s*[–—]\s*|\s+-\s+/);
+    if (parts.length !== 2) return null;
+
+    const dates = parts.map((part) => this._parseDate(part));
+    if (dates.some((date) => !date)) return null;
+    return (dates as string[]).sort();
+  }
+
+  /** Validation message for the field text; empty when valid. Emptiness is left to `required`. */
+  private _validateText(text: string): string {
+    if (!text.trim()) return '';
+
+    const dates = this._parseText(text);
+    if (!dates) {
+      const pattern = this._formats.pattern;
+      return this.range ? `Enter a date range as ${pattern} – ${pattern}` : `Enter a date as ${pattern}`;
+    }
+
+    for (const date of dates) {
+      if (this.min && date < this.min) return `Choose a date on or after ${this._formatDate(this.min)}`;
+      if (this.max && date > this.max) return `Choose a date on or before ${this._formatDate(this.max)}`;
+      if (this._isDisabledDate(date)) return `${this._formatDate(date)} is not available`;
+    }
+    return '';
+  }
+
+  private _isDisabledDate(iso: string): boolean {
+    if ((this.min && iso < this.min) || (this.max && iso > this.max)) return true;
+    if (this.disabledDates.includes(iso)) return true;
+    return !!this.isDateDisabled?.(fromIsoDate(iso)!);
+  }
+
+  private _clampDate(iso: string): string {
+    if (this.min && iso < this.min) return this.min;
+    if (this.max && iso > this.max) return this.max;
+    return iso;
+  }
+
+  /** Selected date, else today, kept within min and max. */
+  private _initialFocusDate(): string {
+    const selected = this.range ? this.valueStart : this.value;
+    return this._clampDate(fromIsoDate(selected) ? selected : toIsoDate(new Date()));
+  }
+
+  /** Sets the values from sorted dates (none clears them); fires change when they differ. */
+  private _commitDates(dates: string[]) {
+    const [start = '', end = start] = dates;
+    let changed: boolean;
+
+    if (this.range) {
+      changed = start !== this.valueStart || end !== this.valueEnd;
+      this.valueStart = start;
+      this.valueEnd = end;
+    } else {
+      changed = start !== this.value;
+      this.value = start;
+    }
+    this._text = this._formatValue();
+
+    if (changed) {
+      this.dispatchEvent(
+        new CustomEvent<DatePickerValueDetail>('kds-date-picker-change', {
+          detail: { value: this.value, valueStart: this.valueStart, valueEnd: this.valueEnd },
+          bubbles: true,
+          composed: true,
+        })
+      );
+    }
+  }
+
+  private _selectDate(iso: string) {
+    if (this._isDisabledDate(iso)) return;
+
+    if (this.range && !this._rangeAnchor) {
+      this._rangeAnchor = iso;
+      this._focusedDate = iso;
+      return;
+    }
+
+    const dates = this.range ? [this._rangeAnchor, iso].sort() : [iso];
+    this._commitDates(dates);
+    this._close(true);
+  }
+
+  private _close(restoreFocus: boolean) {
+    this.open = false;
+    if (restoreFocus) this._toggle?.focus();
+  }
+
+  private async _focusCell() {
+    await this.updateComplete;
+    this.renderRoot.querySelector<HTMLElement>(`td[data-date="${this._focusedDate}"]`)?.focus();
+  }
+
+  private _moveFocus(iso: string) {
+    this._focusedDate = this._clampDate(iso);
+    if (this._rangeAnchor) this._hoverDate = this._focusedDate;
+    this._focusCell();
+  }
+
+  // The field's own events stay inside; the picker reports kds-date-picker-change
+  private _handleFieldInput(event: CustomEvent<{ value: string }>) {
+    event.stopPropagation();
+    this._text = event.detail.value;
+  }
+
+  private _handleFieldChange(event: CustomEvent<{ value: string }>) {
+    event.stopPropagation();
+    this._text = event.detail.value;
+
+    if (!this._text.trim()) {
+      this._commitDates([]);
+      return;
+    }
+
+    // Invalid text stays in the field with its validation message
+    const dates = this._parseText(this._text);
+    if (dates && !this._validateText(this._text)) {
+      this._commitDates(dates);
+    }
+  }
+
+  private _handleFieldKeyDown(event: KeyboardEvent) {
+    if (event.key === 'ArrowDown' && event.altKey) {
+      event.preventDefault();
+      this.show();
+    } else if (event.key === 'Escape' && this.open) {
+      event.preventDefault();
+      this.hide();
+    }
+  }
+
+  private _handleToggleClick() {
+    if (this.open) {
+      this.hide();
+    } else {
+      this.show();
+    }
+  }
+
+  private _handleCalendarKeyDown(event: KeyboardEvent) {
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      event.stopPropagation();
+      this._close(true);
+      return;
+    }
+
+    if (event.key !== 'Tab') return;
+
+    // Keep Tab within the calendar, as in a modal dialog
+    const tabbable = Array.from(
+      this._calendar?.querySelectorAll<HTMLElement>('.nav:not(:disabled), td[tabindex="0"]') ?? []
+    );
+    if (!tabbable.length) return;
+    const index = tabbable.indexOf((this.renderRoot as ShadowRoot).activeElement as HTMLElement);
+
+    event.preventDefault();
+    const next = event.shiftKey
+      ? tabbable[(index - 1 + tabbable.length) % tabbable.length]
+      : tabbable[(index + 1) % tabbable.length];
+    next.focus();
+  }
+
+  private _handleGridKeyDown(event: KeyboardEvent) {
+    const current = this._focusedDate;
+    const rtl = getComputedStyle(this).direction === 'rtl';
+    const weekday = (fromIsoDate(current)!.getDay() - this._formats.weekStart + 7) % 7;
+
+    switch (event.key) {
+      case 'ArrowRight':
+        this._moveFocus(addDays(current, rtl ? -1 : 1));
+        break;
+      case 'ArrowLeft':
+        this._moveFocus(addDays(current, rtl ? 1 : -1));
+        break;
+      case 'ArrowDown':
+        this._moveFocus(addDays(current, 7));
+        break;
+      case 'ArrowUp':
+        this._moveFocus(addDays(current, -7));
+        break;
+      case 'Home':
+        this._moveFocus(addDays(current, -weekday));
+        break;
+      case 'End':
+        this._moveFocus(addDays(current, 6 - weekday));
+        break;
+      case 'PageUp':
+        this._moveFocus(addMonths(current, event.shiftKey ? -12 : -1));
+        break;
+      case 'PageDown':
+        this._moveFocus(addMonths(current, event.shiftKey ? 12 : 1));
+        break;
+      case 'Enter':
+      case ' ':
+        this._selectDate(current);
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  }
+
+  private _handleDayClick(iso: string) {
+    this._focusedDate = iso;
+    this._selectDate(iso);
+  }
+
+  private _handleDayPointerEnter(iso: string) {
+    if (this._rangeAnchor) this._hoverDate = iso;
+  }
+
+  private _showMonth(months: number) {
+    this._focusedDate = this._clampDate(addMonths(this._focusedDate, months));
+  }
+
+  private _handleDocumentPointerDown = (event: PointerEvent) => {
+    if (!event.composedPath().includes(this)) {
+      this.hide();
+    }
+  };
+
+  private _handleFocusOut(event: FocusEvent) {
+    // Close when focus moves to another element on the page
+    const next = event.relatedTarget as Node | null;
+    if (this.open && next && next !== this && !this.contains(next) && !this.renderRoot.contains(next)) {
+      this.hide();
+    }
+  }
+
+  private _handleViewportChange = () => {
+    this._updatePosition();
+  };
+
+  private _addOpenListeners() {
+    document.addEventListener('pointerdown', this._handleDocumentPointerDown);
+    window.addEventListener('scroll', this._handleViewportChange, true);
+    window.addEventListener('resize', this._handleViewportChange);
+  }
+
+  private _removeOpenListeners() {
+    document.removeEventListener('pointerdown', this._handleDocumentPointerDown);
+    window.removeEventListener('scroll', this._handleViewportChange, true);
+    window.removeEventListener('resize', this._handleViewportChange);
+  }
+
+  /**
+   * Positions the fixed calendar under the field box, or above it when there
+   * is more room there, and keeps it inside the viewport.
+   */
+  private _updatePosition() {
+    const anchor = this._field?.shadowRoot?.querySelector<HTMLElement>('.input-wrapper') ?? this._field;
+    const calendar = this._calendar;
+    if (!anchor || !calendar) return;
+
+    const a = anchor.getBoundingClientRect();
+    const c = calendar.getBoundingClientRect();
+    const viewportWidth = document.documentElement.clientWidth || window.innerWidth;
+    const viewportHeight = document.documentElement.clientHeight || window.innerHeight;
+
+    const roomBelow = viewportHeight - a.bottom - CALENDAR_OFFSET - VIEWPORT_PADDING;
+    const roomAbove = a.top - CALENDAR_OFFSET - VIEWPORT_PADDING;
+    const top = roomBelow < c.height && roomAbove > roomBelow
+      ? a.top - c.height - CALENDAR_OFFSET
+      : a.bottom + CALENDAR_OFFSET;
+
+    const left = Math.max(VIEWPORT_PADDING, Math.min(a.left, viewportWidth - c.width - VIEWPORT_PADDING));
+
+    this._position = { top, left };
+  }
+
+  override render() {
+    const disabled = this._isDisabled;
+    const pattern = this._formats.pattern;
+    const placeholder = this.placeholder || (this.range ? `${pattern} – ${pattern}` : pattern);
+    const invalid = this._showValidity && !this.validity.valid;
+    const hint = invalid ? this.validationMessage : this.hint;
+
+    return html`
+      <div @focusout=${this._handleFocusOut}>
+        <kds-input-field
+          part="field"
+          type="trailing-dropdown"
+          label=${this.label}
+          hint=${hint}
+          placeholder=${placeholder}
+          .value=${live(this._text)}
+          .validators=${this._validators}
+          ?required=${this.required}
+          ?disabled=${disabled}
+          ?destructive=${invalid}
+          @kds-input=${this._handleFieldInput}
+          @kds-change=${this._handleFieldChange}
+          @keydown=${this._handleFieldKeyDown}
+        >
+          <button
+            slot="trailing-dropdown"
+            class="toggle"
+            part="toggle"
+            type="button"
+            aria-label=${this._dialogLabel}
+            aria-haspopup="dialog"
+            aria-expanded=${this.open ? 'true' : 'false'}
+            aria-controls="calendar"
+            ?disabled=${disabled}
+            @click=${this._handleToggleClick}
+          >
+            <svg viewBox="0 0 20 20" fill="none" xmlns="http://www.w3.org/2000/svg" aria-hidden="true">
+              <path d="M17.5 8.333h-15M13.333 1.667V5M6.667 1.667V5M6.5 18.333h7c1.4 0 2.1 0 2.635-.272a2.5 2.5 0 0 0 1.092-1.093c.273-.534.273-1.234.273-2.635v-7c0-1.4 0-2.1-.273-2.635a2.5 2.5 0 0 0-1.092-1.092C15.6 3.333 14.9 3.333 13.5 3.333h-7c-1.4 0-2.1 0-2.635.273a2.5 2.5 0 0 0-1.093 1.092C2.5 5.233 2.5 5.933 2.5 7.333v7c0 1.4 0 2.1.272 2.635a2.5 2.5 0 0 0 1.093 1.093c.535.272 1.235.272 2.635.272Z" stroke="currentColor" stroke-width="1.667" stroke-linecap="round" stroke-linejoin="round"/>
+            </svg>
+          </button>
+        </kds-input-field>
+        ${this._renderCalendar()}
+      </div>
+    `;
+  }
+
+  private _renderCalendar() {
+    const position = this._position
+      ? { top: `${this._position.top}px`, left: `${this._position.left}px` }
+      : { visibility: 'hidden' };
+
+    const focused = fromIsoDate(this._focusedDate) ?? new Date();
+    const year = focused.getFullYear();
+    const month = focused.getMonth();
+    const firstOfMonth = toIsoDate(new Date(year, month, 1));
+    const lastOfMonth = toIsoDate(new Date(year, month + 1, 0));
+
+    // Leading blanks up to the first day, then the days, padded to whole weeks
+    const lead = (new Date(year, month, 1).getDay() - this._formats.weekStart + 7) % 7;
+    const cells: (string | null)[] = Array(lead).fill(null);
+    for (let day = 1; day <= new Date(year, month + 1, 0).getDate(); day++) {
+      cells.push(toIsoDate(new Date(year, month, day)));
+    }
+    while (cells.length % 7) cells.push(null);
+
+    const weeks: (string | null)[][] = [];
+    for (let i = 0; i < cells.length; i += 7) {
+      weeks.push(cells.slice(i, i + 7));
+    }
+
+    // Any day of a week, shifted to each weekday from the week start
+    const weekdays = Array.from({ length: 7 }, (_, i) => new Date(2026, 10, 1 + ((this._formats.weekStart + i) % 7)));
+
+    return html`
+      <div
+        class="calendar"
+        part="calendar"
+        id="calendar"
+        role="dialog"
+        aria-modal="true"
+        aria-label=${this._dialogLabel}
+        style=${styleMap(position)}
+        ?hidden=${!this.open}
+        @keydown=${this._handleCalendarKeyDown}
+      >
+        <div class="header">
+          <button
+            class="nav"
+            part="nav"
+            type="button"
+            aria-label="Previous month"
+            ?disabled=${!!this.min && firstOfMonth <= this.min}
+            @click=${() => this._showMonth(-1)}
+          >
+            <svg viewBox="0 0 20 20" fill="none" aria-hidden="true">
+              <path d="M12.5 15l-5-5 5-5" stroke="currentColor" stroke-width="1.667" stroke-linecap="round" stroke-linejoin="round"/>
+            </svg>
+          </button>
+          <h2 class="month" id="month" part="month" aria-live="polite">${this._formats.monthYear.format(focused)}</h2>
+          <button
+            class="nav"
+            part="nav"
+            type="button"
+            aria-label="Next month"
+            ?disabled=${!!this.max && lastOfMonth >= this.max}
+            @click=${() => this._showMonth(1)}
+          >
+            <svg viewBox="0 0 20 20" fill="none" aria-hidden="true">
+              <path d="M7.5 15l5-5-5-5" stroke="currentColor" stroke-width="1.667" stroke-linecap="round" stroke-linejoin="round"/>
+            </svg>
+          </button>
+        </div>
+        <table class="grid" part="grid" role="grid" aria-labelledby="month" @keydown=${this._handleGridKeyDown}>
+          <thead>
+            <tr>
+              ${weekdays.map(
+                (date) => html`<th scope="col" abbr=${this._formats.weekdayLong.format(date)}>
+                  ${this._formats.weekdayShort.format(date).slice(0, 2)}
+                </th>`
+              )}
+            </tr>
+          </thead>
+          <tbody>
+            ${weeks.map((week) => html`<tr>${week.map((iso) => this._renderDay(iso))}</tr>`)}
+          </tbody>
+        </table>
+      </div>
+    `;
+  }
+
+  private _renderDay(iso: string | null) {
+    if (!iso) return html`<td></td>`;
+
+    // While picking the end of a range, preview it from the anchor to the hovered / focused day
+    let start = this.range ? this.valueStart : this.value;
+    let end = this.range ? this.valueEnd : this.value;
+    if (this._rangeAnchor) {
+      [start, end] = [this._rangeAnchor, this._hoverDate || this._rangeAnchor].sort();
+    }
+
+    const disabled = this._isDisabledDate(iso);
+    const selected = iso === start || iso === end;
+    const classes = {
+      day: true,
+      today: iso === toIsoDate(new Date()),
+      selected,
+      'in-range': !!start && !!end && iso > start && iso < end,
+      disabled,
+    };
+
+    return html`
+      <td
+        class=${classMap(classes)}
+        role="gridcell"
+        data-date=${iso}
+        tabindex=${iso === this._focusedDate ? '0' : '-1'}
+        aria-label=${this._formats.full.format(fromIsoDate(iso)!)}
+        aria-selected=${selected || classes['in-range'] ? 'true' : 'false'}
+        aria-disabled=${disabled ? 'true' : nothing}
+        aria-current=${classes.today ? 'date' : nothing}
+        @click=${() => this._handleDayClick(iso)}
+        @pointerenter=${() => this._handleDayPointerEnter(iso)}
+      >
+        ${fromIsoDate(iso)!.getDate()}
+      </td>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'kds-date-picker': KdsDatePicker;
+  }
+}
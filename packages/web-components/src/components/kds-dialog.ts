@@ -0,0 +1,509 @@
+/**
+ * @package @kds/web-components
+ * @component kds-dialog
+ * @description Modal dialog component from Untitled UI design system
+ * @author Kilian Sala <kilian@kapsch.net>
+ * @source Figma: Untitled UI - FREE Figma UI kit v2.0
+ *
+ * ⚠️ STATUS: PENDING FIGMA DATA VALIDATION
+ * Layout follows the Untitled UI modal; the destructive variant uses the
+ * error featured icon and the existing destructive kds-button styles.
+ * TODO markers indicate values that must be verified against actual Figma design.
+ */
+
+import { LitElement, html, css, nothing, PropertyValues } from 'lit';
+import { customElement, property, query } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import './kds-button.js';
+
+export type DialogSize = 'sm' | 'md' | 'lg';
+
+/** Open modal dialogs, topmost last; only the topmost one traps focus */
+const openDialogs: KdsDialog[] = [];
+
+/** Document overflow saved while the first dialog locks scrolling */
+let savedOverflow = '';
+
+function lockScroll() {
+  if (openDialogs.length === 1) {
+    savedOverflow = document.documentElement.style.overflow;
+    document.documentElement.style.overflow = 'hidden';
+  }
+}
+
+function unlockScroll() {
+  if (openDialogs.length === 0) {
+    document.documentElement.style.overflow = savedOverflow;
+  }
+}
+
+/** The focused element, looking through open shadow roots */
+function getDeepActiveElement(): HTMLElement | null {
+  let active = document.activeElement;
+  while (active?.shadowRoot?.activeElement) {
+    active = active.shadowRoot.activeElement;
+  }
+  return active instanceof HTMLElement ? active : null;
+}
+
+/**
+ * Collects the elements Tab can reach in flat-tree order: slotted content is
+ * visited in place of its slot, and shadow roots (e.g. kds-button) are entered.
+ */
+function collectTabbable(root: Element | ShadowRoot, out: HTMLElement[]) {
+  let children = Array.from(root.children);
+  if (root instanceof HTMLSlotElement) {
+    const assigned = root.assignedElements({ flatten: true });
+    if (assigned.length) children = assigned;
+  }
+
+  for (const el of children) {
+    if (!(el instanceof HTMLElement) || el.hidden || el.inert) continue;
+
+    if (el.tabIndex >= 0 && !el.hasAttribute('disabled') && el.getClientRects().length > 0) {
+      out.push(el);
+    }
+    collectTabbable(el.shadowRoot ?? el, out);
+  }
+}
+
+/**
+ * Dialog component built with LIT
+ *
+ * A modal dialog (WAI-ARIA dialog pattern) built on the native `<dialog>`
+ * element, so it renders in the top layer above all other content and makes
+ * the rest of the page inert.
+ *
+ * @example
+ * ```html
+ * <kds-dialog id="invite" heading="Invite team members">
+ *   <kds-input-field label="Email" input-type="email"></kds-input-field>
+ *   <kds-button slot="footer" hierarchy="secondary-gray" data-dialog-close="cancel">Cancel</kds-button>
+ *   <kds-button slot="footer" data-dialog-close="invite">Send invite</kds-button>
+ * </kds-dialog>
+ * <kds-button onclick="invite.show()">Invite</kds-button>
+ *
+ * <!-- Destructive confirmation with built-in footer buttons -->
+ * <kds-dialog heading="Delete project" destructive confirm-label="Delete">
+ *   This project and all of its data will be permanently deleted.
+ * </kds-dialog>
+ * ```
+ *
+ * Focus moves into the dialog on open (to the first element with
+ * `autofocus`, otherwise the first focusable element), Tab and Shift+Tab wrap
+ * inside it, and focus returns to the previously focused element on close.
+ * Escape and a click on the backdrop dismiss the dialog with an empty return
+ * value. Page scrolling is locked while any dialog is open. Dialogs opened
+ * from inside an open dialog stack above it; only the topmost one reacts to
+ * Tab, Escape and backdrop clicks.
+ *
+ * Any element inside the dialog with a `data-dialog-close` attribute closes
+ * it when clicked, using the attribute value as the return value.
+ *
+ * @slot header - Replaces the heading (e.g. for rich titles)
+ * @slot - Dialog body
+ * @slot footer - Actions, typically `kds-button`s; replaces the built-in confirm/cancel buttons
+ *
+ * @fires {CustomEvent<{}>} kds-dialog-open - Fired after the dialog opens
+ * @fires {CustomEvent<{returnValue: string}>} kds-dialog-close - Fired after the dialog closes
+ */
+@customElement('kds-dialog')
+export class KdsDialog extends LitElement {
+  static override styles = css`
+    :host {
+      display: contents;
+      font-family: var(--kds-font-family, 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif);
+    }
+
+    dialog {
+      padding: 0;
+      border: none;
+      background: transparent;
+      max-width: calc(100vw - 32px);
+      max-height: calc(100vh - 32px);
+      overflow: visible;
+    }
+
+    dialog::backdrop {
+      background-color: var(--kds-dialog-backdrop, rgba(10, 13, 18, 0.7));
+      backdrop-filter: blur(8px);
+    }
+
+    dialog[open] {
+      animation: kds-dialog-in 0.2s ease-out;
+    }
+
+    @keyframes kds-dialog-in {
+      from {
+        opacity: 0;
+        transform: scale(0.96);
+      }
+    }
+
+    @media (prefers-reduced-motion: reduce) {
+      dialog[open] {
+        animation: none;
+      }
+    }
+
+    .panel {
+      display: flex;
+      flex-direction: column;
+      max-height: calc(100vh - 32px);
+      box-sizing: border-box;
+      background-color: var(--kds-dialog-bg, var(--kds-color-white, #FFFFFF));
+      border-radius: var(--kds-dialog-border-radius, 12px);
+      box-shadow: var(--kds-shadow-xl, 0 20px 24px -4px rgba(10, 13, 18, 0.08), 0 8px 8px -4px rgba(10, 13, 18, 0.03));
+      outline: none;
+    }
+
+    /* TODO: Verify modal widths with Figma */
+    .size-sm {
+      width: var(--kds-dialog-width-sm, 400px);
+    }
+
+    .size-md {
+      width: var(--kds-dialog-width-md, 544px);
+    }
+
+    .size-lg {
+      width: var(--kds-dialog-width-lg, 640px);
+    }
+
+    .header {
+      display: flex;
+      flex-direction: column;
+      gap: 16px;
+      padding: 24px 24px 0;
+    }
+
+    .title {
+      margin: 0;
+      font-size: var(--kds-text-lg-font-size, 18px);
+      line-height: var(--kds-text-lg-line-height, 28px);
+      font-weight: 600;
+      color: var(--kds-dialog-title-color, var(--kds-color-gray-900, #181D27));
+    }
+
+    /* Featured icon: error color, used by the destructive variant */
+    .featured-icon {
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      width: 48px;
+      height: 48px;
+      box-sizing: border-box;
+      border-radius: 50%;
+      border: 8px solid var(--kds-color-error-50, #FEF3F2);
+      background-color: var(--kds-color-error-100, #FEE4E2);
+      color: var(--kds-color-error-600, #D92D20);
+    }
+
+    .featured-icon svg {
+      width: 24px;
+      height: 24px;
+    }
+
+    .body {
+      flex: 1 1 auto;
+      overflow-y: auto;
+      padding: 4px 24px 0;
+      font-size: var(--kds-text-sm-font-size, 14px);
+      line-height: var(--kds-text-sm-line-height, 20px);
+      color: var(--kds-dialog-text-color, var(--kds-color-gray-600, #535862));
+    }
+
+    .footer {
+      display: flex;
+      justify-content: flex-end;
+      gap: 12px;
+      padding: 32px 24px 24px;
+    }
+
+    .footer.empty {
+      padding-top: 24px;
+      padding-bottom: 0;
+    }
+  `;
+
+  /**
+   * Whether the dialog is shown. Setting it opens or closes the dialog.
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  open = false;
+
+  /**
+   * Dialog title; also its accessible name
+   */
+  @property({ type: String })
+  heading = '';
+
+  /**
+   * Dialog width
+   * @default 'md'
+   */
+  @property({ type: String, reflect: true })
+  size: DialogSize = 'md';
+
+  /**
+   * Destructive confirmation: shows the error featured icon and makes the
+   * built-in confirm button destructive
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  destructive = false;
+
+  /**
+   * Label of the built-in confirm button (closes with return value "confirm").
+   * When empty and nothing is slotted into `footer`, no footer is shown.
+   */
+  @property({ type: String, attribute: 'confirm-label' })
+  confirmLabel = '';
+
+  /**
+   * Label of the built-in cancel button (closes with return value "cancel")
+   * @default 'Cancel'
+   */
+  @property({ type: String, attribute: 'cancel-label' })
+  cancelLabel = 'Cancel';
+
+  /**
+   * Value the dialog was last closed with
+   */
+  @property({ attribute: false })
+  returnValue = '';
+
+  /**
+   * ARIA label (used when there is no heading)
+   */
+  @property({ type: String, attribute: 'aria-label' })
+  override ariaLabel: string | null = null;
+
+  @query('dialog')
+  private _dialog!: HTMLDialogElement;
+
+  @query('.panel')
+  private _panel!: HTMLElement;
+
+  /** Element focused before the dialog opened — focused again on close */
+  private _restoreFocus: HTMLElement | null = null;
+
+  /** Backdrop dismiss only counts when the press also started on the backdrop */
+  private _pointerDownOnBackdrop = false;
+
+  /** Opens the dialog as a modal. */
+  show() {
+    this.returnValue = '';
+    this.open = true;
+  }
+
+  /** Closes the dialog with the given return value. */
+  close(returnValue = '') {
+    if (!this.open) return;
+    this.returnValue = returnValue;
+    this.open = false;
+  }
+
+  override connectedCallback() {
+    super.connectedCallback();
+    this.addEventListener('click', this._handleHostClick);
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.removeEventListener('click', this._handleHostClick);
+    this._removeFromStack();
+  }
+
+  override updated(changed: PropertyValues<this>) {
+    if (!changed.has('open')) return;
+
+    if (this.open && !this._dialog.open) {
+      this._restoreFocus = getDeepActiveElement();
+      this._dialog.showModal();
+      openDialogs.push(this);
+      lockScroll();
+      this._focusInitial();
+
+      this.dispatchEvent(
+        new CustomEvent('kds-dialog-open', {
+          detail: {},
+          bubbles: true,
+          composed: true,
+        })
+      );
+    } else if (!this.open && this._dialog.open) {
+      this._dialog.close();
+      this._removeFromStack();
+
+      if (this._restoreFocus?.isConnected) {
+        this._restoreFocus.focus();
+      }
+      this._restoreFocus = null;
+
+      this.dispatchEvent(
+        new CustomEvent('kds-dialog-close', {
+          detail: { returnValue: this.returnValue },
+          bubbles: true,
+          composed: true,
+        })
+      );
+    }
+  }
+
+  private get _isTopmost(): boolean {
+    return openDialogs[openDialogs.length - 1] === this;
+  }
+
+  private _removeFromStack() {
+    const index = openDialogs.indexOf(this);
+    if (index === -1) return;
+    openDialogs.splice(index, 1);
+    unlockScroll();
+  }
+
+  private _getTabbable(): HTMLElement[] {
+    const tabbable: HTMLElement[] = [];
+    if (this._panel) collectTabbable(this._panel, tabbable);
+    return tabbable;
+  }
+
+  private _focusInitial() {
+    const autofocus = this.querySelector<HTMLElement>('[autofocus]');
+    const target = autofocus ?? this._getTabbable()[0] ?? this._panel;
+    target.focus();
+  }
+
+  private _handleKeyDown(event: KeyboardEvent) {
+    if (event.key !== 'Tab' || !this._isTopmost) return;
+
+    // Wrap Tab / Shift+Tab inside the dialog
+    const tabbable = this._getTabbable();
+    if (!tabbable.length) {
+      event.preventDefault();
+      return;
+    }
+
+    const first = tabbable[0];
+    const last = tabbable[tabbable.length - 1];
+    const active = getDeepActiveElement();
+    const index = active ? tabbable.indexOf(active) : -1;
+
+    if (event.shiftKey && index <= 0) {
+      event.preventDefault();
+      last.focus();
+    } else if (!event.shiftKey && (index === -1 || index === tabbable.length - 1)) {
+      event.preventDefault();
+      first.focus();
+    }
+  }
+
+  /** Escape: the native dialog would close itself; route it through close() instead. */
+  private _handleCancel(event: Event) {
+    event.preventDefault();
+    if (this._isTopmost) this.close();
+  }
+
+  /** The native dialog closed without close() (e.g. a form with method="dialog"). */
+  private _handleNativeClose() {
+    if (this.open) {
+      this.returnValue = this._dialog.returnValue;
+      this.open = false;
+    }
+  }
+
+  /** The dialog box fills the <dialog>, so a press on the element itself is on the backdrop. */
+  private _handlePointerDown(event: PointerEvent) {
+    this._pointerDownOnBackdrop = event.composedPath()[0] === this._dialog;
+  }
+
+  private _handleDialogClick(event: MouseEvent) {
+    const onBackdrop = event.composedPath()[0] === this._dialog;
+    if (onBackdrop && this._pointerDownOnBackdrop && this._isTopmost) {
+      this.close();
+    }
+    this._pointerDownOnBackdrop = false;
+  }
+
+  private _handleHostClick = (event: MouseEvent) => {
+    const closer = event.composedPath().find(
+      (node): node is Element => node instanceof Element && node.hasAttribute('data-dialog-close')
+    );
+    // Ignore closers that belong to a nested dialog
+    if (closer && closer.closest('kds-dialog') === this) {
+      this.close(closer.getAttribute('data-dialog-close') ?? '');
+    }
+  };
+
+  private _handleFooterSlotChange() {
+    this.requestUpdate();
+  }
+
+  private _renderFeaturedIcon() {
+    return html`
+      <div class="featured-icon" aria-hidden="true">
+        <svg viewBox="0 0 24 24" fill="none">
+          <path
+            d="M12 9v4m0 4h.01M10.615 3.892 2.39 18.098c-.456.788-.684 1.182-.65 1.506a1 1 0 0 0 .406.705c.263.191.718.191 1.629.191h16.45c.91 0 1.365 0 1.628-.191a1 1 0 0 0 .407-.705c.034-.324-.195-.718-.65-1.506L13.383 3.892c-.454-.785-.681-1.178-.978-1.31a1 1 0 0 0-.813 0c-.296.132-.523.525-.978 1.31Z"
+            stroke="currentColor"
+            stroke-width="2"
+            stroke-linecap="round"
+            stroke-linejoin="round"
+          ></path>
+        </svg>
+      </div>
+    `;
+  }
+
+  override render() {
+    const hasFooterSlot = this.querySelector(':scope > [slot="footer"]') !== null;
+    const hasActions = hasFooterSlot || !!this.confirmLabel;
+
+    return html`
+      <dialog
+        aria-labelledby=${this.ariaLabel ? nothing : 'title'}
+        aria-label=${this.ariaLabel || nothing}
+        @keydown=${this._handleKeyDown}
+        @cancel=${this._handleCancel}
+        @close=${this._handleNativeClose}
+        @pointerdown=${this._handlePointerDown}
+        @click=${this._handleDialogClick}
+      >
+        <div class=${classMap({ panel: true, [`size-${this.size}`]: true })} tabindex="-1">
+          <div class="header">
+            ${this.destructive ? this._renderFeaturedIcon() : nothing}
+            <div id="title">
+              <slot name="header">
+                ${this.heading ? html`<h2 class="title">${this.heading}</h2>` : nothing}
+              </slot>
+            </div>
+          </div>
+          <div class="body">
+            <slot></slot>
+          </div>
+          <div class=${classMap({ footer: true, empty: !hasActions })}>
+            <slot name="footer" @slotchange=${this._handleFooterSlotChange}>
+              ${this.confirmLabel
+                ? html`
+                    <kds-button hierarchy="secondary-gray" @kds-button-click=${() => this.close('cancel')}>
+                      ${this.cancelLabel}
+                    </kds-button>
+                    <kds-button ?destructive=${this.destructive} @kds-button-click=${() => this.close('confirm')}>
+                      ${this.confirmLabel}
+                    </kds-button>
+                  `
+                : nothing}
+            </slot>
+          </div>
+        </div>
+      </dialog>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'kds-dialog': KdsDialog;
+  }
+}
@@ -0,0 +1,793 @@
+/**
+ * @package @kds/web-components
+ * @component kds-file-upload
+ * @description File upload (dropzone) component from Untitled UI design system
+ * @author Kilian Sala <kilian@kapsch.net>
+ * @source Figma: Untitled UI - FREE Figma UI kit v2.0
+ *
+ * ⚠️ STATUS: PENDING FIGMA DATA VALIDATION
+ * Dropzone and file list follow the Untitled UI file upload; the label, hint
+ * and destructive state match kds-input-field and progress uses kds-progress-bar.
+ * TODO markers indicate values that must be verified against actual Figma design.
+ */
+
+import { LitElement, html, css, nothing, PropertyValues } from 'lit';
+import { customElement, property, query, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import { ifDefined } from 'lit/directives/if-defined.js';
+import { repeat } from 'lit/directives/repeat.js';
+import './kds-progress-bar.js';
+
+/** A selected file and the state of its upload. */
+export interface FileUploadItem {
+  file: File;
+  /** Upload progress from 0 to 100; no progress bar while undefined */
+  progress?: number;
+  /** Upload error shown in place of the progress percentage */
+  error?: string;
+}
+
+export type FileRejectionReason = 'type' | 'size' | 'count';
+
+export interface FileRejection {
+  file: File;
+  reason: FileRejectionReason;
+  message: string;
+}
+
+export interface FileAddDetail {
+  files: File[];
+}
+
+export interface FileRemoveDetail {
+  file: File;
+}
+
+export interface FileRejectDetail {
+  rejections: FileRejection[];
+}
+
+const SIZE_UNITS = ['B', 'KB', 'MB', 'GB'];
+
+/** Human-readable size, e.g. 1536 → "1.5 KB". */
+function formatFileSize(bytes: number): string {
+  let size = bytes;
+  let unit = 0;
+  while (size >= 1024 && unit < SIZE_UNITS.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  const rounded = unit > 0 && size < 10 ? Math.round(size * 10) / 10 : Math.round(size);
+  return `${rounded} ${SIZE_UNITS[unit]}`;
+}
+
+/** Whether a file matches an `accept` list, with the native input's semantics. */
+function matchesAccept(file: File, accept: string): boolean {
+  const patterns = accept.split(',').map((pattern) => pattern.trim().toLowerCase()).filter(Boolean);
+  if (!patterns.length) return true;
+
+  const name = file.name.toLowerCase();
+  const type = file.type.toLowerCase();
+  return patterns.some((pattern) => {
+    if (pattern.startsWith('.')) return name.endsWith(pattern);
+    if (pattern.endsWith('/*')) return type.startsWith(pattern.slice(0, -1));
+    return type === pattern;
+  });
+}
+
+/**
+ * File upload component built with LIT
+ *
+ * @example
+ * ```html
+ * <!-- Single file inside a form -->
+ * <form>
+ *   <kds-file-upload label="Vehicle registration" name="registration" accept=".pdf,image/*" max-size="10485760" hint="PDF or image, max. 10 MB" required></kds-file-upload>
+ * </form>
+ *
+ * <!-- Several files, upload progress reported by the app -->
+ * <kds-file-upload label="Attachments" multiple></kds-file-upload>
+ * <script>
+ *   upload.addEventListener('kds-file-add', (e) => {
+ *     for (const file of e.detail.files) {
+ *       send(file, (progress) => upload.updateItem(file, { progress }));
+ *     }
+ *   });
+ * </script>
+ * ```
+ *
+ * Files can be dropped on the dropzone or picked with the browse button.
+ * Files that don't match `accept`, are larger than `max-size`, or exceed one
+ * file without `multiple` are rejected: the field switches to the destructive
+ * styling and shows why in place of the hint, as kds-input-field does for
+ * validation errors. Without `multiple`, a new file replaces the current one.
+ *
+ * The element is form-associated (ElementInternals): every file is part of the
+ * owning form's FormData under `name`, `required` fails while the list is
+ * empty, the list is cleared on form reset, and it is disabled by an ancestor
+ * `<fieldset disabled>`.
+ *
+ * @fires {CustomEvent<FileAddDetail>}    kds-file-add    - Fired when the user adds files
+ * @fires {CustomEvent<FileRemoveDetail>} kds-file-remove - Fired when a file is removed or replaced
+ * @fires {CustomEvent<FileRejectDetail>} kds-file-reject - Fired when dropped or picked files are rejected
+ * @fires {Event}                         invalid         - Fired when a validity check fails
+ */
+@customElement('kds-file-upload')
+export class KdsFileUpload extends LitElement {
+  static formAssociated = true;
+
+  static override styles = css`
+    :host {
+      display: block;
+      font-family: var(--kds-font-family, 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif);
+      box-sizing: border-box;
+    }
+
+    :host([hidden]) {
+      display: none;
+    }
+
+    *,
+    *::before,
+    *::after {
+      box-sizing: inherit;
+    }
+
+    .field {
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+      width: 100%;
+    }
+
+    /* Label and hint: same styles and custom properties as kds-input-field */
+    .label {
+      display: block;
+      margin: 0;
+      font-size: 14px;
+      line-height: 20px;
+      font-weight: 500;
+      color: var(--kds-input-label-color, #414651);
+    }
+
+    .field.disabled .label {
+      color: var(--kds-input-disabled-text, #A4ACBA);
+    }
+
+    .hint {
+      margin: 0;
+      font-size: 14px;
+      line-height: 20px;
+      font-weight: 400;
+      color: var(--kds-input-hint-color, #535862);
+    }
+
+    .field.destructive .hint {
+      color: var(--kds-input-error-color, #D92D20);
+    }
+
+    .field.disabled .hint {
+      color: #A4ACBA;
+    }
+
+    /* TODO: Verify dropzone padding, border and dragging colors against Figma */
+    .dropzone {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: 12px;
+      width: 100%;
+      padding: 16px 24px;
+      border: 1px solid var(--kds-file-upload-border, #E9EAEB);
+      border-radius: 12px;
+      background-color: var(--kds-file-upload-bg, #FFFFFF);
+      text-align: center;
+      cursor: pointer;
+      transition: border-color 0.15s ease, box-shadow 0.15s ease;
+    }
+
+    .dropzone:hover,
+    .dropzone.dragging {
+      border-color: var(--kds-color-brand-600, #7F56D9);
+    }
+
+    .dropzone.dragging {
+      box-shadow: inset 0 0 0 1px var(--kds-color-brand-600, #7F56D9);
+    }
+
+    .field.destructive .dropzone {
+      border-color: var(--kds-input-border-error, #FDA29B);
+    }
+
+    .field.disabled .dropzone {
+      border-color: var(--kds-file-upload-border, #E9EAEB);
+      background-color: var(--kds-input-bg-disabled, #F9FAFB);
+      cursor: not-allowed;
+    }
+
+    .featured-icon {
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      width: 40px;
+      height: 40px;
+      border: 1px solid #D5D7DA;
+      border-radius: 8px;
+      background-color: #FFFFFF;
+      color: #414651;
+      box-shadow: 0px 1px 2px 0px rgba(10, 13, 18, 0.05);
+    }
+
+    .featured-icon svg,
+    .file-icon svg,
+    .remove svg {
+      width: 20px;
+      height: 20px;
+      display: block;
+    }
+
+    .prompt {
+      margin: 0;
+      font-size: 14px;
+      line-height: 20px;
+      color: #535862;
+    }
+
+    .browse {
+      padding: 0;
+      border: none;
+      border-radius: 4px;
+      background: none;
+      font: inherit;
+      font-weight: 600;
+      color: var(--kds-color-brand-700, #6941C6);
+      cursor: pointer;
+    }
+
+    .browse:focus-visible {
+      outline: none;
+      box-shadow: 0px 0px 0px 4px #F4EBFF;
+    }
+
+    .field.disabled .browse,
+    .field.disabled .prompt,
+    .field.disabled .featured-icon {
+      color: #A4ACBA;
+      cursor: not-allowed;
+    }
+
+    input[type='file'] {
+      display: none;
+    }
+
+    /* === FILE LIST === */
+    .files {
+      display: flex;
+      flex-direction: column;
+      gap: 12px;
+      margin: 6px 0 0;
+      padding: 0;
+      list-style: none;
+    }
+
+    .file {
+      display: flex;
+      align-items: flex-start;
+      gap: 12px;
+      padding: 16px;
+      border: 1px solid var(--kds-file-upload-border, #E9EAEB);
+      border-radius: 12px;
+      background-color: var(--kds-file-upload-bg, #FFFFFF);
+    }
+
+    .file.error {
+      border-color: var(--kds-input-border-error, #FDA29B);
+    }
+
+    .file-icon {
+      flex-shrink: 0;
+      color: #717680;
+    }
+
+    .file-body {
+      flex: 1;
+      min-width: 0;
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
+      font-size: 14px;
+      line-height: 20px;
+    }
+
+    .file-name {
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+      font-weight: 500;
+      color: #414651;
+    }
+
+    .file-size {
+      color: #535862;
+    }
+
+    .file-error {
+      margin: 0;
+      color: var(--kds-input-error-color, #D92D20);
+    }
+
+    .remove {
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      flex-shrink: 0;
+      width: 32px;
+      height: 32px;
+      margin: -6px -6px 0 0;
+      padding: 0;
+      border: none;
+      border-radius: 6px;
+      background: none;
+      color: #A4ACBA;
+      cursor: pointer;
+    }
+
+    .remove:hover {
+      color: #717680;
+      background-color: #FAFAFA;
+    }
+
+    .remove:focus-visible {
+      outline: none;
+      box-shadow: 0px 0px 0px 4px #F4EBFF;
+    }
+
+    .remove:disabled {
+      cursor: not-allowed;
+      background: none;
+      color: #D5D7DA;
+    }
+  `;
+
+  /** Label text shown above the dropzone. Empty = no label. */
+  @property({ type: String })
+  label: string = '';
+
+  /** Helper/hint text shown below. Replaced by the message when files are rejected or validation fails. */
+  @property({ type: String })
+  hint: string = '';
+
+  /** HTML name attribute for form participation. */
+  @property({ type: String, reflect: true })
+  name: string = '';
+
+  /** Accepted file types, as for the native input: extensions and MIME types, e.g. ".pdf,image/*". */
+  @property({ type: String })
+  accept: string = '';
+
+  /** Allow more than one file. */
+  @property({ type: Boolean, reflect: true })
+  multiple: boolean = false;
+
+  /** Largest accepted file in bytes; 0 = no limit. */
+  @property({ type: Number, attribute: 'max-size' })
+  maxSize: number = 0;
+
+  /** At least one file must be selected. */
+  @property({ type: Boolean })
+  required: boolean = false;
+
+  /** Disabled state. Prevents adding and removing files. */
+  @property({ type: Boolean, reflect: true })
+  disabled: boolean = false;
+
+  /** Error/destructive state, e.g. for a server-side error shown as the hint. */
+  @property({ type: Boolean, reflect: true })
+  destructive: boolean = false;
+
+  /** Text of the browse button. */
+  @property({ type: String, attribute: 'browse-label' })
+  browseLabel: string = 'Click to upload';
+
+  /** Text after the browse button. */
+  @property({ type: String, attribute: 'drop-label' })
+  dropLabel: string = 'or drag and drop';
+
+  /** Accessible label of the remove buttons, followed by the file name. */
+  @property({ type: String, attribute: 'remove-label' })
+  removeLabel: string = 'Remove';
+
+  /** Selected files and their upload state. Property only. */
+  @property({ attribute: false })
+  items: FileUploadItem[] = [];
+
+  @query('input[type="file"]')
+  private _input!: HTMLInputElement;
+
+  @query('.browse')
+  private _browseButton!: HTMLButtonElement;
+
+  /** Set when an ancestor `<fieldset>` is disabled. */
+  @state()
+  private _formDisabled: boolean = false;
+
+  /** Set once validation errors should be shown (user edit, submit, reportValidity). */
+  @state()
+  private _showValidity: boolean = false;
+
+  /** Current validation message; empty when valid. Computed before each render. */
+  private _validationMessage: string = '';
+
+  /** Why the last dropped or picked files were rejected; cleared on the next change. */
+  @state()
+  private _rejectionMessage: string = '';
+
+  @state()
+  private _dragging: boolean = false;
+
+  /** Message set through setCustomValidity(). */
+  private _customValidity: string = '';
+
+  /** Set while checkValidity() runs, so its `invalid` event leaves the UI alone. */
+  private _checkingValidity: boolean = false;
+
+  private _internals: ElementInternals;
+
+  constructor() {
+    super();
+    this._internals = this.attachInternals();
+    this.addEventListener('invalid', () => {
+      if (!this._checkingValidity) this._showValidity = true;
+    });
+  }
+
+  /** The selected files. */
+  get files(): File[] {
+    return this.items.map((item) => item.file);
+  }
+
+  /** The form this element is associated with, if any. */
+  get form(): HTMLFormElement | null {
+    return this._internals.form;
+  }
+
+  /** The validity state of the field. */
+  get validity(): ValidityState {
+    return this._internals.validity;
+  }
+
+  /** The message shown when the field is invalid; empty when valid. */
+  get validationMessage(): string {
+    return this._internals.validationMessage;
+  }
+
+  /** Whether the field takes part in constraint validation. */
+  get willValidate(): boolean {
+    return this._internals.willValidate;
+  }
+
+  /** Returns true when valid; otherwise fires `invalid` and returns false. */
+  checkValidity(): boolean {
+    this._checkingValidity = true;
+    try {
+      return this._internals.checkValidity();
+    } finally {
+      this._checkingValidity = false;
+    }
+  }
+
+  /** Like checkValidity(), and also shows the error state to the user. */
+  reportValidity(): boolean {
+    this._showValidity = true;
+    return this._internals.reportValidity();
+  }
+
+  /** Sets a custom error message; pass an empty string to clear it. */
+  setCustomValidity(message: string) {
+    this._customValidity = message;
+    this._updateValidity();
+    this.requestUpdate();
+  }
+
+  /** Updates the progress or error of a file's upload. */
+  updateItem(file: File, changes: Omit<FileUploadItem, 'file'>) {
+    this.items = this.items.map((item) => (item.file === file ? { ...item, ...changes } : item));
+  }
+
+  /** Opens the browser's file picker. */
+  browse() {
+    if (this._isDisabled) return;
+    this._input?.click();
+  }
+
+  /** Removes a file from the list. */
+  removeFile(file: File) {
+    if (!this.items.some((item) => item.file === file)) return;
+    this.items = this.items.filter((item) => item.file !== file);
+    this._dispatch('kds-file-remove', { file });
+  }
+
+  private get _isDisabled(): boolean {
+    return this.disabled || this._formDisabled;
+  }
+
+  /** Destructive styling is shown for the prop, a rejection or a visible validation error. */
+  private get _isInvalid(): boolean {
+    return this.destructive || !!this._rejectionMessage || (this._showValidity && !!this._validationMessage);
+  }
+
+  private _updateValidity() {
+    // The browse button anchors the validation message; it exists after the first render
+    if (!this._browseButton) return;
+
+    if (this.required && !this.items.length) {
+      this._internals.setValidity({ valueMissing: true }, 'Select a file to upload.', this._browseButton);
+    } else if (this._customValidity) {
+      this._internals.setValidity({ customError: true }, this._customValidity, this._browseButton);
+    } else {
+      this._internals.setValidity({});
+    }
+
+    this._validationMessage = this._internals.validationMessage;
+  }
+
+  private _updateFormValue() {
+    const data = new FormData();
+    if (this.name) {
+      for (const { file } of this.items) {
+        data.append(this.name, file);
+      }
+    }
+    this._internals.setFormValue(data);
+  }
+
+  override willUpdate(changed: PropertyValues<this>) {
+    if (['items', 'required', 'disabled', '_formDisabled'].some((key) => changed.has(key as keyof KdsFileUpload))) {
+      this._updateValidity();
+    }
+  }
+
+  override firstUpdated() {
+    // Errors are not shown yet, so setting the first validity needs no re-render
+    this._updateValidity();
+  }
+
+  override updated(changed: PropertyValues<this>) {
+    if (changed.has('items') || changed.has('name')) {
+      this._updateFormValue();
+    }
+  }
+
+  /** Called by the owning form on reset. */
+  formResetCallback() {
+    this.items = [];
+    this._rejectionMessage = '';
+    this._showValidity = false;
+  }
+
+  /** Called by the browser when restoring state (back/forward cache). */
+  formStateRestoreCallback(state: string | File | FormData | null) {
+    if (state instanceof FormData) {
+      this.items = [...state.values()]
+        .filter((value): value is File => value instanceof File)
+        .map((file) => ({ file }));
+    }
+  }
+
+  /** Called when an ancestor `<fieldset>` toggles its disabled state. */
+  formDisabledCallback(disabled: boolean) {
+    this._formDisabled = disabled;
+  }
+
+  /** Programmatically focus the browse button. */
+  override focus(options?: FocusOptions) {
+    this._browseButton?.focus(options);
+  }
+
+  /** Validates dropped or picked files and adds the accepted ones. */
+  private _addFiles(incoming: File[]) {
+    if (!incoming.length) return;
+
+    const accepted: File[] = [];
+    const rejections: FileRejection[] = [];
+
+    for (const file of incoming) {
+      if (!this.multiple && accepted.length) {
+        rejections.push({ file, reason: 'count', message: 'Only one file can be uploaded.' });
+      } else if (!matchesAccept(file, this.accept)) {
+        rejections.push({ file, reason: 'type', message: `"${file.name}" is not an accepted file type.` });
+      } else if (this.maxSize > 0 && file.size > this.maxSize) {
+        rejections.push({ file, reason: 'size', message: `"${file.name}" is larger than ${formatFileSize(this.maxSize)}.` });
+      } else {
+        accepted.push(file);
+      }
+    }
+
+    this._rejectionMessage = rejections.map((rejection) => rejection.message).join(' ');
+    this._showValidity = true;
+
+    if (accepted.length) {
+      const replaced = this.multiple ? [] : this.items.map((item) => item.file);
+      const kept = this.multiple ? this.items : [];
+      this.items = [...kept, ...accepted.map((file) => ({ file }))];
+
+      for (const file of replaced) {
+        this._dispatch('kds-file-remove', { file });
+      }
+      this._dispatch('kds-file-add', { files: accepted });
+    }
+
+    if (rejections.length) {
+      this._dispatch('kds-file-reject', { rejections });
+    }
+  }
+
+  private _dispatch(type: string, detail: FileAddDetail | FileRemoveDetail | FileRejectDetail) {
+    this.dispatchEvent(
+      new CustomEvent(type, {
+        detail,
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  private _handleInputChange() {
+    const input = this._input;
+    this._addFiles(Array.from(input.files ?? []));
+    // Clear the input so picking the same file again fires change
+    input.value = '';
+  }
+
+  private _handleDragOver(e: DragEvent) {
+    if (!e.dataTransfer?.types.includes('Files')) return;
+    // Handled even when disabled: otherwise dropping the file makes the browser open it
+    e.preventDefault();
+    if (this._isDisabled) {
+      e.dataTransfer.dropEffect = 'none';
+      return;
+    }
+    e.dataTransfer.dropEffect = 'copy';
+    this._dragging = true;
+  }
+
+  private _handleDragLeave(e: DragEvent) {
+    const zone = e.currentTarget as HTMLElement;
+    if (e.relatedTarget instanceof Node && zone.contains(e.relatedTarget)) return;
+    this._dragging = false;
+  }
+
+  private _handleDrop(e: DragEvent) {
+    this._dragging = false;
+    e.preventDefault();
+    if (this._isDisabled) return;
+    this._addFiles(Array.from(e.dataTransfer?.files ?? []));
+  }
+
+  private async _handleRemove(file: File, index: number) {
+    this._rejectionMessage = '';
+    this._showValidity = true;
+    this.removeFile(file);
+
+    // Keep focus in the list: the file that took this one's place, else the one before
+    await this.updateComplete;
+    const buttons = this.renderRoot.querySelectorAll<HTMLButtonElement>('.remove');
+    const next = buttons[Math.min(index, buttons.length - 1)];
+    (next ?? this._browseButton)?.focus();
+  }
+
+  private _renderItem(item: FileUploadItem, index: number) {
+    const { file, progress, error } = item;
+
+    return html`
+      <li class=${classMap({ file: true, error: !!error })} part="file">
+        <span class="file-icon" aria-hidden="true">
+          <svg viewBox="0 0 20 20" fill="none" xmlns="http://www.w3.org/2000/svg">
+            <path d="M11.667 1.891v3.442c0 .467 0 .7.09.879a.833.833 0 0 0 .365.364c.178.09.411.09.878.09h3.442M16.667 8.323v6.01c0 1.4 0 2.1-.273 2.635a2.5 2.5 0 0 1-1.092 1.093c-.535.272-1.235.272-2.635.272H7.333c-1.4 0-2.1 0-2.635-.272a2.5 2.5 0 0 1-1.093-1.093c-.272-.535-.272-1.235-.272-2.635V5.667c0-1.4 0-2.1.272-2.635a2.5 2.5 0 0 1 1.093-1.093c.535-.272 1.235-.272 2.635-.272h2.677c.611 0 .917 0 1.205.069.255.061.499.162.722.299.253.155.469.371.901.803l2.657 2.657c.432.432.648.648.803.9.137.224.238.468.299.723.069.288.069.594.069 1.205Z" stroke="currentColor" stroke-width="1.667" stroke-linecap="round" stroke-linejoin="round"/>
+          </svg>
+        </span>
+        <div class="file-body">
+          <span class="file-name" title=${file.name}>${file.name}</span>
+          <span class="file-size">${formatFileSize(file.size)}</span>
+          ${progress !== undefined
+            ? html`<kds-progress-bar
+                value=${progress}
+                variant=${error ? 'error' : 'brand'}
+                aria-label=${`Uploading ${file.name}`}
+              ></kds-progress-bar>`
+            : nothing}
+          ${error ? html`<p class="file-error" part="file-error">${error}</p>` : nothing}
+        </div>
+        <button
+          class="remove"
+          part="remove"
+          type="button"
+          aria-label=${`${this.removeLabel} ${file.name}`}
+          ?disabled=${this._isDisabled}
+          @click=${() => this._handleRemove(file, index)}
+        >
+          <svg viewBox="0 0 20 20" fill="none" xmlns="http://www.w3.org/2000/svg" aria-hidden="true">
+            <path d="M13.333 5v-.667c0-.933 0-1.4-.181-1.756a1.667 1.667 0 0 0-.729-.729c-.356-.181-.823-.181-1.756-.181H9.333c-.933 0-1.4 0-1.756.181-.314.16-.569.415-.729.729-.181.356-.181.823-.181 1.756V5m1.666 4.583v4.167m3.334-4.167v4.167M2.5 5h15m-1.667 0v9.333c0 1.4 0 2.1-.272 2.635a2.5 2.5 0 0 1-1.093 1.093c-.535.272-1.235.272-2.635.272H8.167c-1.4 0-2.1 0-2.635-.272a2.5 2.5 0 0 1-1.093-1.093c-.272-.535-.272-1.235-.272-2.635V5" stroke="currentColor" stroke-width="1.667" stroke-linecap="round" stroke-linejoin="round"/>
+          </svg>
+        </button>
+      </li>
+    `;
+  }
+
+  override render() {
+    const disabled = this._isDisabled;
+    const invalid = this._isInvalid;
+    const hint = this._rejectionMessage
+      || (this._showValidity && this._validationMessage ? this._validationMessage : this.hint);
+
+    const fieldClasses = {
+      field: true,
+      destructive: invalid,
+      disabled,
+    };
+
+    return html`
+      <div class=${classMap(fieldClasses)} part="field">
+
+        ${this.label
+          ? html`<label class="label" part="label" id="label">${this.label}</label>`
+          : nothing}
+
+        <div
+          class=${classMap({ dropzone: true, dragging: this._dragging })}
+          part="dropzone"
+          @click=${this.browse}
+          @dragover=${this._handleDragOver}
+          @dragleave=${this._handleDragLeave}
+          @drop=${this._handleDrop}
+        >
+          <span class="featured-icon" aria-hidden="true">
+            <svg viewBox="0 0 20 20" fill="none" xmlns="http://www.w3.org/2000/svg">
+              <path d="M6.667 13.333 10 10m0 0 3.333 3.333M10 10v7.5m6.667-3.548A4.583 4.583 0 0 0 13.75 5.833a.516.516 0 0 1-.444-.252 6.25 6.25 0 1 0-9.816 7.58" stroke="currentColor" stroke-width="1.667" stroke-linecap="round" stroke-linejoin="round"/>
+            </svg>
+          </span>
+          <p class="prompt">
+            <button
+              class="browse"
+              part="browse"
+              type="button"
+              ?disabled=${disabled}
+              aria-labelledby=${ifDefined(this.label ? 'label browse' : undefined)}
+              id="browse"
+              aria-invalid=${invalid ? 'true' : nothing}
+              aria-describedby=${ifDefined(hint ? 'hint' : undefined)}
+            >${this.browseLabel}</button>
+            ${this.dropLabel}
+          </p>
+          <input
+            type="file"
+            accept=${ifDefined(this.accept || undefined)}
+            ?multiple=${this.multiple}
+            ?disabled=${disabled}
+            @click=${(e: Event) => e.stopPropagation()}
+            @change=${this._handleInputChange}
+          />
+        </div>
+
+        ${hint
+          ? html`<p class="hint" part="hint" id="hint" aria-live="polite">${hint}</p>`
+          : nothing}
+
+        ${this.items.length
+          ? html`
+              <ul class="files" part="files" aria-label=${this.label || nothing}>
+                ${repeat(this.items, (item) => item.file, (item, index) => this._renderItem(item, index))}
+              </ul>
+            `
+          : nothing}
+
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'kds-file-upload': KdsFileUpload;
+  }
+}
@@ -9,7 +9,7 @@
  * Frame nodeId: 1090:57817
  */
 
-import { LitElement, html, css, nothing } from 'lit';
+import { LitElement, html, css, nothing, PropertyValues } from 'lit';
 import { customElement, property, query, state } from 'lit/decorators.js';
 import { classMap } from 'lit/directives/class-map.js';
 import { ifDefined } from 'lit/directives/if-defined.js';
@@ -22,6 +22,36 @@ export type InputFieldType =
   | 'leading-text'
   | 'payment';
 
+/**
+ * Custom validator for kds-input-field.
+ * Returns an error message when the value is invalid, or an empty string /
+ * null / undefined when it is valid.
+ */
+export type InputFieldValidator = (value: string) => string | null | undefined;
+
+/**
+ * Alert circle shown in the destructive state, also used by kds-alert. It is
+ * decorative and sized by the surrounding CSS.
+ */
+export const alertCircleIcon = html`
+  <svg viewBox="0 0 16 16" fill="none" xmlns="http://www.w3.org/2000/svg" aria-hidden="true">
+    <path d="M8 5.333v2.334M8 10h.007M8 14.667A6.667 6.667 0 1 0 8 1.333a6.667 6.667 0 0 0 0 13.334Z" stroke="currentColor" stroke-width="1.333" stroke-linecap="round" stroke-linejoin="round"/>
+  </svg>
+`;
+
+/** Validity flags mirrored from the native input onto the host. */
+const VALIDITY_FLAGS = [
+  'valueMissing',
+  'typeMismatch',
+  'patternMismatch',
+  'tooLong',
+  'tooShort',
+  'rangeUnderflow',
+  'rangeOverflow',
+  'stepMismatch',
+  'badInput',
+] as const;
+
 /**
  * Input Field component built with LIT
  *
@@ -59,23 +89,48 @@ export type InputFieldType =
  *
  * <!-- Leading dropdown variant (e.g. phone with country code) -->
  * <kds-input-field type="leading-dropdown" label="Phone number" input-type="tel">
- *   <button slot="leading-dropdown">+1 ▾</button>
+ *   <kds-select slot="leading-dropdown" aria-label="Country" name="country" value="US">
+ *     <kds-option value="US" label="US">United States</kds-option>
+ *     <kds-option value="AT" label="AT">Austria</kds-option>
+ *   </kds-select>
  * </kds-input-field>
  *
  * <!-- Disabled -->
  * <kds-input-field label="Email" disabled></kds-input-field>
+ *
+ * <!-- Inside a form: value is submitted under its name -->
+ * <form>
+ *   <kds-input-field label="Email" name="email" required></kds-input-field>
+ * </form>
+ *
+ * <!-- Constraint validation -->
+ * <kds-input-field label="Username" minlength="3" maxlength="20" pattern="[a-z0-9_]+"></kds-input-field>
  * ```
  *
+ * Constraint validation follows the native input: `required`, `minlength`,
+ * `maxlength`, `pattern`, `min`, `max`, `step` and the `input-type` rules are
+ * checked, then any `validators` set as a property. Once the user has changed the
+ * value, or the form has been submitted / `reportValidity()` called, a failing
+ * field switches to the destructive styling and shows the validation message in
+ * place of the hint. `checkValidity()` on the field only reports the result.
+ *
+ * The element is form-associated (ElementInternals): its value is part of the
+ * owning form's FormData, it resets to its initial value on form reset, and it
+ * is disabled by an ancestor `<fieldset disabled>`.
+ *
  * @fires {CustomEvent<{value:string}>} kds-input  - Fired on every input change
  * @fires {CustomEvent<{value:string}>} kds-change - Fired on blur after value change
  * @fires {CustomEvent<void>}           kds-help-click - Fired when help icon clicked
+ * @fires {Event}                       invalid        - Fired when a validity check fails
  *
  * @slot leading-icon     - SVG icon shown on left inside the input (requires leading-icon attr)
- * @slot leading-dropdown - Dropdown trigger for type="leading-dropdown"
- * @slot trailing-dropdown- Dropdown trigger for type="trailing-dropdown"
+ * @slot leading-dropdown - Dropdown trigger for type="leading-dropdown" (typically a kds-select)
+ * @slot trailing-dropdown- Dropdown trigger for type="trailing-dropdown" (typically a kds-select)
  */
 @customElement('kds-input-field')
 export class KdsInputField extends LitElement {
+  static formAssociated = true;
+
   static override styles = css`
     :host {
       display: block;
@@ -342,7 +397,7 @@ export class KdsInputField extends LitElement {
   value: string = '';
 
   /** HTML name attribute for form participation. */
-  @property({ type: String })
+  @property({ type: String, reflect: true })
   name: string = '';
 
   /** HTML input type (text, email, password, number, tel, url…). Default: 'text'. */
@@ -376,12 +431,218 @@ export class KdsInputField extends LitElement {
   @property({ type: Boolean })
   required: boolean = false;
 
+  /** Minimum number of characters. */
+  @property({ type: Number, attribute: 'minlength' })
+  minLength?: number;
+
+  /** Maximum number of characters. */
+  @property({ type: Number, attribute: 'maxlength' })
+  maxLength?: number;
+
+  /** Regular expression the value must match (native `pattern` semantics). */
+  @property({ type: String })
+  pattern?: string;
+
+  /** Minimum value for numeric / date input types. */
+  @property({ type: String })
+  min?: string;
+
+  /** Maximum value for numeric / date input types. */
+  @property({ type: String })
+  max?: string;
+
+  /** Step granularity for numeric / date input types. */
+  @property({ type: String })
+  step?: string;
+
+  /**
+   * Custom validators, run in order after the native constraints pass.
+   * The first non-empty message marks the field invalid. Property only.
+   */
+  @property({ attribute: false })
+  validators: InputFieldValidator[] = [];
+
   @query('input')
   private _input!: HTMLInputElement;
 
   @state()
   private _focused: boolean = false;
 
+  /** Set when an ancestor `<fieldset>` is disabled. */
+  @state()
+  private _formDisabled: boolean = false;
+
+  /** Set once validation errors should be shown (user edit, submit, reportValidity). */
+  @state()
+  private _showValidity: boolean = false;
+
+  /** Current validation message; empty when valid. Computed before each render. */
+  private _validationMessage: string = '';
+
+  /** Message set through setCustomValidity(). */
+  private _customValidity: string = '';
+
+  /** Set while checkValidity() runs, so its `invalid` event leaves the UI alone. */
+  private _checkingValidity: boolean = false;
+
+  private _internals: ElementInternals;
+
+  /** Value restored on form reset — captured on first render. */
+  private _defaultValue: string = '';
+
+  constructor() {
+    super();
+    this._internals = this.attachInternals();
+    this.addEventListener('invalid', () => {
+      if (!this._checkingValidity) this._showValidity = true;
+    });
+  }
+
+  /** The form this element is associated with, if any. */
+  get form(): HTMLFormElement | null {
+    return this._internals.form;
+  }
+
+  /** The validity state of the field. */
+  get validity(): ValidityState {
+    return this._internals.validity;
+  }
+
+  /** The message shown when the field is invalid; empty when valid. */
+  get validationMessage(): string {
+    return this._internals.validationMessage;
+  }
+
+  /** Whether the field takes part in constraint validation. */
+  get willValidate(): boolean {
+    return this._internals.willValidate;
+  }
+
+  /** Returns true when valid; otherwise fires `invalid` and returns false. */
+  checkValidity(): boolean {
+    this._checkingValidity = true;
+    try {
+      return this._internals.checkValidity();
+    } finally {
+      this._checkingValidity = false;
+    }
+  }
+
+  /** Like checkValidity(), and also shows the error state to the user. */
+  reportValidity(): boolean {
+    this._showValidity = true;
+    return this._internals.reportValidity();
+  }
+
+  /** Sets a custom error message; pass an empty string to clear it. */
+  setCustomValidity(message: string) {
+    this._customValidity = message;
+    this._updateValidity();
+    this.requestUpdate();
+  }
+
+  private get _isDisabled(): boolean {
+    return this.disabled || this._formDisabled;
+  }
+
+  /** Destructive styling is shown for the prop or for a visible validation error. */
+  private get _isInvalid(): boolean {
+    return this.destructive || (this._showValidity && !!this._validationMessage);
+  }
+
+  private _updateValidity() {
+    const input = this._input;
+    if (!input) return;
+
+    if (!input.validity.valid) {
+      const flags: ValidityStateFlags = {};
+      for (const flag of VALIDITY_FLAGS) {
+        if (input.validity[flag]) flags[flag] = true;
+      }
+      this._internals.setValidity(flags, input.validationMessage, input);
+    } else {
+      const message =
+        this._customValidity ||
+        this.validators.map((validate) => validate(this.value)).find((result) => !!result) ||
+        '';
+
+      if (message) {
+        this._internals.setValidity({ customError: true }, message, input);
+      } else {
+        this._internals.setValidity({});
+      }
+    }
+
+    this._validationMessage = this._internals.validationMessage;
+  }
+
+  /**
+   * Applies the pending value and constraints to the native input, so its
+   * validity can be read before the render that would otherwise set them.
+   */
+  private _syncConstraints(input: HTMLInputElement) {
+    input.type = this.inputType;
+    input.disabled = this._isDisabled;
+    input.required = this.required;
+
+    const attributes: Record<string, string | undefined> = {
+      minlength: this.minLength?.toString(),
+      maxlength: this.maxLength?.toString(),
+      pattern: this.pattern || undefined,
+      min: this.min || undefined,
+      max: this.max || undefined,
+      step: this.step || undefined,
+    };
+    for (const [name, value] of Object.entries(attributes)) {
+      if (value === undefined) input.removeAttribute(name);
+      else input.setAttribute(name, value);
+    }
+
+    // Assigning the same value would drop the user-edit flag that tooShort/tooLong need
+    if (input.value !== this.value) input.value = this.value;
+  }
+
+  override willUpdate(changed: PropertyValues<this>) {
+    const constraints = [
+      'value', 'required', 'minLength', 'maxLength', 'pattern',
+      'min', 'max', 'step', 'inputType', 'validators', 'disabled', '_formDisabled',
+    ];
+    if (this._input && constraints.some((key) => changed.has(key as keyof KdsInputField))) {
+      this._syncConstraints(this._input);
+      this._updateValidity();
+    }
+  }
+
+  override firstUpdated() {
+    this._defaultValue = this.value;
+    // The native input exists from here on; errors are not shown yet, so no re-render
+    this._updateValidity();
+  }
+
+  override updated(changed: PropertyValues<this>) {
+    if (changed.has('value')) {
+      this._internals.setFormValue(this.value);
+    }
+  }
+
+  /** Called by the owning form on reset. */
+  formResetCallback() {
+    this.value = this._defaultValue;
+    this._showValidity = false;
+  }
+
+  /** Called by the browser when restoring state (back/forward cache, autofill). */
+  formStateRestoreCallback(state: string | File | FormData | null) {
+    if (typeof state === 'string') {
+      this.value = state;
+    }
+  }
+
+  /** Called when an ancestor `<fieldset>` toggles its disabled state. */
+  formDisabledCallback(disabled: boolean) {
+    this._formDisabled = disabled;
+  }
+
   private _handleInput(e: Event) {
     const target = e.target as HTMLInputElement;
     this.value = target.value;
@@ -397,6 +658,7 @@ export class KdsInputField extends LitElement {
   private _handleChange(e: Event) {
     const target = e.target as HTMLInputElement;
     this.value = target.value;
+    this._showValidity = true;
     this.dispatchEvent(
       new CustomEvent('kds-change', {
         detail: { value: this.value },
@@ -439,10 +701,15 @@ export class KdsInputField extends LitElement {
     const hasTrailingDropdown = this.type === 'trailing-dropdown';
     const hasLeadingText = this.type === 'leading-text' && !!this.leadingText;
 
+    const invalid = this._isInvalid;
+    const hint = this._showValidity && this._validationMessage
+      ? this._validationMessage
+      : this.hint;
+
     const fieldClasses = {
       field: true,
-      destructive: this.destructive,
-      disabled: this.disabled,
+      destructive: invalid,
+      disabled: this._isDisabled,
       focused: this._focused,
     };
 
@@ -493,11 +760,17 @@ export class KdsInputField extends LitElement {
               .value=${live(this.value)}
               name=${ifDefined(this.name || undefined)}
               placeholder=${ifDefined(this.placeholder || undefined)}
-              ?disabled=${this.disabled}
+              ?disabled=${this._isDisabled}
               ?required=${this.required}
+              minlength=${ifDefined(this.minLength)}
+              maxlength=${ifDefined(this.maxLength)}
+              pattern=${ifDefined(this.pattern || undefined)}
+              min=${ifDefined(this.min || undefined)}
+              max=${ifDefined(this.max || undefined)}
+              step=${ifDefined(this.step || undefined)}
               aria-label=${ifDefined(!this.label ? (this.placeholder || undefined) : undefined)}
-              aria-invalid=${this.destructive ? 'true' : nothing}
-              aria-describedby=${ifDefined(this.hint ? 'hint' : undefined)}
+              aria-invalid=${invalid ? 'true' : nothing}
+              aria-describedby=${ifDefined(hint ? 'hint' : undefined)}
               @input=${this._handleInput}
               @change=${this._handleChange}
               @focus=${this._handleFocus}
@@ -515,8 +788,8 @@ export class KdsInputField extends LitElement {
 
         </div>
 
-        ${this.hint
-          ? html`<p class="hint" part="hint" id="hint">${this.hint}</p>`
+        ${hint
+          ? html`<p class="hint" part="hint" id="hint">${hint}</p>`
           : nothing}
 
       </div>
@@ -525,7 +798,7 @@ export class KdsInputField extends LitElement {
 
   private _renderTrailingIcons() {
     const hasHelp = this.helpIcon;
-    const hasAlert = this.destructive;
+    const hasAlert = this._isInvalid;
 
     if (!hasHelp && !hasAlert) return nothing;
 
@@ -537,7 +810,7 @@ export class KdsInputField extends LitElement {
               part="help-btn"
               type="button"
               aria-label="Help"
-              ?disabled=${this.disabled}
+              ?disabled=${this._isDisabled}
               @click=${this._handleHelpClick}
             >
               <svg viewBox="0 0 16 16" fill="none" xmlns="http://www.w3.org/2000/svg" aria-hidden="true">
@@ -547,11 +820,7 @@ export class KdsInputField extends LitElement {
             </button>`
           : nothing}
         ${hasAlert
-          ? html`<span class="alert-icon" part="alert-icon" aria-hidden="true">
-              <svg viewBox="0 0 16 16" fill="none" xmlns="http://www.w3.org/2000/svg">
-                <path d="M8 5.333v2.334M8 10h.007M8 14.667A6.667 6.667 0 1 0 8 1.333a6.667 6.667 0 0 0 0 13.334Z" stroke="currentColor" stroke-width="1.333" stroke-linecap="round" stroke-linejoin="round"/>
-              </svg>
-            </span>`
+          ? html`<span class="alert-icon" part="alert-icon" aria-hidden="true">${alertCircleIcon}</span>`
           : nothing}
       </div>
     `;
@@ -0,0 +1,814 @@
+/**
+ * @package @kds/web-components
+ * @component kds-menu, kds-menu-item, kds-menu-separator
+ * @description Dropdown (action) menu component from Untitled UI design system
+ * @author Kilian Sala <kilian@kapsch.net>
+ * @source Figma: Untitled UI - FREE Figma UI kit v2.0
+ *
+ * ⚠️ STATUS: PENDING FIGMA DATA VALIDATION
+ * Popup and item styling follow the kds-select listbox (Untitled UI dropdown).
+ * TODO markers indicate values that must be verified against actual Figma design.
+ */
+
+import { LitElement, html, css, nothing, PropertyValues } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import { styleMap } from 'lit/directives/style-map.js';
+
+export type MenuPlacement = 'bottom-start' | 'bottom-end' | 'top-start' | 'top-end';
+export type MenuItemType = 'normal' | 'checkbox' | 'radio';
+
+/** Gap between the trigger and the menu, in px */
+const MENU_OFFSET = 4;
+
+/** Minimum distance between the menu and the viewport edge, in px */
+const VIEWPORT_PADDING = 8;
+
+/** Hover time before a submenu opens, in ms */
+const SUBMENU_DELAY = 200;
+
+/**
+ * Item of a `kds-menu`
+ *
+ * `type="checkbox"` items toggle `checked` when selected; `type="radio"` items
+ * check themselves and uncheck the other radio items with the same `name` in
+ * the same menu. An item containing a `kds-menu` with `slot="submenu"` opens
+ * it as a submenu.
+ *
+ * @slot - Item label
+ * @slot icon - Leading icon (16px)
+ * @slot submenu - Nested `kds-menu`
+ */
+@customElement('kds-menu-item')
+export class KdsMenuItem extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+    }
+
+    .item {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      margin: 1px 6px;
+      padding: 9px 10px;
+      border-radius: 6px;
+      font-size: 14px;
+      line-height: 20px;
+      font-weight: 500;
+      color: var(--kds-menu-item-text, #414651);
+      cursor: pointer;
+      white-space: nowrap;
+      outline: none;
+    }
+
+    .item:hover,
+    .item:focus,
+    .item.expanded {
+      background-color: var(--kds-menu-item-active-bg, #FAFAFA);
+    }
+
+    .item:focus-visible {
+      box-shadow: inset 0 0 0 2px var(--kds-focus-ring, #7F56D9);
+    }
+
+    .item.disabled {
+      color: var(--kds-menu-item-text-disabled, #A4ACBA);
+      cursor: not-allowed;
+    }
+
+    .item.disabled:hover {
+      background-color: transparent;
+    }
+
+    ::slotted([slot="icon"]) {
+      display: flex;
+      flex-shrink: 0;
+      width: 16px;
+      height: 16px;
+      color: var(--kds-menu-item-icon, #A4A7AE);
+    }
+
+    .label {
+      flex: 1 0 0;
+      overflow: hidden;
+      text-overflow: ellipsis;
+    }
+
+    /* TODO: Verify keyboard shortcut badge against Figma */
+    .shortcut {
+      flex-shrink: 0;
+      padding: 1px 4px;
+      border: 1px solid var(--kds-menu-shortcut-border, #E9EAEB);
+      border-radius: 4px;
+      font-size: 12px;
+      line-height: 18px;
+      font-weight: 500;
+      color: var(--kds-menu-shortcut-text, #717680);
+    }
+
+    .indicator,
+    .chevron {
+      display: block;
+      flex-shrink: 0;
+      width: 16px;
+      height: 16px;
+    }
+
+    .indicator {
+      color: var(--kds-color-brand-600, #7F56D9);
+    }
+
+    .chevron {
+      color: var(--kds-menu-item-icon, #A4A7AE);
+    }
+
+    :host(:dir(rtl)) .chevron {
+      transform: scaleX(-1);
+    }
+  `;
+
+  /**
+   * Value reported by `kds-menu-select`; defaults to the item text
+   */
+  @property({ type: String })
+  value = '';
+
+  /**
+   * Plain, checkbox or radio item
+   * @default 'normal'
+   */
+  @property({ type: String, reflect: true })
+  type: MenuItemType = 'normal';
+
+  /**
+   * Checked state of checkbox and radio items
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  checked = false;
+
+  /**
+   * Radio group of the item within its menu
+   */
+  @property({ type: String, reflect: true })
+  name = '';
+
+  /**
+   * Keyboard shortcut hint shown at the end of the item (display only)
+   */
+  @property({ type: String })
+  shortcut = '';
+
+  /**
+   * Whether the item can't be selected
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  disabled = false;
+
+  /**
+   * Whether the item's submenu is open, set by the submenu
+   * @internal
+   */
+  @property({ attribute: false })
+  expanded = false;
+
+  @state()
+  private _hasSubmenu = false;
+
+  /** The nested `kds-menu` in the submenu slot, if any (it may sit inside a framework wrapper). */
+  get submenu(): KdsMenu | null {
+    return (
+      Array.from(this.querySelectorAll('kds-menu')).find((menu) => menu.closest('kds-menu-item') === this) ?? null
+    );
+  }
+
+  /** Text of the label, without the submenu. */
+  get text(): string {
+    return Array.from(this.childNodes)
+      .filter((node) => !(node instanceof Element && node.slot))
+      .map((node) => node.textContent)
+      .join('')
+      .trim();
+  }
+
+  /** Programmatically focus the item. */
+  override focus(options?: FocusOptions) {
+    this.renderRoot.querySelector<HTMLElement>('.item')?.focus(options);
+  }
+
+  private _handleSubmenuSlotChange() {
+    this._hasSubmenu = this.submenu !== null;
+  }
+
+  private _renderIndicator() {
+    if (this.type === 'checkbox') {
+      return html`
+        <svg class="indicator" viewBox="0 0 16 16" fill="none" aria-hidden="true">
+          ${this.checked
+            ? html`<path d="M13.333 4 6 11.333 2.667 8" stroke="currentColor" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round"></path>`
+            : nothing}
+        </svg>
+      `;
+    }
+
+    return html`
+      <svg class="indicator" viewBox="0 0 16 16" fill="none" aria-hidden="true">
+        ${this.checked ? html`<circle cx="8" cy="8" r="3" fill="currentColor"></circle>` : nothing}
+      </svg>
+    `;
+  }
+
+  override render() {
+    const role =
+      this.type === 'checkbox' ? 'menuitemcheckbox' : this.type === 'radio' ? 'menuitemradio' : 'menuitem';
+    const checkable = this.type !== 'normal';
+
+    const classes = {
+      item: true,
+      disabled: this.disabled,
+      expanded: this.expanded,
+    };
+
+    return html`
+      <div
+        class=${classMap(classes)}
+        part="item"
+        role=${role}
+        tabindex="-1"
+        aria-checked=${checkable ? String(this.checked) : nothing}
+        aria-disabled=${this.disabled ? 'true' : nothing}
+        aria-haspopup=${this._hasSubmenu ? 'menu' : nothing}
+        aria-expanded=${this._hasSubmenu ? String(this.expanded) : nothing}
+      >
+        ${checkable ? this._renderIndicator() : nothing}
+        <slot name="icon"></slot>
+        <span class="label"><slot></slot></span>
+        ${this.shortcut ? html`<span class="shortcut" part="shortcut">${this.shortcut}</span>` : nothing}
+        ${this._hasSubmenu
+          ? html`
+              <svg class="chevron" viewBox="0 0 16 16" fill="none" aria-hidden="true">
+                <path d="M6 12l4-4-4-4" stroke="currentColor" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round"></path>
+              </svg>
+            `
+          : nothing}
+      </div>
+      <slot name="submenu" @slotchange=${this._handleSubmenuSlotChange}></slot>
+    `;
+  }
+}
+
+/**
+ * Separator between groups of `kds-menu-item`s
+ */
+@customElement('kds-menu-separator')
+export class KdsMenuSeparator extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+    }
+
+    .separator {
+      height: 1px;
+      margin: 4px 0;
+      background-color: var(--kds-menu-border, #E9EAEB);
+    }
+  `;
+
+  override render() {
+    return html`<div class="separator" role="separator"></div>`;
+  }
+}
+
+/**
+ * Menu component built with LIT
+ *
+ * Action menu (WAI-ARIA menu button pattern) opened from the element in the
+ * `trigger` slot, typically a `kds-button`.
+ *
+ * @example
+ * ```html
+ * <kds-menu>
+ *   <kds-button slot="trigger" hierarchy="secondary-gray" icon-position="only" aria-label="Row actions">
+ *     <svg slot="icon" ...></svg>
+ *   </kds-button>
+ *   <kds-menu-item value="edit" shortcut="⌘E"><svg slot="icon" ...></svg>Edit</kds-menu-item>
+ *   <kds-menu-item value="duplicate">Duplicate</kds-menu-item>
+ *   <kds-menu-item>
+ *     Move to
+ *     <kds-menu slot="submenu">
+ *       <kds-menu-item value="archive">Archive</kds-menu-item>
+ *       <kds-menu-item value="trash">Trash</kds-menu-item>
+ *     </kds-menu>
+ *   </kds-menu-item>
+ *   <kds-menu-separator></kds-menu-separator>
+ *   <kds-menu-item type="checkbox" value="pin" checked>Pinned</kds-menu-item>
+ *   <kds-menu-item type="radio" name="density" value="compact">Compact</kds-menu-item>
+ *   <kds-menu-item type="radio" name="density" value="comfortable" checked>Comfortable</kds-menu-item>
+ * </kds-menu>
+ * ```
+ *
+ * Clicking the trigger, or pressing ArrowDown / ArrowUp on it, opens the menu
+ * and focuses its first / last item. Inside the menu, ArrowDown / ArrowUp,
+ * Home and End move between enabled items, typing a character moves to the
+ * next item starting with it, Enter and click select the focused item and
+ * close the menu, and Space toggles checkbox and radio items while leaving it
+ * open. ArrowRight (ArrowLeft in RTL), Enter or hovering opens an item's
+ * submenu; ArrowLeft and Escape close it again. Escape closes the menu and
+ * returns focus to the trigger; Tab closes it and moves on from the trigger.
+ *
+ * The menu opens below the trigger and flips above it, or to the other end,
+ * when it would overflow the viewport; submenus open beside their item and
+ * flip to the other side.
+ *
+ * @slot trigger - Element that opens the menu, typically a `kds-button`
+ * @slot - `kds-menu-item` and `kds-menu-separator` elements
+ *
+ * @fires {CustomEvent<{value: string, checked: boolean}>} kds-menu-select - Fired when the user selects an item, including items of submenus
+ */
+@customElement('kds-menu')
+export class KdsMenu extends LitElement {
+  static override styles = css`
+    :host {
+      display: inline-block;
+      font-family: var(--kds-font-family, 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif);
+    }
+
+    :host([slot="submenu"]) {
+      display: contents;
+    }
+
+    .menu {
+      position: fixed;
+      top: 0;
+      left: 0;
+      z-index: var(--kds-menu-z-index, 1000);
+      box-sizing: border-box;
+      min-width: var(--kds-menu-min-width, 240px);
+      max-height: var(--kds-menu-max-height, 400px);
+      margin: 0;
+      padding: 4px 0;
+      overflow-y: auto;
+      background-color: var(--kds-menu-bg, #FFFFFF);
+      border: 1px solid var(--kds-menu-border, #E9EAEB);
+      border-radius: 8px;
+      box-shadow: 0px 12px 16px -4px rgba(10, 13, 18, 0.08), 0px 4px 6px -2px rgba(10, 13, 18, 0.03);
+      outline: none;
+    }
+
+    .menu[hidden] {
+      display: none;
+    }
+  `;
+
+  /**
+   * Whether the menu is shown
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  open = false;
+
+  /**
+   * Preferred position relative to the trigger; flipped when there is no room
+   * @default 'bottom-start'
+   */
+  @property({ type: String, reflect: true })
+  placement: MenuPlacement = 'bottom-start';
+
+  /**
+   * ARIA label for the menu (defaults to the trigger or parent item text)
+   */
+  @property({ type: String, attribute: 'aria-label' })
+  override ariaLabel: string | null = null;
+
+  @state()
+  private _position: { top: number; left: number } | null = null;
+
+  /** Item to focus once the menu is positioned. */
+  private _pendingFocus: 'first' | 'last' | null = null;
+
+  private _submenuTimer?: ReturnType<typeof setTimeout>;
+
+  /** The item this menu is the submenu of, if any. */
+  private get _parentItem(): KdsMenuItem | null {
+    const item = this.parentElement?.closest('kds-menu-item');
+    if (!item) return null;
+
+    // The slotted child may be a framework wrapper around the menu
+    const child = Array.from(item.children).find((el) => el.contains(this));
+    return child?.slot === 'submenu' ? item : null;
+  }
+
+  /** The outermost menu of a submenu chain. */
+  private get _rootMenu(): KdsMenu {
+    let menu: KdsMenu = this;
+    let parent = menu._parentItem?.closest('kds-menu');
+    while (parent) {
+      menu = parent;
+      parent = menu._parentItem?.closest('kds-menu');
+    }
+    return menu;
+  }
+
+  /**
+   * Opens the menu and focuses its first or last enabled item
+   */
+  show(focus: 'first' | 'last' = 'first') {
+    this._pendingFocus = focus;
+    if (this.open) {
+      this._focusPending();
+    } else {
+      this.open = true;
+    }
+  }
+
+  /**
+   * Closes the menu and its open submenus
+   */
+  hide() {
+    this.open = false;
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this._removeOpenListeners();
+    clearTimeout(this._submenuTimer);
+  }
+
+  override updated(changed: PropertyValues<this>) {
+    if (changed.has('open')) {
+      this._syncExpanded();
+
+      if (this.open) {
+        this._addOpenListeners();
+        this._updatePosition();
+      } else {
+        this._removeOpenListeners();
+        this._position = null;
+        this._pendingFocus = null;
+        clearTimeout(this._submenuTimer);
+        this._getItems().forEach((item) => {
+          const submenu = item.submenu;
+          if (submenu) submenu.open = false;
+        });
+      }
+    }
+
+    if (this.open && this._position && this._pendingFocus) {
+      this._focusPending();
+    }
+  }
+
+  private _getTrigger(): HTMLElement | null {
+    return this.querySelector<HTMLElement>(':scope > [slot="trigger"]');
+  }
+
+  /** Items of this menu, skipping those of submenus. */
+  private _getItems(): KdsMenuItem[] {
+    return Array.from(this.querySelectorAll('kds-menu-item')).filter((item) => item.closest('kds-menu') === this);
+  }
+
+  private _getEnabledItems(): KdsMenuItem[] {
+    return this._getItems().filter((item) => !item.disabled);
+  }
+
+  /** Own item an event came from; events from submenu items are left to the submenu. */
+  private _itemFromEvent(event: Event): KdsMenuItem | null {
+    const item = event.composedPath().find((node): node is KdsMenuItem => node instanceof KdsMenuItem);
+    return item && item.closest('kds-menu') === this ? item : null;
+  }
+
+  private _focusPending() {
+    const items = this._getEnabledItems();
+    const item = this._pendingFocus === 'last' ? items[items.length - 1] : items[0];
+    this._pendingFocus = null;
+    item?.focus();
+  }
+
+  /** Mirrors the open state on the trigger or parent item. */
+  private _syncExpanded() {
+    const parentItem = this._parentItem;
+    if (parentItem) {
+      parentItem.expanded = this.open;
+      return;
+    }
+
+    const trigger = this._getTrigger();
+    if (trigger) {
+      trigger.setAttribute('aria-haspopup', 'menu');
+      trigger.setAttribute('aria-expanded', String(this.open));
+    }
+  }
+
+  /** Closes the whole menu chain and returns focus to the trigger. */
+  private _closeAll() {
+    const root = this._rootMenu;
+    root.hide();
+    root._getTrigger()?.focus();
+  }
+
+  private _openSubmenu(item: KdsMenuItem, focus: boolean) {
+    clearTimeout(this._submenuTimer);
+    this._closeSubmenus(item);
+
+    const submenu = item.submenu;
+    if (!submenu || item.disabled) return;
+
+    if (focus) {
+      submenu.show('first');
+    } else {
+      submenu.open = true;
+    }
+  }
+
+  /** Closes the open submenus of every item except `except`. */
+  private _closeSubmenus(except?: KdsMenuItem) {
+    this._getItems().forEach((item) => {
+      const submenu = item.submenu;
+      if (item !== except && submenu?.open) submenu.hide();
+    });
+  }
+
+  private _selectItem(item: KdsMenuItem, keepOpen = false) {
+    if (item.disabled) return;
+
+    if (item.submenu) {
+      this._openSubmenu(item, true);
+      return;
+    }
+
+    if (item.type === 'checkbox') {
+      item.checked = !item.checked;
+    } else if (item.type === 'radio') {
+      this._getItems()
+        .filter((other) => other.type === 'radio' && other.name === item.name)
+        .forEach((other) => {
+          other.checked = other === item;
+        });
+    }
+
+    this.dispatchEvent(
+      new CustomEvent('kds-menu-select', {
+        detail: { value: item.value || item.text, checked: item.checked },
+        bubbles: true,
+        composed: true,
+      })
+    );
+
+    if (!keepOpen) {
+      this._closeAll();
+    }
+  }
+
+  private _handleTriggerClick() {
+    if (this.open) {
+      this.hide();
+    } else {
+      this.show('first');
+    }
+  }
+
+  private _handleTriggerKeyDown(event: KeyboardEvent) {
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      this.show(event.key === 'ArrowDown' ? 'first' : 'last');
+    }
+  }
+
+  private _handleMenuKeyDown(event: KeyboardEvent) {
+    const item = this._itemFromEvent(event);
+    if (!item) return;
+
+    const items = this._getEnabledItems();
+    const index = items.indexOf(item);
+    const rtl = getComputedStyle(this).direction === 'rtl';
+    const openKey = rtl ? 'ArrowLeft' : 'ArrowRight';
+    const closeKey = rtl ? 'ArrowRight' : 'ArrowLeft';
+
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        items[(index + 1) % items.length]?.focus();
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        items[(index - 1 + items.length) % items.length]?.focus();
+        break;
+      case 'Home':
+        event.preventDefault();
+        items[0]?.focus();
+        break;
+      case 'End':
+        event.preventDefault();
+        items[items.length - 1]?.focus();
+        break;
+      case openKey:
+        if (item.submenu) {
+          event.preventDefault();
+          this._openSubmenu(item, true);
+        }
+        break;
+      case closeKey:
+        if (this._parentItem) {
+          event.preventDefault();
+          this.hide();
+          this._parentItem.focus();
+        }
+        break;
+      case 'Enter':
+        event.preventDefault();
+        this._selectItem(item);
+        break;
+      case ' ':
+        event.preventDefault();
+        this._selectItem(item, item.type !== 'normal');
+        break;
+      case 'Escape':
+        event.preventDefault();
+        this.hide();
+        if (this._parentItem) {
+          this._parentItem.focus();
+        } else {
+          this._getTrigger()?.focus();
+        }
+        break;
+      case 'Tab':
+        // Focus returns to the trigger first, so Tab moves on from there
+        this._closeAll();
+        break;
+      default:
+        if (event.key.length === 1 && !event.ctrlKey && !event.metaKey && !event.altKey) {
+          this._focusByCharacter(items, index, event.key);
+        }
+    }
+  }
+
+  /** Typeahead: moves to the next item whose text starts with `char`, wrapping around. */
+  private _focusByCharacter(items: KdsMenuItem[], from: number, char: string) {
+    const search = char.toLowerCase();
+    for (let i = 1; i <= items.length; i++) {
+      const item = items[(from + i) % items.length];
+      if (item.text.toLowerCase().startsWith(search)) {
+        item.focus();
+        return;
+      }
+    }
+  }
+
+  private _handleMenuClick(event: MouseEvent) {
+    const item = this._itemFromEvent(event);
+    if (item) this._selectItem(item);
+  }
+
+  private _handleMenuMouseOver(event: MouseEvent) {
+    const item = this._itemFromEvent(event);
+    if (!item || item.disabled) return;
+
+    // Focus follows the pointer; submenus open after a short hover
+    if (!item.matches(':focus-within') && !item.submenu?.open) {
+      item.focus();
+    }
+
+    clearTimeout(this._submenuTimer);
+    if (item.submenu) {
+      this._submenuTimer = setTimeout(() => this._openSubmenu(item, false), SUBMENU_DELAY);
+    } else {
+      this._closeSubmenus();
+    }
+  }
+
+  private _handleDocumentPointerDown = (event: PointerEvent) => {
+    if (!event.composedPath().includes(this._rootMenu)) {
+      this._rootMenu.hide();
+    }
+  };
+
+  private _handleViewportChange = () => {
+    this._updatePosition();
+  };
+
+  private _addOpenListeners() {
+    if (!this._parentItem) {
+      document.addEventListener('pointerdown', this._handleDocumentPointerDown);
+    }
+    window.addEventListener('scroll', this._handleViewportChange, true);
+    window.addEventListener('resize', this._handleViewportChange);
+  }
+
+  private _removeOpenListeners() {
+    document.removeEventListener('pointerdown', this._handleDocumentPointerDown);
+    window.removeEventListener('scroll', this._handleViewportChange, true);
+    window.removeEventListener('resize', this._handleViewportChange);
+  }
+
+  /**
+   * Positions the fixed menu against its trigger, or beside its parent item
+   * for submenus, flipping to the opposite side or end when the preferred
+   * one would overflow the viewport, then clamping it inside the viewport.
+   */
+  private _updatePosition() {
+    const menu = this.renderRoot.querySelector<HTMLElement>('.menu');
+    const parentItem = this._parentItem;
+    const anchor = parentItem
+      ? parentItem.renderRoot.querySelector<HTMLElement>('.item')
+      : this._getTrigger();
+    if (!menu || !anchor) return;
+
+    const a = anchor.getBoundingClientRect();
+    const m = menu.getBoundingClientRect();
+    const viewportWidth = document.documentElement.clientWidth || window.innerWidth;
+    const viewportHeight = document.documentElement.clientHeight || window.innerHeight;
+    const fitsRight = (left: number) => left + m.width <= viewportWidth - VIEWPORT_PADDING;
+    const fitsLeft = (left: number) => left >= VIEWPORT_PADDING;
+
+    let top: number;
+    let left: number;
+
+    if (parentItem) {
+      // Beside the item, aligned with its top; RTL prefers the left side
+      const after = a.right;
+      const before = a.left - m.width;
+      const rtl = getComputedStyle(this).direction === 'rtl';
+      if (rtl) {
+        left = fitsLeft(before) || !fitsRight(after) ? before : after;
+      } else {
+        left = fitsRight(after) || !fitsLeft(before) ? after : before;
+      }
+      top = a.top - MENU_OFFSET;
+    } else {
+      const [side, align] = this.placement.split('-');
+      const below = a.bottom + MENU_OFFSET;
+      const above = a.top - m.height - MENU_OFFSET;
+      const roomBelow = viewportHeight - below - VIEWPORT_PADDING;
+      const roomAbove = a.top - MENU_OFFSET - VIEWPORT_PADDING;
+      if (side === 'top') {
+        top = roomAbove >= m.height || roomAbove > roomBelow ? above : below;
+      } else {
+        top = roomBelow >= m.height || roomBelow >= roomAbove ? below : above;
+      }
+
+      const start = a.left;
+      const end = a.right - m.width;
+      if (align === 'end') {
+        left = fitsLeft(end) || !fitsRight(start) ? end : start;
+      } else {
+        left = fitsRight(start) || !fitsLeft(end) ? start : end;
+      }
+    }
+
+    top = Math.max(VIEWPORT_PADDING, Math.min(top, viewportHeight - m.height - VIEWPORT_PADDING));
+    left = Math.max(VIEWPORT_PADDING, Math.min(left, viewportWidth - m.width - VIEWPORT_PADDING));
+
+    this._position = { top, left };
+  }
+
+  override render() {
+    const parentItem = this._parentItem;
+    const trigger = parentItem ? null : this._getTrigger();
+    const label =
+      this.ariaLabel ||
+      parentItem?.text ||
+      trigger?.getAttribute('aria-label') ||
+      trigger?.textContent?.trim() ||
+      nothing;
+
+    const position = this._position
+      ? { top: `${this._position.top}px`, left: `${this._position.left}px` }
+      : { visibility: 'hidden' };
+
+    return html`
+      ${parentItem
+        ? nothing
+        : html`
+            <slot
+              name="trigger"
+              @click=${this._handleTriggerClick}
+              @keydown=${this._handleTriggerKeyDown}
+              @slotchange=${this._syncExpanded}
+            ></slot>
+          `}
+      <div
+        class="menu"
+        part="menu"
+        role="menu"
+        aria-label=${label}
+        style=${styleMap(position)}
+        ?hidden=${!this.open}
+        @keydown=${this._handleMenuKeyDown}
+        @click=${this._handleMenuClick}
+        @mouseover=${this._handleMenuMouseOver}
+      >
+        <slot></slot>
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'kds-menu': KdsMenu;
+    'kds-menu-item': KdsMenuItem;
+    'kds-menu-separator': KdsMenuSeparator;
+  }
+}
@@ -0,0 +1,402 @@
+/**
+ * @package @kds/web-components
+ * @component kds-pagination
+ * @description Pagination component from Untitled UI design system
+ * @author Kilian Sala <kilian@kapsch.net>
+ * @source Figma: Untitled UI - FREE Figma UI kit v2.0
+ *
+ * ⚠️ STATUS: PENDING FIGMA DATA VALIDATION
+ * Follows the Untitled UI "button group" pagination: pages and controls are
+ * kds-button-group-item elements; the page size selector is a kds-select.
+ * TODO markers indicate values that must be verified against actual Figma design.
+ */
+
+import { LitElement, html, css, nothing, PropertyValues } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { repeat } from 'lit/directives/repeat.js';
+import './kds-button-group.js';
+import './kds-select.js';
+import type { KdsButtonGroupItem } from './kds-button-group.js';
+
+/** Detail of `kds-page-change` */
+export interface PageChangeDetail {
+  page: number;
+  pageSize: number;
+}
+
+type PaginationControl = 'first' | 'previous' | 'next' | 'last';
+type PaginationEntry = number | 'start-ellipsis' | 'end-ellipsis';
+
+function range(from: number, to: number): number[] {
+  return Array.from({ length: Math.max(to - from + 1, 0) }, (_, i) => from + i);
+}
+
+/**
+ * Pages to show: the first and last page, `siblings` pages on each side of the
+ * current one, and an ellipsis for each collapsed run. The number of entries
+ * stays the same while paging, so the controls don't shift under the pointer.
+ */
+function getPageEntries(page: number, count: number, siblings: number): PaginationEntry[] {
+  // First + last + current + siblings + two ellipses: nothing to collapse
+  if (count <= siblings * 2 + 5) return range(1, count);
+
+  const start = Math.max(Math.min(page - siblings, count - siblings * 2 - 2), 3);
+  const end = Math.min(Math.max(page + siblings, siblings * 2 + 3), count - 2);
+
+  return [
+    1,
+    start > 3 ? 'start-ellipsis' : 2,
+    ...range(start, end),
+    end < count - 2 ? 'end-ellipsis' : count - 1,
+    count,
+  ];
+}
+
+const CONTROL_LABELS: Record<PaginationControl, string> = {
+  first: 'First page',
+  previous: 'Previous page',
+  next: 'Next page',
+  last: 'Last page',
+};
+
+const CONTROL_ICONS: Record<PaginationControl, string> = {
+  first: 'M15 14l-4-4 4-4M9 14l-4-4 4-4',
+  previous: 'M12.5 15l-5-5 5-5',
+  next: 'M7.5 15l5-5-5-5',
+  last: 'M5 14l4-4-4-4M11 14l4-4-4-4',
+};
+
+/**
+ * Pagination component built with LIT
+ *
+ * @example
+ * ```html
+ * <!-- 240 items, 10 per page -->
+ * <kds-pagination total="240" page="3"></kds-pagination>
+ *
+ * <!-- First/last controls and a page size selector -->
+ * <kds-pagination
+ *   total="240"
+ *   page-size="25"
+ *   page-sizes="[10, 25, 50, 100]"
+ *   show-first-last
+ * ></kds-pagination>
+ *
+ * <!-- Known page count (e.g. from a paged API) -->
+ * <kds-pagination page-count="12" sibling-count="2"></kds-pagination>
+ * ```
+ *
+ * The pages are a `kds-button-group` inside a `nav` landmark: the group is a
+ * single tab stop and arrow keys move between its buttons. The current page is
+ * marked with `aria-current="page"`. Long page ranges collapse into ellipses
+ * around the first page, the current page and its `sibling-count` neighbours,
+ * and the last page.
+ *
+ * Changing the page size keeps the first item of the current page in view.
+ * The component does not slice any data; listen to `kds-page-change` and load
+ * or show the rows for `page` and `pageSize`.
+ *
+ * @fires {CustomEvent<{page: number, pageSize: number}>} kds-page-change - Fired when the user changes the page or the page size
+ */
+@customElement('kds-pagination')
+export class KdsPagination extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      font-family: var(--kds-font-family, 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif);
+    }
+
+    :host([hidden]) {
+      display: none;
+    }
+
+    .pagination {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: center;
+      justify-content: space-between;
+      gap: 12px;
+    }
+
+    .page-size {
+      display: flex;
+      align-items: center;
+      gap: 12px;
+    }
+
+    .page-size-label {
+      font-size: 14px;
+      line-height: 20px;
+      font-weight: 500;
+      color: var(--kds-pagination-label, #414651);
+      white-space: nowrap;
+    }
+
+    .page-size kds-select {
+      width: var(--kds-pagination-page-size-width, 88px);
+    }
+
+    nav {
+      margin-inline-start: auto;
+    }
+
+    /* Same box as a kds-button-group-item, without the interaction states */
+    /* TODO: Verify the ellipsis cell against the Figma pagination */
+    .ellipsis {
+      display: inline-flex;
+      align-items: center;
+      justify-content: center;
+      min-width: 40px;
+      padding: 10px 16px;
+      box-sizing: border-box;
+      border-right: 1px solid var(--kds-button-group-border, #D5D7DA);
+      background: var(--kds-button-group-bg, #FFFFFF);
+      color: var(--kds-button-group-text, #414651);
+      font-size: 14px;
+      font-weight: 600;
+      line-height: 20px;
+      user-select: none;
+    }
+
+    kds-button-group-item svg {
+      width: 20px;
+      height: 20px;
+    }
+
+    :host(:dir(rtl)) kds-button-group-item svg {
+      transform: scaleX(-1);
+    }
+  `;
+
+  /**
+   * Current page, starting at 1
+   * @default 1
+   */
+  @property({ type: Number })
+  page = 1;
+
+  /**
+   * Number of items being paged; the page count is derived from it
+   * @default 0
+   */
+  @property({ type: Number })
+  total = 0;
+
+  /**
+   * Number of pages; when set, it is used instead of deriving it from `total`
+   * @default 0
+   */
+  @property({ type: Number, attribute: 'page-count' })
+  pageCount = 0;
+
+  /**
+   * Items per page
+   * @default 10
+   */
+  @property({ type: Number, attribute: 'page-size' })
+  pageSize = 10;
+
+  /**
+   * Choices for the page size selector, e.g. `page-sizes="[10, 25, 50]"`; hidden when empty
+   */
+  @property({ type: Array, attribute: 'page-sizes' })
+  pageSizes: number[] = [];
+
+  /**
+   * Pages shown on each side of the current page before collapsing
+   * @default 1
+   */
+  @property({ type: Number, attribute: 'sibling-count' })
+  siblingCount = 1;
+
+  /**
+   * Show first and last page controls next to previous and next
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true, attribute: 'show-first-last' })
+  showFirstLast = false;
+
+  /**
+   * Label of the page size selector
+   * @default 'Rows per page'
+   */
+  @property({ type: String, attribute: 'page-size-label' })
+  pageSizeLabel = 'Rows per page';
+
+  /**
+   * Whether the pagination is disabled
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  disabled = false;
+
+  /**
+   * ARIA label of the navigation landmark
+   * @default 'Pagination'
+   */
+  @property({ type: String, attribute: 'aria-label' })
+  override ariaLabel: string | null = 'Pagination';
+
+  /** Number of pages, at least 1. */
+  private get _pageCount(): number {
+    if (this.pageCount > 0) return Math.floor(this.pageCount);
+    const size = this.pageSize > 0 ? this.pageSize : 1;
+    return Math.max(Math.ceil(this.total / size), 1);
+  }
+
+  override willUpdate(changed: PropertyValues<this>) {
+    if (changed.has('page') || changed.has('total') || changed.has('pageCount') || changed.has('pageSize')) {
+      this.page = Math.min(Math.max(Math.floor(this.page) || 1, 1), this._pageCount);
+    }
+  }
+
+  private _dispatchChange() {
+    this.dispatchEvent(
+      new CustomEvent<PageChangeDetail>('kds-page-change', {
+        detail: { page: this.page, pageSize: this.pageSize },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  private async _goTo(page: number) {
+    const next = Math.min(Math.max(page, 1), this._pageCount);
+    if (next === this.page) return;
+
+    this.page = next;
+    this._dispatchChange();
+
+    // A control that just became disabled (e.g. Next on the last page) drops focus; keep it on the current page
+    await this.updateComplete;
+    const active = this.renderRoot instanceof ShadowRoot ? this.renderRoot.activeElement : null;
+    if (active instanceof HTMLElement && active.matches('kds-button-group-item[disabled]')) {
+      this.renderRoot.querySelector<KdsButtonGroupItem>(`kds-button-group-item[data-page="${this.page}"]`)?.focus();
+    }
+  }
+
+  private _handleItemClick(event: CustomEvent) {
+    // The item events are an implementation detail; the pagination reports kds-page-change
+    event.stopPropagation();
+    const item = event.target as KdsButtonGroupItem;
+
+    const page = Number(item.dataset.page);
+    if (page) {
+      this._goTo(page);
+      return;
+    }
+
+    switch (item.dataset.control as PaginationControl) {
+      case 'first':
+        this._goTo(1);
+        break;
+      case 'previous':
+        this._goTo(this.page - 1);
+        break;
+      case 'next':
+        this._goTo(this.page + 1);
+        break;
+      case 'last':
+        this._goTo(this._pageCount);
+        break;
+    }
+  }
+
+  private _handlePageSizeChange(event: CustomEvent<{ value: string }>) {
+    event.stopPropagation();
+    const pageSize = Number(event.detail.value);
+    if (!(pageSize > 0) || pageSize === this.pageSize) return;
+
+    // Stay on the page that holds the first item currently shown
+    const firstItem = (this.page - 1) * this.pageSize;
+    this.pageSize = pageSize;
+    this.page = Math.floor(firstItem / pageSize) + 1;
+    this._dispatchChange();
+  }
+
+  private _renderControl(control: PaginationControl, disabled: boolean) {
+    return html`
+      <kds-button-group-item
+        icon="only"
+        data-control=${control}
+        aria-label=${CONTROL_LABELS[control]}
+        .pressable=${false}
+        ?disabled=${this.disabled || disabled}
+      >
+        <svg slot="icon" viewBox="0 0 20 20" fill="none" xmlns="http://www.w3.org/2000/svg" aria-hidden="true">
+          <path d=${CONTROL_ICONS[control]} stroke="currentColor" stroke-width="1.667" stroke-linecap="round" stroke-linejoin="round"/>
+        </svg>
+      </kds-button-group-item>
+    `;
+  }
+
+  private _renderEntry(entry: PaginationEntry) {
+    if (typeof entry !== 'number') {
+      return html`<span class="ellipsis" part="ellipsis" aria-hidden="true">…</span>`;
+    }
+
+    const current = entry === this.page;
+    return html`
+      <kds-button-group-item
+        data-page=${entry}
+        aria-label=${`Page ${entry}`}
+        aria-current=${current ? 'page' : nothing}
+        .pressable=${false}
+        ?selected=${current}
+        ?disabled=${this.disabled}
+      >${entry}</kds-button-group-item>
+    `;
+  }
+
+  private _renderPageSize() {
+    if (!this.pageSizes.length) return nothing;
+
+    // Keep the current size selectable even when it isn't one of the choices
+    const sizes = this.pageSizes.includes(this.pageSize)
+      ? this.pageSizes
+      : [...this.pageSizes, this.pageSize].sort((a, b) => a - b);
+
+    return html`
+      <div class="page-size" part="page-size">
+        <span class="page-size-label" aria-hidden="true">${this.pageSizeLabel}</span>
+        <kds-select
+          aria-label=${this.pageSizeLabel}
+          .value=${String(this.pageSize)}
+          ?disabled=${this.disabled}
+          @kds-select-change=${this._handlePageSizeChange}
+        >
+          ${sizes.map((size) => html`<kds-option value=${String(size)}>${size}</kds-option>`)}
+        </kds-select>
+      </div>
+    `;
+  }
+
+  override render() {
+    const count = this._pageCount;
+    const siblings = Math.max(Math.floor(this.siblingCount) || 0, 0);
+    const entries = getPageEntries(this.page, count, siblings);
+    const atStart = this.page <= 1;
+    const atEnd = this.page >= count;
+
+    return html`
+      <div class="pagination" part="pagination">
+        ${this._renderPageSize()}
+        <nav aria-label=${this.ariaLabel || 'Pagination'}>
+          <kds-button-group part="pages" @kds-button-group-item-click=${this._handleItemClick}>
+            ${this.showFirstLast ? this._renderControl('first', atStart) : nothing}
+            ${this._renderControl('previous', atStart)}
+            ${repeat(entries, (entry) => entry, (entry) => this._renderEntry(entry))}
+            ${this._renderControl('next', atEnd)}
+            ${this.showFirstLast ? this._renderControl('last', atEnd) : nothing}
+          </kds-button-group>
+        </nav>
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'kds-pagination': KdsPagination;
+  }
+}
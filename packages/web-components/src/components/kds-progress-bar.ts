@@ -0,0 +1,239 @@
+/**
+ * @package @kds/web-components
+ * @component kds-progress-bar
+ * @description Progress bar component from Untitled UI design system
+ * @author Kilian Sala <kilian@kapsch.net>
+ * @source Figma: Untitled UI - FREE Figma UI kit v2.0
+ *
+ * ⚠️ STATUS: PENDING FIGMA DATA VALIDATION
+ * Track and fill follow the Untitled UI progress bar; colors come from the
+ * brand and error scales in @kds/tokens.
+ * TODO markers indicate values that must be verified against actual Figma design.
+ */
+
+import { LitElement, html, css, nothing } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import { styleMap } from 'lit/directives/style-map.js';
+
+export type ProgressVariant = 'brand' | 'error';
+export type ProgressValuePosition = 'none' | 'right' | 'bottom';
+
+/**
+ * Progress bar component built with LIT
+ *
+ * @example
+ * ```html
+ * <!-- Determinate, percentage on the right -->
+ * <kds-progress-bar label="Uploading report.pdf" value="42"></kds-progress-bar>
+ *
+ * <!-- Percentage below the bar, custom max -->
+ * <kds-progress-bar label="Steps" value="3" max="5" value-position="bottom"></kds-progress-bar>
+ *
+ * <!-- Indeterminate -->
+ * <kds-progress-bar label="Preparing export" indeterminate></kds-progress-bar>
+ *
+ * <!-- Error -->
+ * <kds-progress-bar label="Upload failed" value="64" variant="error"></kds-progress-bar>
+ * ```
+ *
+ * The bar is exposed as `role="progressbar"` with `aria-valuenow` (omitted
+ * while indeterminate, as the ARIA spec requires). With reduced motion the
+ * indeterminate bar stops sliding and shows a static, dimmed track instead.
+ */
+@customElement('kds-progress-bar')
+export class KdsProgressBar extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      font-family: var(--kds-font-family, 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif);
+    }
+
+    :host([hidden]) {
+      display: none;
+    }
+
+    .progress {
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+    }
+
+    .label {
+      font-size: 14px;
+      line-height: 20px;
+      font-weight: 500;
+      color: var(--kds-progress-label, #414651);
+    }
+
+    .row {
+      display: flex;
+      align-items: center;
+      gap: 12px;
+    }
+
+    .track {
+      position: relative;
+      flex: 1 0 0;
+      height: var(--kds-progress-height, 8px);
+      overflow: hidden;
+      border-radius: 9999px;
+      background-color: var(--kds-progress-track, var(--kds-color-gray-200, #E9EAEB));
+    }
+
+    .fill {
+      height: 100%;
+      border-radius: 9999px;
+      background-color: var(--kds-progress-fill, var(--kds-color-brand-600, #7F56D9));
+      transition: width 0.2s ease;
+    }
+
+    .progress.error .fill {
+      background-color: var(--kds-progress-fill-error, var(--kds-color-error-600, #D92D20));
+    }
+
+    .progress.indeterminate .fill {
+      position: absolute;
+      top: 0;
+      left: 0;
+      width: 40%;
+      animation: kds-progress-indeterminate 1.5s ease-in-out infinite;
+    }
+
+    @keyframes kds-progress-indeterminate {
+      from {
+        transform: translateX(-100%);
+      }
+      to {
+        transform: translateX(250%);
+      }
+    }
+
+    /* TODO: Verify percentage text against Figma */
+    .value {
+      flex-shrink: 0;
+      font-size: 14px;
+      line-height: 20px;
+      font-weight: 500;
+      color: var(--kds-progress-value, #414651);
+      font-variant-numeric: tabular-nums;
+    }
+
+    .progress.value-bottom .value {
+      align-self: flex-end;
+    }
+
+    @media (prefers-reduced-motion: reduce) {
+      .fill {
+        transition: none;
+      }
+
+      .progress.indeterminate .fill {
+        width: 100%;
+        opacity: 0.4;
+        animation: none;
+      }
+    }
+  `;
+
+  /**
+   * Current progress, from 0 to `max`
+   * @default 0
+   */
+  @property({ type: Number })
+  value = 0;
+
+  /**
+   * Value that represents completion
+   * @default 100
+   */
+  @property({ type: Number })
+  max = 100;
+
+  /**
+   * Visible label above the bar; also names the progressbar
+   */
+  @property({ type: String })
+  label = '';
+
+  /**
+   * Where the percentage text is shown
+   * @default 'right'
+   */
+  @property({ type: String, attribute: 'value-position', reflect: true })
+  valuePosition: ProgressValuePosition = 'right';
+
+  /**
+   * Brand (default) or error color
+   * @default 'brand'
+   */
+  @property({ type: String, reflect: true })
+  variant: ProgressVariant = 'brand';
+
+  /**
+   * Progress is unknown: animates instead of showing a value
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  indeterminate = false;
+
+  /**
+   * ARIA label (when there is no visible label)
+   */
+  @property({ type: String, attribute: 'aria-label' })
+  override ariaLabel: string | null = null;
+
+  /** Progress as a whole percentage, clamped to 0–100. */
+  private get _percent(): number {
+    if (!(this.max > 0)) return 0;
+    return Math.round(Math.min(Math.max(this.value / this.max, 0), 1) * 100);
+  }
+
+  override render() {
+    const percent = this._percent;
+    const showValue = !this.indeterminate && this.valuePosition !== 'none';
+
+    const classes = {
+      progress: true,
+      error: this.variant === 'error',
+      indeterminate: this.indeterminate,
+      [`value-${this.valuePosition}`]: true,
+    };
+
+    // The text is a visual duplicate of aria-valuetext
+    const valueText = html`<span class="value" part="value" aria-hidden="true">${percent}%</span>`;
+
+    return html`
+      <div class=${classMap(classes)}>
+        ${this.label ? html`<span class="label" id="label" part="label">${this.label}</span>` : nothing}
+        <div class="row">
+          <div
+            class="track"
+            part="track"
+            role="progressbar"
+            aria-labelledby=${this.label && !this.ariaLabel ? 'label' : nothing}
+            aria-label=${this.ariaLabel || nothing}
+            aria-valuemin="0"
+            aria-valuemax="100"
+            aria-valuenow=${this.indeterminate ? nothing : percent}
+            aria-valuetext=${this.indeterminate ? nothing : `${percent}%`}
+          >
+            <div
+              class="fill"
+              part="fill"
+              style=${styleMap(this.indeterminate ? {} : { width: `${percent}%` })}
+            ></div>
+          </div>
+          ${showValue && this.valuePosition === 'right' ? valueText : nothing}
+        </div>
+        ${showValue && this.valuePosition === 'bottom' ? valueText : nothing}
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'kds-progress-bar': KdsProgressBar;
+  }
+}
@@ -0,0 +1,296 @@
+/**
+ * @package @kds/web-components
+ * @component kds-radio-group
+ * @description Radio Group component from Untitled UI design system
+ * @author Kilian Sala <kilian@kapsch.net>
+ * @source Figma: Untitled UI - FREE Figma UI kit v2.0
+ *
+ * ⚠️ STATUS: PENDING FIGMA DATA VALIDATION
+ * Built on kds-radio; label and hint typography follow kds-input-field.
+ * TODO markers indicate values that must be verified against actual Figma design.
+ */
+
+import { LitElement, html, css, nothing, PropertyValues } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import './kds-radio.js';
+import type { KdsRadio, RadioSize } from './kds-radio.js';
+
+export type RadioGroupOrientation = 'vertical' | 'horizontal';
+
+/**
+ * Radio Group component built with LIT
+ *
+ * Groups `kds-radio` elements under a shared label and hint, and tracks the
+ * value of the checked option in `value`.
+ *
+ * @example
+ * ```html
+ * <!-- Basic group -->
+ * <kds-radio-group label="Plan" name="plan" hint="You can change this later.">
+ *   <kds-radio value="basic" checked>Basic</kds-radio>
+ *   <kds-radio value="pro">Pro</kds-radio>
+ *   <kds-radio value="enterprise" disabled>Enterprise</kds-radio>
+ * </kds-radio-group>
+ *
+ * <!-- Horizontal, required inside a form -->
+ * <kds-radio-group label="Theme" name="theme" orientation="horizontal" required>
+ *   <kds-radio value="light">Light</kds-radio>
+ *   <kds-radio value="dark">Dark</kds-radio>
+ * </kds-radio-group>
+ * ```
+ *
+ * `size` and `name` are applied to every option; `required`, `disabled` and
+ * `error` are applied once set on the group. Keyboard behaviour, form values
+ * and required validation come from the options themselves (see kds-radio).
+ * When the owning form is reset, `value` follows the options' reset state.
+ *
+ * @slot - `kds-radio` options
+ *
+ * @fires {CustomEvent<{value: string}>} kds-radio-group-change - Fired when the user checks an option
+ */
+@customElement('kds-radio-group')
+export class KdsRadioGroup extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      font-family: var(--kds-font-family, 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif);
+    }
+
+    .group {
+      display: flex;
+      flex-direction: column;
+      gap: var(--kds-radio-group-gap, 12px);
+    }
+
+    /* Group label - same typography as kds-input-field label */
+    .label {
+      display: block;
+      margin: 0;
+      font-size: 14px;
+      line-height: 20px;
+      font-weight: 500;
+      color: var(--kds-radio-group-label-color, #414651);
+    }
+
+    .options {
+      display: flex;
+      flex-direction: column;
+      gap: var(--kds-radio-group-gap, 12px);
+    }
+
+    :host([orientation="horizontal"]) .options {
+      flex-direction: row;
+      flex-wrap: wrap;
+      column-gap: var(--kds-radio-group-gap-horizontal, 24px);
+    }
+
+    /* Hint text - same typography as kds-input-field hint */
+    .hint {
+      margin: 0;
+      font-size: 14px;
+      line-height: 20px;
+      font-weight: 400;
+      color: var(--kds-radio-group-hint-color, #535862);
+    }
+
+    .group.error .hint {
+      color: var(--kds-radio-group-error-color, #D92D20);
+    }
+
+    .group.disabled .label,
+    .group.disabled .hint {
+      color: var(--kds-radio-group-disabled-text, #A4ACBA);
+    }
+  `;
+
+  /**
+   * Group label text
+   */
+  @property({ type: String })
+  label = '';
+
+  /**
+   * Hint text below the options. In error state, rendered as the error message.
+   */
+  @property({ type: String })
+  hint = '';
+
+  /**
+   * Layout of the options
+   * @default 'vertical'
+   */
+  @property({ type: String, reflect: true })
+  orientation: RadioGroupOrientation = 'vertical';
+
+  /**
+   * Size applied to every option
+   * @default 'md'
+   */
+  @property({ type: String, reflect: true })
+  size: RadioSize = 'md';
+
+  /**
+   * Name applied to every option for form submission
+   */
+  @property({ type: String, reflect: true })
+  name?: string;
+
+  /**
+   * Value of the checked option ('' when none is checked)
+   */
+  @property({ type: String })
+  value = '';
+
+  /**
+   * Whether an option must be checked
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  required = false;
+
+  /**
+   * Disables every option
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  disabled = false;
+
+  /**
+   * Error state: red hint and error styling on every option
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  error = false;
+
+  /**
+   * ARIA label for the group (when there is no visible label)
+   */
+  @property({ type: String, attribute: 'aria-label' })
+  override ariaLabel: string | null = null;
+
+  override willUpdate() {
+    // Markup-driven groups start from the checked option
+    if (!this.hasUpdated && !this.value) {
+      this.value = this._checkedValue();
+    }
+  }
+
+  override updated(changed: PropertyValues<this>) {
+    const radios = this._getRadios();
+
+    if (changed.has('value')) {
+      this._syncRadios(radios);
+    }
+
+    if (['size', 'name', 'required', 'disabled', 'error'].some((key) => changed.has(key as keyof KdsRadioGroup))) {
+      this._applyGroupState(radios, changed);
+    }
+  }
+
+  private _getRadios(): KdsRadio[] {
+    return Array.from(this.querySelectorAll('kds-radio'));
+  }
+
+  private _checkedValue(radios = this._getRadios()): string {
+    return radios.find((radio) => radio.checked)?.value ?? '';
+  }
+
+  private _syncRadios(radios = this._getRadios()) {
+    radios.forEach((radio) => {
+      radio.checked = this.value !== '' && radio.value === this.value;
+    });
+  }
+
+  /**
+   * Applies group-level state to the options. `required`, `disabled` and `error` only
+   * override the options' own values once they have been set on the group.
+   */
+  private _applyGroupState(radios = this._getRadios(), changed?: PropertyValues<this>) {
+    radios.forEach((radio) => {
+      radio.size = this.size;
+      if (this.name) radio.name = this.name;
+      if (this.required || changed?.get('required')) radio.required = this.required;
+      if (this.disabled || changed?.get('disabled')) radio.disabled = this.disabled;
+      if (this.error || changed?.get('error')) radio.error = this.error;
+    });
+  }
+
+  private _handleSlotChange() {
+    const radios = this._getRadios();
+
+    if (this.value) {
+      this._syncRadios(radios);
+    } else {
+      this.value = this._checkedValue(radios);
+    }
+    this._applyGroupState(radios);
+  }
+
+  /** An option was reset by its form; `value` follows. */
+  private _handleOptionReset(event: CustomEvent) {
+    const radios = this._getRadios();
+    if (!radios.includes(event.target as KdsRadio)) return;
+
+    this.value = this._checkedValue(radios);
+  }
+
+  private _handleOptionChange(event: CustomEvent<{ value: string }>) {
+    if (!this._getRadios().includes(event.target as KdsRadio)) return;
+
+    const { value } = event.detail;
+    this.value = value;
+
+    this.dispatchEvent(
+      new CustomEvent('kds-radio-group-change', {
+        detail: { value },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  override render() {
+    const groupClasses = {
+      group: true,
+      error: this.error,
+      disabled: this.disabled,
+    };
+
+    return html`
+      <div
+        class=${classMap(groupClasses)}
+        part="group"
+        role="radiogroup"
+        aria-labelledby=${this.label ? 'label' : nothing}
+        aria-label=${!this.label && this.ariaLabel ? this.ariaLabel : nothing}
+        aria-describedby=${this.hint ? 'hint' : nothing}
+        aria-required=${this.required ? 'true' : nothing}
+        aria-invalid=${this.error ? 'true' : nothing}
+      >
+        ${this.label
+          ? html`<span class="label" id="label" part="label">${this.label}</span>`
+          : nothing}
+
+        <div
+          class="options"
+          part="options"
+          @kds-radio-change=${this._handleOptionChange}
+          @kds-radio-reset=${this._handleOptionReset}
+        >
+          <slot @slotchange=${this._handleSlotChange}></slot>
+        </div>
+
+        ${this.hint
+          ? html`<p class="hint" id="hint" part="hint">${this.hint}</p>`
+          : nothing}
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'kds-radio-group': KdsRadioGroup;
+  }
+}
@@ -0,0 +1,562 @@
+/**
+ * @package @kds/web-components
+ * @component kds-radio
+ * @description Radio component from Untitled UI design system
+ * @author Kilian Sala <kilian@kapsch.net>
+ * @source Figma: Untitled UI - FREE Figma UI kit v2.0
+ *
+ * ⚠️ STATUS: PENDING FIGMA DATA VALIDATION
+ * Shares the Checkbox visual language (sizes, colors, focus ring, error state).
+ * TODO markers indicate values that must be verified against actual Figma design.
+ */
+
+import { LitElement, html, css, nothing, PropertyValues } from 'lit';
+import { customElement, property, query, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import { ifDefined } from 'lit/directives/if-defined.js';
+import { live } from 'lit/directives/live.js';
+import type { CheckboxSize } from './kds-checkbox.js';
+
+// Same size variants as Checkbox
+export type RadioSize = CheckboxSize;
+
+/**
+ * Radio component built with LIT
+ *
+ * @example
+ * ```html
+ * <!-- Radios sharing a name behave as one group -->
+ * <kds-radio name="plan" value="basic" checked>Basic</kds-radio>
+ * <kds-radio name="plan" value="pro">Pro</kds-radio>
+ *
+ * <!-- Disabled -->
+ * <kds-radio name="plan" value="enterprise" disabled>Enterprise</kds-radio>
+ *
+ * <!-- Error state -->
+ * <kds-radio name="terms" value="yes" error>I agree</kds-radio>
+ *
+ * <!-- Without label (requires aria-label) -->
+ * <kds-radio name="plan" value="basic" aria-label="Basic plan"></kds-radio>
+ * ```
+ *
+ * Like a native radio button, checking a radio unchecks the others in its set:
+ * the radios of the same `kds-radio-group`, or otherwise the radios sharing its
+ * `name` in the same form. Only one radio of a set is in the tab order (the
+ * checked one, or the first enabled one) and the arrow keys move focus and
+ * selection to the previous/next enabled radio, wrapping around.
+ *
+ * The element is form-associated (ElementInternals): when checked its value is
+ * part of the owning form's FormData, it resets to its initial checked state on
+ * form reset, and it is disabled by an ancestor `<fieldset disabled>`. When any
+ * radio of a set is `required`, the set is invalid until one radio is checked.
+ *
+ * @fires {CustomEvent} kds-radio-change - Fired when the user checks the radio
+ * @fires {CustomEvent} kds-radio-focus - Fired when radio receives focus
+ * @fires {CustomEvent} kds-radio-blur - Fired when radio loses focus
+ * @fires {CustomEvent} kds-radio-reset - Fired when the owning form resets the radio
+ */
+@customElement('kds-radio')
+export class KdsRadio extends LitElement {
+  static formAssociated = true;
+
+  static override styles = css`
+    :host {
+      display: inline-flex;
+      align-items: flex-start;
+      gap: var(--kds-radio-gap, 12px);
+      font-family: var(--kds-font-family, 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif);
+      cursor: pointer;
+      user-select: none;
+    }
+
+    :host([disabled]),
+    :host(:disabled) {
+      cursor: not-allowed;
+      opacity: 0.5;
+    }
+
+    .radio-wrapper {
+      display: inline-flex;
+      align-items: center;
+      gap: var(--kds-radio-gap, 12px);
+    }
+
+    /* Hidden native radio for accessibility */
+    input[type="radio"] {
+      position: absolute;
+      opacity: 0;
+      width: 0;
+      height: 0;
+      pointer-events: none;
+    }
+
+    /* Custom radio visual */
+    .radio {
+      display: inline-flex;
+      align-items: center;
+      justify-content: center;
+      flex-shrink: 0;
+      border-radius: 50%;
+      border: 1px solid var(--kds-color-gray-300, #D5D7DA);
+      background-color: var(--kds-color-white, #FFFFFF);
+      transition: all 0.2s ease;
+      position: relative;
+      box-sizing: border-box;
+    }
+
+    /* Sizes match Checkbox: sm=16px, md=20px */
+    .radio.size-sm {
+      width: var(--kds-radio-size-sm, 16px);
+      height: var(--kds-radio-size-sm, 16px);
+    }
+
+    .radio.size-md {
+      width: var(--kds-radio-size-md, 20px);
+      height: var(--kds-radio-size-md, 20px);
+    }
+
+    /* Checked state */
+    .radio.checked {
+      background-color: var(--kds-color-brand-600, #7F56D9);
+      border-color: var(--kds-color-brand-600, #7F56D9);
+    }
+
+    /* Hover states - same tokens as Checkbox */
+    :host(:not([disabled]):not(:disabled)) .radio:hover {
+      border-color: var(--kds-color-brand-600, #7F56D9);
+      background-color: var(--kds-color-brand-50, #F9F5FF);
+    }
+
+    :host(:not([disabled]):not(:disabled)) .radio.checked:hover {
+      background-color: var(--kds-color-brand-600, #7F56D9);
+      border-color: var(--kds-color-brand-600, #7F56D9);
+    }
+
+    /* Focus state */
+    input[type="radio"]:focus-visible + .radio {
+      outline: none;
+      box-shadow: var(--kds-shadow-xs-focused-primary, 0 0 0 4px #F4EBFF, 0 1px 2px 0 rgba(10, 13, 18, 0.05));
+    }
+
+    /* Error state */
+    .radio.error {
+      border-color: var(--kds-color-error-600, #D92D20);
+    }
+
+    .radio.error.checked {
+      background-color: var(--kds-color-error-600, #D92D20);
+      border-color: var(--kds-color-error-600, #D92D20);
+    }
+
+    input[type="radio"]:focus-visible + .radio.error {
+      box-shadow: var(--kds-shadow-xs-focused-error, 0 0 0 4px #FEE4E2, 0 1px 2px 0 rgba(10, 13, 18, 0.05));
+    }
+
+    /* Disabled state */
+    :host([disabled]) .radio,
+    :host(:disabled) .radio {
+      background-color: var(--kds-color-gray-100, #F5F5F5);
+      border-color: var(--kds-color-gray-200, #E9EAEB);
+      cursor: not-allowed;
+    }
+
+    /* Inner dot - TODO: Verify dot sizes against Figma */
+    .dot {
+      display: none;
+      border-radius: 50%;
+      background-color: var(--kds-color-white, #FFFFFF);
+    }
+
+    .radio.size-sm .dot {
+      width: 6px;
+      height: 6px;
+    }
+
+    .radio.size-md .dot {
+      width: 8px;
+      height: 8px;
+    }
+
+    .radio.checked .dot {
+      display: block;
+    }
+
+    :host([disabled]) .radio.checked .dot,
+    :host(:disabled) .radio.checked .dot {
+      background-color: var(--kds-color-gray-300, #D5D7DA);
+    }
+
+    /* Label text - same typography as Checkbox */
+    .label {
+      font-family: 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif;
+      font-weight: 500; /* Medium */
+      color: var(--kds-color-gray-700, #414651);
+    }
+
+    /* sm: Inter Medium 14px/20px */
+    .label.size-sm {
+      font-size: 14px;
+      line-height: 20px;
+    }
+
+    /* md: Inter Medium 16px/24px */
+    .label.size-md {
+      font-size: 16px;
+      line-height: 24px;
+    }
+
+    :host([disabled]) .label,
+    :host(:disabled) .label {
+      color: var(--kds-color-gray-600, #535862);
+    }
+  `;
+
+  /**
+   * Radio size variant
+   * @default 'md'
+   */
+  @property({ type: String, reflect: true })
+  size: RadioSize = 'md';
+
+  /**
+   * Whether the radio is checked
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  checked = false;
+
+  /**
+   * Whether the radio is disabled
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  disabled = false;
+
+  /**
+   * Whether the radio is in error state
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  error = false;
+
+  /**
+   * Name attribute for form submission; radios sharing a name form one set
+   */
+  @property({ type: String, reflect: true })
+  name?: string;
+
+  /**
+   * Value attribute for form submission
+   * @default 'on'
+   */
+  @property({ type: String })
+  value = 'on';
+
+  /**
+   * Whether a radio of this set must be checked
+   * @default false
+   */
+  @property({ type: Boolean })
+  required = false;
+
+  /**
+   * ARIA label for accessibility (required if no label text)
+   */
+  @property({ type: String, attribute: 'aria-label' })
+  override ariaLabel: string | null = null;
+
+  /**
+   * ARIA described-by for associating with help text or error messages
+   */
+  @property({ type: String, attribute: 'aria-describedby' })
+  ariaDescribedBy?: string;
+
+  /**
+   * Tab index of the inner radio, set by the set's roving tabindex
+   * @internal
+   */
+  @property({ attribute: false })
+  rovingTabIndex?: number;
+
+  /**
+   * Set when an ancestor `<fieldset>` is disabled
+   */
+  @state()
+  private formDisabled = false;
+
+  @query('input')
+  private _input?: HTMLInputElement;
+
+  private internals: ElementInternals;
+
+  /**
+   * Checked state restored on form reset — captured on first render
+   */
+  private defaultChecked = false;
+
+  constructor() {
+    super();
+    this.internals = this.attachInternals();
+  }
+
+  /**
+   * The form this element is associated with, if any
+   */
+  get form(): HTMLFormElement | null {
+    return this.internals.form;
+  }
+
+  private get isDisabled(): boolean {
+    return this.disabled || this.formDisabled;
+  }
+
+  /** Programmatically focus the inner radio. */
+  override focus(options?: FocusOptions) {
+    this._input?.focus(options);
+  }
+
+  override firstUpdated() {
+    this.defaultChecked = this.checked;
+  }
+
+  override updated(changed: PropertyValues<this>) {
+    if (changed.has('checked') || changed.has('value')) {
+      this.internals.setFormValue(this.checked ? this.value : null, String(this.checked));
+    }
+
+    // Like native radios, checking one radio unchecks the rest of its set
+    if (changed.has('checked') && this.checked) {
+      this._getRadioSet().forEach((radio) => {
+        if (radio !== this) radio.checked = false;
+      });
+    }
+
+    if (['checked', 'disabled', 'formDisabled', 'required', 'name'].some((key) => changed.has(key as keyof KdsRadio))) {
+      this._updateSet();
+    }
+  }
+
+  /**
+   * Called by the owning form on reset
+   */
+  formResetCallback() {
+    this.checked = this.defaultChecked;
+    // Lets a kds-radio-group follow the reset without a change event
+    this.dispatchEvent(
+      new CustomEvent('kds-radio-reset', {
+        detail: { checked: this.checked, value: this.value },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  /**
+   * Called by the browser when restoring state (back/forward cache, autofill)
+   */
+  formStateRestoreCallback(state: string | File | FormData | null) {
+    if (typeof state === 'string') {
+      this.checked = state === 'true';
+    }
+  }
+
+  /**
+   * Called when an ancestor `<fieldset>` toggles its disabled state
+   */
+  formDisabledCallback(disabled: boolean) {
+    this.formDisabled = disabled;
+  }
+
+  /**
+   * Radios that behave as one group with this radio: the radios of the
+   * enclosing `kds-radio-group`, or those sharing its name in the same form.
+   */
+  private _getRadioSet(): KdsRadio[] {
+    const group = this.closest('kds-radio-group');
+    if (!group && !this.name) return [this];
+
+    const root = group ?? (this.getRootNode() as Document | ShadowRoot);
+    return Array.from(root.querySelectorAll('kds-radio')).filter(
+      (radio) =>
+        radio instanceof KdsRadio &&
+        (group || (radio.name === this.name && radio.form === this.form && !radio.closest('kds-radio-group')))
+    );
+  }
+
+  /**
+   * Roving tabindex and required validity for the whole set: only the checked
+   * radio (or the first enabled one) is in the tab order, and every radio is
+   * invalid while a required set has nothing checked.
+   */
+  private _updateSet() {
+    const radios = this._getRadioSet();
+    const enabled = radios.filter((radio) => !radio.isDisabled);
+    const tabStop = enabled.find((radio) => radio.checked) ?? enabled[0];
+    const valueMissing = radios.some((radio) => radio.required) && !radios.some((radio) => radio.checked);
+
+    radios.forEach((radio) => {
+      radio.rovingTabIndex = radio === tabStop ? 0 : -1;
+
+      if (valueMissing) {
+        radio.internals.setValidity(
+          { valueMissing: true },
+          'Please select one of these options.',
+          radio._input
+        );
+      } else {
+        radio.internals.setValidity({});
+      }
+    });
+  }
+
+  private _select(originalEvent: Event) {
+    if (this.checked) return;
+
+    this.checked = true;
+
+    this.dispatchEvent(
+      new CustomEvent('kds-radio-change', {
+        detail: {
+          checked: true,
+          value: this.value,
+          originalEvent,
+        },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  private handleChange(event: Event) {
+    if (this.isDisabled) {
+      event.preventDefault();
+      event.stopPropagation();
+      return;
+    }
+
+    this._select(event);
+  }
+
+  /**
+   * Native radio keyboard model: arrow keys move focus and selection to the
+   * previous/next enabled radio of the set, wrapping around. Left/Right follow
+   * the writing direction.
+   */
+  private handleKeyDown(event: KeyboardEvent) {
+    const radios = this._getRadioSet().filter((radio) => !radio.isDisabled);
+    const index = radios.indexOf(this);
+    if (index < 0) return;
+
+    const step = getComputedStyle(this).direction === 'rtl' ? -1 : 1;
+    let next: number;
+
+    switch (event.key) {
+      case 'ArrowRight':
+        next = index + step;
+        break;
+      case 'ArrowLeft':
+        next = index - step;
+        break;
+      case 'ArrowDown':
+        next = index + 1;
+        break;
+      case 'ArrowUp':
+        next = index - 1;
+        break;
+      default:
+        return;
+    }
+
+    event.preventDefault();
+    const radio = radios[(next + radios.length) % radios.length];
+    radio.focus();
+    radio._select(event);
+  }
+
+  private handleFocus(event: FocusEvent) {
+    if (this.isDisabled) return;
+
+    this.dispatchEvent(
+      new CustomEvent('kds-radio-focus', {
+        detail: { originalEvent: event },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  private handleBlur(event: FocusEvent) {
+    if (this.isDisabled) return;
+
+    this.dispatchEvent(
+      new CustomEvent('kds-radio-blur', {
+        detail: { originalEvent: event },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  private handleClick(event: MouseEvent) {
+    // Let the native radio handle the click
+    if (this.isDisabled) {
+      event.preventDefault();
+      event.stopPropagation();
+    }
+  }
+
+  override render() {
+    const radioClasses = {
+      radio: true,
+      [`size-${this.size}`]: true,
+      checked: this.checked,
+      error: this.error,
+    };
+
+    const labelClasses = {
+      label: true,
+      [`size-${this.size}`]: true,
+    };
+
+    return html`
+      <label class="radio-wrapper" @click=${this.handleClick}>
+        <input
+          type="radio"
+          .checked=${live(this.checked)}
+          ?disabled=${this.isDisabled}
+          ?required=${this.required}
+          value=${this.value}
+          tabindex=${ifDefined(this.rovingTabIndex)}
+          aria-label=${this.ariaLabel || nothing}
+          aria-describedby=${this.ariaDescribedBy || nothing}
+          aria-invalid=${this.error ? 'true' : nothing}
+          @change=${this.handleChange}
+          @keydown=${this.handleKeyDown}
+          @focus=${this.handleFocus}
+          @blur=${this.handleBlur}
+        />
+
+        <span class=${classMap(radioClasses)} role="presentation">
+          <span class="dot"></span>
+        </span>
+
+        ${this.hasLabelSlot()
+          ? html`<span class=${classMap(labelClasses)}><slot></slot></span>`
+          : nothing}
+      </label>
+    `;
+  }
+
+  /**
+   * Check if component has label content via slot
+   */
+  private hasLabelSlot(): boolean {
+    return this.textContent?.trim() !== '';
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'kds-radio': KdsRadio;
+  }
+}
@@ -0,0 +1,1042 @@
+/**
+ * @package @kds/web-components
+ * @component kds-select
+ * @description Select (select-only combobox) component from Untitled UI design system
+ * @author Kilian Sala <kilian@kapsch.net>
+ * @source Figma: Untitled UI - FREE Figma UI kit v2.0
+ *
+ * ⚠️ STATUS: PENDING FIGMA DATA VALIDATION
+ * Field styling follows kds-input-field (same custom properties); the listbox
+ * popup follows the Untitled UI dropdown menu.
+ * TODO markers indicate values that must be verified against actual Figma design.
+ */
+
+import { LitElement, html, css, nothing, PropertyValues } from 'lit';
+import { customElement, property, query, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import { styleMap } from 'lit/directives/style-map.js';
+
+/** Gap between the trigger and the listbox, in px */
+const LISTBOX_OFFSET = 4;
+
+/** Minimum distance between the listbox and the viewport edge, in px */
+const VIEWPORT_PADDING = 8;
+
+/** Typed characters are combined into one search while typed within this time, in ms */
+const TYPEAHEAD_TIMEOUT = 500;
+
+/** Options moved by PageUp / PageDown */
+const PAGE_SIZE = 10;
+
+/**
+ * Option of a `kds-select`. Not rendered itself: the select reads its text,
+ * value and state and renders the listbox.
+ *
+ * @slot - Option text shown in the listbox
+ */
+@customElement('kds-option')
+export class KdsOption extends LitElement {
+  static override styles = css`
+    :host {
+      display: none;
+    }
+  `;
+
+  /**
+   * Value of the option; defaults to its text
+   */
+  @property({ type: String })
+  value = '';
+
+  /**
+   * Text shown in the select trigger when selected; defaults to the option text
+   */
+  @property({ type: String })
+  label = '';
+
+  /**
+   * Whether the option can't be selected
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  disabled = false;
+
+  /**
+   * Initially selected (read when the select first renders)
+   * @default false
+   */
+  @property({ type: Boolean })
+  selected = false;
+
+  override render() {
+    return nothing;
+  }
+}
+
+/**
+ * Labelled group of `kds-option` elements inside a `kds-select`
+ *
+ * @slot - `kds-option` elements
+ */
+@customElement('kds-option-group')
+export class KdsOptionGroup extends LitElement {
+  static override styles = css`
+    :host {
+      display: none;
+    }
+  `;
+
+  /**
+   * Group heading shown in the listbox
+   */
+  @property({ type: String })
+  label = '';
+
+  /**
+   * Disables every option of the group
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  disabled = false;
+
+  override render() {
+    return nothing;
+  }
+}
+
+/** Option as read from the light DOM */
+interface SelectItem {
+  option: KdsOption;
+  group: KdsOptionGroup | null;
+  value: string;
+  text: string;
+  label: string;
+  disabled: boolean;
+}
+
+/**
+ * Select component built with LIT
+ *
+ * A select-only combobox (WAI-ARIA combobox pattern) with a listbox popup.
+ * Options are declared with `kds-option` and grouped with `kds-option-group`.
+ *
+ * @example
+ * ```html
+ * <!-- Single selection -->
+ * <kds-select label="Team member" placeholder="Select team member" name="member">
+ *   <kds-option value="olivia">Olivia Rhye</kds-option>
+ *   <kds-option value="phoenix">Phoenix Baker</kds-option>
+ *   <kds-option value="lana" disabled>Lana Steiner</kds-option>
+ * </kds-select>
+ *
+ * <!-- Multiple selection with option groups -->
+ * <kds-select label="Regions" multiple>
+ *   <kds-option-group label="Europe">
+ *     <kds-option value="at" selected>Austria</kds-option>
+ *     <kds-option value="de">Germany</kds-option>
+ *   </kds-option-group>
+ *   <kds-option-group label="Americas">
+ *     <kds-option value="us">United States</kds-option>
+ *   </kds-option-group>
+ * </kds-select>
+ *
+ * <!-- Phone number with country code -->
+ * <kds-input-field type="leading-dropdown" label="Phone number" input-type="tel" placeholder="+1 (555) 000-0000">
+ *   <kds-select slot="leading-dropdown" aria-label="Country" name="country" value="US">
+ *     <kds-option value="US" label="US">United States</kds-option>
+ *     <kds-option value="AT" label="AT">Austria</kds-option>
+ *   </kds-select>
+ * </kds-input-field>
+ * ```
+ *
+ * Placed in the `leading-dropdown` or `trailing-dropdown` slot of a
+ * `kds-input-field`, the select renders only a compact trigger and takes the
+ * field's border and focus ring. Otherwise it renders the full field: label,
+ * bordered trigger and hint, styled like `kds-input-field`.
+ *
+ * Keyboard: Down/Up, Enter, Space and Alt+Down open the listbox; Down/Up,
+ * Home/End and PageUp/PageDown move the active option; Enter or Space selects
+ * it (toggles it in `multiple` mode); Escape closes without changing the
+ * selection; typing characters jumps to the first matching option.
+ *
+ * The element is form-associated (ElementInternals): the selected values are
+ * submitted under `name`, the selection resets to the initially selected
+ * options on form reset, and `required` reports valueMissing while nothing is
+ * selected.
+ *
+ * @slot - `kds-option` and `kds-option-group` elements
+ *
+ * @fires {CustomEvent<{value: string, values: string[]}>} kds-select-change - Fired when the user changes the selection
+ */
+@customElement('kds-select')
+export class KdsSelect extends LitElement {
+  static formAssociated = true;
+
+  static override styles = css`
+    :host {
+      display: block;
+      font-family: var(--kds-font-family, 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif);
+      box-sizing: border-box;
+    }
+
+    :host([slot$="-dropdown"]) {
+      display: flex;
+      align-self: stretch;
+    }
+
+    *,
+    *::before,
+    *::after {
+      box-sizing: inherit;
+    }
+
+    /* === FIELD (same layout as kds-input-field) === */
+    .field {
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+      width: 100%;
+    }
+
+    .label {
+      display: block;
+      margin: 0;
+      font-size: 14px;
+      line-height: 20px;
+      font-weight: 500;
+      color: var(--kds-input-label-color, #414651);
+    }
+
+    .field.disabled .label {
+      color: var(--kds-input-disabled-text, #A4ACBA);
+    }
+
+    /* === TRIGGER (role="combobox") === */
+    .trigger {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      width: 100%;
+      padding: 10px 14px;
+      background-color: var(--kds-input-bg, #FFFFFF);
+      border: 1px solid var(--kds-input-border, #D5D7DA);
+      border-radius: 8px;
+      box-shadow: 0px 1px 2px 0px rgba(10, 13, 18, 0.05);
+      font-size: 16px;
+      line-height: 24px;
+      font-weight: 400;
+      color: #181D27;
+      cursor: pointer;
+      outline: none;
+      transition: border-color 0.15s ease, box-shadow 0.15s ease;
+    }
+
+    .trigger:focus-visible,
+    .trigger.open {
+      border-color: var(--kds-input-border-focused, #D6BBFB);
+      box-shadow: 0px 0px 0px 4px #F4EBFF, 0px 1px 2px 0px rgba(10, 13, 18, 0.05);
+    }
+
+    .field.destructive .trigger {
+      border-color: var(--kds-input-border-error, #FDA29B);
+    }
+
+    .field.destructive .trigger:focus-visible,
+    .field.destructive .trigger.open {
+      box-shadow: 0px 0px 0px 4px #FEF3F2, 0px 1px 2px 0px rgba(10, 13, 18, 0.05);
+    }
+
+    .field.disabled .trigger {
+      background-color: var(--kds-input-bg-disabled, #F9FAFB);
+      border-color: var(--kds-input-border, #D5D7DA);
+      box-shadow: none;
+      color: #A4ACBA;
+      cursor: not-allowed;
+    }
+
+    /* Inline trigger inside a kds-input-field dropdown slot: the field draws the box */
+    .field.inline {
+      gap: 0;
+    }
+
+    .field.inline .trigger {
+      flex: 1 0 auto;
+      width: auto;
+      padding: 10px 8px 10px 14px;
+      background: transparent;
+      border: none;
+      border-radius: 0;
+      box-shadow: none;
+    }
+
+    .field.inline .trigger:focus-visible {
+      box-shadow: none;
+    }
+
+    :host([slot="trailing-dropdown"]) .field.inline .trigger {
+      padding: 10px 14px 10px 12px;
+    }
+
+    .value {
+      flex: 1 0 0;
+      min-width: 0;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .field.inline .value {
+      flex: 0 0 auto;
+    }
+
+    .value.placeholder {
+      color: #717680;
+    }
+
+    .field.disabled .value.placeholder {
+      color: #A4ACBA;
+    }
+
+    .chevron {
+      display: block;
+      flex-shrink: 0;
+      width: 20px;
+      height: 20px;
+      color: #A4A7AE;
+      transition: transform 0.15s ease;
+    }
+
+    .trigger.open .chevron {
+      transform: rotate(180deg);
+    }
+
+    /* === LISTBOX POPUP === */
+    .listbox {
+      position: fixed;
+      top: 0;
+      left: 0;
+      z-index: var(--kds-select-z-index, 1000);
+      margin: 0;
+      padding: 4px 0;
+      max-height: var(--kds-select-listbox-max-height, 320px);
+      overflow-y: auto;
+      background-color: var(--kds-select-listbox-bg, #FFFFFF);
+      border: 1px solid var(--kds-select-listbox-border, #E9EAEB);
+      border-radius: 8px;
+      box-shadow: 0px 12px 16px -4px rgba(10, 13, 18, 0.08), 0px 4px 6px -2px rgba(10, 13, 18, 0.03);
+      outline: none;
+    }
+
+    .listbox[hidden] {
+      display: none;
+    }
+
+    .group-label {
+      padding: 8px 14px 4px;
+      font-size: 12px;
+      line-height: 18px;
+      font-weight: 600;
+      color: #717680;
+    }
+
+    .option {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      margin: 1px 6px;
+      padding: 10px 8px;
+      border-radius: 6px;
+      font-size: 16px;
+      line-height: 24px;
+      font-weight: 500;
+      color: #181D27;
+      cursor: pointer;
+      white-space: nowrap;
+    }
+
+    .option.active {
+      background-color: var(--kds-select-option-active-bg, #FAFAFA);
+    }
+
+    .option.disabled {
+      color: #A4ACBA;
+      cursor: not-allowed;
+    }
+
+    .option-text {
+      flex: 1 0 0;
+      overflow: hidden;
+      text-overflow: ellipsis;
+    }
+
+    .check {
+      display: block;
+      flex-shrink: 0;
+      width: 20px;
+      height: 20px;
+      color: var(--kds-color-brand-600, #7F56D9);
+      visibility: hidden;
+    }
+
+    .option.selected .check {
+      visibility: visible;
+    }
+
+    /* === HINT === */
+    .hint {
+      margin: 0;
+      font-size: 14px;
+      line-height: 20px;
+      font-weight: 400;
+      color: var(--kds-input-hint-color, #535862);
+    }
+
+    .field.destructive .hint {
+      color: var(--kds-input-error-color, #D92D20);
+    }
+
+    .field.disabled .hint {
+      color: #A4ACBA;
+    }
+
+    @media (prefers-reduced-motion: reduce) {
+      .trigger,
+      .chevron {
+        transition: none;
+      }
+    }
+  `;
+
+  /** Label text shown above the trigger. Empty = no label. */
+  @property({ type: String })
+  label = '';
+
+  /** Helper/hint text shown below. In destructive state, rendered as error message. */
+  @property({ type: String })
+  hint = '';
+
+  /** Text shown while nothing is selected. */
+  @property({ type: String })
+  placeholder = '';
+
+  /** Value of the selected option ('' when none); the first selected value in `multiple` mode. */
+  @property({ type: String })
+  value = '';
+
+  /** Values of all selected options. Property only. */
+  @property({ attribute: false })
+  values: string[] = [];
+
+  /**
+   * Allow selecting several options
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  multiple = false;
+
+  /** HTML name attribute for form participation. */
+  @property({ type: String, reflect: true })
+  name = '';
+
+  /**
+   * Error/destructive state
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  destructive = false;
+
+  /**
+   * Disabled state. Prevents interaction.
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  disabled = false;
+
+  /**
+   * Whether an option must be selected
+   * @default false
+   */
+  @property({ type: Boolean })
+  required = false;
+
+  /**
+   * Whether the listbox is open
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  open = false;
+
+  /** ARIA label (when there is no visible label, e.g. inside a kds-input-field slot). */
+  @property({ type: String, attribute: 'aria-label' })
+  override ariaLabel: string | null = null;
+
+  /** Index of the option with visual focus (aria-activedescendant). */
+  @state()
+  private _activeIndex = -1;
+
+  @state()
+  private _position: { top: number; left: number; minWidth: number } | null = null;
+
+  /** Set when an ancestor `<fieldset>` is disabled. */
+  @state()
+  private _formDisabled = false;
+
+  @query('.trigger')
+  private _trigger?: HTMLElement;
+
+  @query('.listbox')
+  private _listbox?: HTMLElement;
+
+  private _internals: ElementInternals;
+
+  /** Selection restored on form reset — captured on first render. */
+  private _defaultValues: string[] = [];
+
+  private _typeaheadBuffer = '';
+  private _typeaheadTimer?: ReturnType<typeof setTimeout>;
+
+  /** Re-renders when options are added, removed or edited. */
+  private _optionObserver = new MutationObserver(() => this.requestUpdate());
+
+  constructor() {
+    super();
+    this._internals = this.attachInternals();
+  }
+
+  /** The form this element is associated with, if any. */
+  get form(): HTMLFormElement | null {
+    return this._internals.form;
+  }
+
+  private get _isDisabled(): boolean {
+    return this.disabled || this._formDisabled;
+  }
+
+  /** Compact trigger when slotted into a kds-input-field dropdown slot. */
+  private get _isInline(): boolean {
+    return this.slot === 'leading-dropdown' || this.slot === 'trailing-dropdown';
+  }
+
+  override connectedCallback() {
+    super.connectedCallback();
+    this._optionObserver.observe(this, {
+      childList: true,
+      subtree: true,
+      characterData: true,
+      attributes: true,
+      attributeFilter: ['value', 'label', 'disabled'],
+    });
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this._optionObserver.disconnect();
+    this._removeOpenListeners();
+    clearTimeout(this._typeaheadTimer);
+  }
+
+  override willUpdate(changed: PropertyValues<this>) {
+    if (!this.hasUpdated && !this.values.length) {
+      // Markup-driven selects start from the `value` attribute or `selected` options
+      this.values = this.value
+        ? [this.value]
+        : this._getItems().filter((item) => item.option.selected).map((item) => item.value);
+    } else if (changed.has('value') && !changed.has('values')) {
+      this.values = this.value ? [this.value] : [];
+    }
+
+    if (!this.multiple && this.values.length > 1) {
+      this.values = this.values.slice(0, 1);
+    }
+    this.value = this.values[0] ?? '';
+  }
+
+  override firstUpdated() {
+    this._defaultValues = [...this.values];
+  }
+
+  override updated(changed: PropertyValues<this>) {
+    if (changed.has('values') || changed.has('name')) {
+      this._updateFormValue();
+    }
+
+    if (changed.has('values') || changed.has('required')) {
+      if (this.required && !this.values.length) {
+        this._internals.setValidity({ valueMissing: true }, 'Please select an item in the list.', this._trigger);
+      } else {
+        this._internals.setValidity({});
+      }
+    }
+
+    if (changed.has('open')) {
+      if (this.open) {
+        this._addOpenListeners();
+        this._updatePosition();
+      } else {
+        this._removeOpenListeners();
+        this._position = null;
+      }
+    }
+
+    // Keep the active option visible while navigating a long list
+    if (this.open && this._activeIndex >= 0) {
+      this.renderRoot
+        .querySelector(`#option-${this._activeIndex}`)
+        ?.scrollIntoView({ block: 'nearest' });
+    }
+  }
+
+  /** Called by the owning form on reset. */
+  formResetCallback() {
+    this.values = [...this._defaultValues];
+    this.open = false;
+  }
+
+  /** Called by the browser when restoring state (back/forward cache, autofill). */
+  formStateRestoreCallback(state: string | File | FormData | null) {
+    if (typeof state === 'string') {
+      this.values = state ? state.split('\n') : [];
+    }
+  }
+
+  /** Called when an ancestor `<fieldset>` toggles its disabled state. */
+  formDisabledCallback(disabled: boolean) {
+    this._formDisabled = disabled;
+    if (disabled) this.open = false;
+  }
+
+  /** Programmatically focus the trigger. */
+  override focus(options?: FocusOptions) {
+    this._trigger?.focus(options);
+  }
+
+  /** Programmatically blur the trigger. */
+  override blur() {
+    this._trigger?.blur();
+  }
+
+  private _updateFormValue() {
+    const state = this.values.join('\n');
+
+    if (!this.multiple || !this.name) {
+      this._internals.setFormValue(this.values[0] ?? null, state);
+      return;
+    }
+
+    // Multiple values are submitted as repeated entries, like a native <select multiple>
+    const data = new FormData();
+    this.values.forEach((value) => data.append(this.name, value));
+    this._internals.setFormValue(data, state);
+  }
+
+  private _getItems(): SelectItem[] {
+    return Array.from(this.querySelectorAll('kds-option')).map((option) => {
+      const group = option.closest('kds-option-group');
+      const text = option.textContent?.trim() ?? '';
+
+      return {
+        option,
+        group,
+        value: option.value || text,
+        text,
+        label: option.label || text,
+        disabled: option.disabled || !!group?.disabled,
+      };
+    });
+  }
+
+  private _show(activeIndex: number) {
+    if (this._isDisabled) return;
+    this._activeIndex = activeIndex;
+    this.open = true;
+  }
+
+  private _hide() {
+    this.open = false;
+    this._activeIndex = -1;
+  }
+
+  /** Index of the first selected enabled option, otherwise the first enabled one. */
+  private _initialActiveIndex(items: SelectItem[]): number {
+    const selected = items.findIndex((item) => !item.disabled && this.values.includes(item.value));
+    return selected >= 0 ? selected : this._nextEnabled(items, -1, 1);
+  }
+
+  /** Next enabled option from `from` in direction `step`; stays put at either end. */
+  private _nextEnabled(items: SelectItem[], from: number, step: 1 | -1): number {
+    for (let index = from + step; index >= 0 && index < items.length; index += step) {
+      if (!items[index].disabled) return index;
+    }
+    return from;
+  }
+
+  private _selectIndex(index: number) {
+    const item = this._getItems()[index];
+    if (!item || item.disabled) return;
+
+    let values: string[];
+    if (this.multiple) {
+      const next = new Set(this.values);
+      if (next.has(item.value)) {
+        next.delete(item.value);
+      } else {
+        next.add(item.value);
+      }
+      // Keep the values in option order
+      values = this._getItems()
+        .map((candidate) => candidate.value)
+        .filter((value, i, all) => next.has(value) && all.indexOf(value) === i);
+    } else {
+      this._hide();
+      if (this.values[0] === item.value) return;
+      values = [item.value];
+    }
+
+    this.values = values;
+
+    this.dispatchEvent(
+      new CustomEvent('kds-select-change', {
+        detail: { value: values[0] ?? '', values },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  /**
+   * Typeahead: characters typed in quick succession search the option text;
+   * repeating one character cycles through the options starting with it.
+   */
+  private _findTypeaheadMatch(items: SelectItem[], key: string): number {
+    clearTimeout(this._typeaheadTimer);
+    this._typeaheadTimer = setTimeout(() => {
+      this._typeaheadBuffer = '';
+    }, TYPEAHEAD_TIMEOUT);
+
+    this._typeaheadBuffer += key.toLowerCase();
+    const buffer = this._typeaheadBuffer;
+    const repeated = buffer.split('').every((char) => char === buffer[0]);
+    const search = repeated ? buffer[0] : buffer;
+    const start = Math.max(this._activeIndex, 0) + (repeated ? 1 : 0);
+
+    for (let i = 0; i < items.length; i++) {
+      const index = (start + i) % items.length;
+      if (!items[index].disabled && items[index].text.toLowerCase().startsWith(search)) {
+        return index;
+      }
+    }
+    return -1;
+  }
+
+  private _handleTriggerClick() {
+    if (this.open) {
+      this._hide();
+    } else {
+      this._show(this._initialActiveIndex(this._getItems()));
+    }
+  }
+
+  private _handleKeyDown(event: KeyboardEvent) {
+    if (this._isDisabled) return;
+
+    const items = this._getItems();
+    const isTypeahead =
+      event.key.length === 1 &&
+      !event.ctrlKey && !event.metaKey && !event.altKey &&
+      (event.key !== ' ' || this._typeaheadBuffer !== '');
+
+    if (isTypeahead) {
+      event.preventDefault();
+      const match = this._findTypeaheadMatch(items, event.key);
+      if (!this.open) {
+        this._show(match >= 0 ? match : this._initialActiveIndex(items));
+      } else if (match >= 0) {
+        this._activeIndex = match;
+      }
+      return;
+    }
+
+    if (!this.open) {
+      switch (event.key) {
+        case 'ArrowDown':
+        case 'ArrowUp':
+        case 'Enter':
+        case ' ':
+          event.preventDefault();
+          this._show(this._initialActiveIndex(items));
+          break;
+        case 'Home':
+          event.preventDefault();
+          this._show(this._nextEnabled(items, -1, 1));
+          break;
+        case 'End':
+          event.preventDefault();
+          this._show(this._nextEnabled(items, items.length, -1));
+          break;
+      }
+      return;
+    }
+
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        this._activeIndex = this._nextEnabled(items, this._activeIndex, 1);
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        if (event.altKey) {
+          if (!this.multiple) this._selectIndex(this._activeIndex);
+          this._hide();
+        } else {
+          this._activeIndex = this._nextEnabled(items, this._activeIndex, -1);
+        }
+        break;
+      case 'Home':
+        event.preventDefault();
+        this._activeIndex = this._nextEnabled(items, -1, 1);
+        break;
+      case 'End':
+        event.preventDefault();
+        this._activeIndex = this._nextEnabled(items, items.length, -1);
+        break;
+      case 'PageDown':
+        event.preventDefault();
+        for (let i = 0; i < PAGE_SIZE; i++) {
+          this._activeIndex = this._nextEnabled(items, this._activeIndex, 1);
+        }
+        break;
+      case 'PageUp':
+        event.preventDefault();
+        for (let i = 0; i < PAGE_SIZE; i++) {
+          this._activeIndex = this._nextEnabled(items, this._activeIndex, -1);
+        }
+        break;
+      case 'Enter':
+      case ' ':
+        event.preventDefault();
+        this._selectIndex(this._activeIndex);
+        break;
+      case 'Escape':
+        event.preventDefault();
+        this._hide();
+        break;
+      case 'Tab':
+        // Focus moves on; a single select keeps the active option like a native select
+        if (!this.multiple) this._selectIndex(this._activeIndex);
+        this._hide();
+        break;
+    }
+  }
+
+  private _handleFocusOut() {
+    if (this.open) this._hide();
+  }
+
+  private _handleOptionClick(index: number) {
+    this._activeIndex = index;
+    this._selectIndex(index);
+  }
+
+  private _handleListboxMouseDown(event: MouseEvent) {
+    // Keep focus on the trigger so aria-activedescendant stays meaningful
+    event.preventDefault();
+  }
+
+  private _handleDocumentPointerDown = (event: PointerEvent) => {
+    if (!event.composedPath().includes(this)) {
+      this._hide();
+    }
+  };
+
+  private _handleViewportChange = () => {
+    this._updatePosition();
+  };
+
+  private _addOpenListeners() {
+    document.addEventListener('pointerdown', this._handleDocumentPointerDown);
+    window.addEventListener('scroll', this._handleViewportChange, true);
+    window.addEventListener('resize', this._handleViewportChange);
+  }
+
+  private _removeOpenListeners() {
+    document.removeEventListener('pointerdown', this._handleDocumentPointerDown);
+    window.removeEventListener('scroll', this._handleViewportChange, true);
+    window.removeEventListener('resize', this._handleViewportChange);
+  }
+
+  /**
+   * Positions the fixed listbox under the trigger, or above it when there is
+   * more room there. Fixed positioning keeps it visible inside the
+   * `overflow: hidden` box of a kds-input-field.
+   */
+  private _updatePosition() {
+    // Inline selects open under the whole kds-input-field box, not just the compact trigger
+    const trigger = this._isInline
+      ? this.assignedSlot?.closest<HTMLElement>('.input-wrapper') ?? this._trigger
+      : this._trigger;
+    const listbox = this._listbox;
+    if (!trigger || !listbox) return;
+
+    const t = trigger.getBoundingClientRect();
+    const l = listbox.getBoundingClientRect();
+    const viewportWidth = document.documentElement.clientWidth || window.innerWidth;
+    const viewportHeight = document.documentElement.clientHeight || window.innerHeight;
+
+    const roomBelow = viewportHeight - t.bottom - LISTBOX_OFFSET - VIEWPORT_PADDING;
+    const roomAbove = t.top - LISTBOX_OFFSET - VIEWPORT_PADDING;
+    const top = roomBelow < l.height && roomAbove > roomBelow
+      ? t.top - l.height - LISTBOX_OFFSET
+      : t.bottom + LISTBOX_OFFSET;
+
+    const width = Math.max(l.width, t.width);
+    const left = Math.max(VIEWPORT_PADDING, Math.min(t.left, viewportWidth - width - VIEWPORT_PADDING));
+
+    this._position = { top, left, minWidth: t.width };
+  }
+
+  override render() {
+    const items = this._getItems();
+    const selected = items.filter((item) => this.values.includes(item.value));
+    const display = selected.map((item) => item.label).join(', ');
+    const inline = this._isInline;
+
+    const fieldClasses = {
+      field: true,
+      inline,
+      destructive: this.destructive,
+      disabled: this._isDisabled,
+    };
+
+    const triggerClasses = {
+      trigger: true,
+      open: this.open,
+    };
+
+    const activeId = this.open && this._activeIndex >= 0 ? `option-${this._activeIndex}` : undefined;
+
+    return html`
+      <div class=${classMap(fieldClasses)} part="field">
+        ${this.label && !inline
+          ? html`<span class="label" id="label" part="label">${this.label}</span>`
+          : nothing}
+
+        <div
+          class=${classMap(triggerClasses)}
+          part="trigger"
+          role="combobox"
+          tabindex=${this._isDisabled ? '-1' : '0'}
+          aria-haspopup="listbox"
+          aria-expanded=${this.open ? 'true' : 'false'}
+          aria-controls="listbox"
+          aria-activedescendant=${activeId ?? nothing}
+          aria-labelledby=${this.label && !inline ? 'label' : nothing}
+          aria-label=${(!this.label || inline) && this.ariaLabel ? this.ariaLabel : nothing}
+          aria-describedby=${this.hint && !inline ? 'hint' : nothing}
+          aria-invalid=${this.destructive ? 'true' : nothing}
+          aria-required=${this.required ? 'true' : nothing}
+          aria-disabled=${this._isDisabled ? 'true' : nothing}
+          @click=${this._isDisabled ? null : this._handleTriggerClick}
+          @keydown=${this._handleKeyDown}
+          @focusout=${this._handleFocusOut}
+        >
+          <span class=${classMap({ value: true, placeholder: !display })} part="value">
+            ${display || this.placeholder}
+          </span>
+          <svg class="chevron" viewBox="0 0 20 20" fill="none" xmlns="http://www.w3.org/2000/svg" aria-hidden="true">
+            <path d="M5 7.5l5 5 5-5" stroke="currentColor" stroke-width="1.667" stroke-linecap="round" stroke-linejoin="round"/>
+          </svg>
+        </div>
+
+        ${this._renderListbox(items)}
+
+        ${this.hint && !inline
+          ? html`<p class="hint" id="hint" part="hint">${this.hint}</p>`
+          : nothing}
+      </div>
+      <slot hidden></slot>
+    `;
+  }
+
+  private _renderListbox(items: SelectItem[]) {
+    // Consecutive options of the same group are rendered under one heading
+    const sections: { group: KdsOptionGroup | null; indexes: number[] }[] = [];
+    items.forEach((item, index) => {
+      const last = sections[sections.length - 1];
+      if (last && last.group === item.group) {
+        last.indexes.push(index);
+      } else {
+        sections.push({ group: item.group, indexes: [index] });
+      }
+    });
+
+    const position = this._position
+      ? {
+          top: `${this._position.top}px`,
+          left: `${this._position.left}px`,
+          minWidth: `${this._position.minWidth}px`,
+        }
+      : { visibility: 'hidden' };
+
+    return html`
+      <div
+        class="listbox"
+        part="listbox"
+        id="listbox"
+        role="listbox"
+        aria-label=${this.label || this.ariaLabel || nothing}
+        aria-multiselectable=${this.multiple ? 'true' : nothing}
+        style=${styleMap(position)}
+        ?hidden=${!this.open}
+        @mousedown=${this._handleListboxMouseDown}
+      >
+        ${sections.map(({ group, indexes }, sectionIndex) =>
+          group
+            ? html`<div role="group" aria-labelledby="group-${sectionIndex}">
+                <div class="group-label" id="group-${sectionIndex}" part="group-label">${group.label}</div>
+                ${indexes.map((index) => this._renderOption(items[index], index))}
+              </div>`
+            : indexes.map((index) => this._renderOption(items[index], index))
+        )}
+      </div>
+    `;
+  }
+
+  private _renderOption(item: SelectItem, index: number) {
+    const selected = this.values.includes(item.value);
+
+    const optionClasses = {
+      option: true,
+      active: index === this._activeIndex,
+      selected,
+      disabled: item.disabled,
+    };
+
+    return html`
+      <div
+        class=${classMap(optionClasses)}
+        part="option"
+        id="option-${index}"
+        role="option"
+        aria-selected=${selected ? 'true' : 'false'}
+        aria-disabled=${item.disabled ? 'true' : nothing}
+        @click=${() => this._handleOptionClick(index)}
+        @mousemove=${() => {
+          if (!item.disabled && this._activeIndex !== index) this._activeIndex = index;
+        }}
+      >
+        <span class="option-text">${item.text}</span>
+        <svg class="check" viewBox="0 0 20 20" fill="none" xmlns="http://www.w3.org/2000/svg" aria-hidden="true">
+          <path d="M16.667 5 7.5 14.167 3.333 10" stroke="currentColor" stroke-width="1.667" stroke-linecap="round" stroke-linejoin="round"/>
+        </svg>
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'kds-select': KdsSelect;
+    'kds-option': KdsOption;
+    'kds-option-group': KdsOptionGroup;
+  }
+}
@@ -0,0 +1,726 @@
+/**
+ * @package @kds/web-components
+ * @component kds-slider
+ * @description Slider component from Untitled UI design system
+ * @author Kilian Sala <kilian@kapsch.net>
+ * @source Figma: Untitled UI - FREE Figma UI kit v2.0
+ *
+ * ⚠️ STATUS: PENDING FIGMA DATA VALIDATION
+ * Track and thumb follow the Untitled UI slider; the value bubble is a static
+ * dark kds-tooltip.
+ * TODO markers indicate values that must be verified against actual Figma design.
+ */
+
+import { LitElement, html, css, nothing, PropertyValues } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import { styleMap } from 'lit/directives/style-map.js';
+import './kds-tooltip.js';
+
+export type SliderTooltip = 'auto' | 'always' | 'none';
+export type SliderThumb = 'start' | 'end';
+
+/** Detail of `kds-slider-input` and `kds-slider-change` */
+export interface SliderValueDetail {
+  value: number;
+  valueStart: number;
+  valueEnd: number;
+}
+
+/**
+ * Slider component built with LIT
+ *
+ * @example
+ * ```html
+ * <!-- Single value -->
+ * <kds-slider label="Volume" name="volume" value="40"></kds-slider>
+ *
+ * <!-- Range with step, marks and min/max labels -->
+ * <kds-slider
+ *   label="Alert threshold"
+ *   name="threshold"
+ *   range
+ *   min="0"
+ *   max="200"
+ *   step="10"
+ *   value-start="40"
+ *   value-end="160"
+ *   marks="[0, 50, 100, 150, 200]"
+ *   min-label="0 ms"
+ *   max-label="200 ms"
+ * ></kds-slider>
+ * ```
+ *
+ * Each thumb is a `role="slider"`: ArrowRight / ArrowUp and ArrowLeft /
+ * ArrowDown move it by `step` (Left/Right swapped in RTL), PageUp / PageDown
+ * by a tenth of the range, and Home / End to the lowest and highest allowed
+ * value. In range mode the thumbs can't cross. Pressing the track moves the
+ * nearest thumb there and drags it.
+ *
+ * The value bubble shows while a thumb is hovered, focused or dragged
+ * (`tooltip="always"` keeps it visible, `tooltip="none"` hides it). Set
+ * `valueFormatter` to format the bubble, mark labels and `aria-valuetext`.
+ *
+ * The element is form-associated (ElementInternals): the value is submitted
+ * under `name` (a range submits two entries, start then end) and restored on
+ * form reset.
+ *
+ * @fires {CustomEvent<{value: number, valueStart: number, valueEnd: number}>} kds-slider-input - Fired continuously while the user moves a thumb
+ * @fires {CustomEvent<{value: number, valueStart: number, valueEnd: number}>} kds-slider-change - Fired when the user commits a new value (key press or pointer release)
+ */
+@customElement('kds-slider')
+export class KdsSlider extends LitElement {
+  static formAssociated = true;
+
+  static override styles = css`
+    :host {
+      display: block;
+      font-family: var(--kds-font-family, 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif);
+    }
+
+    :host([hidden]) {
+      display: none;
+    }
+
+    .field {
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+    }
+
+    .label {
+      font-size: 14px;
+      line-height: 20px;
+      font-weight: 500;
+      color: var(--kds-slider-label-color, #414651);
+    }
+
+    /* Room for the thumb above and below the 8px track */
+    .control {
+      position: relative;
+      height: 24px;
+      margin: 0 12px;
+      touch-action: none;
+      cursor: pointer;
+    }
+
+    .track {
+      position: absolute;
+      top: 8px;
+      left: -12px;
+      right: -12px;
+      height: 8px;
+      border-radius: 9999px;
+      background-color: var(--kds-slider-track, var(--kds-color-gray-200, #E9EAEB));
+    }
+
+    .fill {
+      position: absolute;
+      top: 8px;
+      height: 8px;
+      border-radius: 9999px;
+      background-color: var(--kds-slider-fill, var(--kds-color-brand-600, #7F56D9));
+    }
+
+    /* TODO: Verify mark size and color against Figma */
+    .mark {
+      position: absolute;
+      top: 10px;
+      width: 4px;
+      height: 4px;
+      margin-inline-start: -2px;
+      border-radius: 50%;
+      background-color: var(--kds-slider-mark, #FFFFFF);
+      opacity: 0.8;
+      pointer-events: none;
+    }
+
+    .thumb {
+      position: absolute;
+      top: 0;
+      box-sizing: border-box;
+      width: 24px;
+      height: 24px;
+      margin-inline-start: -12px;
+      border: 2px solid var(--kds-slider-thumb-border, var(--kds-color-brand-600, #7F56D9));
+      border-radius: 50%;
+      background-color: var(--kds-slider-thumb-bg, #FFFFFF);
+      box-shadow: 0px 4px 8px -2px rgba(10, 13, 18, 0.1), 0px 2px 4px -2px rgba(10, 13, 18, 0.06);
+      cursor: grab;
+      outline: none;
+    }
+
+    .thumb:focus-visible {
+      box-shadow: var(--kds-shadow-xs-focused-primary, 0 0 0 4px #F4EBFF, 0 1px 2px 0 rgba(10, 13, 18, 0.05));
+    }
+
+    .thumb.dragging {
+      cursor: grabbing;
+    }
+
+    .value-tooltip {
+      position: absolute;
+      bottom: calc(100% + 4px);
+      left: 50%;
+      transform: translateX(-50%);
+      visibility: hidden;
+      pointer-events: none;
+      white-space: nowrap;
+    }
+
+    .thumb:hover .value-tooltip,
+    .thumb:focus-visible .value-tooltip,
+    .thumb.dragging .value-tooltip,
+    .field.tooltip-always .value-tooltip {
+      visibility: visible;
+    }
+
+    .scale {
+      position: relative;
+      height: 18px;
+      margin: 0 12px;
+    }
+
+    .scale-label {
+      position: absolute;
+      top: 0;
+      transform: translateX(-50%);
+      font-size: 12px;
+      line-height: 18px;
+      color: var(--kds-slider-scale-color, #535862);
+      white-space: nowrap;
+    }
+
+    :host(:dir(rtl)) .scale-label {
+      transform: translateX(50%);
+    }
+
+    .limits {
+      display: flex;
+      justify-content: space-between;
+      font-size: 14px;
+      line-height: 20px;
+      font-weight: 500;
+      color: var(--kds-slider-limit-color, #414651);
+    }
+
+    /* Disabled state */
+    .field.disabled .control {
+      cursor: not-allowed;
+    }
+
+    .field.disabled .fill,
+    .field.disabled .thumb {
+      border-color: var(--kds-slider-disabled, #D5D7DA);
+    }
+
+    .field.disabled .fill {
+      background-color: var(--kds-slider-disabled, #D5D7DA);
+    }
+
+    .field.disabled .thumb {
+      cursor: not-allowed;
+      box-shadow: none;
+    }
+  `;
+
+  /**
+   * Visible label above the slider; also names the thumbs
+   */
+  @property({ type: String })
+  label = '';
+
+  /**
+   * Name used when submitting the value with a form
+   */
+  @property({ type: String, reflect: true })
+  name = '';
+
+  /**
+   * Value in single mode
+   * @default 0
+   */
+  @property({ type: Number })
+  value = 0;
+
+  /**
+   * Dual-thumb mode, using `valueStart` and `valueEnd`
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  range = false;
+
+  /**
+   * Lower value in range mode
+   * @default 0
+   */
+  @property({ type: Number, attribute: 'value-start' })
+  valueStart = 0;
+
+  /**
+   * Upper value in range mode
+   * @default 100
+   */
+  @property({ type: Number, attribute: 'value-end' })
+  valueEnd = 100;
+
+  /**
+   * Lowest value
+   * @default 0
+   */
+  @property({ type: Number })
+  min = 0;
+
+  /**
+   * Highest value
+   * @default 100
+   */
+  @property({ type: Number })
+  max = 100;
+
+  /**
+   * Granularity values snap to
+   * @default 1
+   */
+  @property({ type: Number })
+  step = 1;
+
+  /**
+   * Values marked on the track and labelled below it, e.g. `marks="[0, 50, 100]"`
+   */
+  @property({ type: Array })
+  marks: number[] = [];
+
+  /**
+   * Label shown under the start of the track
+   */
+  @property({ type: String, attribute: 'min-label' })
+  minLabel = '';
+
+  /**
+   * Label shown under the end of the track
+   */
+  @property({ type: String, attribute: 'max-label' })
+  maxLabel = '';
+
+  /**
+   * When the value bubble is shown
+   * @default 'auto'
+   */
+  @property({ type: String, reflect: true })
+  tooltip: SliderTooltip = 'auto';
+
+  /**
+   * Accessible name suffix of the lower thumb in range mode
+   * @default 'Minimum'
+   */
+  @property({ type: String, attribute: 'start-label' })
+  startLabel = 'Minimum';
+
+  /**
+   * Accessible name suffix of the upper thumb in range mode
+   * @default 'Maximum'
+   */
+  @property({ type: String, attribute: 'end-label' })
+  endLabel = 'Maximum';
+
+  /**
+   * Whether the slider is disabled
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  disabled = false;
+
+  /**
+   * ARIA label (when there is no visible label)
+   */
+  @property({ type: String, attribute: 'aria-label' })
+  override ariaLabel: string | null = null;
+
+  /**
+   * Formats values for the bubble, mark labels and `aria-valuetext`
+   */
+  @property({ attribute: false })
+  valueFormatter: (value: number) => string = (value) => String(value);
+
+  /** Set when an ancestor `<fieldset>` is disabled. */
+  @state()
+  private _formDisabled = false;
+
+  /** Thumb being dragged with the pointer. */
+  @state()
+  private _dragging: SliderThumb | null = null;
+
+  private _internals: ElementInternals;
+
+  /** Values restored on form reset — captured on first render. */
+  private _defaults = { value: 0, valueStart: 0, valueEnd: 100 };
+
+  /** Values when the current drag started, to fire change only if they moved. */
+  private _dragStartValues = '';
+
+  constructor() {
+    super();
+    this._internals = this.attachInternals();
+  }
+
+  /** The form this element is associated with, if any. */
+  get form(): HTMLFormElement | null {
+    return this._internals.form;
+  }
+
+  private get _isDisabled(): boolean {
+    return this.disabled || this._formDisabled;
+  }
+
+  override willUpdate(changed: PropertyValues<this>) {
+    if (changed.has('value') || changed.has('min') || changed.has('max') || changed.has('step')) {
+      this.value = this._snap(this.value);
+    }
+
+    if (changed.has('valueStart') || changed.has('valueEnd') || changed.has('min') || changed.has('max') || changed.has('step')) {
+      const start = this._snap(this.valueStart);
+      const end = this._snap(this.valueEnd);
+      this.valueStart = Math.min(start, end);
+      this.valueEnd = Math.max(start, end);
+    }
+  }
+
+  override firstUpdated() {
+    this._defaults = { value: this.value, valueStart: this.valueStart, valueEnd: this.valueEnd };
+  }
+
+  override updated(changed: PropertyValues<this>) {
+    if (changed.has('value') || changed.has('valueStart') || changed.has('valueEnd') || changed.has('range') || changed.has('name')) {
+      this._updateFormValue();
+    }
+  }
+
+  /** Called by the owning form on reset. */
+  formResetCallback() {
+    this.value = this._defaults.value;
+    this.valueStart = this._defaults.valueStart;
+    this.valueEnd = this._defaults.valueEnd;
+  }
+
+  /** Called by the browser when restoring state (back/forward cache, autofill). */
+  formStateRestoreCallback(state: string | File | FormData | null) {
+    if (typeof state !== 'string') return;
+
+    const [first, second] = state.split(',').map(Number);
+    if (this.range && second !== undefined) {
+      this.valueStart = first;
+      this.valueEnd = second;
+    } else if (!Number.isNaN(first)) {
+      this.value = first;
+    }
+  }
+
+  /** Called when an ancestor `<fieldset>` toggles its disabled state. */
+  formDisabledCallback(disabled: boolean) {
+    this._formDisabled = disabled;
+  }
+
+  /** Programmatically focus the (first) thumb. */
+  override focus(options?: FocusOptions) {
+    this.renderRoot.querySelector<HTMLElement>('.thumb')?.focus(options);
+  }
+
+  private _updateFormValue() {
+    if (!this.range) {
+      this._internals.setFormValue(String(this.value), String(this.value));
+      return;
+    }
+
+    // A range is submitted as two entries under the same name, start then end
+    const state = `${this.valueStart},${this.valueEnd}`;
+    const data = new FormData();
+    if (this.name) {
+      data.append(this.name, String(this.valueStart));
+      data.append(this.name, String(this.valueEnd));
+    }
+    this._internals.setFormValue(data, state);
+  }
+
+  /** Clamps to [min, max] and rounds to the nearest step from `min`. */
+  private _snap(value: number): number {
+    const min = this.min;
+    const max = Math.max(this.max, min);
+    if (Number.isNaN(value)) return min;
+
+    const step = this.step > 0 ? this.step : 1;
+    const snapped = min + Math.round((value - min) / step) * step;
+
+    // Avoid float artefacts such as 0.30000000000000004
+    const decimals = (String(step).split('.')[1] ?? '').length;
+    return Math.min(Math.max(Number(snapped.toFixed(decimals)), min), max);
+  }
+
+  private _percent(value: number): number {
+    const span = this.max - this.min;
+    return span > 0 ? ((value - this.min) / span) * 100 : 0;
+  }
+
+  private _getThumbValue(thumb: SliderThumb): number {
+    if (!this.range) return this.value;
+    return thumb === 'start' ? this.valueStart : this.valueEnd;
+  }
+
+  /** Sets a thumb's value, keeping range thumbs from crossing. Returns whether it changed. */
+  private _setThumbValue(thumb: SliderThumb, value: number): boolean {
+    let next = this._snap(value);
+
+    if (!this.range) {
+      if (next === this.value) return false;
+      this.value = next;
+      return true;
+    }
+
+    if (thumb === 'start') {
+      next = Math.min(next, this.valueEnd);
+      if (next === this.valueStart) return false;
+      this.valueStart = next;
+    } else {
+      next = Math.max(next, this.valueStart);
+      if (next === this.valueEnd) return false;
+      this.valueEnd = next;
+    }
+    return true;
+  }
+
+  private _dispatch(type: 'kds-slider-input' | 'kds-slider-change') {
+    this.dispatchEvent(
+      new CustomEvent<SliderValueDetail>(type, {
+        detail: { value: this.value, valueStart: this.valueStart, valueEnd: this.valueEnd },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  private _isRtl(): boolean {
+    return getComputedStyle(this).direction === 'rtl';
+  }
+
+  private _handleThumbKeyDown(event: KeyboardEvent, thumb: SliderThumb) {
+    if (this._isDisabled) return;
+
+    const current = this._getThumbValue(thumb);
+    const step = this.step > 0 ? this.step : 1;
+    const bigStep = Math.max(step, (this.max - this.min) / 10);
+    const rtl = this._isRtl();
+
+    let next: number;
+    switch (event.key) {
+      case 'ArrowUp':
+        next = current + step;
+        break;
+      case 'ArrowDown':
+        next = current - step;
+        break;
+      case 'ArrowRight':
+        next = rtl ? current - step : current + step;
+        break;
+      case 'ArrowLeft':
+        next = rtl ? current + step : current - step;
+        break;
+      case 'PageUp':
+        next = current + bigStep;
+        break;
+      case 'PageDown':
+        next = current - bigStep;
+        break;
+      case 'Home':
+        next = this.min;
+        break;
+      case 'End':
+        next = this.max;
+        break;
+      default:
+        return;
+    }
+
+    event.preventDefault();
+    if (this._setThumbValue(thumb, next)) {
+      this._dispatch('kds-slider-input');
+      this._dispatch('kds-slider-change');
+    }
+  }
+
+  /** Value under a pointer position along the track. */
+  private _valueFromPointer(event: PointerEvent): number {
+    const control = this.renderRoot.querySelector<HTMLElement>('.control');
+    if (!control) return this.min;
+
+    const rect = control.getBoundingClientRect();
+    let ratio = rect.width > 0 ? (event.clientX - rect.left) / rect.width : 0;
+    if (this._isRtl()) ratio = 1 - ratio;
+    ratio = Math.min(Math.max(ratio, 0), 1);
+    return this.min + ratio * (this.max - this.min);
+  }
+
+  private _handlePointerDown(event: PointerEvent) {
+    if (this._isDisabled || event.button !== 0) return;
+
+    const value = this._valueFromPointer(event);
+    let thumb: SliderThumb = 'end';
+    if (this.range) {
+      // Nearest thumb; when both sit on the same value, the direction of travel decides
+      const toStart = Math.abs(value - this.valueStart);
+      const toEnd = Math.abs(value - this.valueEnd);
+      thumb = toStart < toEnd || (toStart === toEnd && value < this.valueStart) ? 'start' : 'end';
+    }
+
+    event.preventDefault();
+    (event.currentTarget as HTMLElement).setPointerCapture(event.pointerId);
+    this._dragging = thumb;
+    this._dragStartValues = `${this.value},${this.valueStart},${this.valueEnd}`;
+    this.renderRoot.querySelector<HTMLElement>(`.thumb[data-thumb="${this._thumbKey(thumb)}"]`)?.focus();
+
+    if (this._setThumbValue(thumb, value)) {
+      this._dispatch('kds-slider-input');
+    }
+  }
+
+  private _handlePointerMove(event: PointerEvent) {
+    if (!this._dragging) return;
+
+    if (this._setThumbValue(this._dragging, this._valueFromPointer(event))) {
+      this._dispatch('kds-slider-input');
+    }
+  }
+
+  private _handlePointerUp() {
+    if (!this._dragging) return;
+
+    this._dragging = null;
+    if (this._dragStartValues !== `${this.value},${this.valueStart},${this.valueEnd}`) {
+      this._dispatch('kds-slider-change');
+    }
+  }
+
+  /** Single mode renders one thumb, keyed like the range end thumb. */
+  private _thumbKey(thumb: SliderThumb): SliderThumb {
+    return this.range ? thumb : 'end';
+  }
+
+  private _renderThumb(thumb: SliderThumb) {
+    const value = this._getThumbValue(thumb);
+    const text = this.valueFormatter(value);
+    const disabled = this._isDisabled;
+
+    // In range mode each thumb is bounded by the other (WAI-ARIA multi-thumb slider)
+    const valueMin = this.range && thumb === 'end' ? this.valueStart : this.min;
+    const valueMax = this.range && thumb === 'start' ? this.valueEnd : this.max;
+
+    const name = this.label || this.ariaLabel || '';
+    const thumbName = this.range
+      ? [name, thumb === 'start' ? this.startLabel : this.endLabel].filter(Boolean).join(' ')
+      : this.ariaLabel;
+
+    const classes = {
+      thumb: true,
+      dragging: this._dragging === thumb,
+    };
+
+    return html`
+      <div
+        class=${classMap(classes)}
+        part="thumb"
+        data-thumb=${this._thumbKey(thumb)}
+        role="slider"
+        tabindex=${disabled ? nothing : '0'}
+        aria-labelledby=${!thumbName && this.label ? 'label' : nothing}
+        aria-label=${thumbName || nothing}
+        aria-valuemin=${valueMin}
+        aria-valuemax=${valueMax}
+        aria-valuenow=${value}
+        aria-valuetext=${text}
+        aria-orientation="horizontal"
+        aria-disabled=${disabled ? 'true' : nothing}
+        style=${styleMap({ insetInlineStart: `${this._percent(value)}%` })}
+        @keydown=${(event: KeyboardEvent) => this._handleThumbKeyDown(event, thumb)}
+      >
+        ${this.tooltip !== 'none'
+          ? html`
+              <kds-tooltip
+                class="value-tooltip"
+                part="tooltip"
+                theme="dark"
+                arrow="bottom-center"
+                text=${text}
+                aria-hidden="true"
+              ></kds-tooltip>
+            `
+          : nothing}
+      </div>
+    `;
+  }
+
+  override render() {
+    const disabled = this._isDisabled;
+    const start = this.range ? this._percent(this.valueStart) : 0;
+    const end = this._percent(this.range ? this.valueEnd : this.value);
+
+    const classes = {
+      field: true,
+      disabled,
+      'tooltip-always': this.tooltip === 'always',
+    };
+
+    const marks = this.marks.filter((mark) => mark >= this.min && mark <= this.max);
+
+    return html`
+      <div class=${classMap(classes)}>
+        ${this.label ? html`<span class="label" id="label" part="label">${this.label}</span>` : nothing}
+        <div
+          class="control"
+          part="control"
+          @pointerdown=${this._handlePointerDown}
+          @pointermove=${this._handlePointerMove}
+          @pointerup=${this._handlePointerUp}
+          @pointercancel=${this._handlePointerUp}
+        >
+          <div class="track" part="track"></div>
+          <div
+            class="fill"
+            part="fill"
+            style=${styleMap({ insetInlineStart: `${start}%`, width: `${end - start}%` })}
+          ></div>
+          ${marks.map(
+            (mark) => html`<span class="mark" style=${styleMap({ insetInlineStart: `${this._percent(mark)}%` })}></span>`
+          )}
+          ${this.range ? this._renderThumb('start') : nothing}
+          ${this._renderThumb('end')}
+        </div>
+        ${marks.length
+          ? html`
+              <div class="scale" part="scale" aria-hidden="true">
+                ${marks.map(
+                  (mark) => html`
+                    <span class="scale-label" style=${styleMap({ insetInlineStart: `${this._percent(mark)}%` })}>
+                      ${this.valueFormatter(mark)}
+                    </span>
+                  `
+                )}
+              </div>
+            `
+          : nothing}
+        ${this.minLabel || this.maxLabel
+          ? html`
+              <div class="limits" part="limits" aria-hidden="true">
+                <span>${this.minLabel}</span>
+                <span>${this.maxLabel}</span>
+              </div>
+            `
+          : nothing}
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'kds-slider': KdsSlider;
+  }
+}
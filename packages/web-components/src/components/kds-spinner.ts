@@ -0,0 +1,151 @@
+/**
+ * @package @kds/web-components
+ * @component kds-spinner
+ * @description Loading spinner component from Untitled UI design system
+ * @author Kilian Sala <kilian@kapsch.net>
+ * @source Figma: Untitled UI - FREE Figma UI kit v2.0
+ *
+ * ⚠️ STATUS: PENDING FIGMA DATA VALIDATION
+ * Also drawn by the kds-button loading state and kds-table; colors come from
+ * the brand and error scales in @kds/tokens.
+ * TODO markers indicate values that must be verified against actual Figma design.
+ */
+
+import { LitElement, html, css } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import type { ButtonSize } from './kds-button.js';
+import type { ProgressVariant } from './kds-progress-bar.js';
+
+// Same size variants as Button, so a spinner can stand in for one
+export type SpinnerSize = ButtonSize;
+
+/**
+ * Spinner component built with LIT
+ *
+ * @example
+ * ```html
+ * <kds-spinner></kds-spinner>
+ *
+ * <!-- Sized like a large button, with a specific label -->
+ * <kds-spinner size="lg" label="Loading invoices"></kds-spinner>
+ *
+ * <!-- Inherit the surrounding text color -->
+ * <kds-spinner style="--kds-spinner-color: currentColor"></kds-spinner>
+ * ```
+ *
+ * The spinner is an indeterminate `role="progressbar"` named by `label`.
+ * With reduced motion it keeps turning, but slowly, so it still signals that
+ * work is in progress.
+ */
+@customElement('kds-spinner')
+export class KdsSpinner extends LitElement {
+  static override styles = css`
+    :host {
+      display: inline-flex;
+      vertical-align: middle;
+    }
+
+    :host([hidden]) {
+      display: none;
+    }
+
+    /* TODO: Verify sizes against the Figma loading indicator */
+    .spinner {
+      display: block;
+      color: var(--kds-spinner-color, var(--kds-color-brand-600, #7F56D9));
+      animation: kds-spinner-spin 0.8s linear infinite;
+    }
+
+    .spinner.size-sm {
+      width: 16px;
+      height: 16px;
+    }
+
+    .spinner.size-md {
+      width: 20px;
+      height: 20px;
+    }
+
+    .spinner.size-lg {
+      width: 24px;
+      height: 24px;
+    }
+
+    .spinner.size-xl {
+      width: 32px;
+      height: 32px;
+    }
+
+    .spinner.error {
+      color: var(--kds-spinner-color-error, var(--kds-color-error-600, #D92D20));
+    }
+
+    svg {
+      display: block;
+      width: 100%;
+      height: 100%;
+    }
+
+    .track {
+      stroke: var(--kds-spinner-track, currentColor);
+      opacity: 0.3;
+    }
+
+    @keyframes kds-spinner-spin {
+      to {
+        transform: rotate(360deg);
+      }
+    }
+
+    @media (prefers-reduced-motion: reduce) {
+      .spinner {
+        animation-duration: 2s;
+      }
+    }
+  `;
+
+  /**
+   * Spinner size, matching the button sizes
+   * @default 'md'
+   */
+  @property({ type: String, reflect: true })
+  size: SpinnerSize = 'md';
+
+  /**
+   * Brand (default) or error color
+   * @default 'brand'
+   */
+  @property({ type: String, reflect: true })
+  variant: ProgressVariant = 'brand';
+
+  /**
+   * Accessible name announced for the spinner
+   * @default 'Loading'
+   */
+  @property({ type: String })
+  label = 'Loading';
+
+  override render() {
+    const classes = {
+      spinner: true,
+      [`size-${this.size}`]: true,
+      error: this.variant === 'error',
+    };
+
+    return html`
+      <span class=${classMap(classes)} part="spinner" role="progressbar" aria-label=${this.label}>
+        <svg viewBox="0 0 20 20" fill="none" aria-hidden="true">
+          <circle class="track" cx="10" cy="10" r="8" stroke-width="2.5"></circle>
+          <path d="M18 10a8 8 0 0 0-8-8" stroke="currentColor" stroke-width="2.5" stroke-linecap="round"></path>
+        </svg>
+      </span>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'kds-spinner': KdsSpinner;
+  }
+}
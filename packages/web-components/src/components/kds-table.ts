@@ -0,0 +1,648 @@
+/**
+ * @package @kds/web-components
+ * @component kds-table
+ * @description Table component from Untitled UI design system
+ * @author Kilian Sala <kilian@kapsch.net>
+ * @source Figma: Untitled UI - FREE Figma UI kit v2.0
+ *
+ * ⚠️ STATUS: PENDING FIGMA DATA VALIDATION
+ * Header, cell and border styles follow the Untitled UI table; row selection
+ * uses kds-checkbox and the loading state uses kds-spinner.
+ * TODO markers indicate values that must be verified against actual Figma design.
+ */
+
+import { LitElement, html, css, nothing, PropertyValues } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import { styleMap } from 'lit/directives/style-map.js';
+import { repeat } from 'lit/directives/repeat.js';
+import './kds-checkbox.js';
+import './kds-spinner.js';
+
+export type TableRow = Record<string, unknown>;
+export type TableColumnAlign = 'start' | 'center' | 'end';
+export type TableSortDirection = 'ascending' | 'descending';
+
+/** A column of `kds-table` */
+export interface TableColumn {
+  /** Property of the row shown in the column; also the sort key */
+  key: string;
+  /** Header text */
+  label: string;
+  /** Whether the header sorts the rows */
+  sortable?: boolean;
+  /** Horizontal alignment of the header and cells, e.g. `end` for amounts */
+  align?: TableColumnAlign;
+  /** CSS width of the column, e.g. `160px` or `20%` */
+  width?: string;
+  /** Renders the cell; receives the raw value and the row. Plain text by default. */
+  format?: (value: unknown, row: TableRow) => unknown;
+  /** Compares two cell values for sorting; numbers, dates and natural text order by default */
+  compare?: (a: unknown, b: unknown) => number;
+}
+
+/** Detail of `kds-table-sort` */
+export interface TableSortDetail {
+  sortKey: string;
+  sortDirection: TableSortDirection;
+}
+
+/** Detail of `kds-table-selection-change` */
+export interface TableSelectionDetail {
+  selectedKeys: string[];
+}
+
+/** Rows rendered above and below the visible ones while virtualized. */
+const OVERSCAN = 6;
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+  return collator.compare(String(a), String(b));
+}
+
+const SORT_ICONS = {
+  ascending: 'M8 12.667V3.333m0 0L3.333 8M8 3.333 12.667 8',
+  descending: 'M8 3.333v9.334m0 0L12.667 8M8 12.667 3.333 8',
+  none: 'M4.667 10 8 13.333 11.333 10M4.667 6 8 2.667 11.333 6',
+};
+
+/**
+ * Table component built with LIT
+ *
+ * @example
+ * ```html
+ * <kds-table aria-label="Transactions" selectable sticky-header virtualize></kds-table>
+ *
+ * <script type="module">
+ *   const table = document.querySelector('kds-table');
+ *   table.columns = [
+ *     { key: 'plate', label: 'Plate', sortable: true },
+ *     { key: 'gantry', label: 'Gantry' },
+ *     { key: 'passedAt', label: 'Time', sortable: true, format: (value) => new Date(value).toLocaleString() },
+ *     { key: 'amount', label: 'Amount', sortable: true, align: 'end', format: (value) => `€${value.toFixed(2)}` },
+ *   ];
+ *   table.rows = transactions; // [{ id: 'tx-1', plate: 'W-12345A', ... }, ...]
+ * </script>
+ *
+ * <!-- Empty state content -->
+ * <kds-table aria-label="Transactions">
+ *   <span slot="empty">No transactions in this period</span>
+ * </kds-table>
+ * ```
+ *
+ * Columns and rows are set as properties (or as JSON attributes for static
+ * data). Each row needs a unique `row-key` value, which identifies it in
+ * `selectedKeys`.
+ *
+ * Sortable headers are buttons and the sorted column has `aria-sort`. Rows
+ * are sorted in place unless `manual-sort` is set, in which case the table
+ * only reports `kds-table-sort` and expects sorted `rows` back (e.g. from the
+ * server).
+ *
+ * With `virtualize`, only the rows in view are rendered, so tens of thousands
+ * of rows stay fast; every row then has the same `row-height` and cells
+ * truncate. The table scrolls within its own height: size the host or set
+ * `--kds-table-max-height`. Rows keep their position for assistive technology
+ * through `aria-rowcount` / `aria-rowindex`.
+ *
+ * @fires {CustomEvent<{sortKey: string, sortDirection: 'ascending' | 'descending'}>} kds-table-sort - Fired when the user sorts by a column
+ * @fires {CustomEvent<{selectedKeys: string[]}>} kds-table-selection-change - Fired when the user selects or deselects rows
+ *
+ * @slot empty - Content shown when there are no rows (defaults to `empty-text`)
+ */
+@customElement('kds-table')
+export class KdsTable extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      min-height: 0;
+      font-family: var(--kds-font-family, 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif);
+    }
+
+    :host([hidden]) {
+      display: none;
+    }
+
+    /* TODO: Verify container, header and cell styles against the Figma table */
+    .table {
+      position: relative;
+      display: flex;
+      flex-direction: column;
+      flex: 1 1 auto;
+      min-height: 0;
+      overflow: hidden;
+      border: 1px solid var(--kds-table-border, var(--kds-color-gray-200, #E9EAEB));
+      border-radius: var(--kds-table-radius, 12px);
+      background-color: var(--kds-table-bg, var(--kds-color-white, #FFFFFF));
+      box-shadow: 0px 1px 2px rgba(10, 13, 18, 0.05);
+    }
+
+    .scroller {
+      flex: 1 1 auto;
+      min-height: 0;
+      max-height: var(--kds-table-max-height, none);
+      overflow: auto;
+    }
+
+    .scroller:focus-visible {
+      outline: 2px solid var(--kds-color-brand-600, #7F56D9);
+      outline-offset: -2px;
+    }
+
+    table {
+      width: 100%;
+      border-collapse: separate;
+      border-spacing: 0;
+    }
+
+    /* Column widths must not change as rows scroll in and out */
+    .virtual table {
+      table-layout: fixed;
+    }
+
+    th {
+      padding: 12px 24px;
+      box-sizing: border-box;
+      border-bottom: 1px solid var(--kds-table-border, var(--kds-color-gray-200, #E9EAEB));
+      background-color: var(--kds-table-header-bg, var(--kds-color-gray-50, #FAFAFA));
+      color: var(--kds-table-header-text, var(--kds-color-gray-600, #535862));
+      font-size: 12px;
+      line-height: 18px;
+      font-weight: 600;
+      text-align: start;
+      white-space: nowrap;
+    }
+
+    .sticky thead th {
+      position: sticky;
+      top: 0;
+      z-index: 1;
+    }
+
+    td {
+      padding: 16px 24px;
+      box-sizing: border-box;
+      border-bottom: 1px solid var(--kds-table-border, var(--kds-color-gray-200, #E9EAEB));
+      color: var(--kds-table-text, var(--kds-color-gray-600, #535862));
+      font-size: 14px;
+      line-height: 20px;
+      vertical-align: middle;
+    }
+
+    tbody tr:last-child td {
+      border-bottom: none;
+    }
+
+    .virtual td {
+      height: var(--kds-table-row-height, 52px);
+      padding-block: 0;
+      overflow: hidden;
+      white-space: nowrap;
+      text-overflow: ellipsis;
+    }
+
+    tr.row:hover td,
+    tr.selected td {
+      background-color: var(--kds-table-row-hover, var(--kds-color-gray-50, #FAFAFA));
+    }
+
+    .align-center {
+      text-align: center;
+    }
+
+    .align-end {
+      text-align: end;
+    }
+
+    .select {
+      width: 44px;
+      padding-inline-end: 0;
+    }
+
+    .select kds-checkbox {
+      vertical-align: middle;
+    }
+
+    .sort {
+      display: inline-flex;
+      align-items: center;
+      gap: 4px;
+      margin: 0;
+      padding: 0;
+      border: none;
+      border-radius: 4px;
+      background: none;
+      color: inherit;
+      font: inherit;
+      cursor: pointer;
+    }
+
+    .sort:hover {
+      color: var(--kds-table-header-text-hover, var(--kds-color-gray-700, #414651));
+    }
+
+    .sort:focus-visible {
+      outline: 2px solid var(--kds-color-brand-600, #7F56D9);
+      outline-offset: 2px;
+    }
+
+    .sort svg {
+      flex-shrink: 0;
+      width: 16px;
+      height: 16px;
+    }
+
+    .sort svg.unsorted {
+      opacity: 0.5;
+    }
+
+    .spacer td {
+      padding: 0;
+      border: none;
+      height: auto;
+    }
+
+    .state td {
+      padding: 48px 24px;
+      text-align: center;
+    }
+
+    .overlay {
+      position: absolute;
+      inset: 0;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      background-color: var(--kds-table-overlay, rgba(255, 255, 255, 0.6));
+    }
+  `;
+
+  /**
+   * Column definitions
+   */
+  @property({ type: Array })
+  columns: TableColumn[] = [];
+
+  /**
+   * Rows, one object per row keyed by column `key`
+   */
+  @property({ type: Array })
+  rows: TableRow[] = [];
+
+  /**
+   * Row property with a unique value per row; identifies rows in `selectedKeys`
+   * @default 'id'
+   */
+  @property({ type: String, attribute: 'row-key' })
+  rowKey = 'id';
+
+  /**
+   * Key of the sorted column; empty for the original row order
+   */
+  @property({ type: String, attribute: 'sort-key' })
+  sortKey = '';
+
+  /**
+   * Direction of the sorted column
+   * @default 'ascending'
+   */
+  @property({ type: String, attribute: 'sort-direction' })
+  sortDirection: TableSortDirection = 'ascending';
+
+  /**
+   * Only report sorting through `kds-table-sort`; `rows` are expected in sorted order
+   * @default false
+   */
+  @property({ type: Boolean, attribute: 'manual-sort' })
+  manualSort = false;
+
+  /**
+   * Show a checkbox per row and a select-all checkbox in the header
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  selectable = false;
+
+  /**
+   * Row keys of the selected rows
+   */
+  @property({ type: Array, attribute: 'selected-keys' })
+  selectedKeys: string[] = [];
+
+  /**
+   * Whether the rows are loading; shows a spinner and sets `aria-busy`
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  loading = false;
+
+  /**
+   * Accessible name of the loading spinner
+   * @default 'Loading'
+   */
+  @property({ type: String, attribute: 'loading-label' })
+  loadingLabel = 'Loading';
+
+  /**
+   * Text shown when there are no rows, unless the `empty` slot is used
+   * @default 'No results'
+   */
+  @property({ type: String, attribute: 'empty-text' })
+  emptyText = 'No results';
+
+  /**
+   * Keep the header visible while the rows scroll
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true, attribute: 'sticky-header' })
+  stickyHeader = false;
+
+  /**
+   * Render only the rows in view; requires a bounded height
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  virtualize = false;
+
+  /**
+   * Row height in pixels while virtualized
+   * @default 52
+   */
+  @property({ type: Number, attribute: 'row-height' })
+  rowHeight = 52;
+
+  /**
+   * ARIA label of the table
+   */
+  @property({ type: String, attribute: 'aria-label' })
+  override ariaLabel: string | null = null;
+
+  @state()
+  private _scrollTop = 0;
+
+  @state()
+  private _viewportHeight = 0;
+
+  /** Rows in display order — recomputed when the rows or the sort change. */
+  private _sortedRows: TableRow[] = [];
+
+  private _selected = new Set<string>();
+
+  /** Tracks the visible height, which decides how many rows to render. */
+  private _resizeObserver?: ResizeObserver;
+
+  override connectedCallback() {
+    super.connectedCallback();
+    this._resizeObserver = new ResizeObserver((entries) => {
+      this._viewportHeight = entries[0]?.contentRect.height ?? 0;
+    });
+    this._resizeObserver.observe(this);
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this._resizeObserver?.disconnect();
+    this._resizeObserver = undefined;
+  }
+
+  override willUpdate(changed: PropertyValues<this>) {
+    if (changed.has('rows') || changed.has('columns') || changed.has('sortKey') ||
+        changed.has('sortDirection') || changed.has('manualSort')) {
+      this._sortedRows = this._sortRows();
+    }
+
+    if (changed.has('selectedKeys')) {
+      this._selected = new Set(this.selectedKeys);
+    }
+  }
+
+  private _sortRows(): TableRow[] {
+    const column = this.columns.find((col) => col.key === this.sortKey);
+    if (this.manualSort || !column) return this.rows;
+
+    const key = column.key;
+    const compare = column.compare ?? compareValues;
+    const direction = this.sortDirection === 'descending' ? -1 : 1;
+
+    // Empty cells go last in either direction
+    return [...this.rows].sort((a, b) => {
+      const emptyA = isEmpty(a[key]);
+      const emptyB = isEmpty(b[key]);
+      if (emptyA || emptyB) return Number(emptyA) - Number(emptyB);
+      return compare(a[key], b[key]) * direction;
+    });
+  }
+
+  private _keyOf(row: TableRow): string {
+    return String(row[this.rowKey]);
+  }
+
+  /** Names a row's checkbox after its first cell, e.g. "Select W-12345A". */
+  private _rowLabel(row: TableRow): string {
+    const first = this.columns[0];
+    const text = first ? row[first.key] : undefined;
+    return `Select ${isEmpty(text) ? this._keyOf(row) : String(text)}`;
+  }
+
+  private _sortBy(key: string) {
+    this.sortDirection =
+      this.sortKey === key && this.sortDirection === 'ascending' ? 'descending' : 'ascending';
+    this.sortKey = key;
+
+    this.dispatchEvent(
+      new CustomEvent<TableSortDetail>('kds-table-sort', {
+        detail: { sortKey: this.sortKey, sortDirection: this.sortDirection },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  private _handleSelect(event: CustomEvent<{ checked: boolean }>) {
+    // The checkbox events are an implementation detail; the table reports kds-table-selection-change
+    event.stopPropagation();
+    const key = (event.target as HTMLElement).dataset.key;
+    const { checked } = event.detail;
+
+    if (key === undefined) {
+      this.selectedKeys = checked ? this.rows.map((row) => this._keyOf(row)) : [];
+    } else if (checked) {
+      this.selectedKeys = [...this.selectedKeys, key];
+    } else {
+      this.selectedKeys = this.selectedKeys.filter((selected) => selected !== key);
+    }
+
+    this.dispatchEvent(
+      new CustomEvent<TableSelectionDetail>('kds-table-selection-change', {
+        detail: { selectedKeys: this.selectedKeys },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  private _handleScroll(event: Event) {
+    if (!this.virtualize) return;
+    this._scrollTop = (event.currentTarget as HTMLElement).scrollTop;
+  }
+
+  /** Index range of the rows to render: all of them, or the ones in view while virtualized. */
+  private _getWindow(count: number): [number, number] {
+    if (!this.virtualize) return [0, count];
+
+    const rowHeight = this.rowHeight > 0 ? this.rowHeight : 52;
+    const start = Math.max(Math.floor(this._scrollTop / rowHeight) - OVERSCAN, 0);
+    const end = Math.min(Math.ceil((this._scrollTop + this._viewportHeight) / rowHeight) + OVERSCAN, count);
+    return [start, Math.max(end, start)];
+  }
+
+  private _renderHeaderCell(column: TableColumn) {
+    const sorted = column.key === this.sortKey;
+    const align = column.align ?? 'start';
+
+    return html`
+      <th
+        scope="col"
+        class=${`align-${align}`}
+        style=${styleMap({ width: column.width })}
+        aria-sort=${sorted ? this.sortDirection : nothing}
+      >
+        ${column.sortable
+          ? html`
+              <button type="button" class="sort" @click=${() => this._sortBy(column.key)}>
+                ${column.label}
+                <svg class=${sorted ? 'sorted' : 'unsorted'} viewBox="0 0 16 16" fill="none" xmlns="http://www.w3.org/2000/svg" aria-hidden="true">
+                  <path d=${SORT_ICONS[sorted ? this.sortDirection : 'none']} stroke="currentColor" stroke-width="1.333" stroke-linecap="round" stroke-linejoin="round"/>
+                </svg>
+              </button>
+            `
+          : column.label}
+      </th>
+    `;
+  }
+
+  private _renderHeader() {
+    const total = this.rows.length;
+    const selectedCount = total ? this.rows.filter((row) => this._selected.has(this._keyOf(row))).length : 0;
+
+    return html`
+      <tr aria-rowindex=${this.virtualize ? 1 : nothing}>
+        ${this.selectable
+          ? html`
+              <th scope="col" class="select">
+                <kds-checkbox
+                  aria-label="Select all rows"
+                  .checked=${total > 0 && selectedCount === total}
+                  .indeterminate=${selectedCount > 0 && selectedCount < total}
+                  ?disabled=${total === 0}
+                ></kds-checkbox>
+              </th>
+            `
+          : nothing}
+        ${this.columns.map((column) => this._renderHeaderCell(column))}
+      </tr>
+    `;
+  }
+
+  private _renderRow(row: TableRow, index: number) {
+    const key = this._keyOf(row);
+    const selected = this.selectable && this._selected.has(key);
+
+    return html`
+      <tr class=${classMap({ row: true, selected })} aria-rowindex=${this.virtualize ? index + 2 : nothing}>
+        ${this.selectable
+          ? html`
+              <td class="select">
+                <kds-checkbox data-key=${key} aria-label=${this._rowLabel(row)} .checked=${selected}></kds-checkbox>
+              </td>
+            `
+          : nothing}
+        ${this.columns.map((column) => {
+          const value = row[column.key];
+          return html`
+            <td class=${`align-${column.align ?? 'start'}`}>
+              ${column.format ? column.format(value, row) : isEmpty(value) ? nothing : String(value)}
+            </td>
+          `;
+        })}
+      </tr>
+    `;
+  }
+
+  override render() {
+    const rows = this._sortedRows;
+    const columnCount = this.columns.length + (this.selectable ? 1 : 0);
+    const [start, end] = this._getWindow(rows.length);
+    const rowHeight = this.rowHeight > 0 ? this.rowHeight : 52;
+
+    const classes = {
+      table: true,
+      sticky: this.stickyHeader,
+      virtual: this.virtualize,
+    };
+
+    const spacer = (height: number) =>
+      height > 0
+        ? html`<tr class="spacer" aria-hidden="true"><td colspan=${columnCount} style=${styleMap({ height: `${height}px` })}></td></tr>`
+        : nothing;
+
+    return html`
+      <div
+        class=${classMap(classes)}
+        part="table"
+        style=${styleMap({ '--kds-table-row-height': this.virtualize ? `${rowHeight}px` : undefined })}
+      >
+        <div
+          class="scroller"
+          part="scroller"
+          role="region"
+          aria-label=${this.ariaLabel || nothing}
+          tabindex="0"
+          @scroll=${this._handleScroll}
+        >
+          <table
+            aria-label=${this.ariaLabel || nothing}
+            aria-rowcount=${this.virtualize ? rows.length + 1 : nothing}
+            aria-busy=${this.loading ? 'true' : 'false'}
+            @kds-checkbox-change=${this._handleSelect}
+          >
+            <thead>${this._renderHeader()}</thead>
+            <tbody>
+              ${spacer(start * rowHeight)}
+              ${repeat(rows.slice(start, end), (row) => this._keyOf(row), (row, i) => this._renderRow(row, start + i))}
+              ${spacer((rows.length - end) * rowHeight)}
+              ${rows.length === 0
+                ? html`
+                    <tr class="state">
+                      <td colspan=${columnCount || 1}>
+                        ${this.loading
+                          ? html`<kds-spinner label=${this.loadingLabel}></kds-spinner>`
+                          : html`<slot name="empty">${this.emptyText}</slot>`}
+                      </td>
+                    </tr>
+                  `
+                : nothing}
+            </tbody>
+          </table>
+        </div>
+        ${this.loading && rows.length > 0
+          ? html`<div class="overlay" part="overlay"><kds-spinner label=${this.loadingLabel}></kds-spinner></div>`
+          : nothing}
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'kds-table': KdsTable;
+  }
+}
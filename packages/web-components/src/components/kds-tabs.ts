@@ -0,0 +1,474 @@
+/**
+ * @package @kds/web-components
+ * @component kds-tabs, kds-tab, kds-tab-panel
+ * @description Tabs component from Untitled UI design system
+ * @author Kilian Sala <kilian@kapsch.net>
+ * @source Figma: Untitled UI - FREE Figma UI kit v2.0
+ *
+ * ⚠️ STATUS: PENDING FIGMA DATA VALIDATION
+ * Styles follow the Untitled UI "Underline" tabs type.
+ * TODO markers indicate values that must be verified against actual Figma design.
+ */
+
+import { LitElement, html, css, nothing, PropertyValues } from 'lit';
+import { customElement, property, query } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+
+export type TabsOrientation = 'horizontal' | 'vertical';
+export type TabsActivation = 'automatic' | 'manual';
+
+/**
+ * Tab label inside a `kds-tabs`
+ *
+ * Its content (text, icons, badges) is rendered inside the tab button of the
+ * parent `kds-tabs`.
+ *
+ * @slot - Tab label
+ */
+@customElement('kds-tab')
+export class KdsTab extends LitElement {
+  static override styles = css`
+    :host {
+      display: inline-flex;
+      align-items: center;
+      gap: 8px;
+    }
+  `;
+
+  /**
+   * Value identifying the tab in `kds-tabs`; defaults to its index
+   */
+  @property({ type: String })
+  value = '';
+
+  /**
+   * Whether the tab can't be selected
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  disabled = false;
+
+  override updated(changed: PropertyValues<this>) {
+    if (changed.has('value') || changed.has('disabled')) {
+      notifyTabs(this);
+    }
+  }
+
+  override render() {
+    return html`<slot></slot>`;
+  }
+}
+
+/**
+ * Panel of a `kds-tabs`; the nth panel belongs to the nth `kds-tab`
+ *
+ * @slot - Panel content
+ */
+@customElement('kds-tab-panel')
+export class KdsTabPanel extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+    }
+  `;
+
+  override firstUpdated() {
+    notifyTabs(this);
+  }
+
+  override render() {
+    return html`<slot></slot>`;
+  }
+}
+
+/**
+ * Tells the parent kds-tabs to re-read its tabs and panels. Also reaches it
+ * from items nested in wrapper elements, which its own observer doesn't see.
+ */
+function notifyTabs(item: KdsTab | KdsTabPanel) {
+  item.dispatchEvent(new Event('kds-tab-update', { bubbles: true }));
+}
+
+/**
+ * Tabs component built with LIT
+ *
+ * Tab list with associated panels (WAI-ARIA tabs pattern). Tabs are declared
+ * with `kds-tab` and panels with `kds-tab-panel`, paired by order.
+ *
+ * @example
+ * ```html
+ * <kds-tabs aria-label="Component documentation" value="variants">
+ *   <kds-tab value="overview">Overview</kds-tab>
+ *   <kds-tab value="variants">Variants</kds-tab>
+ *   <kds-tab value="api" disabled>API</kds-tab>
+ *
+ *   <kds-tab-panel>Overview content</kds-tab-panel>
+ *   <kds-tab-panel>Variants content</kds-tab-panel>
+ *   <kds-tab-panel>API content</kds-tab-panel>
+ * </kds-tabs>
+ *
+ * <!-- Vertical, manual activation, lazily stamped panel -->
+ * <kds-tabs orientation="vertical" activation="manual">
+ *   <kds-tab>Profile</kds-tab>
+ *   <kds-tab>Billing</kds-tab>
+ *   <kds-tab-panel>...</kds-tab-panel>
+ *   <kds-tab-panel>
+ *     <template><billing-history></billing-history></template>
+ *   </kds-tab-panel>
+ * </kds-tabs>
+ * ```
+ *
+ * The tab list is a single tab stop on the selected tab; Tab moves on to the
+ * selected panel. Arrow keys (Left/Right when horizontal, swapped in RTL;
+ * Up/Down when vertical), Home and End move focus between enabled tabs and
+ * wrap. With `activation="automatic"` moving focus also selects the tab; with
+ * `"manual"` Enter or Space selects the focused tab.
+ *
+ * Panels render lazily: a panel's content is only rendered once its tab has
+ * been selected, and stays rendered afterwards. A `<template>` directly inside
+ * a panel is stamped into it the first time the panel is shown.
+ *
+ * @slot - `kds-tab` and `kds-tab-panel` elements
+ *
+ * @fires {CustomEvent<{value: string}>} kds-tabs-change - Fired when the user selects a tab
+ */
+@customElement('kds-tabs')
+export class KdsTabs extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      font-family: var(--kds-font-family, 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif);
+    }
+
+    .tabs {
+      display: flex;
+      flex-direction: column;
+    }
+
+    :host([orientation="vertical"]) .tabs {
+      flex-direction: row;
+    }
+
+    /* TODO: Verify gaps and border color against Figma */
+    .tablist {
+      display: flex;
+      gap: var(--kds-tabs-gap, 12px);
+      border-bottom: 1px solid var(--kds-tabs-border, #E9EAEB);
+    }
+
+    :host([orientation="vertical"]) .tablist {
+      flex-direction: column;
+      flex-shrink: 0;
+      gap: var(--kds-tabs-gap-vertical, 4px);
+      border-bottom: none;
+      border-left: 1px solid var(--kds-tabs-border, #E9EAEB);
+    }
+
+    .tab {
+      display: inline-flex;
+      align-items: center;
+      margin: 0 0 -1px;
+      padding: 0 4px 12px;
+      border: none;
+      border-bottom: 2px solid transparent;
+      border-radius: 0;
+      background: none;
+      color: var(--kds-tabs-text, #717680);
+      font-family: inherit;
+      font-size: 14px;
+      font-weight: 600;
+      line-height: 20px;
+      white-space: nowrap;
+      cursor: pointer;
+      transition: color 0.15s ease, border-color 0.15s ease;
+    }
+
+    :host([orientation="vertical"]) .tab {
+      margin: 0 0 0 -1px;
+      padding: 8px 12px;
+      border-bottom: none;
+      border-left: 2px solid transparent;
+      text-align: start;
+    }
+
+    .tab:hover:not(.disabled),
+    .tab.selected {
+      color: var(--kds-tabs-text-selected, var(--kds-color-brand-700, #6941C6));
+    }
+
+    .tab.selected {
+      border-color: var(--kds-tabs-indicator, var(--kds-color-brand-600, #7F56D9));
+    }
+
+    .tab.disabled {
+      color: var(--kds-tabs-text-disabled, #A4ACBA);
+      cursor: not-allowed;
+    }
+
+    .tab:focus-visible,
+    .panel:focus-visible {
+      outline: 2px solid var(--kds-focus-ring, #7F56D9);
+      outline-offset: 2px;
+      border-radius: 4px;
+    }
+
+    .panels {
+      flex: 1;
+      min-width: 0;
+      padding-top: var(--kds-tabs-panel-gap, 24px);
+    }
+
+    :host([orientation="vertical"]) .panels {
+      padding-top: 0;
+      padding-left: var(--kds-tabs-panel-gap, 24px);
+    }
+
+    .panel[hidden] {
+      display: none;
+    }
+
+    @media (prefers-reduced-motion: reduce) {
+      .tab {
+        transition: none;
+      }
+    }
+  `;
+
+  /**
+   * Value of the selected tab (a tab's `value`, or its index when it has none)
+   */
+  @property({ type: String })
+  value = '';
+
+  /**
+   * Layout of the tab list
+   * @default 'horizontal'
+   */
+  @property({ type: String, reflect: true })
+  orientation: TabsOrientation = 'horizontal';
+
+  /**
+   * Whether moving focus with the arrow keys also selects the tab
+   * @default 'automatic'
+   */
+  @property({ type: String, reflect: true })
+  activation: TabsActivation = 'automatic';
+
+  /**
+   * ARIA label for the tab list
+   */
+  @property({ type: String, attribute: 'aria-label' })
+  override ariaLabel: string | null = null;
+
+  @query('.tablist')
+  private _tablist?: HTMLElement;
+
+  /** Values of the tabs that have been selected; their panels stay rendered. */
+  private _visited = new Set<string>();
+
+  /**
+   * Re-renders when direct children are added or removed. Panel content is not
+   * observed; tabs and panels report their own changes with `kds-tab-update`.
+   */
+  private _itemObserver = new MutationObserver(() => this.requestUpdate());
+
+  private _handleItemUpdate = () => this.requestUpdate();
+
+  override connectedCallback() {
+    super.connectedCallback();
+    this._itemObserver.observe(this, { childList: true });
+    this.addEventListener('kds-tab-update', this._handleItemUpdate);
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this._itemObserver.disconnect();
+    this.removeEventListener('kds-tab-update', this._handleItemUpdate);
+  }
+
+  override willUpdate() {
+    // Fall back to the first enabled tab when the value matches no tab
+    const tabs = this._getTabs();
+    if (tabs.length && !tabs.some((tab, index) => this._tabValue(tab, index) === this.value)) {
+      const index = tabs.findIndex((tab) => !tab.disabled);
+      if (index >= 0) this.value = this._tabValue(tabs[index], index);
+    }
+    this._visited.add(this.value);
+  }
+
+  override updated() {
+    const tabs = this._getTabs();
+    const panels = this._getPanels();
+
+    // Assign tabs and panels to their rendered slots
+    tabs.forEach((tab, index) => this._assignSlot(tab, `tab-${index}`));
+    panels.forEach((panel, index) => this._assignSlot(panel, `panel-${index}`));
+
+    const selectedIndex = tabs.findIndex((tab, index) => this._tabValue(tab, index) === this.value);
+    const template = panels[selectedIndex]?.querySelector(':scope > template');
+    if (template instanceof HTMLTemplateElement) {
+      template.replaceWith(template.content.cloneNode(true));
+    }
+  }
+
+  /** Tabs of this element, skipping those of nested kds-tabs. */
+  private _getTabs(): KdsTab[] {
+    return Array.from(this.querySelectorAll('kds-tab')).filter((tab) => tab.closest('kds-tabs') === this);
+  }
+
+  private _getPanels(): KdsTabPanel[] {
+    return Array.from(this.querySelectorAll('kds-tab-panel')).filter((panel) => panel.closest('kds-tabs') === this);
+  }
+
+  /**
+   * Slots the child of this element that contains `item`; that is the item
+   * itself unless it is wrapped (e.g. by a framework wrapper element).
+   */
+  private _assignSlot(item: Element, slot: string) {
+    let child = item;
+    while (child.parentElement && child.parentElement !== this) {
+      child = child.parentElement;
+    }
+    if (child.slot !== slot) child.slot = slot;
+  }
+
+  private _tabValue(tab: KdsTab, index: number): string {
+    return tab.value || String(index);
+  }
+
+  private _getTabButtons(): HTMLButtonElement[] {
+    return Array.from(this._tablist?.querySelectorAll<HTMLButtonElement>('[role="tab"]') ?? []);
+  }
+
+  private _selectTab(index: number) {
+    const tab = this._getTabs()[index];
+    if (!tab || tab.disabled) return;
+
+    const value = this._tabValue(tab, index);
+    if (value === this.value) return;
+    this.value = value;
+
+    this.dispatchEvent(
+      new CustomEvent('kds-tabs-change', {
+        detail: { value },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  private _handleKeyDown(event: KeyboardEvent) {
+    const buttons = this._getTabButtons();
+    const index = buttons.indexOf(event.target as HTMLButtonElement);
+    if (index < 0) return;
+
+    const tabs = this._getTabs();
+    const enabled = buttons.map((_, i) => i).filter((i) => !tabs[i]?.disabled);
+    const position = enabled.indexOf(index);
+    const vertical = this.orientation === 'vertical';
+    const step = getComputedStyle(this).direction === 'rtl' ? -1 : 1;
+    let next: number;
+
+    switch (event.key) {
+      case 'ArrowRight':
+        if (vertical) return;
+        next = position + step;
+        break;
+      case 'ArrowLeft':
+        if (vertical) return;
+        next = position - step;
+        break;
+      case 'ArrowDown':
+        if (!vertical) return;
+        next = position + 1;
+        break;
+      case 'ArrowUp':
+        if (!vertical) return;
+        next = position - 1;
+        break;
+      case 'Home':
+        next = 0;
+        break;
+      case 'End':
+        next = enabled.length - 1;
+        break;
+      default:
+        return;
+    }
+
+    event.preventDefault();
+    if (!enabled.length) return;
+
+    // A focused disabled tab starts from the first enabled one
+    const target = enabled[position < 0 ? 0 : (next + enabled.length) % enabled.length];
+    if (this.activation === 'automatic') {
+      this._selectTab(target);
+    }
+    buttons[target].focus();
+  }
+
+  override render() {
+    const tabs = this._getTabs();
+    const panels = this._getPanels();
+    const values = tabs.map((tab, index) => this._tabValue(tab, index));
+
+    return html`
+      <div class="tabs">
+        <div
+          class="tablist"
+          part="tablist"
+          role="tablist"
+          aria-label=${this.ariaLabel || nothing}
+          aria-orientation=${this.orientation}
+          @keydown=${this._handleKeyDown}
+        >
+          ${tabs.map((tab, index) => {
+            const selected = values[index] === this.value;
+            return html`
+              <button
+                class=${classMap({ tab: true, selected, disabled: tab.disabled })}
+                part="tab"
+                id="tab-${index}"
+                type="button"
+                role="tab"
+                aria-selected=${selected ? 'true' : 'false'}
+                aria-controls=${panels[index] ? `panel-${index}` : nothing}
+                aria-disabled=${tab.disabled ? 'true' : nothing}
+                tabindex=${selected ? 0 : -1}
+                @click=${() => this._selectTab(index)}
+              >
+                <slot name="tab-${index}"></slot>
+              </button>
+            `;
+          })}
+        </div>
+
+        <div class="panels">
+          ${panels.map(
+            (_, index) => html`
+              <div
+                class="panel"
+                part="panel"
+                id="panel-${index}"
+                role="tabpanel"
+                aria-labelledby="tab-${index}"
+                tabindex="0"
+                ?hidden=${values[index] !== this.value}
+              >
+                ${this._visited.has(values[index]) ? html`<slot name="panel-${index}"></slot>` : nothing}
+              </div>
+            `
+          )}
+        </div>
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'kds-tabs': KdsTabs;
+    'kds-tab': KdsTab;
+    'kds-tab-panel': KdsTabPanel;
+  }
+}
@@ -0,0 +1,640 @@
+/**
+ * @package @kds/web-components
+ * @component kds-textarea
+ * @description Textarea input field component from Untitled UI design system
+ * @author Kilian Sala <kilian@kapsch.net>
+ * @source Figma: Untitled UI - FREE Figma UI kit v2.0
+ *
+ * ⚠️ STATUS: PENDING FIGMA DATA VALIDATION
+ * Label, hint, border and focus styling follow kds-input-field (same custom
+ * properties). TODO markers indicate values that must be verified against the
+ * Figma "Textarea input field" component.
+ */
+
+import { LitElement, html, css, nothing, PropertyValues } from 'lit';
+import { customElement, property, query, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import { ifDefined } from 'lit/directives/if-defined.js';
+import { live } from 'lit/directives/live.js';
+import type { InputFieldValidator } from './kds-input-field.js';
+
+/**
+ * Custom validator for kds-textarea (same contract as kds-input-field validators)
+ */
+export type TextareaValidator = InputFieldValidator;
+
+/** Validity flags mirrored from the native textarea onto the host. */
+const VALIDITY_FLAGS = ['valueMissing', 'tooLong', 'tooShort'] as const;
+
+/** Line height of the text, in px */
+const LINE_HEIGHT = 24;
+
+/** Top + bottom padding of the textarea, in px */
+const VERTICAL_PADDING = 24;
+
+/** The counter is announced once the remaining characters drop to this share of maxlength */
+const COUNTER_ANNOUNCE_RATIO = 0.1;
+
+/**
+ * Textarea component built with LIT
+ *
+ * @example
+ * ```html
+ * <!-- Basic textarea -->
+ * <kds-textarea label="Description" placeholder="Enter a description..."></kds-textarea>
+ *
+ * <!-- Auto-grow from 3 up to 8 rows, then scroll -->
+ * <kds-textarea label="Notes" min-rows="3" max-rows="8"></kds-textarea>
+ *
+ * <!-- Character counter -->
+ * <kds-textarea label="Bio" maxlength="280" hint="Shown on your profile."></kds-textarea>
+ *
+ * <!-- Inside a form: value is submitted under its name -->
+ * <form>
+ *   <kds-textarea label="Message" name="message" required></kds-textarea>
+ * </form>
+ * ```
+ *
+ * The textarea grows with its content from `min-rows` to `max-rows` lines and
+ * scrolls beyond that; without `max-rows` it keeps growing. When `maxlength` is
+ * set, a live `length/maxlength` counter is shown next to the hint, and the
+ * remaining characters are announced to screen readers when close to the limit.
+ *
+ * Constraint validation follows the native textarea (`required`, `minlength`,
+ * `maxlength`), then any `validators` set as a property, and surfaces errors the
+ * same way as kds-input-field: once the user has changed the value, or the form
+ * has been submitted / `reportValidity()` called, a failing field switches to
+ * the destructive styling and shows the validation message in place of the hint.
+ * `checkValidity()` on the field only reports the result.
+ *
+ * The element is form-associated (ElementInternals): its value is part of the
+ * owning form's FormData, it resets to its initial value on form reset, and it
+ * is disabled by an ancestor `<fieldset disabled>`.
+ *
+ * @fires {CustomEvent<{value:string}>} kds-input  - Fired on every input change
+ * @fires {CustomEvent<{value:string}>} kds-change - Fired on blur after value change
+ * @fires {Event}                       invalid    - Fired when a validity check fails
+ */
+@customElement('kds-textarea')
+export class KdsTextarea extends LitElement {
+  static formAssociated = true;
+
+  static override styles = css`
+    :host {
+      display: block;
+      font-family: var(--kds-font-family, 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif);
+      box-sizing: border-box;
+    }
+
+    *,
+    *::before,
+    *::after {
+      box-sizing: inherit;
+    }
+
+    /* === FIELD WRAPPER (same layout as kds-input-field) === */
+    .field {
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+      width: 100%;
+    }
+
+    .label {
+      display: block;
+      margin: 0;
+      font-size: 14px;
+      line-height: 20px;
+      font-weight: 500;
+      color: var(--kds-input-label-color, #414651);
+    }
+
+    .field.destructive .label {
+      color: var(--kds-input-label-error-color, #414651);
+    }
+
+    .field.disabled .label {
+      color: var(--kds-input-disabled-text, #A4ACBA);
+    }
+
+    /* === TEXTAREA WRAPPER (the visible "box") === */
+    .textarea-wrapper {
+      display: flex;
+      width: 100%;
+      background-color: var(--kds-input-bg, #FFFFFF);
+      border: 1px solid var(--kds-input-border, #D5D7DA);
+      border-radius: 8px;
+      box-shadow: 0px 1px 2px 0px rgba(10, 13, 18, 0.05);
+      overflow: hidden;
+      transition: border-color 0.15s ease, box-shadow 0.15s ease;
+    }
+
+    .textarea-wrapper:focus-within {
+      border-color: var(--kds-input-border-focused, #D6BBFB);
+      box-shadow: 0px 0px 0px 4px #F4EBFF, 0px 1px 2px 0px rgba(10, 13, 18, 0.05);
+      outline: none;
+    }
+
+    .field.destructive .textarea-wrapper {
+      border-color: var(--kds-input-border-error, #FDA29B);
+    }
+
+    .field.destructive .textarea-wrapper:focus-within {
+      border-color: var(--kds-input-border-error, #FDA29B);
+      box-shadow: 0px 0px 0px 4px #FEF3F2, 0px 1px 2px 0px rgba(10, 13, 18, 0.05);
+    }
+
+    .field.disabled .textarea-wrapper {
+      background-color: var(--kds-input-bg-disabled, #F9FAFB);
+      border-color: var(--kds-input-border, #D5D7DA);
+      box-shadow: none;
+      cursor: not-allowed;
+    }
+
+    /* === NATIVE TEXTAREA === */
+    textarea {
+      display: block;
+      flex: 1 0 0;
+      min-width: 0;
+      border: none;
+      outline: none;
+      background: transparent;
+      font-family: inherit;
+      font-size: 16px;
+      line-height: 24px;
+      font-weight: 400;
+      color: #181D27;
+      /* TODO_EXTRACT_FROM_FIGMA: textarea padding (12px 14px in code) */
+      padding: 12px 14px;
+      margin: 0;
+      resize: none;
+      overflow-y: hidden;
+    }
+
+    textarea::placeholder {
+      color: #717680;
+    }
+
+    textarea:disabled {
+      color: #A4ACBA;
+      cursor: not-allowed;
+    }
+
+    textarea:disabled::placeholder {
+      color: #A4ACBA;
+    }
+
+    /* === HINT + COUNTER === */
+    .footer {
+      display: flex;
+      align-items: flex-start;
+      gap: 8px;
+    }
+
+    .hint {
+      flex: 1 0 0;
+      margin: 0;
+      font-size: 14px;
+      line-height: 20px;
+      font-weight: 400;
+      color: var(--kds-input-hint-color, #535862);
+    }
+
+    .field.destructive .hint {
+      color: var(--kds-input-error-color, #D92D20);
+    }
+
+    .field.disabled .hint {
+      color: #A4ACBA;
+    }
+
+    .counter {
+      flex-shrink: 0;
+      margin-left: auto;
+      font-size: 14px;
+      line-height: 20px;
+      font-weight: 400;
+      font-variant-numeric: tabular-nums;
+      color: var(--kds-input-hint-color, #535862);
+    }
+
+    .counter.over {
+      color: var(--kds-input-error-color, #D92D20);
+    }
+
+    .field.disabled .counter {
+      color: #A4ACBA;
+    }
+
+    .visually-hidden {
+      position: absolute;
+      width: 1px;
+      height: 1px;
+      margin: -1px;
+      padding: 0;
+      overflow: hidden;
+      clip: rect(0, 0, 0, 0);
+      white-space: nowrap;
+      border: 0;
+    }
+
+    @media (prefers-reduced-motion: reduce) {
+      .textarea-wrapper {
+        transition: none;
+      }
+    }
+  `;
+
+  /** Label text shown above the textarea. Empty = no label. */
+  @property({ type: String })
+  label: string = '';
+
+  /** Helper/hint text shown below. In destructive state, rendered as error message. */
+  @property({ type: String })
+  hint: string = '';
+
+  /** Placeholder text for the native textarea. */
+  @property({ type: String })
+  placeholder: string = '';
+
+  /** Current value of the textarea (two-way bindable). */
+  @property({ type: String })
+  value: string = '';
+
+  /** HTML name attribute for form participation. */
+  @property({ type: String, reflect: true })
+  name: string = '';
+
+  /** Error/destructive state. Red border. */
+  @property({ type: Boolean, reflect: true })
+  destructive: boolean = false;
+
+  /** Disabled state. Prevents interaction. */
+  @property({ type: Boolean, reflect: true })
+  disabled: boolean = false;
+
+  /** HTML required attribute for native form validation. */
+  @property({ type: Boolean })
+  required: boolean = false;
+
+  /** Minimum number of characters. */
+  @property({ type: Number, attribute: 'minlength' })
+  minLength?: number;
+
+  /** Maximum number of characters. Also shows the character counter. */
+  @property({ type: Number, attribute: 'maxlength' })
+  maxLength?: number;
+
+  /** Visible lines when empty; the textarea never shrinks below this. */
+  @property({ type: Number, attribute: 'min-rows' })
+  minRows: number = 4;
+
+  /** Lines the textarea grows to before it scrolls. Unset = no limit. */
+  @property({ type: Number, attribute: 'max-rows' })
+  maxRows?: number;
+
+  /**
+   * Custom validators, run in order after the native constraints pass.
+   * The first non-empty message marks the field invalid. Property only.
+   */
+  @property({ attribute: false })
+  validators: TextareaValidator[] = [];
+
+  /** ARIA label (used when label is not set). */
+  @property({ type: String, attribute: 'aria-label' })
+  override ariaLabel: string | null = null;
+
+  @query('textarea')
+  private _textarea!: HTMLTextAreaElement;
+
+  /** Set when an ancestor `<fieldset>` is disabled. */
+  @state()
+  private _formDisabled: boolean = false;
+
+  /** Set once validation errors should be shown (user edit, submit, reportValidity). */
+  @state()
+  private _showValidity: boolean = false;
+
+  /** Current validation message; empty when valid. Computed before each render. */
+  private _validationMessage: string = '';
+
+  /** Message set through setCustomValidity(). */
+  private _customValidity: string = '';
+
+  /** Set while checkValidity() runs, so its `invalid` event leaves the UI alone. */
+  private _checkingValidity: boolean = false;
+
+  private _internals: ElementInternals;
+
+  /** Value restored on form reset — captured on first render. */
+  private _defaultValue: string = '';
+
+  /** Re-measures when the width changes, since line wrapping changes the height. */
+  private _resizeObserver?: ResizeObserver;
+  private _observedWidth = 0;
+
+  constructor() {
+    super();
+    this._internals = this.attachInternals();
+    this.addEventListener('invalid', () => {
+      if (!this._checkingValidity) this._showValidity = true;
+    });
+  }
+
+  /** The form this element is associated with, if any. */
+  get form(): HTMLFormElement | null {
+    return this._internals.form;
+  }
+
+  /** The validity state of the field. */
+  get validity(): ValidityState {
+    return this._internals.validity;
+  }
+
+  /** The message shown when the field is invalid; empty when valid. */
+  get validationMessage(): string {
+    return this._internals.validationMessage;
+  }
+
+  /** Whether the field takes part in constraint validation. */
+  get willValidate(): boolean {
+    return this._internals.willValidate;
+  }
+
+  /** Returns true when valid; otherwise fires `invalid` and returns false. */
+  checkValidity(): boolean {
+    this._checkingValidity = true;
+    try {
+      return this._internals.checkValidity();
+    } finally {
+      this._checkingValidity = false;
+    }
+  }
+
+  /** Like checkValidity(), and also shows the error state to the user. */
+  reportValidity(): boolean {
+    this._showValidity = true;
+    return this._internals.reportValidity();
+  }
+
+  /** Sets a custom error message; pass an empty string to clear it. */
+  setCustomValidity(message: string) {
+    this._customValidity = message;
+    this._updateValidity();
+    this.requestUpdate();
+  }
+
+  private get _isDisabled(): boolean {
+    return this.disabled || this._formDisabled;
+  }
+
+  /** Destructive styling is shown for the prop or for a visible validation error. */
+  private get _isInvalid(): boolean {
+    return this.destructive || (this._showValidity && !!this._validationMessage);
+  }
+
+  override connectedCallback() {
+    super.connectedCallback();
+    this._resizeObserver = new ResizeObserver((entries) => {
+      const width = entries[0]?.contentRect.width ?? 0;
+      if (width !== this._observedWidth) {
+        this._observedWidth = width;
+        this._resize();
+      }
+    });
+    this._resizeObserver.observe(this);
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this._resizeObserver?.disconnect();
+    this._resizeObserver = undefined;
+  }
+
+  private _updateValidity() {
+    const textarea = this._textarea;
+    if (!textarea) return;
+
+    if (!textarea.validity.valid) {
+      const flags: ValidityStateFlags = {};
+      for (const flag of VALIDITY_FLAGS) {
+        if (textarea.validity[flag]) flags[flag] = true;
+      }
+      this._internals.setValidity(flags, textarea.validationMessage, textarea);
+    } else {
+      const message =
+        this._customValidity ||
+        this.validators.map((validate) => validate(this.value)).find((result) => !!result) ||
+        '';
+
+      if (message) {
+        this._internals.setValidity({ customError: true }, message, textarea);
+      } else {
+        this._internals.setValidity({});
+      }
+    }
+
+    this._validationMessage = this._internals.validationMessage;
+  }
+
+  /**
+   * Fits the textarea height to its content, clamped to min-rows / max-rows.
+   * Scrolling is only enabled once the content exceeds max-rows.
+   */
+  private _resize() {
+    const textarea = this._textarea;
+    if (!textarea) return;
+
+    const minRows = Math.max(1, this.minRows);
+    const minHeight = minRows * LINE_HEIGHT + VERTICAL_PADDING;
+    const maxHeight = this.maxRows
+      ? Math.max(this.maxRows, minRows) * LINE_HEIGHT + VERTICAL_PADDING
+      : Infinity;
+
+    // Collapse first so scrollHeight reflects the content, not the previous height
+    textarea.style.height = 'auto';
+    const contentHeight = textarea.scrollHeight;
+    textarea.style.height = `${Math.min(Math.max(contentHeight, minHeight), maxHeight)}px`;
+    textarea.style.overflowY = contentHeight > maxHeight ? 'auto' : 'hidden';
+  }
+
+  /**
+   * Applies the pending value and constraints to the native textarea, so its
+   * validity can be read before the render that would otherwise set them.
+   */
+  private _syncConstraints(textarea: HTMLTextAreaElement) {
+    textarea.disabled = this._isDisabled;
+    textarea.required = this.required;
+
+    const attributes: Record<string, string | undefined> = {
+      minlength: this.minLength?.toString(),
+      maxlength: this.maxLength?.toString(),
+    };
+    for (const [name, value] of Object.entries(attributes)) {
+      if (value === undefined) textarea.removeAttribute(name);
+      else textarea.setAttribute(name, value);
+    }
+
+    // Assigning the same value would drop the user-edit flag that tooShort/tooLong need
+    if (textarea.value !== this.value) textarea.value = this.value;
+  }
+
+  override willUpdate(changed: PropertyValues<this>) {
+    const constraints = [
+      'value', 'required', 'minLength', 'maxLength', 'validators', 'disabled', '_formDisabled',
+    ];
+    if (this._textarea && constraints.some((key) => changed.has(key as keyof KdsTextarea))) {
+      this._syncConstraints(this._textarea);
+      this._updateValidity();
+    }
+  }
+
+  override firstUpdated() {
+    this._defaultValue = this.value;
+    // The native textarea exists from here on; errors are not shown yet, so no re-render
+    this._updateValidity();
+  }
+
+  override updated(changed: PropertyValues<this>) {
+    if (changed.has('value')) {
+      this._internals.setFormValue(this.value);
+    }
+
+    if (changed.has('value') || changed.has('minRows') || changed.has('maxRows')) {
+      this._resize();
+    }
+  }
+
+  /** Called by the owning form on reset. */
+  formResetCallback() {
+    this.value = this._defaultValue;
+    this._showValidity = false;
+  }
+
+  /** Called by the browser when restoring state (back/forward cache, autofill). */
+  formStateRestoreCallback(state: string | File | FormData | null) {
+    if (typeof state === 'string') {
+      this.value = state;
+    }
+  }
+
+  /** Called when an ancestor `<fieldset>` toggles its disabled state. */
+  formDisabledCallback(disabled: boolean) {
+    this._formDisabled = disabled;
+  }
+
+  private _handleInput(e: Event) {
+    const target = e.target as HTMLTextAreaElement;
+    this.value = target.value;
+    this.dispatchEvent(
+      new CustomEvent('kds-input', {
+        detail: { value: this.value },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  private _handleChange(e: Event) {
+    const target = e.target as HTMLTextAreaElement;
+    this.value = target.value;
+    this._showValidity = true;
+    this.dispatchEvent(
+      new CustomEvent('kds-change', {
+        detail: { value: this.value },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  /** Programmatically focus the native textarea. */
+  override focus(options?: FocusOptions) {
+    this._textarea?.focus(options);
+  }
+
+  /** Programmatically blur the native textarea. */
+  override blur() {
+    this._textarea?.blur();
+  }
+
+  override render() {
+    const invalid = this._isInvalid;
+    const hint = this._showValidity && this._validationMessage
+      ? this._validationMessage
+      : this.hint;
+
+    const hasCounter = this.maxLength !== undefined && this.maxLength >= 0;
+    const length = this.value.length;
+    const remaining = hasCounter ? this.maxLength! - length : 0;
+    const announceCounter =
+      hasCounter && remaining <= Math.ceil(this.maxLength! * COUNTER_ANNOUNCE_RATIO);
+
+    const fieldClasses = {
+      field: true,
+      destructive: invalid,
+      disabled: this._isDisabled,
+    };
+
+    const describedBy = [hint ? 'hint' : '', hasCounter ? 'counter' : '']
+      .filter(Boolean)
+      .join(' ');
+
+    return html`
+      <div class=${classMap(fieldClasses)} part="field">
+
+        ${this.label
+          ? html`<label class="label" part="label" for="textarea">${this.label}</label>`
+          : nothing}
+
+        <div class="textarea-wrapper" part="textarea-wrapper">
+          <textarea
+            part="textarea"
+            id="textarea"
+            .value=${live(this.value)}
+            rows=${Math.max(1, this.minRows)}
+            name=${ifDefined(this.name || undefined)}
+            placeholder=${ifDefined(this.placeholder || undefined)}
+            ?disabled=${this._isDisabled}
+            ?required=${this.required}
+            minlength=${ifDefined(this.minLength)}
+            maxlength=${ifDefined(this.maxLength)}
+            aria-label=${ifDefined(!this.label ? (this.ariaLabel || this.placeholder || undefined) : undefined)}
+            aria-invalid=${invalid ? 'true' : nothing}
+            aria-describedby=${ifDefined(describedBy || undefined)}
+            @input=${this._handleInput}
+            @change=${this._handleChange}
+          ></textarea>
+        </div>
+
+        ${hint || hasCounter
+          ? html`<div class="footer" part="footer">
+              ${hint
+                ? html`<p class="hint" part="hint" id="hint">${hint}</p>`
+                : nothing}
+              ${hasCounter
+                ? html`<span
+                    class=${classMap({ counter: true, over: remaining < 0 })}
+                    part="counter"
+                    id="counter"
+                  >${length}/${this.maxLength}</span>`
+                : nothing}
+            </div>`
+          : nothing}
+
+        ${hasCounter
+          ? html`<span class="visually-hidden" role="status">
+              ${announceCounter ? `${Math.max(remaining, 0)} characters remaining` : ''}
+            </span>`
+          : nothing}
+
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'kds-textarea': KdsTextarea;
+  }
+}
@@ -0,0 +1,611 @@
+/**
+ * @package @kds/web-components
+ * @component kds-toast
+ * @description Toast notification component from Untitled UI design system
+ * @author Kilian Sala <kilian@kapsch.net>
+ * @source Figma: Untitled UI - FREE Figma UI kit v2.0
+ *
+ * ⚠️ STATUS: PENDING FIGMA DATA VALIDATION
+ * Variant colors reuse the kds-badge palette (same custom properties); layout
+ * follows the Untitled UI notification.
+ * TODO markers indicate values that must be verified against actual Figma design.
+ */
+
+import { LitElement, html, css, nothing, PropertyValues } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import './kds-button.js';
+import { announce } from './live-announcer.js';
+
+export type ToastVariant = 'success' | 'error' | 'warning' | 'info';
+export type ToastPosition =
+  | 'top-left'
+  | 'top-center'
+  | 'top-right'
+  | 'bottom-left'
+  | 'bottom-center'
+  | 'bottom-right';
+export type ToastCloseReason = 'timeout' | 'dismiss' | 'action' | 'api';
+
+/** Auto-dismiss delay used by toast() when no duration is given, in ms */
+const DEFAULT_DURATION = 5000;
+
+/**
+ * Toast component built with LIT
+ *
+ * A transient notification. Usually created with `toast()`, which places it
+ * in a `kds-toast-region`; it can also be declared in markup.
+ *
+ * @example
+ * ```html
+ * <kds-toast-region position="bottom-right">
+ *   <kds-toast variant="success" heading="Changes saved" duration="5000">
+ *     Your profile has been updated.
+ *   </kds-toast>
+ * </kds-toast-region>
+ * ```
+ *
+ * While the pointer is over the toast or focus is inside it, the auto-dismiss
+ * timer pauses and resumes with the time that was left. Showing a toast
+ * announces its heading and text to screen readers: error and warning toasts
+ * assertively, success and info toasts politely.
+ *
+ * @slot - Message text
+ * @slot actions - Custom action buttons (typically `kds-button`s)
+ *
+ * @fires {CustomEvent<{}>} kds-toast-action - Fired when the built-in action button is clicked
+ * @fires {CustomEvent<{reason: ToastCloseReason}>} kds-toast-close - Fired when the toast closes
+ */
+@customElement('kds-toast')
+export class KdsToast extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      font-family: var(--kds-font-family, 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif);
+      pointer-events: auto;
+    }
+
+    :host(:not([open])),
+    :host([queued]) {
+      display: none;
+    }
+
+    .toast {
+      display: flex;
+      align-items: flex-start;
+      gap: 12px;
+      box-sizing: border-box;
+      width: var(--kds-toast-width, 400px);
+      max-width: 100%;
+      padding: 16px;
+      border: 1px solid var(--kds-toast-accent);
+      border-radius: var(--kds-toast-border-radius, 12px);
+      background-color: var(--kds-toast-bg);
+      color: var(--kds-toast-accent);
+      box-shadow: var(--kds-shadow-lg, 0 12px 16px -4px rgba(10, 13, 18, 0.08), 0 4px 6px -2px rgba(10, 13, 18, 0.03));
+      animation: kds-toast-in 0.2s ease-out;
+    }
+
+    @keyframes kds-toast-in {
+      from {
+        opacity: 0;
+        transform: translateY(8px);
+      }
+    }
+
+    @media (prefers-reduced-motion: reduce) {
+      .toast {
+        animation: none;
+      }
+    }
+
+    /* Variant colors: same custom properties as kds-badge */
+    .toast.variant-success {
+      --kds-toast-bg: var(--kds-badge-success-bg, #ECFDF3);
+      --kds-toast-accent: var(--kds-badge-success-text, #027A48);
+    }
+
+    .toast.variant-error {
+      --kds-toast-bg: var(--kds-badge-error-bg, #FEF3F2);
+      --kds-toast-accent: var(--kds-badge-error-text, #B42318);
+    }
+
+    .toast.variant-warning {
+      --kds-toast-bg: var(--kds-badge-warning-bg, #FFFAEB);
+      --kds-toast-accent: var(--kds-badge-warning-text, #B54708);
+    }
+
+    .toast.variant-info {
+      --kds-toast-bg: var(--kds-badge-blue-bg, #EFF8FF);
+      --kds-toast-accent: var(--kds-badge-blue-text, #175CD3);
+    }
+
+    .icon {
+      flex-shrink: 0;
+      width: 20px;
+      height: 20px;
+    }
+
+    .content {
+      flex: 1;
+      min-width: 0;
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
+      font-size: var(--kds-text-sm-font-size, 14px);
+      line-height: var(--kds-text-sm-line-height, 20px);
+    }
+
+    .heading {
+      font-weight: 600;
+    }
+
+    .actions {
+      display: flex;
+      gap: 12px;
+      margin-top: 8px;
+    }
+
+    .actions.empty {
+      display: none;
+    }
+
+    .close {
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      flex-shrink: 0;
+      width: 20px;
+      height: 20px;
+      padding: 0;
+      border: none;
+      border-radius: 4px;
+      background: none;
+      color: inherit;
+      cursor: pointer;
+    }
+
+    .close:focus-visible {
+      outline: none;
+      box-shadow: 0 0 0 2px var(--kds-toast-accent);
+    }
+
+    .close svg {
+      width: 12px;
+      height: 12px;
+    }
+  `;
+
+  /**
+   * Color variant
+   * @default 'info'
+   */
+  @property({ type: String, reflect: true })
+  variant: ToastVariant = 'info';
+
+  /**
+   * Bold first line
+   */
+  @property({ type: String })
+  heading = '';
+
+  /**
+   * Auto-dismiss delay in ms; 0 keeps the toast until it is dismissed
+   * @default 0
+   */
+  @property({ type: Number })
+  duration = 0;
+
+  /**
+   * Label of the built-in action button; clicking it fires kds-toast-action and closes the toast
+   */
+  @property({ type: String, attribute: 'action-label' })
+  actionLabel = '';
+
+  /**
+   * Accessible label of the close button
+   * @default 'Dismiss'
+   */
+  @property({ type: String, attribute: 'close-label' })
+  closeLabel = 'Dismiss';
+
+  /**
+   * Whether the toast is shown
+   * @default true
+   */
+  @property({ type: Boolean, reflect: true })
+  open = true;
+
+  /**
+   * Set by kds-toast-region while the toast waits for a free slot
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  queued = false;
+
+  /**
+   * Removes the element after it closes (set by toast())
+   * @default false
+   */
+  @property({ type: Boolean, attribute: 'remove-on-close' })
+  removeOnClose = false;
+
+  private _timer?: ReturnType<typeof setTimeout>;
+  private _remaining = 0;
+  private _startedAt = 0;
+  private _hovered = false;
+  private _focused = false;
+  private _announced = false;
+
+  /** Closes the toast. */
+  dismiss(reason: ToastCloseReason = 'api') {
+    if (!this.open) return;
+    this.open = false;
+
+    this.dispatchEvent(
+      new CustomEvent('kds-toast-close', {
+        detail: { reason },
+        bubbles: true,
+        composed: true,
+      })
+    );
+
+    if (this.removeOnClose) {
+      this.remove();
+    }
+  }
+
+  override connectedCallback() {
+    super.connectedCallback();
+    this.addEventListener('mouseenter', this._handleMouseEnter);
+    this.addEventListener('mouseleave', this._handleMouseLeave);
+    this.addEventListener('focusin', this._handleFocusIn);
+    this.addEventListener('focusout', this._handleFocusOut);
+
+    if (this.parentElement instanceof KdsToastRegion) {
+      this.parentElement.updateQueue();
+    }
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.removeEventListener('mouseenter', this._handleMouseEnter);
+    this.removeEventListener('mouseleave', this._handleMouseLeave);
+    this.removeEventListener('focusin', this._handleFocusIn);
+    this.removeEventListener('focusout', this._handleFocusOut);
+    this._clearTimer();
+  }
+
+  override updated(changed: PropertyValues<this>) {
+    if (changed.has('open') || changed.has('queued') || changed.has('duration')) {
+      const visible = this.open && !this.queued;
+
+      if (visible && !this._announced) {
+        this._announced = true;
+        const message = Array.from(this.childNodes)
+          .filter((node) => !(node instanceof Element && node.slot))
+          .map((node) => node.textContent)
+          .join('')
+          .trim();
+        const text = [this.heading, message].filter(Boolean).join('. ');
+        announce(text, this.variant === 'error' || this.variant === 'warning');
+      }
+      if (!this.open) {
+        this._announced = false;
+      }
+
+      this._clearTimer();
+      this._remaining = visible ? this.duration : 0;
+      this._startTimer();
+    }
+  }
+
+  private _startTimer() {
+    if (this._remaining <= 0 || this._hovered || this._focused) return;
+    this._startedAt = Date.now();
+    this._timer = setTimeout(() => this.dismiss('timeout'), this._remaining);
+  }
+
+  private _pauseTimer() {
+    if (this._timer === undefined) return;
+    this._clearTimer();
+    this._remaining = Math.max(0, this._remaining - (Date.now() - this._startedAt));
+  }
+
+  private _clearTimer() {
+    clearTimeout(this._timer);
+    this._timer = undefined;
+  }
+
+  private _handleMouseEnter = () => {
+    this._hovered = true;
+    this._pauseTimer();
+  };
+
+  private _handleMouseLeave = () => {
+    this._hovered = false;
+    this._startTimer();
+  };
+
+  private _handleFocusIn = () => {
+    this._focused = true;
+    this._pauseTimer();
+  };
+
+  private _handleFocusOut = (event: FocusEvent) => {
+    if (event.relatedTarget instanceof Node && this.contains(event.relatedTarget)) return;
+    this._focused = false;
+    this._startTimer();
+  };
+
+  private _handleAction() {
+    this.dispatchEvent(
+      new CustomEvent('kds-toast-action', {
+        detail: {},
+        bubbles: true,
+        composed: true,
+      })
+    );
+    this.dismiss('action');
+  }
+
+  private _handleActionsSlotChange() {
+    this.requestUpdate();
+  }
+
+  private _renderIcon() {
+    const paths: Record<ToastVariant, string> = {
+      success: 'M6.25 10 8.75 12.5 13.75 7.5M18.333 10a8.333 8.333 0 1 1-16.666 0 8.333 8.333 0 0 1 16.666 0Z',
+      error: 'M10 6.667V10m0 3.333h.008M18.333 10a8.333 8.333 0 1 1-16.666 0 8.333 8.333 0 0 1 16.666 0Z',
+      warning:
+        'M10 7.5v3.333m0 3.334h.008M8.846 3.243 1.992 15.082c-.38.657-.57.985-.542 1.254a.833.833 0 0 0 .338.588c.22.16.599.16 1.358.16h13.708c.759 0 1.138 0 1.357-.16a.833.833 0 0 0 .339-.588c.028-.27-.162-.597-.542-1.254L11.154 3.243c-.379-.654-.568-.981-.815-1.091a.833.833 0 0 0-.678 0c-.247.11-.436.437-.815 1.091Z',
+      info: 'M10 13.333V10m0-3.333h.008M18.333 10a8.333 8.333 0 1 1-16.666 0 8.333 8.333 0 0 1 16.666 0Z',
+    };
+
+    return html`
+      <svg class="icon" viewBox="0 0 20 20" fill="none" aria-hidden="true">
+        <path
+          d=${paths[this.variant] ?? paths.info}
+          stroke="currentColor"
+          stroke-width="1.667"
+          stroke-linecap="round"
+          stroke-linejoin="round"
+        ></path>
+      </svg>
+    `;
+  }
+
+  override render() {
+    const hasActions = !!this.actionLabel || this.querySelector(':scope > [slot="actions"]') !== null;
+
+    return html`
+      <div class=${classMap({ toast: true, [`variant-${this.variant}`]: true })}>
+        ${this._renderIcon()}
+        <div class="content">
+          ${this.heading ? html`<div class="heading">${this.heading}</div>` : nothing}
+          <div class="message"><slot></slot></div>
+          <div class=${classMap({ actions: true, empty: !hasActions })}>
+            ${this.actionLabel
+              ? html`
+                  <kds-button
+                    hierarchy="link-color"
+                    size="sm"
+                    ?destructive=${this.variant === 'error'}
+                    @kds-button-click=${this._handleAction}
+                  >
+                    ${this.actionLabel}
+                  </kds-button>
+                `
+              : nothing}
+            <slot name="actions" @slotchange=${this._handleActionsSlotChange}></slot>
+          </div>
+        </div>
+        <button
+          class="close"
+          type="button"
+          aria-label=${this.closeLabel}
+          @click=${() => this.dismiss('dismiss')}
+        >
+          <svg viewBox="0 0 12 12" fill="none" aria-hidden="true">
+            <path d="M9 3L3 9M3 3L9 9" stroke="currentColor" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round"></path>
+          </svg>
+        </button>
+      </div>
+    `;
+  }
+}
+
+/**
+ * Fixed stacking region for `kds-toast` elements
+ *
+ * Shows up to `max` open toasts at a time in document order; the rest stay
+ * queued and appear as earlier ones close.
+ *
+ * @slot - `kds-toast` elements
+ */
+@customElement('kds-toast-region')
+export class KdsToastRegion extends LitElement {
+  static override styles = css`
+    :host {
+      position: fixed;
+      z-index: var(--kds-toast-z-index, 1100);
+      max-width: calc(100vw - 32px);
+      pointer-events: none;
+    }
+
+    .region {
+      display: flex;
+      flex-direction: column;
+      align-items: flex-start;
+      gap: 12px;
+    }
+
+    :host([position^='top']) {
+      top: 16px;
+    }
+
+    :host([position^='bottom']) {
+      bottom: 16px;
+    }
+
+    :host([position$='left']) {
+      left: 16px;
+    }
+
+    :host([position$='right']) {
+      right: 16px;
+    }
+
+    :host([position$='center']) {
+      left: 50%;
+      transform: translateX(-50%);
+    }
+
+    :host([position$='right']) .region {
+      align-items: flex-end;
+    }
+
+    :host([position$='center']) .region {
+      align-items: center;
+    }
+  `;
+
+  /**
+   * Corner or edge of the viewport the toasts stack in
+   * @default 'bottom-right'
+   */
+  @property({ type: String, reflect: true })
+  position: ToastPosition = 'bottom-right';
+
+  /**
+   * Toasts shown at once; later ones wait in a queue
+   * @default 3
+   */
+  @property({ type: Number })
+  max = 3;
+
+  /**
+   * Accessible name of the region
+   * @default 'Notifications'
+   */
+  @property({ type: String, attribute: 'aria-label' })
+  override ariaLabel: string | null = 'Notifications';
+
+  override connectedCallback() {
+    super.connectedCallback();
+    this.addEventListener('kds-toast-close', this.updateQueue);
+    this.updateQueue();
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.removeEventListener('kds-toast-close', this.updateQueue);
+  }
+
+  override updated(changed: PropertyValues<this>) {
+    if (changed.has('max')) {
+      this.updateQueue();
+    }
+  }
+
+  /**
+   * Marks every open toast past the first `max` as queued. Called by toasts
+   * as they connect, so a queued toast is never shown or announced early.
+   * @internal
+   */
+  updateQueue = () => {
+    const toasts = Array.from(this.querySelectorAll<KdsToast>(':scope > kds-toast')).filter(
+      (toast) => toast.open
+    );
+    toasts.forEach((toast, index) => {
+      toast.queued = index >= this.max;
+    });
+  };
+
+  override render() {
+    return html`
+      <div class="region" role="region" aria-label=${this.ariaLabel || nothing}>
+        <slot @slotchange=${this.updateQueue}></slot>
+      </div>
+    `;
+  }
+}
+
+/**
+ * Options for toast()
+ */
+export interface ToastOptions {
+  message: string;
+  heading?: string;
+  /** @default 'info' */
+  variant?: ToastVariant;
+  /** Auto-dismiss delay in ms; 0 keeps the toast until dismissed. @default 5000 */
+  duration?: number;
+  /** Built-in action button */
+  action?: { label: string; onClick?: () => void };
+  /** Region to stack in; created on first use. @default 'bottom-right' */
+  position?: ToastPosition;
+  /** Called when the toast closes */
+  onClose?: (reason: ToastCloseReason) => void;
+}
+
+/**
+ * Shows a toast in the `kds-toast-region` for the given position, creating
+ * the region on first use. Returns the toast element; call `dismiss()` on it
+ * to close it early.
+ *
+ * @example
+ * ```ts
+ * import { toast } from '@kds/web-components';
+ *
+ * toast({ variant: 'success', heading: 'Changes saved', message: 'Your profile has been updated.' });
+ * toast({
+ *   variant: 'error',
+ *   message: 'Upload failed.',
+ *   action: { label: 'Retry', onClick: () => upload() },
+ * });
+ * ```
+ */
+export function toast(options: ToastOptions): KdsToast {
+  const position = options.position ?? 'bottom-right';
+
+  let region = document.querySelector<KdsToastRegion>(`kds-toast-region[position="${position}"]`);
+  if (!region) {
+    region = document.createElement('kds-toast-region');
+    // Set as an attribute so the lookup above finds it before the first update
+    region.setAttribute('position', position);
+    document.body.append(region);
+  }
+
+  const element = document.createElement('kds-toast');
+  element.variant = options.variant ?? 'info';
+  element.heading = options.heading ?? '';
+  element.duration = options.duration ?? DEFAULT_DURATION;
+  element.removeOnClose = true;
+  element.textContent = options.message;
+
+  if (options.action) {
+    element.actionLabel = options.action.label;
+    const onClick = options.action.onClick;
+    if (onClick) {
+      element.addEventListener('kds-toast-action', () => onClick());
+    }
+  }
+
+  if (options.onClose) {
+    const onClose = options.onClose;
+    element.addEventListener('kds-toast-close', (event) => {
+      onClose((event as CustomEvent<{ reason: ToastCloseReason }>).detail.reason);
+    });
+  }
+
+  region.append(element);
+  return element;
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'kds-toast': KdsToast;
+    'kds-toast-region': KdsToastRegion;
+  }
+}
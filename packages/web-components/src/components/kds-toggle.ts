@@ -9,8 +9,8 @@
  * Frame nodeId: 1102:4208
  */
 
-import { LitElement, html, css, nothing } from 'lit';
-import { customElement, property } from 'lit/decorators.js';
+import { LitElement, html, css, nothing, PropertyValues } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
 import { classMap } from 'lit/directives/class-map.js';
 
 export type ToggleSize = 'sm' | 'md';
@@ -36,14 +36,25 @@ export type ToggleSize = 'sm' | 'md';
  *
  * <!-- Small size -->
  * <kds-toggle size="sm" aria-label="Dark mode"></kds-toggle>
+ *
+ * <!-- Inside a form: submits "notifications=on" when pressed -->
+ * <form>
+ *   <kds-toggle name="notifications">Notifications</kds-toggle>
+ * </form>
  * ```
  *
+ * The element is form-associated (ElementInternals): when pressed its value is
+ * part of the owning form's FormData, it resets to its initial pressed state on
+ * form reset, and it is disabled by an ancestor `<fieldset disabled>`.
+ *
  * @fires {CustomEvent} kds-toggle-change - Fired when toggle value changes
  * @fires {CustomEvent} kds-toggle-focus - Fired when toggle receives focus
  * @fires {CustomEvent} kds-toggle-blur - Fired when toggle loses focus
  */
 @customElement('kds-toggle')
 export class KdsToggle extends LitElement {
+  static formAssociated = true;
+
   static override styles = css`
     :host {
       display: inline-flex;
@@ -54,7 +65,8 @@ export class KdsToggle extends LitElement {
       user-select: none;
     }
 
-    :host([disabled]) {
+    :host([disabled]),
+    :host(:disabled) {
       cursor: not-allowed;
     }
 
@@ -102,7 +114,7 @@ export class KdsToggle extends LitElement {
       background-color: var(--kds-color-gray-100, #F5F5F5);
     }
 
-    :host(:not([disabled])) .track:hover {
+    :host(:not([disabled]):not(:disabled)) .track:hover {
       background-color: var(--kds-color-gray-200, #E9EAEB);
     }
 
@@ -112,7 +124,7 @@ export class KdsToggle extends LitElement {
       justify-content: flex-end;
     }
 
-    :host(:not([disabled])) .track.pressed:hover {
+    :host(:not([disabled]):not(:disabled)) .track.pressed:hover {
       background-color: var(--kds-color-brand-600, #7F56D9);
     }
 
@@ -129,11 +141,13 @@ export class KdsToggle extends LitElement {
     }
 
     /* Disabled state */
-    :host([disabled]) .track {
+    :host([disabled]) .track,
+    :host(:disabled) .track {
       background-color: var(--kds-color-gray-100, #F5F5F5);
     }
 
-    :host([disabled]) .track.pressed {
+    :host([disabled]) .track.pressed,
+    :host(:disabled) .track.pressed {
       background-color: var(--kds-color-gray-100, #F5F5F5);
     }
 
@@ -157,7 +171,8 @@ export class KdsToggle extends LitElement {
     }
 
     /* Disabled knob - dimmed */
-    :host([disabled]) .knob {
+    :host([disabled]) .knob,
+    :host(:disabled) .knob {
       background-color: var(--kds-color-gray-50, #FAFAFA);
     }
 
@@ -186,7 +201,8 @@ export class KdsToggle extends LitElement {
       line-height: 24px;
     }
 
-    :host([disabled]) .label {
+    :host([disabled]) .label,
+    :host(:disabled) .label {
       color: var(--kds-color-gray-600, #535862);
     }
 
@@ -237,7 +253,7 @@ export class KdsToggle extends LitElement {
   /**
    * Name attribute for form submission
    */
-  @property({ type: String })
+  @property({ type: String, reflect: true })
   name?: string;
 
   /**
@@ -259,8 +275,70 @@ export class KdsToggle extends LitElement {
   @property({ type: String, attribute: 'aria-describedby' })
   ariaDescribedBy?: string;
 
+  /**
+   * Set when an ancestor `<fieldset>` is disabled
+   */
+  @state()
+  private _formDisabled = false;
+
+  private _internals: ElementInternals;
+
+  /**
+   * Pressed state restored on form reset — captured on first render
+   */
+  private _defaultPressed = false;
+
+  constructor() {
+    super();
+    this._internals = this.attachInternals();
+  }
+
+  /**
+   * The form this element is associated with, if any
+   */
+  get form(): HTMLFormElement | null {
+    return this._internals.form;
+  }
+
+  private get _isDisabled(): boolean {
+    return this.disabled || this._formDisabled;
+  }
+
+  override firstUpdated() {
+    this._defaultPressed = this.pressed;
+  }
+
+  override updated(changed: PropertyValues<this>) {
+    if (changed.has('pressed') || changed.has('value')) {
+      this._internals.setFormValue(this.pressed ? this.value : null, String(this.pressed));
+    }
+  }
+
+  /**
+   * Called by the owning form on reset
+   */
+  formResetCallback() {
+    this.pressed = this._defaultPressed;
+  }
+
+  /**
+   * Called by the browser when restoring state (back/forward cache, autofill)
+   */
+  formStateRestoreCallback(state: string | File | FormData | null) {
+    if (typeof state === 'string') {
+      this.pressed = state === 'true';
+    }
+  }
+
+  /**
+   * Called when an ancestor `<fieldset>` toggles its disabled state
+   */
+  formDisabledCallback(disabled: boolean) {
+    this._formDisabled = disabled;
+  }
+
   private _handleChange(event: Event) {
-    if (this.disabled) {
+    if (this._isDisabled) {
       event.preventDefault();
       event.stopPropagation();
       return;
@@ -283,7 +361,7 @@ export class KdsToggle extends LitElement {
   }
 
   private _handleFocus(event: FocusEvent) {
-    if (this.disabled) return;
+    if (this._isDisabled) return;
 
     this.dispatchEvent(
       new CustomEvent('kds-toggle-focus', {
@@ -295,7 +373,7 @@ export class KdsToggle extends LitElement {
   }
 
   private _handleBlur(event: FocusEvent) {
-    if (this.disabled) return;
+    if (this._isDisabled) return;
 
     this.dispatchEvent(
       new CustomEvent('kds-toggle-blur', {
@@ -307,7 +385,7 @@ export class KdsToggle extends LitElement {
   }
 
   private _handleClick(event: MouseEvent) {
-    if (this.disabled) {
+    if (this._isDisabled) {
       event.preventDefault();
       event.stopPropagation();
     }
@@ -344,7 +422,7 @@ export class KdsToggle extends LitElement {
           type="checkbox"
           role="switch"
           .checked=${this.pressed}
-          ?disabled=${this.disabled}
+          ?disabled=${this._isDisabled}
           name=${this.name || nothing}
           value=${this.value}
           aria-label=${this.ariaLabel || nothing}
@@ -9,9 +9,10 @@
  * Component nodeIds: 1052:490 - 1052:648
  */
 
-import { LitElement, html, css, nothing } from 'lit';
-import { customElement, property } from 'lit/decorators.js';
+import { LitElement, html, css, nothing, PropertyValues } from 'lit';
+import { customElement, property, query, state } from 'lit/decorators.js';
 import { classMap } from 'lit/directives/class-map.js';
+import { styleMap } from 'lit/directives/style-map.js';
 
 export type TooltipTheme = 'light' | 'dark';
 export type TooltipArrow =
@@ -22,6 +23,38 @@ export type TooltipArrow =
   | 'top-center'
   | 'left'
   | 'right';
+export type TooltipPlacement = 'top' | 'bottom' | 'left' | 'right' | 'auto';
+
+type TooltipSide = Exclude<TooltipPlacement, 'auto'>;
+
+interface ClipBounds {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+/** Distance in px between the trigger and the tooltip bubble. */
+const TRIGGER_OFFSET = 8;
+
+/** Distance in px from the bubble edge to the centre of a bottom-left/right arrow. */
+const ARROW_INSET = 20;
+
+/** Minimum gap in px kept between an auto-placed bubble and the clipping edge. */
+const VIEWPORT_PADDING = 8;
+
+/** Sides tried in order by `placement="auto"`. */
+const AUTO_SIDES: TooltipSide[] = ['top', 'bottom', 'right', 'left'];
+
+/** Arrows on the bubble edge that faces a trigger on each side; the first is the default. */
+const SIDE_ARROWS: Record<TooltipSide, TooltipArrow[]> = {
+  top: ['bottom-center', 'bottom-left', 'bottom-right'],
+  bottom: ['top-center'],
+  left: ['right'],
+  right: ['left'],
+};
+
+let tooltipCounter = 0;
 
 /**
  * Tooltip component built with LIT
@@ -46,10 +79,34 @@ export type TooltipArrow =
  *   <span slot="text">Custom title</span>
  *   <span slot="supporting-text">Custom description</span>
  * </kds-tooltip>
+ *
+ * <!-- Anchored by wrapping the trigger -->
+ * <kds-tooltip text="Delete row" placement="top">
+ *   <kds-button icon-position="only" aria-label="Delete">…</kds-button>
+ * </kds-tooltip>
+ *
+ * <!-- Anchored to a trigger elsewhere in the document -->
+ * <kds-button id="save-btn">Save</kds-button>
+ * <kds-tooltip for="save-btn" text="Saves a draft" placement="bottom"></kds-tooltip>
+ *
+ * <!-- Flips and shifts to stay visible; the arrow is chosen at runtime -->
+ * <kds-tooltip for="save-btn" text="Saves a draft" placement="auto"></kds-tooltip>
  * ```
  *
+ * Without a trigger the tooltip renders as a static bubble. With a trigger
+ * (`for` or slotted content) it is hidden until the trigger is hovered or
+ * focused, opens after `show-delay`, stays open while the pointer is over the
+ * bubble, closes after `hide-delay` or on Escape, and is referenced from the
+ * trigger's `aria-describedby` (WCAG 1.4.13). An anchored tooltip always points
+ * its arrow at the trigger from the `placement` side; `arrow` only picks the
+ * position along that edge (`bottom-left` / `bottom-right` for `top`).
+ *
+ * @slot - Trigger element the tooltip is anchored to
  * @slot text - Tooltip title text (alternative to text property)
  * @slot supporting-text - Supporting description text (alternative to supporting-text property)
+ *
+ * @fires {CustomEvent} kds-tooltip-show - Fired when an anchored tooltip opens
+ * @fires {CustomEvent} kds-tooltip-hide - Fired when an anchored tooltip closes
  */
 @customElement('kds-tooltip')
 export class KdsTooltip extends LitElement {
@@ -59,6 +116,30 @@ export class KdsTooltip extends LitElement {
       font-family: var(--kds-font-family, 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif);
     }
 
+    /* Anchored bubble - positioned against the trigger, hidden until open */
+    .bubble.anchored {
+      position: fixed;
+      top: 0;
+      left: 0;
+      z-index: var(--kds-tooltip-z-index, 1000);
+      visibility: hidden;
+      opacity: 0;
+      pointer-events: none;
+      transition: opacity 0.15s ease;
+    }
+
+    .bubble.anchored.open {
+      visibility: visible;
+      opacity: 1;
+      pointer-events: auto;
+    }
+
+    @media (prefers-reduced-motion: reduce) {
+      .bubble.anchored {
+        transition: none;
+      }
+    }
+
     /* Tooltip container */
     .tooltip {
       display: inline-flex;
@@ -275,7 +356,8 @@ export class KdsTooltip extends LitElement {
   theme: TooltipTheme = 'light';
 
   /**
-   * Arrow position
+   * Arrow position. Anchored tooltips derive it from `placement` and only keep
+   * an arrow that sits on the edge facing the trigger.
    * @default 'none'
    */
   @property({ type: String, reflect: true })
@@ -293,13 +375,473 @@ export class KdsTooltip extends LitElement {
   @property({ type: String, attribute: 'supporting-text' })
   supportingText?: string;
 
+  /**
+   * Id of the trigger element, looked up in the tooltip's own document or shadow root
+   */
+  @property({ type: String, attribute: 'for' })
+  htmlFor?: string;
+
+  /**
+   * Side of the trigger the tooltip opens on. `auto` picks the first side with
+   * room (top, bottom, right, left) inside the viewport and any clipping scroll
+   * container, shifts the bubble to stay in bounds and overrides `arrow`.
+   * @default 'top'
+   */
+  @property({ type: String, reflect: true })
+  placement: TooltipPlacement = 'top';
+
+  /**
+   * Delay in ms before opening on hover/focus
+   * @default 300
+   */
+  @property({ type: Number, attribute: 'show-delay' })
+  showDelay = 300;
+
+  /**
+   * Delay in ms before closing once the pointer or focus leaves
+   * @default 100
+   */
+  @property({ type: Number, attribute: 'hide-delay' })
+  hideDelay = 100;
+
+  /**
+   * Whether an anchored tooltip is visible. Set by hover/focus; may also be set manually.
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  open = false;
+
+  @state()
+  private _hasSlottedTrigger = false;
+
+  @state()
+  private _position = { top: 0, left: 0 };
+
+  /** Arrow resolved by `placement="auto"`; `null` until first positioned. */
+  @state()
+  private _autoArrow: TooltipArrow | null = null;
+
+  @query('.bubble')
+  private _bubble?: HTMLElement;
+
+  private _trigger: HTMLElement | null = null;
+
+  /** Hidden light-DOM description referenced by a slotted trigger. */
+  private _description: HTMLElement | null = null;
+
+  /** Id written onto the host for a `for` trigger; removed again on detach. */
+  private _generatedId = '';
+
+  private _showTimer?: ReturnType<typeof setTimeout>;
+  private _hideTimer?: ReturnType<typeof setTimeout>;
+
+  private get _isAnchored(): boolean {
+    return !!this.htmlFor || this._hasSlottedTrigger;
+  }
+
+  private get _effectiveArrow(): TooltipArrow {
+    if (!this._isAnchored) return this.arrow;
+    if (this.placement === 'auto') return this._autoArrow ?? 'bottom-center';
+
+    const arrows = SIDE_ARROWS[this.placement];
+    return arrows.includes(this.arrow) ? this.arrow : arrows[0];
+  }
+
+  override connectedCallback() {
+    super.connectedCallback();
+    if (this.hasUpdated) {
+      this._attachTrigger();
+    }
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this._detachTrigger();
+    this._clearTimers();
+    this._removeOpenListeners();
+  }
+
+  override updated(changed: PropertyValues<this>) {
+    if (changed.has('htmlFor') || changed.has('_hasSlottedTrigger' as keyof KdsTooltip)) {
+      this._attachTrigger();
+    }
+
+    if (changed.has('text') || changed.has('supportingText')) {
+      this._updateDescription();
+    }
+
+    if (changed.has('open')) {
+      if (this.open && this._isAnchored) {
+        this._addOpenListeners();
+        this._updatePosition();
+      } else {
+        this._removeOpenListeners();
+      }
+
+      if (changed.get('open') !== undefined) {
+        this.dispatchEvent(
+          new CustomEvent(this.open ? 'kds-tooltip-show' : 'kds-tooltip-hide', {
+            bubbles: true,
+            composed: true,
+          })
+        );
+      }
+    } else if ((changed.has('placement') || changed.has('arrow')) && this.open) {
+      this._updatePosition();
+    } else if (changed.has('_autoArrow' as keyof KdsTooltip) && this.open) {
+      // A new arrow changes the bubble size; re-measure without re-picking the side
+      this._updatePosition(false);
+    }
+  }
+
+  /** Opens an anchored tooltip immediately. */
+  show() {
+    this._clearTimers();
+    this.open = true;
+  }
+
+  /** Closes an anchored tooltip immediately. */
+  hide() {
+    this._clearTimers();
+    this.open = false;
+  }
+
+  private _handleSlotChange(event: Event) {
+    const slot = event.target as HTMLSlotElement;
+    this._hasSlottedTrigger = slot.assignedElements({ flatten: true }).length > 0;
+  }
+
+  private _findTrigger(): HTMLElement | null {
+    if (this.htmlFor) {
+      const root = this.getRootNode() as Document | ShadowRoot;
+      return root.getElementById?.(this.htmlFor) ?? null;
+    }
+
+    const slot = this.renderRoot.querySelector<HTMLSlotElement>('slot:not([name])');
+    return (slot?.assignedElements({ flatten: true })[0] as HTMLElement | undefined) ?? null;
+  }
+
+  private _attachTrigger() {
+    const trigger = this._findTrigger();
+    if (trigger === this._trigger) return;
+
+    this._detachTrigger();
+    this._trigger = trigger;
+    if (!trigger) return;
+
+    trigger.addEventListener('mouseenter', this._scheduleShow);
+    trigger.addEventListener('mouseleave', this._scheduleHide);
+    trigger.addEventListener('focusin', this._scheduleShow);
+    trigger.addEventListener('focusout', this._scheduleHide);
+
+    // A wrapped trigger is a child of the host, so it can't point at the host
+    // itself without describing itself; it points at a hidden copy of the text.
+    const describedById = this.htmlFor ? this._ensureId() : this._ensureDescription().id;
+    const ids = (trigger.getAttribute('aria-describedby') ?? '').split(/\s+/).filter(Boolean);
+    if (!ids.includes(describedById)) {
+      trigger.setAttribute('aria-describedby', [...ids, describedById].join(' '));
+    }
+  }
+
+  private _detachTrigger() {
+    const trigger = this._trigger;
+    if (!trigger) return;
+
+    trigger.removeEventListener('mouseenter', this._scheduleShow);
+    trigger.removeEventListener('mouseleave', this._scheduleHide);
+    trigger.removeEventListener('focusin', this._scheduleShow);
+    trigger.removeEventListener('focusout', this._scheduleHide);
+
+    const ids = (trigger.getAttribute('aria-describedby') ?? '')
+      .split(/\s+/)
+      .filter((id) => id && id !== this.id && id !== this._description?.id);
+    if (ids.length) {
+      trigger.setAttribute('aria-describedby', ids.join(' '));
+    } else {
+      trigger.removeAttribute('aria-describedby');
+    }
+
+    this._description?.remove();
+    this._description = null;
+    this._trigger = null;
+
+    if (this._generatedId && this.id === this._generatedId) {
+      this.removeAttribute('id');
+    }
+    this._generatedId = '';
+  }
+
+  /** The host's id, generated only when a `for` trigger has to reference it. */
+  private _ensureId(): string {
+    if (!this.id) {
+      this._generatedId = `kds-tooltip-${++tooltipCounter}`;
+      this.id = this._generatedId;
+    }
+    return this.id;
+  }
+
+  private _ensureDescription(): HTMLElement {
+    if (!this._description) {
+      this._description = document.createElement('span');
+      this._description.id = `${this.id || `kds-tooltip-${++tooltipCounter}`}-description`;
+      this._description.hidden = true;
+      // Unmatched slot name: kept out of the rendered tree
+      this._description.slot = 'kds-tooltip-description';
+      this.appendChild(this._description);
+    }
+    this._updateDescription();
+    return this._description;
+  }
+
+  private _updateDescription() {
+    if (!this._description) return;
+
+    const slotted = (name: string) =>
+      this.querySelector(`[slot="${name}"]`)?.textContent?.trim();
+    this._description.textContent = [
+      this.text || slotted('text'),
+      this.supportingText || slotted('supporting-text'),
+    ].filter(Boolean).join('. ');
+  }
+
+  private _scheduleShow = () => {
+    clearTimeout(this._hideTimer);
+    if (this.open) return;
+    clearTimeout(this._showTimer);
+    this._showTimer = setTimeout(() => {
+      this.open = true;
+    }, this.showDelay);
+  };
+
+  private _scheduleHide = () => {
+    clearTimeout(this._showTimer);
+    clearTimeout(this._hideTimer);
+    this._hideTimer = setTimeout(() => {
+      this.open = false;
+    }, this.hideDelay);
+  };
+
+  private _clearTimers() {
+    clearTimeout(this._showTimer);
+    clearTimeout(this._hideTimer);
+  }
+
+  private _handleKeyDown = (event: KeyboardEvent) => {
+    if (event.key === 'Escape' && this.open) {
+      this.hide();
+    }
+  };
+
+  private _handleViewportChange = () => {
+    this._updatePosition();
+  };
+
+  private _addOpenListeners() {
+    document.addEventListener('keydown', this._handleKeyDown);
+    window.addEventListener('scroll', this._handleViewportChange, true);
+    window.addEventListener('resize', this._handleViewportChange);
+  }
+
+  private _removeOpenListeners() {
+    document.removeEventListener('keydown', this._handleKeyDown);
+    window.removeEventListener('scroll', this._handleViewportChange, true);
+    window.removeEventListener('resize', this._handleViewportChange);
+  }
+
+  private _updatePosition(resolveAuto = true) {
+    const trigger = this._trigger;
+    const bubble = this._bubble;
+    if (!trigger || !bubble) return;
+
+    const t = trigger.getBoundingClientRect();
+    const b = bubble.getBoundingClientRect();
+
+    if (this.placement === 'auto') {
+      this._updateAutoPosition(t, b, resolveAuto);
+      return;
+    }
+
+    let { top, left } = this._placeOnSide(this.placement, t, b);
+
+    // Off-centre arrows point at the trigger centre from near the bubble edge
+    const arrow = this._effectiveArrow;
+    const centerX = t.left + t.width / 2;
+    if (arrow === 'bottom-left') {
+      left = centerX - ARROW_INSET;
+    } else if (arrow === 'bottom-right') {
+      left = centerX - b.width + ARROW_INSET;
+    }
+
+    this._position = { top, left };
+  }
+
+  private _placeOnSide(side: TooltipSide, t: DOMRect, b: DOMRect) {
+    const centerX = t.left + t.width / 2;
+    const centerY = t.top + t.height / 2;
+
+    switch (side) {
+      case 'bottom':
+        return { top: t.bottom + TRIGGER_OFFSET, left: centerX - b.width / 2 };
+      case 'left':
+        return { top: centerY - b.height / 2, left: t.left - b.width - TRIGGER_OFFSET };
+      case 'right':
+        return { top: centerY - b.height / 2, left: t.right + TRIGGER_OFFSET };
+      case 'top':
+      default:
+        return { top: t.top - b.height - TRIGGER_OFFSET, left: centerX - b.width / 2 };
+    }
+  }
+
+  /** Side the current auto arrow belongs to, e.g. `bottom-center` → `top`. */
+  private _sideForArrow(arrow: TooltipArrow | null): TooltipSide | null {
+    switch (arrow) {
+      case 'bottom-center':
+      case 'bottom-left':
+      case 'bottom-right':
+        return 'top';
+      case 'top-center':
+        return 'bottom';
+      case 'right':
+        return 'left';
+      case 'left':
+        return 'right';
+      default:
+        return null;
+    }
+  }
+
+  private _updateAutoPosition(t: DOMRect, b: DOMRect, resolveSide: boolean) {
+    const bounds = this._getClipBounds();
+    const side = (!resolveSide && this._sideForArrow(this._autoArrow)) || this._pickSide(t, b, bounds);
+    let { top, left } = this._placeOnSide(side, t, b);
+    let arrow: TooltipArrow;
+
+    const clamp = (value: number, min: number, max: number) =>
+      Math.max(min, Math.min(value, Math.max(min, max)));
+    const minLeft = bounds.left + VIEWPORT_PADDING;
+    const maxLeft = bounds.right - b.width - VIEWPORT_PADDING;
+
+    if (side === 'top') {
+      // Shift along the edge, then move the arrow off-centre if the trigger
+      // centre is no longer under the middle of the bubble
+      const centerX = t.left + t.width / 2;
+      const shifted = clamp(left, minLeft, maxLeft);
+      const offset = centerX - shifted;
+      if (offset < b.width / 3) {
+        arrow = 'bottom-left';
+        left = clamp(centerX - ARROW_INSET, minLeft, maxLeft);
+      } else if (offset > (b.width * 2) / 3) {
+        arrow = 'bottom-right';
+        left = clamp(centerX - b.width + ARROW_INSET, minLeft, maxLeft);
+      } else {
+        arrow = 'bottom-center';
+        left = shifted;
+      }
+    } else if (side === 'bottom') {
+      arrow = 'top-center';
+      left = clamp(left, minLeft, maxLeft);
+    } else {
+      arrow = side === 'left' ? 'right' : 'left';
+      top = clamp(top, bounds.top + VIEWPORT_PADDING, bounds.bottom - b.height - VIEWPORT_PADDING);
+    }
+
+    this._autoArrow = arrow;
+    this._position = { top, left };
+  }
+
+  /** First side in `AUTO_SIDES` that fits, otherwise the side with the most room. */
+  private _pickSide(t: DOMRect, b: DOMRect, bounds: ClipBounds): TooltipSide {
+    const room: Record<TooltipSide, number> = {
+      top: t.top - bounds.top - b.height,
+      bottom: bounds.bottom - t.bottom - b.height,
+      left: t.left - bounds.left - b.width,
+      right: bounds.right - t.right - b.width,
+    };
+    const needed = TRIGGER_OFFSET + VIEWPORT_PADDING;
+
+    return (
+      AUTO_SIDES.find((side) => room[side] >= needed) ??
+      AUTO_SIDES.reduce((best, side) => (room[side] > room[best] ? side : best))
+    );
+  }
+
+  /**
+   * Visible area the bubble should stay in: the viewport intersected with every
+   * ancestor of the trigger that clips its overflow, crossing shadow roots.
+   */
+  private _getClipBounds(): ClipBounds {
+    const bounds: ClipBounds = {
+      top: 0,
+      left: 0,
+      right: document.documentElement.clientWidth || window.innerWidth,
+      bottom: document.documentElement.clientHeight || window.innerHeight,
+    };
+
+    let node: Element | null = this._trigger;
+    while (node) {
+      const parent: Element | null =
+        node.parentElement ?? ((node.getRootNode() as ShadowRoot).host || null);
+      node = parent;
+      if (!node || node === document.documentElement || node === document.body) break;
+
+      const style = getComputedStyle(node);
+      if (!/(auto|scroll|hidden|clip)/.test(style.overflow + style.overflowX + style.overflowY)) {
+        continue;
+      }
+
+      const rect = node.getBoundingClientRect();
+      bounds.top = Math.max(bounds.top, rect.top + node.clientTop);
+      bounds.left = Math.max(bounds.left, rect.left + node.clientLeft);
+      bounds.right = Math.min(bounds.right, rect.left + node.clientLeft + node.clientWidth);
+      bounds.bottom = Math.min(bounds.bottom, rect.top + node.clientTop + node.clientHeight);
+    }
+
+    return bounds;
+  }
+
+  private _handleBubbleEnter() {
+    clearTimeout(this._hideTimer);
+  }
+
+  private _handleBubbleLeave() {
+    if (this.open) this._scheduleHide();
+  }
+
   override render() {
+    const anchored = this._isAnchored;
+
+    const bubbleClasses = {
+      bubble: true,
+      anchored,
+      open: anchored && this.open,
+    };
+
+    const bubbleStyles = anchored
+      ? { transform: `translate(${Math.round(this._position.left)}px, ${Math.round(this._position.top)}px)` }
+      : {};
+
+    return html`
+      <slot @slotchange=${this._handleSlotChange}></slot>
+      <div
+        class=${classMap(bubbleClasses)}
+        part="bubble"
+        style=${styleMap(bubbleStyles)}
+        @mouseenter=${this._handleBubbleEnter}
+        @mouseleave=${this._handleBubbleLeave}
+      >
+        ${this._renderTooltip()}
+      </div>
+    `;
+  }
+
+  private _renderTooltip() {
+    const arrow = this._effectiveArrow;
     const hasSupportingText = !!this.supportingText;
 
     const tooltipClasses = {
       tooltip: true,
       [`theme-${this.theme}`]: true,
-      [`arrow-${this.arrow}`]: true,
+      [`arrow-${arrow}`]: true,
       'has-supporting': hasSupportingText,
     };
 
@@ -309,17 +851,17 @@ export class KdsTooltip extends LitElement {
       'with-supporting': hasSupportingText,
     };
 
-    const arrowEl = this.arrow !== 'none'
+    const arrowEl = arrow !== 'none'
       ? html`<span class="arrow" role="presentation"></span>`
       : nothing;
 
     // Top arrow comes before content
-    const topArrow = this.arrow === 'top-center' ? arrowEl : nothing;
+    const topArrow = arrow === 'top-center' ? arrowEl : nothing;
     // Left arrow comes before content
-    const leftArrow = this.arrow === 'left' ? arrowEl : nothing;
+    const leftArrow = arrow === 'left' ? arrowEl : nothing;
     // Bottom/right arrows come after content
     const bottomOrRightArrow =
-      this.arrow !== 'none' && this.arrow !== 'top-center' && this.arrow !== 'left'
+      arrow !== 'none' && arrow !== 'top-center' && arrow !== 'left'
         ? arrowEl
         : nothing;
 
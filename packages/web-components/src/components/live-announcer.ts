@@ -0,0 +1,37 @@
+/**
+ * @package @kds/web-components
+ * @description Shared aria-live regions for components that announce status changes
+ * @author Kilian Sala <kilian@kapsch.net>
+ */
+
+/** Delay before text is written to the live region, so it is announced as a change, in ms */
+const ANNOUNCE_DELAY = 100;
+
+let announcer: { polite: HTMLElement; assertive: HTMLElement } | null = null;
+
+/**
+ * Announces text through document-level live regions. They live in the light
+ * DOM and exist before the text is written, so screen readers pick up every
+ * change without a region per element.
+ */
+export function announce(text: string, assertive = false) {
+  if (!announcer) {
+    const create = (live: 'polite' | 'assertive') => {
+      const region = document.createElement('div');
+      region.setAttribute('aria-live', live);
+      region.setAttribute('aria-atomic', 'true');
+      region.setAttribute('data-kds-announcer', live);
+      region.style.cssText =
+        'position:absolute;width:1px;height:1px;margin:-1px;padding:0;overflow:hidden;clip:rect(0,0,0,0);white-space:nowrap;border:0;';
+      document.body.append(region);
+      return region;
+    };
+    announcer = { polite: create('polite'), assertive: create('assertive') };
+  }
+
+  const region = assertive ? announcer.assertive : announcer.polite;
+  region.textContent = '';
+  setTimeout(() => {
+    region.textContent = text;
+  }, ANNOUNCE_DELAY);
+}
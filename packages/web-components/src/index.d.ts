@@ -1,9 +0,0 @@
-/**
- * @package @kds/web-components
- * @description Web Components built with LIT for Kapsch Design System
- * @author Kilian Sala <kilian@kapsch.net>
- */
-export { KdsButton } from './components/kds-button.js';
-export type { ButtonSize, ButtonHierarchy, IconPosition } from './components/kds-button.js';
-export declare const version = "0.1.0";
-//# sourceMappingURL=index.d.ts.map
\ No newline at end of file
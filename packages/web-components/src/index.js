@@ -1,8 +0,0 @@
-/**
- * @package @kds/web-components
- * @description Web Components built with LIT for Kapsch Design System
- * @author Kilian Sala <kilian@kapsch.net>
- */
-export { KdsButton } from './components/kds-button.js';
-export const version = '0.1.0';
-//# sourceMappingURL=index.js.map
\ No newline at end of file
@@ -20,15 +20,70 @@ export { KdsToggle } from './components/kds-toggle.js';
 export type { ToggleSize } from './components/kds-toggle.js';
 
 export { KdsTooltip } from './components/kds-tooltip.js';
-export type { TooltipTheme, TooltipArrow } from './components/kds-tooltip.js';
+export type { TooltipTheme, TooltipArrow, TooltipPlacement } from './components/kds-tooltip.js';
 
 export { KdsBadge } from './components/kds-badge.js';
 export type { BadgeSize, BadgeColor, BadgeIcon } from './components/kds-badge.js';
 
 export { KdsButtonGroup, KdsButtonGroupItem } from './components/kds-button-group.js';
-export type { ButtonGroupItemIcon } from './components/kds-button-group.js';
+export type { ButtonGroupItemIcon, ButtonGroupSelection } from './components/kds-button-group.js';
 
 export { KdsInputField } from './components/kds-input-field.js';
-export type { InputFieldType } from './components/kds-input-field.js';
+export type { InputFieldType, InputFieldValidator } from './components/kds-input-field.js';
+
+export { KdsCheckboxGroup } from './components/kds-checkbox-group.js';
+export type { CheckboxGroupOrientation } from './components/kds-checkbox-group.js';
+
+export { KdsRadio } from './components/kds-radio.js';
+export type { RadioSize } from './components/kds-radio.js';
+
+export { KdsRadioGroup } from './components/kds-radio-group.js';
+export type { RadioGroupOrientation } from './components/kds-radio-group.js';
+
+export { KdsSelect, KdsOption, KdsOptionGroup } from './components/kds-select.js';
+
+export { KdsTextarea } from './components/kds-textarea.js';
+export type { TextareaValidator } from './components/kds-textarea.js';
+
+export { KdsDialog } from './components/kds-dialog.js';
+export type { DialogSize } from './components/kds-dialog.js';
+
+export { KdsToast, KdsToastRegion, toast } from './components/kds-toast.js';
+export type { ToastVariant, ToastPosition, ToastCloseReason, ToastOptions } from './components/kds-toast.js';
+
+export { KdsTabs, KdsTab, KdsTabPanel } from './components/kds-tabs.js';
+export type { TabsOrientation, TabsActivation } from './components/kds-tabs.js';
+
+export { KdsMenu, KdsMenuItem, KdsMenuSeparator } from './components/kds-menu.js';
+export type { MenuPlacement, MenuItemType } from './components/kds-menu.js';
+
+export { KdsProgressBar } from './components/kds-progress-bar.js';
+export type { ProgressVariant, ProgressValuePosition } from './components/kds-progress-bar.js';
+
+export { KdsSpinner } from './components/kds-spinner.js';
+export type { SpinnerSize } from './components/kds-spinner.js';
+
+export { KdsSlider } from './components/kds-slider.js';
+export type { SliderTooltip, SliderThumb, SliderValueDetail } from './components/kds-slider.js';
+
+export { KdsDatePicker } from './components/kds-date-picker.js';
+export type { DatePickerValueDetail } from './components/kds-date-picker.js';
+
+export { KdsPagination } from './components/kds-pagination.js';
+export type { PageChangeDetail } from './components/kds-pagination.js';
+
+export { KdsTable } from './components/kds-table.js';
+export type { TableRow, TableColumn, TableColumnAlign, TableSortDirection, TableSortDetail, TableSelectionDetail } from './components/kds-table.js';
+
+export { KdsAvatar } from './components/kds-avatar.js';
+export type { AvatarSize, AvatarStatus } from './components/kds-avatar.js';
+
+export { KdsAvatarGroup } from './components/kds-avatar-group.js';
+
+export { KdsAlert } from './components/kds-alert.js';
+export type { AlertColor } from './components/kds-alert.js';
+
+export { KdsFileUpload } from './components/kds-file-upload.js';
+export type { FileUploadItem, FileRejection, FileRejectionReason, FileAddDetail, FileRemoveDetail, FileRejectDetail } from './components/kds-file-upload.js';
 
 export const version = '0.1.0';
@@ -0,0 +1,103 @@
+/**
+ * @package @kds/angular
+ * @component KdsAlertComponent
+ * @description Angular component wrapper for kds-alert web component
+ */
+
+import {
+  Component,
+  Input,
+  Output,
+  EventEmitter,
+  ViewChild,
+  ElementRef,
+  AfterViewInit,
+  OnDestroy,
+  CUSTOM_ELEMENTS_SCHEMA
+} from '@angular/core';
+import type { AlertColor } from '@kds/web-components';
+
+/**
+ * Angular wrapper for the Alert web component
+ *
+ * @example
+ * ```html
+ * <kds-alert-wrapper
+ *   color="warning"
+ *   heading="Scheduled maintenance"
+ *   [dismissible]="true"
+ *   (dismiss)="showNotice = false"
+ * >
+ *   The toll portal is unavailable on Sunday from 02:00 to 04:00.
+ *   <kds-button slot="actions" hierarchy="link-gray" size="sm">Learn more</kds-button>
+ * </kds-alert-wrapper>
+ * ```
+ */
+@Component({
+  selector: 'kds-alert-wrapper',
+  standalone: true,
+  schemas: [CUSTOM_ELEMENTS_SCHEMA],
+  template: `
+    <kds-alert
+      #alertElement
+      [attr.color]="color"
+      [attr.heading]="heading"
+      [attr.dismissible]="dismissible ? '' : null"
+      [attr.close-label]="closeLabel"
+    >
+      <ng-content></ng-content>
+    </kds-alert>
+  `,
+  styles: [`
+    :host {
+      display: block;
+    }
+  `]
+})
+export class KdsAlertComponent implements AfterViewInit, OnDestroy {
+  @ViewChild('alertElement', { static: true }) alertElement!: ElementRef<HTMLElement>;
+
+  /**
+   * Severity color
+   * @default 'gray'
+   */
+  @Input() color: AlertColor = 'gray';
+
+  /**
+   * Bold title
+   */
+  @Input() heading?: string;
+
+  /**
+   * Show a dismiss button
+   * @default false
+   */
+  @Input() dismissible = false;
+
+  /**
+   * Accessible label of the dismiss button
+   * @default 'Dismiss'
+   */
+  @Input() closeLabel?: string;
+
+  /**
+   * Emits when the alert is dismissed; the alert hides itself
+   */
+  @Output() dismiss = new EventEmitter<CustomEvent>();
+
+  private dismissListener?: (event: Event) => void;
+
+  ngAfterViewInit(): void {
+    this.dismissListener = (event: Event) => {
+      this.dismiss.emit(event as CustomEvent);
+    };
+
+    this.alertElement.nativeElement.addEventListener('kds-alert-dismiss', this.dismissListener);
+  }
+
+  ngOnDestroy(): void {
+    if (this.dismissListener) {
+      this.alertElement.nativeElement.removeEventListener('kds-alert-dismiss', this.dismissListener);
+    }
+  }
+}
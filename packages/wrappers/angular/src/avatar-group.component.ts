@@ -0,0 +1,59 @@
+/**
+ * @package @kds/angular
+ * @component KdsAvatarGroupComponent
+ * @description Angular component wrapper for kds-avatar-group web component
+ */
+
+import { Component, Input, CUSTOM_ELEMENTS_SCHEMA } from '@angular/core';
+import type { AvatarSize } from '@kds/web-components';
+
+/**
+ * Angular wrapper for the Avatar Group web component
+ *
+ * Project `kds-avatar` elements directly, so the group can size and count them.
+ *
+ * @example
+ * ```html
+ * <kds-avatar-group-wrapper ariaLabel="Shift operators" [max]="4">
+ *   <kds-avatar *ngFor="let user of operators" [attr.src]="user.photoUrl" [attr.name]="user.name"></kds-avatar>
+ * </kds-avatar-group-wrapper>
+ * ```
+ */
+@Component({
+  selector: 'kds-avatar-group-wrapper',
+  standalone: true,
+  schemas: [CUSTOM_ELEMENTS_SCHEMA],
+  template: `
+    <kds-avatar-group
+      [attr.size]="size"
+      [attr.max]="max"
+      [attr.aria-label]="ariaLabel"
+    >
+      <ng-content></ng-content>
+    </kds-avatar-group>
+  `,
+  styles: [`
+    :host {
+      display: inline-flex;
+      vertical-align: middle;
+    }
+  `]
+})
+export class KdsAvatarGroupComponent {
+  /**
+   * Size of every avatar in the group; replaces the avatars' own size
+   * @default 'sm'
+   */
+  @Input() size: AvatarSize = 'sm';
+
+  /**
+   * Most avatars to show before the "+N" avatar; 0 shows all
+   * @default 0
+   */
+  @Input() max?: number;
+
+  /**
+   * ARIA label of the group
+   */
+  @Input() ariaLabel?: string;
+}
@@ -0,0 +1,71 @@
+/**
+ * @package @kds/angular
+ * @component KdsAvatarComponent
+ * @description Angular component wrapper for kds-avatar web component
+ */
+
+import { Component, Input, CUSTOM_ELEMENTS_SCHEMA } from '@angular/core';
+import type { AvatarSize, AvatarStatus } from '@kds/web-components';
+
+/**
+ * Angular wrapper for the Avatar web component
+ *
+ * @example
+ * ```html
+ * <kds-avatar-wrapper [src]="user.photoUrl" [name]="user.name" status="online"></kds-avatar-wrapper>
+ * ```
+ */
+@Component({
+  selector: 'kds-avatar-wrapper',
+  standalone: true,
+  schemas: [CUSTOM_ELEMENTS_SCHEMA],
+  template: `
+    <kds-avatar
+      [attr.src]="src"
+      [attr.name]="name"
+      [attr.initials]="initials"
+      [attr.size]="size"
+      [attr.status]="status"
+      [attr.aria-label]="ariaLabel"
+    ></kds-avatar>
+  `,
+  styles: [`
+    :host {
+      display: inline-flex;
+      vertical-align: middle;
+    }
+  `]
+})
+export class KdsAvatarComponent {
+  /**
+   * Image URL
+   */
+  @Input() src?: string;
+
+  /**
+   * Person's name: names the avatar and provides the initials
+   */
+  @Input() name?: string;
+
+  /**
+   * Initials shown without an image; derived from name when empty
+   */
+  @Input() initials?: string;
+
+  /**
+   * Avatar size
+   * @default 'md'
+   */
+  @Input() size: AvatarSize = 'md';
+
+  /**
+   * Presence shown as a dot in the corner
+   * @default 'none'
+   */
+  @Input() status: AvatarStatus = 'none';
+
+  /**
+   * ARIA label (defaults to the name and status)
+   */
+  @Input() ariaLabel?: string;
+}
@@ -12,10 +12,12 @@ import {
   ViewChild,
   ElementRef,
   AfterViewInit,
+  OnChanges,
+  SimpleChanges,
   OnDestroy,
   CUSTOM_ELEMENTS_SCHEMA
 } from '@angular/core';
-import type { ButtonGroupItemIcon } from '@kds/web-components';
+import type { ButtonGroupItemIcon, ButtonGroupSelection } from '@kds/web-components';
 
 /**
  * Angular wrapper for the Button Group container
@@ -26,6 +28,16 @@ import type { ButtonGroupItemIcon } from '@kds/web-components';
  *   <kds-button-group-item-wrapper [selected]="true">Tab 1</kds-button-group-item-wrapper>
  *   <kds-button-group-item-wrapper>Tab 2</kds-button-group-item-wrapper>
  * </kds-button-group-wrapper>
+ *
+ * <!-- Segmented control -->
+ * <kds-button-group-wrapper
+ *   selection="single"
+ *   [value]="range"
+ *   (buttonGroupChange)="range = $event.detail.value"
+ * >
+ *   <kds-button-group-item-wrapper value="day">Day</kds-button-group-item-wrapper>
+ *   <kds-button-group-item-wrapper value="week">Week</kds-button-group-item-wrapper>
+ * </kds-button-group-wrapper>
  * ```
  */
 @Component({
@@ -36,6 +48,8 @@ import type { ButtonGroupItemIcon } from '@kds/web-components';
     <kds-button-group
       #groupElement
       [attr.aria-label]="ariaLabel"
+      [attr.selection]="selection"
+      [attr.value]="value"
     >
       <ng-content></ng-content>
     </kds-button-group>
@@ -46,13 +60,70 @@ import type { ButtonGroupItemIcon } from '@kds/web-components';
     }
   `]
 })
-export class KdsButtonGroupComponent {
+export class KdsButtonGroupComponent implements AfterViewInit, OnChanges, OnDestroy {
   @ViewChild('groupElement', { static: true }) groupElement!: ElementRef<HTMLElement>;
 
   /**
    * ARIA label for the group
    */
   @Input() ariaLabel?: string;
+
+  /**
+   * How the group manages item selection
+   * @default 'none'
+   */
+  @Input() selection: ButtonGroupSelection = 'none';
+
+  /**
+   * Value of the selected item (single mode)
+   */
+  @Input() value?: string;
+
+  /**
+   * Values of the selected items (multiple mode)
+   */
+  @Input() values?: string[];
+
+  /**
+   * Emits when the user changes the selection; `detail` holds `{ value, values }`
+   */
+  @Output() buttonGroupChange = new EventEmitter<CustomEvent<{ value: string; values: string[] }>>();
+
+  private changeListener?: (event: Event) => void;
+
+  ngAfterViewInit(): void {
+    this.changeListener = (event: Event) => {
+      this.buttonGroupChange.emit(event as CustomEvent<{ value: string; values: string[] }>);
+    };
+
+    this.groupElement.nativeElement.addEventListener(
+      'kds-button-group-change',
+      this.changeListener
+    );
+    this._syncValues();
+  }
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['values'] && this.groupElement) {
+      this._syncValues();
+    }
+  }
+
+  ngOnDestroy(): void {
+    if (this.changeListener) {
+      this.groupElement.nativeElement.removeEventListener(
+        'kds-button-group-change',
+        this.changeListener
+      );
+    }
+  }
+
+  private _syncValues(): void {
+    const el = this.groupElement?.nativeElement as any;
+    if (el && this.values !== undefined) {
+      el.values = this.values;
+    }
+  }
 }
 
 /**
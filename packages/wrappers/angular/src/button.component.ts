@@ -55,7 +55,21 @@ import type { ButtonSize, ButtonHierarchy, IconPosition } from '@kds/web-compone
       [attr.icon-position]="iconPosition"
       [attr.destructive]="destructive ? '' : null"
       [attr.disabled]="disabled ? '' : null"
+      [attr.loading]="loading ? '' : null"
+      [attr.loading-text]="loadingText"
       [attr.type]="type"
+      [attr.name]="name"
+      [attr.value]="value"
+      [attr.form]="form"
+      [attr.formaction]="formAction"
+      [attr.formmethod]="formMethod"
+      [attr.formenctype]="formEnctype"
+      [attr.formtarget]="formTarget"
+      [attr.formnovalidate]="formNoValidate ? '' : null"
+      [attr.href]="href"
+      [attr.target]="target"
+      [attr.rel]="rel"
+      [attr.download]="download"
       [attr.aria-label]="ariaLabel"
     >
       <ng-content></ng-content>
@@ -100,12 +114,85 @@ export class KdsButtonComponent implements AfterViewInit, OnDestroy {
    */
   @Input() disabled: boolean = false;
 
+  /**
+   * Pending state: shows a spinner and blocks clicks
+   * @default false
+   */
+  @Input() loading: boolean = false;
+
+  /**
+   * Text announced to screen readers while loading
+   * @default 'Loading'
+   */
+  @Input() loadingText?: string;
+
   /**
    * Button type attribute
    * @default 'button'
    */
   @Input() type: 'button' | 'submit' | 'reset' = 'button';
 
+  /**
+   * Name submitted with the form when this button submits it
+   */
+  @Input() name?: string;
+
+  /**
+   * Value submitted under name when this button submits the form
+   */
+  @Input() value?: string;
+
+  /**
+   * Id of the form to submit or reset, when the button is outside it
+   */
+  @Input() form?: string;
+
+  /**
+   * URL that processes the submission, overriding the form's action (type="submit" only)
+   */
+  @Input() formAction?: string;
+
+  /**
+   * HTTP method of the submission, overriding the form's method (type="submit" only)
+   */
+  @Input() formMethod?: string;
+
+  /**
+   * Encoding of the submission, overriding the form's enctype (type="submit" only)
+   */
+  @Input() formEnctype?: string;
+
+  /**
+   * Where to show the response, overriding the form's target (type="submit" only)
+   */
+  @Input() formTarget?: string;
+
+  /**
+   * Submits without validating the form (type="submit" only)
+   * @default false
+   */
+  @Input() formNoValidate: boolean = false;
+
+  /**
+   * URL to navigate to. When set, renders a link with the same styling
+   */
+  @Input() href?: string;
+
+  /**
+   * Where to open the linked URL
+   */
+  @Input() target?: string;
+
+  /**
+   * Relationship of the linked URL
+   */
+  @Input() rel?: string;
+
+  /**
+   * Downloads the linked URL; the value is the suggested file name
+   */
+  @Input() download?: string;
+
   /**
    * ARIA label for icon-only buttons
    */
@@ -0,0 +1,178 @@
+/**
+ * @package @kds/angular
+ * @component KdsCheckboxGroupComponent
+ * @description Angular component wrapper for kds-checkbox-group web component
+ */
+
+import {
+  Component,
+  Input,
+  Output,
+  EventEmitter,
+  ViewChild,
+  ElementRef,
+  AfterViewInit,
+  OnChanges,
+  SimpleChanges,
+  OnDestroy,
+  CUSTOM_ELEMENTS_SCHEMA
+} from '@angular/core';
+import type { CheckboxSize, CheckboxGroupOrientation } from '@kds/web-components';
+
+/**
+ * Angular wrapper for the Checkbox Group web component
+ *
+ * @example
+ * ```typescript
+ * import { KdsCheckboxGroupComponent, KdsCheckboxComponent } from '@kds/angular';
+ *
+ * @Component({
+ *   selector: 'app-example',
+ *   template: `
+ *     <kds-checkbox-group-wrapper
+ *       label="Notifications"
+ *       [value]="channels"
+ *       [selectAll]="true"
+ *       (checkboxGroupChange)="channels = $event.detail.value"
+ *     >
+ *       <kds-checkbox-wrapper value="email">Email</kds-checkbox-wrapper>
+ *       <kds-checkbox-wrapper value="sms">SMS</kds-checkbox-wrapper>
+ *     </kds-checkbox-group-wrapper>
+ *   `
+ * })
+ * export class ExampleComponent {
+ *   channels = ['email'];
+ * }
+ * ```
+ */
+@Component({
+  selector: 'kds-checkbox-group-wrapper',
+  standalone: true,
+  schemas: [CUSTOM_ELEMENTS_SCHEMA],
+  template: `
+    <kds-checkbox-group
+      #groupElement
+      [attr.label]="label"
+      [attr.hint]="hint"
+      [attr.orientation]="orientation"
+      [attr.size]="size"
+      [attr.name]="name"
+      [attr.disabled]="disabled ? '' : null"
+      [attr.error]="error ? '' : null"
+      [attr.select-all]="selectAll ? '' : null"
+      [attr.select-all-label]="selectAllLabel"
+      [attr.aria-label]="ariaLabel"
+    >
+      <ng-content></ng-content>
+    </kds-checkbox-group>
+  `,
+  styles: [`
+    :host {
+      display: block;
+    }
+  `]
+})
+export class KdsCheckboxGroupComponent implements AfterViewInit, OnChanges, OnDestroy {
+  @ViewChild('groupElement', { static: true }) groupElement!: ElementRef<HTMLElement>;
+
+  /**
+   * Group label text
+   */
+  @Input() label?: string;
+
+  /**
+   * Hint text below the options (shown as the error message in error state)
+   */
+  @Input() hint?: string;
+
+  /**
+   * Layout of the options
+   * @default 'vertical'
+   */
+  @Input() orientation: CheckboxGroupOrientation = 'vertical';
+
+  /**
+   * Size applied to every option
+   * @default 'md'
+   */
+  @Input() size: CheckboxSize = 'md';
+
+  /**
+   * Name applied to every option for form submission
+   */
+  @Input() name?: string;
+
+  /**
+   * Values of the checked options
+   */
+  @Input() value?: string[];
+
+  /**
+   * Disables every option
+   * @default false
+   */
+  @Input() disabled = false;
+
+  /**
+   * Error state
+   * @default false
+   */
+  @Input() error = false;
+
+  /**
+   * Show a tri-state "select all" parent checkbox
+   * @default false
+   */
+  @Input() selectAll = false;
+
+  /**
+   * Label of the "select all" parent checkbox
+   */
+  @Input() selectAllLabel?: string;
+
+  /**
+   * ARIA label (when there is no visible label)
+   */
+  @Input() ariaLabel?: string;
+
+  /**
+   * Emits when the user changes the checked options; `detail.value` holds the checked values
+   */
+  @Output() checkboxGroupChange = new EventEmitter<CustomEvent<{ value: string[] }>>();
+
+  private changeListener?: (event: Event) => void;
+
+  ngAfterViewInit(): void {
+    this.changeListener = (event: Event) => {
+      this.checkboxGroupChange.emit(event as CustomEvent<{ value: string[] }>);
+    };
+
+    this.groupElement.nativeElement.addEventListener(
+      'kds-checkbox-group-change',
+      this.changeListener
+    );
+    this._syncValue();
+  }
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['value'] && this.groupElement) {
+      this._syncValue();
+    }
+  }
+
+  ngOnDestroy(): void {
+    if (this.changeListener) {
+      this.groupElement.nativeElement.removeEventListener(
+        'kds-checkbox-group-change',
+        this.changeListener
+      );
+    }
+  }
+
+  private _syncValue(): void {
+    const el = this.groupElement?.nativeElement as any;
+    if (el && this.value !== undefined) {
+      el.value = this.value;
+    }
+  }
+}
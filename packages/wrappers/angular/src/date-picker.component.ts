@@ -0,0 +1,187 @@
+/**
+ * @package @kds/angular
+ * @component KdsDatePickerComponent
+ * @description Angular component wrapper for kds-date-picker web component
+ */
+
+import {
+  Component,
+  Input,
+  Output,
+  EventEmitter,
+  ViewChild,
+  ElementRef,
+  AfterViewInit,
+  OnChanges,
+  SimpleChanges,
+  OnDestroy,
+  CUSTOM_ELEMENTS_SCHEMA
+} from '@angular/core';
+import type { DatePickerValueDetail } from '@kds/web-components';
+
+/**
+ * Angular wrapper for the Date Picker web component
+ *
+ * @example
+ * ```html
+ * <kds-date-picker-wrapper
+ *   label="Due date"
+ *   [min]="today"
+ *   [value]="dueDate"
+ *   [isDateDisabled]="isWeekend"
+ *   (dateChange)="dueDate = $event.detail.value"
+ * ></kds-date-picker-wrapper>
+ * ```
+ */
+@Component({
+  selector: 'kds-date-picker-wrapper',
+  standalone: true,
+  schemas: [CUSTOM_ELEMENTS_SCHEMA],
+  template: `
+    <kds-date-picker
+      #pickerElement
+      [attr.label]="label"
+      [attr.hint]="hint"
+      [attr.placeholder]="placeholder"
+      [attr.name]="name"
+      [attr.range]="range ? '' : null"
+      [attr.min]="min"
+      [attr.max]="max"
+      [attr.locale]="locale"
+      [attr.first-day-of-week]="firstDayOfWeek"
+      [attr.required]="required ? '' : null"
+      [attr.disabled]="disabled ? '' : null"
+    ></kds-date-picker>
+  `,
+  styles: [`
+    :host {
+      display: block;
+    }
+  `]
+})
+export class KdsDatePickerComponent implements AfterViewInit, OnChanges, OnDestroy {
+  @ViewChild('pickerElement', { static: true }) pickerElement!: ElementRef<HTMLElement>;
+
+  /**
+   * Label text shown above the field
+   */
+  @Input() label?: string;
+
+  /**
+   * Helper text shown below the field
+   */
+  @Input() hint?: string;
+
+  /**
+   * Placeholder text; defaults to the locale's date pattern
+   */
+  @Input() placeholder?: string;
+
+  /**
+   * Name used when submitting the value with a form
+   */
+  @Input() name?: string;
+
+  /**
+   * Selected date in single mode (YYYY-MM-DD)
+   */
+  @Input() value?: string;
+
+  /**
+   * Range mode, using valueStart and valueEnd
+   * @default false
+   */
+  @Input() range = false;
+
+  /**
+   * First date of the range (YYYY-MM-DD)
+   */
+  @Input() valueStart?: string;
+
+  /**
+   * Last date of the range (YYYY-MM-DD)
+   */
+  @Input() valueEnd?: string;
+
+  /**
+   * Earliest selectable date (YYYY-MM-DD)
+   */
+  @Input() min?: string;
+
+  /**
+   * Latest selectable date (YYYY-MM-DD)
+   */
+  @Input() max?: string;
+
+  /**
+   * Dates that can't be selected (YYYY-MM-DD)
+   */
+  @Input() disabledDates?: string[];
+
+  /**
+   * Disables dates by rule, e.g. weekends
+   */
+  @Input() isDateDisabled?: (date: Date) => boolean;
+
+  /**
+   * BCP 47 locale for formatting and parsing
+   */
+  @Input() locale?: string;
+
+  /**
+   * First day of the week, 0 (Sunday) to 6
+   */
+  @Input() firstDayOfWeek?: number;
+
+  /**
+   * Whether a date must be entered
+   * @default false
+   */
+  @Input() required = false;
+
+  /**
+   * Whether the date picker is disabled
+   * @default false
+   */
+  @Input() disabled = false;
+
+  /**
+   * Emits when the user selects or types a new date; `detail` holds `{ value, valueStart, valueEnd }`
+   */
+  @Output() dateChange = new EventEmitter<CustomEvent<DatePickerValueDetail>>();
+
+  private changeListener?: (event: Event) => void;
+
+  ngAfterViewInit(): void {
+    this.changeListener = (event: Event) => {
+      this.dateChange.emit(event as CustomEvent<DatePickerValueDetail>);
+    };
+
+    this.pickerElement.nativeElement.addEventListener('kds-date-picker-change', this.changeListener);
+    this._syncProperties();
+  }
+
+  ngOnChanges(changes: SimpleChanges): void {
+    const keys = ['value', 'valueStart', 'valueEnd', 'disabledDates', 'isDateDisabled'];
+    if (this.pickerElement && keys.some((key) => changes[key])) {
+      this._syncProperties();
+    }
+  }
+
+  ngOnDestroy(): void {
+    if (this.changeListener) {
+      this.pickerElement.nativeElement.removeEventListener('kds-date-picker-change', this.changeListener);
+    }
+  }
+
+  /** Values, disabled dates and the date filter are set as properties */
+  private _syncProperties(): void {
+    const el = this.pickerElement?.nativeElement as any;
+    if (!el) return;
+    if (this.value !== undefined) el.value = this.value;
+    if (this.valueStart !== undefined) el.valueStart = this.valueStart;
+    if (this.valueEnd !== undefined) el.valueEnd = this.valueEnd;
+    if (this.disabledDates !== undefined) el.disabledDates = this.disabledDates;
+    el.isDateDisabled = this.isDateDisabled ?? null;
+  }
+}
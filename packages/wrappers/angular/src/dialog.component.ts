@@ -0,0 +1,165 @@
+/**
+ * @package @kds/angular
+ * @component KdsDialogComponent
+ * @description Angular component wrapper for kds-dialog web component
+ */
+
+import {
+  Component,
+  Input,
+  Output,
+  EventEmitter,
+  ViewChild,
+  ElementRef,
+  AfterViewInit,
+  OnChanges,
+  SimpleChanges,
+  OnDestroy,
+  CUSTOM_ELEMENTS_SCHEMA
+} from '@angular/core';
+import type { DialogSize } from '@kds/web-components';
+
+/**
+ * Angular wrapper for kds-dialog web component
+ *
+ * @example
+ * ```typescript
+ * @Component({
+ *   selector: 'app-example',
+ *   template: `
+ *     <kds-dialog-wrapper
+ *       [open]="confirmOpen"
+ *       heading="Delete project"
+ *       [destructive]="true"
+ *       confirmLabel="Delete"
+ *       (dialogClose)="onClose($event)"
+ *     >
+ *       This project and all of its data will be permanently deleted.
+ *     </kds-dialog-wrapper>
+ *   `
+ * })
+ * export class ExampleComponent {
+ *   confirmOpen = false;
+ *
+ *   onClose(event: CustomEvent<{ returnValue: string }>) {
+ *     this.confirmOpen = false;
+ *     if (event.detail.returnValue === 'confirm') this.deleteProject();
+ *   }
+ * }
+ * ```
+ */
+@Component({
+  selector: 'kds-dialog-wrapper',
+  standalone: true,
+  schemas: [CUSTOM_ELEMENTS_SCHEMA],
+  template: `
+    <kds-dialog
+      #dialogElement
+      [attr.heading]="heading"
+      [attr.size]="size"
+      [attr.destructive]="destructive ? '' : null"
+      [attr.confirm-label]="confirmLabel"
+      [attr.cancel-label]="cancelLabel"
+      [attr.aria-label]="ariaLabel"
+    >
+      <ng-content></ng-content>
+    </kds-dialog>
+  `,
+  styles: [`
+    :host {
+      display: contents;
+    }
+  `]
+})
+export class KdsDialogComponent implements AfterViewInit, OnChanges, OnDestroy {
+  @ViewChild('dialogElement', { static: true }) dialogElement!: ElementRef<HTMLElement>;
+
+  /**
+   * Whether the dialog is shown
+   * @default false
+   */
+  @Input() open = false;
+
+  /**
+   * Dialog title; also its accessible name
+   */
+  @Input() heading?: string;
+
+  /**
+   * Dialog width
+   * @default 'md'
+   */
+  @Input() size: DialogSize = 'md';
+
+  /**
+   * Destructive confirmation: error featured icon and destructive confirm button
+   * @default false
+   */
+  @Input() destructive = false;
+
+  /**
+   * Label of the built-in confirm button (closes with return value "confirm")
+   */
+  @Input() confirmLabel?: string;
+
+  /**
+   * Label of the built-in cancel button (closes with return value "cancel")
+   */
+  @Input() cancelLabel?: string;
+
+  /**
+   * ARIA label (when there is no heading)
+   */
+  @Input() ariaLabel?: string;
+
+  /**
+   * Emits after the dialog opens
+   */
+  @Output() dialogOpen = new EventEmitter<CustomEvent>();
+
+  /**
+   * Emits after the dialog closes; `detail.returnValue` says how it was closed
+   */
+  @Output() dialogClose = new EventEmitter<CustomEvent<{ returnValue: string }>>();
+
+  private openListener?: (event: Event) => void;
+  private closeListener?: (event: Event) => void;
+
+  ngAfterViewInit(): void {
+    this.openListener = (event: Event) => {
+      this.dialogOpen.emit(event as CustomEvent);
+    };
+    this.closeListener = (event: Event) => {
+      this.dialogClose.emit(event as CustomEvent<{ returnValue: string }>);
+    };
+
+    const el = this.dialogElement.nativeElement;
+    el.addEventListener('kds-dialog-open', this.openListener);
+    el.addEventListener('kds-dialog-close', this.closeListener);
+    this._syncOpen();
+  }
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['open'] && this.dialogElement) {
+      this._syncOpen();
+    }
+  }
+
+  ngOnDestroy(): void {
+    const el = this.dialogElement.nativeElement;
+    if (this.openListener) {
+      el.removeEventListener('kds-dialog-open', this.openListener);
+    }
+    if (this.closeListener) {
+      el.removeEventListener('kds-dialog-close', this.closeListener);
+    }
+  }
+
+  /** The dialog closes itself (Escape, backdrop), so open is set as a property */
+  private _syncOpen(): void {
+    const el = this.dialogElement?.nativeElement as any;
+    if (el) {
+      el.open = this.open;
+    }
+  }
+}
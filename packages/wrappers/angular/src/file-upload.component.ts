@@ -0,0 +1,208 @@
+/**
+ * @package @kds/angular
+ * @component KdsFileUploadComponent
+ * @description Angular component wrapper for kds-file-upload web component
+ */
+
+import {
+  Component,
+  Input,
+  Output,
+  EventEmitter,
+  ViewChild,
+  ElementRef,
+  AfterViewInit,
+  OnChanges,
+  SimpleChanges,
+  OnDestroy,
+  CUSTOM_ELEMENTS_SCHEMA
+} from '@angular/core';
+import type {
+  FileUploadItem,
+  FileAddDetail,
+  FileRemoveDetail,
+  FileRejectDetail,
+} from '@kds/web-components';
+
+/**
+ * Angular wrapper for the File Upload web component
+ *
+ * @example
+ * ```html
+ * <kds-file-upload-wrapper
+ *   label="Attachments"
+ *   accept=".pdf,image/*"
+ *   [maxSize]="10485760"
+ *   [multiple]="true"
+ *   [items]="attachments"
+ *   (fileAdd)="upload($event.detail.files)"
+ *   (fileRemove)="cancel($event.detail.file)"
+ * ></kds-file-upload-wrapper>
+ * ```
+ */
+@Component({
+  selector: 'kds-file-upload-wrapper',
+  standalone: true,
+  schemas: [CUSTOM_ELEMENTS_SCHEMA],
+  template: `
+    <kds-file-upload
+      #uploadElement
+      [attr.label]="label"
+      [attr.hint]="hint"
+      [attr.name]="name"
+      [attr.accept]="accept"
+      [attr.multiple]="multiple ? '' : null"
+      [attr.max-size]="maxSize"
+      [attr.required]="required ? '' : null"
+      [attr.disabled]="disabled ? '' : null"
+      [attr.destructive]="destructive ? '' : null"
+      [attr.browse-label]="browseLabel"
+      [attr.drop-label]="dropLabel"
+      [attr.remove-label]="removeLabel"
+    ></kds-file-upload>
+  `,
+  styles: [`
+    :host {
+      display: block;
+    }
+  `]
+})
+export class KdsFileUploadComponent implements AfterViewInit, OnChanges, OnDestroy {
+  @ViewChild('uploadElement', { static: true }) uploadElement!: ElementRef<HTMLElement>;
+
+  /**
+   * Label text shown above the dropzone
+   */
+  @Input() label?: string;
+
+  /**
+   * Hint text shown below; replaced by the message when files are rejected or validation fails
+   */
+  @Input() hint?: string;
+
+  /**
+   * Name used when submitting the files with a form
+   */
+  @Input() name?: string;
+
+  /**
+   * Accepted file types, e.g. ".pdf,image/*"
+   */
+  @Input() accept?: string;
+
+  /**
+   * Allow more than one file
+   * @default false
+   */
+  @Input() multiple = false;
+
+  /**
+   * Largest accepted file in bytes; 0 = no limit
+   */
+  @Input() maxSize?: number;
+
+  /**
+   * At least one file must be selected
+   * @default false
+   */
+  @Input() required = false;
+
+  /**
+   * Whether the file upload is disabled
+   * @default false
+   */
+  @Input() disabled = false;
+
+  /**
+   * Error/destructive state
+   * @default false
+   */
+  @Input() destructive = false;
+
+  /**
+   * Text of the browse button
+   * @default 'Click to upload'
+   */
+  @Input() browseLabel?: string;
+
+  /**
+   * Text after the browse button
+   * @default 'or drag and drop'
+   */
+  @Input() dropLabel?: string;
+
+  /**
+   * Accessible label of the remove buttons, followed by the file name
+   * @default 'Remove'
+   */
+  @Input() removeLabel?: string;
+
+  /**
+   * Selected files and their upload progress or error
+   */
+  @Input() items?: FileUploadItem[];
+
+  /**
+   * Emits when the user adds files; `detail` holds `{ files }`
+   */
+  @Output() fileAdd = new EventEmitter<CustomEvent<FileAddDetail>>();
+
+  /**
+   * Emits when a file is removed or replaced; `detail` holds `{ file }`
+   */
+  @Output() fileRemove = new EventEmitter<CustomEvent<FileRemoveDetail>>();
+
+  /**
+   * Emits when files are rejected; `detail` holds `{ rejections }`
+   */
+  @Output() fileReject = new EventEmitter<CustomEvent<FileRejectDetail>>();
+
+  private addListener?: (event: Event) => void;
+  private removeListener?: (event: Event) => void;
+  private rejectListener?: (event: Event) => void;
+
+  ngAfterViewInit(): void {
+    this.addListener = (event: Event) => {
+      this.fileAdd.emit(event as CustomEvent<FileAddDetail>);
+    };
+    this.removeListener = (event: Event) => {
+      this.fileRemove.emit(event as CustomEvent<FileRemoveDetail>);
+    };
+    this.rejectListener = (event: Event) => {
+      this.fileReject.emit(event as CustomEvent<FileRejectDetail>);
+    };
+
+    const el = this.uploadElement.nativeElement;
+    el.addEventListener('kds-file-add', this.addListener);
+    el.addEventListener('kds-file-remove', this.removeListener);
+    el.addEventListener('kds-file-reject', this.rejectListener);
+    this._syncItems();
+  }
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['items'] && this.uploadElement) {
+      this._syncItems();
+    }
+  }
+
+  ngOnDestroy(): void {
+    const el = this.uploadElement.nativeElement;
+    if (this.addListener) {
+      el.removeEventListener('kds-file-add', this.addListener);
+    }
+    if (this.removeListener) {
+      el.removeEventListener('kds-file-remove', this.removeListener);
+    }
+    if (this.rejectListener) {
+      el.removeEventListener('kds-file-reject', this.rejectListener);
+    }
+  }
+
+  /** Files can't be passed as attributes, so the items are set as a property */
+  private _syncItems(): void {
+    const el = this.uploadElement?.nativeElement as any;
+    if (el && this.items !== undefined) {
+      el.items = this.items;
+    }
+  }
+}
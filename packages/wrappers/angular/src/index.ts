@@ -25,11 +25,33 @@ export { KdsTooltipComponent } from './tooltip.component';
 export { KdsBadgeComponent } from './badge.component';
 export { KdsButtonGroupComponent, KdsButtonGroupItemComponent } from './button-group.component';
 export { KdsInputFieldComponent } from './input-field.component';
+export { KdsCheckboxGroupComponent } from './checkbox-group.component';
+export { KdsRadioComponent } from './radio.component';
+export { KdsRadioGroupComponent } from './radio-group.component';
+export { KdsSelectComponent, KdsOptionComponent, KdsOptionGroupComponent } from './select.component';
+export { KdsTextareaComponent } from './textarea.component';
+export { KdsDialogComponent } from './dialog.component';
+export { KdsToastComponent, KdsToastRegionComponent } from './toast.component';
+export { KdsTabsComponent, KdsTabComponent, KdsTabPanelComponent } from './tabs.component';
+export { KdsMenuComponent, KdsMenuItemComponent, KdsMenuSeparatorComponent } from './menu.component';
+export { KdsProgressBarComponent } from './progress-bar.component';
+export { KdsSpinnerComponent } from './spinner.component';
+export { KdsSliderComponent } from './slider.component';
+export { KdsDatePickerComponent } from './date-picker.component';
+export { KdsPaginationComponent } from './pagination.component';
+export { KdsTableComponent } from './table.component';
+export { KdsAvatarComponent } from './avatar.component';
+export { KdsAvatarGroupComponent } from './avatar-group.component';
+export { KdsAlertComponent } from './alert.component';
+export { KdsFileUploadComponent } from './file-upload.component';
+
+// Export services
+export { KdsToastService } from './toast.service';
 
 // Export module (for non-standalone apps)
 export { KdsButtonModule } from './button.module';
 
 // Re-export types from web-components
-export type { ButtonSize, ButtonHierarchy, IconPosition, CheckboxSize, ToggleSize, TooltipTheme, TooltipArrow, BadgeSize, BadgeColor, BadgeIcon, ButtonGroupItemIcon, InputFieldType } from '@kds/web-components';
+export type { ButtonSize, ButtonHierarchy, IconPosition, CheckboxSize, ToggleSize, TooltipTheme, TooltipArrow, TooltipPlacement, BadgeSize, BadgeColor, BadgeIcon, ButtonGroupItemIcon, ButtonGroupSelection, InputFieldType, InputFieldValidator, CheckboxGroupOrientation, RadioSize, RadioGroupOrientation, TextareaValidator, DialogSize, ToastVariant, ToastPosition, ToastCloseReason, ToastOptions, TabsOrientation, TabsActivation, MenuPlacement, MenuItemType, ProgressVariant, ProgressValuePosition, SpinnerSize, SliderTooltip, SliderThumb, SliderValueDetail, DatePickerValueDetail, PageChangeDetail, TableRow, TableColumn, TableColumnAlign, TableSortDirection, TableSortDetail, TableSelectionDetail, AvatarSize, AvatarStatus, AlertColor, FileUploadItem, FileRejection, FileRejectionReason, FileAddDetail, FileRemoveDetail, FileRejectDetail } from '@kds/web-components';
 
 export const version = '0.1.0';
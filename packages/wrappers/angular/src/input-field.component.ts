@@ -17,7 +17,7 @@ import {
   OnDestroy,
   CUSTOM_ELEMENTS_SCHEMA
 } from '@angular/core';
-import type { InputFieldType } from '@kds/web-components';
+import type { InputFieldType, InputFieldValidator } from '@kds/web-components';
 
 /**
  * Angular wrapper for the Input Field web component
@@ -63,6 +63,12 @@ import type { InputFieldType } from '@kds/web-components';
       [attr.leading-icon]="leadingIcon ? '' : null"
       [attr.help-icon]="helpIcon ? '' : null"
       [attr.required]="required ? '' : null"
+      [attr.minlength]="minLength ?? null"
+      [attr.maxlength]="maxLength ?? null"
+      [attr.pattern]="pattern || null"
+      [attr.min]="min || null"
+      [attr.max]="max || null"
+      [attr.step]="step || null"
     >
       <ng-content select="[slot=leading-icon]"></ng-content>
       <ng-content select="[slot=leading-dropdown]"></ng-content>
@@ -112,6 +118,27 @@ export class KdsInputFieldComponent implements AfterViewInit, OnChanges, OnDestr
   /** HTML required attribute. */
   @Input() required: boolean = false;
 
+  /** Minimum number of characters. */
+  @Input() minLength?: number;
+
+  /** Maximum number of characters. */
+  @Input() maxLength?: number;
+
+  /** Regular expression the value must match. */
+  @Input() pattern?: string;
+
+  /** Minimum value for numeric / date input types. */
+  @Input() min?: string;
+
+  /** Maximum value for numeric / date input types. */
+  @Input() max?: string;
+
+  /** Step granularity for numeric / date input types. */
+  @Input() step?: string;
+
+  /** Custom validators; the first non-empty message marks the field invalid. */
+  @Input() validators: InputFieldValidator[] = [];
+
   /** Emitted on every keystroke. */
   @Output() kdsInput = new EventEmitter<CustomEvent<{ value: string }>>();
 
@@ -134,12 +161,16 @@ export class KdsInputFieldComponent implements AfterViewInit, OnChanges, OnDestr
     el.addEventListener('kds-change', this._handleChange);
     el.addEventListener('kds-help-click', this._handleHelpClick);
     this._syncValue();
+    this._syncValidators();
   }
 
   ngOnChanges(changes: SimpleChanges): void {
     if (changes['value'] && this.inputFieldElement) {
       this._syncValue();
     }
+    if (changes['validators'] && this.inputFieldElement) {
+      this._syncValidators();
+    }
   }
 
   ngOnDestroy(): void {
@@ -150,6 +181,13 @@ export class KdsInputFieldComponent implements AfterViewInit, OnChanges, OnDestr
     el.removeEventListener('kds-help-click', this._handleHelpClick);
   }
 
+  private _syncValidators(): void {
+    const el = this.inputFieldElement?.nativeElement as any;
+    if (el) {
+      el.validators = this.validators;
+    }
+  }
+
   private _syncValue(): void {
     const el = this.inputFieldElement?.nativeElement as any;
     if (el && this.value !== undefined) {
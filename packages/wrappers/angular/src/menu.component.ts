@@ -0,0 +1,184 @@
+/**
+ * @package @kds/angular
+ * @component KdsMenuComponent, KdsMenuItemComponent, KdsMenuSeparatorComponent
+ * @description Angular component wrappers for kds-menu, kds-menu-item and kds-menu-separator web components
+ */
+
+import {
+  Component,
+  Input,
+  Output,
+  EventEmitter,
+  ViewChild,
+  ElementRef,
+  AfterViewInit,
+  OnDestroy,
+  CUSTOM_ELEMENTS_SCHEMA
+} from '@angular/core';
+import type { MenuPlacement, MenuItemType } from '@kds/web-components';
+
+/**
+ * Angular wrapper for the Menu web component
+ *
+ * @example
+ * ```html
+ * <kds-menu-wrapper (menuSelect)="onAction(row, $event.detail.value)">
+ *   <kds-button slot="trigger" hierarchy="tertiary-gray" aria-label="Row actions">...</kds-button>
+ *   <kds-menu-item-wrapper value="edit" shortcut="⌘E">Edit</kds-menu-item-wrapper>
+ *   <kds-menu-item-wrapper>
+ *     Move to
+ *     <kds-menu-wrapper slot="submenu">
+ *       <kds-menu-item-wrapper value="archive">Archive</kds-menu-item-wrapper>
+ *     </kds-menu-wrapper>
+ *   </kds-menu-item-wrapper>
+ *   <kds-menu-separator-wrapper></kds-menu-separator-wrapper>
+ *   <kds-menu-item-wrapper value="delete">Delete</kds-menu-item-wrapper>
+ * </kds-menu-wrapper>
+ * ```
+ */
+@Component({
+  selector: 'kds-menu-wrapper',
+  standalone: true,
+  schemas: [CUSTOM_ELEMENTS_SCHEMA],
+  template: `
+    <kds-menu
+      #menuElement
+      [attr.open]="open ? '' : null"
+      [attr.placement]="placement"
+      [attr.aria-label]="ariaLabel"
+    >
+      <ng-content></ng-content>
+    </kds-menu>
+  `,
+  styles: [`
+    :host {
+      display: inline-block;
+    }
+
+    :host([slot="submenu"]) {
+      display: contents;
+    }
+  `]
+})
+export class KdsMenuComponent implements AfterViewInit, OnDestroy {
+  @ViewChild('menuElement', { static: true }) menuElement!: ElementRef<HTMLElement>;
+
+  /**
+   * Whether the menu is shown (it also opens from its trigger)
+   * @default false
+   */
+  @Input() open = false;
+
+  /**
+   * Preferred position relative to the trigger; flipped when there is no room
+   * @default 'bottom-start'
+   */
+  @Input() placement: MenuPlacement = 'bottom-start';
+
+  /**
+   * ARIA label for the menu (defaults to the trigger or parent item text)
+   */
+  @Input() ariaLabel?: string;
+
+  /**
+   * Emits when the user selects an item; `detail` holds `{ value, checked }`
+   */
+  @Output() menuSelect = new EventEmitter<CustomEvent<{ value: string; checked: boolean }>>();
+
+  private selectListener?: (event: Event) => void;
+
+  ngAfterViewInit(): void {
+    this.selectListener = (event: Event) => {
+      this.menuSelect.emit(event as CustomEvent<{ value: string; checked: boolean }>);
+    };
+
+    this.menuElement.nativeElement.addEventListener('kds-menu-select', this.selectListener);
+  }
+
+  ngOnDestroy(): void {
+    if (this.selectListener) {
+      this.menuElement.nativeElement.removeEventListener('kds-menu-select', this.selectListener);
+    }
+  }
+}
+
+/**
+ * Angular wrapper for a menu item
+ *
+ * @example
+ * ```html
+ * <kds-menu-item-wrapper type="checkbox" value="pin" [checked]="pinned">Pinned</kds-menu-item-wrapper>
+ * ```
+ */
+@Component({
+  selector: 'kds-menu-item-wrapper',
+  standalone: true,
+  schemas: [CUSTOM_ELEMENTS_SCHEMA],
+  template: `
+    <kds-menu-item
+      [attr.value]="value"
+      [attr.type]="type"
+      [attr.checked]="checked ? '' : null"
+      [attr.name]="name"
+      [attr.shortcut]="shortcut"
+      [attr.disabled]="disabled ? '' : null"
+    >
+      <ng-content></ng-content>
+    </kds-menu-item>
+  `,
+  styles: [`
+    :host {
+      display: contents;
+    }
+  `]
+})
+export class KdsMenuItemComponent {
+  /**
+   * Value reported by `menuSelect`; defaults to the item text
+   */
+  @Input() value?: string;
+
+  /**
+   * Plain, checkbox or radio item
+   * @default 'normal'
+   */
+  @Input() type: MenuItemType = 'normal';
+
+  /**
+   * Checked state of checkbox and radio items
+   * @default false
+   */
+  @Input() checked = false;
+
+  /**
+   * Radio group of the item within its menu
+   */
+  @Input() name?: string;
+
+  /**
+   * Keyboard shortcut hint (display only)
+   */
+  @Input() shortcut?: string;
+
+  /**
+   * Whether the item can't be selected
+   * @default false
+   */
+  @Input() disabled = false;
+}
+
+/**
+ * Angular wrapper for a separator between menu items
+ */
+@Component({
+  selector: 'kds-menu-separator-wrapper',
+  standalone: true,
+  schemas: [CUSTOM_ELEMENTS_SCHEMA],
+  template: `<kds-menu-separator></kds-menu-separator>`,
+  styles: [`
+    :host {
+      display: contents;
+    }
+  `]
+})
+export class KdsMenuSeparatorComponent {}
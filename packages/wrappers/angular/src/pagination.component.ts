@@ -0,0 +1,154 @@
+/**
+ * @package @kds/angular
+ * @component KdsPaginationComponent
+ * @description Angular component wrapper for kds-pagination web component
+ */
+
+import {
+  Component,
+  Input,
+  Output,
+  EventEmitter,
+  ViewChild,
+  ElementRef,
+  AfterViewInit,
+  OnChanges,
+  SimpleChanges,
+  OnDestroy,
+  CUSTOM_ELEMENTS_SCHEMA
+} from '@angular/core';
+import type { PageChangeDetail } from '@kds/web-components';
+
+/**
+ * Angular wrapper for the Pagination web component
+ *
+ * @example
+ * ```html
+ * <kds-pagination-wrapper
+ *   [total]="orders.total"
+ *   [page]="page"
+ *   [pageSize]="pageSize"
+ *   [pageSizes]="[10, 25, 50]"
+ *   (pageChange)="load($event.detail.page, $event.detail.pageSize)"
+ * ></kds-pagination-wrapper>
+ * ```
+ */
+@Component({
+  selector: 'kds-pagination-wrapper',
+  standalone: true,
+  schemas: [CUSTOM_ELEMENTS_SCHEMA],
+  template: `
+    <kds-pagination
+      #paginationElement
+      [attr.total]="total"
+      [attr.page-count]="pageCount"
+      [attr.sibling-count]="siblingCount"
+      [attr.show-first-last]="showFirstLast ? '' : null"
+      [attr.page-size-label]="pageSizeLabel"
+      [attr.disabled]="disabled ? '' : null"
+      [attr.aria-label]="ariaLabel"
+    ></kds-pagination>
+  `,
+  styles: [`
+    :host {
+      display: block;
+    }
+  `]
+})
+export class KdsPaginationComponent implements AfterViewInit, OnChanges, OnDestroy {
+  @ViewChild('paginationElement', { static: true }) paginationElement!: ElementRef<HTMLElement>;
+
+  /**
+   * Current page, starting at 1
+   * @default 1
+   */
+  @Input() page = 1;
+
+  /**
+   * Number of items being paged; the page count is derived from it
+   */
+  @Input() total?: number;
+
+  /**
+   * Number of pages; used instead of deriving it from total
+   */
+  @Input() pageCount?: number;
+
+  /**
+   * Items per page
+   * @default 10
+   */
+  @Input() pageSize?: number;
+
+  /**
+   * Choices for the page size selector; hidden when empty
+   */
+  @Input() pageSizes?: number[];
+
+  /**
+   * Pages shown on each side of the current page before collapsing
+   * @default 1
+   */
+  @Input() siblingCount?: number;
+
+  /**
+   * Show first and last page controls
+   * @default false
+   */
+  @Input() showFirstLast = false;
+
+  /**
+   * Label of the page size selector
+   * @default 'Rows per page'
+   */
+  @Input() pageSizeLabel?: string;
+
+  /**
+   * Whether the pagination is disabled
+   * @default false
+   */
+  @Input() disabled = false;
+
+  /**
+   * ARIA label of the navigation landmark
+   * @default 'Pagination'
+   */
+  @Input() ariaLabel?: string;
+
+  /**
+   * Emits when the user changes the page or the page size; `detail` holds `{ page, pageSize }`
+   */
+  @Output() pageChange = new EventEmitter<CustomEvent<PageChangeDetail>>();
+
+  private pageChangeListener?: (event: Event) => void;
+
+  ngAfterViewInit(): void {
+    this.pageChangeListener = (event: Event) => {
+      this.pageChange.emit(event as CustomEvent<PageChangeDetail>);
+    };
+
+    this.paginationElement.nativeElement.addEventListener('kds-page-change', this.pageChangeListener);
+    this._syncProperties();
+  }
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (this.paginationElement && (changes['page'] || changes['pageSize'] || changes['pageSizes'])) {
+      this._syncProperties();
+    }
+  }
+
+  ngOnDestroy(): void {
+    if (this.pageChangeListener) {
+      this.paginationElement.nativeElement.removeEventListener('kds-page-change', this.pageChangeListener);
+    }
+  }
+
+  /** The page, page size and page size choices are set as properties */
+  private _syncProperties(): void {
+    const el = this.paginationElement?.nativeElement as any;
+    if (!el) return;
+    el.page = this.page;
+    if (this.pageSize !== undefined) el.pageSize = this.pageSize;
+    if (this.pageSizes !== undefined) el.pageSizes = this.pageSizes;
+  }
+}
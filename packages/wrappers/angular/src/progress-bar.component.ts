@@ -0,0 +1,80 @@
+/**
+ * @package @kds/angular
+ * @component KdsProgressBarComponent
+ * @description Angular component wrapper for kds-progress-bar web component
+ */
+
+import { Component, Input, CUSTOM_ELEMENTS_SCHEMA } from '@angular/core';
+import type { ProgressVariant, ProgressValuePosition } from '@kds/web-components';
+
+/**
+ * Angular wrapper for the ProgressBar web component
+ *
+ * @example
+ * ```html
+ * <kds-progress-bar-wrapper label="Uploading report.pdf" [value]="progress"></kds-progress-bar-wrapper>
+ * <kds-progress-bar-wrapper label="Preparing export" [indeterminate]="true"></kds-progress-bar-wrapper>
+ * ```
+ */
+@Component({
+  selector: 'kds-progress-bar-wrapper',
+  standalone: true,
+  schemas: [CUSTOM_ELEMENTS_SCHEMA],
+  template: `
+    <kds-progress-bar
+      [attr.value]="value"
+      [attr.max]="max"
+      [attr.label]="label"
+      [attr.value-position]="valuePosition"
+      [attr.variant]="variant"
+      [attr.indeterminate]="indeterminate ? '' : null"
+      [attr.aria-label]="ariaLabel"
+    ></kds-progress-bar>
+  `,
+  styles: [`
+    :host {
+      display: block;
+    }
+  `]
+})
+export class KdsProgressBarComponent {
+  /**
+   * Current progress, from 0 to `max`
+   * @default 0
+   */
+  @Input() value = 0;
+
+  /**
+   * Value that represents completion
+   * @default 100
+   */
+  @Input() max = 100;
+
+  /**
+   * Visible label above the bar
+   */
+  @Input() label?: string;
+
+  /**
+   * Where the percentage text is shown
+   * @default 'right'
+   */
+  @Input() valuePosition: ProgressValuePosition = 'right';
+
+  /**
+   * Brand or error color
+   * @default 'brand'
+   */
+  @Input() variant: ProgressVariant = 'brand';
+
+  /**
+   * Progress is unknown: animates instead of showing a value
+   * @default false
+   */
+  @Input() indeterminate = false;
+
+  /**
+   * ARIA label (when there is no visible label)
+   */
+  @Input() ariaLabel?: string;
+}
@@ -0,0 +1,172 @@
+/**
+ * @package @kds/angular
+ * @component KdsRadioGroupComponent
+ * @description Angular component wrapper for kds-radio-group web component
+ */
+
+import {
+  Component,
+  Input,
+  Output,
+  EventEmitter,
+  ViewChild,
+  ElementRef,
+  AfterViewInit,
+  OnChanges,
+  SimpleChanges,
+  OnDestroy,
+  CUSTOM_ELEMENTS_SCHEMA
+} from '@angular/core';
+import type { RadioSize, RadioGroupOrientation } from '@kds/web-components';
+
+/**
+ * Angular wrapper for the Radio Group web component
+ *
+ * @example
+ * ```typescript
+ * import { KdsRadioGroupComponent, KdsRadioComponent } from '@kds/angular';
+ *
+ * @Component({
+ *   selector: 'app-example',
+ *   template: `
+ *     <kds-radio-group-wrapper
+ *       label="Plan"
+ *       name="plan"
+ *       [value]="plan"
+ *       (radioGroupChange)="plan = $event.detail.value"
+ *     >
+ *       <kds-radio-wrapper value="basic">Basic</kds-radio-wrapper>
+ *       <kds-radio-wrapper value="pro">Pro</kds-radio-wrapper>
+ *     </kds-radio-group-wrapper>
+ *   `
+ * })
+ * export class ExampleComponent {
+ *   plan = 'basic';
+ * }
+ * ```
+ */
+@Component({
+  selector: 'kds-radio-group-wrapper',
+  standalone: true,
+  schemas: [CUSTOM_ELEMENTS_SCHEMA],
+  template: `
+    <kds-radio-group
+      #groupElement
+      [attr.label]="label"
+      [attr.hint]="hint"
+      [attr.orientation]="orientation"
+      [attr.size]="size"
+      [attr.name]="name"
+      [attr.required]="required ? '' : null"
+      [attr.disabled]="disabled ? '' : null"
+      [attr.error]="error ? '' : null"
+      [attr.aria-label]="ariaLabel"
+    >
+      <ng-content></ng-content>
+    </kds-radio-group>
+  `,
+  styles: [`
+    :host {
+      display: block;
+    }
+  `]
+})
+export class KdsRadioGroupComponent implements AfterViewInit, OnChanges, OnDestroy {
+  @ViewChild('groupElement', { static: true }) groupElement!: ElementRef<HTMLElement>;
+
+  /**
+   * Group label text
+   */
+  @Input() label?: string;
+
+  /**
+   * Hint text below the options (shown as the error message in error state)
+   */
+  @Input() hint?: string;
+
+  /**
+   * Layout of the options
+   * @default 'vertical'
+   */
+  @Input() orientation: RadioGroupOrientation = 'vertical';
+
+  /**
+   * Size applied to every option
+   * @default 'md'
+   */
+  @Input() size: RadioSize = 'md';
+
+  /**
+   * Name applied to every option for form submission
+   */
+  @Input() name?: string;
+
+  /**
+   * Value of the checked option
+   */
+  @Input() value?: string;
+
+  /**
+   * Whether an option must be checked
+   * @default false
+   */
+  @Input() required = false;
+
+  /**
+   * Disables every option
+   * @default false
+   */
+  @Input() disabled = false;
+
+  /**
+   * Error state
+   * @default false
+   */
+  @Input() error = false;
+
+  /**
+   * ARIA label (when there is no visible label)
+   */
+  @Input() ariaLabel?: string;
+
+  /**
+   * Emits when the user checks an option; `detail.value` holds the checked value
+   */
+  @Output() radioGroupChange = new EventEmitter<CustomEvent<{ value: string }>>();
+
+  private changeListener?: (event: Event) => void;
+
+  ngAfterViewInit(): void {
+    this.changeListener = (event: Event) => {
+      this.radioGroupChange.emit(event as CustomEvent<{ value: string }>);
+    };
+
+    this.groupElement.nativeElement.addEventListener(
+      'kds-radio-group-change',
+      this.changeListener
+    );
+    this._syncValue();
+  }
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['value'] && this.groupElement) {
+      this._syncValue();
+    }
+  }
+
+  ngOnDestroy(): void {
+    if (this.changeListener) {
+      this.groupElement.nativeElement.removeEventListener(
+        'kds-radio-group-change',
+        this.changeListener
+      );
+    }
+  }
+
+  private _syncValue(): void {
+    const el = this.groupElement?.nativeElement as any;
+    if (el && this.value !== undefined) {
+      el.value = this.value;
+    }
+  }
+}
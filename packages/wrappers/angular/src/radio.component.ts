@@ -0,0 +1,194 @@
+/**
+ * @package @kds/angular
+ * @component KdsRadioComponent
+ * @description Angular component wrapper for kds-radio web component
+ */
+
+import {
+  Component,
+  Input,
+  Output,
+  EventEmitter,
+  ViewChild,
+  ElementRef,
+  AfterViewInit,
+  OnDestroy,
+  CUSTOM_ELEMENTS_SCHEMA
+} from '@angular/core';
+import type { RadioSize } from '@kds/web-components';
+
+/**
+ * Angular wrapper for the Radio web component
+ *
+ * @example
+ * ```typescript
+ * import { KdsRadioComponent } from '@kds/angular';
+ *
+ * @Component({
+ *   selector: 'app-example',
+ *   template: `
+ *     <kds-radio-wrapper name="plan" value="basic" [checked]="plan === 'basic'" (radioChange)="plan = $event.detail.value">
+ *       Basic
+ *     </kds-radio-wrapper>
+ *     <kds-radio-wrapper name="plan" value="pro" [checked]="plan === 'pro'" (radioChange)="plan = $event.detail.value">
+ *       Pro
+ *     </kds-radio-wrapper>
+ *   `
+ * })
+ * export class ExampleComponent {
+ *   plan = 'basic';
+ * }
+ * ```
+ */
+@Component({
+  selector: 'kds-radio-wrapper',
+  standalone: true,
+  schemas: [CUSTOM_ELEMENTS_SCHEMA],
+  template: `
+    <kds-radio
+      #radioElement
+      [attr.size]="size"
+      [attr.checked]="checked ? '' : null"
+      [attr.disabled]="disabled ? '' : null"
+      [attr.error]="error ? '' : null"
+      [attr.name]="name"
+      [attr.value]="value"
+      [attr.required]="required ? '' : null"
+      [attr.aria-label]="ariaLabel"
+      [attr.aria-describedby]="ariaDescribedBy"
+    >
+      <ng-content></ng-content>
+    </kds-radio>
+  `,
+  styles: [`
+    :host {
+      display: inline-flex;
+    }
+  `]
+})
+export class KdsRadioComponent implements AfterViewInit, OnDestroy {
+  @ViewChild('radioElement', { static: true }) radioElement!: ElementRef<HTMLElement>;
+
+  /**
+   * Radio size
+   * @default 'md'
+   */
+  @Input() size: RadioSize = 'md';
+
+  /**
+   * Whether the radio is checked
+   * @default false
+   */
+  @Input() checked: boolean = false;
+
+  /**
+   * Disabled state
+   * @default false
+   */
+  @Input() disabled: boolean = false;
+
+  /**
+   * Error/invalid state
+   * @default false
+   */
+  @Input() error: boolean = false;
+
+  /**
+   * Name attribute for form submission; radios sharing a name form one set
+   */
+  @Input() name?: string;
+
+  /**
+   * Value attribute for form submission
+   * @default 'on'
+   */
+  @Input() value: string = 'on';
+
+  /**
+   * Required attribute for form validation
+   * @default false
+   */
+  @Input() required: boolean = false;
+
+  /**
+   * ARIA label for accessibility
+   */
+  @Input() ariaLabel?: string;
+
+  /**
+   * ARIA described-by for help text/error messages
+   */
+  @Input() ariaDescribedBy?: string;
+
+  /**
+   * Emits when the radio gets checked
+   */
+  @Output() radioChange = new EventEmitter<CustomEvent>();
+
+  /**
+   * Emits when the radio receives focus
+   */
+  @Output() radioFocus = new EventEmitter<CustomEvent>();
+
+  /**
+   * Emits when the radio loses focus
+   */
+  @Output() radioBlur = new EventEmitter<CustomEvent>();
+
+  private changeListener?: (event: Event) => void;
+  private focusListener?: (event: Event) => void;
+  private blurListener?: (event: Event) => void;
+
+  ngAfterViewInit(): void {
+    // Listen to the custom events from the web component
+    this.changeListener = (event: Event) => {
+      this.radioChange.emit(event as CustomEvent);
+    };
+
+    this.focusListener = (event: Event) => {
+      this.radioFocus.emit(event as CustomEvent);
+    };
+
+    this.blurListener = (event: Event) => {
+      this.radioBlur.emit(event as CustomEvent);
+    };
+
+    this.radioElement.nativeElement.addEventListener(
+      'kds-radio-change',
+      this.changeListener
+    );
+
+    this.radioElement.nativeElement.addEventListener(
+      'kds-radio-focus',
+      this.focusListener
+    );
+
+    this.radioElement.nativeElement.addEventListener(
+      'kds-radio-blur',
+      this.blurListener
+    );
+  }
+
+  ngOnDestroy(): void {
+    if (this.changeListener) {
+      this.radioElement.nativeElement.removeEventListener(
+        'kds-radio-change',
+        this.changeListener
+      );
+    }
+
+    if (this.focusListener) {
+      this.radioElement.nativeElement.removeEventListener(
+        'kds-radio-focus',
+        this.focusListener
+      );
+    }
+
+    if (this.blurListener) {
+      this.radioElement.nativeElement.removeEventListener(
+        'kds-radio-blur',
+        this.blurListener
+      );
+    }
+  }
+}
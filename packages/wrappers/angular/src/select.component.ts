@@ -0,0 +1,283 @@
+/**
+ * @package @kds/angular
+ * @component KdsSelectComponent, KdsOptionComponent, KdsOptionGroupComponent
+ * @description Angular component wrappers for kds-select, kds-option and kds-option-group web components
+ */
+
+import {
+  Component,
+  Input,
+  Output,
+  EventEmitter,
+  ViewChild,
+  ElementRef,
+  AfterViewInit,
+  OnChanges,
+  SimpleChanges,
+  OnDestroy,
+  CUSTOM_ELEMENTS_SCHEMA
+} from '@angular/core';
+
+/**
+ * Angular wrapper for the Select web component
+ *
+ * @example
+ * ```html
+ * <kds-select-wrapper
+ *   label="Team member"
+ *   placeholder="Select team member"
+ *   [value]="member"
+ *   (selectChange)="member = $event.detail.value"
+ * >
+ *   <kds-option-wrapper value="olivia">Olivia Rhye</kds-option-wrapper>
+ *   <kds-option-wrapper value="phoenix">Phoenix Baker</kds-option-wrapper>
+ * </kds-select-wrapper>
+ *
+ * <!-- Phone number with country code -->
+ * <kds-input-field-wrapper type="leading-dropdown" label="Phone number" inputType="tel">
+ *   <kds-select-wrapper slot="leading-dropdown" ariaLabel="Country" value="US">
+ *     <kds-option-wrapper value="US" label="US">United States</kds-option-wrapper>
+ *     <kds-option-wrapper value="AT" label="AT">Austria</kds-option-wrapper>
+ *   </kds-select-wrapper>
+ * </kds-input-field-wrapper>
+ * ```
+ */
+@Component({
+  selector: 'kds-select-wrapper',
+  standalone: true,
+  schemas: [CUSTOM_ELEMENTS_SCHEMA],
+  template: `
+    <kds-select
+      #selectElement
+      [attr.label]="label"
+      [attr.hint]="hint"
+      [attr.placeholder]="placeholder"
+      [attr.value]="value"
+      [attr.multiple]="multiple ? '' : null"
+      [attr.name]="name"
+      [attr.destructive]="destructive ? '' : null"
+      [attr.disabled]="disabled ? '' : null"
+      [attr.required]="required ? '' : null"
+      [attr.slot]="slot"
+      [attr.aria-label]="ariaLabel"
+    >
+      <ng-content></ng-content>
+    </kds-select>
+  `,
+  styles: [`
+    :host {
+      display: block;
+    }
+
+    :host([slot$="-dropdown"]) {
+      display: flex;
+      align-self: stretch;
+    }
+  `]
+})
+export class KdsSelectComponent implements AfterViewInit, OnChanges, OnDestroy {
+  @ViewChild('selectElement', { static: true }) selectElement!: ElementRef<HTMLElement>;
+
+  /**
+   * Label text shown above the trigger
+   */
+  @Input() label?: string;
+
+  /**
+   * Hint text below the trigger (shown as the error message in destructive state)
+   */
+  @Input() hint?: string;
+
+  /**
+   * Text shown while nothing is selected
+   */
+  @Input() placeholder?: string;
+
+  /**
+   * Value of the selected option
+   */
+  @Input() value?: string;
+
+  /**
+   * Values of the selected options (multiple mode)
+   */
+  @Input() values?: string[];
+
+  /**
+   * Allow selecting several options
+   * @default false
+   */
+  @Input() multiple = false;
+
+  /**
+   * Name for form submission
+   */
+  @Input() name?: string;
+
+  /**
+   * Error/destructive state
+   * @default false
+   */
+  @Input() destructive = false;
+
+  /**
+   * Disabled state
+   * @default false
+   */
+  @Input() disabled = false;
+
+  /**
+   * Whether an option must be selected
+   * @default false
+   */
+  @Input() required = false;
+
+  /**
+   * Dropdown slot of a kds-input-field ('leading-dropdown' or 'trailing-dropdown');
+   * switches the select to its compact inline trigger
+   */
+  @Input() slot?: string;
+
+  /**
+   * ARIA label (when there is no visible label)
+   */
+  @Input() ariaLabel?: string;
+
+  /**
+   * Emits when the user changes the selection; `detail` holds `{ value, values }`
+   */
+  @Output() selectChange = new EventEmitter<CustomEvent<{ value: string; values: string[] }>>();
+
+  private changeListener?: (event: Event) => void;
+
+  ngAfterViewInit(): void {
+    this.changeListener = (event: Event) => {
+      this.selectChange.emit(event as CustomEvent<{ value: string; values: string[] }>);
+    };
+
+    this.selectElement.nativeElement.addEventListener(
+      'kds-select-change',
+      this.changeListener
+    );
+    this._syncValue();
+  }
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if ((changes['value'] || changes['values']) && this.selectElement) {
+      this._syncValue();
+    }
+  }
+
+  ngOnDestroy(): void {
+    if (this.changeListener) {
+      this.selectElement.nativeElement.removeEventListener(
+        'kds-select-change',
+        this.changeListener
+      );
+    }
+  }
+
+  private _syncValue(): void {
+    const el = this.selectElement?.nativeElement as any;
+    if (!el) return;
+
+    if (this.values !== undefined) {
+      el.values = this.values;
+    } else if (this.value !== undefined) {
+      el.value = this.value;
+    }
+  }
+}
+
+/**
+ * Angular wrapper for a Select option
+ *
+ * @example
+ * ```html
+ * <kds-option-wrapper value="olivia" [disabled]="true">Olivia Rhye</kds-option-wrapper>
+ * ```
+ */
+@Component({
+  selector: 'kds-option-wrapper',
+  standalone: true,
+  schemas: [CUSTOM_ELEMENTS_SCHEMA],
+  template: `
+    <kds-option
+      [attr.value]="value"
+      [attr.label]="label"
+      [attr.disabled]="disabled ? '' : null"
+      [attr.selected]="selected ? '' : null"
+    >
+      <ng-content></ng-content>
+    </kds-option>
+  `,
+  styles: [`
+    :host {
+      display: contents;
+    }
+  `]
+})
+export class KdsOptionComponent {
+  /**
+   * Value of the option (defaults to its text)
+   */
+  @Input() value?: string;
+
+  /**
+   * Text shown in the select trigger when selected (defaults to the option text)
+   */
+  @Input() label?: string;
+
+  /**
+   * Whether the option can't be selected
+   * @default false
+   */
+  @Input() disabled = false;
+
+  /**
+   * Initially selected
+   * @default false
+   */
+  @Input() selected = false;
+}
+
+/**
+ * Angular wrapper for a labelled group of Select options
+ *
+ * @example
+ * ```html
+ * <kds-option-group-wrapper label="Europe">
+ *   <kds-option-wrapper value="at">Austria</kds-option-wrapper>
+ * </kds-option-group-wrapper>
+ * ```
+ */
+@Component({
+  selector: 'kds-option-group-wrapper',
+  standalone: true,
+  schemas: [CUSTOM_ELEMENTS_SCHEMA],
+  template: `
+    <kds-option-group
+      [attr.label]="label"
+      [attr.disabled]="disabled ? '' : null"
+    >
+      <ng-content></ng-content>
+    </kds-option-group>
+  `,
+  styles: [`
+    :host {
+      display: contents;
+    }
+  `]
+})
+export class KdsOptionGroupComponent {
+  /**
+   * Group heading shown in the listbox
+   */
+  @Input() label?: string;
+
+  /**
+   * Disables every option of the group
+   * @default false
+   */
+  @Input() disabled = false;
+}
@@ -0,0 +1,208 @@
+/**
+ * @package @kds/angular
+ * @component KdsSliderComponent
+ * @description Angular component wrapper for kds-slider web component
+ */
+
+import {
+  Component,
+  Input,
+  Output,
+  EventEmitter,
+  ViewChild,
+  ElementRef,
+  AfterViewInit,
+  OnChanges,
+  SimpleChanges,
+  OnDestroy,
+  CUSTOM_ELEMENTS_SCHEMA
+} from '@angular/core';
+import type { SliderTooltip, SliderValueDetail } from '@kds/web-components';
+
+/**
+ * Angular wrapper for the Slider web component
+ *
+ * @example
+ * ```html
+ * <kds-slider-wrapper
+ *   label="Alert threshold"
+ *   [range]="true"
+ *   [max]="200"
+ *   [step]="10"
+ *   [valueStart]="low"
+ *   [valueEnd]="high"
+ *   [marks]="[0, 100, 200]"
+ *   (sliderChange)="low = $event.detail.valueStart; high = $event.detail.valueEnd"
+ * ></kds-slider-wrapper>
+ * ```
+ */
+@Component({
+  selector: 'kds-slider-wrapper',
+  standalone: true,
+  schemas: [CUSTOM_ELEMENTS_SCHEMA],
+  template: `
+    <kds-slider
+      #sliderElement
+      [attr.label]="label"
+      [attr.name]="name"
+      [attr.range]="range ? '' : null"
+      [attr.min]="min"
+      [attr.max]="max"
+      [attr.step]="step"
+      [attr.min-label]="minLabel"
+      [attr.max-label]="maxLabel"
+      [attr.tooltip]="tooltip"
+      [attr.disabled]="disabled ? '' : null"
+      [attr.aria-label]="ariaLabel"
+    ></kds-slider>
+  `,
+  styles: [`
+    :host {
+      display: block;
+    }
+  `]
+})
+export class KdsSliderComponent implements AfterViewInit, OnChanges, OnDestroy {
+  @ViewChild('sliderElement', { static: true }) sliderElement!: ElementRef<HTMLElement>;
+
+  /**
+   * Visible label above the slider
+   */
+  @Input() label?: string;
+
+  /**
+   * Name used when submitting the value with a form
+   */
+  @Input() name?: string;
+
+  /**
+   * Value in single mode
+   */
+  @Input() value?: number;
+
+  /**
+   * Dual-thumb mode, using valueStart and valueEnd
+   * @default false
+   */
+  @Input() range = false;
+
+  /**
+   * Lower value in range mode
+   */
+  @Input() valueStart?: number;
+
+  /**
+   * Upper value in range mode
+   */
+  @Input() valueEnd?: number;
+
+  /**
+   * Lowest value
+   * @default 0
+   */
+  @Input() min = 0;
+
+  /**
+   * Highest value
+   * @default 100
+   */
+  @Input() max = 100;
+
+  /**
+   * Granularity values snap to
+   * @default 1
+   */
+  @Input() step = 1;
+
+  /**
+   * Values marked on the track and labelled below it
+   */
+  @Input() marks?: number[];
+
+  /**
+   * Label shown under the start of the track
+   */
+  @Input() minLabel?: string;
+
+  /**
+   * Label shown under the end of the track
+   */
+  @Input() maxLabel?: string;
+
+  /**
+   * When the value bubble is shown
+   * @default 'auto'
+   */
+  @Input() tooltip: SliderTooltip = 'auto';
+
+  /**
+   * Formats values for the bubble, mark labels and aria-valuetext
+   */
+  @Input() valueFormatter?: (value: number) => string;
+
+  /**
+   * Whether the slider is disabled
+   * @default false
+   */
+  @Input() disabled = false;
+
+  /**
+   * ARIA label (when there is no visible label)
+   */
+  @Input() ariaLabel?: string;
+
+  /**
+   * Emits continuously while a thumb moves; `detail` holds `{ value, valueStart, valueEnd }`
+   */
+  @Output() sliderInput = new EventEmitter<CustomEvent<SliderValueDetail>>();
+
+  /**
+   * Emits when the user commits a new value; `detail` holds `{ value, valueStart, valueEnd }`
+   */
+  @Output() sliderChange = new EventEmitter<CustomEvent<SliderValueDetail>>();
+
+  private inputListener?: (event: Event) => void;
+  private changeListener?: (event: Event) => void;
+
+  ngAfterViewInit(): void {
+    this.inputListener = (event: Event) => {
+      this.sliderInput.emit(event as CustomEvent<SliderValueDetail>);
+    };
+    this.changeListener = (event: Event) => {
+      this.sliderChange.emit(event as CustomEvent<SliderValueDetail>);
+    };
+
+    const el = this.sliderElement.nativeElement;
+    el.addEventListener('kds-slider-input', this.inputListener);
+    el.addEventListener('kds-slider-change', this.changeListener);
+    this._syncProperties();
+  }
+
+  ngOnChanges(changes: SimpleChanges): void {
+    const keys = ['value', 'valueStart', 'valueEnd', 'marks', 'valueFormatter'];
+    if (this.sliderElement && keys.some((key) => changes[key])) {
+      this._syncProperties();
+    }
+  }
+
+  ngOnDestroy(): void {
+    const el = this.sliderElement.nativeElement;
+    if (this.inputListener) {
+      el.removeEventListener('kds-slider-input', this.inputListener);
+    }
+    if (this.changeListener) {
+      el.removeEventListener('kds-slider-change', this.changeListener);
+    }
+  }
+
+  /** Values, marks and the formatter are set as properties */
+  private _syncProperties(): void {
+    const el = this.sliderElement?.nativeElement as any;
+    if (!el) return;
+    if (this.value !== undefined) el.value = this.value;
+    if (this.valueStart !== undefined) el.valueStart = this.valueStart;
+    if (this.valueEnd !== undefined) el.valueEnd = this.valueEnd;
+    if (this.marks !== undefined) el.marks = this.marks;
+    if (this.valueFormatter) el.valueFormatter = this.valueFormatter;
+  }
+}
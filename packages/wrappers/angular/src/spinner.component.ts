@@ -0,0 +1,54 @@
+/**
+ * @package @kds/angular
+ * @component KdsSpinnerComponent
+ * @description Angular component wrapper for kds-spinner web component
+ */
+
+import { Component, Input, CUSTOM_ELEMENTS_SCHEMA } from '@angular/core';
+import type { SpinnerSize, ProgressVariant } from '@kds/web-components';
+
+/**
+ * Angular wrapper for the Spinner web component
+ *
+ * @example
+ * ```html
+ * <kds-spinner-wrapper size="lg" label="Loading invoices"></kds-spinner-wrapper>
+ * ```
+ */
+@Component({
+  selector: 'kds-spinner-wrapper',
+  standalone: true,
+  schemas: [CUSTOM_ELEMENTS_SCHEMA],
+  template: `
+    <kds-spinner
+      [attr.size]="size"
+      [attr.variant]="variant"
+      [attr.label]="label"
+    ></kds-spinner>
+  `,
+  styles: [`
+    :host {
+      display: inline-flex;
+      vertical-align: middle;
+    }
+  `]
+})
+export class KdsSpinnerComponent {
+  /**
+   * Spinner size, matching the button sizes
+   * @default 'md'
+   */
+  @Input() size: SpinnerSize = 'md';
+
+  /**
+   * Brand or error color
+   * @default 'brand'
+   */
+  @Input() variant: ProgressVariant = 'brand';
+
+  /**
+   * Accessible name announced for the spinner
+   * @default 'Loading'
+   */
+  @Input() label = 'Loading';
+}
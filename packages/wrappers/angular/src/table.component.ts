@@ -0,0 +1,218 @@
+/**
+ * @package @kds/angular
+ * @component KdsTableComponent
+ * @description Angular component wrapper for kds-table web component
+ */
+
+import {
+  Component,
+  Input,
+  Output,
+  EventEmitter,
+  ViewChild,
+  ElementRef,
+  AfterViewInit,
+  OnChanges,
+  SimpleChanges,
+  OnDestroy,
+  CUSTOM_ELEMENTS_SCHEMA
+} from '@angular/core';
+import type {
+  TableColumn,
+  TableRow,
+  TableSortDirection,
+  TableSortDetail,
+  TableSelectionDetail,
+} from '@kds/web-components';
+
+/**
+ * Angular wrapper for the Table web component
+ *
+ * @example
+ * ```html
+ * <kds-table-wrapper
+ *   ariaLabel="Transactions"
+ *   [columns]="columns"
+ *   [rows]="transactions"
+ *   [selectable]="true"
+ *   [selectedKeys]="selected"
+ *   [stickyHeader]="true"
+ *   [virtualize]="true"
+ *   (selectionChange)="selected = $event.detail.selectedKeys"
+ * >
+ *   <span slot="empty">No transactions in this period</span>
+ * </kds-table-wrapper>
+ * ```
+ */
+@Component({
+  selector: 'kds-table-wrapper',
+  standalone: true,
+  schemas: [CUSTOM_ELEMENTS_SCHEMA],
+  template: `
+    <kds-table
+      #tableElement
+      [attr.row-key]="rowKey"
+      [attr.manual-sort]="manualSort ? '' : null"
+      [attr.selectable]="selectable ? '' : null"
+      [attr.loading]="loading ? '' : null"
+      [attr.loading-label]="loadingLabel"
+      [attr.empty-text]="emptyText"
+      [attr.sticky-header]="stickyHeader ? '' : null"
+      [attr.virtualize]="virtualize ? '' : null"
+      [attr.row-height]="rowHeight"
+      [attr.aria-label]="ariaLabel"
+    >
+      <ng-content></ng-content>
+    </kds-table>
+  `,
+  styles: [`
+    :host {
+      display: flex;
+      flex-direction: column;
+      min-height: 0;
+    }
+  `]
+})
+export class KdsTableComponent implements AfterViewInit, OnChanges, OnDestroy {
+  @ViewChild('tableElement', { static: true }) tableElement!: ElementRef<HTMLElement>;
+
+  /**
+   * Column definitions
+   */
+  @Input() columns: TableColumn[] = [];
+
+  /**
+   * Rows, one object per row keyed by column key
+   */
+  @Input() rows: TableRow[] = [];
+
+  /**
+   * Row property with a unique value per row
+   * @default 'id'
+   */
+  @Input() rowKey?: string;
+
+  /**
+   * Key of the sorted column
+   */
+  @Input() sortKey?: string;
+
+  /**
+   * Direction of the sorted column
+   * @default 'ascending'
+   */
+  @Input() sortDirection?: TableSortDirection;
+
+  /**
+   * Only report sorting; rows are expected in sorted order
+   * @default false
+   */
+  @Input() manualSort = false;
+
+  /**
+   * Show row checkboxes and a select-all checkbox
+   * @default false
+   */
+  @Input() selectable = false;
+
+  /**
+   * Row keys of the selected rows
+   */
+  @Input() selectedKeys?: string[];
+
+  /**
+   * Whether the rows are loading
+   * @default false
+   */
+  @Input() loading = false;
+
+  /**
+   * Accessible name of the loading spinner
+   * @default 'Loading'
+   */
+  @Input() loadingLabel?: string;
+
+  /**
+   * Text shown when there are no rows
+   * @default 'No results'
+   */
+  @Input() emptyText?: string;
+
+  /**
+   * Keep the header visible while the rows scroll
+   * @default false
+   */
+  @Input() stickyHeader = false;
+
+  /**
+   * Render only the rows in view; requires a bounded height
+   * @default false
+   */
+  @Input() virtualize = false;
+
+  /**
+   * Row height in pixels while virtualized
+   * @default 52
+   */
+  @Input() rowHeight?: number;
+
+  /**
+   * ARIA label of the table
+   */
+  @Input() ariaLabel?: string;
+
+  /**
+   * Emits when the user sorts by a column; `detail` holds `{ sortKey, sortDirection }`
+   */
+  @Output() sort = new EventEmitter<CustomEvent<TableSortDetail>>();
+
+  /**
+   * Emits when the user selects or deselects rows; `detail` holds `{ selectedKeys }`
+   */
+  @Output() selectionChange = new EventEmitter<CustomEvent<TableSelectionDetail>>();
+
+  private sortListener?: (event: Event) => void;
+  private selectionListener?: (event: Event) => void;
+
+  ngAfterViewInit(): void {
+    this.sortListener = (event: Event) => {
+      this.sort.emit(event as CustomEvent<TableSortDetail>);
+    };
+    this.selectionListener = (event: Event) => {
+      this.selectionChange.emit(event as CustomEvent<TableSelectionDetail>);
+    };
+
+    const el = this.tableElement.nativeElement;
+    el.addEventListener('kds-table-sort', this.sortListener);
+    el.addEventListener('kds-table-selection-change', this.selectionListener);
+    this._syncProperties();
+  }
+
+  ngOnChanges(changes: SimpleChanges): void {
+    const keys = ['columns', 'rows', 'sortKey', 'sortDirection', 'selectedKeys'];
+    if (this.tableElement && keys.some((key) => changes[key])) {
+      this._syncProperties();
+    }
+  }
+
+  ngOnDestroy(): void {
+    const el = this.tableElement.nativeElement;
+    if (this.sortListener) {
+      el.removeEventListener('kds-table-sort', this.sortListener);
+    }
+    if (this.selectionListener) {
+      el.removeEventListener('kds-table-selection-change', this.selectionListener);
+    }
+  }
+
+  /** Columns, rows, the sort and the selection are set as properties */
+  private _syncProperties(): void {
+    const el = this.tableElement?.nativeElement as any;
+    if (!el) return;
+    el.columns = this.columns;
+    el.rows = this.rows;
+    if (this.sortKey !== undefined) el.sortKey = this.sortKey;
+    if (this.sortDirection !== undefined) el.sortDirection = this.sortDirection;
+    if (this.selectedKeys !== undefined) el.selectedKeys = this.selectedKeys;
+  }
+}
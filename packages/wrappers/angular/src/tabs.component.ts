@@ -0,0 +1,179 @@
+/**
+ * @package @kds/angular
+ * @component KdsTabsComponent, KdsTabComponent, KdsTabPanelComponent
+ * @description Angular component wrappers for kds-tabs, kds-tab and kds-tab-panel web components
+ */
+
+import {
+  Component,
+  Input,
+  Output,
+  EventEmitter,
+  ViewChild,
+  ElementRef,
+  AfterViewInit,
+  OnChanges,
+  SimpleChanges,
+  OnDestroy,
+  CUSTOM_ELEMENTS_SCHEMA
+} from '@angular/core';
+import type { TabsOrientation, TabsActivation } from '@kds/web-components';
+
+/**
+ * Angular wrapper for the Tabs web component
+ *
+ * @example
+ * ```html
+ * <kds-tabs-wrapper
+ *   ariaLabel="Settings"
+ *   [value]="tab"
+ *   (tabsChange)="tab = $event.detail.value"
+ * >
+ *   <kds-tab-wrapper value="profile">Profile</kds-tab-wrapper>
+ *   <kds-tab-wrapper value="billing">Billing</kds-tab-wrapper>
+ *   <kds-tab-panel-wrapper>...</kds-tab-panel-wrapper>
+ *   <kds-tab-panel-wrapper>...</kds-tab-panel-wrapper>
+ * </kds-tabs-wrapper>
+ * ```
+ */
+@Component({
+  selector: 'kds-tabs-wrapper',
+  standalone: true,
+  schemas: [CUSTOM_ELEMENTS_SCHEMA],
+  template: `
+    <kds-tabs
+      #tabsElement
+      [attr.value]="value"
+      [attr.orientation]="orientation"
+      [attr.activation]="activation"
+      [attr.aria-label]="ariaLabel"
+    >
+      <ng-content></ng-content>
+    </kds-tabs>
+  `,
+  styles: [`
+    :host {
+      display: block;
+    }
+  `]
+})
+export class KdsTabsComponent implements AfterViewInit, OnChanges, OnDestroy {
+  @ViewChild('tabsElement', { static: true }) tabsElement!: ElementRef<HTMLElement>;
+
+  /**
+   * Value of the selected tab (a tab's value, or its index when it has none)
+   */
+  @Input() value?: string;
+
+  /**
+   * Layout of the tab list
+   * @default 'horizontal'
+   */
+  @Input() orientation: TabsOrientation = 'horizontal';
+
+  /**
+   * Whether moving focus with the arrow keys also selects the tab
+   * @default 'automatic'
+   */
+  @Input() activation: TabsActivation = 'automatic';
+
+  /**
+   * ARIA label for the tab list
+   */
+  @Input() ariaLabel?: string;
+
+  /**
+   * Emits when the user selects a tab; `detail` holds `{ value }`
+   */
+  @Output() tabsChange = new EventEmitter<CustomEvent<{ value: string }>>();
+
+  private changeListener?: (event: Event) => void;
+
+  ngAfterViewInit(): void {
+    this.changeListener = (event: Event) => {
+      this.tabsChange.emit(event as CustomEvent<{ value: string }>);
+    };
+
+    this.tabsElement.nativeElement.addEventListener('kds-tabs-change', this.changeListener);
+    this._syncValue();
+  }
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['value'] && this.tabsElement) {
+      this._syncValue();
+    }
+  }
+
+  ngOnDestroy(): void {
+    if (this.changeListener) {
+      this.tabsElement.nativeElement.removeEventListener('kds-tabs-change', this.changeListener);
+    }
+  }
+
+  /** The attribute only seeds the value, so it is also set as a property */
+  private _syncValue(): void {
+    const el = this.tabsElement?.nativeElement as any;
+    if (el && this.value !== undefined) {
+      el.value = this.value;
+    }
+  }
+}
+
+/**
+ * Angular wrapper for a tab
+ *
+ * @example
+ * ```html
+ * <kds-tab-wrapper value="api" [disabled]="true">API</kds-tab-wrapper>
+ * ```
+ */
+@Component({
+  selector: 'kds-tab-wrapper',
+  standalone: true,
+  schemas: [CUSTOM_ELEMENTS_SCHEMA],
+  template: `
+    <kds-tab
+      [attr.value]="value"
+      [attr.disabled]="disabled ? '' : null"
+    >
+      <ng-content></ng-content>
+    </kds-tab>
+  `,
+  styles: [`
+    :host {
+      display: contents;
+    }
+  `]
+})
+export class KdsTabComponent {
+  /**
+   * Value identifying the tab (defaults to its index)
+   */
+  @Input() value?: string;
+
+  /**
+   * Whether the tab can't be selected
+   * @default false
+   */
+  @Input() disabled = false;
+}
+
+/**
+ * Angular wrapper for a tab panel; the nth panel belongs to the nth tab
+ */
+@Component({
+  selector: 'kds-tab-panel-wrapper',
+  standalone: true,
+  schemas: [CUSTOM_ELEMENTS_SCHEMA],
+  template: `
+    <kds-tab-panel>
+      <ng-content></ng-content>
+    </kds-tab-panel>
+  `,
+  styles: [`
+    :host {
+      display: contents;
+    }
+  `]
+})
+export class KdsTabPanelComponent {}
@@ -0,0 +1,162 @@
+/**
+ * @package @kds/angular
+ * @component KdsTextareaComponent
+ * @description Angular component wrapper for kds-textarea web component
+ */
+
+import {
+  Component,
+  Input,
+  Output,
+  EventEmitter,
+  ViewChild,
+  ElementRef,
+  AfterViewInit,
+  OnChanges,
+  SimpleChanges,
+  OnDestroy,
+  CUSTOM_ELEMENTS_SCHEMA
+} from '@angular/core';
+import type { TextareaValidator } from '@kds/web-components';
+
+/**
+ * Angular wrapper for the Textarea web component
+ *
+ * @example
+ * ```typescript
+ * import { KdsTextareaComponent } from '@kds/angular';
+ *
+ * @Component({
+ *   selector: 'app-example',
+ *   template: `
+ *     <kds-textarea-wrapper
+ *       label="Description"
+ *       placeholder="Enter a description..."
+ *       [maxLength]="280"
+ *       [maxRows]="8"
+ *       [value]="description"
+ *       (kdsInput)="onInput($event)"
+ *     ></kds-textarea-wrapper>
+ *   `
+ * })
+ * export class AppComponent {
+ *   description = '';
+ *   onInput(e: CustomEvent<{value:string}>) { this.description = e.detail.value; }
+ * }
+ * ```
+ */
+@Component({
+  selector: 'kds-textarea-wrapper',
+  schemas: [CUSTOM_ELEMENTS_SCHEMA],
+  template: `
+    <kds-textarea
+      #textareaElement
+      [attr.label]="label || null"
+      [attr.hint]="hint || null"
+      [attr.placeholder]="placeholder || null"
+      [attr.name]="name || null"
+      [attr.destructive]="destructive ? '' : null"
+      [attr.disabled]="disabled ? '' : null"
+      [attr.required]="required ? '' : null"
+      [attr.minlength]="minLength ?? null"
+      [attr.maxlength]="maxLength ?? null"
+      [attr.min-rows]="minRows"
+      [attr.max-rows]="maxRows ?? null"
+      [attr.aria-label]="ariaLabel || null"
+    ></kds-textarea>
+  `,
+})
+export class KdsTextareaComponent implements AfterViewInit, OnChanges, OnDestroy {
+  @ViewChild('textareaElement') textareaElement!: ElementRef<HTMLElement>;
+
+  /** Label text above the textarea. */
+  @Input() label: string = '';
+
+  /** Helper/hint text below. In destructive state, styled as error message. */
+  @Input() hint: string = '';
+
+  /** Placeholder text for the native textarea. */
+  @Input() placeholder: string = '';
+
+  /** Current value (two-way bindable via kdsInput). */
+  @Input() value: string = '';
+
+  /** HTML name attribute. */
+  @Input() name: string = '';
+
+  /** Error/destructive state. */
+  @Input() destructive: boolean = false;
+
+  /** Disabled state. */
+  @Input() disabled: boolean = false;
+
+  /** HTML required attribute. */
+  @Input() required: boolean = false;
+
+  /** Minimum number of characters. */
+  @Input() minLength?: number;
+
+  /** Maximum number of characters. Also shows the character counter. */
+  @Input() maxLength?: number;
+
+  /** Visible lines when empty. */
+  @Input() minRows: number = 4;
+
+  /** Lines the textarea grows to before it scrolls. Unset = no limit. */
+  @Input() maxRows?: number;
+
+  /** Custom validators; the first non-empty message marks the field invalid. */
+  @Input() validators: TextareaValidator[] = [];
+
+  /** ARIA label (used when label is not set). */
+  @Input() ariaLabel?: string;
+
+  /** Emits on every keystroke. */
+  @Output() kdsInput = new EventEmitter<CustomEvent<{ value: string }>>();
+
+  /** Emits on blur after value change. */
+  @Output() kdsChange = new EventEmitter<CustomEvent<{ value: string }>>();
+
+  private _handleInput = (e: Event) =>
+    this.kdsInput.emit(e as CustomEvent<{ value: string }>);
+  private _handleChange = (e: Event) =>
+    this.kdsChange.emit(e as CustomEvent<{ value: string }>);
+
+  ngAfterViewInit(): void {
+    const el = this.textareaElement.nativeElement;
+    el.addEventListener('kds-input', this._handleInput);
+    el.addEventListener('kds-change', this._handleChange);
+    this._syncValue();
+    this._syncValidators();
+  }
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['value'] && this.textareaElement) {
+      this._syncValue();
+    }
+    if (changes['validators'] && this.textareaElement) {
+      this._syncValidators();
+    }
+  }
+
+  ngOnDestroy(): void {
+    const el = this.textareaElement?.nativeElement;
+    if (!el) return;
+    el.removeEventListener('kds-input', this._handleInput);
+    el.removeEventListener('kds-change', this._handleChange);
+  }
+
+  private _syncValidators(): void {
+    const el = this.textareaElement?.nativeElement as any;
+    if (el) {
+      el.validators = this.validators;
+    }
+  }
+
+  private _syncValue(): void {
+    const el = this.textareaElement?.nativeElement as any;
+    if (el && this.value !== undefined) {
+      el.value = this.value;
+    }
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * @package @kds/angular
+ * @component KdsToastComponent, KdsToastRegionComponent
+ * @description Angular component wrappers for kds-toast / kds-toast-region web components
+ */
+
+import {
+  Component,
+  Input,
+  Output,
+  EventEmitter,
+  ViewChild,
+  ElementRef,
+  AfterViewInit,
+  OnDestroy,
+  CUSTOM_ELEMENTS_SCHEMA
+} from '@angular/core';
+import type { ToastVariant, ToastPosition, ToastCloseReason } from '@kds/web-components';
+
+/**
+ * Angular wrapper for kds-toast web component (declarative use; see KdsToastService for the imperative API)
+ *
+ * @example
+ * ```typescript
+ * @Component({
+ *   selector: 'app-example',
+ *   template: `
+ *     <kds-toast-region-wrapper position="top-right">
+ *       <kds-toast-wrapper
+ *         *ngIf="offline"
+ *         variant="warning"
+ *         heading="Connection lost"
+ *         actionLabel="Retry"
+ *         (toastAction)="reconnect()"
+ *       >
+ *         Changes will sync when you are back online.
+ *       </kds-toast-wrapper>
+ *     </kds-toast-region-wrapper>
+ *   `
+ * })
+ * ```
+ */
+@Component({
+  selector: 'kds-toast-wrapper',
+  standalone: true,
+  schemas: [CUSTOM_ELEMENTS_SCHEMA],
+  template: `
+    <kds-toast
+      #toastElement
+      [attr.variant]="variant"
+      [attr.heading]="heading"
+      [attr.duration]="duration"
+      [attr.action-label]="actionLabel"
+      [attr.close-label]="closeLabel"
+    >
+      <ng-content></ng-content>
+    </kds-toast>
+  `,
+  styles: [`
+    :host {
+      display: contents;
+    }
+  `]
+})
+export class KdsToastComponent implements AfterViewInit, OnDestroy {
+  @ViewChild('toastElement', { static: true }) toastElement!: ElementRef<HTMLElement>;
+
+  /**
+   * Color variant
+   * @default 'info'
+   */
+  @Input() variant: ToastVariant = 'info';
+
+  /**
+   * Bold first line
+   */
+  @Input() heading?: string;
+
+  /**
+   * Auto-dismiss delay in ms; 0 keeps the toast until it is dismissed
+   * @default 0
+   */
+  @Input() duration = 0;
+
+  /**
+   * Label of the built-in action button
+   */
+  @Input() actionLabel?: string;
+
+  /**
+   * Accessible label of the close button
+   */
+  @Input() closeLabel?: string;
+
+  /**
+   * Emits when the built-in action button is clicked
+   */
+  @Output() toastAction = new EventEmitter<CustomEvent>();
+
+  /**
+   * Emits when the toast closes; `detail.reason` says why
+   */
+  @Output() toastClose = new EventEmitter<CustomEvent<{ reason: ToastCloseReason }>>();
+
+  private actionListener?: (event: Event) => void;
+  private closeListener?: (event: Event) => void;
+
+  ngAfterViewInit(): void {
+    this.actionListener = (event: Event) => {
+      this.toastAction.emit(event as CustomEvent);
+    };
+    this.closeListener = (event: Event) => {
+      this.toastClose.emit(event as CustomEvent<{ reason: ToastCloseReason }>);
+    };
+
+    const el = this.toastElement.nativeElement;
+    el.addEventListener('kds-toast-action', this.actionListener);
+    el.addEventListener('kds-toast-close', this.closeListener);
+  }
+
+  ngOnDestroy(): void {
+    const el = this.toastElement.nativeElement;
+    if (this.actionListener) {
+      el.removeEventListener('kds-toast-action', this.actionListener);
+    }
+    if (this.closeListener) {
+      el.removeEventListener('kds-toast-close', this.closeListener);
+    }
+  }
+}
+
+/**
+ * Angular wrapper for kds-toast-region web component
+ */
+@Component({
+  selector: 'kds-toast-region-wrapper',
+  standalone: true,
+  schemas: [CUSTOM_ELEMENTS_SCHEMA],
+  template: `
+    <kds-toast-region
+      [attr.position]="position"
+      [attr.max]="max"
+      [attr.aria-label]="ariaLabel"
+    >
+      <ng-content></ng-content>
+    </kds-toast-region>
+  `,
+  styles: [`
+    :host {
+      display: contents;
+    }
+  `]
+})
+export class KdsToastRegionComponent {
+  /**
+   * Corner or edge of the viewport the toasts stack in
+   * @default 'bottom-right'
+   */
+  @Input() position: ToastPosition = 'bottom-right';
+
+  /**
+   * Toasts shown at once; later ones wait in a queue
+   */
+  @Input() max?: number;
+
+  /**
+   * Accessible name of the region
+   */
+  @Input() ariaLabel?: string;
+}
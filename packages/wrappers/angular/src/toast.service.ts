@@ -0,0 +1,47 @@
+/**
+ * @package @kds/angular
+ * @service KdsToastService
+ * @description Injectable Angular service for the kds-toast toast() API
+ */
+
+import { Injectable } from '@angular/core';
+import { toast } from '@kds/web-components';
+import type { KdsToast, ToastOptions } from '@kds/web-components';
+
+/**
+ * Shows toast notifications from Angular code
+ *
+ * @example
+ * ```typescript
+ * @Component({ ... })
+ * export class ProfileComponent {
+ *   constructor(private toasts: KdsToastService) {}
+ *
+ *   async save() {
+ *     await this.profile.save();
+ *     this.toasts.show({ variant: 'success', heading: 'Changes saved', message: 'Your profile has been updated.' });
+ *   }
+ * }
+ * ```
+ */
+@Injectable({ providedIn: 'root' })
+export class KdsToastService {
+  private shown = new Set<KdsToast>();
+
+  /**
+   * Shows a toast; returns the element so it can be dismissed early
+   */
+  show(options: ToastOptions): KdsToast {
+    const element = toast(options);
+    this.shown.add(element);
+    element.addEventListener('kds-toast-close', () => this.shown.delete(element));
+    return element;
+  }
+
+  /**
+   * Dismisses every toast shown through this service that is still open
+   */
+  dismissAll(): void {
+    this.shown.forEach((element) => element.dismiss());
+  }
+}
@@ -7,9 +7,15 @@
 import {
   Component,
   Input,
+  Output,
+  EventEmitter,
+  ViewChild,
+  ElementRef,
+  AfterViewInit,
+  OnDestroy,
   CUSTOM_ELEMENTS_SCHEMA
 } from '@angular/core';
-import type { TooltipTheme, TooltipArrow } from '@kds/web-components';
+import type { TooltipTheme, TooltipArrow, TooltipPlacement } from '@kds/web-components';
 
 /**
  * Angular wrapper for the Tooltip web component
@@ -30,6 +36,13 @@ import type { TooltipTheme, TooltipArrow } from '@kds/web-components';
  * })
  * export class ExampleComponent {}
  * ```
+ *
+ * Anchored to a wrapped trigger:
+ * ```html
+ * <kds-tooltip-wrapper text="Delete row" placement="top" arrow="bottom-center">
+ *   <kds-button icon-position="only" aria-label="Delete">…</kds-button>
+ * </kds-tooltip-wrapper>
+ * ```
  */
 @Component({
   selector: 'kds-tooltip-wrapper',
@@ -37,10 +50,16 @@ import type { TooltipTheme, TooltipArrow } from '@kds/web-components';
   schemas: [CUSTOM_ELEMENTS_SCHEMA],
   template: `
     <kds-tooltip
+      #tooltipElement
       [attr.theme]="theme"
       [attr.arrow]="arrow"
       [attr.text]="text"
       [attr.supporting-text]="supportingText"
+      [attr.for]="htmlFor || null"
+      [attr.placement]="placement"
+      [attr.show-delay]="showDelay ?? null"
+      [attr.hide-delay]="hideDelay ?? null"
+      [attr.open]="open ? '' : null"
     >
       <ng-content></ng-content>
     </kds-tooltip>
@@ -51,7 +70,9 @@ import type { TooltipTheme, TooltipArrow } from '@kds/web-components';
     }
   `]
 })
-export class KdsTooltipComponent {
+export class KdsTooltipComponent implements AfterViewInit, OnDestroy {
+  @ViewChild('tooltipElement', { static: true }) tooltipElement!: ElementRef<HTMLElement>;
+
   /**
    * Tooltip color theme
    * @default 'light'
@@ -73,4 +94,56 @@ export class KdsTooltipComponent {
    * Supporting/description text
    */
   @Input() supportingText?: string;
+
+  /**
+   * Id of the trigger element to anchor to
+   */
+  @Input() htmlFor?: string;
+
+  /**
+   * Side of the trigger the anchored tooltip opens on; the arrow faces the trigger. `auto` flips and shifts to stay visible
+   * @default 'top'
+   */
+  @Input() placement: TooltipPlacement = 'top';
+
+  /**
+   * Delay in ms before opening on hover/focus
+   */
+  @Input() showDelay?: number;
+
+  /**
+   * Delay in ms before closing once pointer/focus leaves
+   */
+  @Input() hideDelay?: number;
+
+  /**
+   * Whether an anchored tooltip is visible
+   * @default false
+   */
+  @Input() open = false;
+
+  /**
+   * Emits when an anchored tooltip opens
+   */
+  @Output() tooltipShow = new EventEmitter<CustomEvent>();
+
+  /**
+   * Emits when an anchored tooltip closes
+   */
+  @Output() tooltipHide = new EventEmitter<CustomEvent>();
+
+  private showListener = (event: Event) => this.tooltipShow.emit(event as CustomEvent);
+  private hideListener = (event: Event) => this.tooltipHide.emit(event as CustomEvent);
+
+  ngAfterViewInit(): void {
+    const el = this.tooltipElement.nativeElement;
+    el.addEventListener('kds-tooltip-show', this.showListener);
+    el.addEventListener('kds-tooltip-hide', this.hideListener);
+  }
+
+  ngOnDestroy(): void {
+    const el = this.tooltipElement.nativeElement;
+    el.removeEventListener('kds-tooltip-show', this.showListener);
+    el.removeEventListener('kds-tooltip-hide', this.hideListener);
+  }
 }
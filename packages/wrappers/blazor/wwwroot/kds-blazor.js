@@ -104,6 +104,43 @@ window.KdsBlazor = {
     if (element) element.value = value;
   },
 
+  buttonGroupListeners: new Map(),
+
+  /**
+   * Attach change listener to button group web component
+   * @param {HTMLElement} element - The button group element
+   * @param {DotNetObject} dotNetHelper - .NET object reference
+   */
+  attachButtonGroupListener: function (element, dotNetHelper) {
+    const listener = (e) => {
+      dotNetHelper.invokeMethodAsync('HandleButtonGroupChange', e.detail.values);
+    };
+
+    element.addEventListener('kds-button-group-change', listener);
+    this.buttonGroupListeners.set(element, listener);
+  },
+
+  /**
+   * Detach change listener from button group web component
+   * @param {HTMLElement} element - The button group element
+   */
+  detachButtonGroupListener: function (element) {
+    const listener = this.buttonGroupListeners.get(element);
+    if (listener) {
+      element.removeEventListener('kds-button-group-change', listener);
+      this.buttonGroupListeners.delete(element);
+    }
+  },
+
+  /**
+   * Set the selected values on a button group element
+   * @param {HTMLElement} element - The button group element
+   * @param {string[]} values - The values to select
+   */
+  setButtonGroupValues: function (element, values) {
+    if (element) element.values = values;
+  },
+
   buttonGroupItemListeners: new Map(),
 
   /**
@@ -130,5 +167,582 @@ window.KdsBlazor = {
       element.removeEventListener('kds-button-group-item-click', listener);
       this.buttonGroupItemListeners.delete(element);
     }
+  },
+
+  checkboxGroupListeners: new Map(),
+
+  /**
+   * Attach change listener to checkbox group web component
+   * @param {HTMLElement} element - The checkbox group element
+   * @param {DotNetObject} dotNetHelper - .NET object reference
+   */
+  attachCheckboxGroupListener: function (element, dotNetHelper) {
+    const listener = (e) => {
+      dotNetHelper.invokeMethodAsync('HandleCheckboxGroupChange', e.detail.value);
+    };
+
+    element.addEventListener('kds-checkbox-group-change', listener);
+    this.checkboxGroupListeners.set(element, listener);
+  },
+
+  /**
+   * Detach change listener from checkbox group web component
+   * @param {HTMLElement} element - The checkbox group element
+   */
+  detachCheckboxGroupListener: function (element) {
+    const listener = this.checkboxGroupListeners.get(element);
+    if (listener) {
+      element.removeEventListener('kds-checkbox-group-change', listener);
+      this.checkboxGroupListeners.delete(element);
+    }
+  },
+
+  /**
+   * Set the checked values on a checkbox group element
+   * @param {HTMLElement} element - The checkbox group element
+   * @param {string[]} value - The values to check
+   */
+  setCheckboxGroupValue: function (element, value) {
+    if (element) element.value = value;
+  },
+
+  radioListeners: new Map(),
+
+  /**
+   * Attach event listeners to radio web component
+   * @param {HTMLElement} element - The radio element
+   * @param {DotNetObject} dotNetHelper - .NET object reference
+   */
+  attachRadioListener: function (element, dotNetHelper) {
+    const listeners = {
+      change: (e) => dotNetHelper.invokeMethodAsync('HandleRadioChange', e.detail.value),
+      focus: () => dotNetHelper.invokeMethodAsync('HandleRadioFocus'),
+      blur: () => dotNetHelper.invokeMethodAsync('HandleRadioBlur'),
+    };
+
+    element.addEventListener('kds-radio-change', listeners.change);
+    element.addEventListener('kds-radio-focus', listeners.focus);
+    element.addEventListener('kds-radio-blur', listeners.blur);
+    this.radioListeners.set(element, listeners);
+  },
+
+  /**
+   * Detach event listeners from radio web component
+   * @param {HTMLElement} element - The radio element
+   */
+  detachRadioListener: function (element) {
+    const listeners = this.radioListeners.get(element);
+    if (listeners) {
+      element.removeEventListener('kds-radio-change', listeners.change);
+      element.removeEventListener('kds-radio-focus', listeners.focus);
+      element.removeEventListener('kds-radio-blur', listeners.blur);
+      this.radioListeners.delete(element);
+    }
+  },
+
+  radioGroupListeners: new Map(),
+
+  /**
+   * Attach change listener to radio group web component
+   * @param {HTMLElement} element - The radio group element
+   * @param {DotNetObject} dotNetHelper - .NET object reference
+   */
+  attachRadioGroupListener: function (element, dotNetHelper) {
+    const listener = (e) => {
+      dotNetHelper.invokeMethodAsync('HandleRadioGroupChange', e.detail.value);
+    };
+
+    element.addEventListener('kds-radio-group-change', listener);
+    this.radioGroupListeners.set(element, listener);
+  },
+
+  /**
+   * Detach change listener from radio group web component
+   * @param {HTMLElement} element - The radio group element
+   */
+  detachRadioGroupListener: function (element) {
+    const listener = this.radioGroupListeners.get(element);
+    if (listener) {
+      element.removeEventListener('kds-radio-group-change', listener);
+      this.radioGroupListeners.delete(element);
+    }
+  },
+
+  /**
+   * Set the checked value on a radio group element
+   * @param {HTMLElement} element - The radio group element
+   * @param {string} value - The value to check
+   */
+  setRadioGroupValue: function (element, value) {
+    if (element) element.value = value;
+  },
+
+  selectListeners: new Map(),
+
+  /**
+   * Attach change listener to select web component
+   * @param {HTMLElement} element - The select element
+   * @param {DotNetObject} dotNetHelper - .NET object reference
+   */
+  attachSelectListener: function (element, dotNetHelper) {
+    const listener = (e) => {
+      dotNetHelper.invokeMethodAsync('HandleSelectChange', e.detail.values);
+    };
+
+    element.addEventListener('kds-select-change', listener);
+    this.selectListeners.set(element, listener);
+  },
+
+  /**
+   * Detach change listener from select web component
+   * @param {HTMLElement} element - The select element
+   */
+  detachSelectListener: function (element) {
+    const listener = this.selectListeners.get(element);
+    if (listener) {
+      element.removeEventListener('kds-select-change', listener);
+      this.selectListeners.delete(element);
+    }
+  },
+
+  /**
+   * Set the selected values on a select element
+   * @param {HTMLElement} element - The select element
+   * @param {string[]} values - The values to select
+   */
+  setSelectValues: function (element, values) {
+    if (element) element.values = values;
+  },
+
+  textareaListeners: new Map(),
+
+  /**
+   * Attach event listeners to textarea web component
+   * @param {HTMLElement} element - The textarea element
+   * @param {DotNetObject} dotNetHelper - .NET object reference
+   */
+  attachTextareaListeners: function (element, dotNetHelper) {
+    const listeners = {
+      input: (e) => dotNetHelper.invokeMethodAsync('HandleInput', e.detail.value),
+      change: (e) => dotNetHelper.invokeMethodAsync('HandleChange', e.detail.value),
+    };
+
+    element.addEventListener('kds-input', listeners.input);
+    element.addEventListener('kds-change', listeners.change);
+    this.textareaListeners.set(element, listeners);
+  },
+
+  /**
+   * Detach event listeners from textarea web component
+   * @param {HTMLElement} element - The textarea element
+   */
+  detachTextareaListeners: function (element) {
+    const listeners = this.textareaListeners.get(element);
+    if (listeners) {
+      element.removeEventListener('kds-input', listeners.input);
+      element.removeEventListener('kds-change', listeners.change);
+      this.textareaListeners.delete(element);
+    }
+  },
+
+  /**
+   * Set the value property on a textarea element
+   * @param {HTMLElement} element - The textarea element
+   * @param {string} value - The value to set
+   */
+  setTextareaValue: function (element, value) {
+    if (element) element.value = value;
+  },
+
+  dialogListeners: new Map(),
+
+  /**
+   * Attach open/close listeners to dialog web component
+   * @param {HTMLElement} element - The dialog element
+   * @param {DotNetObject} dotNetHelper - .NET object reference
+   */
+  attachDialogListeners: function (element, dotNetHelper) {
+    const listeners = {
+      open: () => dotNetHelper.invokeMethodAsync('HandleDialogOpen'),
+      close: (e) => dotNetHelper.invokeMethodAsync('HandleDialogClose', e.detail.returnValue),
+    };
+
+    element.addEventListener('kds-dialog-open', listeners.open);
+    element.addEventListener('kds-dialog-close', listeners.close);
+    this.dialogListeners.set(element, listeners);
+  },
+
+  /**
+   * Detach open/close listeners from dialog web component
+   * @param {HTMLElement} element - The dialog element
+   */
+  detachDialogListeners: function (element) {
+    const listeners = this.dialogListeners.get(element);
+    if (listeners) {
+      element.removeEventListener('kds-dialog-open', listeners.open);
+      element.removeEventListener('kds-dialog-close', listeners.close);
+      this.dialogListeners.delete(element);
+    }
+  },
+
+  /**
+   * Open or close a dialog element
+   * @param {HTMLElement} element - The dialog element
+   * @param {boolean} open - Whether the dialog is shown
+   */
+  setDialogOpen: function (element, open) {
+    if (element) element.open = open;
+  },
+
+  toastListeners: new Map(),
+
+  /**
+   * Attach action/close listeners to toast web component
+   * @param {HTMLElement} element - The toast element
+   * @param {DotNetObject} dotNetHelper - .NET object reference
+   */
+  attachToastListeners: function (element, dotNetHelper) {
+    const listeners = {
+      action: () => dotNetHelper.invokeMethodAsync('HandleToastAction'),
+      close: (e) => dotNetHelper.invokeMethodAsync('HandleToastClose', e.detail.reason),
+    };
+
+    element.addEventListener('kds-toast-action', listeners.action);
+    element.addEventListener('kds-toast-close', listeners.close);
+    this.toastListeners.set(element, listeners);
+  },
+
+  /**
+   * Detach action/close listeners from toast web component
+   * @param {HTMLElement} element - The toast element
+   */
+  detachToastListeners: function (element) {
+    const listeners = this.toastListeners.get(element);
+    if (listeners) {
+      element.removeEventListener('kds-toast-action', listeners.action);
+      element.removeEventListener('kds-toast-close', listeners.close);
+      this.toastListeners.delete(element);
+    }
+  },
+
+  tabsListeners: new Map(),
+
+  /**
+   * Attach change listener to tabs web component
+   * @param {HTMLElement} element - The tabs element
+   * @param {DotNetObject} dotNetHelper - .NET object reference
+   */
+  attachTabsListener: function (element, dotNetHelper) {
+    const listener = (e) => {
+      dotNetHelper.invokeMethodAsync('HandleTabsChange', e.detail.value);
+    };
+
+    element.addEventListener('kds-tabs-change', listener);
+    this.tabsListeners.set(element, listener);
+  },
+
+  /**
+   * Detach change listener from tabs web component
+   * @param {HTMLElement} element - The tabs element
+   */
+  detachTabsListener: function (element) {
+    const listener = this.tabsListeners.get(element);
+    if (listener) {
+      element.removeEventListener('kds-tabs-change', listener);
+      this.tabsListeners.delete(element);
+    }
+  },
+
+  /**
+   * Set the selected tab on a tabs element
+   * @param {HTMLElement} element - The tabs element
+   * @param {string} value - Value of the tab to select
+   */
+  setTabsValue: function (element, value) {
+    if (element) element.value = value;
+  },
+
+  menuListeners: new Map(),
+
+  /**
+   * Attach select listener to menu web component
+   * @param {HTMLElement} element - The menu element
+   * @param {DotNetObject} dotNetHelper - .NET object reference
+   */
+  attachMenuListener: function (element, dotNetHelper) {
+    const listener = (e) => {
+      dotNetHelper.invokeMethodAsync('HandleMenuSelect', e.detail.value);
+    };
+
+    element.addEventListener('kds-menu-select', listener);
+    this.menuListeners.set(element, listener);
+  },
+
+  /**
+   * Detach select listener from menu web component
+   * @param {HTMLElement} element - The menu element
+   */
+  detachMenuListener: function (element) {
+    const listener = this.menuListeners.get(element);
+    if (listener) {
+      element.removeEventListener('kds-menu-select', listener);
+      this.menuListeners.delete(element);
+    }
+  },
+
+  sliderListeners: new Map(),
+
+  /**
+   * Attach input and change listeners to slider web component
+   * @param {HTMLElement} element - The slider element
+   * @param {DotNetObject} dotNetHelper - .NET object reference
+   */
+  attachSliderListeners: function (element, dotNetHelper) {
+    const listeners = {
+      input: (e) => dotNetHelper.invokeMethodAsync('HandleSliderInput', e.detail.value, e.detail.valueStart, e.detail.valueEnd),
+      change: (e) => dotNetHelper.invokeMethodAsync('HandleSliderChange', e.detail.value, e.detail.valueStart, e.detail.valueEnd),
+    };
+
+    element.addEventListener('kds-slider-input', listeners.input);
+    element.addEventListener('kds-slider-change', listeners.change);
+    this.sliderListeners.set(element, listeners);
+  },
+
+  /**
+   * Detach event listeners from slider web component
+   * @param {HTMLElement} element - The slider element
+   */
+  detachSliderListeners: function (element) {
+    const listeners = this.sliderListeners.get(element);
+    if (listeners) {
+      element.removeEventListener('kds-slider-input', listeners.input);
+      element.removeEventListener('kds-slider-change', listeners.change);
+      this.sliderListeners.delete(element);
+    }
+  },
+
+  /**
+   * Set the value properties on a slider element
+   * @param {HTMLElement} element - The slider element
+   * @param {number} value - Value in single mode
+   * @param {number} valueStart - Lower value in range mode
+   * @param {number} valueEnd - Upper value in range mode
+   */
+  setSliderValues: function (element, value, valueStart, valueEnd) {
+    if (!element) return;
+    element.value = value;
+    element.valueStart = valueStart;
+    element.valueEnd = valueEnd;
+  },
+
+  datePickerListeners: new Map(),
+
+  /**
+   * Attach change listener to date-picker web component
+   * @param {HTMLElement} element - The date-picker element
+   * @param {DotNetObject} dotNetHelper - .NET object reference
+   */
+  attachDatePickerListener: function (element, dotNetHelper) {
+    const listener = (e) => dotNetHelper.invokeMethodAsync('HandleDateChange', e.detail.value, e.detail.valueStart, e.detail.valueEnd);
+    element.addEventListener('kds-date-picker-change', listener);
+    this.datePickerListeners.set(element, listener);
+  },
+
+  /**
+   * Detach change listener from date-picker web component
+   * @param {HTMLElement} element - The date-picker element
+   */
+  detachDatePickerListener: function (element) {
+    const listener = this.datePickerListeners.get(element);
+    if (listener) {
+      element.removeEventListener('kds-date-picker-change', listener);
+      this.datePickerListeners.delete(element);
+    }
+  },
+
+  /**
+   * Set the value properties on a date-picker element
+   * @param {HTMLElement} element - The date-picker element
+   * @param {string} value - Date in single mode (YYYY-MM-DD, or empty)
+   * @param {string} valueStart - First date of the range
+   * @param {string} valueEnd - Last date of the range
+   */
+  setDatePickerValues: function (element, value, valueStart, valueEnd) {
+    if (!element) return;
+    element.value = value;
+    element.valueStart = valueStart;
+    element.valueEnd = valueEnd;
+  },
+
+  paginationListeners: new Map(),
+
+  /**
+   * Attach page change listener to pagination web component
+   * @param {HTMLElement} element - The pagination element
+   * @param {DotNetObject} dotNetHelper - .NET object reference
+   */
+  attachPaginationListener: function (element, dotNetHelper) {
+    const listener = (e) => dotNetHelper.invokeMethodAsync('HandlePageChange', e.detail.page, e.detail.pageSize);
+    element.addEventListener('kds-page-change', listener);
+    this.paginationListeners.set(element, listener);
+  },
+
+  /**
+   * Detach page change listener from pagination web component
+   * @param {HTMLElement} element - The pagination element
+   */
+  detachPaginationListener: function (element) {
+    const listener = this.paginationListeners.get(element);
+    if (listener) {
+      element.removeEventListener('kds-page-change', listener);
+      this.paginationListeners.delete(element);
+    }
+  },
+
+  /**
+   * Set the page and page size properties on a pagination element
+   * @param {HTMLElement} element - The pagination element
+   * @param {number} page - Current page, starting at 1
+   * @param {number} pageSize - Items per page
+   */
+  setPaginationValues: function (element, page, pageSize) {
+    if (!element) return;
+    element.page = page;
+    element.pageSize = pageSize;
+  },
+
+  tableListeners: new Map(),
+
+  /**
+   * Attach sort and selection listeners to table web component
+   * @param {HTMLElement} element - The table element
+   * @param {DotNetObject} dotNetHelper - .NET object reference
+   */
+  attachTableListeners: function (element, dotNetHelper) {
+    const listeners = {
+      sort: (e) => dotNetHelper.invokeMethodAsync('HandleTableSort', e.detail.sortKey, e.detail.sortDirection),
+      selection: (e) => dotNetHelper.invokeMethodAsync('HandleTableSelectionChange', e.detail.selectedKeys),
+    };
+
+    element.addEventListener('kds-table-sort', listeners.sort);
+    element.addEventListener('kds-table-selection-change', listeners.selection);
+    this.tableListeners.set(element, listeners);
+  },
+
+  /**
+   * Detach event listeners from table web component
+   * @param {HTMLElement} element - The table element
+   */
+  detachTableListeners: function (element) {
+    const listeners = this.tableListeners.get(element);
+    if (listeners) {
+      element.removeEventListener('kds-table-sort', listeners.sort);
+      element.removeEventListener('kds-table-selection-change', listeners.selection);
+      this.tableListeners.delete(element);
+    }
+  },
+
+  /**
+   * Set the columns and rows on a table element
+   * @param {HTMLElement} element - The table element
+   * @param {Array<Object>} columns - Column definitions
+   * @param {Array<Object>} rows - Rows keyed by column key
+   */
+  setTableData: function (element, columns, rows) {
+    if (!element) return;
+    element.columns = columns;
+    element.rows = rows;
+  },
+
+  /**
+   * Set the sort and selection properties on a table element
+   * @param {HTMLElement} element - The table element
+   * @param {string} sortKey - Key of the sorted column, or empty
+   * @param {string} sortDirection - ascending or descending
+   * @param {string[]} selectedKeys - Row keys of the selected rows
+   */
+  setTableState: function (element, sortKey, sortDirection, selectedKeys) {
+    if (!element) return;
+    element.sortKey = sortKey;
+    element.sortDirection = sortDirection;
+    element.selectedKeys = selectedKeys;
+  },
+
+  alertListeners: new Map(),
+
+  /**
+   * Attach dismiss listener to alert web component
+   * @param {HTMLElement} element - The alert element
+   * @param {DotNetObject} dotNetHelper - .NET object reference
+   */
+  attachAlertListener: function (element, dotNetHelper) {
+    const listener = () => dotNetHelper.invokeMethodAsync('HandleAlertDismiss');
+    element.addEventListener('kds-alert-dismiss', listener);
+    this.alertListeners.set(element, listener);
+  },
+
+  /**
+   * Detach dismiss listener from alert web component
+   * @param {HTMLElement} element - The alert element
+   */
+  detachAlertListener: function (element) {
+    const listener = this.alertListeners.get(element);
+    if (listener) {
+      element.removeEventListener('kds-alert-dismiss', listener);
+      this.alertListeners.delete(element);
+    }
+  },
+
+  fileUploadListeners: new Map(),
+
+  /**
+   * Attach add/remove/reject listeners to file upload web component
+   * @param {HTMLElement} element - The file upload element
+   * @param {DotNetObject} dotNetHelper - .NET object reference
+   */
+  attachFileUploadListeners: function (element, dotNetHelper) {
+    // Files can't cross into .NET; only their metadata is passed
+    const toMetadata = (file) => ({ name: file.name, size: file.size, type: file.type });
+    const listeners = {
+      add: (e) => dotNetHelper.invokeMethodAsync('HandleFilesAdded', e.detail.files.map(toMetadata)),
+      remove: (e) => dotNetHelper.invokeMethodAsync('HandleFileRemoved', toMetadata(e.detail.file)),
+      reject: (e) => dotNetHelper.invokeMethodAsync(
+        'HandleFilesRejected',
+        e.detail.rejections.map((r) => ({ name: r.file.name, reason: r.reason, message: r.message }))
+      ),
+    };
+    element.addEventListener('kds-file-add', listeners.add);
+    element.addEventListener('kds-file-remove', listeners.remove);
+    element.addEventListener('kds-file-reject', listeners.reject);
+    this.fileUploadListeners.set(element, listeners);
+  },
+
+  /**
+   * Detach add/remove/reject listeners from file upload web component
+   * @param {HTMLElement} element - The file upload element
+   */
+  detachFileUploadListeners: function (element) {
+    const listeners = this.fileUploadListeners.get(element);
+    if (listeners) {
+      element.removeEventListener('kds-file-add', listeners.add);
+      element.removeEventListener('kds-file-remove', listeners.remove);
+      element.removeEventListener('kds-file-reject', listeners.reject);
+      this.fileUploadListeners.delete(element);
+    }
+  },
+
+  /**
+   * Set the upload progress or error of a file in a file upload element
+   * @param {HTMLElement} element - The file upload element
+   * @param {string} fileName - Name of the file
+   * @param {number|null} progress - Progress from 0 to 100, or null to hide the bar
+   * @param {string|null} error - Upload error, or null
+   */
+  setFileUploadProgress: function (element, fileName, progress, error) {
+    if (!element) return;
+    const item = element.items.find((i) => i.file.name === fileName);
+    if (item) {
+      element.updateItem(item.file, { progress: progress ?? undefined, error: error ?? undefined });
+    }
   }
 };
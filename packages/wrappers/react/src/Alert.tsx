@@ -0,0 +1,128 @@
+/**
+ * @package @kds/react
+ * @component Alert
+ * @description React component wrapper for kds-alert web component
+ */
+
+import React, { forwardRef, useRef, useEffect } from 'react';
+import type { AlertColor } from '@kds/web-components';
+
+export interface AlertProps {
+  /**
+   * Severity color
+   * @default 'gray'
+   */
+  color?: AlertColor;
+
+  /**
+   * Bold title
+   */
+  heading?: string;
+
+  /**
+   * Show a dismiss button
+   * @default false
+   */
+  dismissible?: boolean;
+
+  /**
+   * Accessible label of the dismiss button
+   * @default 'Dismiss'
+   */
+  closeLabel?: string;
+
+  /**
+   * Fired when the alert is dismissed; the alert hides itself
+   */
+  onDismiss?: (event: CustomEvent) => void;
+
+  /**
+   * Supporting text; use `slot="actions"` for action buttons
+   */
+  children?: React.ReactNode;
+
+  /**
+   * Additional CSS classes
+   */
+  className?: string;
+
+  /**
+   * Additional styles
+   */
+  style?: React.CSSProperties;
+}
+
+/**
+ * Alert component wrapper for React
+ *
+ * @example
+ * ```tsx
+ * import { Alert, Button } from '@kds/react';
+ *
+ * function MaintenanceNotice({ onClose }: { onClose: () => void }) {
+ *   return (
+ *     <Alert color="warning" heading="Scheduled maintenance" dismissible onDismiss={onClose}>
+ *       The toll portal is unavailable on Sunday from 02:00 to 04:00.
+ *       <Button slot="actions" hierarchy="link-gray" size="sm">Learn more</Button>
+ *     </Alert>
+ *   );
+ * }
+ * ```
+ */
+export const Alert = forwardRef<HTMLElement, AlertProps>(
+  (
+    {
+      color = 'gray',
+      heading,
+      dismissible = false,
+      closeLabel,
+      onDismiss,
+      children,
+      className,
+      style,
+    },
+    ref
+  ) => {
+    const alertRef = useRef<HTMLElement>(null);
+
+    // Handle ref forwarding
+    useEffect(() => {
+      if (ref && alertRef.current) {
+        if (typeof ref === 'function') {
+          ref(alertRef.current);
+        } else {
+          (ref as React.MutableRefObject<HTMLElement | null>).current = alertRef.current;
+        }
+      }
+    }, [ref]);
+
+    // Handle dismiss events from web component
+    useEffect(() => {
+      const alert = alertRef.current;
+      if (!alert || !onDismiss) return;
+
+      const handleDismiss = (event: Event) => {
+        onDismiss(event as CustomEvent);
+      };
+
+      alert.addEventListener('kds-alert-dismiss', handleDismiss);
+      return () => alert.removeEventListener('kds-alert-dismiss', handleDismiss);
+    }, [onDismiss]);
+
+    return React.createElement(
+      'kds-alert',
+      {
+        ref: alertRef,
+        color,
+        heading,
+        dismissible: dismissible || undefined,
+        'close-label': closeLabel,
+        class: className,
+        style,
+      },
+      children
+    );
+  }
+);
+
+Alert.displayName = 'Alert';
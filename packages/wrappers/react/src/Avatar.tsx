@@ -0,0 +1,81 @@
+/**
+ * @package @kds/react
+ * @component Avatar
+ * @description React component wrapper for kds-avatar web component
+ */
+
+import React, { forwardRef } from 'react';
+import type { AvatarSize, AvatarStatus } from '@kds/web-components';
+
+export interface AvatarProps {
+  /**
+   * Image URL
+   */
+  src?: string;
+
+  /**
+   * Person's name: names the avatar and provides the initials
+   */
+  name?: string;
+
+  /**
+   * Initials shown without an image; derived from name when empty
+   */
+  initials?: string;
+
+  /**
+   * Avatar size
+   * @default 'md'
+   */
+  size?: AvatarSize;
+
+  /**
+   * Presence shown as a dot in the corner
+   * @default 'none'
+   */
+  status?: AvatarStatus;
+
+  /**
+   * ARIA label (defaults to the name and status)
+   */
+  ariaLabel?: string;
+
+  /**
+   * Additional CSS classes
+   */
+  className?: string;
+
+  /**
+   * Additional styles
+   */
+  style?: React.CSSProperties;
+}
+
+/**
+ * Avatar component wrapper for React
+ *
+ * @example
+ * ```tsx
+ * import { Avatar } from '@kds/react';
+ *
+ * function Operator({ user }: { user: User }) {
+ *   return <Avatar src={user.photoUrl} name={user.name} status={user.online ? 'online' : 'offline'} />;
+ * }
+ * ```
+ */
+export const Avatar = forwardRef<HTMLElement, AvatarProps>(
+  ({ src, name, initials, size = 'md', status = 'none', ariaLabel, className, style }, ref) =>
+    React.createElement('kds-avatar', {
+      ref,
+      src,
+      name,
+      initials,
+      size,
+      status,
+      'aria-label': ariaLabel,
+      class: className,
+      style,
+    })
+);
+
+Avatar.displayName = 'Avatar';
@@ -0,0 +1,78 @@
+/**
+ * @package @kds/react
+ * @component AvatarGroup
+ * @description React component wrapper for kds-avatar-group web component
+ */
+
+import React, { forwardRef } from 'react';
+import type { AvatarSize } from '@kds/web-components';
+
+export interface AvatarGroupProps {
+  /**
+   * Size of every avatar in the group; replaces the avatars' own size
+   * @default 'sm'
+   */
+  size?: AvatarSize;
+
+  /**
+   * Most avatars to show before the "+N" avatar; 0 shows all
+   * @default 0
+   */
+  max?: number;
+
+  /**
+   * ARIA label of the group
+   */
+  ariaLabel?: string;
+
+  /**
+   * Group content (Avatar children)
+   */
+  children?: React.ReactNode;
+
+  /**
+   * Additional CSS classes
+   */
+  className?: string;
+
+  /**
+   * Additional styles
+   */
+  style?: React.CSSProperties;
+}
+
+/**
+ * AvatarGroup component wrapper for React
+ *
+ * @example
+ * ```tsx
+ * import { Avatar, AvatarGroup } from '@kds/react';
+ *
+ * function ShiftOperators({ operators }: { operators: User[] }) {
+ *   return (
+ *     <AvatarGroup ariaLabel="Shift operators" max={4}>
+ *       {operators.map((user) => (
+ *         <Avatar key={user.id} src={user.photoUrl} name={user.name} />
+ *       ))}
+ *     </AvatarGroup>
+ *   );
+ * }
+ * ```
+ */
+export const AvatarGroup = forwardRef<HTMLElement, AvatarGroupProps>(
+  ({ size = 'sm', max, ariaLabel, children, className, style }, ref) =>
+    React.createElement(
+      'kds-avatar-group',
+      {
+        ref,
+        size,
+        max,
+        'aria-label': ariaLabel,
+        class: className,
+        style,
+      },
+      children
+    )
+);
+
+AvatarGroup.displayName = 'AvatarGroup';
@@ -39,17 +39,95 @@ export interface ButtonProps {
    */
   disabled?: boolean;
 
+  /**
+   * Pending state: shows a spinner and blocks clicks
+   * @default false
+   */
+  loading?: boolean;
+
+  /**
+   * Text announced to screen readers while loading
+   * @default 'Loading'
+   */
+  loadingText?: string;
+
   /**
    * Button type attribute
    * @default 'button'
    */
   type?: 'button' | 'submit' | 'reset';
 
+  /**
+   * Name submitted with the form when this button submits it
+   */
+  name?: string;
+
+  /**
+   * Value submitted under name when this button submits the form
+   */
+  value?: string;
+
+  /**
+   * Id of the form to submit or reset, when the button is outside it
+   */
+  form?: string;
+
+  /**
+   * URL that processes the submission, overriding the form's action (type="submit" only)
+   */
+  formAction?: string;
+
+  /**
+   * HTTP method of the submission, overriding the form's method (type="submit" only)
+   */
+  formMethod?: string;
+
+  /**
+   * Encoding of the submission, overriding the form's enctype (type="submit" only)
+   */
+  formEnctype?: string;
+
+  /**
+   * Where to show the response, overriding the form's target (type="submit" only)
+   */
+  formTarget?: string;
+
+  /**
+   * Submits without validating the form (type="submit" only)
+   * @default false
+   */
+  formNoValidate?: boolean;
+
+  /**
+   * URL to navigate to. When set, renders a link with the same styling
+   */
+  href?: string;
+
+  /**
+   * Where to open the linked URL
+   */
+  target?: string;
+
+  /**
+   * Relationship of the linked URL
+   */
+  rel?: string;
+
+  /**
+   * Downloads the linked URL; the value is the suggested file name
+   */
+  download?: string;
+
   /**
    * ARIA label for icon-only buttons
    */
   ariaLabel?: string;
 
+  /**
+   * Slot name, e.g. 'trigger' inside a Menu
+   */
+  slot?: string;
+
   /**
    * Click event handler
    */
@@ -96,8 +174,23 @@ export const Button = forwardRef<HTMLElement, ButtonProps>(
       iconPosition = 'none',
       destructive = false,
       disabled = false,
+      loading = false,
+      loadingText,
       type = 'button',
+      name,
+      value,
+      form,
+      formAction,
+      formMethod,
+      formEnctype,
+      formTarget,
+      formNoValidate = false,
+      href,
+      target,
+      rel,
+      download,
       ariaLabel,
+      slot,
       onClick,
       children,
       className,
@@ -143,8 +236,23 @@ export const Button = forwardRef<HTMLElement, ButtonProps>(
         'icon-position': iconPosition,
         destructive: destructive ? '' : undefined,
         disabled: disabled ? '' : undefined,
+        loading: loading ? '' : undefined,
+        'loading-text': loadingText,
         type,
+        name,
+        value,
+        form,
+        formaction: formAction,
+        formmethod: formMethod,
+        formenctype: formEnctype,
+        formtarget: formTarget,
+        formnovalidate: formNoValidate ? '' : undefined,
+        href,
+        target,
+        rel,
+        download,
         'aria-label': ariaLabel,
+        slot,
         class: className,
         style,
       },
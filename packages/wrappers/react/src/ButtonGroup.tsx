@@ -5,7 +5,7 @@
  */
 
 import React, { forwardRef, useRef, useEffect } from 'react';
-import type { ButtonGroupItemIcon } from '@kds/web-components';
+import type { ButtonGroupItemIcon, ButtonGroupSelection } from '@kds/web-components';
 
 export interface ButtonGroupProps {
   /**
@@ -13,6 +13,27 @@ export interface ButtonGroupProps {
    */
   ariaLabel?: string;
 
+  /**
+   * How the group manages item selection
+   * @default 'none'
+   */
+  selection?: ButtonGroupSelection;
+
+  /**
+   * Value of the selected item (single mode)
+   */
+  value?: string;
+
+  /**
+   * Values of the selected items (multiple mode)
+   */
+  values?: string[];
+
+  /**
+   * Selection change handler; `event.detail` holds `{ value, values }`
+   */
+  onChange?: (event: CustomEvent<{ value: string; values: string[] }>) => void;
+
   /**
    * Group content (ButtonGroupItem children)
    */
@@ -30,7 +51,7 @@ export interface ButtonGroupProps {
 }
 
 export const ButtonGroup = forwardRef<HTMLElement, ButtonGroupProps>(
-  ({ ariaLabel, children, className, style }, ref) => {
+  ({ ariaLabel, selection = 'none', value, values, onChange, children, className, style }, ref) => {
     const groupRef = useRef<HTMLElement>(null);
 
     useEffect(() => {
@@ -43,11 +64,36 @@ export const ButtonGroup = forwardRef<HTMLElement, ButtonGroupProps>(
       }
     }, [ref]);
 
+    useEffect(() => {
+      const group = groupRef.current;
+      if (!group || !onChange) return;
+
+      const handleChange = (event: Event) => {
+        onChange(event as CustomEvent<{ value: string; values: string[] }>);
+      };
+
+      group.addEventListener('kds-button-group-change', handleChange);
+
+      return () => {
+        group.removeEventListener('kds-button-group-change', handleChange);
+      };
+    }, [onChange]);
+
+    // Arrays can't be passed as attributes, so values is set as a property
+    useEffect(() => {
+      const group = groupRef.current as (HTMLElement & { values: string[] }) | null;
+      if (group && values !== undefined) {
+        group.values = values;
+      }
+    }, [values]);
+
     return React.createElement(
       'kds-button-group',
       {
         ref: groupRef,
         'aria-label': ariaLabel,
+        selection,
+        value,
         class: className,
         style,
       },
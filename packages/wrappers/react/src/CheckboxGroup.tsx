@@ -0,0 +1,198 @@
+/**
+ * @package @kds/react
+ * @component CheckboxGroup
+ * @description React wrapper for kds-checkbox-group web component
+ */
+
+import React, { useEffect, useRef, forwardRef } from 'react';
+import type { CheckboxSize, CheckboxGroupOrientation } from '@kds/web-components';
+import '@kds/web-components';
+
+export interface CheckboxGroupProps {
+  /**
+   * Group label text
+   */
+  label?: string;
+
+  /**
+   * Hint text below the options (shown as the error message in error state)
+   */
+  hint?: string;
+
+  /**
+   * Layout of the options
+   * @default 'vertical'
+   */
+  orientation?: CheckboxGroupOrientation;
+
+  /**
+   * Size applied to every option
+   * @default 'md'
+   */
+  size?: CheckboxSize;
+
+  /**
+   * Name applied to every option for form submission
+   */
+  name?: string;
+
+  /**
+   * Values of the checked options
+   */
+  value?: string[];
+
+  /**
+   * Disables every option
+   * @default false
+   */
+  disabled?: boolean;
+
+  /**
+   * Error state
+   * @default false
+   */
+  error?: boolean;
+
+  /**
+   * Show a tri-state "select all" parent checkbox
+   * @default false
+   */
+  selectAll?: boolean;
+
+  /**
+   * Label of the "select all" parent checkbox
+   * @default 'Select all'
+   */
+  selectAllLabel?: string;
+
+  /**
+   * ARIA label (when there is no visible label)
+   */
+  ariaLabel?: string;
+
+  /**
+   * Change event handler; `event.detail.value` holds the checked values
+   */
+  onChange?: (event: CustomEvent<{ value: string[] }>) => void;
+
+  /**
+   * Group content (Checkbox children)
+   */
+  children?: React.ReactNode;
+
+  /**
+   * Additional CSS classes
+   */
+  className?: string;
+
+  /**
+   * Additional styles
+   */
+  style?: React.CSSProperties;
+}
+
+/**
+ * CheckboxGroup component wrapper for React
+ *
+ * @example
+ * ```tsx
+ * import { CheckboxGroup, Checkbox } from '@kds/react';
+ *
+ * function App() {
+ *   const [channels, setChannels] = React.useState(['email']);
+ *
+ *   return (
+ *     <CheckboxGroup
+ *       label="Notifications"
+ *       value={channels}
+ *       selectAll
+ *       onChange={(e) => setChannels(e.detail.value)}
+ *     >
+ *       <Checkbox value="email">Email</Checkbox>
+ *       <Checkbox value="sms">SMS</Checkbox>
+ *     </CheckboxGroup>
+ *   );
+ * }
+ * ```
+ */
+export const CheckboxGroup = forwardRef<HTMLElement, CheckboxGroupProps>(
+  (
+    {
+      label,
+      hint,
+      orientation = 'vertical',
+      size = 'md',
+      name,
+      value,
+      disabled = false,
+      error = false,
+      selectAll = false,
+      selectAllLabel,
+      ariaLabel,
+      onChange,
+      children,
+      className,
+      style,
+    },
+    ref
+  ) => {
+    const groupRef = useRef<HTMLElement>(null);
+
+    // Handle ref forwarding
+    useEffect(() => {
+      if (ref && groupRef.current) {
+        if (typeof ref === 'function') {
+          ref(groupRef.current);
+        } else {
+          (ref as React.MutableRefObject<HTMLElement | null>).current = groupRef.current;
+        }
+      }
+    }, [ref]);
+
+    // Handle change events from web component
+    useEffect(() => {
+      const group = groupRef.current;
+      if (!group || !onChange) return;
+
+      const handleChange = (event: Event) => {
+        onChange(event as CustomEvent<{ value: string[] }>);
+      };
+
+      group.addEventListener('kds-checkbox-group-change', handleChange);
+
+      return () => {
+        group.removeEventListener('kds-checkbox-group-change', handleChange);
+      };
+    }, [onChange]);
+
+    // Arrays can't be passed as attributes, so value is set as a property
+    useEffect(() => {
+      const group = groupRef.current as (HTMLElement & { value: string[] }) | null;
+      if (group && value !== undefined) {
+        group.value = value;
+      }
+    }, [value]);
+
+    return React.createElement(
+      'kds-checkbox-group',
+      {
+        ref: groupRef,
+        label,
+        hint,
+        orientation,
+        size,
+        name,
+        disabled: disabled ? '' : undefined,
+        error: error ? '' : undefined,
+        'select-all': selectAll ? '' : undefined,
+        'select-all-label': selectAllLabel,
+        'aria-label': ariaLabel,
+        class: className,
+        style,
+      },
+      children
+    );
+  }
+);
+
+CheckboxGroup.displayName = 'CheckboxGroup';
@@ -0,0 +1,230 @@
+/**
+ * @package @kds/react
+ * @component DatePicker
+ * @description React component wrapper for kds-date-picker web component
+ */
+
+import React, { forwardRef, useRef, useEffect } from 'react';
+import type { DatePickerValueDetail } from '@kds/web-components';
+
+export interface DatePickerProps {
+  /**
+   * Label text shown above the field
+   */
+  label?: string;
+
+  /**
+   * Helper text shown below the field
+   */
+  hint?: string;
+
+  /**
+   * Placeholder text; defaults to the locale's date pattern
+   */
+  placeholder?: string;
+
+  /**
+   * Name used when submitting the value with a form
+   */
+  name?: string;
+
+  /**
+   * Selected date in single mode (YYYY-MM-DD)
+   */
+  value?: string;
+
+  /**
+   * Range mode, using valueStart and valueEnd
+   * @default false
+   */
+  range?: boolean;
+
+  /**
+   * First date of the range (YYYY-MM-DD)
+   */
+  valueStart?: string;
+
+  /**
+   * Last date of the range (YYYY-MM-DD)
+   */
+  valueEnd?: string;
+
+  /**
+   * Earliest selectable date (YYYY-MM-DD)
+   */
+  min?: string;
+
+  /**
+   * Latest selectable date (YYYY-MM-DD)
+   */
+  max?: string;
+
+  /**
+   * Dates that can't be selected (YYYY-MM-DD)
+   */
+  disabledDates?: string[];
+
+  /**
+   * Disables dates by rule, e.g. weekends
+   */
+  isDateDisabled?: (date: Date) => boolean;
+
+  /**
+   * BCP 47 locale for formatting and parsing
+   */
+  locale?: string;
+
+  /**
+   * First day of the week, 0 (Sunday) to 6
+   */
+  firstDayOfWeek?: number;
+
+  /**
+   * Whether a date must be entered
+   * @default false
+   */
+  required?: boolean;
+
+  /**
+   * Whether the date picker is disabled
+   * @default false
+   */
+  disabled?: boolean;
+
+  /**
+   * Fired when the user selects or types a new date; `event.detail` holds `{ value, valueStart, valueEnd }`
+   */
+  onChange?: (event: CustomEvent<DatePickerValueDetail>) => void;
+
+  /**
+   * Additional CSS classes
+   */
+  className?: string;
+
+  /**
+   * Additional styles
+   */
+  style?: React.CSSProperties;
+}
+
+/**
+ * DatePicker component wrapper for React
+ *
+ * @example
+ * ```tsx
+ * import { DatePicker } from '@kds/react';
+ *
+ * function Booking() {
+ *   const [stay, setStay] = useState({ start: '', end: '' });
+ *
+ *   return (
+ *     <DatePicker
+ *       label="Stay"
+ *       range
+ *       min="2026-10-19"
+ *       valueStart={stay.start}
+ *       valueEnd={stay.end}
+ *       onChange={(e) => setStay({ start: e.detail.valueStart, end: e.detail.valueEnd })}
+ *     />
+ *   );
+ * }
+ * ```
+ */
+export const DatePicker = forwardRef<HTMLElement, DatePickerProps>(
+  (
+    {
+      label,
+      hint,
+      placeholder,
+      name,
+      value,
+      range = false,
+      valueStart,
+      valueEnd,
+      min,
+      max,
+      disabledDates,
+      isDateDisabled,
+      locale,
+      firstDayOfWeek,
+      required = false,
+      disabled = false,
+      onChange,
+      className,
+      style,
+    },
+    ref
+  ) => {
+    const pickerRef = useRef<HTMLElement>(null);
+
+    // Handle ref forwarding
+    useEffect(() => {
+      if (ref && pickerRef.current) {
+        if (typeof ref === 'function') {
+          ref(pickerRef.current);
+        } else {
+          (ref as React.MutableRefObject<HTMLElement | null>).current = pickerRef.current;
+        }
+      }
+    }, [ref]);
+
+    // Handle change events from web component
+    useEffect(() => {
+      const picker = pickerRef.current;
+      if (!picker || !onChange) return;
+
+      const handleChange = (event: Event) => {
+        onChange(event as CustomEvent<DatePickerValueDetail>);
+      };
+
+      picker.addEventListener('kds-date-picker-change', handleChange);
+      return () => picker.removeEventListener('kds-date-picker-change', handleChange);
+    }, [onChange]);
+
+    // The attributes only seed the values; keep the properties in sync for controlled use
+    useEffect(() => {
+      const picker = pickerRef.current as (HTMLElement & { value: string; valueStart: string; valueEnd: string }) | null;
+      if (!picker) return;
+      if (value !== undefined) picker.value = value;
+      if (valueStart !== undefined) picker.valueStart = valueStart;
+      if (valueEnd !== undefined) picker.valueEnd = valueEnd;
+    }, [value, valueStart, valueEnd]);
+
+    // Arrays and functions can't be passed as attributes, so they are set as properties
+    useEffect(() => {
+      const picker = pickerRef.current as (HTMLElement & { disabledDates: string[] }) | null;
+      if (picker && disabledDates !== undefined) {
+        picker.disabledDates = disabledDates;
+      }
+    }, [disabledDates]);
+
+    useEffect(() => {
+      const picker = pickerRef.current as (HTMLElement & { isDateDisabled: ((date: Date) => boolean) | null }) | null;
+      if (picker) {
+        picker.isDateDisabled = isDateDisabled ?? null;
+      }
+    }, [isDateDisabled]);
+
+    return React.createElement('kds-date-picker', {
+      ref: pickerRef,
+      label,
+      hint,
+      placeholder,
+      name,
+      value,
+      range: range || undefined,
+      'value-start': valueStart,
+      'value-end': valueEnd,
+      min,
+      max,
+      locale,
+      'first-day-of-week': firstDayOfWeek,
+      required: required || undefined,
+      disabled: disabled || undefined,
+      class: className,
+      style,
+    });
+  }
+);
+
+DatePicker.displayName = 'DatePicker';
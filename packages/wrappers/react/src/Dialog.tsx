@@ -0,0 +1,186 @@
+/**
+ * @package @kds/react
+ * @component Dialog
+ * @description React wrapper for kds-dialog web component
+ */
+
+import React, { useEffect, useRef, forwardRef } from 'react';
+import type { DialogSize } from '@kds/web-components';
+import '@kds/web-components';
+
+export interface DialogProps {
+  /**
+   * Whether the dialog is shown
+   * @default false
+   */
+  open?: boolean;
+
+  /**
+   * Dialog title; also its accessible name
+   */
+  heading?: string;
+
+  /**
+   * Dialog width
+   * @default 'md'
+   */
+  size?: DialogSize;
+
+  /**
+   * Destructive confirmation: error featured icon and destructive confirm button
+   * @default false
+   */
+  destructive?: boolean;
+
+  /**
+   * Label of the built-in confirm button (closes with return value "confirm")
+   */
+  confirmLabel?: string;
+
+  /**
+   * Label of the built-in cancel button (closes with return value "cancel")
+   * @default 'Cancel'
+   */
+  cancelLabel?: string;
+
+  /**
+   * ARIA label (when there is no heading)
+   */
+  ariaLabel?: string;
+
+  /**
+   * Fired after the dialog opens
+   */
+  onOpen?: (event: CustomEvent) => void;
+
+  /**
+   * Fired after the dialog closes; `detail.returnValue` says how it was closed
+   */
+  onClose?: (event: CustomEvent<{ returnValue: string }>) => void;
+
+  /**
+   * Dialog content; use `slot="header"` and `slot="footer"` for the other regions
+   */
+  children?: React.ReactNode;
+
+  /**
+   * Additional CSS classes
+   */
+  className?: string;
+
+  /**
+   * Additional styles
+   */
+  style?: React.CSSProperties;
+}
+
+/**
+ * Dialog component wrapper for React
+ *
+ * @example
+ * ```tsx
+ * import { Dialog, Button } from '@kds/react';
+ *
+ * function App() {
+ *   const [open, setOpen] = React.useState(false);
+ *
+ *   return (
+ *     <>
+ *       <Button onClick={() => setOpen(true)}>Delete project</Button>
+ *       <Dialog
+ *         open={open}
+ *         heading="Delete project"
+ *         destructive
+ *         confirmLabel="Delete"
+ *         onClose={(e) => {
+ *           setOpen(false);
+ *           if (e.detail.returnValue === 'confirm') deleteProject();
+ *         }}
+ *       >
+ *         This project and all of its data will be permanently deleted.
+ *       </Dialog>
+ *     </>
+ *   );
+ * }
+ * ```
+ */
+export const Dialog = forwardRef<HTMLElement, DialogProps>(
+  (
+    {
+      open = false,
+      heading,
+      size = 'md',
+      destructive = false,
+      confirmLabel,
+      cancelLabel,
+      ariaLabel,
+      onOpen,
+      onClose,
+      children,
+      className,
+      style,
+    },
+    ref
+  ) => {
+    const dialogRef = useRef<HTMLElement>(null);
+
+    // Handle ref forwarding
+    useEffect(() => {
+      if (ref && dialogRef.current) {
+        if (typeof ref === 'function') {
+          ref(dialogRef.current);
+        } else {
+          (ref as React.MutableRefObject<HTMLElement | null>).current = dialogRef.current;
+        }
+      }
+    }, [ref]);
+
+    // Handle open/close events from web component
+    useEffect(() => {
+      const dialog = dialogRef.current;
+      if (!dialog) return;
+
+      const handleOpen = (event: Event) => {
+        onOpen?.(event as CustomEvent);
+      };
+      const handleClose = (event: Event) => {
+        onClose?.(event as CustomEvent<{ returnValue: string }>);
+      };
+
+      dialog.addEventListener('kds-dialog-open', handleOpen);
+      dialog.addEventListener('kds-dialog-close', handleClose);
+
+      return () => {
+        dialog.removeEventListener('kds-dialog-open', handleOpen);
+        dialog.removeEventListener('kds-dialog-close', handleClose);
+      };
+    }, [onOpen, onClose]);
+
+    // The dialog closes itself (Escape, backdrop); keep the property in sync for controlled use
+    useEffect(() => {
+      const dialog = dialogRef.current as (HTMLElement & { open: boolean }) | null;
+      if (dialog) {
+        dialog.open = open;
+      }
+    }, [open]);
+
+    return React.createElement(
+      'kds-dialog',
+      {
+        ref: dialogRef,
+        open: open ? '' : undefined,
+        heading,
+        size,
+        destructive: destructive ? '' : undefined,
+        'confirm-label': confirmLabel,
+        'cancel-label': cancelLabel,
+        'aria-label': ariaLabel,
+        class: className,
+        style,
+      },
+      children
+    );
+  }
+);
+
+Dialog.displayName = 'Dialog';
@@ -0,0 +1,236 @@
+/**
+ * @package @kds/react
+ * @component FileUpload
+ * @description React component wrapper for kds-file-upload web component
+ */
+
+import React, { forwardRef, useRef, useEffect } from 'react';
+import type {
+  FileUploadItem,
+  FileAddDetail,
+  FileRemoveDetail,
+  FileRejectDetail,
+} from '@kds/web-components';
+
+export interface FileUploadProps {
+  /**
+   * Label text shown above the dropzone
+   */
+  label?: string;
+
+  /**
+   * Hint text shown below; replaced by the message when files are rejected or validation fails
+   */
+  hint?: string;
+
+  /**
+   * Name used when submitting the files with a form
+   */
+  name?: string;
+
+  /**
+   * Accepted file types, e.g. ".pdf,image/*"
+   */
+  accept?: string;
+
+  /**
+   * Allow more than one file
+   * @default false
+   */
+  multiple?: boolean;
+
+  /**
+   * Largest accepted file in bytes; 0 = no limit
+   * @default 0
+   */
+  maxSize?: number;
+
+  /**
+   * At least one file must be selected
+   * @default false
+   */
+  required?: boolean;
+
+  /**
+   * Whether the file upload is disabled
+   * @default false
+   */
+  disabled?: boolean;
+
+  /**
+   * Error/destructive state
+   * @default false
+   */
+  destructive?: boolean;
+
+  /**
+   * Text of the browse button
+   * @default 'Click to upload'
+   */
+  browseLabel?: string;
+
+  /**
+   * Text after the browse button
+   * @default 'or drag and drop'
+   */
+  dropLabel?: string;
+
+  /**
+   * Accessible label of the remove buttons, followed by the file name
+   * @default 'Remove'
+   */
+  removeLabel?: string;
+
+  /**
+   * Selected files and their upload progress or error
+   */
+  items?: FileUploadItem[];
+
+  /**
+   * Fired when the user adds files; `event.detail.files` holds the accepted files
+   */
+  onFileAdd?: (event: CustomEvent<FileAddDetail>) => void;
+
+  /**
+   * Fired when a file is removed or replaced; `event.detail.file` holds the file
+   */
+  onFileRemove?: (event: CustomEvent<FileRemoveDetail>) => void;
+
+  /**
+   * Fired when files are rejected; `event.detail.rejections` says which and why
+   */
+  onFileReject?: (event: CustomEvent<FileRejectDetail>) => void;
+
+  /**
+   * Additional CSS classes
+   */
+  className?: string;
+
+  /**
+   * Additional styles
+   */
+  style?: React.CSSProperties;
+}
+
+/**
+ * FileUpload component wrapper for React
+ *
+ * @example
+ * ```tsx
+ * import { FileUpload } from '@kds/react';
+ * import type { FileUploadItem } from '@kds/react';
+ *
+ * function Attachments() {
+ *   const [items, setItems] = useState<FileUploadItem[]>([]);
+ *
+ *   const setProgress = (file: File, progress: number) =>
+ *     setItems((current) => current.map((item) => (item.file === file ? { ...item, progress } : item)));
+ *
+ *   return (
+ *     <FileUpload
+ *       label="Attachments"
+ *       multiple
+ *       maxSize={10 * 1024 * 1024}
+ *       items={items}
+ *       onFileAdd={(e) => {
+ *         setItems((current) => [...current, ...e.detail.files.map((file) => ({ file, progress: 0 }))]);
+ *         e.detail.files.forEach((file) => upload(file, (progress) => setProgress(file, progress)));
+ *       }}
+ *       onFileRemove={(e) => setItems((current) => current.filter((item) => item.file !== e.detail.file))}
+ *     />
+ *   );
+ * }
+ * ```
+ */
+export const FileUpload = forwardRef<HTMLElement, FileUploadProps>(
+  (
+    {
+      label,
+      hint,
+      name,
+      accept,
+      multiple = false,
+      maxSize,
+      required = false,
+      disabled = false,
+      destructive = false,
+      browseLabel,
+      dropLabel,
+      removeLabel,
+      items,
+      onFileAdd,
+      onFileRemove,
+      onFileReject,
+      className,
+      style,
+    },
+    ref
+  ) => {
+    const uploadRef = useRef<HTMLElement>(null);
+
+    // Handle ref forwarding
+    useEffect(() => {
+      if (ref && uploadRef.current) {
+        if (typeof ref === 'function') {
+          ref(uploadRef.current);
+        } else {
+          (ref as React.MutableRefObject<HTMLElement | null>).current = uploadRef.current;
+        }
+      }
+    }, [ref]);
+
+    // Handle file events from web component
+    useEffect(() => {
+      const upload = uploadRef.current;
+      if (!upload) return;
+
+      const handleAdd = (event: Event) => {
+        onFileAdd?.(event as CustomEvent<FileAddDetail>);
+      };
+      const handleRemove = (event: Event) => {
+        onFileRemove?.(event as CustomEvent<FileRemoveDetail>);
+      };
+      const handleReject = (event: Event) => {
+        onFileReject?.(event as CustomEvent<FileRejectDetail>);
+      };
+
+      upload.addEventListener('kds-file-add', handleAdd);
+      upload.addEventListener('kds-file-remove', handleRemove);
+      upload.addEventListener('kds-file-reject', handleReject);
+
+      return () => {
+        upload.removeEventListener('kds-file-add', handleAdd);
+        upload.removeEventListener('kds-file-remove', handleRemove);
+        upload.removeEventListener('kds-file-reject', handleReject);
+      };
+    }, [onFileAdd, onFileRemove, onFileReject]);
+
+    // Files can't be passed as attributes, so the items are set as a property
+    useEffect(() => {
+      const upload = uploadRef.current as (HTMLElement & { items: FileUploadItem[] }) | null;
+      if (upload && items !== undefined) {
+        upload.items = items;
+      }
+    }, [items]);
+
+    return React.createElement('kds-file-upload', {
+      ref: uploadRef,
+      label,
+      hint,
+      name,
+      accept,
+      multiple: multiple || undefined,
+      'max-size': maxSize,
+      required: required || undefined,
+      disabled: disabled || undefined,
+      destructive: destructive || undefined,
+      'browse-label': browseLabel,
+      'drop-label': dropLabel,
+      'remove-label': removeLabel,
+      class: className,
+      style,
+    });
+  }
+);
+
+FileUpload.displayName = 'FileUpload';
@@ -5,7 +5,7 @@
  */
 
 import React, { forwardRef, useRef, useEffect, useImperativeHandle } from 'react';
-import type { InputFieldType } from '@kds/web-components';
+import type { InputFieldType, InputFieldValidator } from '@kds/web-components';
 
 export interface InputFieldProps {
   /** Visual variant. Default: 'default'. */
@@ -50,6 +50,27 @@ export interface InputFieldProps {
   /** HTML required attribute. */
   required?: boolean;
 
+  /** Minimum number of characters. */
+  minLength?: number;
+
+  /** Maximum number of characters. */
+  maxLength?: number;
+
+  /** Regular expression the value must match. */
+  pattern?: string;
+
+  /** Minimum value for numeric / date input types. */
+  min?: string;
+
+  /** Maximum value for numeric / date input types. */
+  max?: string;
+
+  /** Step granularity for numeric / date input types. */
+  step?: string;
+
+  /** Custom validators; the first non-empty message marks the field invalid. */
+  validators?: InputFieldValidator[];
+
   /** ARIA label (used when label prop is not set). */
   'aria-label'?: string;
 
@@ -93,6 +114,13 @@ export const InputField = forwardRef<HTMLElement, InputFieldProps>(
       helpIcon,
       leadingText,
       required,
+      minLength,
+      maxLength,
+      pattern,
+      min,
+      max,
+      step,
+      validators,
       'aria-label': ariaLabel,
       onKdsInput,
       onKdsChange,
@@ -137,6 +165,14 @@ export const InputField = forwardRef<HTMLElement, InputFieldProps>(
       }
     }, [value]);
 
+    // Validators are functions, so they are set as a property rather than an attribute
+    useEffect(() => {
+      const el = elementRef.current as any;
+      if (el) {
+        el.validators = validators ?? [];
+      }
+    }, [validators]);
+
     return React.createElement(
       'kds-input-field' as any,
       {
@@ -157,6 +193,12 @@ export const InputField = forwardRef<HTMLElement, InputFieldProps>(
         'help-icon': helpIcon || undefined,
         'leading-text': leadingText ?? undefined,
         required: required || undefined,
+        minlength: minLength ?? undefined,
+        maxlength: maxLength ?? undefined,
+        pattern: pattern ?? undefined,
+        min: min ?? undefined,
+        max: max ?? undefined,
+        step: step ?? undefined,
         'aria-label': ariaLabel ?? undefined,
       },
       leadingIconContent
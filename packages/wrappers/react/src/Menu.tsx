@@ -0,0 +1,203 @@
+/**
+ * @package @kds/react
+ * @component Menu, MenuItem, MenuSeparator
+ * @description React component wrappers for kds-menu web components
+ */
+
+import React, { forwardRef, useRef, useEffect } from 'react';
+import type { MenuPlacement, MenuItemType } from '@kds/web-components';
+
+export interface MenuProps {
+  /**
+   * Whether the menu is shown (it also opens from its trigger)
+   * @default false
+   */
+  open?: boolean;
+
+  /**
+   * Preferred position relative to the trigger; flipped when there is no room
+   * @default 'bottom-start'
+   */
+  placement?: MenuPlacement;
+
+  /**
+   * ARIA label for the menu (defaults to the trigger or parent item text)
+   */
+  ariaLabel?: string;
+
+  /**
+   * Set to `"submenu"` when nesting the menu inside a MenuItem
+   */
+  slot?: string;
+
+  /**
+   * Selection handler; `event.detail` holds `{ value, checked }`
+   */
+  onSelect?: (event: CustomEvent<{ value: string; checked: boolean }>) => void;
+
+  /**
+   * Trigger element (with `slot="trigger"`), MenuItem and MenuSeparator children
+   */
+  children?: React.ReactNode;
+
+  /**
+   * Additional CSS classes
+   */
+  className?: string;
+
+  /**
+   * Additional styles
+   */
+  style?: React.CSSProperties;
+}
+
+/**
+ * Menu component wrapper for React
+ *
+ * @example
+ * ```tsx
+ * import { Menu, MenuItem, MenuSeparator, Button } from '@kds/react';
+ *
+ * function RowActions({ row }) {
+ *   return (
+ *     <Menu onSelect={(e) => handleAction(row, e.detail.value)}>
+ *       <Button slot="trigger" hierarchy="tertiary-gray" ariaLabel="Row actions">...</Button>
+ *       <MenuItem value="edit" shortcut="⌘E">Edit</MenuItem>
+ *       <MenuItem>
+ *         Move to
+ *         <Menu slot="submenu">
+ *           <MenuItem value="archive">Archive</MenuItem>
+ *         </Menu>
+ *       </MenuItem>
+ *       <MenuSeparator />
+ *       <MenuItem value="delete">Delete</MenuItem>
+ *     </Menu>
+ *   );
+ * }
+ * ```
+ */
+export const Menu = forwardRef<HTMLElement, MenuProps>(
+  (
+    {
+      open = false,
+      placement = 'bottom-start',
+      ariaLabel,
+      slot,
+      onSelect,
+      children,
+      className,
+      style,
+    },
+    ref
+  ) => {
+    const menuRef = useRef<HTMLElement>(null);
+
+    // Handle ref forwarding
+    useEffect(() => {
+      if (ref && menuRef.current) {
+        if (typeof ref === 'function') {
+          ref(menuRef.current);
+        } else {
+          (ref as React.MutableRefObject<HTMLElement | null>).current = menuRef.current;
+        }
+      }
+    }, [ref]);
+
+    // Handle select events from web component
+    useEffect(() => {
+      const menu = menuRef.current;
+      if (!menu || !onSelect) return;
+
+      const handleSelect = (event: Event) => {
+        onSelect(event as CustomEvent<{ value: string; checked: boolean }>);
+      };
+
+      menu.addEventListener('kds-menu-select', handleSelect);
+
+      return () => {
+        menu.removeEventListener('kds-menu-select', handleSelect);
+      };
+    }, [onSelect]);
+
+    return React.createElement(
+      'kds-menu',
+      {
+        ref: menuRef,
+        open: open || undefined,
+        placement,
+        'aria-label': ariaLabel,
+        slot,
+        class: className,
+        style,
+      },
+      children
+    );
+  }
+);
+
+Menu.displayName = 'Menu';
+
+export interface MenuItemProps {
+  /**
+   * Value reported by `onSelect`; defaults to the item text
+   */
+  value?: string;
+
+  /**
+   * Plain, checkbox or radio item
+   * @default 'normal'
+   */
+  type?: MenuItemType;
+
+  /**
+   * Checked state of checkbox and radio items
+   * @default false
+   */
+  checked?: boolean;
+
+  /**
+   * Radio group of the item within its menu
+   */
+  name?: string;
+
+  /**
+   * Keyboard shortcut hint (display only)
+   */
+  shortcut?: string;
+
+  /**
+   * Whether the item can't be selected
+   * @default false
+   */
+  disabled?: boolean;
+
+  /**
+   * Item label; an element with `slot="icon"` and a nested `<Menu slot="submenu">` are also accepted
+   */
+  children?: React.ReactNode;
+}
+
+export const MenuItem = forwardRef<HTMLElement, MenuItemProps>(
+  ({ value, type = 'normal', checked = false, name, shortcut, disabled = false, children }, ref) =>
+    React.createElement(
+      'kds-menu-item',
+      {
+        ref,
+        value,
+        type,
+        checked: checked || undefined,
+        name,
+        shortcut,
+        disabled: disabled || undefined,
+      },
+      children
+    )
+);
+
+MenuItem.displayName = 'MenuItem';
+
+export const MenuSeparator = forwardRef<HTMLElement, {}>((_props, ref) =>
+  React.createElement('kds-menu-separator', { ref })
+);
+
+MenuSeparator.displayName = 'MenuSeparator';
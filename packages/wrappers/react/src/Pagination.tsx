@@ -0,0 +1,184 @@
+/**
+ * @package @kds/react
+ * @component Pagination
+ * @description React component wrapper for kds-pagination web component
+ */
+
+import React, { forwardRef, useRef, useEffect } from 'react';
+import type { PageChangeDetail } from '@kds/web-components';
+
+export interface PaginationProps {
+  /**
+   * Current page, starting at 1
+   * @default 1
+   */
+  page?: number;
+
+  /**
+   * Number of items being paged; the page count is derived from it
+   */
+  total?: number;
+
+  /**
+   * Number of pages; used instead of deriving it from total
+   */
+  pageCount?: number;
+
+  /**
+   * Items per page
+   * @default 10
+   */
+  pageSize?: number;
+
+  /**
+   * Choices for the page size selector; hidden when empty
+   */
+  pageSizes?: number[];
+
+  /**
+   * Pages shown on each side of the current page before collapsing
+   * @default 1
+   */
+  siblingCount?: number;
+
+  /**
+   * Show first and last page controls
+   * @default false
+   */
+  showFirstLast?: boolean;
+
+  /**
+   * Label of the page size selector
+   * @default 'Rows per page'
+   */
+  pageSizeLabel?: string;
+
+  /**
+   * Whether the pagination is disabled
+   * @default false
+   */
+  disabled?: boolean;
+
+  /**
+   * ARIA label of the navigation landmark
+   * @default 'Pagination'
+   */
+  ariaLabel?: string;
+
+  /**
+   * Fired when the user changes the page or the page size; `event.detail` holds `{ page, pageSize }`
+   */
+  onPageChange?: (event: CustomEvent<PageChangeDetail>) => void;
+
+  /**
+   * Additional CSS classes
+   */
+  className?: string;
+
+  /**
+   * Additional styles
+   */
+  style?: React.CSSProperties;
+}
+
+/**
+ * Pagination component wrapper for React
+ *
+ * @example
+ * ```tsx
+ * import { Pagination } from '@kds/react';
+ *
+ * function Orders({ total }: { total: number }) {
+ *   const [paging, setPaging] = useState({ page: 1, pageSize: 25 });
+ *
+ *   return (
+ *     <Pagination
+ *       total={total}
+ *       page={paging.page}
+ *       pageSize={paging.pageSize}
+ *       pageSizes={[10, 25, 50]}
+ *       onPageChange={(e) => setPaging(e.detail)}
+ *     />
+ *   );
+ * }
+ * ```
+ */
+export const Pagination = forwardRef<HTMLElement, PaginationProps>(
+  (
+    {
+      page = 1,
+      total,
+      pageCount,
+      pageSize,
+      pageSizes,
+      siblingCount,
+      showFirstLast = false,
+      pageSizeLabel,
+      disabled = false,
+      ariaLabel,
+      onPageChange,
+      className,
+      style,
+    },
+    ref
+  ) => {
+    const paginationRef = useRef<HTMLElement>(null);
+
+    // Handle ref forwarding
+    useEffect(() => {
+      if (ref && paginationRef.current) {
+        if (typeof ref === 'function') {
+          ref(paginationRef.current);
+        } else {
+          (ref as React.MutableRefObject<HTMLElement | null>).current = paginationRef.current;
+        }
+      }
+    }, [ref]);
+
+    // Handle page change events from web component
+    useEffect(() => {
+      const pagination = paginationRef.current;
+      if (!pagination || !onPageChange) return;
+
+      const handlePageChange = (event: Event) => {
+        onPageChange(event as CustomEvent<PageChangeDetail>);
+      };
+
+      pagination.addEventListener('kds-page-change', handlePageChange);
+      return () => pagination.removeEventListener('kds-page-change', handlePageChange);
+    }, [onPageChange]);
+
+    // The attributes only seed the values; keep the properties in sync for controlled use
+    useEffect(() => {
+      const pagination = paginationRef.current as (HTMLElement & { page: number; pageSize: number }) | null;
+      if (!pagination) return;
+      pagination.page = page;
+      if (pageSize !== undefined) pagination.pageSize = pageSize;
+    }, [page, pageSize]);
+
+    // Arrays can't be passed as attributes, so they are set as properties
+    useEffect(() => {
+      const pagination = paginationRef.current as (HTMLElement & { pageSizes: number[] }) | null;
+      if (pagination && pageSizes !== undefined) {
+        pagination.pageSizes = pageSizes;
+      }
+    }, [pageSizes]);
+
+    return React.createElement('kds-pagination', {
+      ref: paginationRef,
+      page,
+      total,
+      'page-count': pageCount,
+      'page-size': pageSize,
+      'sibling-count': siblingCount,
+      'show-first-last': showFirstLast || undefined,
+      'page-size-label': pageSizeLabel,
+      disabled: disabled || undefined,
+      'aria-label': ariaLabel,
+      class: className,
+      style,
+    });
+  }
+);
+
+Pagination.displayName = 'Pagination';
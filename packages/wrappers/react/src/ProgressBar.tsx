@@ -0,0 +1,103 @@
+/**
+ * @package @kds/react
+ * @component ProgressBar
+ * @description React component wrapper for kds-progress-bar web component
+ */
+
+import React, { forwardRef } from 'react';
+import type { ProgressVariant, ProgressValuePosition } from '@kds/web-components';
+
+export interface ProgressBarProps {
+  /**
+   * Current progress, from 0 to `max`
+   * @default 0
+   */
+  value?: number;
+
+  /**
+   * Value that represents completion
+   * @default 100
+   */
+  max?: number;
+
+  /**
+   * Visible label above the bar
+   */
+  label?: string;
+
+  /**
+   * Where the percentage text is shown
+   * @default 'right'
+   */
+  valuePosition?: ProgressValuePosition;
+
+  /**
+   * Brand or error color
+   * @default 'brand'
+   */
+  variant?: ProgressVariant;
+
+  /**
+   * Progress is unknown: animates instead of showing a value
+   * @default false
+   */
+  indeterminate?: boolean;
+
+  /**
+   * ARIA label (when there is no visible label)
+   */
+  ariaLabel?: string;
+
+  /**
+   * Additional CSS classes
+   */
+  className?: string;
+
+  /**
+   * Additional styles
+   */
+  style?: React.CSSProperties;
+}
+
+/**
+ * ProgressBar component wrapper for React
+ *
+ * @example
+ * ```tsx
+ * import { ProgressBar } from '@kds/react';
+ *
+ * function Upload({ progress }) {
+ *   return <ProgressBar label="Uploading report.pdf" value={progress} />;
+ * }
+ * ```
+ */
+export const ProgressBar = forwardRef<HTMLElement, ProgressBarProps>(
+  (
+    {
+      value = 0,
+      max = 100,
+      label,
+      valuePosition = 'right',
+      variant = 'brand',
+      indeterminate = false,
+      ariaLabel,
+      className,
+      style,
+    },
+    ref
+  ) =>
+    React.createElement('kds-progress-bar', {
+      ref,
+      value,
+      max,
+      label,
+      'value-position': valuePosition,
+      variant,
+      indeterminate: indeterminate || undefined,
+      'aria-label': ariaLabel,
+      class: className,
+      style,
+    })
+);
+
+ProgressBar.displayName = 'ProgressBar';
@@ -0,0 +1,221 @@
+/**
+ * @package @kds/react
+ * @component Radio
+ * @description React wrapper for kds-radio web component
+ */
+
+import React, { useEffect, useRef, forwardRef } from 'react';
+import type { RadioSize } from '@kds/web-components';
+import '@kds/web-components';
+
+export interface RadioProps {
+  /**
+   * Radio size
+   * @default 'md'
+   */
+  size?: RadioSize;
+
+  /**
+   * Whether the radio is checked
+   * @default false
+   */
+  checked?: boolean;
+
+  /**
+   * Disabled state
+   * @default false
+   */
+  disabled?: boolean;
+
+  /**
+   * Error/invalid state
+   * @default false
+   */
+  error?: boolean;
+
+  /**
+   * Name attribute for form submission; radios sharing a name form one set
+   */
+  name?: string;
+
+  /**
+   * Value attribute for form submission
+   * @default 'on'
+   */
+  value?: string;
+
+  /**
+   * Required attribute for form validation
+   * @default false
+   */
+  required?: boolean;
+
+  /**
+   * ARIA label for accessibility
+   */
+  ariaLabel?: string;
+
+  /**
+   * ARIA described-by for help text/error messages
+   */
+  ariaDescribedBy?: string;
+
+  /**
+   * Change event handler (fired when the radio gets checked)
+   */
+  onChange?: (event: CustomEvent) => void;
+
+  /**
+   * Focus event handler
+   */
+  onFocus?: (event: CustomEvent) => void;
+
+  /**
+   * Blur event handler
+   */
+  onBlur?: (event: CustomEvent) => void;
+
+  /**
+   * Radio label (text content)
+   */
+  children?: React.ReactNode;
+
+  /**
+   * Additional CSS classes
+   */
+  className?: string;
+
+  /**
+   * Additional styles
+   */
+  style?: React.CSSProperties;
+}
+
+/**
+ * Radio component wrapper for React
+ *
+ * @example
+ * ```tsx
+ * import { Radio } from '@kds/react';
+ * import '@kds/web-components/tokens.css';
+ *
+ * function App() {
+ *   const [plan, setPlan] = React.useState('basic');
+ *
+ *   return (
+ *     <>
+ *       <Radio name="plan" value="basic" checked={plan === 'basic'} onChange={(e) => setPlan(e.detail.value)}>
+ *         Basic
+ *       </Radio>
+ *       <Radio name="plan" value="pro" checked={plan === 'pro'} onChange={(e) => setPlan(e.detail.value)}>
+ *         Pro
+ *       </Radio>
+ *     </>
+ *   );
+ * }
+ * ```
+ */
+export const Radio = forwardRef<HTMLElement, RadioProps>(
+  (
+    {
+      size = 'md',
+      checked = false,
+      disabled = false,
+      error = false,
+      name,
+      value = 'on',
+      required = false,
+      ariaLabel,
+      ariaDescribedBy,
+      onChange,
+      onFocus,
+      onBlur,
+      children,
+      className,
+      style,
+    },
+    ref
+  ) => {
+    const radioRef = useRef<HTMLElement>(null);
+
+    // Handle ref forwarding
+    useEffect(() => {
+      if (ref && radioRef.current) {
+        if (typeof ref === 'function') {
+          ref(radioRef.current);
+        } else {
+          (ref as React.MutableRefObject<HTMLElement | null>).current = radioRef.current;
+        }
+      }
+    }, [ref]);
+
+    // Handle change events from web component
+    useEffect(() => {
+      const radio = radioRef.current;
+      if (!radio || !onChange) return;
+
+      const handleChange = (event: Event) => {
+        onChange(event as CustomEvent);
+      };
+
+      radio.addEventListener('kds-radio-change', handleChange);
+
+      return () => {
+        radio.removeEventListener('kds-radio-change', handleChange);
+      };
+    }, [onChange]);
+
+    // Handle focus events from web component
+    useEffect(() => {
+      const radio = radioRef.current;
+      if (!radio || !onFocus) return;
+
+      const handleFocus = (event: Event) => {
+        onFocus(event as CustomEvent);
+      };
+
+      radio.addEventListener('kds-radio-focus', handleFocus);
+
+      return () => {
+        radio.removeEventListener('kds-radio-focus', handleFocus);
+      };
+    }, [onFocus]);
+
+    // Handle blur events from web component
+    useEffect(() => {
+      const radio = radioRef.current;
+      if (!radio || !onBlur) return;
+
+      const handleBlur = (event: Event) => {
+        onBlur(event as CustomEvent);
+      };
+
+      radio.addEventListener('kds-radio-blur', handleBlur);
+
+      return () => {
+        radio.removeEventListener('kds-radio-blur', handleBlur);
+      };
+    }, [onBlur]);
+
+    return React.createElement(
+      'kds-radio',
+      {
+        ref: radioRef,
+        size,
+        checked: checked ? '' : undefined,
+        disabled: disabled ? '' : undefined,
+        error: error ? '' : undefined,
+        name,
+        value,
+        required: required ? '' : undefined,
+        'aria-label': ariaLabel,
+        'aria-describedby': ariaDescribedBy,
+        class: className,
+        style,
+      },
+      children
+    );
+  }
+);
+
+Radio.displayName = 'Radio';
@@ -0,0 +1,191 @@
+/**
+ * @package @kds/react
+ * @component RadioGroup
+ * @description React wrapper for kds-radio-group web component
+ */
+
+import React, { useEffect, useRef, forwardRef } from 'react';
+import type { RadioSize, RadioGroupOrientation } from '@kds/web-components';
+import '@kds/web-components';
+
+export interface RadioGroupProps {
+  /**
+   * Group label text
+   */
+  label?: string;
+
+  /**
+   * Hint text below the options (shown as the error message in error state)
+   */
+  hint?: string;
+
+  /**
+   * Layout of the options
+   * @default 'vertical'
+   */
+  orientation?: RadioGroupOrientation;
+
+  /**
+   * Size applied to every option
+   * @default 'md'
+   */
+  size?: RadioSize;
+
+  /**
+   * Name applied to every option for form submission
+   */
+  name?: string;
+
+  /**
+   * Value of the checked option
+   */
+  value?: string;
+
+  /**
+   * Whether an option must be checked
+   * @default false
+   */
+  required?: boolean;
+
+  /**
+   * Disables every option
+   * @default false
+   */
+  disabled?: boolean;
+
+  /**
+   * Error state
+   * @default false
+   */
+  error?: boolean;
+
+  /**
+   * ARIA label (when there is no visible label)
+   */
+  ariaLabel?: string;
+
+  /**
+   * Change event handler; `event.detail.value` holds the checked value
+   */
+  onChange?: (event: CustomEvent<{ value: string }>) => void;
+
+  /**
+   * Group content (Radio children)
+   */
+  children?: React.ReactNode;
+
+  /**
+   * Additional CSS classes
+   */
+  className?: string;
+
+  /**
+   * Additional styles
+   */
+  style?: React.CSSProperties;
+}
+
+/**
+ * RadioGroup component wrapper for React
+ *
+ * @example
+ * ```tsx
+ * import { RadioGroup, Radio } from '@kds/react';
+ *
+ * function App() {
+ *   const [plan, setPlan] = React.useState('basic');
+ *
+ *   return (
+ *     <RadioGroup
+ *       label="Plan"
+ *       name="plan"
+ *       value={plan}
+ *       onChange={(e) => setPlan(e.detail.value)}
+ *     >
+ *       <Radio value="basic">Basic</Radio>
+ *       <Radio value="pro">Pro</Radio>
+ *     </RadioGroup>
+ *   );
+ * }
+ * ```
+ */
+export const RadioGroup = forwardRef<HTMLElement, RadioGroupProps>(
+  (
+    {
+      label,
+      hint,
+      orientation = 'vertical',
+      size = 'md',
+      name,
+      value,
+      required = false,
+      disabled = false,
+      error = false,
+      ariaLabel,
+      onChange,
+      children,
+      className,
+      style,
+    },
+    ref
+  ) => {
+    const groupRef = useRef<HTMLElement>(null);
+
+    // Handle ref forwarding
+    useEffect(() => {
+      if (ref && groupRef.current) {
+        if (typeof ref === 'function') {
+          ref(groupRef.current);
+        } else {
+          (ref as React.MutableRefObject<HTMLElement | null>).current = groupRef.current;
+        }
+      }
+    }, [ref]);
+
+    // Handle change events from web component
+    useEffect(() => {
+      const group = groupRef.current;
+      if (!group || !onChange) return;
+
+      const handleChange = (event: Event) => {
+        onChange(event as CustomEvent<{ value: string }>);
+      };
+
+      group.addEventListener('kds-radio-group-change', handleChange);
+
+      return () => {
+        group.removeEventListener('kds-radio-group-change', handleChange);
+      };
+    }, [onChange]);
+
+    // The attribute only seeds the value; keep the property in sync for controlled use
+    useEffect(() => {
+      const group = groupRef.current as (HTMLElement & { value: string }) | null;
+      if (group && value !== undefined) {
+        group.value = value;
+      }
+    }, [value]);
+
+    return React.createElement(
+      'kds-radio-group',
+      {
+        ref: groupRef,
+        label,
+        hint,
+        orientation,
+        size,
+        name,
+        value,
+        required: required ? '' : undefined,
+        disabled: disabled ? '' : undefined,
+        error: error ? '' : undefined,
+        'aria-label': ariaLabel,
+        class: className,
+        style,
+      },
+      children
+    );
+  }
+);
+
+RadioGroup.displayName = 'RadioGroup';
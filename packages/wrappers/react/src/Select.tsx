@@ -0,0 +1,300 @@
+/**
+ * @package @kds/react
+ * @component Select, Option, OptionGroup
+ * @description React wrappers for kds-select, kds-option and kds-option-group web components
+ */
+
+import React, { useEffect, useRef, forwardRef } from 'react';
+import '@kds/web-components';
+
+export interface SelectProps {
+  /**
+   * Label text shown above the trigger
+   */
+  label?: string;
+
+  /**
+   * Hint text below the trigger (shown as the error message in destructive state)
+   */
+  hint?: string;
+
+  /**
+   * Text shown while nothing is selected
+   */
+  placeholder?: string;
+
+  /**
+   * Value of the selected option
+   */
+  value?: string;
+
+  /**
+   * Values of the selected options (multiple mode)
+   */
+  values?: string[];
+
+  /**
+   * Allow selecting several options
+   * @default false
+   */
+  multiple?: boolean;
+
+  /**
+   * Name for form submission
+   */
+  name?: string;
+
+  /**
+   * Error/destructive state
+   * @default false
+   */
+  destructive?: boolean;
+
+  /**
+   * Disabled state
+   * @default false
+   */
+  disabled?: boolean;
+
+  /**
+   * Whether an option must be selected
+   * @default false
+   */
+  required?: boolean;
+
+  /**
+   * Slot name, e.g. 'leading-dropdown' inside an InputField
+   */
+  slot?: string;
+
+  /**
+   * ARIA label (when there is no visible label)
+   */
+  ariaLabel?: string;
+
+  /**
+   * Change event handler; `event.detail` holds `{ value, values }`
+   */
+  onChange?: (event: CustomEvent<{ value: string; values: string[] }>) => void;
+
+  /**
+   * Select content (Option and OptionGroup children)
+   */
+  children?: React.ReactNode;
+
+  /**
+   * Additional CSS classes
+   */
+  className?: string;
+
+  /**
+   * Additional styles
+   */
+  style?: React.CSSProperties;
+}
+
+/**
+ * Select component wrapper for React
+ *
+ * @example
+ * ```tsx
+ * import { Select, Option, OptionGroup, InputField } from '@kds/react';
+ *
+ * function App() {
+ *   const [member, setMember] = React.useState('');
+ *
+ *   return (
+ *     <>
+ *       <Select
+ *         label="Team member"
+ *         placeholder="Select team member"
+ *         value={member}
+ *         onChange={(e) => setMember(e.detail.value)}
+ *       >
+ *         <Option value="olivia">Olivia Rhye</Option>
+ *         <Option value="phoenix">Phoenix Baker</Option>
+ *       </Select>
+ *
+ *       <InputField type="leading-dropdown" label="Phone number" inputType="tel">
+ *         <Select slot="leading-dropdown" ariaLabel="Country" value="US">
+ *           <Option value="US" label="US">United States</Option>
+ *           <Option value="AT" label="AT">Austria</Option>
+ *         </Select>
+ *       </InputField>
+ *     </>
+ *   );
+ * }
+ * ```
+ */
+export const Select = forwardRef<HTMLElement, SelectProps>(
+  (
+    {
+      label,
+      hint,
+      placeholder,
+      value,
+      values,
+      multiple = false,
+      name,
+      destructive = false,
+      disabled = false,
+      required = false,
+      slot,
+      ariaLabel,
+      onChange,
+      children,
+      className,
+      style,
+    },
+    ref
+  ) => {
+    const selectRef = useRef<HTMLElement>(null);
+
+    // Handle ref forwarding
+    useEffect(() => {
+      if (ref && selectRef.current) {
+        if (typeof ref === 'function') {
+          ref(selectRef.current);
+        } else {
+          (ref as React.MutableRefObject<HTMLElement | null>).current = selectRef.current;
+        }
+      }
+    }, [ref]);
+
+    // Handle change events from web component
+    useEffect(() => {
+      const select = selectRef.current;
+      if (!select || !onChange) return;
+
+      const handleChange = (event: Event) => {
+        onChange(event as CustomEvent<{ value: string; values: string[] }>);
+      };
+
+      select.addEventListener('kds-select-change', handleChange);
+
+      return () => {
+        select.removeEventListener('kds-select-change', handleChange);
+      };
+    }, [onChange]);
+
+    // The attribute only seeds the value; keep the property in sync for controlled use
+    useEffect(() => {
+      const select = selectRef.current as (HTMLElement & { value: string }) | null;
+      if (select && value !== undefined) {
+        select.value = value;
+      }
+    }, [value]);
+
+    // Arrays can't be passed as attributes, so values is set as a property
+    useEffect(() => {
+      const select = selectRef.current as (HTMLElement & { values: string[] }) | null;
+      if (select && values !== undefined) {
+        select.values = values;
+      }
+    }, [values]);
+
+    return React.createElement(
+      'kds-select',
+      {
+        ref: selectRef,
+        label,
+        hint,
+        placeholder,
+        value,
+        multiple: multiple ? '' : undefined,
+        name,
+        destructive: destructive ? '' : undefined,
+        disabled: disabled ? '' : undefined,
+        required: required ? '' : undefined,
+        slot,
+        'aria-label': ariaLabel,
+        class: className,
+        style,
+      },
+      children
+    );
+  }
+);
+
+Select.displayName = 'Select';
+
+export interface OptionProps {
+  /**
+   * Value of the option (defaults to its text)
+   */
+  value?: string;
+
+  /**
+   * Text shown in the select trigger when selected (defaults to the option text)
+   */
+  label?: string;
+
+  /**
+   * Whether the option can't be selected
+   * @default false
+   */
+  disabled?: boolean;
+
+  /**
+   * Initially selected
+   * @default false
+   */
+  selected?: boolean;
+
+  /**
+   * Option text
+   */
+  children?: React.ReactNode;
+}
+
+export const Option = forwardRef<HTMLElement, OptionProps>(
+  ({ value, label, disabled = false, selected = false, children }, ref) => {
+    return React.createElement(
+      'kds-option',
+      {
+        ref,
+        value,
+        label,
+        disabled: disabled ? '' : undefined,
+        selected: selected ? '' : undefined,
+      },
+      children
+    );
+  }
+);
+
+Option.displayName = 'Option';
+
+export interface OptionGroupProps {
+  /**
+   * Group heading shown in the listbox
+   */
+  label: string;
+
+  /**
+   * Disables every option of the group
+   * @default false
+   */
+  disabled?: boolean;
+
+  /**
+   * Group content (Option children)
+   */
+  children?: React.ReactNode;
+}
+
+export const OptionGroup = forwardRef<HTMLElement, OptionGroupProps>(
+  ({ label, disabled = false, children }, ref) => {
+    return React.createElement(
+      'kds-option-group',
+      {
+        ref,
+        label,
+        disabled: disabled ? '' : undefined,
+      },
+      children
+    );
+  }
+);
+
+OptionGroup.displayName = 'OptionGroup';
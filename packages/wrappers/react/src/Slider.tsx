@@ -0,0 +1,249 @@
+/**
+ * @package @kds/react
+ * @component Slider
+ * @description React component wrapper for kds-slider web component
+ */
+
+import React, { forwardRef, useRef, useEffect } from 'react';
+import type { SliderTooltip, SliderValueDetail } from '@kds/web-components';
+
+export interface SliderProps {
+  /**
+   * Visible label above the slider
+   */
+  label?: string;
+
+  /**
+   * Name used when submitting the value with a form
+   */
+  name?: string;
+
+  /**
+   * Value in single mode
+   */
+  value?: number;
+
+  /**
+   * Dual-thumb mode, using valueStart and valueEnd
+   * @default false
+   */
+  range?: boolean;
+
+  /**
+   * Lower value in range mode
+   */
+  valueStart?: number;
+
+  /**
+   * Upper value in range mode
+   */
+  valueEnd?: number;
+
+  /**
+   * Lowest value
+   * @default 0
+   */
+  min?: number;
+
+  /**
+   * Highest value
+   * @default 100
+   */
+  max?: number;
+
+  /**
+   * Granularity values snap to
+   * @default 1
+   */
+  step?: number;
+
+  /**
+   * Values marked on the track and labelled below it
+   */
+  marks?: number[];
+
+  /**
+   * Label shown under the start of the track
+   */
+  minLabel?: string;
+
+  /**
+   * Label shown under the end of the track
+   */
+  maxLabel?: string;
+
+  /**
+   * When the value bubble is shown
+   * @default 'auto'
+   */
+  tooltip?: SliderTooltip;
+
+  /**
+   * Formats values for the bubble, mark labels and aria-valuetext
+   */
+  valueFormatter?: (value: number) => string;
+
+  /**
+   * Whether the slider is disabled
+   * @default false
+   */
+  disabled?: boolean;
+
+  /**
+   * ARIA label (when there is no visible label)
+   */
+  ariaLabel?: string;
+
+  /**
+   * Fired continuously while a thumb moves; `event.detail` holds `{ value, valueStart, valueEnd }`
+   */
+  onInput?: (event: CustomEvent<SliderValueDetail>) => void;
+
+  /**
+   * Fired when the user commits a new value; `event.detail` holds `{ value, valueStart, valueEnd }`
+   */
+  onChange?: (event: CustomEvent<SliderValueDetail>) => void;
+
+  /**
+   * Additional CSS classes
+   */
+  className?: string;
+
+  /**
+   * Additional styles
+   */
+  style?: React.CSSProperties;
+}
+
+/**
+ * Slider component wrapper for React
+ *
+ * @example
+ * ```tsx
+ * import { Slider } from '@kds/react';
+ *
+ * function Threshold() {
+ *   const [range, setRange] = useState({ start: 40, end: 160 });
+ *
+ *   return (
+ *     <Slider
+ *       label="Alert threshold"
+ *       range
+ *       max={200}
+ *       step={10}
+ *       valueStart={range.start}
+ *       valueEnd={range.end}
+ *       valueFormatter={(v) => `${v} ms`}
+ *       onInput={(e) => setRange({ start: e.detail.valueStart, end: e.detail.valueEnd })}
+ *     />
+ *   );
+ * }
+ * ```
+ */
+export const Slider = forwardRef<HTMLElement, SliderProps>(
+  (
+    {
+      label,
+      name,
+      value,
+      range = false,
+      valueStart,
+      valueEnd,
+      min = 0,
+      max = 100,
+      step = 1,
+      marks,
+      minLabel,
+      maxLabel,
+      tooltip = 'auto',
+      valueFormatter,
+      disabled = false,
+      ariaLabel,
+      onInput,
+      onChange,
+      className,
+      style,
+    },
+    ref
+  ) => {
+    const sliderRef = useRef<HTMLElement>(null);
+
+    // Handle ref forwarding
+    useEffect(() => {
+      if (ref && sliderRef.current) {
+        if (typeof ref === 'function') {
+          ref(sliderRef.current);
+        } else {
+          (ref as React.MutableRefObject<HTMLElement | null>).current = sliderRef.current;
+        }
+      }
+    }, [ref]);
+
+    // Handle input and change events from web component
+    useEffect(() => {
+      const slider = sliderRef.current;
+      if (!slider) return;
+
+      const handleInput = (event: Event) => {
+        onInput?.(event as CustomEvent<SliderValueDetail>);
+      };
+      const handleChange = (event: Event) => {
+        onChange?.(event as CustomEvent<SliderValueDetail>);
+      };
+
+      slider.addEventListener('kds-slider-input', handleInput);
+      slider.addEventListener('kds-slider-change', handleChange);
+
+      return () => {
+        slider.removeEventListener('kds-slider-input', handleInput);
+        slider.removeEventListener('kds-slider-change', handleChange);
+      };
+    }, [onInput, onChange]);
+
+    // The attributes only seed the values; keep the properties in sync for controlled use
+    useEffect(() => {
+      const slider = sliderRef.current as (HTMLElement & { value: number; valueStart: number; valueEnd: number }) | null;
+      if (!slider) return;
+      if (value !== undefined) slider.value = value;
+      if (valueStart !== undefined) slider.valueStart = valueStart;
+      if (valueEnd !== undefined) slider.valueEnd = valueEnd;
+    }, [value, valueStart, valueEnd]);
+
+    // Arrays and functions can't be passed as attributes, so they are set as properties
+    useEffect(() => {
+      const slider = sliderRef.current as (HTMLElement & { marks: number[] }) | null;
+      if (slider && marks !== undefined) {
+        slider.marks = marks;
+      }
+    }, [marks]);
+
+    useEffect(() => {
+      const slider = sliderRef.current as (HTMLElement & { valueFormatter: (value: number) => string }) | null;
+      if (slider && valueFormatter) {
+        slider.valueFormatter = valueFormatter;
+      }
+    }, [valueFormatter]);
+
+    return React.createElement('kds-slider', {
+      ref: sliderRef,
+      label,
+      name,
+      value,
+      range: range || undefined,
+      'value-start': valueStart,
+      'value-end': valueEnd,
+      min,
+      max,
+      step,
+      'min-label': minLabel,
+      'max-label': maxLabel,
+      tooltip,
+      disabled: disabled || undefined,
+      'aria-label': ariaLabel,
+      class: className,
+      style,
+    });
+  }
+);
+
+Slider.displayName = 'Slider';
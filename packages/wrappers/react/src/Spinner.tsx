@@ -0,0 +1,64 @@
+/**
+ * @package @kds/react
+ * @component Spinner
+ * @description React component wrapper for kds-spinner web component
+ */
+
+import React, { forwardRef } from 'react';
+import type { SpinnerSize, ProgressVariant } from '@kds/web-components';
+
+export interface SpinnerProps {
+  /**
+   * Spinner size, matching the button sizes
+   * @default 'md'
+   */
+  size?: SpinnerSize;
+
+  /**
+   * Brand or error color
+   * @default 'brand'
+   */
+  variant?: ProgressVariant;
+
+  /**
+   * Accessible name announced for the spinner
+   * @default 'Loading'
+   */
+  label?: string;
+
+  /**
+   * Additional CSS classes
+   */
+  className?: string;
+
+  /**
+   * Additional styles
+   */
+  style?: React.CSSProperties;
+}
+
+/**
+ * Spinner component wrapper for React
+ *
+ * @example
+ * ```tsx
+ * import { Spinner } from '@kds/react';
+ *
+ * function Loading() {
+ *   return <Spinner size="lg" label="Loading invoices" />;
+ * }
+ * ```
+ */
+export const Spinner = forwardRef<HTMLElement, SpinnerProps>(
+  ({ size = 'md', variant = 'brand', label = 'Loading', className, style }, ref) =>
+    React.createElement('kds-spinner', {
+      ref,
+      size,
+      variant,
+      label,
+      class: className,
+      style,
+    })
+);
+
+Spinner.displayName = 'Spinner';
@@ -0,0 +1,271 @@
+/**
+ * @package @kds/react
+ * @component Table
+ * @description React component wrapper for kds-table web component
+ */
+
+import React, { forwardRef, useRef, useEffect } from 'react';
+import type {
+  TableColumn,
+  TableRow,
+  TableSortDirection,
+  TableSortDetail,
+  TableSelectionDetail,
+} from '@kds/web-components';
+
+export interface TableProps {
+  /**
+   * Column definitions
+   */
+  columns: TableColumn[];
+
+  /**
+   * Rows, one object per row keyed by column key
+   */
+  rows: TableRow[];
+
+  /**
+   * Row property with a unique value per row
+   * @default 'id'
+   */
+  rowKey?: string;
+
+  /**
+   * Key of the sorted column
+   */
+  sortKey?: string;
+
+  /**
+   * Direction of the sorted column
+   * @default 'ascending'
+   */
+  sortDirection?: TableSortDirection;
+
+  /**
+   * Only report sorting; rows are expected in sorted order
+   * @default false
+   */
+  manualSort?: boolean;
+
+  /**
+   * Show row checkboxes and a select-all checkbox
+   * @default false
+   */
+  selectable?: boolean;
+
+  /**
+   * Row keys of the selected rows
+   */
+  selectedKeys?: string[];
+
+  /**
+   * Whether the rows are loading
+   * @default false
+   */
+  loading?: boolean;
+
+  /**
+   * Accessible name of the loading spinner
+   * @default 'Loading'
+   */
+  loadingLabel?: string;
+
+  /**
+   * Text shown when there are no rows
+   * @default 'No results'
+   */
+  emptyText?: string;
+
+  /**
+   * Keep the header visible while the rows scroll
+   * @default false
+   */
+  stickyHeader?: boolean;
+
+  /**
+   * Render only the rows in view; requires a bounded height
+   * @default false
+   */
+  virtualize?: boolean;
+
+  /**
+   * Row height in pixels while virtualized
+   * @default 52
+   */
+  rowHeight?: number;
+
+  /**
+   * ARIA label of the table
+   */
+  ariaLabel?: string;
+
+  /**
+   * Fired when the user sorts by a column; `event.detail` holds `{ sortKey, sortDirection }`
+   */
+  onSort?: (event: CustomEvent<TableSortDetail>) => void;
+
+  /**
+   * Fired when the user selects or deselects rows; `event.detail` holds `{ selectedKeys }`
+   */
+  onSelectionChange?: (event: CustomEvent<TableSelectionDetail>) => void;
+
+  /**
+   * Empty state content (rendered in the `empty` slot)
+   */
+  empty?: React.ReactNode;
+
+  /**
+   * Additional CSS classes
+   */
+  className?: string;
+
+  /**
+   * Additional styles
+   */
+  style?: React.CSSProperties;
+}
+
+/**
+ * Table component wrapper for React
+ *
+ * @example
+ * ```tsx
+ * import { Table } from '@kds/react';
+ *
+ * const columns = [
+ *   { key: 'plate', label: 'Plate', sortable: true },
+ *   { key: 'amount', label: 'Amount', sortable: true, align: 'end' as const },
+ * ];
+ *
+ * function Transactions({ rows }: { rows: Transaction[] }) {
+ *   const [selected, setSelected] = useState<string[]>([]);
+ *
+ *   return (
+ *     <Table
+ *       ariaLabel="Transactions"
+ *       columns={columns}
+ *       rows={rows}
+ *       selectable
+ *       selectedKeys={selected}
+ *       onSelectionChange={(e) => setSelected(e.detail.selectedKeys)}
+ *       stickyHeader
+ *       virtualize
+ *       style={{ height: 600 }}
+ *     />
+ *   );
+ * }
+ * ```
+ */
+export const Table = forwardRef<HTMLElement, TableProps>(
+  (
+    {
+      columns,
+      rows,
+      rowKey,
+      sortKey,
+      sortDirection,
+      manualSort = false,
+      selectable = false,
+      selectedKeys,
+      loading = false,
+      loadingLabel,
+      emptyText,
+      stickyHeader = false,
+      virtualize = false,
+      rowHeight,
+      ariaLabel,
+      onSort,
+      onSelectionChange,
+      empty,
+      className,
+      style,
+    },
+    ref
+  ) => {
+    const tableRef = useRef<HTMLElement>(null);
+
+    // Handle ref forwarding
+    useEffect(() => {
+      if (ref && tableRef.current) {
+        if (typeof ref === 'function') {
+          ref(tableRef.current);
+        } else {
+          (ref as React.MutableRefObject<HTMLElement | null>).current = tableRef.current;
+        }
+      }
+    }, [ref]);
+
+    // Handle sort events from web component
+    useEffect(() => {
+      const table = tableRef.current;
+      if (!table || !onSort) return;
+
+      const handleSort = (event: Event) => {
+        onSort(event as CustomEvent<TableSortDetail>);
+      };
+
+      table.addEventListener('kds-table-sort', handleSort);
+      return () => table.removeEventListener('kds-table-sort', handleSort);
+    }, [onSort]);
+
+    // Handle selection events from web component
+    useEffect(() => {
+      const table = tableRef.current;
+      if (!table || !onSelectionChange) return;
+
+      const handleSelectionChange = (event: Event) => {
+        onSelectionChange(event as CustomEvent<TableSelectionDetail>);
+      };
+
+      table.addEventListener('kds-table-selection-change', handleSelectionChange);
+      return () => table.removeEventListener('kds-table-selection-change', handleSelectionChange);
+    }, [onSelectionChange]);
+
+    // Arrays and functions can't be passed as attributes, so they are set as properties
+    useEffect(() => {
+      const table = tableRef.current as (HTMLElement & { columns: TableColumn[]; rows: TableRow[] }) | null;
+      if (!table) return;
+      table.columns = columns;
+      table.rows = rows;
+    }, [columns, rows]);
+
+    useEffect(() => {
+      const table = tableRef.current as (HTMLElement & { selectedKeys: string[] }) | null;
+      if (table && selectedKeys !== undefined) {
+        table.selectedKeys = selectedKeys;
+      }
+    }, [selectedKeys]);
+
+    // The attributes only seed the values; keep the properties in sync for controlled use
+    useEffect(() => {
+      const table = tableRef.current as (HTMLElement & { sortKey: string; sortDirection: TableSortDirection }) | null;
+      if (!table) return;
+      if (sortKey !== undefined) table.sortKey = sortKey;
+      if (sortDirection !== undefined) table.sortDirection = sortDirection;
+    }, [sortKey, sortDirection]);
+
+    return React.createElement(
+      'kds-table',
+      {
+        ref: tableRef,
+        'row-key': rowKey,
+        'sort-key': sortKey,
+        'sort-direction': sortDirection,
+        'manual-sort': manualSort || undefined,
+        selectable: selectable || undefined,
+        loading: loading || undefined,
+        'loading-label': loadingLabel,
+        'empty-text': emptyText,
+        'sticky-header': stickyHeader || undefined,
+        virtualize: virtualize || undefined,
+        'row-height': rowHeight,
+        'aria-label': ariaLabel,
+        class: className,
+        style,
+      },
+      empty !== undefined ? React.createElement('span', { slot: 'empty' }, empty) : undefined
+    );
+  }
+);
+
+Table.displayName = 'Table';
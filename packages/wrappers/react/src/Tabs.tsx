@@ -0,0 +1,194 @@
+/**
+ * @package @kds/react
+ * @component Tabs, Tab, TabPanel
+ * @description React component wrappers for kds-tabs web components
+ */
+
+import React, { forwardRef, useRef, useEffect } from 'react';
+import type { TabsOrientation, TabsActivation } from '@kds/web-components';
+
+export interface TabsProps {
+  /**
+   * Value of the selected tab (a Tab's value, or its index when it has none)
+   */
+  value?: string;
+
+  /**
+   * Layout of the tab list
+   * @default 'horizontal'
+   */
+  orientation?: TabsOrientation;
+
+  /**
+   * Whether moving focus with the arrow keys also selects the tab
+   * @default 'automatic'
+   */
+  activation?: TabsActivation;
+
+  /**
+   * ARIA label for the tab list
+   */
+  ariaLabel?: string;
+
+  /**
+   * Selection change handler; `event.detail` holds `{ value }`
+   */
+  onChange?: (event: CustomEvent<{ value: string }>) => void;
+
+  /**
+   * Tab and TabPanel children, paired by order
+   */
+  children?: React.ReactNode;
+
+  /**
+   * Additional CSS classes
+   */
+  className?: string;
+
+  /**
+   * Additional styles
+   */
+  style?: React.CSSProperties;
+}
+
+/**
+ * Tabs component wrapper for React
+ *
+ * @example
+ * ```tsx
+ * import { Tabs, Tab, TabPanel } from '@kds/react';
+ *
+ * function Settings() {
+ *   const [tab, setTab] = useState('profile');
+ *
+ *   return (
+ *     <Tabs ariaLabel="Settings" value={tab} onChange={(e) => setTab(e.detail.value)}>
+ *       <Tab value="profile">Profile</Tab>
+ *       <Tab value="billing">Billing</Tab>
+ *       <TabPanel>...</TabPanel>
+ *       <TabPanel>...</TabPanel>
+ *     </Tabs>
+ *   );
+ * }
+ * ```
+ */
+export const Tabs = forwardRef<HTMLElement, TabsProps>(
+  (
+    {
+      value,
+      orientation = 'horizontal',
+      activation = 'automatic',
+      ariaLabel,
+      onChange,
+      children,
+      className,
+      style,
+    },
+    ref
+  ) => {
+    const tabsRef = useRef<HTMLElement>(null);
+
+    // Handle ref forwarding
+    useEffect(() => {
+      if (ref && tabsRef.current) {
+        if (typeof ref === 'function') {
+          ref(tabsRef.current);
+        } else {
+          (ref as React.MutableRefObject<HTMLElement | null>).current = tabsRef.current;
+        }
+      }
+    }, [ref]);
+
+    // Handle change events from web component
+    useEffect(() => {
+      const tabs = tabsRef.current;
+      if (!tabs || !onChange) return;
+
+      const handleChange = (event: Event) => {
+        onChange(event as CustomEvent<{ value: string }>);
+      };
+
+      tabs.addEventListener('kds-tabs-change', handleChange);
+
+      return () => {
+        tabs.removeEventListener('kds-tabs-change', handleChange);
+      };
+    }, [onChange]);
+
+    // The attribute only seeds the value; keep the property in sync for controlled use
+    useEffect(() => {
+      const tabs = tabsRef.current as (HTMLElement & { value: string }) | null;
+      if (tabs && value !== undefined) {
+        tabs.value = value;
+      }
+    }, [value]);
+
+    return React.createElement(
+      'kds-tabs',
+      {
+        ref: tabsRef,
+        value,
+        orientation,
+        activation,
+        'aria-label': ariaLabel,
+        class: className,
+        style,
+      },
+      children
+    );
+  }
+);
+
+Tabs.displayName = 'Tabs';
+
+export interface TabProps {
+  /**
+   * Value identifying the tab; defaults to its index
+   */
+  value?: string;
+
+  /**
+   * Whether the tab can't be selected
+   * @default false
+   */
+  disabled?: boolean;
+
+  /**
+   * Tab label (text, icons, badges)
+   */
+  children?: React.ReactNode;
+}
+
+export const Tab = forwardRef<HTMLElement, TabProps>(
+  ({ value, disabled = false, children }, ref) =>
+    React.createElement(
+      'kds-tab',
+      {
+        ref,
+        value,
+        disabled: disabled || undefined,
+      },
+      children
+    )
+);
+
+Tab.displayName = 'Tab';
+
+export interface TabPanelProps {
+  /**
+   * Panel content; rendered once its tab has been selected
+   */
+  children?: React.ReactNode;
+
+  /**
+   * Additional CSS classes
+   */
+  className?: string;
+}
+
+export const TabPanel = forwardRef<HTMLElement, TabPanelProps>(
+  ({ children, className }, ref) =>
+    React.createElement('kds-tab-panel', { ref, class: className }, children)
+);
+
+TabPanel.displayName = 'TabPanel';
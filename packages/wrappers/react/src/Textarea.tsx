@@ -0,0 +1,154 @@
+/**
+ * @package @kds/react
+ * @component Textarea
+ * @description React component wrapper for kds-textarea web component
+ */
+
+import React, { forwardRef, useRef, useEffect, useImperativeHandle } from 'react';
+import type { TextareaValidator } from '@kds/web-components';
+
+export interface TextareaProps {
+  /** Label text above the textarea. Empty = no label. */
+  label?: string;
+
+  /** Helper/hint text below. In destructive state, styled as error message. */
+  hint?: string;
+
+  /** Placeholder text for the native textarea. */
+  placeholder?: string;
+
+  /** Current textarea value (controlled). */
+  value?: string;
+
+  /** Default value (uncontrolled). */
+  defaultValue?: string;
+
+  /** HTML name attribute for form participation. */
+  name?: string;
+
+  /** Error/destructive state. Red border. */
+  destructive?: boolean;
+
+  /** Disabled state. */
+  disabled?: boolean;
+
+  /** HTML required attribute. */
+  required?: boolean;
+
+  /** Minimum number of characters. */
+  minLength?: number;
+
+  /** Maximum number of characters. Also shows the character counter. */
+  maxLength?: number;
+
+  /** Visible lines when empty. Default: 4. */
+  minRows?: number;
+
+  /** Lines the textarea grows to before it scrolls. Unset = no limit. */
+  maxRows?: number;
+
+  /** Custom validators; the first non-empty message marks the field invalid. */
+  validators?: TextareaValidator[];
+
+  /** ARIA label (used when label prop is not set). */
+  'aria-label'?: string;
+
+  /** Fired on every keystroke. */
+  onKdsInput?: (e: CustomEvent<{ value: string }>) => void;
+
+  /** Fired on blur after value change. */
+  onKdsChange?: (e: CustomEvent<{ value: string }>) => void;
+
+  className?: string;
+  style?: React.CSSProperties;
+  id?: string;
+}
+
+export const Textarea = forwardRef<HTMLElement, TextareaProps>(
+  (
+    {
+      label,
+      hint,
+      placeholder,
+      value,
+      defaultValue,
+      name,
+      destructive,
+      disabled,
+      required,
+      minLength,
+      maxLength,
+      minRows,
+      maxRows,
+      validators,
+      'aria-label': ariaLabel,
+      onKdsInput,
+      onKdsChange,
+      className,
+      style,
+      id,
+    },
+    ref
+  ) => {
+    const elementRef = useRef<HTMLElement>(null);
+
+    useImperativeHandle(ref, () => elementRef.current!);
+
+    useEffect(() => {
+      const el = elementRef.current;
+      if (!el) return;
+
+      const handleInput = (e: Event) => onKdsInput?.(e as CustomEvent<{ value: string }>);
+      const handleChange = (e: Event) => onKdsChange?.(e as CustomEvent<{ value: string }>);
+
+      el.addEventListener('kds-input', handleInput);
+      el.addEventListener('kds-change', handleChange);
+
+      return () => {
+        el.removeEventListener('kds-input', handleInput);
+        el.removeEventListener('kds-change', handleChange);
+      };
+    }, [onKdsInput, onKdsChange]);
+
+    // Sync value prop to web component imperatively (controlled mode)
+    useEffect(() => {
+      const el = elementRef.current as any;
+      if (el && value !== undefined) {
+        el.value = value;
+      }
+    }, [value]);
+
+    // Validators are functions, so they are set as a property rather than an attribute
+    useEffect(() => {
+      const el = elementRef.current as any;
+      if (el) {
+        el.validators = validators ?? [];
+      }
+    }, [validators]);
+
+    return React.createElement(
+      'kds-textarea' as any,
+      {
+        ref: elementRef,
+        id,
+        class: className,
+        style,
+        label: label ?? undefined,
+        hint: hint ?? undefined,
+        placeholder: placeholder ?? undefined,
+        value: value ?? defaultValue ?? undefined,
+        name: name ?? undefined,
+        destructive: destructive || undefined,
+        disabled: disabled || undefined,
+        required: required || undefined,
+        minlength: minLength ?? undefined,
+        maxlength: maxLength ?? undefined,
+        'min-rows': minRows ?? undefined,
+        'max-rows': maxRows ?? undefined,
+        'aria-label': ariaLabel ?? undefined,
+      }
+    );
+  }
+);
+
+Textarea.displayName = 'Textarea';
@@ -0,0 +1,238 @@
+/**
+ * @package @kds/react
+ * @component Toast, ToastRegion, useToast
+ * @description React wrappers for kds-toast / kds-toast-region web components and the toast() API
+ */
+
+import React, { useCallback, useEffect, useRef, forwardRef } from 'react';
+import { toast as showToast } from '@kds/web-components';
+import type {
+  KdsToast,
+  ToastVariant,
+  ToastPosition,
+  ToastCloseReason,
+  ToastOptions,
+} from '@kds/web-components';
+
+export interface ToastProps {
+  /**
+   * Color variant
+   * @default 'info'
+   */
+  variant?: ToastVariant;
+
+  /**
+   * Bold first line
+   */
+  heading?: string;
+
+  /**
+   * Auto-dismiss delay in ms; 0 keeps the toast until it is dismissed
+   * @default 0
+   */
+  duration?: number;
+
+  /**
+   * Label of the built-in action button
+   */
+  actionLabel?: string;
+
+  /**
+   * Accessible label of the close button
+   * @default 'Dismiss'
+   */
+  closeLabel?: string;
+
+  /**
+   * Built-in action button click handler
+   */
+  onAction?: (event: CustomEvent) => void;
+
+  /**
+   * Fired when the toast closes; `detail.reason` says why
+   */
+  onClose?: (event: CustomEvent<{ reason: ToastCloseReason }>) => void;
+
+  /**
+   * Message text; use `slot="actions"` for custom action buttons
+   */
+  children?: React.ReactNode;
+
+  /**
+   * Additional CSS classes
+   */
+  className?: string;
+
+  /**
+   * Additional styles
+   */
+  style?: React.CSSProperties;
+}
+
+export interface ToastRegionProps {
+  /**
+   * Corner or edge of the viewport the toasts stack in
+   * @default 'bottom-right'
+   */
+  position?: ToastPosition;
+
+  /**
+   * Toasts shown at once; later ones wait in a queue
+   * @default 3
+   */
+  max?: number;
+
+  /**
+   * Accessible name of the region
+   * @default 'Notifications'
+   */
+  ariaLabel?: string;
+
+  /**
+   * Toast elements
+   */
+  children?: React.ReactNode;
+}
+
+/**
+ * Toast component wrapper for React (declarative use inside a ToastRegion)
+ *
+ * @example
+ * ```tsx
+ * import { Toast, ToastRegion } from '@kds/react';
+ *
+ * function App() {
+ *   return (
+ *     <ToastRegion position="top-right">
+ *       <Toast variant="warning" heading="Connection lost" actionLabel="Retry" onAction={reconnect}>
+ *         Changes will sync when you are back online.
+ *       </Toast>
+ *     </ToastRegion>
+ *   );
+ * }
+ * ```
+ */
+export const Toast = forwardRef<HTMLElement, ToastProps>(
+  (
+    {
+      variant = 'info',
+      heading,
+      duration = 0,
+      actionLabel,
+      closeLabel,
+      onAction,
+      onClose,
+      children,
+      className,
+      style,
+    },
+    ref
+  ) => {
+    const toastRef = useRef<HTMLElement>(null);
+
+    // Handle ref forwarding
+    useEffect(() => {
+      if (ref && toastRef.current) {
+        if (typeof ref === 'function') {
+          ref(toastRef.current);
+        } else {
+          (ref as React.MutableRefObject<HTMLElement | null>).current = toastRef.current;
+        }
+      }
+    }, [ref]);
+
+    // Handle action/close events from web component
+    useEffect(() => {
+      const toast = toastRef.current;
+      if (!toast) return;
+
+      const handleAction = (event: Event) => {
+        onAction?.(event as CustomEvent);
+      };
+      const handleClose = (event: Event) => {
+        onClose?.(event as CustomEvent<{ reason: ToastCloseReason }>);
+      };
+
+      toast.addEventListener('kds-toast-action', handleAction);
+      toast.addEventListener('kds-toast-close', handleClose);
+
+      return () => {
+        toast.removeEventListener('kds-toast-action', handleAction);
+        toast.removeEventListener('kds-toast-close', handleClose);
+      };
+    }, [onAction, onClose]);
+
+    return React.createElement(
+      'kds-toast',
+      {
+        ref: toastRef,
+        variant,
+        heading,
+        duration,
+        'action-label': actionLabel,
+        'close-label': closeLabel,
+        class: className,
+        style,
+      },
+      children
+    );
+  }
+);
+
+Toast.displayName = 'Toast';
+
+/**
+ * Toast region wrapper for React (stacks and queues Toast children)
+ */
+export const ToastRegion = forwardRef<HTMLElement, ToastRegionProps>(
+  ({ position = 'bottom-right', max, ariaLabel, children }, ref) =>
+    React.createElement(
+      'kds-toast-region',
+      {
+        ref,
+        position,
+        max,
+        'aria-label': ariaLabel,
+      },
+      children
+    )
+);
+
+ToastRegion.displayName = 'ToastRegion';
+
+/**
+ * Hook exposing the imperative toast() API
+ *
+ * @example
+ * ```tsx
+ * import { useToast } from '@kds/react';
+ *
+ * function SaveButton() {
+ *   const { toast } = useToast();
+ *
+ *   const save = async () => {
+ *     await saveProfile();
+ *     toast({ variant: 'success', heading: 'Changes saved', message: 'Your profile has been updated.' });
+ *   };
+ *
+ *   return <Button onClick={save}>Save</Button>;
+ * }
+ * ```
+ */
+export function useToast() {
+  const shown = useRef(new Set<KdsToast>());
+
+  const toast = useCallback((options: ToastOptions): KdsToast => {
+    const element = showToast(options);
+    shown.current.add(element);
+    element.addEventListener('kds-toast-close', () => shown.current.delete(element));
+    return element;
+  }, []);
+
+  /** Dismisses every toast shown through this hook that is still open */
+  const dismissAll = useCallback(() => {
+    shown.current.forEach((element) => element.dismiss());
+  }, []);
+
+  return { toast, dismissAll };
+}
@@ -5,7 +5,7 @@
  */
 
 import React, { useEffect, useRef, forwardRef } from 'react';
-import type { TooltipTheme, TooltipArrow } from '@kds/web-components';
+import type { TooltipTheme, TooltipArrow, TooltipPlacement } from '@kds/web-components';
 import '@kds/web-components';
 
 export interface TooltipProps {
@@ -32,7 +32,45 @@ export interface TooltipProps {
   supportingText?: string;
 
   /**
-   * Tooltip content (alternative to text prop)
+   * Id of the trigger element to anchor to
+   */
+  htmlFor?: string;
+
+  /**
+   * Side of the trigger the anchored tooltip opens on; the arrow faces the trigger. `auto` flips and shifts to stay visible
+   * @default 'top'
+   */
+  placement?: TooltipPlacement;
+
+  /**
+   * Delay in ms before opening on hover/focus
+   * @default 300
+   */
+  showDelay?: number;
+
+  /**
+   * Delay in ms before closing once pointer/focus leaves
+   * @default 100
+   */
+  hideDelay?: number;
+
+  /**
+   * Whether an anchored tooltip is visible
+   */
+  open?: boolean;
+
+  /**
+   * Show event handler (anchored tooltips)
+   */
+  onShow?: (event: CustomEvent) => void;
+
+  /**
+   * Hide event handler (anchored tooltips)
+   */
+  onHide?: (event: CustomEvent) => void;
+
+  /**
+   * Trigger element, or slotted text/supporting-text content
    */
   children?: React.ReactNode;
 
@@ -75,6 +113,15 @@ export interface TooltipProps {
  *     />
  *   );
  * }
+ *
+ * // Anchored to a wrapped trigger
+ * function Anchored() {
+ *   return (
+ *     <Tooltip text="Delete row" placement="top" arrow="bottom-center">
+ *       <Button iconPosition="only" ariaLabel="Delete">…</Button>
+ *     </Tooltip>
+ *   );
+ * }
  * ```
  */
 export const Tooltip = forwardRef<HTMLElement, TooltipProps>(
@@ -84,6 +131,13 @@ export const Tooltip = forwardRef<HTMLElement, TooltipProps>(
       arrow = 'none',
       text,
       supportingText,
+      htmlFor,
+      placement = 'top',
+      showDelay,
+      hideDelay,
+      open,
+      onShow,
+      onHide,
       children,
       className,
       style,
@@ -102,6 +156,22 @@ export const Tooltip = forwardRef<HTMLElement, TooltipProps>(
       }
     }, [ref]);
 
+    useEffect(() => {
+      const tooltip = tooltipRef.current;
+      if (!tooltip) return;
+
+      const handleShow = (event: Event) => onShow?.(event as CustomEvent);
+      const handleHide = (event: Event) => onHide?.(event as CustomEvent);
+
+      tooltip.addEventListener('kds-tooltip-show', handleShow);
+      tooltip.addEventListener('kds-tooltip-hide', handleHide);
+
+      return () => {
+        tooltip.removeEventListener('kds-tooltip-show', handleShow);
+        tooltip.removeEventListener('kds-tooltip-hide', handleHide);
+      };
+    }, [onShow, onHide]);
+
     return React.createElement(
       'kds-tooltip',
       {
@@ -110,6 +180,11 @@ export const Tooltip = forwardRef<HTMLElement, TooltipProps>(
         arrow,
         text,
         'supporting-text': supportingText,
+        for: htmlFor,
+        placement,
+        'show-delay': showDelay,
+        'hide-delay': hideDelay,
+        open: open ? '' : undefined,
         class: className,
         style,
       },
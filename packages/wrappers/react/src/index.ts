@@ -31,7 +31,64 @@ export type { ButtonGroupProps, ButtonGroupItemProps } from './ButtonGroup.js';
 export { InputField } from './InputField.js';
 export type { InputFieldProps } from './InputField.js';
 
+export { CheckboxGroup } from './CheckboxGroup.js';
+export type { CheckboxGroupProps } from './CheckboxGroup.js';
+
+export { Radio } from './Radio.js';
+export type { RadioProps } from './Radio.js';
+
+export { RadioGroup } from './RadioGroup.js';
+export type { RadioGroupProps } from './RadioGroup.js';
+
+export { Select, Option, OptionGroup } from './Select.js';
+export type { SelectProps, OptionProps, OptionGroupProps } from './Select.js';
+
+export { Textarea } from './Textarea.js';
+export type { TextareaProps } from './Textarea.js';
+
+export { Dialog } from './Dialog.js';
+export type { DialogProps } from './Dialog.js';
+
+export { Toast, ToastRegion, useToast } from './Toast.js';
+export type { ToastProps, ToastRegionProps } from './Toast.js';
+
+export { Tabs, Tab, TabPanel } from './Tabs.js';
+export type { TabsProps, TabProps, TabPanelProps } from './Tabs.js';
+
+export { Menu, MenuItem, MenuSeparator } from './Menu.js';
+export type { MenuProps, MenuItemProps } from './Menu.js';
+
+export { ProgressBar } from './ProgressBar.js';
+export type { ProgressBarProps } from './ProgressBar.js';
+
+export { Spinner } from './Spinner.js';
+export type { SpinnerProps } from './Spinner.js';
+
+export { Slider } from './Slider.js';
+export type { SliderProps } from './Slider.js';
+
+export { DatePicker } from './DatePicker.js';
+export type { DatePickerProps } from './DatePicker.js';
+
+export { Pagination } from './Pagination.js';
+export type { PaginationProps } from './Pagination.js';
+
+export { Table } from './Table.js';
+export type { TableProps } from './Table.js';
+
+export { Avatar } from './Avatar.js';
+export type { AvatarProps } from './Avatar.js';
+
+export { AvatarGroup } from './AvatarGroup.js';
+export type { AvatarGroupProps } from './AvatarGroup.js';
+
+export { Alert } from './Alert.js';
+export type { AlertProps } from './Alert.js';
+
+export { FileUpload } from './FileUpload.js';
+export type { FileUploadProps } from './FileUpload.js';
+
 // Re-export types from web-components
-export type { ButtonSize, ButtonHierarchy, IconPosition, CheckboxSize, ToggleSize, TooltipTheme, TooltipArrow, BadgeSize, BadgeColor, BadgeIcon, ButtonGroupItemIcon, InputFieldType } from '@kds/web-components';
+export type { ButtonSize, ButtonHierarchy, IconPosition, CheckboxSize, ToggleSize, TooltipTheme, TooltipArrow, TooltipPlacement, BadgeSize, BadgeColor, BadgeIcon, ButtonGroupItemIcon, ButtonGroupSelection, InputFieldType, InputFieldValidator, CheckboxGroupOrientation, RadioSize, RadioGroupOrientation, TextareaValidator, DialogSize, ToastVariant, ToastPosition, ToastCloseReason, ToastOptions, TabsOrientation, TabsActivation, MenuPlacement, MenuItemType, ProgressVariant, ProgressValuePosition, SpinnerSize, SliderTooltip, SliderThumb, SliderValueDetail, DatePickerValueDetail, PageChangeDetail, TableRow, TableColumn, TableColumnAlign, TableSortDirection, TableSortDetail, TableSelectionDetail, AvatarSize, AvatarStatus, AlertColor, FileUploadItem, FileRejection, FileRejectionReason, FileAddDetail, FileRemoveDetail, FileRejectDetail } from '@kds/web-components';
 
 export const version = '0.1.0';
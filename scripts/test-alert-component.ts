@@ -0,0 +1,180 @@
+/**
+ * @package kds-ai-preview
+ * @description Alert component test suite
+ * @author Kilian Sala <kilian@kapsch.net>
+ *
+ * Validates kds-alert component structure, exports, and integration.
+ * Run: npx tsx scripts/test-alert-component.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+const ROOT = path.resolve(import.meta.dirname, '..');
+let passed = 0;
+let failed = 0;
+
+function test(name: string, fn: () => boolean) {
+  try {
+    if (fn()) {
+      console.log(`  PASS  ${name}`);
+      passed++;
+    } else {
+      console.error(`  FAIL  ${name}`);
+      failed++;
+    }
+  } catch (e: any) {
+    console.error(`  FAIL  ${name} — ${e.message}`);
+    failed++;
+  }
+}
+
+function readFile(relPath: string): string {
+  return fs.readFileSync(path.join(ROOT, relPath), 'utf-8');
+}
+
+function fileExists(relPath: string): boolean {
+  return fs.existsSync(path.join(ROOT, relPath));
+}
+
+console.log('\n=== Alert Component Tests ===\n');
+
+// --- 1. File Existence ---
+console.log('[Files]');
+
+const requiredFiles = [
+  '.figma/alert.figma-contract.json',
+  '.figma/alert.figma-contract.ts',
+  'packages/web-components/src/components/kds-alert.ts',
+  'scripts/validate-alert-contract.ts',
+  'scripts/validate-alert-a11y.ts',
+  'packages/wrappers/react/src/Alert.tsx',
+  'packages/wrappers/angular/src/alert.component.ts',
+  'packages/wrappers/blazor/Components/KdsAlert.razor',
+];
+
+for (const file of requiredFiles) {
+  test(`File exists: ${file}`, () => fileExists(file));
+}
+
+// --- 2. Contract JSON ---
+console.log('\n[Contract JSON]');
+
+const contractJson = JSON.parse(readFile('.figma/alert.figma-contract.json'));
+
+test('Contract has component name "Alert"', () =>
+  contractJson.source?.componentName === 'Alert'
+);
+
+test('Contract colors are the alert badge colors', () =>
+  JSON.stringify(contractJson.properties?.color?.values) === '["gray","primary","error","warning","success"]'
+);
+
+test('Contract is marked as pending Figma data', () =>
+  contractJson._extraction_status?.status === 'PENDING_FIGMA_DATA'
+);
+
+// --- 3. LIT Component ---
+console.log('\n[LIT Component: kds-alert]');
+
+const src = readFile('packages/web-components/src/components/kds-alert.ts');
+const inputFieldSrc = readFile('packages/web-components/src/components/kds-input-field.ts');
+
+test('Registers kds-alert', () =>
+  src.includes("@customElement('kds-alert')")
+);
+
+test('AlertColor is a subset of BadgeColor', () =>
+  src.includes("import type { BadgeColor } from './kds-badge.js'") &&
+  src.includes('export type AlertColor = Extract<BadgeColor,')
+);
+
+test('Has styles for every color', () =>
+  ['gray', 'primary', 'error', 'warning', 'success'].every((color) => src.includes(`.alert.color-${color} {`))
+);
+
+test('Input field exports its alert icon', () =>
+  inputFieldSrc.includes('export const alertCircleIcon = html`') &&
+  inputFieldSrc.includes('${alertCircleIcon}')
+);
+
+test('Reuses the input field alert icon', () =>
+  src.includes("import { alertCircleIcon } from './kds-input-field.js'") &&
+  src.includes('${alertCircleIcon}')
+);
+
+test('Has default and actions slots', () =>
+  src.includes('<slot></slot>') && src.includes('<slot name="actions"')
+);
+
+test('Fires kds-alert-dismiss and hides on dismiss', () =>
+  src.includes("new CustomEvent('kds-alert-dismiss'") && src.includes('this.open = false')
+);
+
+test('Dismiss button only when dismissible', () =>
+  src.includes('${this.dismissible') && src.includes('class="close"')
+);
+
+// --- 4. Wrappers ---
+console.log('\n[Wrappers]');
+
+const reactAlert = readFile('packages/wrappers/react/src/Alert.tsx');
+const angularAlert = readFile('packages/wrappers/angular/src/alert.component.ts');
+const blazorAlert = readFile('packages/wrappers/blazor/Components/KdsAlert.razor');
+const blazorJs = readFile('packages/wrappers/blazor/wwwroot/kds-blazor.js');
+
+test('React exports Alert component', () =>
+  reactAlert.includes('export const Alert')
+);
+
+test('React forwards kds-alert-dismiss to onDismiss', () =>
+  reactAlert.includes("addEventListener('kds-alert-dismiss'")
+);
+
+test('Angular has KdsAlertComponent', () =>
+  angularAlert.includes('export class KdsAlertComponent')
+);
+
+test('Blazor renders kds-alert element', () =>
+  blazorAlert.includes('<kds-alert')
+);
+
+test('Blazor JS attaches the dismiss listener', () =>
+  blazorJs.includes('attachAlertListener') && blazorJs.includes("invokeMethodAsync('HandleAlertDismiss')")
+);
+
+// --- 5. Index Exports ---
+console.log('\n[Index Exports]');
+
+const wcIndex = readFile('packages/web-components/src/index.ts');
+const reactIndex = readFile('packages/wrappers/react/src/index.ts');
+const angularIndex = readFile('packages/wrappers/angular/src/index.ts');
+
+test('Web components index exports KdsAlert', () =>
+  wcIndex.includes("export { KdsAlert } from './components/kds-alert.js'") &&
+  wcIndex.includes('AlertColor')
+);
+
+test('React index exports Alert', () =>
+  reactIndex.includes("export { Alert } from './Alert.js'")
+);
+
+test('Angular index exports KdsAlertComponent', () =>
+  angularIndex.includes('KdsAlertComponent')
+);
+
+// --- 6. Documentation ---
+console.log('\n[Documentation]');
+
+const indexHtml = readFile('packages/web-components/index.html');
+
+test('Alert script imported in index.html', () =>
+  indexHtml.includes('kds-alert.ts"></script>')
+);
+
+// --- Summary ---
+console.log(`\n${'='.repeat(40)}`);
+console.log(`Total: ${passed + failed} | Passed: ${passed} | Failed: ${failed}`);
+console.log(`${'='.repeat(40)}\n`);
+
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,175 @@
+/**
+ * @package kds-ai-preview
+ * @description Avatar component test suite
+ * @author Kilian Sala <kilian@kapsch.net>
+ *
+ * Validates kds-avatar component structure, exports, and integration.
+ * Run: npx tsx scripts/test-avatar-component.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+const ROOT = path.resolve(import.meta.dirname, '..');
+let passed = 0;
+let failed = 0;
+
+function test(name: string, fn: () => boolean) {
+  try {
+    if (fn()) {
+      console.log(`  PASS  ${name}`);
+      passed++;
+    } else {
+      console.error(`  FAIL  ${name}`);
+      failed++;
+    }
+  } catch (e: any) {
+    console.error(`  FAIL  ${name} — ${e.message}`);
+    failed++;
+  }
+}
+
+function readFile(relPath: string): string {
+  return fs.readFileSync(path.join(ROOT, relPath), 'utf-8');
+}
+
+function fileExists(relPath: string): boolean {
+  return fs.existsSync(path.join(ROOT, relPath));
+}
+
+console.log('\n=== Avatar Component Tests ===\n');
+
+// --- 1. File Existence ---
+console.log('[Files]');
+
+const requiredFiles = [
+  '.figma/avatar.figma-contract.json',
+  '.figma/avatar.figma-contract.ts',
+  'packages/web-components/src/components/kds-avatar.ts',
+  'scripts/validate-avatar-contract.ts',
+  'scripts/validate-avatar-a11y.ts',
+  'packages/wrappers/react/src/Avatar.tsx',
+  'packages/wrappers/angular/src/avatar.component.ts',
+  'packages/wrappers/blazor/Components/KdsAvatar.razor',
+];
+
+for (const file of requiredFiles) {
+  test(`File exists: ${file}`, () => fileExists(file));
+}
+
+// --- 2. Contract JSON ---
+console.log('\n[Contract JSON]');
+
+const contractJson = JSON.parse(readFile('.figma/avatar.figma-contract.json'));
+
+test('Contract has component name "Avatar"', () =>
+  contractJson.source?.componentName === 'Avatar'
+);
+
+test('Contract sizes are xs to 2xl', () =>
+  JSON.stringify(contractJson.properties?.size?.values) === '["xs","sm","md","lg","xl","2xl"]'
+);
+
+test('Contract statuses are none, online and offline', () =>
+  JSON.stringify(contractJson.properties?.status?.values) === '["none","online","offline"]'
+);
+
+test('Contract is marked as pending Figma data', () =>
+  contractJson._extraction_status?.status === 'PENDING_FIGMA_DATA'
+);
+
+// --- 3. LIT Component ---
+console.log('\n[LIT Component: kds-avatar]');
+
+const src = readFile('packages/web-components/src/components/kds-avatar.ts');
+const badgeSrc = readFile('packages/web-components/src/components/kds-badge.ts');
+
+test('Registers kds-avatar', () =>
+  src.includes("@customElement('kds-avatar')")
+);
+
+test('Has styles for every size', () =>
+  ['xs', 'sm', 'md', 'lg', 'xl', '2xl'].every((size) => src.includes(`.size-${size} {`))
+);
+
+test('Falls back from image to initials to icon', () => {
+  const image = src.indexOf('<img src=${this.src}');
+  const initials = src.indexOf('<span class="initials"');
+  const icon = src.indexOf('<svg class="icon"');
+  return image !== -1 && image < initials && initials < icon;
+});
+
+test('Derives initials from the name', () =>
+  src.includes('this.initials || getInitials(this.name)')
+);
+
+test('Resets the image fallback when src changes', () =>
+  src.includes("changed.has('src')") && src.includes('this._imageFailed = false')
+);
+
+test('Badge exports its dot styles', () =>
+  badgeSrc.includes('export const badgeDotStyles = css`') &&
+  badgeSrc.includes('static override styles = [badgeDotStyles, css`')
+);
+
+test('Status dot reuses the badge dot styles', () =>
+  src.includes("import { badgeDotStyles } from './kds-badge.js'") &&
+  src.includes('static override styles = [badgeDotStyles, css`') &&
+  src.includes('<span class="dot ${this.status}" part="status">')
+);
+
+// --- 4. Wrappers ---
+console.log('\n[Wrappers]');
+
+const reactAvatar = readFile('packages/wrappers/react/src/Avatar.tsx');
+const angularAvatar = readFile('packages/wrappers/angular/src/avatar.component.ts');
+const blazorAvatar = readFile('packages/wrappers/blazor/Components/KdsAvatar.razor');
+
+test('React exports Avatar component', () =>
+  reactAvatar.includes('export const Avatar')
+);
+
+test('Angular has KdsAvatarComponent', () =>
+  angularAvatar.includes('export class KdsAvatarComponent')
+);
+
+test('Blazor renders kds-avatar element', () =>
+  blazorAvatar.includes('<kds-avatar')
+);
+
+// --- 5. Index Exports ---
+console.log('\n[Index Exports]');
+
+const wcIndex = readFile('packages/web-components/src/index.ts');
+const reactIndex = readFile('packages/wrappers/react/src/index.ts');
+const angularIndex = readFile('packages/wrappers/angular/src/index.ts');
+
+test('Web components index exports KdsAvatar', () =>
+  wcIndex.includes("export { KdsAvatar } from './components/kds-avatar.js'") &&
+  wcIndex.includes('AvatarSize') &&
+  wcIndex.includes('AvatarStatus')
+);
+
+test('React index exports Avatar', () =>
+  reactIndex.includes("export { Avatar } from './Avatar.js'")
+);
+
+test('Angular index exports KdsAvatarComponent', () =>
+  angularIndex.includes('KdsAvatarComponent')
+);
+
+// --- 6. Documentation ---
+console.log('\n[Documentation]');
+
+const indexHtml = readFile('packages/web-components/index.html');
+
+test('Avatar script imported in index.html', () =>
+  indexHtml.includes('kds-avatar.ts"></script>')
+);
+
+// --- Summary ---
+console.log(`\n${'='.repeat(40)}`);
+console.log(`Total: ${passed + failed} | Passed: ${passed} | Failed: ${failed}`);
+console.log(`${'='.repeat(40)}\n`);
+
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,181 @@
+/**
+ * @package kds-ai-preview
+ * @description Avatar group component test suite
+ * @author Kilian Sala <kilian@kapsch.net>
+ *
+ * Validates kds-avatar-group component structure, exports, and integration.
+ * Run: npx tsx scripts/test-avatar-group-component.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+const ROOT = path.resolve(import.meta.dirname, '..');
+let passed = 0;
+let failed = 0;
+
+function test(name: string, fn: () => boolean) {
+  try {
+    if (fn()) {
+      console.log(`  PASS  ${name}`);
+      passed++;
+    } else {
+      console.error(`  FAIL  ${name}`);
+      failed++;
+    }
+  } catch (e: any) {
+    console.error(`  FAIL  ${name} — ${e.message}`);
+    failed++;
+  }
+}
+
+function readFile(relPath: string): string {
+  return fs.readFileSync(path.join(ROOT, relPath), 'utf-8');
+}
+
+function fileExists(relPath: string): boolean {
+  return fs.existsSync(path.join(ROOT, relPath));
+}
+
+console.log('\n=== Avatar Group Component Tests ===\n');
+
+// --- 1. File Existence ---
+console.log('[Files]');
+
+const requiredFiles = [
+  '.figma/avatar-group.figma-contract.json',
+  '.figma/avatar-group.figma-contract.ts',
+  'packages/web-components/src/components/kds-avatar-group.ts',
+  'scripts/validate-avatar-group-contract.ts',
+  'scripts/validate-avatar-group-a11y.ts',
+  'packages/wrappers/react/src/AvatarGroup.tsx',
+  'packages/wrappers/angular/src/avatar-group.component.ts',
+  'packages/wrappers/blazor/Components/KdsAvatarGroup.razor',
+];
+
+for (const file of requiredFiles) {
+  test(`File exists: ${file}`, () => fileExists(file));
+}
+
+// --- 2. Contract JSON ---
+console.log('\n[Contract JSON]');
+
+const contractJson = JSON.parse(readFile('.figma/avatar-group.figma-contract.json'));
+
+test('Contract has component name "Avatar group"', () =>
+  contractJson.source?.componentName === 'Avatar group'
+);
+
+test('Contract size defaults to sm', () =>
+  contractJson.properties?.size?.default === 'sm'
+);
+
+test('Contract max defaults to 0 (show all)', () =>
+  contractJson.properties?.max?.default === 0
+);
+
+test('Contract is marked as pending Figma data', () =>
+  contractJson._extraction_status?.status === 'PENDING_FIGMA_DATA'
+);
+
+// --- 3. LIT Component ---
+console.log('\n[LIT Component: kds-avatar-group]');
+
+const src = readFile('packages/web-components/src/components/kds-avatar-group.ts');
+
+test('Registers kds-avatar-group', () =>
+  src.includes("@customElement('kds-avatar-group')")
+);
+
+test('Imports kds-avatar', () =>
+  src.includes("import './kds-avatar.js'")
+);
+
+test('Overlaps every avatar after the first', () =>
+  src.includes('::slotted(kds-avatar:not(:first-child))') &&
+  src.includes('margin-inline-start: var(--kds-avatar-group-overlap)')
+);
+
+test('Rings avatars through --kds-avatar-ring', () =>
+  src.includes('--kds-avatar-ring: 0 0 0 var(--kds-avatar-group-ring)')
+);
+
+test('Applies its size to every avatar', () =>
+  src.includes('avatar.size = this.size')
+);
+
+test('Hides avatars past max', () =>
+  src.includes("avatar.toggleAttribute('data-overflow', index >= visible)") &&
+  src.includes('::slotted([data-overflow])')
+);
+
+test('Renders a "+N" overflow avatar', () =>
+  src.includes('initials=${`+${count}`}')
+);
+
+test('Re-counts avatars when the slot changes', () =>
+  src.includes('<slot @slotchange=${this._syncAvatars}></slot>')
+);
+
+test('Counts the overflow before render, not in updated()', () =>
+  /willUpdate\(changed[^)]*\)\s*\{[\s\S]*?this\._syncAvatars\(\)/.test(src) &&
+  !/override updated\(/.test(src)
+);
+
+test('Documents that the group controls avatar sizes', () =>
+  src.includes("replaces the avatars' own `size`")
+);
+
+// --- 4. Wrappers ---
+console.log('\n[Wrappers]');
+
+const reactGroup = readFile('packages/wrappers/react/src/AvatarGroup.tsx');
+const angularGroup = readFile('packages/wrappers/angular/src/avatar-group.component.ts');
+const blazorGroup = readFile('packages/wrappers/blazor/Components/KdsAvatarGroup.razor');
+
+test('React exports AvatarGroup component', () =>
+  reactGroup.includes('export const AvatarGroup')
+);
+
+test('Angular has KdsAvatarGroupComponent', () =>
+  angularGroup.includes('export class KdsAvatarGroupComponent')
+);
+
+test('Blazor renders kds-avatar-group element', () =>
+  blazorGroup.includes('<kds-avatar-group')
+);
+
+// --- 5. Index Exports ---
+console.log('\n[Index Exports]');
+
+const wcIndex = readFile('packages/web-components/src/index.ts');
+const reactIndex = readFile('packages/wrappers/react/src/index.ts');
+const angularIndex = readFile('packages/wrappers/angular/src/index.ts');
+
+test('Web components index exports KdsAvatarGroup', () =>
+  wcIndex.includes("export { KdsAvatarGroup } from './components/kds-avatar-group.js'")
+);
+
+test('React index exports AvatarGroup', () =>
+  reactIndex.includes("export { AvatarGroup } from './AvatarGroup.js'")
+);
+
+test('Angular index exports KdsAvatarGroupComponent', () =>
+  angularIndex.includes('KdsAvatarGroupComponent')
+);
+
+// --- 6. Documentation ---
+console.log('\n[Documentation]');
+
+const indexHtml = readFile('packages/web-components/index.html');
+
+test('Avatar group script imported in index.html', () =>
+  indexHtml.includes('kds-avatar-group.ts"></script>')
+);
+
+// --- Summary ---
+console.log(`\n${'='.repeat(40)}`);
+console.log(`Total: ${passed + failed} | Passed: ${passed} | Failed: ${failed}`);
+console.log(`${'='.repeat(40)}\n`);
+
+process.exit(failed > 0 ? 1 : 0);
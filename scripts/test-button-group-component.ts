@@ -137,6 +137,34 @@ test('Dispatches kds-button-group-item-click event', () =>
   litSrc.includes("'kds-button-group-item-click'")
 );
 
+test('Exports ButtonGroupSelection type', () =>
+  litSrc.includes("export type ButtonGroupSelection = 'none' | 'single' | 'multiple'")
+);
+
+test('Group has selection property defaulting to none', () =>
+  litSrc.includes("selection: ButtonGroupSelection = 'none'")
+);
+
+test('Group has value and values properties', () =>
+  litSrc.includes("value = ''") && litSrc.includes('values: string[] = []')
+);
+
+test('Group dispatches kds-button-group-change with value and values', () =>
+  litSrc.includes("'kds-button-group-change'") && litSrc.includes("detail: { value: values[0] ?? '', values }")
+);
+
+test('Single mode ignores clicks on the selected item', () =>
+  litSrc.includes('if (this.values[0] === value) return;')
+);
+
+test('Single mode falls back to the first enabled item', () =>
+  litSrc.includes('items.findIndex((item) => !item.disabled)')
+);
+
+test('Group syncs item selected state', () =>
+  litSrc.includes('item.selected = this.values.includes(')
+);
+
 test('Uses classMap for dynamic classes', () =>
   litSrc.includes('classMap')
 );
@@ -145,8 +173,8 @@ test('Has border-radius: 8px', () =>
   litSrc.includes('border-radius: 8px')
 );
 
-test('Has role="group" on container', () =>
-  litSrc.includes('role="group"')
+test('Has role="group" on container (radiogroup in single mode)', () =>
+  litSrc.includes("role=${this.selection === 'single' ? 'radiogroup' : 'group'}")
 );
 
 test('Has overflow: hidden', () =>
@@ -165,6 +193,31 @@ test('Has aria-pressed for selected state', () =>
   litSrc.includes('aria-pressed')
 );
 
+test('Items use role="radio" and aria-checked in single mode', () =>
+  litSrc.includes("role=${ifDefined(isRadio ? 'radio' : undefined)}") && litSrc.includes('aria-checked=')
+);
+
+test('Uses roving tabindex on item buttons', () =>
+  litSrc.includes('tabindex=${ifDefined(this.rovingTabIndex)}') &&
+  litSrc.includes('item.rovingTabIndex = item === this._activeItem ? 0 : -1')
+);
+
+test('Handles arrow, Home and End keys', () =>
+  ["'ArrowRight'", "'ArrowLeft'", "'ArrowUp'", "'ArrowDown'", "'Home'", "'End'"].every((key) => litSrc.includes(key))
+);
+
+test('Skips disabled items in keyboard navigation', () =>
+  litSrc.includes('this._getItems().filter((item) => !item.disabled)')
+);
+
+test('Respects RTL direction for arrow keys', () =>
+  litSrc.includes("getComputedStyle(this).direction === 'rtl'")
+);
+
+test('Item forwards focus() to its button', () =>
+  litSrc.includes('this._button?.focus(options)')
+);
+
 test('Has focus-visible styles', () =>
   litSrc.includes(':focus-visible')
 );
@@ -243,6 +296,14 @@ test('Handles onClick event', () =>
   reactSrc.includes('onClick') && reactSrc.includes('kds-button-group-item-click')
 );
 
+test('Group handles onChange event', () =>
+  reactSrc.includes('onChange') && reactSrc.includes('kds-button-group-change')
+);
+
+test('Group passes selection, value and values', () =>
+  reactSrc.includes('selection,') && reactSrc.includes('value,') && reactSrc.includes('group.values = values')
+);
+
 // --- 5. Angular Wrapper ---
 console.log('\n[Angular Wrapper]');
 
@@ -268,6 +329,14 @@ test('Has itemClick output', () =>
   angularSrc.includes('itemClick')
 );
 
+test('Has buttonGroupChange output', () =>
+  angularSrc.includes('buttonGroupChange') && angularSrc.includes('kds-button-group-change')
+);
+
+test('Group has selection, value and values inputs', () =>
+  angularSrc.includes('@Input() selection') && angularSrc.includes('@Input() value?') && angularSrc.includes('@Input() values?')
+);
+
 // --- 6. Blazor Wrapper ---
 console.log('\n[Blazor Wrapper]');
 
@@ -282,6 +351,21 @@ test('Group has AriaLabel parameter', () =>
   blazorGroupSrc.includes('public string? AriaLabel')
 );
 
+test('Group has Selection, Value and Values parameters', () =>
+  blazorGroupSrc.includes('public string Selection') &&
+  blazorGroupSrc.includes('public string? Value') &&
+  blazorGroupSrc.includes('public string[]? Values')
+);
+
+test('Group has OnChange EventCallback', () =>
+  blazorGroupSrc.includes('EventCallback<string[]> OnChange')
+);
+
+test('Group uses JS interop for change listener', () =>
+  blazorGroupSrc.includes('attachButtonGroupListener') &&
+  readFile('packages/wrappers/blazor/wwwroot/kds-blazor.js').includes('attachButtonGroupListener')
+);
+
 test('Item renders kds-button-group-item element', () =>
   blazorItemSrc.includes('<kds-button-group-item')
 );
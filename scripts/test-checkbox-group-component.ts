@@ -0,0 +1,273 @@
+/**
+ * @package kds-ai-preview
+ * @description Checkbox Group component test suite
+ * @author Kilian Sala <kilian@kapsch.net>
+ *
+ * Validates kds-checkbox-group component structure, exports, and integration.
+ * Run: npx tsx scripts/test-checkbox-group-component.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+const ROOT = path.resolve(import.meta.dirname, '..');
+let passed = 0;
+let failed = 0;
+
+function test(name: string, fn: () => boolean) {
+  try {
+    if (fn()) {
+      console.log(`  PASS  ${name}`);
+      passed++;
+    } else {
+      console.error(`  FAIL  ${name}`);
+      failed++;
+    }
+  } catch (e: any) {
+    console.error(`  FAIL  ${name} — ${e.message}`);
+    failed++;
+  }
+}
+
+function readFile(relPath: string): string {
+  return fs.readFileSync(path.join(ROOT, relPath), 'utf-8');
+}
+
+function fileExists(relPath: string): boolean {
+  return fs.existsSync(path.join(ROOT, relPath));
+}
+
+console.log('\n=== Checkbox Group Component Tests ===\n');
+
+// --- 1. File Existence ---
+console.log('[Files]');
+
+const requiredFiles = [
+  '.figma/checkbox-group.figma-contract.json',
+  '.figma/checkbox-group.figma-contract.ts',
+  'packages/web-components/src/components/kds-checkbox-group.ts',
+  'scripts/validate-checkbox-group-contract.ts',
+  'scripts/validate-checkbox-group-a11y.ts',
+  'packages/wrappers/react/src/CheckboxGroup.tsx',
+  'packages/wrappers/angular/src/checkbox-group.component.ts',
+  'packages/wrappers/blazor/Components/KdsCheckboxGroup.razor',
+];
+
+for (const file of requiredFiles) {
+  test(`File exists: ${file}`, () => fileExists(file));
+}
+
+// --- 2. Contract JSON ---
+console.log('\n[Contract JSON]');
+
+const contractJson = JSON.parse(readFile('.figma/checkbox-group.figma-contract.json'));
+
+test('Contract has component name "Checkbox group"', () =>
+  contractJson.source?.componentName === 'Checkbox group'
+);
+
+test('Contract has orientation with vertical/horizontal', () => {
+  const values = contractJson.properties?.orientation?.values;
+  return Array.isArray(values) && values.includes('vertical') && values.includes('horizontal');
+});
+
+test('Contract has selectAll property', () =>
+  contractJson.properties?.selectAll?.type === 'boolean'
+);
+
+test('Contract size matches Checkbox sizes', () => {
+  const values = contractJson.properties?.size?.values;
+  return Array.isArray(values) && values.join(',') === 'sm,md';
+});
+
+test('Contract is marked as pending Figma data', () =>
+  contractJson._extraction_status?.status === 'PENDING_FIGMA_DATA'
+);
+
+// --- 3. LIT Component ---
+console.log('\n[LIT Component]');
+
+const litSrc = readFile('packages/web-components/src/components/kds-checkbox-group.ts');
+const checkboxSrc = readFile('packages/web-components/src/components/kds-checkbox.ts');
+
+test('Registered as kds-checkbox-group custom element', () =>
+  litSrc.includes("@customElement('kds-checkbox-group')")
+);
+
+test('KdsCheckboxGroup extends LitElement', () =>
+  litSrc.includes('class KdsCheckboxGroup extends LitElement')
+);
+
+test('Exports CheckboxGroupOrientation type', () =>
+  litSrc.includes("export type CheckboxGroupOrientation = 'vertical' | 'horizontal'")
+);
+
+test('Imports kds-checkbox for the parent checkbox', () =>
+  litSrc.includes("import './kds-checkbox.js'")
+);
+
+test('Has value: string[] property', () =>
+  litSrc.includes('value: string[] = []') && litSrc.includes('attribute: false')
+);
+
+test('Has label and hint properties', () =>
+  litSrc.includes("label = ''") && litSrc.includes("hint = ''")
+);
+
+test('Has orientation property defaulting to vertical', () =>
+  litSrc.includes("orientation: CheckboxGroupOrientation = 'vertical'")
+);
+
+test('Has select-all attribute', () =>
+  litSrc.includes("attribute: 'select-all'")
+);
+
+test('Parent checkbox uses indeterminate state', () =>
+  litSrc.includes('.indeterminate=${live(selectAllState.indeterminate)}')
+);
+
+test('Parent only toggles enabled options', () =>
+  litSrc.includes('.filter((checkbox) => !checkbox.disabled)')
+);
+
+test('Stops the internal parent change event', () =>
+  litSrc.includes('event.stopPropagation()')
+);
+
+test('Form reset resyncs value and the parent state from the options', () =>
+  checkboxSrc.includes("new CustomEvent('kds-checkbox-reset'") &&
+  litSrc.includes('@kds-checkbox-reset=${this._handleOptionReset}') &&
+  /_handleOptionReset\(event: CustomEvent\) \{[\s\S]*?this\.value = this\._checkedValues\(checkboxes\);/.test(litSrc) &&
+  !litSrc.includes("closest('form')") && !litSrc.includes('setTimeout') &&
+  // The parent is rendered from the options' checked state, so a new value re-renders it
+  litSrc.includes('const selectAllState = this.selectAll ? this._getSelectAllState() : null')
+);
+
+test('Dispatches kds-checkbox-group-change', () =>
+  litSrc.includes("'kds-checkbox-group-change'") && litSrc.includes('detail: { value }')
+);
+
+test('Has role="group" with aria-labelledby and aria-describedby', () =>
+  litSrc.includes('role="group"') && litSrc.includes('aria-labelledby=') && litSrc.includes('aria-describedby=')
+);
+
+test('Horizontal orientation lays options out in a row', () =>
+  litSrc.includes(':host([orientation="horizontal"]) .options') && litSrc.includes('flex-direction: row')
+);
+
+// --- 4. React Wrapper ---
+console.log('\n[React Wrapper]');
+
+const reactSrc = readFile('packages/wrappers/react/src/CheckboxGroup.tsx');
+
+test('Exports CheckboxGroup component', () =>
+  reactSrc.includes('export const CheckboxGroup')
+);
+
+test('Exports CheckboxGroupProps interface', () =>
+  reactSrc.includes('export interface CheckboxGroupProps')
+);
+
+test('Uses forwardRef', () =>
+  reactSrc.includes('forwardRef<HTMLElement, CheckboxGroupProps>')
+);
+
+test('Creates kds-checkbox-group element', () =>
+  reactSrc.includes("'kds-checkbox-group'")
+);
+
+test('Handles onChange event', () =>
+  reactSrc.includes('onChange') && reactSrc.includes('kds-checkbox-group-change')
+);
+
+test('Sets value as a property', () =>
+  reactSrc.includes('group.value = value')
+);
+
+// --- 5. Angular Wrapper ---
+console.log('\n[Angular Wrapper]');
+
+const angularSrc = readFile('packages/wrappers/angular/src/checkbox-group.component.ts');
+
+test('Has KdsCheckboxGroupComponent class', () =>
+  angularSrc.includes('export class KdsCheckboxGroupComponent')
+);
+
+test('Uses standalone: true', () =>
+  angularSrc.includes('standalone: true')
+);
+
+test('Uses CUSTOM_ELEMENTS_SCHEMA', () =>
+  angularSrc.includes('CUSTOM_ELEMENTS_SCHEMA')
+);
+
+test('Has checkboxGroupChange output', () =>
+  angularSrc.includes('checkboxGroupChange')
+);
+
+test('Syncs value input as a property', () =>
+  angularSrc.includes('el.value = this.value')
+);
+
+// --- 6. Blazor Wrapper ---
+console.log('\n[Blazor Wrapper]');
+
+const blazorSrc = readFile('packages/wrappers/blazor/Components/KdsCheckboxGroup.razor');
+const blazorJs = readFile('packages/wrappers/blazor/wwwroot/kds-blazor.js');
+
+test('Renders kds-checkbox-group element', () =>
+  blazorSrc.includes('<kds-checkbox-group')
+);
+
+test('Has Value and ValueChanged parameters', () =>
+  blazorSrc.includes('public string[]? Value') && blazorSrc.includes('EventCallback<string[]> ValueChanged')
+);
+
+test('Has OnChange EventCallback', () =>
+  blazorSrc.includes('EventCallback<string[]> OnChange')
+);
+
+test('kds-blazor.js has checkbox group listener functions', () =>
+  blazorJs.includes('attachCheckboxGroupListener') &&
+  blazorJs.includes('detachCheckboxGroupListener') &&
+  blazorJs.includes('setCheckboxGroupValue')
+);
+
+// --- 7. Index Exports ---
+console.log('\n[Index Exports]');
+
+const wcIndex = readFile('packages/web-components/src/index.ts');
+const reactIndex = readFile('packages/wrappers/react/src/index.ts');
+const angularIndex = readFile('packages/wrappers/angular/src/index.ts');
+
+test('Web components index exports KdsCheckboxGroup', () =>
+  wcIndex.includes("export { KdsCheckboxGroup } from './components/kds-checkbox-group.js'")
+);
+
+test('Web components index exports CheckboxGroupOrientation type', () =>
+  wcIndex.includes('CheckboxGroupOrientation')
+);
+
+test('React index exports CheckboxGroup', () =>
+  reactIndex.includes('CheckboxGroup') && reactIndex.includes('CheckboxGroupProps')
+);
+
+test('Angular index exports KdsCheckboxGroupComponent', () =>
+  angularIndex.includes('KdsCheckboxGroupComponent')
+);
+
+// --- 8. Documentation ---
+console.log('\n[Documentation]');
+
+const indexHtml = readFile('packages/web-components/index.html');
+
+test('Checkbox Group script imported in index.html', () =>
+  indexHtml.includes('kds-checkbox-group.ts"></script>')
+);
+
+// --- Summary ---
+console.log(`\n${'='.repeat(40)}`);
+console.log(`Total: ${passed + failed} | Passed: ${passed} | Failed: ${failed}`);
+console.log(`${'='.repeat(40)}\n`);
+
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,244 @@
+/**
+ * @package kds-ai-preview
+ * @description Date Picker component test suite
+ * @author Kilian Sala <kilian@kapsch.net>
+ *
+ * Validates kds-date-picker component structure, exports, and integration.
+ * Run: npx tsx scripts/test-date-picker-component.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+const ROOT = path.resolve(import.meta.dirname, '..');
+let passed = 0;
+let failed = 0;
+
+function test(name: string, fn: () => boolean) {
+  try {
+    if (fn()) {
+      console.log(`  PASS  ${name}`);
+      passed++;
+    } else {
+      console.error(`  FAIL  ${name}`);
+      failed++;
+    }
+  } catch (e: any) {
+    console.error(`  FAIL  ${name} — ${e.message}`);
+    failed++;
+  }
+}
+
+function readFile(relPath: string): string {
+  return fs.readFileSync(path.join(ROOT, relPath), 'utf-8');
+}
+
+function fileExists(relPath: string): boolean {
+  return fs.existsSync(path.join(ROOT, relPath));
+}
+
+console.log('\n=== Date Picker Component Tests ===\n');
+
+// --- 1. File Existence ---
+console.log('[Files]');
+
+const requiredFiles = [
+  '.figma/date-picker.figma-contract.json',
+  '.figma/date-picker.figma-contract.ts',
+  'packages/web-components/src/components/kds-date-picker.ts',
+  'scripts/validate-date-picker-contract.ts',
+  'scripts/validate-date-picker-a11y.ts',
+  'packages/wrappers/react/src/DatePicker.tsx',
+  'packages/wrappers/angular/src/date-picker.component.ts',
+  'packages/wrappers/blazor/Components/KdsDatePicker.razor',
+];
+
+for (const file of requiredFiles) {
+  test(`File exists: ${file}`, () => fileExists(file));
+}
+
+// --- 2. Contract JSON ---
+console.log('\n[Contract JSON]');
+
+const contractJson = JSON.parse(readFile('.figma/date-picker.figma-contract.json'));
+
+test('Contract has component name "Date picker"', () =>
+  contractJson.source?.componentName === 'Date picker'
+);
+
+test('Contract defines range and disabled dates', () =>
+  contractJson.properties?.range?.default === false &&
+  Array.isArray(contractJson.properties?.disabledDates?.default)
+);
+
+test('Contract is marked as pending Figma data', () =>
+  contractJson._extraction_status?.status === 'PENDING_FIGMA_DATA'
+);
+
+// --- 3. LIT Component ---
+console.log('\n[LIT Component: kds-date-picker]');
+
+const src = readFile('packages/web-components/src/components/kds-date-picker.ts');
+
+test('Registers kds-date-picker', () =>
+  src.includes("@customElement('kds-date-picker')")
+);
+
+test('Is built on kds-input-field with a calendar button in its trailing slot', () =>
+  src.includes('<kds-input-field') &&
+  src.includes('type="trailing-dropdown"') &&
+  src.includes('slot="trailing-dropdown"')
+);
+
+test('Validates typed text through the field validators', () =>
+  src.includes('this._validators = [(text) => this._validateText(text)]') &&
+  src.includes('.validators=${this._validators}')
+);
+
+test('Parses the locale order and ISO dates', () =>
+  src.includes('fields[type] = numbers[index]') &&
+  src.includes('const iso = fromIsoDate(text)')
+);
+
+test('Rejects days that do not exist', () =>
+  src.includes('date.getDate() !== day')
+);
+
+test('Formats and derives the week start through Intl', () =>
+  src.includes("new Intl.DateTimeFormat(locale, { year: 'numeric', month: '2-digit', day: '2-digit' })") &&
+  src.includes('intlLocale.getWeekInfo?.() ?? intlLocale.weekInfo')
+);
+
+test('Disables dates outside min/max, listed or matched by rule', () =>
+  src.includes('(this.min && iso < this.min) || (this.max && iso > this.max)') &&
+  src.includes('this.disabledDates.includes(iso)') &&
+  src.includes('this.isDateDisabled?.(')
+);
+
+test('Range selection anchors the first date and sorts the pair', () =>
+  src.includes('this._rangeAnchor = iso') &&
+  src.includes('[this._rangeAnchor, iso].sort()')
+);
+
+test('Page Up/Down move by month, with Shift by year', () =>
+  src.includes('addMonths(current, event.shiftKey ? -12 : -1)') &&
+  src.includes('addMonths(current, event.shiftKey ? 12 : 1)')
+);
+
+test('Is form-associated and submits ranges as two entries', () =>
+  src.includes('static formAssociated = true') &&
+  src.includes('data.append(this.name, this.valueStart)') &&
+  src.includes('data.append(this.name, this.valueEnd)')
+);
+
+test('Validates the text on the host with the field\'s rules', () =>
+  src.includes('const message = this._validateText(this._text);') &&
+  src.includes('this._internals.setValidity({ customError: true }, message, field)')
+);
+
+test('Computes validity before render, not after the field updates', () =>
+  /willUpdate\(changed[^)]*\)\s*\{[\s\S]*?this\._updateValidity\(\);[\s\S]*?\n  \}\n\n  override firstUpdated/.test(src) &&
+  !src.includes('await field.updateComplete') &&
+  !src.includes('private async _updateValidity')
+);
+
+test('checkValidity() does not show the error state', () =>
+  src.includes('if (this._checkingValidity) return;')
+);
+
+test('A reported error focuses the field instead of reporting it again', () =>
+  src.includes('this._showValidity = true;\n      this._field?.focus();') &&
+  !src.includes('this._field?.reportValidity()')
+);
+
+test('Keeps the field events inside and dispatches kds-date-picker-change', () =>
+  src.includes('event.stopPropagation();\n    this._text = event.detail.value;') &&
+  src.includes("'kds-date-picker-change'") &&
+  src.includes('composed: true')
+);
+
+// --- 4. React Wrapper ---
+console.log('\n[React Wrapper]');
+
+const reactPicker = readFile('packages/wrappers/react/src/DatePicker.tsx');
+
+test('Exports DatePicker component', () =>
+  reactPicker.includes('export const DatePicker')
+);
+
+test('Handles change events', () =>
+  reactPicker.includes("'kds-date-picker-change'") && reactPicker.includes('onChange')
+);
+
+test('Sets disabled dates and the date filter as properties', () =>
+  reactPicker.includes('picker.disabledDates = disabledDates') &&
+  reactPicker.includes('picker.isDateDisabled = isDateDisabled ?? null')
+);
+
+// --- 5. Angular Wrapper ---
+console.log('\n[Angular Wrapper]');
+
+const angularPicker = readFile('packages/wrappers/angular/src/date-picker.component.ts');
+
+test('Has KdsDatePickerComponent', () =>
+  angularPicker.includes('export class KdsDatePickerComponent')
+);
+
+test('Emits dateChange', () =>
+  angularPicker.includes('@Output() dateChange')
+);
+
+// --- 6. Blazor Wrapper ---
+console.log('\n[Blazor Wrapper]');
+
+const blazorPicker = readFile('packages/wrappers/blazor/Components/KdsDatePicker.razor');
+const blazorJs = readFile('packages/wrappers/blazor/wwwroot/kds-blazor.js');
+
+test('Renders kds-date-picker element with two-way bound dates', () =>
+  blazorPicker.includes('<kds-date-picker') &&
+  blazorPicker.includes('public EventCallback<DateOnly?> ValueChanged') &&
+  blazorPicker.includes('public EventCallback<DateOnly?> ValueStartChanged') &&
+  blazorPicker.includes('public EventCallback<DateOnly?> ValueEndChanged')
+);
+
+test('kds-blazor.js has date picker functions', () =>
+  blazorJs.includes('attachDatePickerListener') &&
+  blazorJs.includes('detachDatePickerListener') &&
+  blazorJs.includes('setDatePickerValues')
+);
+
+// --- 7. Index Exports ---
+console.log('\n[Index Exports]');
+
+const wcIndex = readFile('packages/web-components/src/index.ts');
+const reactIndex = readFile('packages/wrappers/react/src/index.ts');
+const angularIndex = readFile('packages/wrappers/angular/src/index.ts');
+
+test('Web components index exports KdsDatePicker', () =>
+  wcIndex.includes("export { KdsDatePicker } from './components/kds-date-picker.js'") &&
+  wcIndex.includes('DatePickerValueDetail')
+);
+
+test('React index exports DatePicker', () =>
+  reactIndex.includes("export { DatePicker } from './DatePicker.js'")
+);
+
+test('Angular index exports KdsDatePickerComponent', () =>
+  angularIndex.includes('KdsDatePickerComponent')
+);
+
+// --- 8. Documentation ---
+console.log('\n[Documentation]');
+
+const indexHtml = readFile('packages/web-components/index.html');
+
+test('Date picker script imported in index.html', () =>
+  indexHtml.includes('kds-date-picker.ts"></script>')
+);
+
+// --- Summary ---
+console.log(`\n${'='.repeat(40)}`);
+console.log(`Total: ${passed + failed} | Passed: ${passed} | Failed: ${failed}`);
+console.log(`${'='.repeat(40)}\n`);
+
+process.exit(failed > 0 ? 1 : 0);
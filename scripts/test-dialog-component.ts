@@ -0,0 +1,218 @@
+/**
+ * @package kds-ai-preview
+ * @description Dialog component test suite
+ * @author Kilian Sala <kilian@kapsch.net>
+ *
+ * Validates kds-dialog component structure, exports, and integration.
+ * Run: npx tsx scripts/test-dialog-component.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+const ROOT = path.resolve(import.meta.dirname, '..');
+let passed = 0;
+let failed = 0;
+
+function test(name: string, fn: () => boolean) {
+  try {
+    if (fn()) {
+      console.log(`  PASS  ${name}`);
+      passed++;
+    } else {
+      console.error(`  FAIL  ${name}`);
+      failed++;
+    }
+  } catch (e: any) {
+    console.error(`  FAIL  ${name} — ${e.message}`);
+    failed++;
+  }
+}
+
+function readFile(relPath: string): string {
+  return fs.readFileSync(path.join(ROOT, relPath), 'utf-8');
+}
+
+function fileExists(relPath: string): boolean {
+  return fs.existsSync(path.join(ROOT, relPath));
+}
+
+console.log('\n=== Dialog Component Tests ===\n');
+
+// --- 1. File Existence ---
+console.log('[Files]');
+
+const requiredFiles = [
+  '.figma/dialog.figma-contract.json',
+  '.figma/dialog.figma-contract.ts',
+  'packages/web-components/src/components/kds-dialog.ts',
+  'scripts/validate-dialog-contract.ts',
+  'scripts/validate-dialog-a11y.ts',
+  'packages/wrappers/react/src/Dialog.tsx',
+  'packages/wrappers/angular/src/dialog.component.ts',
+  'packages/wrappers/blazor/Components/KdsDialog.razor',
+];
+
+for (const file of requiredFiles) {
+  test(`File exists: ${file}`, () => fileExists(file));
+}
+
+// --- 2. Contract JSON ---
+console.log('\n[Contract JSON]');
+
+const contractJson = JSON.parse(readFile('.figma/dialog.figma-contract.json'));
+
+test('Contract has component name "Modal"', () =>
+  contractJson.source?.componentName === 'Modal'
+);
+
+test('Contract defines sm, md and lg sizes', () =>
+  JSON.stringify(contractJson.properties?.size?.values) === '["sm","md","lg"]'
+);
+
+test('Contract defines header, default and footer slots', () =>
+  ['header', 'default', 'footer'].every((slot) => slot in (contractJson.slots ?? {}))
+);
+
+test('Contract is marked as pending Figma data', () =>
+  contractJson._extraction_status?.status === 'PENDING_FIGMA_DATA'
+);
+
+// --- 3. LIT Component ---
+console.log('\n[LIT Component: kds-dialog]');
+
+const src = readFile('packages/web-components/src/components/kds-dialog.ts');
+
+test('Registered as kds-dialog custom element', () =>
+  src.includes("@customElement('kds-dialog')")
+);
+
+test('Built on a native modal <dialog>', () =>
+  src.includes('<dialog') && src.includes('this._dialog.showModal()')
+);
+
+test('Has header, body and footer slots', () =>
+  src.includes('<slot name="header">') && src.includes('<slot></slot>') && src.includes('<slot name="footer"')
+);
+
+test('Traps Tab inside the dialog, including slotted and shadow content', () =>
+  src.includes('function collectTabbable') &&
+  src.includes("assignedElements({ flatten: true })") &&
+  src.includes('el.shadowRoot ?? el')
+);
+
+test('Restores focus on close', () =>
+  src.includes('this._restoreFocus = getDeepActiveElement()') && src.includes('this._restoreFocus.focus()')
+);
+
+test('Escape and backdrop clicks dismiss the dialog', () =>
+  src.includes('@cancel=${this._handleCancel}') && src.includes('_pointerDownOnBackdrop')
+);
+
+test('Locks page scroll while any dialog is open', () =>
+  src.includes('lockScroll()') && src.includes('unlockScroll()')
+);
+
+test('Stacks nested dialogs', () =>
+  src.includes('const openDialogs: KdsDialog[] = []') && src.includes('private get _isTopmost()')
+);
+
+test('data-dialog-close closes with its value', () =>
+  src.includes("this.close(closer.getAttribute('data-dialog-close') ?? '')")
+);
+
+test('Destructive variant uses a destructive kds-button', () =>
+  src.includes("import './kds-button.js'") && src.includes('<kds-button ?destructive=${this.destructive}')
+);
+
+test('Dispatches kds-dialog-open and kds-dialog-close with returnValue', () =>
+  src.includes("'kds-dialog-open'") &&
+  src.includes("'kds-dialog-close'") &&
+  src.includes('detail: { returnValue: this.returnValue }')
+);
+
+// --- 4. React Wrapper ---
+console.log('\n[React Wrapper]');
+
+const reactDialog = readFile('packages/wrappers/react/src/Dialog.tsx');
+
+test('Exports Dialog component', () =>
+  reactDialog.includes('export const Dialog') && reactDialog.includes("'kds-dialog'")
+);
+
+test('Handles open and close events', () =>
+  reactDialog.includes('onOpen') && reactDialog.includes('onClose')
+);
+
+test('Keeps the open property in sync', () =>
+  reactDialog.includes('dialog.open = open')
+);
+
+// --- 5. Angular Wrapper ---
+console.log('\n[Angular Wrapper]');
+
+const angularDialog = readFile('packages/wrappers/angular/src/dialog.component.ts');
+
+test('Has KdsDialogComponent class with dialogClose output', () =>
+  angularDialog.includes('export class KdsDialogComponent') && angularDialog.includes('dialogClose')
+);
+
+test('Binds confirm-label and cancel-label', () =>
+  angularDialog.includes('[attr.confirm-label]') && angularDialog.includes('[attr.cancel-label]')
+);
+
+// --- 6. Blazor Wrapper ---
+console.log('\n[Blazor Wrapper]');
+
+const blazorDialog = readFile('packages/wrappers/blazor/Components/KdsDialog.razor');
+const blazorJs = readFile('packages/wrappers/blazor/wwwroot/kds-blazor.js');
+
+test('Renders kds-dialog element', () =>
+  blazorDialog.includes('<kds-dialog')
+);
+
+test('Supports @bind-Open', () =>
+  blazorDialog.includes('public bool Open') && blazorDialog.includes('public EventCallback<bool> OpenChanged')
+);
+
+test('kds-blazor.js has dialog listener functions', () =>
+  blazorJs.includes('attachDialogListeners') &&
+  blazorJs.includes('detachDialogListeners') &&
+  blazorJs.includes('setDialogOpen')
+);
+
+// --- 7. Index Exports ---
+console.log('\n[Index Exports]');
+
+const wcIndex = readFile('packages/web-components/src/index.ts');
+const reactIndex = readFile('packages/wrappers/react/src/index.ts');
+const angularIndex = readFile('packages/wrappers/angular/src/index.ts');
+
+test('Web components index exports KdsDialog and DialogSize', () =>
+  wcIndex.includes("export { KdsDialog } from './components/kds-dialog.js'") &&
+  wcIndex.includes('DialogSize')
+);
+
+test('React index exports Dialog', () =>
+  reactIndex.includes("export { Dialog } from './Dialog.js'")
+);
+
+test('Angular index exports KdsDialogComponent', () =>
+  angularIndex.includes('KdsDialogComponent')
+);
+
+// --- 8. Documentation ---
+console.log('\n[Documentation]');
+
+const indexHtml = readFile('packages/web-components/index.html');
+
+test('Dialog script imported in index.html', () =>
+  indexHtml.includes('kds-dialog.ts"></script>')
+);
+
+// --- Summary ---
+console.log(`\n${'='.repeat(40)}`);
+console.log(`Total: ${passed + failed} | Passed: ${passed} | Failed: ${failed}`);
+console.log(`${'='.repeat(40)}\n`);
+
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,215 @@
+/**
+ * @package kds-ai-preview
+ * @description File upload component test suite
+ * @author Kilian Sala <kilian@kapsch.net>
+ *
+ * Validates kds-file-upload component structure, exports, and integration.
+ * Run: npx tsx scripts/test-file-upload-component.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+const ROOT = path.resolve(import.meta.dirname, '..');
+let passed = 0;
+let failed = 0;
+
+function test(name: string, fn: () => boolean) {
+  try {
+    if (fn()) {
+      console.log(`  PASS  ${name}`);
+      passed++;
+    } else {
+      console.error(`  FAIL  ${name}`);
+      failed++;
+    }
+  } catch (e: any) {
+    console.error(`  FAIL  ${name} — ${e.message}`);
+    failed++;
+  }
+}
+
+function readFile(relPath: string): string {
+  return fs.readFileSync(path.join(ROOT, relPath), 'utf-8');
+}
+
+function fileExists(relPath: string): boolean {
+  return fs.existsSync(path.join(ROOT, relPath));
+}
+
+console.log('\n=== File Upload Component Tests ===\n');
+
+// --- 1. File Existence ---
+console.log('[Files]');
+
+const requiredFiles = [
+  '.figma/file-upload.figma-contract.json',
+  '.figma/file-upload.figma-contract.ts',
+  'packages/web-components/src/components/kds-file-upload.ts',
+  'scripts/validate-file-upload-contract.ts',
+  'scripts/validate-file-upload-a11y.ts',
+  'packages/wrappers/react/src/FileUpload.tsx',
+  'packages/wrappers/angular/src/file-upload.component.ts',
+  'packages/wrappers/blazor/Components/KdsFileUpload.razor',
+];
+
+for (const file of requiredFiles) {
+  test(`File exists: ${file}`, () => fileExists(file));
+}
+
+// --- 2. Contract JSON ---
+console.log('\n[Contract JSON]');
+
+const contractJson = JSON.parse(readFile('.figma/file-upload.figma-contract.json'));
+
+test('Contract has component name "File upload"', () =>
+  contractJson.source?.componentName === 'File upload'
+);
+
+test('Contract defines accept, multiple and maxSize', () =>
+  ['accept', 'multiple', 'maxSize'].every((name) => name in (contractJson.properties ?? {}))
+);
+
+test('Contract is marked as pending Figma data', () =>
+  contractJson._extraction_status?.status === 'PENDING_FIGMA_DATA'
+);
+
+// --- 3. LIT Component ---
+console.log('\n[LIT Component: kds-file-upload]');
+
+const src = readFile('packages/web-components/src/components/kds-file-upload.ts');
+
+test('Registers kds-file-upload', () =>
+  src.includes("@customElement('kds-file-upload')")
+);
+
+test('Accepts dropped files', () =>
+  src.includes('@dragover=${this._handleDragOver}') &&
+  src.includes('@drop=${this._handleDrop}') &&
+  src.includes('e.dataTransfer?.files')
+);
+
+test('Opens the file picker on click', () =>
+  src.includes('@click=${this.browse}') && src.includes('this._input?.click()')
+);
+
+test('Matches accept like the native input', () =>
+  src.includes("if (pattern.startsWith('.')) return name.endsWith(pattern)") &&
+  src.includes("if (pattern.endsWith('/*'))")
+);
+
+test('Rejects files over max-size', () =>
+  src.includes('this.maxSize > 0 && file.size > this.maxSize')
+);
+
+test('Rejects extra files without multiple', () =>
+  src.includes("!this.multiple && accepted.length")
+);
+
+test('Is form-associated and appends files to FormData', () =>
+  src.includes('static formAssociated = true') &&
+  src.includes('data.append(this.name, file)') &&
+  src.includes('this._internals.setFormValue(data)')
+);
+
+test('Required fails while no file is selected', () =>
+  src.includes('this.required && !this.items.length') && src.includes('valueMissing: true')
+);
+
+test('Computes validity before render, not in updated()', () =>
+  /override willUpdate\([^)]*\) \{[\s\S]*?this\._updateValidity\(\)/.test(src) &&
+  !/override updated\([^)]*\) \{[^}]*_updateValidity/.test(src) &&
+  !/@state\(\)\s*private _validationMessage/.test(src)
+);
+
+test('checkValidity() does not show the error state', () =>
+  src.includes('if (!this._checkingValidity) this._showValidity = true')
+);
+
+test('Blocks drops on a disabled dropzone', () =>
+  /e\.preventDefault\(\);\s*if \(this\._isDisabled\) \{\s*e\.dataTransfer\.dropEffect = 'none';/.test(src)
+);
+
+test('Clears the files on form reset', () =>
+  src.includes('formResetCallback()') && src.includes('this.items = [];')
+);
+
+test('Shows rejections in place of the hint with destructive styling', () =>
+  src.includes('const hint = this._rejectionMessage') &&
+  src.includes('.field.destructive .hint') &&
+  src.includes('.field.destructive .dropzone')
+);
+
+test('Shows a kds-progress-bar per file', () =>
+  src.includes("import './kds-progress-bar.js'") &&
+  src.includes('<kds-progress-bar') &&
+  src.includes("variant=${error ? 'error' : 'brand'}")
+);
+
+test('Has a remove button per file', () =>
+  src.includes('class="remove"') && src.includes('this._handleRemove(file, index)')
+);
+
+// --- 4. Wrappers ---
+console.log('\n[Wrappers]');
+
+const reactUpload = readFile('packages/wrappers/react/src/FileUpload.tsx');
+const angularUpload = readFile('packages/wrappers/angular/src/file-upload.component.ts');
+const blazorUpload = readFile('packages/wrappers/blazor/Components/KdsFileUpload.razor');
+const blazorJs = readFile('packages/wrappers/blazor/wwwroot/kds-blazor.js');
+
+test('React exports FileUpload component', () =>
+  reactUpload.includes('export const FileUpload')
+);
+
+test('React sets items as a property', () =>
+  reactUpload.includes('upload.items = items')
+);
+
+test('Angular has KdsFileUploadComponent', () =>
+  angularUpload.includes('export class KdsFileUploadComponent')
+);
+
+test('Blazor renders kds-file-upload element', () =>
+  blazorUpload.includes('<kds-file-upload')
+);
+
+test('Blazor JS passes file metadata and sets progress', () =>
+  blazorJs.includes('attachFileUploadListeners') && blazorJs.includes('setFileUploadProgress')
+);
+
+// --- 5. Index Exports ---
+console.log('\n[Index Exports]');
+
+const wcIndex = readFile('packages/web-components/src/index.ts');
+const reactIndex = readFile('packages/wrappers/react/src/index.ts');
+const angularIndex = readFile('packages/wrappers/angular/src/index.ts');
+
+test('Web components index exports KdsFileUpload', () =>
+  wcIndex.includes("export { KdsFileUpload } from './components/kds-file-upload.js'") &&
+  wcIndex.includes('FileUploadItem')
+);
+
+test('React index exports FileUpload', () =>
+  reactIndex.includes("export { FileUpload } from './FileUpload.js'")
+);
+
+test('Angular index exports KdsFileUploadComponent', () =>
+  angularIndex.includes('KdsFileUploadComponent')
+);
+
+// --- 6. Documentation ---
+console.log('\n[Documentation]');
+
+const indexHtml = readFile('packages/web-components/index.html');
+
+test('File upload script imported in index.html', () =>
+  indexHtml.includes('kds-file-upload.ts"></script>')
+);
+
+// --- Summary ---
+console.log(`\n${'='.repeat(40)}`);
+console.log(`Total: ${passed + failed} | Passed: ${passed} | Failed: ${failed}`);
+console.log(`${'='.repeat(40)}\n`);
+
+process.exit(failed > 0 ? 1 : 0);
@@ -290,6 +290,69 @@ test('Alert icon has aria-hidden="true"', () =>
   litSrc.includes('aria-hidden="true"')
 );
 
+test('Is form-associated', () =>
+  litSrc.includes('static formAssociated = true')
+);
+
+test('Attaches ElementInternals', () =>
+  litSrc.includes('attachInternals()')
+);
+
+test('Submits value via setFormValue', () =>
+  litSrc.includes('setFormValue(')
+);
+
+test('Restores default value on form reset', () =>
+  litSrc.includes('formResetCallback()')
+);
+
+test('Restores state via formStateRestoreCallback', () =>
+  litSrc.includes('formStateRestoreCallback(')
+);
+
+test('Reacts to <fieldset disabled>', () =>
+  litSrc.includes('formDisabledCallback(')
+);
+
+test('Exports InputFieldValidator type', () =>
+  litSrc.includes('export type InputFieldValidator')
+);
+
+test('Has minLength/maxLength properties', () =>
+  litSrc.includes("attribute: 'minlength'") && litSrc.includes("attribute: 'maxlength'")
+);
+
+test('Has pattern, min and max properties', () =>
+  litSrc.includes('pattern?: string') && litSrc.includes('min?: string') && litSrc.includes('max?: string')
+);
+
+test('Has validators property', () =>
+  litSrc.includes('validators: InputFieldValidator[]')
+);
+
+test('Implements checkValidity() and reportValidity()', () =>
+  litSrc.includes('checkValidity()') && litSrc.includes('reportValidity()')
+);
+
+test('Exposes validity and validationMessage', () =>
+  litSrc.includes('get validity()') && litSrc.includes('get validationMessage()')
+);
+
+test('Mirrors validity via setValidity', () =>
+  litSrc.includes('setValidity(')
+);
+
+test('Computes validity before render, not in updated()', () =>
+  /override willUpdate\([^)]*\) \{[\s\S]*?this\._updateValidity\(\)/.test(litSrc) &&
+  !/override updated\([^)]*\) \{[^}]*_updateValidity/.test(litSrc) &&
+  !/@state\(\)\s*private _validationMessage/.test(litSrc)
+);
+
+test('checkValidity() does not show the error state', () =>
+  litSrc.includes('if (!this._checkingValidity) this._showValidity = true') &&
+  litSrc.includes('this._checkingValidity = true')
+);
+
 test('Exposes public focus() method', () =>
   litSrc.includes('focus(')
 );
@@ -347,6 +410,10 @@ test('Handles onKdsChange event', () =>
   reactSrc.includes('onKdsChange') && reactSrc.includes('kds-change')
 );
 
+test('Passes validators as a property', () =>
+  reactSrc.includes('el.validators')
+);
+
 test('Handles onKdsHelpClick event', () =>
   reactSrc.includes('onKdsHelpClick') && reactSrc.includes('kds-help-click')
 );
@@ -0,0 +1,227 @@
+/**
+ * @package kds-ai-preview
+ * @description Menu component test suite
+ * @author Kilian Sala <kilian@kapsch.net>
+ *
+ * Validates kds-menu component structure, exports, and integration.
+ * Run: npx tsx scripts/test-menu-component.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+const ROOT = path.resolve(import.meta.dirname, '..');
+let passed = 0;
+let failed = 0;
+
+function test(name: string, fn: () => boolean) {
+  try {
+    if (fn()) {
+      console.log(`  PASS  ${name}`);
+      passed++;
+    } else {
+      console.error(`  FAIL  ${name}`);
+      failed++;
+    }
+  } catch (e: any) {
+    console.error(`  FAIL  ${name} — ${e.message}`);
+    failed++;
+  }
+}
+
+function readFile(relPath: string): string {
+  return fs.readFileSync(path.join(ROOT, relPath), 'utf-8');
+}
+
+function fileExists(relPath: string): boolean {
+  return fs.existsSync(path.join(ROOT, relPath));
+}
+
+console.log('\n=== Menu Component Tests ===\n');
+
+// --- 1. File Existence ---
+console.log('[Files]');
+
+const requiredFiles = [
+  '.figma/menu.figma-contract.json',
+  '.figma/menu.figma-contract.ts',
+  'packages/web-components/src/components/kds-menu.ts',
+  'scripts/validate-menu-contract.ts',
+  'scripts/validate-menu-a11y.ts',
+  'packages/wrappers/react/src/Menu.tsx',
+  'packages/wrappers/angular/src/menu.component.ts',
+  'packages/wrappers/blazor/Components/KdsMenu.razor',
+  'packages/wrappers/blazor/Components/KdsMenuItem.razor',
+  'packages/wrappers/blazor/Components/KdsMenuSeparator.razor',
+];
+
+for (const file of requiredFiles) {
+  test(`File exists: ${file}`, () => fileExists(file));
+}
+
+// --- 2. Contract JSON ---
+console.log('\n[Contract JSON]');
+
+const contractJson = JSON.parse(readFile('.figma/menu.figma-contract.json'));
+
+test('Contract has component name "Dropdown"', () =>
+  contractJson.source?.componentName === 'Dropdown'
+);
+
+test('Contract defines four placements', () =>
+  JSON.stringify(contractJson.properties?.placement?.values) === '["bottom-start","bottom-end","top-start","top-end"]'
+);
+
+test('Contract defines normal, checkbox and radio items', () =>
+  JSON.stringify(contractJson.itemProperties?.type?.values) === '["normal","checkbox","radio"]'
+);
+
+test('Contract is marked as pending Figma data', () =>
+  contractJson._extraction_status?.status === 'PENDING_FIGMA_DATA'
+);
+
+// --- 3. LIT Component ---
+console.log('\n[LIT Component: kds-menu]');
+
+const src = readFile('packages/web-components/src/components/kds-menu.ts');
+
+test('Registers kds-menu, kds-menu-item and kds-menu-separator', () =>
+  src.includes("@customElement('kds-menu')") &&
+  src.includes("@customElement('kds-menu-item')") &&
+  src.includes("@customElement('kds-menu-separator')")
+);
+
+test('Item has icon slot, shortcut hint and submenu slot', () =>
+  src.includes('<slot name="icon"></slot>') &&
+  src.includes('class="shortcut"') &&
+  src.includes('<slot name="submenu"')
+);
+
+test('Checkbox items toggle and radio items uncheck their group', () =>
+  src.includes('item.checked = !item.checked') &&
+  src.includes('other.checked = other === item')
+);
+
+test('Space keeps the menu open for checkable items', () =>
+  src.includes("this._selectItem(item, item.type !== 'normal')")
+);
+
+test('Submenus open on hover after a delay', () =>
+  src.includes('setTimeout(() => this._openSubmenu(item, false), SUBMENU_DELAY)')
+);
+
+test('Ignores items of nested submenus', () =>
+  src.includes("item.closest('kds-menu') === this")
+);
+
+test('Positions with flipping and viewport clamping', () =>
+  src.includes('VIEWPORT_PADDING') &&
+  src.includes("side === 'top'") &&
+  src.includes("align === 'end'") &&
+  src.includes('Math.max(VIEWPORT_PADDING')
+);
+
+test('Closes on outside pointerdown', () =>
+  src.includes("document.addEventListener('pointerdown'") &&
+  src.includes('event.composedPath().includes(this._rootMenu)')
+);
+
+test('Dispatches kds-menu-select with value and checked', () =>
+  src.includes("'kds-menu-select'") &&
+  src.includes('detail: { value: item.value || item.text, checked: item.checked }') &&
+  src.includes('composed: true')
+);
+
+// --- 4. Button integration ---
+console.log('\n[Button integration]');
+
+const button = readFile('packages/web-components/src/components/kds-button.ts');
+
+test('kds-button forwards aria-haspopup and aria-expanded', () =>
+  button.includes('aria-haspopup=${this.ariaHasPopup || nothing}') &&
+  button.includes('aria-expanded=${this.ariaExpanded || nothing}')
+);
+
+test('kds-button delegates focus() to the inner control', () =>
+  button.includes('override focus(options?: FocusOptions)')
+);
+
+// --- 5. React Wrapper ---
+console.log('\n[React Wrapper]');
+
+const reactMenu = readFile('packages/wrappers/react/src/Menu.tsx');
+
+test('Exports Menu, MenuItem and MenuSeparator components', () =>
+  reactMenu.includes('export const Menu ') &&
+  reactMenu.includes('export const MenuItem') &&
+  reactMenu.includes('export const MenuSeparator')
+);
+
+test('Handles select events', () =>
+  reactMenu.includes("'kds-menu-select'") && reactMenu.includes('onSelect')
+);
+
+// --- 6. Angular Wrapper ---
+console.log('\n[Angular Wrapper]');
+
+const angularMenu = readFile('packages/wrappers/angular/src/menu.component.ts');
+
+test('Has KdsMenuComponent, KdsMenuItemComponent and KdsMenuSeparatorComponent', () =>
+  angularMenu.includes('export class KdsMenuComponent') &&
+  angularMenu.includes('export class KdsMenuItemComponent') &&
+  angularMenu.includes('export class KdsMenuSeparatorComponent')
+);
+
+test('Emits menuSelect', () =>
+  angularMenu.includes('@Output() menuSelect')
+);
+
+// --- 7. Blazor Wrapper ---
+console.log('\n[Blazor Wrapper]');
+
+const blazorMenu = readFile('packages/wrappers/blazor/Components/KdsMenu.razor');
+const blazorJs = readFile('packages/wrappers/blazor/wwwroot/kds-blazor.js');
+
+test('Renders kds-menu element with OnSelect', () =>
+  blazorMenu.includes('<kds-menu') && blazorMenu.includes('public EventCallback<string> OnSelect')
+);
+
+test('kds-blazor.js has menu listener functions', () =>
+  blazorJs.includes('attachMenuListener') && blazorJs.includes('detachMenuListener')
+);
+
+// --- 8. Index Exports ---
+console.log('\n[Index Exports]');
+
+const wcIndex = readFile('packages/web-components/src/index.ts');
+const reactIndex = readFile('packages/wrappers/react/src/index.ts');
+const angularIndex = readFile('packages/wrappers/angular/src/index.ts');
+
+test('Web components index exports KdsMenu, KdsMenuItem and KdsMenuSeparator', () =>
+  wcIndex.includes("export { KdsMenu, KdsMenuItem, KdsMenuSeparator } from './components/kds-menu.js'") &&
+  wcIndex.includes('MenuPlacement')
+);
+
+test('React index exports Menu, MenuItem and MenuSeparator', () =>
+  reactIndex.includes("export { Menu, MenuItem, MenuSeparator } from './Menu.js'")
+);
+
+test('Angular index exports KdsMenuComponent', () =>
+  angularIndex.includes('KdsMenuComponent')
+);
+
+// --- 9. Documentation ---
+console.log('\n[Documentation]');
+
+const indexHtml = readFile('packages/web-components/index.html');
+
+test('Menu script imported in index.html', () =>
+  indexHtml.includes('kds-menu.ts"></script>')
+);
+
+// --- Summary ---
+console.log(`\n${'='.repeat(40)}`);
+console.log(`Total: ${passed + failed} | Passed: ${passed} | Failed: ${failed}`);
+console.log(`${'='.repeat(40)}\n`);
+
+process.exit(failed > 0 ? 1 : 0);
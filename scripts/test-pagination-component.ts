@@ -0,0 +1,225 @@
+/**
+ * @package kds-ai-preview
+ * @description Pagination component test suite
+ * @author Kilian Sala <kilian@kapsch.net>
+ *
+ * Validates kds-pagination component structure, exports, and integration.
+ * Run: npx tsx scripts/test-pagination-component.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+const ROOT = path.resolve(import.meta.dirname, '..');
+let passed = 0;
+let failed = 0;
+
+function test(name: string, fn: () => boolean) {
+  try {
+    if (fn()) {
+      console.log(`  PASS  ${name}`);
+      passed++;
+    } else {
+      console.error(`  FAIL  ${name}`);
+      failed++;
+    }
+  } catch (e: any) {
+    console.error(`  FAIL  ${name} — ${e.message}`);
+    failed++;
+  }
+}
+
+function readFile(relPath: string): string {
+  return fs.readFileSync(path.join(ROOT, relPath), 'utf-8');
+}
+
+function fileExists(relPath: string): boolean {
+  return fs.existsSync(path.join(ROOT, relPath));
+}
+
+console.log('\n=== Pagination Component Tests ===\n');
+
+// --- 1. File Existence ---
+console.log('[Files]');
+
+const requiredFiles = [
+  '.figma/pagination.figma-contract.json',
+  '.figma/pagination.figma-contract.ts',
+  'packages/web-components/src/components/kds-pagination.ts',
+  'scripts/validate-pagination-contract.ts',
+  'scripts/validate-pagination-a11y.ts',
+  'packages/wrappers/react/src/Pagination.tsx',
+  'packages/wrappers/angular/src/pagination.component.ts',
+  'packages/wrappers/blazor/Components/KdsPagination.razor',
+];
+
+for (const file of requiredFiles) {
+  test(`File exists: ${file}`, () => fileExists(file));
+}
+
+// --- 2. Contract JSON ---
+console.log('\n[Contract JSON]');
+
+const contractJson = JSON.parse(readFile('.figma/pagination.figma-contract.json'));
+
+test('Contract has component name "Pagination"', () =>
+  contractJson.source?.componentName === 'Pagination'
+);
+
+test('Contract defines page, page size and first/last controls', () =>
+  contractJson.properties?.page?.default === 1 &&
+  contractJson.properties?.pageSize?.default === 10 &&
+  contractJson.properties?.showFirstLast?.default === false
+);
+
+test('Contract is marked as pending Figma data', () =>
+  contractJson._extraction_status?.status === 'PENDING_FIGMA_DATA'
+);
+
+// --- 3. LIT Component ---
+console.log('\n[LIT Component: kds-pagination]');
+
+const src = readFile('packages/web-components/src/components/kds-pagination.ts');
+const itemSrc = readFile('packages/web-components/src/components/kds-button-group.ts');
+
+test('Registers kds-pagination', () =>
+  src.includes("@customElement('kds-pagination')")
+);
+
+test('Renders the pages as button group items inside a nav landmark', () =>
+  src.includes("<nav aria-label=${this.ariaLabel || 'Pagination'}>") &&
+  src.includes('<kds-button-group part="pages"') &&
+  src.includes('<kds-button-group-item')
+);
+
+test('Marks the current page with aria-current="page"', () =>
+  src.includes("aria-current=${current ? 'page' : nothing}") &&
+  src.includes('?selected=${current}')
+);
+
+test('Button group items support aria-current in place of aria-pressed', () =>
+  itemSrc.includes("@property({ type: String, attribute: 'aria-current' })") &&
+  itemSrc.includes('const isPressed = this.pressable && !isRadio && !isCurrentItem;') &&
+  itemSrc.includes('aria-pressed=${ifDefined(isPressed ? String(this.selected) : undefined)}')
+);
+
+test('Page and control buttons are not toggle buttons', () =>
+  (src.match(/\.pressable=\$\{false\}/g) || []).length === 2 &&
+  !src.includes("'false'")
+);
+
+test('Collapses long ranges around the first, current and last page', () =>
+  src.includes('if (count <= siblings * 2 + 5) return range(1, count);') &&
+  src.includes("start > 3 ? 'start-ellipsis' : 2") &&
+  src.includes("end < count - 2 ? 'end-ellipsis' : count - 1")
+);
+
+test('Renders previous/next and optional first/last controls', () =>
+  src.includes("this._renderControl('previous', atStart)") &&
+  src.includes("this._renderControl('next', atEnd)") &&
+  src.includes("this.showFirstLast ? this._renderControl('first', atStart) : nothing")
+);
+
+test('Derives the page count from total and page size', () =>
+  src.includes('Math.max(Math.ceil(this.total / size), 1)')
+);
+
+test('Clamps the page to the page count', () =>
+  src.includes('Math.min(Math.max(Math.floor(this.page) || 1, 1), this._pageCount)')
+);
+
+test('Page size selector is a kds-select that keeps the first item in view', () =>
+  src.includes('<kds-select') &&
+  src.includes('@kds-select-change=${this._handlePageSizeChange}') &&
+  src.includes('this.page = Math.floor(firstItem / pageSize) + 1')
+);
+
+test('Keeps the item events inside and dispatches kds-page-change', () =>
+  src.includes('event.stopPropagation();\n    const item = event.target as KdsButtonGroupItem;') &&
+  src.includes("'kds-page-change'") &&
+  src.includes('composed: true')
+);
+
+// --- 4. React Wrapper ---
+console.log('\n[React Wrapper]');
+
+const reactPagination = readFile('packages/wrappers/react/src/Pagination.tsx');
+
+test('Exports Pagination component', () =>
+  reactPagination.includes('export const Pagination')
+);
+
+test('Handles page change events', () =>
+  reactPagination.includes("'kds-page-change'") && reactPagination.includes('onPageChange')
+);
+
+test('Sets the page size choices as a property', () =>
+  reactPagination.includes('pagination.pageSizes = pageSizes')
+);
+
+// --- 5. Angular Wrapper ---
+console.log('\n[Angular Wrapper]');
+
+const angularPagination = readFile('packages/wrappers/angular/src/pagination.component.ts');
+
+test('Has KdsPaginationComponent', () =>
+  angularPagination.includes('export class KdsPaginationComponent')
+);
+
+test('Emits pageChange', () =>
+  angularPagination.includes('@Output() pageChange')
+);
+
+// --- 6. Blazor Wrapper ---
+console.log('\n[Blazor Wrapper]');
+
+const blazorPagination = readFile('packages/wrappers/blazor/Components/KdsPagination.razor');
+const blazorJs = readFile('packages/wrappers/blazor/wwwroot/kds-blazor.js');
+
+test('Renders kds-pagination element with two-way bound page and page size', () =>
+  blazorPagination.includes('<kds-pagination') &&
+  blazorPagination.includes('public EventCallback<int> PageChanged') &&
+  blazorPagination.includes('public EventCallback<int> PageSizeChanged')
+);
+
+test('kds-blazor.js has pagination functions', () =>
+  blazorJs.includes('attachPaginationListener') &&
+  blazorJs.includes('detachPaginationListener') &&
+  blazorJs.includes('setPaginationValues')
+);
+
+// --- 7. Index Exports ---
+console.log('\n[Index Exports]');
+
+const wcIndex = readFile('packages/web-components/src/index.ts');
+const reactIndex = readFile('packages/wrappers/react/src/index.ts');
+const angularIndex = readFile('packages/wrappers/angular/src/index.ts');
+
+test('Web components index exports KdsPagination', () =>
+  wcIndex.includes("export { KdsPagination } from './components/kds-pagination.js'") &&
+  wcIndex.includes('PageChangeDetail')
+);
+
+test('React index exports Pagination', () =>
+  reactIndex.includes("export { Pagination } from './Pagination.js'")
+);
+
+test('Angular index exports KdsPaginationComponent', () =>
+  angularIndex.includes('KdsPaginationComponent')
+);
+
+// --- 8. Documentation ---
+console.log('\n[Documentation]');
+
+const indexHtml = readFile('packages/web-components/index.html');
+
+test('Pagination script imported in index.html', () =>
+  indexHtml.includes('kds-pagination.ts"></script>')
+);
+
+// --- Summary ---
+console.log(`\n${'='.repeat(40)}`);
+console.log(`Total: ${passed + failed} | Passed: ${passed} | Failed: ${failed}`);
+console.log(`${'='.repeat(40)}\n`);
+
+process.exit(failed > 0 ? 1 : 0);
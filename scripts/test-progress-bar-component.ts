@@ -0,0 +1,173 @@
+/**
+ * @package kds-ai-preview
+ * @description Progress bar component test suite
+ * @author Kilian Sala <kilian@kapsch.net>
+ *
+ * Validates kds-progress-bar component structure, exports, and integration.
+ * Run: npx tsx scripts/test-progress-bar-component.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+const ROOT = path.resolve(import.meta.dirname, '..');
+let passed = 0;
+let failed = 0;
+
+function test(name: string, fn: () => boolean) {
+  try {
+    if (fn()) {
+      console.log(`  PASS  ${name}`);
+      passed++;
+    } else {
+      console.error(`  FAIL  ${name}`);
+      failed++;
+    }
+  } catch (e: any) {
+    console.error(`  FAIL  ${name} — ${e.message}`);
+    failed++;
+  }
+}
+
+function readFile(relPath: string): string {
+  return fs.readFileSync(path.join(ROOT, relPath), 'utf-8');
+}
+
+function fileExists(relPath: string): boolean {
+  return fs.existsSync(path.join(ROOT, relPath));
+}
+
+console.log('\n=== Progress Bar Component Tests ===\n');
+
+// --- 1. File Existence ---
+console.log('[Files]');
+
+const requiredFiles = [
+  '.figma/progress-bar.figma-contract.json',
+  '.figma/progress-bar.figma-contract.ts',
+  'packages/web-components/src/components/kds-progress-bar.ts',
+  'scripts/validate-progress-bar-contract.ts',
+  'scripts/validate-progress-bar-a11y.ts',
+  'packages/wrappers/react/src/ProgressBar.tsx',
+  'packages/wrappers/angular/src/progress-bar.component.ts',
+  'packages/wrappers/blazor/Components/KdsProgressBar.razor',
+];
+
+for (const file of requiredFiles) {
+  test(`File exists: ${file}`, () => fileExists(file));
+}
+
+// --- 2. Contract JSON ---
+console.log('\n[Contract JSON]');
+
+const contractJson = JSON.parse(readFile('.figma/progress-bar.figma-contract.json'));
+
+test('Contract has component name "Progress bar"', () =>
+  contractJson.source?.componentName === 'Progress bar'
+);
+
+test('Contract defines brand and error variants', () =>
+  JSON.stringify(contractJson.properties?.variant?.values) === '["brand","error"]'
+);
+
+test('Contract defines none, right and bottom value positions', () =>
+  JSON.stringify(contractJson.properties?.valuePosition?.values) === '["none","right","bottom"]'
+);
+
+test('Contract is marked as pending Figma data', () =>
+  contractJson._extraction_status?.status === 'PENDING_FIGMA_DATA'
+);
+
+// --- 3. LIT Component ---
+console.log('\n[LIT Component: kds-progress-bar]');
+
+const src = readFile('packages/web-components/src/components/kds-progress-bar.ts');
+
+test('Registers kds-progress-bar', () =>
+  src.includes("@customElement('kds-progress-bar')")
+);
+
+test('Clamps progress to 0-100% and guards against max <= 0', () =>
+  src.includes('if (!(this.max > 0)) return 0') &&
+  src.includes('Math.min(Math.max(this.value / this.max, 0), 1)')
+);
+
+test('Renders label and percentage text', () =>
+  src.includes('class="label" id="label"') && src.includes('${percent}%</span>')
+);
+
+test('Indeterminate bar animates and hides the value', () =>
+  src.includes('@keyframes kds-progress-indeterminate') &&
+  src.includes("const showValue = !this.indeterminate && this.valuePosition !== 'none'")
+);
+
+test('Uses brand and error color tokens', () =>
+  src.includes('var(--kds-color-brand-600, #7F56D9)') && src.includes('var(--kds-color-error-600, #D92D20)')
+);
+
+// --- 4. React Wrapper ---
+console.log('\n[React Wrapper]');
+
+const reactProgressBar = readFile('packages/wrappers/react/src/ProgressBar.tsx');
+
+test('Exports ProgressBar component', () =>
+  reactProgressBar.includes('export const ProgressBar')
+);
+
+test('Maps valuePosition to the value-position attribute', () =>
+  reactProgressBar.includes("'value-position': valuePosition")
+);
+
+// --- 5. Angular Wrapper ---
+console.log('\n[Angular Wrapper]');
+
+const angularProgressBar = readFile('packages/wrappers/angular/src/progress-bar.component.ts');
+
+test('Has KdsProgressBarComponent', () =>
+  angularProgressBar.includes('export class KdsProgressBarComponent')
+);
+
+// --- 6. Blazor Wrapper ---
+console.log('\n[Blazor Wrapper]');
+
+const blazorProgressBar = readFile('packages/wrappers/blazor/Components/KdsProgressBar.razor');
+
+test('Renders kds-progress-bar element', () =>
+  blazorProgressBar.includes('<kds-progress-bar') && blazorProgressBar.includes('public double Value')
+);
+
+// --- 7. Index Exports ---
+console.log('\n[Index Exports]');
+
+const wcIndex = readFile('packages/web-components/src/index.ts');
+const reactIndex = readFile('packages/wrappers/react/src/index.ts');
+const angularIndex = readFile('packages/wrappers/angular/src/index.ts');
+
+test('Web components index exports KdsProgressBar', () =>
+  wcIndex.includes("export { KdsProgressBar } from './components/kds-progress-bar.js'") &&
+  wcIndex.includes('ProgressVariant')
+);
+
+test('React index exports ProgressBar', () =>
+  reactIndex.includes("export { ProgressBar } from './ProgressBar.js'")
+);
+
+test('Angular index exports KdsProgressBarComponent', () =>
+  angularIndex.includes('KdsProgressBarComponent')
+);
+
+// --- 8. Documentation ---
+console.log('\n[Documentation]');
+
+const indexHtml = readFile('packages/web-components/index.html');
+
+test('Progress bar script imported in index.html', () =>
+  indexHtml.includes('kds-progress-bar.ts"></script>')
+);
+
+// --- Summary ---
+console.log(`\n${'='.repeat(40)}`);
+console.log(`Total: ${passed + failed} | Passed: ${passed} | Failed: ${failed}`);
+console.log(`${'='.repeat(40)}\n`);
+
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,281 @@
+/**
+ * @package kds-ai-preview
+ * @description Radio component test suite
+ * @author Kilian Sala <kilian@kapsch.net>
+ *
+ * Validates kds-radio and kds-radio-group component structure, exports, and integration.
+ * Run: npx tsx scripts/test-radio-component.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+const ROOT = path.resolve(import.meta.dirname, '..');
+let passed = 0;
+let failed = 0;
+
+function test(name: string, fn: () => boolean) {
+  try {
+    if (fn()) {
+      console.log(`  PASS  ${name}`);
+      passed++;
+    } else {
+      console.error(`  FAIL  ${name}`);
+      failed++;
+    }
+  } catch (e: any) {
+    console.error(`  FAIL  ${name} — ${e.message}`);
+    failed++;
+  }
+}
+
+function readFile(relPath: string): string {
+  return fs.readFileSync(path.join(ROOT, relPath), 'utf-8');
+}
+
+function fileExists(relPath: string): boolean {
+  return fs.existsSync(path.join(ROOT, relPath));
+}
+
+console.log('\n=== Radio Component Tests ===\n');
+
+// --- 1. File Existence ---
+console.log('[Files]');
+
+const requiredFiles = [
+  '.figma/radio.figma-contract.json',
+  '.figma/radio.figma-contract.ts',
+  'packages/web-components/src/components/kds-radio.ts',
+  'packages/web-components/src/components/kds-radio-group.ts',
+  'scripts/validate-radio-contract.ts',
+  'scripts/validate-radio-a11y.ts',
+  'packages/wrappers/react/src/Radio.tsx',
+  'packages/wrappers/react/src/RadioGroup.tsx',
+  'packages/wrappers/angular/src/radio.component.ts',
+  'packages/wrappers/angular/src/radio-group.component.ts',
+  'packages/wrappers/blazor/Components/KdsRadio.razor',
+  'packages/wrappers/blazor/Components/KdsRadioGroup.razor',
+];
+
+for (const file of requiredFiles) {
+  test(`File exists: ${file}`, () => fileExists(file));
+}
+
+// --- 2. Contract JSON ---
+console.log('\n[Contract JSON]');
+
+const contractJson = JSON.parse(readFile('.figma/radio.figma-contract.json'));
+
+test('Contract has component name "Radio"', () =>
+  contractJson.source?.componentName === 'Radio'
+);
+
+test('Contract size matches Checkbox sizes', () => {
+  const values = contractJson.properties?.size?.values;
+  return Array.isArray(values) && values.join(',') === 'sm,md';
+});
+
+test('Contract has no indeterminate property', () =>
+  !('indeterminate' in (contractJson.properties ?? {}))
+);
+
+test('Contract defines the Radio group orientation', () => {
+  const values = contractJson.group?.properties?.orientation?.values;
+  return Array.isArray(values) && values.includes('vertical') && values.includes('horizontal');
+});
+
+test('Contract is marked as pending Figma data', () =>
+  contractJson._extraction_status?.status === 'PENDING_FIGMA_DATA'
+);
+
+// --- 3. LIT Component: kds-radio ---
+console.log('\n[LIT Component: kds-radio]');
+
+const radioSrc = readFile('packages/web-components/src/components/kds-radio.ts');
+
+test('Registered as kds-radio custom element', () =>
+  radioSrc.includes("@customElement('kds-radio')")
+);
+
+test('RadioSize matches CheckboxSize', () =>
+  radioSrc.includes('export type RadioSize = CheckboxSize')
+);
+
+test('Is form-associated', () =>
+  radioSrc.includes('static formAssociated = true') && radioSrc.includes('this.attachInternals()')
+);
+
+test('Submits its value only when checked', () =>
+  radioSrc.includes('setFormValue(this.checked ? this.value : null')
+);
+
+test('Restores checked state on form reset', () =>
+  radioSrc.includes('formResetCallback()') && radioSrc.includes('this.checked = this.defaultChecked')
+);
+
+test('Required sets report valueMissing', () =>
+  radioSrc.includes('valueMissing: true') && radioSrc.includes('radios.some((radio) => radio.required)')
+);
+
+test('Checking a radio unchecks the rest of its set', () =>
+  radioSrc.includes('if (radio !== this) radio.checked = false')
+);
+
+test('Set is the enclosing group or radios sharing a name in the same form', () =>
+  radioSrc.includes("this.closest('kds-radio-group')") && radioSrc.includes('radio.form === this.form')
+);
+
+test('Uses roving tabindex', () =>
+  radioSrc.includes('tabindex=${ifDefined(this.rovingTabIndex)}')
+);
+
+test('Arrow keys move selection and wrap around', () =>
+  radioSrc.includes("case 'ArrowDown'") &&
+  radioSrc.includes("case 'ArrowUp'") &&
+  radioSrc.includes('(next + radios.length) % radios.length')
+);
+
+test('Dispatches kds-radio-change', () =>
+  radioSrc.includes("'kds-radio-change'")
+);
+
+// --- 4. LIT Component: kds-radio-group ---
+console.log('\n[LIT Component: kds-radio-group]');
+
+const groupSrc = readFile('packages/web-components/src/components/kds-radio-group.ts');
+
+test('Registered as kds-radio-group custom element', () =>
+  groupSrc.includes("@customElement('kds-radio-group')")
+);
+
+test('Exports RadioGroupOrientation type', () =>
+  groupSrc.includes("export type RadioGroupOrientation = 'vertical' | 'horizontal'")
+);
+
+test('Has role="radiogroup"', () =>
+  groupSrc.includes('role="radiogroup"')
+);
+
+test('Has value: string property', () =>
+  groupSrc.includes("value = ''")
+);
+
+test('Form reset resyncs value from the options', () =>
+  radioSrc.includes("new CustomEvent('kds-radio-reset'") &&
+  groupSrc.includes('@kds-radio-reset=${this._handleOptionReset}') &&
+  /_handleOptionReset\(event: CustomEvent\) \{[\s\S]*?this\.value = this\._checkedValue\(radios\);/.test(groupSrc) &&
+  !groupSrc.includes("closest('form')") && !groupSrc.includes('setTimeout')
+);
+
+test('Dispatches kds-radio-group-change', () =>
+  groupSrc.includes("'kds-radio-group-change'") && groupSrc.includes('detail: { value }')
+);
+
+test('Applies size, name and required to the options', () =>
+  groupSrc.includes('radio.size = this.size') &&
+  groupSrc.includes('radio.name = this.name') &&
+  groupSrc.includes('radio.required = this.required')
+);
+
+// --- 5. React Wrappers ---
+console.log('\n[React Wrappers]');
+
+const reactRadio = readFile('packages/wrappers/react/src/Radio.tsx');
+const reactGroup = readFile('packages/wrappers/react/src/RadioGroup.tsx');
+
+test('Exports Radio component', () =>
+  reactRadio.includes('export const Radio') && reactRadio.includes("'kds-radio'")
+);
+
+test('Radio handles onChange event', () =>
+  reactRadio.includes('kds-radio-change')
+);
+
+test('Exports RadioGroup component', () =>
+  reactGroup.includes('export const RadioGroup') && reactGroup.includes("'kds-radio-group'")
+);
+
+test('RadioGroup handles onChange event', () =>
+  reactGroup.includes('kds-radio-group-change')
+);
+
+// --- 6. Angular Wrappers ---
+console.log('\n[Angular Wrappers]');
+
+const angularRadio = readFile('packages/wrappers/angular/src/radio.component.ts');
+const angularGroup = readFile('packages/wrappers/angular/src/radio-group.component.ts');
+
+test('Has KdsRadioComponent class with radioChange output', () =>
+  angularRadio.includes('export class KdsRadioComponent') && angularRadio.includes('radioChange')
+);
+
+test('Has KdsRadioGroupComponent class with radioGroupChange output', () =>
+  angularGroup.includes('export class KdsRadioGroupComponent') && angularGroup.includes('radioGroupChange')
+);
+
+test('Angular wrappers are standalone', () =>
+  angularRadio.includes('standalone: true') && angularGroup.includes('standalone: true')
+);
+
+// --- 7. Blazor Wrappers ---
+console.log('\n[Blazor Wrappers]');
+
+const blazorRadio = readFile('packages/wrappers/blazor/Components/KdsRadio.razor');
+const blazorGroup = readFile('packages/wrappers/blazor/Components/KdsRadioGroup.razor');
+const blazorJs = readFile('packages/wrappers/blazor/wwwroot/kds-blazor.js');
+
+test('Renders kds-radio element', () =>
+  blazorRadio.includes('<kds-radio')
+);
+
+test('Radio group has Value and ValueChanged parameters', () =>
+  blazorGroup.includes('public string? Value') && blazorGroup.includes('EventCallback<string> ValueChanged')
+);
+
+test('kds-blazor.js has radio listener functions', () =>
+  blazorJs.includes('attachRadioListener') &&
+  blazorJs.includes('detachRadioListener') &&
+  blazorJs.includes('attachRadioGroupListener') &&
+  blazorJs.includes('detachRadioGroupListener') &&
+  blazorJs.includes('setRadioGroupValue')
+);
+
+// --- 8. Index Exports ---
+console.log('\n[Index Exports]');
+
+const wcIndex = readFile('packages/web-components/src/index.ts');
+const reactIndex = readFile('packages/wrappers/react/src/index.ts');
+const angularIndex = readFile('packages/wrappers/angular/src/index.ts');
+
+test('Web components index exports KdsRadio and KdsRadioGroup', () =>
+  wcIndex.includes("export { KdsRadio } from './components/kds-radio.js'") &&
+  wcIndex.includes("export { KdsRadioGroup } from './components/kds-radio-group.js'")
+);
+
+test('Web components index exports RadioSize and RadioGroupOrientation types', () =>
+  wcIndex.includes('RadioSize') && wcIndex.includes('RadioGroupOrientation')
+);
+
+test('React index exports Radio and RadioGroup', () =>
+  reactIndex.includes("from './Radio.js'") && reactIndex.includes("from './RadioGroup.js'")
+);
+
+test('Angular index exports KdsRadioComponent and KdsRadioGroupComponent', () =>
+  angularIndex.includes('KdsRadioComponent') && angularIndex.includes('KdsRadioGroupComponent')
+);
+
+// --- 9. Documentation ---
+console.log('\n[Documentation]');
+
+const indexHtml = readFile('packages/web-components/index.html');
+
+test('Radio scripts imported in index.html', () =>
+  indexHtml.includes('kds-radio.ts"></script>') && indexHtml.includes('kds-radio-group.ts"></script>')
+);
+
+// --- Summary ---
+console.log(`\n${'='.repeat(40)}`);
+console.log(`Total: ${passed + failed} | Passed: ${passed} | Failed: ${failed}`);
+console.log(`${'='.repeat(40)}\n`);
+
+process.exit(failed > 0 ? 1 : 0);
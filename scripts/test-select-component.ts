@@ -0,0 +1,271 @@
+/**
+ * @package kds-ai-preview
+ * @description Select component test suite
+ * @author Kilian Sala <kilian@kapsch.net>
+ *
+ * Validates kds-select, kds-option and kds-option-group component structure, exports, and integration.
+ * Run: npx tsx scripts/test-select-component.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+const ROOT = path.resolve(import.meta.dirname, '..');
+let passed = 0;
+let failed = 0;
+
+function test(name: string, fn: () => boolean) {
+  try {
+    if (fn()) {
+      console.log(`  PASS  ${name}`);
+      passed++;
+    } else {
+      console.error(`  FAIL  ${name}`);
+      failed++;
+    }
+  } catch (e: any) {
+    console.error(`  FAIL  ${name} — ${e.message}`);
+    failed++;
+  }
+}
+
+function readFile(relPath: string): string {
+  return fs.readFileSync(path.join(ROOT, relPath), 'utf-8');
+}
+
+function fileExists(relPath: string): boolean {
+  return fs.existsSync(path.join(ROOT, relPath));
+}
+
+console.log('\n=== Select Component Tests ===\n');
+
+// --- 1. File Existence ---
+console.log('[Files]');
+
+const requiredFiles = [
+  '.figma/select.figma-contract.json',
+  '.figma/select.figma-contract.ts',
+  'packages/web-components/src/components/kds-select.ts',
+  'scripts/validate-select-contract.ts',
+  'scripts/validate-select-a11y.ts',
+  'packages/wrappers/react/src/Select.tsx',
+  'packages/wrappers/angular/src/select.component.ts',
+  'packages/wrappers/blazor/Components/KdsSelect.razor',
+  'packages/wrappers/blazor/Components/KdsOption.razor',
+  'packages/wrappers/blazor/Components/KdsOptionGroup.razor',
+];
+
+for (const file of requiredFiles) {
+  test(`File exists: ${file}`, () => fileExists(file));
+}
+
+// --- 2. Contract JSON ---
+console.log('\n[Contract JSON]');
+
+const contractJson = JSON.parse(readFile('.figma/select.figma-contract.json'));
+
+test('Contract has component name "Select"', () =>
+  contractJson.source?.componentName === 'Select'
+);
+
+test('Contract defines option properties', () =>
+  'selected' in (contractJson.option?.properties ?? {}) &&
+  'disabled' in (contractJson.option?.properties ?? {})
+);
+
+test('Contract reuses Input field focus ring', () =>
+  contractJson.designTokens?.colors?.['focus-ring'] === '#F4EBFF' &&
+  contractJson.designTokens?.colors?.['border-focused'] === '#D6BBFB'
+);
+
+test('Contract is marked as pending Figma data', () =>
+  contractJson._extraction_status?.status === 'PENDING_FIGMA_DATA'
+);
+
+// --- 3. LIT Component: kds-select ---
+console.log('\n[LIT Component: kds-select]');
+
+const selectSrc = readFile('packages/web-components/src/components/kds-select.ts');
+
+test('Registers kds-select, kds-option and kds-option-group', () =>
+  selectSrc.includes("@customElement('kds-select')") &&
+  selectSrc.includes("@customElement('kds-option')") &&
+  selectSrc.includes("@customElement('kds-option-group')")
+);
+
+test('Is form-associated', () =>
+  selectSrc.includes('static formAssociated = true') && selectSrc.includes('this.attachInternals()')
+);
+
+test('Multiple values are submitted as repeated entries', () =>
+  selectSrc.includes('data.append(this.name, value)')
+);
+
+test('Restores the initial selection on form reset', () =>
+  selectSrc.includes('formResetCallback()') && selectSrc.includes('this.values = [...this._defaultValues]')
+);
+
+test('Required selects report valueMissing', () =>
+  selectSrc.includes('valueMissing: true') && selectSrc.includes('this.required && !this.values.length')
+);
+
+test('Has value and values properties', () =>
+  selectSrc.includes("value = ''") && selectSrc.includes('values: string[] = []')
+);
+
+test('Single mode keeps at most one value', () =>
+  selectSrc.includes('!this.multiple && this.values.length > 1')
+);
+
+test('Initial selection comes from selected options', () =>
+  selectSrc.includes('item.option.selected')
+);
+
+test('Implements the combobox pattern', () =>
+  selectSrc.includes('role="combobox"') &&
+  selectSrc.includes('aria-haspopup="listbox"') &&
+  selectSrc.includes('aria-activedescendant=')
+);
+
+test('Renders listbox, options and groups', () =>
+  selectSrc.includes('role="listbox"') &&
+  selectSrc.includes('role="option"') &&
+  selectSrc.includes('role="group"')
+);
+
+test('Group disabled state disables its options', () =>
+  selectSrc.includes("option.closest('kds-option-group')") && selectSrc.includes('!!group?.disabled')
+);
+
+test('Supports typeahead', () =>
+  selectSrc.includes('TYPEAHEAD_TIMEOUT') && selectSrc.includes('_findTypeaheadMatch')
+);
+
+test('Escape closes without changing the selection', () =>
+  /case 'Escape':\s+event\.preventDefault\(\);\s+this\._hide\(\);/.test(selectSrc)
+);
+
+test('Listbox uses fixed positioning with viewport collision handling', () =>
+  selectSrc.includes('position: fixed') && selectSrc.includes('VIEWPORT_PADDING')
+);
+
+test('Closes on outside pointerdown', () =>
+  selectSrc.includes("addEventListener('pointerdown'") && selectSrc.includes('composedPath().includes(this)')
+);
+
+test('Inline trigger inside kds-input-field dropdown slots', () =>
+  selectSrc.includes("this.slot === 'leading-dropdown'") &&
+  selectSrc.includes("this.slot === 'trailing-dropdown'")
+);
+
+test('Reuses kds-input-field custom properties', () =>
+  selectSrc.includes('var(--kds-input-border, #D5D7DA)') &&
+  selectSrc.includes('var(--kds-input-border-focused, #D6BBFB)')
+);
+
+test('Dispatches kds-select-change with value and values', () =>
+  selectSrc.includes("'kds-select-change'") && selectSrc.includes('detail: { value: values[0] ??')
+);
+
+// --- 4. kds-input-field integration ---
+console.log('\n[kds-input-field integration]');
+
+const inputFieldSrc = readFile('packages/web-components/src/components/kds-input-field.ts');
+
+test('Phone example uses kds-select in the leading-dropdown slot', () =>
+  inputFieldSrc.includes('<kds-select slot="leading-dropdown"')
+);
+
+// --- 5. React Wrappers ---
+console.log('\n[React Wrappers]');
+
+const reactSelect = readFile('packages/wrappers/react/src/Select.tsx');
+
+test('Exports Select, Option and OptionGroup', () =>
+  reactSelect.includes('export const Select') &&
+  reactSelect.includes('export const Option') &&
+  reactSelect.includes('export const OptionGroup')
+);
+
+test('Select handles onChange event', () =>
+  reactSelect.includes('kds-select-change')
+);
+
+test('Select sets values as a property', () =>
+  reactSelect.includes('select.values = values')
+);
+
+// --- 6. Angular Wrappers ---
+console.log('\n[Angular Wrappers]');
+
+const angularSelect = readFile('packages/wrappers/angular/src/select.component.ts');
+
+test('Has KdsSelectComponent class with selectChange output', () =>
+  angularSelect.includes('export class KdsSelectComponent') && angularSelect.includes('selectChange')
+);
+
+test('Has KdsOptionComponent and KdsOptionGroupComponent classes', () =>
+  angularSelect.includes('export class KdsOptionComponent') &&
+  angularSelect.includes('export class KdsOptionGroupComponent')
+);
+
+test('Angular wrappers are standalone', () =>
+  (angularSelect.match(/standalone: true/g) ?? []).length === 3
+);
+
+// --- 7. Blazor Wrappers ---
+console.log('\n[Blazor Wrappers]');
+
+const blazorSelect = readFile('packages/wrappers/blazor/Components/KdsSelect.razor');
+const blazorJs = readFile('packages/wrappers/blazor/wwwroot/kds-blazor.js');
+
+test('Renders kds-select element', () =>
+  blazorSelect.includes('<kds-select')
+);
+
+test('Select has Values and ValuesChanged parameters', () =>
+  blazorSelect.includes('public string[]? Values') && blazorSelect.includes('EventCallback<string[]> ValuesChanged')
+);
+
+test('kds-blazor.js has select listener functions', () =>
+  blazorJs.includes('attachSelectListener') &&
+  blazorJs.includes('detachSelectListener') &&
+  blazorJs.includes('setSelectValues')
+);
+
+// --- 8. Index Exports ---
+console.log('\n[Index Exports]');
+
+const wcIndex = readFile('packages/web-components/src/index.ts');
+const reactIndex = readFile('packages/wrappers/react/src/index.ts');
+const angularIndex = readFile('packages/wrappers/angular/src/index.ts');
+
+test('Web components index exports KdsSelect, KdsOption and KdsOptionGroup', () =>
+  wcIndex.includes("export { KdsSelect, KdsOption, KdsOptionGroup } from './components/kds-select.js'")
+);
+
+test('React index exports Select, Option and OptionGroup', () =>
+  reactIndex.includes("export { Select, Option, OptionGroup } from './Select.js'")
+);
+
+test('Angular index exports the select components', () =>
+  angularIndex.includes('KdsSelectComponent') &&
+  angularIndex.includes('KdsOptionComponent') &&
+  angularIndex.includes('KdsOptionGroupComponent')
+);
+
+// --- 9. Documentation ---
+console.log('\n[Documentation]');
+
+const indexHtml = readFile('packages/web-components/index.html');
+
+test('Select script imported in index.html', () =>
+  indexHtml.includes('kds-select.ts"></script>')
+);
+
+// --- Summary ---
+console.log(`\n${'='.repeat(40)}`);
+console.log(`Total: ${passed + failed} | Passed: ${passed} | Failed: ${failed}`);
+console.log(`${'='.repeat(40)}\n`);
+
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,222 @@
+/**
+ * @package kds-ai-preview
+ * @description Slider component test suite
+ * @author Kilian Sala <kilian@kapsch.net>
+ *
+ * Validates kds-slider component structure, exports, and integration.
+ * Run: npx tsx scripts/test-slider-component.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+const ROOT = path.resolve(import.meta.dirname, '..');
+let passed = 0;
+let failed = 0;
+
+function test(name: string, fn: () => boolean) {
+  try {
+    if (fn()) {
+      console.log(`  PASS  ${name}`);
+      passed++;
+    } else {
+      console.error(`  FAIL  ${name}`);
+      failed++;
+    }
+  } catch (e: any) {
+    console.error(`  FAIL  ${name} — ${e.message}`);
+    failed++;
+  }
+}
+
+function readFile(relPath: string): string {
+  return fs.readFileSync(path.join(ROOT, relPath), 'utf-8');
+}
+
+function fileExists(relPath: string): boolean {
+  return fs.existsSync(path.join(ROOT, relPath));
+}
+
+console.log('\n=== Slider Component Tests ===\n');
+
+// --- 1. File Existence ---
+console.log('[Files]');
+
+const requiredFiles = [
+  '.figma/slider.figma-contract.json',
+  '.figma/slider.figma-contract.ts',
+  'packages/web-components/src/components/kds-slider.ts',
+  'scripts/validate-slider-contract.ts',
+  'scripts/validate-slider-a11y.ts',
+  'packages/wrappers/react/src/Slider.tsx',
+  'packages/wrappers/angular/src/slider.component.ts',
+  'packages/wrappers/blazor/Components/KdsSlider.razor',
+];
+
+for (const file of requiredFiles) {
+  test(`File exists: ${file}`, () => fileExists(file));
+}
+
+// --- 2. Contract JSON ---
+console.log('\n[Contract JSON]');
+
+const contractJson = JSON.parse(readFile('.figma/slider.figma-contract.json'));
+
+test('Contract has component name "Slider"', () =>
+  contractJson.source?.componentName === 'Slider'
+);
+
+test('Contract defines auto, always and none tooltip modes', () =>
+  JSON.stringify(contractJson.properties?.tooltip?.values) === '["auto","always","none"]'
+);
+
+test('Contract is marked as pending Figma data', () =>
+  contractJson._extraction_status?.status === 'PENDING_FIGMA_DATA'
+);
+
+// --- 3. LIT Component ---
+console.log('\n[LIT Component: kds-slider]');
+
+const src = readFile('packages/web-components/src/components/kds-slider.ts');
+
+test('Registers kds-slider', () =>
+  src.includes("@customElement('kds-slider')")
+);
+
+test('Renders a second thumb in range mode', () =>
+  src.includes("${this.range ? this._renderThumb('start') : nothing}") &&
+  src.includes("${this._renderThumb('end')}")
+);
+
+test('Range thumbs cannot cross', () =>
+  src.includes('next = Math.min(next, this.valueEnd)') &&
+  src.includes('next = Math.max(next, this.valueStart)')
+);
+
+test('Values snap to step within min and max', () =>
+  src.includes('Math.round((value - min) / step) * step') &&
+  src.includes('Math.min(Math.max(Number(snapped.toFixed(decimals)), min), max)')
+);
+
+test('Page Up/Down move by a tenth of the range', () =>
+  src.includes('Math.max(step, (this.max - this.min) / 10)')
+);
+
+test('Arrow keys follow the writing direction', () =>
+  src.includes("next = rtl ? current - step : current + step")
+);
+
+test('Renders marks and min/max labels', () =>
+  src.includes('class="scale-label"') && src.includes('class="limits"')
+);
+
+test('Value bubble reuses kds-tooltip', () =>
+  src.includes("import './kds-tooltip.js'") &&
+  src.includes('class="value-tooltip"') &&
+  src.includes('theme="dark"')
+);
+
+test('Is form-associated and submits ranges as two entries', () =>
+  src.includes('static formAssociated = true') &&
+  src.includes('data.append(this.name, String(this.valueStart))') &&
+  src.includes('data.append(this.name, String(this.valueEnd))')
+);
+
+test('Restores values on form reset', () =>
+  src.includes('formResetCallback()') && src.includes('this.valueEnd = this._defaults.valueEnd')
+);
+
+test('Dispatches kds-slider-input and kds-slider-change', () =>
+  src.includes("'kds-slider-input'") &&
+  src.includes("'kds-slider-change'") &&
+  src.includes('composed: true')
+);
+
+test('Pointer release fires change only when the value moved', () =>
+  src.includes('this._dragStartValues !== `${this.value},${this.valueStart},${this.valueEnd}`')
+);
+
+// --- 4. React Wrapper ---
+console.log('\n[React Wrapper]');
+
+const reactSlider = readFile('packages/wrappers/react/src/Slider.tsx');
+
+test('Exports Slider component', () =>
+  reactSlider.includes('export const Slider')
+);
+
+test('Handles input and change events', () =>
+  reactSlider.includes("'kds-slider-input'") && reactSlider.includes("'kds-slider-change'")
+);
+
+test('Sets marks as a property', () =>
+  reactSlider.includes('.marks = marks')
+);
+
+// --- 5. Angular Wrapper ---
+console.log('\n[Angular Wrapper]');
+
+const angularSlider = readFile('packages/wrappers/angular/src/slider.component.ts');
+
+test('Has KdsSliderComponent', () =>
+  angularSlider.includes('export class KdsSliderComponent')
+);
+
+test('Emits sliderInput and sliderChange', () =>
+  angularSlider.includes('@Output() sliderInput') && angularSlider.includes('@Output() sliderChange')
+);
+
+// --- 6. Blazor Wrapper ---
+console.log('\n[Blazor Wrapper]');
+
+const blazorSlider = readFile('packages/wrappers/blazor/Components/KdsSlider.razor');
+const blazorJs = readFile('packages/wrappers/blazor/wwwroot/kds-blazor.js');
+
+test('Renders kds-slider element with two-way bound values', () =>
+  blazorSlider.includes('<kds-slider') &&
+  blazorSlider.includes('public EventCallback<double> ValueChanged') &&
+  blazorSlider.includes('public EventCallback<double> ValueStartChanged') &&
+  blazorSlider.includes('public EventCallback<double> ValueEndChanged')
+);
+
+test('kds-blazor.js has slider listener functions', () =>
+  blazorJs.includes('attachSliderListeners') &&
+  blazorJs.includes('detachSliderListeners') &&
+  blazorJs.includes('setSliderValues')
+);
+
+// --- 7. Index Exports ---
+console.log('\n[Index Exports]');
+
+const wcIndex = readFile('packages/web-components/src/index.ts');
+const reactIndex = readFile('packages/wrappers/react/src/index.ts');
+const angularIndex = readFile('packages/wrappers/angular/src/index.ts');
+
+test('Web components index exports KdsSlider', () =>
+  wcIndex.includes("export { KdsSlider } from './components/kds-slider.js'") &&
+  wcIndex.includes('SliderValueDetail')
+);
+
+test('React index exports Slider', () =>
+  reactIndex.includes("export { Slider } from './Slider.js'")
+);
+
+test('Angular index exports KdsSliderComponent', () =>
+  angularIndex.includes('KdsSliderComponent')
+);
+
+// --- 8. Documentation ---
+console.log('\n[Documentation]');
+
+const indexHtml = readFile('packages/web-components/index.html');
+
+test('Slider script imported in index.html', () =>
+  indexHtml.includes('kds-slider.ts"></script>')
+);
+
+// --- Summary ---
+console.log(`\n${'='.repeat(40)}`);
+console.log(`Total: ${passed + failed} | Passed: ${passed} | Failed: ${failed}`);
+console.log(`${'='.repeat(40)}\n`);
+
+process.exit(failed > 0 ? 1 : 0);
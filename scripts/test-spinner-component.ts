@@ -0,0 +1,168 @@
+/**
+ * @package kds-ai-preview
+ * @description Spinner component test suite
+ * @author Kilian Sala <kilian@kapsch.net>
+ *
+ * Validates kds-spinner component structure, exports, and integration.
+ * Run: npx tsx scripts/test-spinner-component.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+const ROOT = path.resolve(import.meta.dirname, '..');
+let passed = 0;
+let failed = 0;
+
+function test(name: string, fn: () => boolean) {
+  try {
+    if (fn()) {
+      console.log(`  PASS  ${name}`);
+      passed++;
+    } else {
+      console.error(`  FAIL  ${name}`);
+      failed++;
+    }
+  } catch (e: any) {
+    console.error(`  FAIL  ${name} — ${e.message}`);
+    failed++;
+  }
+}
+
+function readFile(relPath: string): string {
+  return fs.readFileSync(path.join(ROOT, relPath), 'utf-8');
+}
+
+function fileExists(relPath: string): boolean {
+  return fs.existsSync(path.join(ROOT, relPath));
+}
+
+console.log('\n=== Spinner Component Tests ===\n');
+
+// --- 1. File Existence ---
+console.log('[Files]');
+
+const requiredFiles = [
+  '.figma/spinner.figma-contract.json',
+  '.figma/spinner.figma-contract.ts',
+  'packages/web-components/src/components/kds-spinner.ts',
+  'scripts/validate-spinner-contract.ts',
+  'scripts/validate-spinner-a11y.ts',
+  'packages/wrappers/react/src/Spinner.tsx',
+  'packages/wrappers/angular/src/spinner.component.ts',
+  'packages/wrappers/blazor/Components/KdsSpinner.razor',
+];
+
+for (const file of requiredFiles) {
+  test(`File exists: ${file}`, () => fileExists(file));
+}
+
+// --- 2. Contract JSON ---
+console.log('\n[Contract JSON]');
+
+const contractJson = JSON.parse(readFile('.figma/spinner.figma-contract.json'));
+
+test('Contract has component name "Loading indicator"', () =>
+  contractJson.source?.componentName === 'Loading indicator'
+);
+
+test('Contract sizes match ButtonSize', () =>
+  JSON.stringify(contractJson.properties?.size?.values) === '["sm","md","lg","xl"]'
+);
+
+test('Contract is marked as pending Figma data', () =>
+  contractJson._extraction_status?.status === 'PENDING_FIGMA_DATA'
+);
+
+// --- 3. LIT Component ---
+console.log('\n[LIT Component: kds-spinner]');
+
+const src = readFile('packages/web-components/src/components/kds-spinner.ts');
+
+test('Registers kds-spinner', () =>
+  src.includes("@customElement('kds-spinner')")
+);
+
+test('SpinnerSize is ButtonSize', () =>
+  src.includes('export type SpinnerSize = ButtonSize')
+);
+
+test('Has styles for every size', () =>
+  ['sm', 'md', 'lg', 'xl'].every((size) => src.includes(`.spinner.size-${size}`))
+);
+
+test('Slows down with reduced motion', () =>
+  src.includes('@media (prefers-reduced-motion: reduce)') && src.includes('animation-duration: 2s')
+);
+
+test('Uses brand and error color tokens', () =>
+  src.includes('var(--kds-color-brand-600, #7F56D9)') && src.includes('var(--kds-color-error-600, #D92D20)')
+);
+
+const buttonSrc = readFile('packages/web-components/src/components/kds-button.ts');
+const tableSrc = readFile('packages/web-components/src/components/kds-table.ts');
+
+test('kds-button loading state renders kds-spinner at the button size', () =>
+  buttonSrc.includes("import './kds-spinner.js'") &&
+  buttonSrc.includes('<kds-spinner size=${this.size}') &&
+  !buttonSrc.includes('M18 10a8 8 0 0 0-8-8')
+);
+
+test('kds-table loading state renders kds-spinner', () =>
+  tableSrc.includes("import './kds-spinner.js'") && tableSrc.includes('<kds-spinner')
+);
+
+// --- 4. Wrappers ---
+console.log('\n[Wrappers]');
+
+const reactSpinner = readFile('packages/wrappers/react/src/Spinner.tsx');
+const angularSpinner = readFile('packages/wrappers/angular/src/spinner.component.ts');
+const blazorSpinner = readFile('packages/wrappers/blazor/Components/KdsSpinner.razor');
+
+test('React exports Spinner component', () =>
+  reactSpinner.includes('export const Spinner')
+);
+
+test('Angular has KdsSpinnerComponent', () =>
+  angularSpinner.includes('export class KdsSpinnerComponent')
+);
+
+test('Blazor renders kds-spinner element', () =>
+  blazorSpinner.includes('<kds-spinner')
+);
+
+// --- 5. Index Exports ---
+console.log('\n[Index Exports]');
+
+const wcIndex = readFile('packages/web-components/src/index.ts');
+const reactIndex = readFile('packages/wrappers/react/src/index.ts');
+const angularIndex = readFile('packages/wrappers/angular/src/index.ts');
+
+test('Web components index exports KdsSpinner', () =>
+  wcIndex.includes("export { KdsSpinner } from './components/kds-spinner.js'") &&
+  wcIndex.includes('SpinnerSize')
+);
+
+test('React index exports Spinner', () =>
+  reactIndex.includes("export { Spinner } from './Spinner.js'")
+);
+
+test('Angular index exports KdsSpinnerComponent', () =>
+  angularIndex.includes('KdsSpinnerComponent')
+);
+
+// --- 6. Documentation ---
+console.log('\n[Documentation]');
+
+const indexHtml = readFile('packages/web-components/index.html');
+
+test('Spinner script imported in index.html', () =>
+  indexHtml.includes('kds-spinner.ts"></script>')
+);
+
+// --- Summary ---
+console.log(`\n${'='.repeat(40)}`);
+console.log(`Total: ${passed + failed} | Passed: ${passed} | Failed: ${failed}`);
+console.log(`${'='.repeat(40)}\n`);
+
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,214 @@
+/**
+ * @package kds-ai-preview
+ * @description Table component test suite
+ * @author Kilian Sala <kilian@kapsch.net>
+ *
+ * Validates kds-table component structure, exports, and integration.
+ * Run: npx tsx scripts/test-table-component.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+const ROOT = path.resolve(import.meta.dirname, '..');
+let passed = 0;
+let failed = 0;
+
+function test(name: string, fn: () => boolean) {
+  try {
+    if (fn()) {
+      console.log(`  PASS  ${name}`);
+      passed++;
+    } else {
+      console.error(`  FAIL  ${name}`);
+      failed++;
+    }
+  } catch (e: any) {
+    console.error(`  FAIL  ${name} — ${e.message}`);
+    failed++;
+  }
+}
+
+function readFile(relPath: string): string {
+  return fs.readFileSync(path.join(ROOT, relPath), 'utf-8');
+}
+
+function fileExists(relPath: string): boolean {
+  return fs.existsSync(path.join(ROOT, relPath));
+}
+
+console.log('\n=== Table Component Tests ===\n');
+
+// --- 1. File Existence ---
+console.log('[Files]');
+
+const requiredFiles = [
+  '.figma/table.figma-contract.json',
+  '.figma/table.figma-contract.ts',
+  'packages/web-components/src/components/kds-table.ts',
+  'scripts/validate-table-contract.ts',
+  'scripts/validate-table-a11y.ts',
+  'packages/wrappers/react/src/Table.tsx',
+  'packages/wrappers/angular/src/table.component.ts',
+  'packages/wrappers/blazor/Components/KdsTable.razor',
+];
+
+for (const file of requiredFiles) {
+  test(`File exists: ${file}`, () => fileExists(file));
+}
+
+// --- 2. Contract JSON ---
+console.log('\n[Contract JSON]');
+
+const contractJson = JSON.parse(readFile('.figma/table.figma-contract.json'));
+
+test('Contract has component name "Table"', () =>
+  contractJson.source?.componentName === 'Table'
+);
+
+test('Contract defines columns, rows and selection', () =>
+  Array.isArray(contractJson.properties?.columns?.default) &&
+  Array.isArray(contractJson.properties?.rows?.default) &&
+  contractJson.properties?.selectable?.default === false
+);
+
+test('Contract is marked as pending Figma data', () =>
+  contractJson._extraction_status?.status === 'PENDING_FIGMA_DATA'
+);
+
+// --- 3. LIT Component ---
+console.log('\n[LIT Component: kds-table]');
+
+const src = readFile('packages/web-components/src/components/kds-table.ts');
+
+test('Registers kds-table', () =>
+  src.includes("@customElement('kds-table')")
+);
+
+test('Takes column definitions and rows as array properties', () =>
+  src.includes('columns: TableColumn[] = [];') &&
+  src.includes('rows: TableRow[] = [];')
+);
+
+test('Sortable headers toggle the direction and set aria-sort', () =>
+  src.includes("this.sortKey === key && this.sortDirection === 'ascending' ? 'descending' : 'ascending'") &&
+  src.includes('aria-sort=${sorted ? this.sortDirection : nothing}')
+);
+
+test('Sorts a copy of the rows with empty cells last, unless manual-sort is set', () =>
+  src.includes('if (this.manualSort || !column) return this.rows;') &&
+  src.includes('return [...this.rows].sort((a, b) => {') &&
+  src.includes('return Number(emptyA) - Number(emptyB);')
+);
+
+test('Selects rows with kds-checkbox and an indeterminate select-all', () =>
+  src.includes('<kds-checkbox data-key=${key}') &&
+  src.includes('.indeterminate=${selectedCount > 0 && selectedCount < total}') &&
+  src.includes('this.selectedKeys = checked ? this.rows.map((row) => this._keyOf(row)) : [];')
+);
+
+test('Sticky header and empty / loading states', () =>
+  src.includes('.sticky thead th {') &&
+  src.includes('<slot name="empty">${this.emptyText}</slot>') &&
+  src.includes('<kds-spinner label=${this.loadingLabel}>')
+);
+
+test('Virtualizes by rendering the rows in view between spacers', () =>
+  src.includes('Math.floor(this._scrollTop / rowHeight) - OVERSCAN') &&
+  src.includes('rows.slice(start, end)') &&
+  src.includes('spacer((rows.length - end) * rowHeight)')
+);
+
+test('Keeps the checkbox events inside and dispatches sort and selection events', () =>
+  src.includes('event.stopPropagation();\n    const key = (event.target as HTMLElement).dataset.key;') &&
+  src.includes("'kds-table-sort'") &&
+  src.includes("'kds-table-selection-change'") &&
+  src.includes('composed: true')
+);
+
+// --- 4. React Wrapper ---
+console.log('\n[React Wrapper]');
+
+const reactTable = readFile('packages/wrappers/react/src/Table.tsx');
+
+test('Exports Table component', () =>
+  reactTable.includes('export const Table')
+);
+
+test('Handles sort and selection events', () =>
+  reactTable.includes("'kds-table-sort'") && reactTable.includes('onSort') &&
+  reactTable.includes("'kds-table-selection-change'") && reactTable.includes('onSelectionChange')
+);
+
+test('Sets columns and rows as properties', () =>
+  reactTable.includes('table.columns = columns') &&
+  reactTable.includes('table.rows = rows')
+);
+
+// --- 5. Angular Wrapper ---
+console.log('\n[Angular Wrapper]');
+
+const angularTable = readFile('packages/wrappers/angular/src/table.component.ts');
+
+test('Has KdsTableComponent', () =>
+  angularTable.includes('export class KdsTableComponent')
+);
+
+test('Emits sort and selectionChange', () =>
+  angularTable.includes('@Output() sort') &&
+  angularTable.includes('@Output() selectionChange')
+);
+
+// --- 6. Blazor Wrapper ---
+console.log('\n[Blazor Wrapper]');
+
+const blazorTable = readFile('packages/wrappers/blazor/Components/KdsTable.razor');
+const blazorJs = readFile('packages/wrappers/blazor/wwwroot/kds-blazor.js');
+
+test('Renders kds-table element with two-way bound selection', () =>
+  blazorTable.includes('<kds-table') &&
+  blazorTable.includes('public EventCallback<IReadOnlyList<string>> SelectedKeysChanged')
+);
+
+test('kds-blazor.js has table functions', () =>
+  blazorJs.includes('attachTableListeners') &&
+  blazorJs.includes('detachTableListeners') &&
+  blazorJs.includes('setTableData') &&
+  blazorJs.includes('setTableState')
+);
+
+// --- 7. Index Exports ---
+console.log('\n[Index Exports]');
+
+const wcIndex = readFile('packages/web-components/src/index.ts');
+const reactIndex = readFile('packages/wrappers/react/src/index.ts');
+const angularIndex = readFile('packages/wrappers/angular/src/index.ts');
+
+test('Web components index exports KdsTable', () =>
+  wcIndex.includes("export { KdsTable } from './components/kds-table.js'") &&
+  wcIndex.includes('TableColumn')
+);
+
+test('React index exports Table', () =>
+  reactIndex.includes("export { Table } from './Table.js'")
+);
+
+test('Angular index exports KdsTableComponent', () =>
+  angularIndex.includes('KdsTableComponent')
+);
+
+// --- 8. Documentation ---
+console.log('\n[Documentation]');
+
+const indexHtml = readFile('packages/web-components/index.html');
+
+test('Table script imported in index.html', () =>
+  indexHtml.includes('kds-table.ts"></script>')
+);
+
+// --- Summary ---
+console.log(`\n${'='.repeat(40)}`);
+console.log(`Total: ${passed + failed} | Passed: ${passed} | Failed: ${failed}`);
+console.log(`${'='.repeat(40)}\n`);
+
+process.exit(failed > 0 ? 1 : 0);
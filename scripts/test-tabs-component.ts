@@ -0,0 +1,222 @@
+/**
+ * @package kds-ai-preview
+ * @description Tabs component test suite
+ * @author Kilian Sala <kilian@kapsch.net>
+ *
+ * Validates kds-tabs component structure, exports, and integration.
+ * Run: npx tsx scripts/test-tabs-component.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+const ROOT = path.resolve(import.meta.dirname, '..');
+let passed = 0;
+let failed = 0;
+
+function test(name: string, fn: () => boolean) {
+  try {
+    if (fn()) {
+      console.log(`  PASS  ${name}`);
+      passed++;
+    } else {
+      console.error(`  FAIL  ${name}`);
+      failed++;
+    }
+  } catch (e: any) {
+    console.error(`  FAIL  ${name} — ${e.message}`);
+    failed++;
+  }
+}
+
+function readFile(relPath: string): string {
+  return fs.readFileSync(path.join(ROOT, relPath), 'utf-8');
+}
+
+function fileExists(relPath: string): boolean {
+  return fs.existsSync(path.join(ROOT, relPath));
+}
+
+console.log('\n=== Tabs Component Tests ===\n');
+
+// --- 1. File Existence ---
+console.log('[Files]');
+
+const requiredFiles = [
+  '.figma/tabs.figma-contract.json',
+  '.figma/tabs.figma-contract.ts',
+  'packages/web-components/src/components/kds-tabs.ts',
+  'scripts/validate-tabs-contract.ts',
+  'scripts/validate-tabs-a11y.ts',
+  'packages/wrappers/react/src/Tabs.tsx',
+  'packages/wrappers/angular/src/tabs.component.ts',
+  'packages/wrappers/blazor/Components/KdsTabs.razor',
+  'packages/wrappers/blazor/Components/KdsTab.razor',
+  'packages/wrappers/blazor/Components/KdsTabPanel.razor',
+];
+
+for (const file of requiredFiles) {
+  test(`File exists: ${file}`, () => fileExists(file));
+}
+
+// --- 2. Contract JSON ---
+console.log('\n[Contract JSON]');
+
+const contractJson = JSON.parse(readFile('.figma/tabs.figma-contract.json'));
+
+test('Contract has component name "Tabs"', () =>
+  contractJson.source?.componentName === 'Tabs'
+);
+
+test('Contract defines horizontal and vertical orientations', () =>
+  JSON.stringify(contractJson.properties?.orientation?.values) === '["horizontal","vertical"]'
+);
+
+test('Contract defines automatic and manual activation', () =>
+  JSON.stringify(contractJson.properties?.activation?.values) === '["automatic","manual"]'
+);
+
+test('Contract is marked as pending Figma data', () =>
+  contractJson._extraction_status?.status === 'PENDING_FIGMA_DATA'
+);
+
+// --- 3. LIT Component ---
+console.log('\n[LIT Component: kds-tabs]');
+
+const src = readFile('packages/web-components/src/components/kds-tabs.ts');
+
+test('Registers kds-tabs, kds-tab and kds-tab-panel', () =>
+  src.includes("@customElement('kds-tabs')") &&
+  src.includes("@customElement('kds-tab')") &&
+  src.includes("@customElement('kds-tab-panel')")
+);
+
+test('Renders tablist, tabs and panels in one shadow root', () =>
+  src.includes('role="tablist"') &&
+  src.includes('id="tab-${index}"') &&
+  src.includes('id="panel-${index}"') &&
+  src.includes('aria-labelledby="tab-${index}"')
+);
+
+test('Slots tab labels and panel content by index', () =>
+  src.includes('<slot name="tab-${index}"></slot>') && src.includes('<slot name="panel-${index}"></slot>')
+);
+
+test('Arrow keys depend on orientation', () =>
+  src.includes("const vertical = this.orientation === 'vertical'") &&
+  src.includes("case 'ArrowDown':") &&
+  src.includes("case 'ArrowRight':")
+);
+
+test('Manual activation only moves focus', () =>
+  src.includes("if (this.activation === 'automatic')") && src.includes('buttons[target].focus()')
+);
+
+test('Disabled tabs are skipped and cannot be selected', () =>
+  src.includes('.filter((i) => !tabs[i]?.disabled)') && src.includes('if (!tab || tab.disabled) return')
+);
+
+test('Panels render lazily and stamp templates', () =>
+  src.includes('this._visited.has(values[index])') &&
+  src.includes('template.replaceWith(template.content.cloneNode(true))')
+);
+
+test('Ignores tabs of nested kds-tabs', () =>
+  src.includes("tab.closest('kds-tabs') === this")
+);
+
+test('Observes only direct children, not panel content', () =>
+  src.includes('this._itemObserver.observe(this, { childList: true });') &&
+  !src.includes('subtree: true')
+);
+
+test('Tabs and panels report their own changes', () =>
+  src.includes("new Event('kds-tab-update', { bubbles: true })") &&
+  src.includes("this.addEventListener('kds-tab-update', this._handleItemUpdate)")
+);
+
+test('Dispatches kds-tabs-change with value', () =>
+  src.includes("'kds-tabs-change'") && src.includes('detail: { value }')
+);
+
+// --- 4. React Wrapper ---
+console.log('\n[React Wrapper]');
+
+const reactTabs = readFile('packages/wrappers/react/src/Tabs.tsx');
+
+test('Exports Tabs, Tab and TabPanel components', () =>
+  reactTabs.includes('export const Tabs') &&
+  reactTabs.includes('export const Tab ') &&
+  reactTabs.includes('export const TabPanel')
+);
+
+test('Handles change events and syncs value', () =>
+  reactTabs.includes("'kds-tabs-change'") && reactTabs.includes('tabs.value = value')
+);
+
+// --- 5. Angular Wrapper ---
+console.log('\n[Angular Wrapper]');
+
+const angularTabs = readFile('packages/wrappers/angular/src/tabs.component.ts');
+
+test('Has KdsTabsComponent, KdsTabComponent and KdsTabPanelComponent', () =>
+  angularTabs.includes('export class KdsTabsComponent') &&
+  angularTabs.includes('export class KdsTabComponent') &&
+  angularTabs.includes('export class KdsTabPanelComponent')
+);
+
+test('Emits tabsChange', () =>
+  angularTabs.includes('@Output() tabsChange')
+);
+
+// --- 6. Blazor Wrapper ---
+console.log('\n[Blazor Wrapper]');
+
+const blazorTabs = readFile('packages/wrappers/blazor/Components/KdsTabs.razor');
+const blazorJs = readFile('packages/wrappers/blazor/wwwroot/kds-blazor.js');
+
+test('Renders kds-tabs element with @bind-Value support', () =>
+  blazorTabs.includes('<kds-tabs') && blazorTabs.includes('public EventCallback<string> ValueChanged')
+);
+
+test('kds-blazor.js has tabs listener functions', () =>
+  blazorJs.includes('attachTabsListener') &&
+  blazorJs.includes('detachTabsListener') &&
+  blazorJs.includes('setTabsValue')
+);
+
+// --- 7. Index Exports ---
+console.log('\n[Index Exports]');
+
+const wcIndex = readFile('packages/web-components/src/index.ts');
+const reactIndex = readFile('packages/wrappers/react/src/index.ts');
+const angularIndex = readFile('packages/wrappers/angular/src/index.ts');
+
+test('Web components index exports KdsTabs, KdsTab and KdsTabPanel', () =>
+  wcIndex.includes("export { KdsTabs, KdsTab, KdsTabPanel } from './components/kds-tabs.js'") &&
+  wcIndex.includes('TabsOrientation')
+);
+
+test('React index exports Tabs, Tab and TabPanel', () =>
+  reactIndex.includes("export { Tabs, Tab, TabPanel } from './Tabs.js'")
+);
+
+test('Angular index exports KdsTabsComponent', () =>
+  angularIndex.includes('KdsTabsComponent')
+);
+
+// --- 8. Documentation ---
+console.log('\n[Documentation]');
+
+const indexHtml = readFile('packages/web-components/index.html');
+
+test('Tabs script imported in index.html', () =>
+  indexHtml.includes('kds-tabs.ts"></script>')
+);
+
+// --- Summary ---
+console.log(`\n${'='.repeat(40)}`);
+console.log(`Total: ${passed + failed} | Passed: ${passed} | Failed: ${failed}`);
+console.log(`${'='.repeat(40)}\n`);
+
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,238 @@
+/**
+ * @package kds-ai-preview
+ * @description Textarea component test suite
+ * @author Kilian Sala <kilian@kapsch.net>
+ *
+ * Validates kds-textarea component structure, exports, and integration.
+ * Run: npx tsx scripts/test-textarea-component.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+const ROOT = path.resolve(import.meta.dirname, '..');
+let passed = 0;
+let failed = 0;
+
+function test(name: string, fn: () => boolean) {
+  try {
+    if (fn()) {
+      console.log(`  PASS  ${name}`);
+      passed++;
+    } else {
+      console.error(`  FAIL  ${name}`);
+      failed++;
+    }
+  } catch (e: any) {
+    console.error(`  FAIL  ${name} — ${e.message}`);
+    failed++;
+  }
+}
+
+function readFile(relPath: string): string {
+  return fs.readFileSync(path.join(ROOT, relPath), 'utf-8');
+}
+
+function fileExists(relPath: string): boolean {
+  return fs.existsSync(path.join(ROOT, relPath));
+}
+
+console.log('\n=== Textarea Component Tests ===\n');
+
+// --- 1. File Existence ---
+console.log('[Files]');
+
+const requiredFiles = [
+  '.figma/textarea.figma-contract.json',
+  '.figma/textarea.figma-contract.ts',
+  'packages/web-components/src/components/kds-textarea.ts',
+  'scripts/validate-textarea-contract.ts',
+  'scripts/validate-textarea-a11y.ts',
+  'packages/wrappers/react/src/Textarea.tsx',
+  'packages/wrappers/angular/src/textarea.component.ts',
+  'packages/wrappers/blazor/Components/KdsTextarea.razor',
+];
+
+for (const file of requiredFiles) {
+  test(`File exists: ${file}`, () => fileExists(file));
+}
+
+// --- 2. Contract JSON ---
+console.log('\n[Contract JSON]');
+
+const contractJson = JSON.parse(readFile('.figma/textarea.figma-contract.json'));
+
+test('Contract has component name "Textarea input field"', () =>
+  contractJson.source?.componentName === 'Textarea input field'
+);
+
+test('Contract defines minRows default of 4', () =>
+  contractJson.properties?.minRows?.default === 4
+);
+
+test('Contract reuses Input field focus ring', () =>
+  contractJson.designTokens?.colors?.['focus-ring'] === '#F4EBFF' &&
+  contractJson.designTokens?.colors?.['border-focused'] === '#D6BBFB'
+);
+
+test('Contract is marked as pending Figma data', () =>
+  contractJson._extraction_status?.status === 'PENDING_FIGMA_DATA'
+);
+
+// --- 3. LIT Component ---
+console.log('\n[LIT Component: kds-textarea]');
+
+const src = readFile('packages/web-components/src/components/kds-textarea.ts');
+
+test('Registered as kds-textarea custom element', () =>
+  src.includes("@customElement('kds-textarea')")
+);
+
+test('Is form-associated', () =>
+  src.includes('static formAssociated = true') && src.includes('this.attachInternals()')
+);
+
+test('Submits its value and restores it on form reset', () =>
+  src.includes('setFormValue(this.value)') && src.includes('this.value = this._defaultValue')
+);
+
+test('Mirrors native validity flags', () =>
+  src.includes("const VALIDITY_FLAGS = ['valueMissing', 'tooLong', 'tooShort']")
+);
+
+test('Computes validity before render, not in updated()', () =>
+  /override willUpdate\([^)]*\) \{[\s\S]*?this\._updateValidity\(\)/.test(src) &&
+  !/override updated\([^)]*\) \{[^}]*_updateValidity/.test(src) &&
+  !/@state\(\)\s*private _validationMessage/.test(src)
+);
+
+test('checkValidity() does not show the error state', () =>
+  src.includes('if (!this._checkingValidity) this._showValidity = true') &&
+  src.includes('this._checkingValidity = true')
+);
+
+test('Supports custom validators like kds-input-field', () =>
+  src.includes('export type TextareaValidator = InputFieldValidator') &&
+  src.includes('validators: TextareaValidator[] = []')
+);
+
+test('Has min-rows and max-rows attributes', () =>
+  src.includes("attribute: 'min-rows'") && src.includes("attribute: 'max-rows'")
+);
+
+test('Auto-grows between min-rows and max-rows', () =>
+  src.includes('textarea.scrollHeight') &&
+  src.includes('Math.min(Math.max(contentHeight, minHeight), maxHeight)')
+);
+
+test('Scrolls only past max-rows', () =>
+  src.includes("textarea.style.overflowY = contentHeight > maxHeight ? 'auto' : 'hidden'")
+);
+
+test('Re-measures on width changes', () =>
+  src.includes('new ResizeObserver') && src.includes('this._resizeObserver?.disconnect()')
+);
+
+test('Shows a length/maxlength counter', () =>
+  src.includes('${length}/${this.maxLength}')
+);
+
+test('Announces remaining characters near the limit', () =>
+  src.includes('COUNTER_ANNOUNCE_RATIO') && src.includes('characters remaining')
+);
+
+test('Reuses kds-input-field custom properties', () =>
+  src.includes('var(--kds-input-border, #D5D7DA)') &&
+  src.includes('var(--kds-input-border-focused, #D6BBFB)') &&
+  src.includes('var(--kds-input-error-color, #D92D20)')
+);
+
+test('Dispatches kds-input and kds-change', () =>
+  src.includes("'kds-input'") && src.includes("'kds-change'")
+);
+
+// --- 4. React Wrapper ---
+console.log('\n[React Wrapper]');
+
+const reactTextarea = readFile('packages/wrappers/react/src/Textarea.tsx');
+
+test('Exports Textarea component', () =>
+  reactTextarea.includes('export const Textarea') && reactTextarea.includes("'kds-textarea'")
+);
+
+test('Passes min-rows and max-rows', () =>
+  reactTextarea.includes("'min-rows': minRows") && reactTextarea.includes("'max-rows': maxRows")
+);
+
+test('Handles kds-input and kds-change events', () =>
+  reactTextarea.includes('onKdsInput') && reactTextarea.includes('onKdsChange')
+);
+
+// --- 5. Angular Wrapper ---
+console.log('\n[Angular Wrapper]');
+
+const angularTextarea = readFile('packages/wrappers/angular/src/textarea.component.ts');
+
+test('Has KdsTextareaComponent class with kdsInput output', () =>
+  angularTextarea.includes('export class KdsTextareaComponent') && angularTextarea.includes('kdsInput')
+);
+
+test('Binds min-rows and max-rows', () =>
+  angularTextarea.includes('[attr.min-rows]') && angularTextarea.includes('[attr.max-rows]')
+);
+
+// --- 6. Blazor Wrapper ---
+console.log('\n[Blazor Wrapper]');
+
+const blazorTextarea = readFile('packages/wrappers/blazor/Components/KdsTextarea.razor');
+const blazorJs = readFile('packages/wrappers/blazor/wwwroot/kds-blazor.js');
+
+test('Renders kds-textarea element', () =>
+  blazorTextarea.includes('<kds-textarea')
+);
+
+test('Has MinRows and MaxRows parameters', () =>
+  blazorTextarea.includes('public int MinRows') && blazorTextarea.includes('public int? MaxRows')
+);
+
+test('kds-blazor.js has textarea listener functions', () =>
+  blazorJs.includes('attachTextareaListeners') &&
+  blazorJs.includes('detachTextareaListeners') &&
+  blazorJs.includes('setTextareaValue')
+);
+
+// --- 7. Index Exports ---
+console.log('\n[Index Exports]');
+
+const wcIndex = readFile('packages/web-components/src/index.ts');
+const reactIndex = readFile('packages/wrappers/react/src/index.ts');
+const angularIndex = readFile('packages/wrappers/angular/src/index.ts');
+
+test('Web components index exports KdsTextarea and TextareaValidator', () =>
+  wcIndex.includes("export { KdsTextarea } from './components/kds-textarea.js'") &&
+  wcIndex.includes('TextareaValidator')
+);
+
+test('React index exports Textarea', () =>
+  reactIndex.includes("export { Textarea } from './Textarea.js'")
+);
+
+test('Angular index exports KdsTextareaComponent', () =>
+  angularIndex.includes('KdsTextareaComponent')
+);
+
+// --- 8. Documentation ---
+console.log('\n[Documentation]');
+
+const indexHtml = readFile('packages/web-components/index.html');
+
+test('Textarea script imported in index.html', () =>
+  indexHtml.includes('kds-textarea.ts"></script>')
+);
+
+// --- Summary ---
+console.log(`\n${'='.repeat(40)}`);
+console.log(`Total: ${passed + failed} | Passed: ${passed} | Failed: ${failed}`);
+console.log(`${'='.repeat(40)}\n`);
+
+process.exit(failed > 0 ? 1 : 0);
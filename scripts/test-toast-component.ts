@@ -0,0 +1,210 @@
+/**
+ * @package kds-ai-preview
+ * @description Toast component test suite
+ * @author Kilian Sala <kilian@kapsch.net>
+ *
+ * Validates kds-toast component structure, exports, and integration.
+ * Run: npx tsx scripts/test-toast-component.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+const ROOT = path.resolve(import.meta.dirname, '..');
+let passed = 0;
+let failed = 0;
+
+function test(name: string, fn: () => boolean) {
+  try {
+    if (fn()) {
+      console.log(`  PASS  ${name}`);
+      passed++;
+    } else {
+      console.error(`  FAIL  ${name}`);
+      failed++;
+    }
+  } catch (e: any) {
+    console.error(`  FAIL  ${name} — ${e.message}`);
+    failed++;
+  }
+}
+
+function readFile(relPath: string): string {
+  return fs.readFileSync(path.join(ROOT, relPath), 'utf-8');
+}
+
+function fileExists(relPath: string): boolean {
+  return fs.existsSync(path.join(ROOT, relPath));
+}
+
+console.log('\n=== Toast Component Tests ===\n');
+
+// --- 1. File Existence ---
+console.log('[Files]');
+
+const requiredFiles = [
+  '.figma/toast.figma-contract.json',
+  '.figma/toast.figma-contract.ts',
+  'packages/web-components/src/components/kds-toast.ts',
+  'scripts/validate-toast-contract.ts',
+  'scripts/validate-toast-a11y.ts',
+  'packages/wrappers/react/src/Toast.tsx',
+  'packages/wrappers/angular/src/toast.component.ts',
+  'packages/wrappers/angular/src/toast.service.ts',
+  'packages/wrappers/blazor/Components/KdsToast.razor',
+  'packages/wrappers/blazor/Components/KdsToastRegion.razor',
+];
+
+for (const file of requiredFiles) {
+  test(`File exists: ${file}`, () => fileExists(file));
+}
+
+// --- 2. Contract JSON ---
+console.log('\n[Contract JSON]');
+
+const contractJson = JSON.parse(readFile('.figma/toast.figma-contract.json'));
+
+test('Contract has component name "Notification"', () =>
+  contractJson.source?.componentName === 'Notification'
+);
+
+test('Contract defines success, error, warning and info variants', () =>
+  JSON.stringify(contractJson.properties?.variant?.values) === '["success","error","warning","info"]'
+);
+
+test('Contract defines six region positions', () =>
+  contractJson.properties?.position?.values?.length === 6
+);
+
+test('Contract is marked as pending Figma data', () =>
+  contractJson._extraction_status?.status === 'PENDING_FIGMA_DATA'
+);
+
+// --- 3. LIT Component ---
+console.log('\n[LIT Component: kds-toast]');
+
+const src = readFile('packages/web-components/src/components/kds-toast.ts');
+
+test('Registers kds-toast and kds-toast-region custom elements', () =>
+  src.includes("@customElement('kds-toast')") && src.includes("@customElement('kds-toast-region')")
+);
+
+test('Variants reuse the badge color palette', () =>
+  ['success', 'error', 'warning', 'blue'].every((palette) => src.includes(`var(--kds-badge-${palette}-bg`))
+);
+
+test('Auto-dismisses after duration, paused on hover and focus', () =>
+  src.includes("this.dismiss('timeout')") &&
+  src.includes("addEventListener('mouseenter'") &&
+  src.includes("addEventListener('focusin'")
+);
+
+test('Resumes with the remaining time', () =>
+  src.includes('this._remaining - (Date.now() - this._startedAt)')
+);
+
+test('Announces through the shared aria-live regions', () =>
+  src.includes("import { announce } from './live-announcer.js'") && src.includes('announce(text,')
+);
+
+test('Region queues toasts past max', () =>
+  src.includes('toast.queued = index >= this.max')
+);
+
+test('Built-in action uses kds-button', () =>
+  src.includes("import './kds-button.js'") && src.includes('@kds-button-click=${this._handleAction}')
+);
+
+test('Dispatches kds-toast-action and kds-toast-close with reason', () =>
+  src.includes("'kds-toast-action'") && src.includes("'kds-toast-close'") && src.includes('detail: { reason }')
+);
+
+test('Exports toast() API that creates its region on demand', () =>
+  src.includes('export function toast(options: ToastOptions): KdsToast') &&
+  src.includes("document.createElement('kds-toast-region')")
+);
+
+// --- 4. React Wrapper ---
+console.log('\n[React Wrapper]');
+
+const reactToast = readFile('packages/wrappers/react/src/Toast.tsx');
+
+test('Exports Toast and ToastRegion components', () =>
+  reactToast.includes('export const Toast') &&
+  reactToast.includes('export const ToastRegion') &&
+  reactToast.includes("'kds-toast'")
+);
+
+test('Exports useToast hook built on toast()', () =>
+  reactToast.includes('export function useToast()') && reactToast.includes('showToast(options)')
+);
+
+test('Handles action and close events', () =>
+  reactToast.includes('onAction') && reactToast.includes('onClose')
+);
+
+// --- 5. Angular Wrapper ---
+console.log('\n[Angular Wrapper]');
+
+const angularToast = readFile('packages/wrappers/angular/src/toast.component.ts');
+const angularService = readFile('packages/wrappers/angular/src/toast.service.ts');
+
+test('Has KdsToastComponent and KdsToastRegionComponent', () =>
+  angularToast.includes('export class KdsToastComponent') &&
+  angularToast.includes('export class KdsToastRegionComponent')
+);
+
+test('Has injectable KdsToastService with show()', () =>
+  angularService.includes("@Injectable({ providedIn: 'root' })") &&
+  angularService.includes('show(options: ToastOptions): KdsToast')
+);
+
+// --- 6. Blazor Wrapper ---
+console.log('\n[Blazor Wrapper]');
+
+const blazorToast = readFile('packages/wrappers/blazor/Components/KdsToast.razor');
+const blazorJs = readFile('packages/wrappers/blazor/wwwroot/kds-blazor.js');
+
+test('Renders kds-toast element', () =>
+  blazorToast.includes('<kds-toast')
+);
+
+test('kds-blazor.js has toast listener functions', () =>
+  blazorJs.includes('attachToastListeners') && blazorJs.includes('detachToastListeners')
+);
+
+// --- 7. Index Exports ---
+console.log('\n[Index Exports]');
+
+const wcIndex = readFile('packages/web-components/src/index.ts');
+const reactIndex = readFile('packages/wrappers/react/src/index.ts');
+const angularIndex = readFile('packages/wrappers/angular/src/index.ts');
+
+test('Web components index exports KdsToast, KdsToastRegion and toast', () =>
+  wcIndex.includes("export { KdsToast, KdsToastRegion, toast } from './components/kds-toast.js'") &&
+  wcIndex.includes('ToastOptions')
+);
+
+test('React index exports Toast, ToastRegion and useToast', () =>
+  reactIndex.includes("export { Toast, ToastRegion, useToast } from './Toast.js'")
+);
+
+test('Angular index exports KdsToastService', () =>
+  angularIndex.includes("export { KdsToastService } from './toast.service'")
+);
+
+// --- 8. Documentation ---
+console.log('\n[Documentation]');
+
+const indexHtml = readFile('packages/web-components/index.html');
+
+test('Toast script imported in index.html', () =>
+  indexHtml.includes('kds-toast.ts"></script>')
+);
+
+// --- Summary ---
+console.log(`\n${'='.repeat(40)}`);
+console.log(`Total: ${passed + failed} | Passed: ${passed} | Failed: ${failed}`);
+console.log(`${'='.repeat(40)}\n`);
+
+process.exit(failed > 0 ? 1 : 0);
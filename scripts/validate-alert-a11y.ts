@@ -0,0 +1,142 @@
+/**
+ * Accessibility Validation for Alert Component
+ *
+ * Validates that kds-alert meets WCAG 2.1 AA standards.
+ *
+ * Checks:
+ * - role="alert" or role="status" by severity
+ * - Named, focusable dismiss button
+ *
+ * Usage: tsx scripts/validate-alert-a11y.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+interface A11yIssue {
+  type: 'error' | 'warning';
+  category: string;
+  message: string;
+  recommendation?: string;
+}
+
+const issues: A11yIssue[] = [];
+
+function addIssue(type: 'error' | 'warning', category: string, message: string, recommendation?: string) {
+  issues.push({ type, category, message, recommendation });
+}
+
+/**
+ * Read the component source file
+ */
+function readSource(fileName: string): string {
+  const filePath = path.join(__dirname, '../packages/web-components/src/components', fileName);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Component not found at ${filePath}`);
+  }
+  return fs.readFileSync(filePath, 'utf-8');
+}
+
+/**
+ * Check the live region role
+ */
+function checkSemantics(source: string): void {
+  console.log('\n🔍 Checking alert semantics...');
+
+  if (source.includes("const assertive = this.color === 'error' || this.color === 'warning'") &&
+      source.includes("role=${assertive ? 'alert' : 'status'}")) {
+    console.log('  ✅ role="alert" for error and warning, role="status" otherwise');
+  } else {
+    addIssue('error', 'ARIA', 'Alert role does not follow the severity',
+      'Use role="alert" for urgent messages and role="status" for the rest (WCAG 4.1.3 Status Messages)');
+  }
+
+  const region = source.slice(source.indexOf('<div class="message"'), source.indexOf('<div class=${classMap({ actions'));
+  if (region.includes('<slot></slot>') && !region.includes('name="actions"') && !region.includes('<button')) {
+    console.log('  ✅ Actions and dismiss button are outside the live region');
+  } else {
+    addIssue('warning', 'ARIA', 'Controls are announced as part of the alert message');
+  }
+
+  if (source.includes('<span class="icon" part="icon">${alertCircleIcon}</span>')) {
+    console.log('  ✅ Icon is decorative (aria-hidden in the shared alert circle)');
+  } else {
+    addIssue('warning', 'ARIA', 'Alert icon may be exposed to assistive technology');
+  }
+}
+
+/**
+ * Check the dismiss button
+ */
+function checkDismiss(source: string): void {
+  console.log('\n🔍 Checking dismiss button...');
+
+  if (source.includes('type="button"') && source.includes('aria-label=${this.closeLabel}')) {
+    console.log('  ✅ Native button named by closeLabel');
+  } else {
+    addIssue('error', 'Keyboard', 'Dismiss button is not a named native button',
+      'Use a <button> with an aria-label (WCAG 2.1.1 Keyboard, 4.1.2 Name, Role, Value)');
+  }
+
+  if (source.includes('.close:focus-visible')) {
+    console.log('  ✅ Visible focus indicator');
+  } else {
+    addIssue('error', 'Focus', 'Dismiss button has no focus indicator',
+      'Add a :focus-visible style (WCAG 2.4.7 Focus Visible)');
+  }
+}
+
+/**
+ * Run all accessibility checks
+ */
+function runA11yValidation(): void {
+  console.log('🔍 Alert Component - Accessibility Validation');
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+
+  try {
+    const source = readSource('kds-alert.ts');
+
+    checkSemantics(source);
+    checkDismiss(source);
+
+    console.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    console.log('📊 Accessibility Validation Summary\n');
+
+    const errors = issues.filter(i => i.type === 'error');
+    const warnings = issues.filter(i => i.type === 'warning');
+
+    if (errors.length === 0 && warnings.length === 0) {
+      console.log('✅ All accessibility checks passed!');
+      console.log('\n✨ Alert component meets WCAG 2.1 AA standards');
+      process.exit(0);
+    }
+
+    [['❌', errors], ['⚠️ ', warnings]].forEach(([icon, list]) => {
+      (list as A11yIssue[]).forEach((issue, index) => {
+        console.log(`${icon} ${index + 1}. [${issue.category}] ${issue.message}`);
+        if (issue.recommendation) {
+          console.log(`   💡 ${issue.recommendation}`);
+        }
+      });
+    });
+
+    if (errors.length > 0) {
+      console.log('\n❌ Accessibility validation failed');
+      process.exit(1);
+    }
+
+    console.log('\n⚠️  Accessibility validation passed with warnings');
+    process.exit(0);
+
+  } catch (error) {
+    console.error('❌ Validation error:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+// Run validation
+runA11yValidation();
@@ -0,0 +1,128 @@
+/**
+ * Accessibility Validation for Avatar Group Component
+ *
+ * Validates that kds-avatar-group meets WCAG 2.1 AA standards.
+ *
+ * Checks:
+ * - Named group role
+ * - Accessible name of the "+N" overflow avatar
+ *
+ * Usage: tsx scripts/validate-avatar-group-a11y.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+interface A11yIssue {
+  type: 'error' | 'warning';
+  category: string;
+  message: string;
+  recommendation?: string;
+}
+
+const issues: A11yIssue[] = [];
+
+function addIssue(type: 'error' | 'warning', category: string, message: string, recommendation?: string) {
+  issues.push({ type, category, message, recommendation });
+}
+
+/**
+ * Read the component source file
+ */
+function readSource(fileName: string): string {
+  const filePath = path.join(__dirname, '../packages/web-components/src/components', fileName);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Component not found at ${filePath}`);
+  }
+  return fs.readFileSync(filePath, 'utf-8');
+}
+
+/**
+ * Check the group's role and name
+ */
+function checkSemantics(source: string): void {
+  console.log('\n🔍 Checking avatar group semantics...');
+
+  if (source.includes('role="group"') && source.includes('aria-label=${this.ariaLabel || nothing}')) {
+    console.log('  ✅ role="group" named by aria-label');
+  } else {
+    addIssue('error', 'ARIA', 'Avatar group is not a named group',
+      'Use role="group" with an aria-label (WCAG 1.3.1 Info and Relationships)');
+  }
+}
+
+/**
+ * Check the "+N" overflow avatar
+ */
+function checkOverflow(source: string): void {
+  console.log('\n🔍 Checking overflow...');
+
+  if (source.includes('aria-label=${`${count} more`}')) {
+    console.log('  ✅ "+N" avatar is named "N more"');
+  } else {
+    addIssue('error', 'ARIA', 'Overflow count has no accessible name',
+      'Name the "+N" avatar, e.g. "3 more" (WCAG 1.1.1 Non-text Content)');
+  }
+
+  if (source.includes('::slotted([data-overflow]) {\n      display: none;')) {
+    console.log('  ✅ Avatars past max are hidden from everyone');
+  } else {
+    addIssue('error', 'ARIA', 'Avatars past max are only hidden visually',
+      'Hide them with display: none so they are not announced (WCAG 1.3.1)');
+  }
+}
+
+/**
+ * Run all accessibility checks
+ */
+function runA11yValidation(): void {
+  console.log('🔍 Avatar Group Component - Accessibility Validation');
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+
+  try {
+    const source = readSource('kds-avatar-group.ts');
+
+    checkSemantics(source);
+    checkOverflow(source);
+
+    console.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    console.log('📊 Accessibility Validation Summary\n');
+
+    const errors = issues.filter(i => i.type === 'error');
+    const warnings = issues.filter(i => i.type === 'warning');
+
+    if (errors.length === 0 && warnings.length === 0) {
+      console.log('✅ All accessibility checks passed!');
+      console.log('\n✨ Avatar Group component meets WCAG 2.1 AA standards');
+      process.exit(0);
+    }
+
+    [['❌', errors], ['⚠️ ', warnings]].forEach(([icon, list]) => {
+      (list as A11yIssue[]).forEach((issue, index) => {
+        console.log(`${icon} ${index + 1}. [${issue.category}] ${issue.message}`);
+        if (issue.recommendation) {
+          console.log(`   💡 ${issue.recommendation}`);
+        }
+      });
+    });
+
+    if (errors.length > 0) {
+      console.log('\n❌ Accessibility validation failed');
+      process.exit(1);
+    }
+
+    console.log('\n⚠️  Accessibility validation passed with warnings');
+    process.exit(0);
+
+  } catch (error) {
+    console.error('❌ Validation error:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+// Run validation
+runA11yValidation();
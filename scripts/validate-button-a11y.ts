@@ -76,7 +76,13 @@ function checkARIAAttributes(source: string): void {
   if (source.includes('aria-busy')) {
     console.log('  ✅ aria-busy support found (for loading states)');
   } else {
-    console.log('  ℹ️  No aria-busy attribute (loading state not implemented yet)');
+    addIssue('warning', 'ARIA', 'Loading state not exposed via aria-busy');
+  }
+
+  if (source.includes("import { announce } from './live-announcer.js'") && source.includes('announce(this.loadingText')) {
+    console.log('  ✅ Loading text announced via the shared live region (WCAG 4.1.3 Status Messages)');
+  } else {
+    addIssue('warning', 'ARIA', 'Loading state is not announced to screen readers');
   }
 }
 
@@ -230,6 +236,17 @@ function checkScreenReaderSupport(source: string): void {
   } else if (source.includes('<div') || source.includes('<span')) {
     addIssue('error', 'Screen Reader', 'Non-semantic element used for button', 'Use semantic <button> element');
   }
+
+  // Link mode must stay a real link, and a disabled link must not navigate
+  if (source.includes('<a') && source.includes('href=')) {
+    console.log('  ✅ Semantic <a> element used in link mode');
+    if (source.includes("href=${this.isDisabled ? nothing")) {
+      console.log('  ✅ Disabled links drop href and expose aria-disabled');
+    } else {
+      addIssue('error', 'Screen Reader', 'Disabled links still navigate',
+        'Remove href and set aria-disabled="true" on disabled links');
+    }
+  }
 }
 
 /**
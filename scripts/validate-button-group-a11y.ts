@@ -43,11 +43,11 @@ function readSource(): string {
 function checkGroupRole(source: string): void {
   console.log('\nChecking group role...');
 
-  if (source.includes('role="group"')) {
-    console.log('  OK: Container has role="group"');
+  if (source.includes("'radiogroup' : 'group'")) {
+    console.log('  OK: Container has role="group" (role="radiogroup" in single selection mode)');
   } else {
     addIssue('error', 'ARIA Role', 'Container missing role="group"',
-      'Add role="group" to the container element');
+      'Add role="group" to the container element, or role="radiogroup" for single selection');
   }
 
   if (source.includes('aria-label')) {
@@ -81,6 +81,13 @@ function checkItemSemantics(source: string): void {
     addIssue('error', 'ARIA State', 'Missing aria-pressed for selected state',
       'Add aria-pressed attribute to communicate selected state to screen readers');
   }
+
+  if (source.includes("isRadio ? 'radio'") && source.includes('aria-checked')) {
+    console.log('  OK: Items use role="radio" with aria-checked in single selection mode');
+  } else {
+    addIssue('error', 'ARIA State', 'Single selection items are not exposed as radios',
+      'Use role="radio" and aria-checked on items when the group allows exactly one selection');
+  }
 }
 
 function checkKeyboardNavigation(source: string): void {
@@ -104,6 +111,28 @@ function checkKeyboardNavigation(source: string): void {
   } else {
     addIssue('warning', 'Keyboard', 'Disabled state should use native disabled attribute');
   }
+
+  if (source.includes('rovingTabIndex') && source.includes('_updateTabStops')) {
+    console.log('  OK: Group is a single tab stop (roving tabindex)');
+  } else {
+    addIssue('error', 'Keyboard', 'Every item is a separate tab stop',
+      'Use a roving tabindex so the group takes one tab stop (WAI-ARIA toolbar / radio group)');
+  }
+
+  const keys = ["'ArrowRight'", "'ArrowLeft'", "'Home'", "'End'"];
+  if (keys.every((key) => source.includes(key))) {
+    console.log('  OK: Arrow keys, Home and End move focus between items');
+  } else {
+    addIssue('error', 'Keyboard', 'Missing arrow/Home/End navigation between items',
+      'Handle ArrowLeft/ArrowRight/Home/End on the group (WCAG 2.1.1)');
+  }
+
+  if (source.includes("direction === 'rtl'")) {
+    console.log('  OK: Left/right arrows follow the text direction');
+  } else {
+    addIssue('warning', 'Keyboard', 'Arrow keys ignore RTL text direction',
+      'Swap ArrowLeft/ArrowRight when the group is laid out right-to-left');
+  }
 }
 
 function checkDisabledState(source: string): void {
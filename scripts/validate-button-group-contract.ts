@@ -71,8 +71,8 @@ function validateButtonGroupContract(): ValidationResult {
     errors.push('Container must extend LitElement');
   }
 
-  if (source.includes('role="group"')) {
-    console.log(`${colors.green}  ✓ Container has role="group"${colors.reset}`);
+  if (source.includes("'radiogroup' : 'group'")) {
+    console.log(`${colors.green}  ✓ Container has role="group" (radiogroup in single selection mode)${colors.reset}`);
   } else {
     errors.push('Container missing role="group"');
   }
@@ -0,0 +1,198 @@
+/**
+ * Accessibility Validation for Checkbox Group Component
+ *
+ * Validates that kds-checkbox-group meets WCAG 2.1 AA standards.
+ *
+ * Checks:
+ * - Group role and accessible name
+ * - Hint / error association
+ * - Tri-state "select all" parent
+ * - Keyboard behaviour (delegated to kds-checkbox)
+ *
+ * Usage: tsx scripts/validate-checkbox-group-a11y.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+interface A11yIssue {
+  type: 'error' | 'warning';
+  category: string;
+  message: string;
+  recommendation?: string;
+}
+
+const issues: A11yIssue[] = [];
+
+function addIssue(type: 'error' | 'warning', category: string, message: string, recommendation?: string) {
+  issues.push({ type, category, message, recommendation });
+}
+
+/**
+ * Read the Checkbox Group component source code
+ */
+function readSource(): string {
+  const filePath = path.join(__dirname, '../packages/web-components/src/components/kds-checkbox-group.ts');
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Checkbox Group component not found at ${filePath}`);
+  }
+  return fs.readFileSync(filePath, 'utf-8');
+}
+
+/**
+ * Check group role and accessible name
+ */
+function checkGroupSemantics(source: string): void {
+  console.log('\n🔍 Checking group semantics...');
+
+  if (source.includes('role="group"')) {
+    console.log('  ✅ Container has role="group"');
+  } else {
+    addIssue('error', 'ARIA', 'Container missing role="group"',
+      'Group related checkboxes with role="group" (WCAG 1.3.1 Info and Relationships)');
+  }
+
+  if (source.includes('aria-labelledby=') && source.includes('id="label"')) {
+    console.log('  ✅ Group is named by its visible label (aria-labelledby)');
+  } else {
+    addIssue('error', 'ARIA', 'Group label is not associated with the group',
+      'Reference the label element from aria-labelledby on the group container');
+  }
+
+  if (source.includes('aria-label=')) {
+    console.log('  ✅ aria-label fallback when there is no visible label');
+  } else {
+    addIssue('warning', 'ARIA', 'No aria-label fallback for groups without a visible label');
+  }
+}
+
+/**
+ * Check hint and error text association
+ */
+function checkHintAndError(source: string): void {
+  console.log('\n🔍 Checking hint and error text...');
+
+  if (source.includes('aria-describedby=') && source.includes('id="hint"')) {
+    console.log('  ✅ Hint/error text is associated via aria-describedby');
+  } else {
+    addIssue('error', 'ARIA', 'Hint text is not associated with the group',
+      'Reference the hint element from aria-describedby (WCAG 3.3.2 Labels or Instructions)');
+  }
+
+  if (source.includes('aria-invalid=')) {
+    console.log('  ✅ aria-invalid set in error state');
+  } else {
+    addIssue('warning', 'ARIA', 'Error state not exposed via aria-invalid');
+  }
+
+  if (source.includes('checkbox.error = this.error')) {
+    console.log('  ✅ Error state is applied to every option (not colour-only on the hint)');
+  } else {
+    addIssue('warning', 'Error', 'Error state is not propagated to the options',
+      'Apply error to each kds-checkbox so aria-invalid is set on the inputs (WCAG 3.3.1)');
+  }
+}
+
+/**
+ * Check the tri-state "select all" parent
+ */
+function checkSelectAll(source: string): void {
+  console.log('\n🔍 Checking "select all" parent...');
+
+  if (source.includes('.indeterminate=${live(')) {
+    console.log('  ✅ Parent uses the kds-checkbox indeterminate state (aria-checked="mixed")');
+  } else {
+    addIssue('error', 'ARIA', 'Parent checkbox does not expose a mixed state',
+      'Use kds-checkbox indeterminate so screen readers announce "mixed" when only some options are checked');
+  }
+
+  if (source.includes('selectAllLabel')) {
+    console.log('  ✅ Parent has a visible, configurable label');
+  } else {
+    addIssue('error', 'ARIA', 'Parent checkbox has no label');
+  }
+
+  if (source.includes('filter((checkbox) => !checkbox.disabled)')) {
+    console.log('  ✅ Parent only toggles enabled options');
+  } else {
+    addIssue('warning', 'Behavior', 'Parent may change disabled options',
+      'Skip disabled options when checking or unchecking all');
+  }
+}
+
+/**
+ * Check keyboard behaviour
+ */
+function checkKeyboardNavigation(source: string): void {
+  console.log('\n🔍 Checking keyboard navigation...');
+
+  if (source.includes("querySelectorAll('kds-checkbox')")) {
+    console.log('  ✅ Options are native-input kds-checkbox elements (Tab / Space)');
+  } else {
+    addIssue('error', 'Keyboard', 'Options are not kds-checkbox elements');
+  }
+
+  if (!source.includes('tabindex')) {
+    console.log('  ✅ Each option keeps its own tab stop (checkbox group pattern)');
+  } else {
+    addIssue('warning', 'Keyboard', 'Checkbox groups should not use roving tabindex',
+      'Every checkbox in a group is a separate tab stop (WAI-ARIA checkbox pattern)');
+  }
+}
+
+/**
+ * Run all accessibility checks
+ */
+function runA11yValidation(): void {
+  console.log('🔍 Checkbox Group Component - Accessibility Validation');
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+
+  try {
+    const source = readSource();
+
+    checkGroupSemantics(source);
+    checkHintAndError(source);
+    checkSelectAll(source);
+    checkKeyboardNavigation(source);
+
+    console.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    console.log('📊 Accessibility Validation Summary\n');
+
+    const errors = issues.filter(i => i.type === 'error');
+    const warnings = issues.filter(i => i.type === 'warning');
+
+    if (errors.length === 0 && warnings.length === 0) {
+      console.log('✅ All accessibility checks passed!');
+      console.log('\n✨ Checkbox Group component meets WCAG 2.1 AA standards');
+      process.exit(0);
+    }
+
+    [['❌', errors], ['⚠️ ', warnings]].forEach(([icon, list]) => {
+      (list as A11yIssue[]).forEach((issue, index) => {
+        console.log(`${icon} ${index + 1}. [${issue.category}] ${issue.message}`);
+        if (issue.recommendation) {
+          console.log(`   💡 ${issue.recommendation}`);
+        }
+      });
+    });
+
+    if (errors.length > 0) {
+      console.log('\n❌ Accessibility validation failed');
+      process.exit(1);
+    }
+
+    console.log('\n⚠️  Accessibility validation passed with warnings');
+    process.exit(0);
+
+  } catch (error) {
+    console.error('❌ Validation error:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+// Run validation
+runA11yValidation();
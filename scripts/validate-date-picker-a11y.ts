@@ -0,0 +1,208 @@
+/**
+ * Accessibility Validation for Date Picker Component
+ *
+ * Validates that kds-date-picker meets WCAG 2.1 AA standards.
+ *
+ * Checks:
+ * - Calendar dialog and date grid semantics
+ * - Grid keyboard model, Escape and focus containment
+ * - Labelled field and validation messages
+ *
+ * Usage: tsx scripts/validate-progress-bar-a11y.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+interface A11yIssue {
+  type: 'error' | 'warning';
+  category: string;
+  message: string;
+  recommendation?: string;
+}
+
+const issues: A11yIssue[] = [];
+
+function addIssue(type: 'error' | 'warning', category: string, message: string, recommendation?: string) {
+  issues.push({ type, category, message, recommendation });
+}
+
+/**
+ * Read the component source file
+ */
+function readSource(fileName: string): string {
+  const filePath = path.join(__dirname, '../packages/web-components/src/components', fileName);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Component not found at ${filePath}`);
+  }
+  return fs.readFileSync(filePath, 'utf-8');
+}
+
+/**
+ * Check calendar semantics
+ */
+function checkSemantics(source: string): void {
+  console.log('\n🔍 Checking calendar semantics...');
+
+  if (source.includes('role="dialog"') && source.includes('aria-modal="true"') && source.includes('aria-label=${this._dialogLabel}')) {
+    console.log('  ✅ Calendar is a labelled dialog');
+  } else {
+    addIssue('error', 'ARIA', 'Calendar is not exposed as a labelled dialog',
+      'Use role="dialog" with an accessible name (WCAG 4.1.2 Name, Role, Value)');
+  }
+
+  if (source.includes('aria-haspopup="dialog"') && source.includes("aria-expanded=${this.open ? 'true' : 'false'}")) {
+    console.log('  ✅ Calendar button exposes aria-haspopup and aria-expanded');
+  } else {
+    addIssue('error', 'ARIA', 'Calendar button does not expose its popup state');
+  }
+
+  if (source.includes('role="grid" aria-labelledby="month"') && source.includes('aria-live="polite"')) {
+    console.log('  ✅ Date grid is named by the announced month heading');
+  } else {
+    addIssue('error', 'ARIA', 'Date grid has no accessible name',
+      'Reference the month heading with aria-labelledby (WCAG 1.3.1 Info and Relationships)');
+  }
+
+  if (source.includes('scope="col" abbr=')) {
+    console.log('  ✅ Weekday headers carry the full day name');
+  } else {
+    addIssue('warning', 'ARIA', 'Abbreviated weekday headers have no full name');
+  }
+
+  if (source.includes('aria-label=${this._formats.full.format(') &&
+      source.includes("aria-selected=${selected || classes['in-range'] ? 'true' : 'false'}") &&
+      source.includes("aria-disabled=${disabled ? 'true' : nothing}") &&
+      source.includes("aria-current=${classes.today ? 'date' : nothing}")) {
+    console.log('  ✅ Day cells expose the full date, selection, disabled state and today');
+  } else {
+    addIssue('error', 'ARIA', 'Day cells do not expose their date and state',
+      'Name each day with the full date and set aria-selected / aria-disabled / aria-current (WCAG 4.1.2)');
+  }
+}
+
+/**
+ * Check keyboard support
+ */
+function checkKeyboard(source: string): void {
+  console.log('\n🔍 Checking keyboard support...');
+
+  const keys = ['ArrowRight', 'ArrowLeft', 'ArrowDown', 'ArrowUp', 'Home', 'End', 'PageUp', 'PageDown', 'Enter', ' '];
+  const missing = keys.filter((key) => !source.includes(`case '${key}':`));
+  if (missing.length === 0 && source.includes('event.shiftKey ? -12 : -1')) {
+    console.log('  ✅ Arrows, Home/End, Page Up/Down (Shift for years), Enter and Space');
+  } else {
+    addIssue('error', 'Keyboard', `Grid keys not handled: ${missing.join(', ') || 'Shift+Page Up/Down'}`,
+      'Support the WAI-ARIA date grid keyboard model (WCAG 2.1.1 Keyboard)');
+  }
+
+  if (source.includes("tabindex=${iso === this._focusedDate ? '0' : '-1'}")) {
+    console.log('  ✅ Roving tabindex on the focused day');
+  } else {
+    addIssue('error', 'Keyboard', 'Grid does not use a roving tabindex');
+  }
+
+  if (source.includes("event.key === 'ArrowDown' && event.altKey")) {
+    console.log('  ✅ Alt+ArrowDown opens the calendar from the field');
+  } else {
+    addIssue('warning', 'Keyboard', 'Calendar cannot be opened from the field with the keyboard');
+  }
+
+  if (source.includes("event.key === 'Escape'") && source.includes('this._close(true)') && source.includes('this._toggle?.focus()')) {
+    console.log('  ✅ Escape closes the calendar and returns focus');
+  } else {
+    addIssue('error', 'Keyboard', 'Escape does not close the calendar and return focus',
+      'Return focus to the button that opened the dialog (WCAG 2.4.3 Focus Order)');
+  }
+
+  if (source.includes("if (event.key !== 'Tab') return;")) {
+    console.log('  ✅ Tab stays within the open calendar');
+  } else {
+    addIssue('warning', 'Focus', 'Tab can leave the open calendar');
+  }
+
+  if (source.includes('.day:focus-visible') && source.includes('.nav:focus-visible')) {
+    console.log('  ✅ Visible focus indicators');
+  } else {
+    addIssue('error', 'Focus', 'Calendar controls have no focus indicator',
+      'Style :focus-visible (WCAG 2.4.7 Focus Visible)');
+  }
+}
+
+/**
+ * Check the text field and its validation
+ */
+function checkField(source: string): void {
+  console.log('\n🔍 Checking text field...');
+
+  if (source.includes('label=${this.label}') && source.includes('hint=${hint}') &&
+      source.includes('const hint = invalid ? this.validationMessage : this.hint;')) {
+    console.log('  ✅ Label and hint are rendered by kds-input-field');
+  } else {
+    addIssue('error', 'Forms', 'Date field has no label',
+      'Pass the label to kds-input-field (WCAG 3.3.2 Labels or Instructions)');
+  }
+
+  if (source.includes('.validators=${this._validators}') && source.includes('Enter a date as ${pattern}')) {
+    console.log('  ✅ Typed dates are validated with a message naming the expected format');
+  } else {
+    addIssue('error', 'Forms', 'Invalid typed dates are not described',
+      'Show a message with the expected format (WCAG 3.3.1 Error Identification)');
+  }
+}
+
+/**
+ * Run all accessibility checks
+ */
+function runA11yValidation(): void {
+  console.log('🔍 Date Picker Component - Accessibility Validation');
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+
+  try {
+    const source = readSource('kds-date-picker.ts');
+
+    checkSemantics(source);
+    checkKeyboard(source);
+    checkField(source);
+
+    console.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    console.log('📊 Accessibility Validation Summary\n');
+
+    const errors = issues.filter(i => i.type === 'error');
+    const warnings = issues.filter(i => i.type === 'warning');
+
+    if (errors.length === 0 && warnings.length === 0) {
+      console.log('✅ All accessibility checks passed!');
+      console.log('\n✨ Date Picker component meets WCAG 2.1 AA standards');
+      process.exit(0);
+    }
+
+    [['❌', errors], ['⚠️ ', warnings]].forEach(([icon, list]) => {
+      (list as A11yIssue[]).forEach((issue, index) => {
+        console.log(`${icon} ${index + 1}. [${issue.category}] ${issue.message}`);
+        if (issue.recommendation) {
+          console.log(`   💡 ${issue.recommendation}`);
+        }
+      });
+    });
+
+    if (errors.length > 0) {
+      console.log('\n❌ Accessibility validation failed');
+      process.exit(1);
+    }
+
+    console.log('\n⚠️  Accessibility validation passed with warnings');
+    process.exit(0);
+
+  } catch (error) {
+    console.error('❌ Validation error:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+// Run validation
+runA11yValidation();
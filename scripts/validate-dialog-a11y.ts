@@ -0,0 +1,195 @@
+/**
+ * Accessibility Validation for Dialog Component
+ *
+ * Validates that kds-dialog meets WCAG 2.1 AA standards.
+ *
+ * Checks:
+ * - Native modal dialog semantics and labelling
+ * - Focus move, trap and restore
+ * - Escape dismissal, nested stacking and scroll lock
+ * - Reduced motion
+ *
+ * Usage: tsx scripts/validate-dialog-a11y.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+interface A11yIssue {
+  type: 'error' | 'warning';
+  category: string;
+  message: string;
+  recommendation?: string;
+}
+
+const issues: A11yIssue[] = [];
+
+function addIssue(type: 'error' | 'warning', category: string, message: string, recommendation?: string) {
+  issues.push({ type, category, message, recommendation });
+}
+
+/**
+ * Read the component source file
+ */
+function readSource(fileName: string): string {
+  const filePath = path.join(__dirname, '../packages/web-components/src/components', fileName);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Component not found at ${filePath}`);
+  }
+  return fs.readFileSync(filePath, 'utf-8');
+}
+
+/**
+ * Check dialog semantics and labelling
+ */
+function checkSemantics(source: string): void {
+  console.log('\n🔍 Checking dialog semantics...');
+
+  if (source.includes('<dialog') && source.includes('showModal()')) {
+    console.log('  ✅ Native <dialog> shown with showModal() (dialog role, aria-modal and inert page exposed natively)');
+  } else {
+    addIssue('error', 'ARIA', 'Dialog does not use a modal native <dialog>',
+      'Use <dialog> with showModal() so assistive technology treats the rest of the page as inert (WCAG 4.1.2)');
+  }
+
+  if (source.includes("aria-labelledby=${this.ariaLabel ? nothing : 'title'}") && source.includes('id="title"')) {
+    console.log('  ✅ Dialog is labelled by its heading');
+  } else {
+    addIssue('error', 'ARIA', 'Dialog has no accessible name',
+      'Reference the heading from aria-labelledby (WCAG 4.1.2 Name, Role, Value)');
+  }
+
+  if (source.includes('aria-label=')) {
+    console.log('  ✅ aria-label fallback for dialogs without a heading');
+  } else {
+    addIssue('warning', 'ARIA', 'No accessible name when the heading is omitted');
+  }
+
+  if (source.includes('<h2')) {
+    console.log('  ✅ Heading rendered as <h2>');
+  } else {
+    addIssue('warning', 'ARIA', 'Dialog title is not a heading');
+  }
+
+  if (source.includes('featured-icon" aria-hidden="true"')) {
+    console.log('  ✅ Decorative featured icon hidden from assistive technology');
+  } else {
+    addIssue('warning', 'ARIA', 'Featured icon is exposed to assistive technology');
+  }
+}
+
+/**
+ * Check focus management
+ */
+function checkFocus(source: string): void {
+  console.log('\n🔍 Checking focus management...');
+
+  if (source.includes('_focusInitial') && source.includes('[autofocus]')) {
+    console.log('  ✅ Focus moves into the dialog on open (autofocus or first focusable)');
+  } else {
+    addIssue('error', 'Focus', 'Focus does not move into the dialog on open',
+      'Focus the first focusable element when the dialog opens (WCAG 2.4.3 Focus Order)');
+  }
+
+  if (source.includes("event.key !== 'Tab'") && source.includes('collectTabbable')) {
+    console.log('  ✅ Tab and Shift+Tab wrap inside the dialog (focus trap)');
+  } else {
+    addIssue('error', 'Focus', 'Focus can leave the open dialog',
+      'Wrap Tab / Shift+Tab inside the dialog (WAI-ARIA dialog pattern)');
+  }
+
+  if (source.includes('_restoreFocus')) {
+    console.log('  ✅ Focus returns to the trigger on close');
+  } else {
+    addIssue('error', 'Focus', 'Focus is not restored on close',
+      'Return focus to the element that opened the dialog (WCAG 2.4.3)');
+  }
+}
+
+/**
+ * Check dismissal, stacking and motion
+ */
+function checkDismissal(source: string): void {
+  console.log('\n🔍 Checking dismissal and motion...');
+
+  if (source.includes('@cancel=')) {
+    console.log('  ✅ Escape closes the dialog');
+  } else {
+    addIssue('error', 'Keyboard', 'Escape does not close the dialog',
+      'Close the dialog on Escape (WAI-ARIA dialog pattern)');
+  }
+
+  if (source.includes('_isTopmost')) {
+    console.log('  ✅ Only the topmost of stacked dialogs reacts to Tab, Escape and backdrop clicks');
+  } else {
+    addIssue('warning', 'Keyboard', 'Nested dialogs are not handled');
+  }
+
+  if (source.includes("overflow = 'hidden'")) {
+    console.log('  ✅ Page scroll locked while open');
+  } else {
+    addIssue('warning', 'Focus', 'Page behind the dialog can scroll');
+  }
+
+  if (source.includes('prefers-reduced-motion')) {
+    console.log('  ✅ Respects prefers-reduced-motion');
+  } else {
+    addIssue('warning', 'Motion', 'Open animation ignores prefers-reduced-motion');
+  }
+}
+
+/**
+ * Run all accessibility checks
+ */
+function runA11yValidation(): void {
+  console.log('🔍 Dialog Component - Accessibility Validation');
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+
+  try {
+    const source = readSource('kds-dialog.ts');
+
+    checkSemantics(source);
+    checkFocus(source);
+    checkDismissal(source);
+
+    console.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    console.log('📊 Accessibility Validation Summary\n');
+
+    const errors = issues.filter(i => i.type === 'error');
+    const warnings = issues.filter(i => i.type === 'warning');
+
+    if (errors.length === 0 && warnings.length === 0) {
+      console.log('✅ All accessibility checks passed!');
+      console.log('\n✨ Dialog component meets WCAG 2.1 AA standards');
+      process.exit(0);
+    }
+
+    [['❌', errors], ['⚠️ ', warnings]].forEach(([icon, list]) => {
+      (list as A11yIssue[]).forEach((issue, index) => {
+        console.log(`${icon} ${index + 1}. [${issue.category}] ${issue.message}`);
+        if (issue.recommendation) {
+          console.log(`   💡 ${issue.recommendation}`);
+        }
+      });
+    });
+
+    if (errors.length > 0) {
+      console.log('\n❌ Accessibility validation failed');
+      process.exit(1);
+    }
+
+    console.log('\n⚠️  Accessibility validation passed with warnings');
+    process.exit(0);
+
+  } catch (error) {
+    console.error('❌ Validation error:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+// Run validation
+runA11yValidation();
@@ -0,0 +1,156 @@
+/**
+ * Accessibility Validation for File Upload Component
+ *
+ * Validates that kds-file-upload meets WCAG 2.1 AA standards.
+ *
+ * Checks:
+ * - Keyboard alternative to drag and drop, named remove buttons
+ * - Error state and messages exposed to assistive technology
+ *
+ * Usage: tsx scripts/validate-file-upload-a11y.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+interface A11yIssue {
+  type: 'error' | 'warning';
+  category: string;
+  message: string;
+  recommendation?: string;
+}
+
+const issues: A11yIssue[] = [];
+
+function addIssue(type: 'error' | 'warning', category: string, message: string, recommendation?: string) {
+  issues.push({ type, category, message, recommendation });
+}
+
+/**
+ * Read the component source file
+ */
+function readSource(fileName: string): string {
+  const filePath = path.join(__dirname, '../packages/web-components/src/components', fileName);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Component not found at ${filePath}`);
+  }
+  return fs.readFileSync(filePath, 'utf-8');
+}
+
+/**
+ * Check keyboard access to the picker and the file list
+ */
+function checkKeyboard(source: string): void {
+  console.log('\n🔍 Checking keyboard access...');
+
+  if (source.includes('class="browse"') && source.includes('type="button"')) {
+    console.log('  ✅ Native browse button opens the picker (drag and drop is optional)');
+  } else {
+    addIssue('error', 'Keyboard', 'Files can only be added by dragging',
+      'Offer a focusable button that opens the file picker (WCAG 2.1.1 Keyboard, 2.5.7 Dragging Movements)');
+  }
+
+  if (source.includes('aria-label=${`${this.removeLabel} ${file.name}`}')) {
+    console.log('  ✅ Remove buttons are named after their file');
+  } else {
+    addIssue('error', 'ARIA', 'Remove buttons have no distinct accessible name',
+      'Name each remove button after its file (WCAG 2.4.6 Headings and Labels, 4.1.2)');
+  }
+
+  if (source.includes('(next ?? this._browseButton)?.focus()')) {
+    console.log('  ✅ Focus stays in the list after removing a file');
+  } else {
+    addIssue('warning', 'Focus', 'Focus is lost when a file is removed');
+  }
+
+  if (source.includes('.browse:focus-visible') && source.includes('.remove:focus-visible')) {
+    console.log('  ✅ Visible focus indicators');
+  } else {
+    addIssue('error', 'Focus', 'Buttons have no focus indicator',
+      'Add :focus-visible styles (WCAG 2.4.7 Focus Visible)');
+  }
+}
+
+/**
+ * Check that rejections and validation errors reach assistive technology
+ */
+function checkErrors(source: string): void {
+  console.log('\n🔍 Checking error messages...');
+
+  if (source.includes("aria-invalid=${invalid ? 'true' : nothing}") &&
+      source.includes("aria-describedby=${ifDefined(hint ? 'hint' : undefined)}")) {
+    console.log('  ✅ Browse button is marked invalid and described by the hint');
+  } else {
+    addIssue('error', 'ARIA', 'Error state is not exposed on the browse button',
+      'Set aria-invalid and describe the button by the message (WCAG 3.3.1 Error Identification)');
+  }
+
+  if (source.includes('id="hint" aria-live="polite"')) {
+    console.log('  ✅ Rejection messages are announced');
+  } else {
+    addIssue('warning', 'ARIA', 'Rejected files are not announced',
+      'Make the hint a polite live region (WCAG 4.1.3 Status Messages)');
+  }
+
+  if (source.includes('aria-label=${`Uploading ${file.name}`}')) {
+    console.log('  ✅ Progress bars are named after their file');
+  } else {
+    addIssue('error', 'ARIA', 'Progress bars have no accessible name',
+      'Name each progress bar (WCAG 4.1.2 Name, Role, Value)');
+  }
+}
+
+/**
+ * Run all accessibility checks
+ */
+function runA11yValidation(): void {
+  console.log('🔍 File Upload Component - Accessibility Validation');
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+
+  try {
+    const source = readSource('kds-file-upload.ts');
+
+    checkKeyboard(source);
+    checkErrors(source);
+
+    console.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    console.log('📊 Accessibility Validation Summary\n');
+
+    const errors = issues.filter(i => i.type === 'error');
+    const warnings = issues.filter(i => i.type === 'warning');
+
+    if (errors.length === 0 && warnings.length === 0) {
+      console.log('✅ All accessibility checks passed!');
+      console.log('\n✨ File Upload component meets WCAG 2.1 AA standards');
+      process.exit(0);
+    }
+
+    [['❌', errors], ['⚠️ ', warnings]].forEach(([icon, list]) => {
+      (list as A11yIssue[]).forEach((issue, index) => {
+        console.log(`${icon} ${index + 1}. [${issue.category}] ${issue.message}`);
+        if (issue.recommendation) {
+          console.log(`   💡 ${issue.recommendation}`);
+        }
+      });
+    });
+
+    if (errors.length > 0) {
+      console.log('\n❌ Accessibility validation failed');
+      process.exit(1);
+    }
+
+    console.log('\n⚠️  Accessibility validation passed with warnings');
+    process.exit(0);
+
+  } catch (error) {
+    console.error('❌ Validation error:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+// Run validation
+runA11yValidation();
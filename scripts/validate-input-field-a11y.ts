@@ -291,11 +291,44 @@ function checkFormParticipation(source: string): void {
     console.log('  OK: name attribute propagated to native <input>');
   }
 
-  console.log('  INFO: For Shadow DOM form participation, consider ElementInternals (FormAssociated)');
-  addIssue('info', 'Form', 'Shadow DOM <input> may not participate in ancestor <form> without ElementInternals', {
-    wcag: 'WCAG 4.1.2 Name, Role, Value',
-    recommendation: 'For full form support across Shadow DOM boundaries, implement FormAssociated mixin with ElementInternals',
-  });
+  if (source.includes('static formAssociated = true') && source.includes('attachInternals()')) {
+    console.log('  OK: Form-associated via ElementInternals (value reaches ancestor <form>)');
+  } else {
+    addIssue('warning', 'Form', 'Shadow DOM <input> does not participate in ancestor <form> without ElementInternals', {
+      wcag: 'WCAG 4.1.2 Name, Role, Value',
+      recommendation: 'Declare static formAssociated = true and call attachInternals() to submit the value',
+    });
+  }
+
+  if (source.includes('formResetCallback') && source.includes('formDisabledCallback')) {
+    console.log('  OK: Form reset and <fieldset disabled> are handled');
+  } else {
+    addIssue('warning', 'Form', 'Form reset or fieldset disabled state not handled', {
+      recommendation: 'Implement formResetCallback() and formDisabledCallback()',
+    });
+  }
+}
+
+function checkConstraintValidation(source: string): void {
+  console.log('\nChecking constraint validation...');
+
+  if (source.includes('setValidity(') && source.includes('reportValidity()')) {
+    console.log('  OK: Validity exposed through ElementInternals (checkValidity/reportValidity)');
+  } else {
+    addIssue('warning', 'Validation', 'Validity is not exposed to the owning form', {
+      wcag: 'WCAG 3.3.1 Error Identification',
+      recommendation: 'Mirror the native input validity with ElementInternals.setValidity()',
+    });
+  }
+
+  if (source.includes('_validationMessage') && source.includes("aria-invalid=${invalid")) {
+    console.log('  OK: Failed validation sets aria-invalid and shows the message as hint text');
+  } else {
+    addIssue('warning', 'Validation', 'Failed validation may not be announced to assistive technology', {
+      wcag: 'WCAG 3.3.1 Error Identification',
+      recommendation: 'Set aria-invalid and render the validation message in the aria-describedby hint',
+    });
+  }
 }
 
 function checkColorContrast(): void {
@@ -357,6 +390,7 @@ function runA11yValidation(): void {
     checkFocusManagement(source);
     checkKeyboardNavigation(source);
     checkFormParticipation(source);
+    checkConstraintValidation(source);
     checkColorContrast();
     checkInputType(source);
 
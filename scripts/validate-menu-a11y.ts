@@ -0,0 +1,209 @@
+/**
+ * Accessibility Validation for Menu Component
+ *
+ * Validates that kds-menu meets WCAG 2.1 AA standards.
+ *
+ * Checks:
+ * - menu/menuitem roles, checked, disabled and expanded states
+ * - WAI-ARIA menu keyboard model, including submenus and typeahead
+ * - Focus return and focus indicator
+ *
+ * Usage: tsx scripts/validate-menu-a11y.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+interface A11yIssue {
+  type: 'error' | 'warning';
+  category: string;
+  message: string;
+  recommendation?: string;
+}
+
+const issues: A11yIssue[] = [];
+
+function addIssue(type: 'error' | 'warning', category: string, message: string, recommendation?: string) {
+  issues.push({ type, category, message, recommendation });
+}
+
+/**
+ * Read the component source file
+ */
+function readSource(fileName: string): string {
+  const filePath = path.join(__dirname, '../packages/web-components/src/components', fileName);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Component not found at ${filePath}`);
+  }
+  return fs.readFileSync(filePath, 'utf-8');
+}
+
+/**
+ * Check menu semantics and states
+ */
+function checkSemantics(source: string): void {
+  console.log('\n🔍 Checking menu semantics...');
+
+  if (source.includes('role="menu"') && ['menuitem', 'menuitemcheckbox', 'menuitemradio'].every((role) => source.includes(`'${role}'`))) {
+    console.log('  ✅ menu, menuitem, menuitemcheckbox and menuitemradio roles');
+  } else {
+    addIssue('error', 'ARIA', 'Menu is missing menu/menuitem roles',
+      'Follow the WAI-ARIA menu pattern (WCAG 4.1.2 Name, Role, Value)');
+  }
+
+  if (source.includes('role="separator"')) {
+    console.log('  ✅ Separators exposed with role="separator"');
+  } else {
+    addIssue('warning', 'ARIA', 'Separators are not exposed to assistive technology');
+  }
+
+  if (source.includes('aria-checked=${checkable ? String(this.checked) : nothing}')) {
+    console.log('  ✅ Checked state of checkbox and radio items exposed with aria-checked');
+  } else {
+    addIssue('error', 'ARIA', 'Checked state is not exposed',
+      'Set aria-checked on menuitemcheckbox and menuitemradio (WCAG 4.1.2)');
+  }
+
+  if (source.includes("aria-disabled=${this.disabled ? 'true' : nothing}")) {
+    console.log('  ✅ Disabled items exposed with aria-disabled');
+  } else {
+    addIssue('warning', 'ARIA', 'Disabled state of items is not exposed');
+  }
+
+  if (source.includes("trigger.setAttribute('aria-haspopup', 'menu')") && source.includes("trigger.setAttribute('aria-expanded'")) {
+    console.log('  ✅ Trigger exposes aria-haspopup and aria-expanded');
+  } else {
+    addIssue('error', 'ARIA', 'Trigger does not announce the menu',
+      'Set aria-haspopup="menu" and aria-expanded on the trigger (WCAG 4.1.2)');
+  }
+
+  if (source.includes("aria-haspopup=${this._hasSubmenu ? 'menu' : nothing}") && source.includes('aria-expanded=${this._hasSubmenu ? String(this.expanded) : nothing}')) {
+    console.log('  ✅ Items with a submenu expose aria-haspopup and aria-expanded');
+  } else {
+    addIssue('error', 'ARIA', 'Submenu items do not announce their submenu',
+      'Set aria-haspopup and aria-expanded on items that open a submenu (WCAG 4.1.2)');
+  }
+
+  if (source.includes('aria-label=${label}')) {
+    console.log('  ✅ Menu is labelled (aria-label, trigger or parent item text)');
+  } else {
+    addIssue('warning', 'ARIA', 'Menu has no accessible name');
+  }
+
+  if (source.includes('aria-hidden="true"')) {
+    console.log('  ✅ Decorative indicators and chevrons hidden from assistive technology');
+  } else {
+    addIssue('warning', 'ARIA', 'Decorative icons are exposed to assistive technology');
+  }
+}
+
+/**
+ * Check keyboard model and focus
+ */
+function checkKeyboard(source: string): void {
+  console.log('\n🔍 Checking keyboard and focus...');
+
+  if (source.includes('tabindex="-1"')) {
+    console.log('  ✅ Items are focused programmatically (not in the tab order)');
+  } else {
+    addIssue('error', 'Keyboard', 'Menu items are tab stops',
+      'Items should take focus with the arrow keys only (WAI-ARIA menu pattern)');
+  }
+
+  const keys = ['ArrowDown', 'ArrowUp', 'Home', 'End', 'Enter', ' ', 'Escape', 'Tab'];
+  const missing = keys.filter((key) => !source.includes(`case '${key}'`));
+  if (missing.length === 0) {
+    console.log('  ✅ Arrow keys, Home, End, Enter, Space, Escape and Tab handled');
+  } else {
+    addIssue('error', 'Keyboard', `Missing key handling: ${missing.join(', ')}`,
+      'Support the WAI-ARIA menu keyboard model (WCAG 2.1.1 Keyboard)');
+  }
+
+  if (source.includes('case openKey') && source.includes('case closeKey') && source.includes("direction === 'rtl'")) {
+    console.log('  ✅ Submenus open and close with Left/Right, swapped in RTL');
+  } else {
+    addIssue('error', 'Keyboard', 'Submenus cannot be opened or closed from the keyboard',
+      'Open submenus with ArrowRight and close them with ArrowLeft (WCAG 2.1.1)');
+  }
+
+  if (source.includes('_handleTriggerKeyDown') && source.includes("this.show(event.key === 'ArrowDown' ? 'first' : 'last')")) {
+    console.log('  ✅ ArrowDown/ArrowUp on the trigger open the menu');
+  } else {
+    addIssue('warning', 'Keyboard', 'Trigger does not open the menu with the arrow keys');
+  }
+
+  if (source.includes('_focusByCharacter')) {
+    console.log('  ✅ Typeahead moves to items by their first character');
+  } else {
+    addIssue('warning', 'Keyboard', 'No typeahead');
+  }
+
+  if (source.includes('_getTrigger()?.focus()')) {
+    console.log('  ✅ Focus returns to the trigger when the menu closes');
+  } else {
+    addIssue('error', 'Focus', 'Focus is lost when the menu closes',
+      'Return focus to the trigger (WCAG 2.4.3 Focus Order)');
+  }
+
+  if (source.includes('.item:focus-visible')) {
+    console.log('  ✅ Visible focus indicator');
+  } else {
+    addIssue('error', 'Focus', 'Menu items have no focus indicator',
+      'Add :focus-visible styles (WCAG 2.4.7 Focus Visible)');
+  }
+}
+
+/**
+ * Run all accessibility checks
+ */
+function runA11yValidation(): void {
+  console.log('🔍 Menu Component - Accessibility Validation');
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+
+  try {
+    const source = readSource('kds-menu.ts');
+
+    checkSemantics(source);
+    checkKeyboard(source);
+
+    console.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    console.log('📊 Accessibility Validation Summary\n');
+
+    const errors = issues.filter(i => i.type === 'error');
+    const warnings = issues.filter(i => i.type === 'warning');
+
+    if (errors.length === 0 && warnings.length === 0) {
+      console.log('✅ All accessibility checks passed!');
+      console.log('\n✨ Menu component meets WCAG 2.1 AA standards');
+      process.exit(0);
+    }
+
+    [['❌', errors], ['⚠️ ', warnings]].forEach(([icon, list]) => {
+      (list as A11yIssue[]).forEach((issue, index) => {
+        console.log(`${icon} ${index + 1}. [${issue.category}] ${issue.message}`);
+        if (issue.recommendation) {
+          console.log(`   💡 ${issue.recommendation}`);
+        }
+      });
+    });
+
+    if (errors.length > 0) {
+      console.log('\n❌ Accessibility validation failed');
+      process.exit(1);
+    }
+
+    console.log('\n⚠️  Accessibility validation passed with warnings');
+    process.exit(0);
+
+  } catch (error) {
+    console.error('❌ Validation error:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+// Run validation
+runA11yValidation();
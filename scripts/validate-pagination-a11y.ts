@@ -0,0 +1,187 @@
+/**
+ * Accessibility Validation for Pagination Component
+ *
+ * Validates that kds-pagination meets WCAG 2.1 AA standards.
+ *
+ * Checks:
+ * - Navigation landmark, aria-current and control names
+ * - Button group keyboard model and focus at the bounds
+ * - Labelled page size selector
+ *
+ * Usage: tsx scripts/validate-pagination-a11y.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+interface A11yIssue {
+  type: 'error' | 'warning';
+  category: string;
+  message: string;
+  recommendation?: string;
+}
+
+const issues: A11yIssue[] = [];
+
+function addIssue(type: 'error' | 'warning', category: string, message: string, recommendation?: string) {
+  issues.push({ type, category, message, recommendation });
+}
+
+/**
+ * Read the component source file
+ */
+function readSource(fileName: string): string {
+  const filePath = path.join(__dirname, '../packages/web-components/src/components', fileName);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Component not found at ${filePath}`);
+  }
+  return fs.readFileSync(filePath, 'utf-8');
+}
+
+/**
+ * Check navigation semantics
+ */
+function checkSemantics(source: string, itemSource: string): void {
+  console.log('\n🔍 Checking navigation semantics...');
+
+  if (source.includes("<nav aria-label=${this.ariaLabel || 'Pagination'}>")) {
+    console.log('  ✅ Pages are inside a labelled navigation landmark');
+  } else {
+    addIssue('error', 'ARIA', 'Pagination is not a labelled navigation landmark',
+      'Wrap the pages in <nav> with an accessible name (WCAG 1.3.1 Info and Relationships)');
+  }
+
+  if (source.includes("aria-current=${current ? 'page' : nothing}") &&
+      itemSource.includes("aria-current=${ifDefined(isCurrentItem ? this.ariaCurrent! : undefined)}")) {
+    console.log('  ✅ Current page is marked with aria-current="page"');
+  } else {
+    addIssue('error', 'ARIA', 'Current page is not exposed',
+      'Set aria-current="page" on the current page button (WCAG 4.1.2 Name, Role, Value)');
+  }
+
+  if (source.includes('.pressable=${false}') &&
+      itemSource.includes('aria-pressed=${ifDefined(isPressed ? String(this.selected) : undefined)}')) {
+    console.log('  ✅ Page buttons are not announced as toggle buttons');
+  } else {
+    addIssue('warning', 'ARIA', 'Page buttons expose aria-pressed next to aria-current');
+  }
+
+  if (source.includes('aria-label=${`Page ${entry}`}')) {
+    console.log('  ✅ Page buttons are named "Page N"');
+  } else {
+    addIssue('warning', 'ARIA', 'Page buttons are announced as bare numbers');
+  }
+
+  const controls = ['First page', 'Previous page', 'Next page', 'Last page'];
+  const unnamed = controls.filter((label) => !source.includes(`'${label}'`));
+  if (unnamed.length === 0 && source.includes('aria-label=${CONTROL_LABELS[control]}')) {
+    console.log('  ✅ Icon-only controls have accessible names');
+  } else {
+    addIssue('error', 'ARIA', `Controls without a name: ${unnamed.join(', ') || 'all'}`,
+      'Name icon-only buttons with aria-label (WCAG 1.1.1 Non-text Content)');
+  }
+
+  if (source.includes('class="ellipsis" part="ellipsis" aria-hidden="true"')) {
+    console.log('  ✅ Ellipses are hidden from assistive technology');
+  } else {
+    addIssue('warning', 'ARIA', 'Ellipses are announced');
+  }
+}
+
+/**
+ * Check keyboard support and focus
+ */
+function checkKeyboard(source: string): void {
+  console.log('\n🔍 Checking keyboard support...');
+
+  if (source.includes('<kds-button-group ')) {
+    console.log('  ✅ Pages use the button group roving tabindex and arrow keys');
+  } else {
+    addIssue('error', 'Keyboard', 'Pages are not keyboard operable as a group',
+      'Render the pages in kds-button-group (WCAG 2.1.1 Keyboard)');
+  }
+
+  if (source.includes("?disabled=${this.disabled || disabled}")) {
+    console.log('  ✅ Controls are disabled at the first and last page');
+  } else {
+    addIssue('warning', 'Keyboard', 'Controls stay enabled at the bounds');
+  }
+
+  if (source.includes("active.matches('kds-button-group-item[disabled]')")) {
+    console.log('  ✅ Focus moves to the current page when its control becomes disabled');
+  } else {
+    addIssue('error', 'Focus', 'Focus is lost when a control becomes disabled',
+      'Move focus to the current page (WCAG 2.4.3 Focus Order)');
+  }
+}
+
+/**
+ * Check the page size selector
+ */
+function checkPageSize(source: string): void {
+  console.log('\n🔍 Checking page size selector...');
+
+  if (source.includes('aria-label=${this.pageSizeLabel}')) {
+    console.log('  ✅ Page size selector is labelled');
+  } else {
+    addIssue('error', 'Forms', 'Page size selector has no label',
+      'Name the selector with its visible label (WCAG 3.3.2 Labels or Instructions)');
+  }
+}
+
+/**
+ * Run all accessibility checks
+ */
+function runA11yValidation(): void {
+  console.log('🔍 Pagination Component - Accessibility Validation');
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+
+  try {
+    const source = readSource('kds-pagination.ts');
+    const itemSource = readSource('kds-button-group.ts');
+
+    checkSemantics(source, itemSource);
+    checkKeyboard(source);
+    checkPageSize(source);
+
+    console.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    console.log('📊 Accessibility Validation Summary\n');
+
+    const errors = issues.filter(i => i.type === 'error');
+    const warnings = issues.filter(i => i.type === 'warning');
+
+    if (errors.length === 0 && warnings.length === 0) {
+      console.log('✅ All accessibility checks passed!');
+      console.log('\n✨ Pagination component meets WCAG 2.1 AA standards');
+      process.exit(0);
+    }
+
+    [['❌', errors], ['⚠️ ', warnings]].forEach(([icon, list]) => {
+      (list as A11yIssue[]).forEach((issue, index) => {
+        console.log(`${icon} ${index + 1}. [${issue.category}] ${issue.message}`);
+        if (issue.recommendation) {
+          console.log(`   💡 ${issue.recommendation}`);
+        }
+      });
+    });
+
+    if (errors.length > 0) {
+      console.log('\n❌ Accessibility validation failed');
+      process.exit(1);
+    }
+
+    console.log('\n⚠️  Accessibility validation passed with warnings');
+    process.exit(0);
+
+  } catch (error) {
+    console.error('❌ Validation error:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+// Run validation
+runA11yValidation();
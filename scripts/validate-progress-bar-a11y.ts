@@ -0,0 +1,150 @@
+/**
+ * Accessibility Validation for Progress Bar Component
+ *
+ * Validates that kds-progress-bar meets WCAG 2.1 AA standards.
+ *
+ * Checks:
+ * - progressbar role, value attributes and accessible name
+ * - Reduced motion fallback
+ *
+ * Usage: tsx scripts/validate-progress-bar-a11y.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+interface A11yIssue {
+  type: 'error' | 'warning';
+  category: string;
+  message: string;
+  recommendation?: string;
+}
+
+const issues: A11yIssue[] = [];
+
+function addIssue(type: 'error' | 'warning', category: string, message: string, recommendation?: string) {
+  issues.push({ type, category, message, recommendation });
+}
+
+/**
+ * Read the component source file
+ */
+function readSource(fileName: string): string {
+  const filePath = path.join(__dirname, '../packages/web-components/src/components', fileName);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Component not found at ${filePath}`);
+  }
+  return fs.readFileSync(filePath, 'utf-8');
+}
+
+/**
+ * Check progressbar semantics
+ */
+function checkSemantics(source: string): void {
+  console.log('\n🔍 Checking progressbar semantics...');
+
+  if (source.includes('role="progressbar"')) {
+    console.log('  ✅ role="progressbar"');
+  } else {
+    addIssue('error', 'ARIA', 'Progress bar has no progressbar role',
+      'Expose the bar as role="progressbar" (WCAG 4.1.2 Name, Role, Value)');
+  }
+
+  if (source.includes('aria-valuemin="0"') && source.includes('aria-valuemax="100"') &&
+      source.includes('aria-valuenow=${this.indeterminate ? nothing : percent}')) {
+    console.log('  ✅ aria-valuemin/max/now, with aria-valuenow omitted while indeterminate');
+  } else {
+    addIssue('error', 'ARIA', 'Progress value is not exposed',
+      'Set aria-valuenow, and omit it for indeterminate progress (WCAG 4.1.2)');
+  }
+
+  if (source.includes("aria-labelledby=${this.label && !this.ariaLabel ? 'label' : nothing}") &&
+      source.includes('aria-label=${this.ariaLabel || nothing}')) {
+    console.log('  ✅ Named by its visible label or aria-label');
+  } else {
+    addIssue('error', 'ARIA', 'Progress bar has no accessible name',
+      'Reference the visible label with aria-labelledby (WCAG 1.3.1 Info and Relationships)');
+  }
+
+  if (source.includes('aria-hidden="true">${percent}%</span>') && source.includes('aria-valuetext=')) {
+    console.log('  ✅ Percentage text is not announced twice');
+  } else {
+    addIssue('warning', 'ARIA', 'Percentage text duplicates the progressbar value');
+  }
+}
+
+/**
+ * Check animation and reduced motion
+ */
+function checkMotion(source: string): void {
+  console.log('\n🔍 Checking motion...');
+
+  if (source.includes('prefers-reduced-motion')) {
+    console.log('  ✅ Respects prefers-reduced-motion');
+  } else {
+    addIssue('error', 'Motion', 'Indeterminate animation ignores prefers-reduced-motion',
+      'Provide a static fallback (WCAG 2.3.3 Animation from Interactions)');
+  }
+
+  const reduced = source.slice(source.indexOf('@media (prefers-reduced-motion: reduce)'));
+  if (reduced.includes('animation: none') && reduced.includes('transition: none')) {
+    console.log('  ✅ Indeterminate bar is static and the fill does not animate');
+  } else {
+    addIssue('warning', 'Motion', 'Bar still moves with reduced motion');
+  }
+}
+
+/**
+ * Run all accessibility checks
+ */
+function runA11yValidation(): void {
+  console.log('🔍 Progress Bar Component - Accessibility Validation');
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+
+  try {
+    const source = readSource('kds-progress-bar.ts');
+
+    checkSemantics(source);
+    checkMotion(source);
+
+    console.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    console.log('📊 Accessibility Validation Summary\n');
+
+    const errors = issues.filter(i => i.type === 'error');
+    const warnings = issues.filter(i => i.type === 'warning');
+
+    if (errors.length === 0 && warnings.length === 0) {
+      console.log('✅ All accessibility checks passed!');
+      console.log('\n✨ Progress Bar component meets WCAG 2.1 AA standards');
+      process.exit(0);
+    }
+
+    [['❌', errors], ['⚠️ ', warnings]].forEach(([icon, list]) => {
+      (list as A11yIssue[]).forEach((issue, index) => {
+        console.log(`${icon} ${index + 1}. [${issue.category}] ${issue.message}`);
+        if (issue.recommendation) {
+          console.log(`   💡 ${issue.recommendation}`);
+        }
+      });
+    });
+
+    if (errors.length > 0) {
+      console.log('\n❌ Accessibility validation failed');
+      process.exit(1);
+    }
+
+    console.log('\n⚠️  Accessibility validation passed with warnings');
+    process.exit(0);
+
+  } catch (error) {
+    console.error('❌ Validation error:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+// Run validation
+runA11yValidation();
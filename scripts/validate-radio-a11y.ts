@@ -0,0 +1,219 @@
+/**
+ * Accessibility Validation for Radio and Radio Group Components
+ *
+ * Validates that kds-radio and kds-radio-group meet WCAG 2.1 AA standards.
+ *
+ * Checks:
+ * - Native radio semantics and labelling
+ * - Keyboard navigation (roving tabindex, arrow keys)
+ * - Required validation
+ * - Radio group role, accessible name and hint association
+ *
+ * Usage: tsx scripts/validate-radio-a11y.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+interface A11yIssue {
+  type: 'error' | 'warning';
+  category: string;
+  message: string;
+  recommendation?: string;
+}
+
+const issues: A11yIssue[] = [];
+
+function addIssue(type: 'error' | 'warning', category: string, message: string, recommendation?: string) {
+  issues.push({ type, category, message, recommendation });
+}
+
+/**
+ * Read a component source file
+ */
+function readSource(fileName: string): string {
+  const filePath = path.join(__dirname, '../packages/web-components/src/components', fileName);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Component not found at ${filePath}`);
+  }
+  return fs.readFileSync(filePath, 'utf-8');
+}
+
+/**
+ * Check radio semantics and labelling
+ */
+function checkRadioSemantics(source: string): void {
+  console.log('\n🔍 Checking radio semantics...');
+
+  if (source.includes('type="radio"')) {
+    console.log('  ✅ Uses a native radio input (role and checked state exposed natively)');
+  } else {
+    addIssue('error', 'ARIA', 'Radio does not use a native radio input',
+      'Use <input type="radio"> so assistive technology announces the role and state (WCAG 4.1.2)');
+  }
+
+  if (source.includes('<label class="radio-wrapper"')) {
+    console.log('  ✅ Label text is associated with the input (wrapping <label>)');
+  } else {
+    addIssue('error', 'ARIA', 'Radio label is not associated with the input');
+  }
+
+  if (source.includes('aria-label=')) {
+    console.log('  ✅ aria-label supported for radios without visible text');
+  } else {
+    addIssue('warning', 'ARIA', 'No aria-label support for radios without visible text');
+  }
+
+  if (source.includes('aria-invalid=')) {
+    console.log('  ✅ aria-invalid set in error state');
+  } else {
+    addIssue('warning', 'ARIA', 'Error state not exposed via aria-invalid');
+  }
+
+  if (source.includes(':focus-visible + .radio')) {
+    console.log('  ✅ Visible focus ring (WCAG 2.4.7)');
+  } else {
+    addIssue('error', 'Focus', 'No visible focus indicator',
+      'Show the focus ring on :focus-visible (WCAG 2.4.7 Focus Visible)');
+  }
+}
+
+/**
+ * Check keyboard navigation
+ */
+function checkKeyboardNavigation(source: string): void {
+  console.log('\n🔍 Checking keyboard navigation...');
+
+  if (source.includes('rovingTabIndex') && source.includes('_updateSet')) {
+    console.log('  ✅ Roving tabindex: one tab stop per radio set');
+  } else {
+    addIssue('error', 'Keyboard', 'Every radio is a separate tab stop',
+      'Only the checked (or first enabled) radio of a set should be in the tab order');
+  }
+
+  const keys = ['ArrowRight', 'ArrowLeft', 'ArrowDown', 'ArrowUp'];
+  const missing = keys.filter((key) => !source.includes(`'${key}'`));
+  if (missing.length === 0) {
+    console.log('  ✅ Arrow keys move focus and selection');
+  } else {
+    addIssue('error', 'Keyboard', `Missing arrow key handling: ${missing.join(', ')}`,
+      'Arrow keys must move to and check the previous/next radio (WAI-ARIA radio group pattern)');
+  }
+
+  if (source.includes("direction === 'rtl'")) {
+    console.log('  ✅ Left/Right arrows follow the writing direction (RTL)');
+  } else {
+    addIssue('warning', 'Keyboard', 'Left/Right arrows ignore right-to-left layouts');
+  }
+
+  if (source.includes('!radio.isDisabled')) {
+    console.log('  ✅ Disabled radios are skipped');
+  } else {
+    addIssue('warning', 'Keyboard', 'Arrow keys may land on disabled radios');
+  }
+}
+
+/**
+ * Check required validation
+ */
+function checkRequired(source: string): void {
+  console.log('\n🔍 Checking required validation...');
+
+  if (source.includes('valueMissing: true')) {
+    console.log('  ✅ Required sets report valueMissing until a radio is checked (WCAG 3.3.1)');
+  } else {
+    addIssue('error', 'Form', 'Required radios are not validated',
+      'Set valueMissing on the set while no radio is checked');
+  }
+}
+
+/**
+ * Check radio group role, name and hint
+ */
+function checkGroupSemantics(source: string): void {
+  console.log('\n🔍 Checking radio group semantics...');
+
+  if (source.includes('role="radiogroup"')) {
+    console.log('  ✅ Container has role="radiogroup"');
+  } else {
+    addIssue('error', 'ARIA', 'Container missing role="radiogroup"',
+      'Group related radios with role="radiogroup" (WCAG 1.3.1 Info and Relationships)');
+  }
+
+  if (source.includes('aria-labelledby=') && source.includes('id="label"')) {
+    console.log('  ✅ Group is named by its visible label (aria-labelledby)');
+  } else {
+    addIssue('error', 'ARIA', 'Group label is not associated with the group');
+  }
+
+  if (source.includes('aria-describedby=') && source.includes('id="hint"')) {
+    console.log('  ✅ Hint/error text is associated via aria-describedby');
+  } else {
+    addIssue('error', 'ARIA', 'Hint text is not associated with the group',
+      'Reference the hint element from aria-describedby (WCAG 3.3.2 Labels or Instructions)');
+  }
+
+  if (source.includes('aria-required=')) {
+    console.log('  ✅ aria-required set on required groups');
+  } else {
+    addIssue('warning', 'ARIA', 'Required state not exposed on the group');
+  }
+}
+
+/**
+ * Run all accessibility checks
+ */
+function runA11yValidation(): void {
+  console.log('🔍 Radio Component - Accessibility Validation');
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+
+  try {
+    const radioSource = readSource('kds-radio.ts');
+    const groupSource = readSource('kds-radio-group.ts');
+
+    checkRadioSemantics(radioSource);
+    checkKeyboardNavigation(radioSource);
+    checkRequired(radioSource);
+    checkGroupSemantics(groupSource);
+
+    console.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    console.log('📊 Accessibility Validation Summary\n');
+
+    const errors = issues.filter(i => i.type === 'error');
+    const warnings = issues.filter(i => i.type === 'warning');
+
+    if (errors.length === 0 && warnings.length === 0) {
+      console.log('✅ All accessibility checks passed!');
+      console.log('\n✨ Radio components meet WCAG 2.1 AA standards');
+      process.exit(0);
+    }
+
+    [['❌', errors], ['⚠️ ', warnings]].forEach(([icon, list]) => {
+      (list as A11yIssue[]).forEach((issue, index) => {
+        console.log(`${icon} ${index + 1}. [${issue.category}] ${issue.message}`);
+        if (issue.recommendation) {
+          console.log(`   💡 ${issue.recommendation}`);
+        }
+      });
+    });
+
+    if (errors.length > 0) {
+      console.log('\n❌ Accessibility validation failed');
+      process.exit(1);
+    }
+
+    console.log('\n⚠️  Accessibility validation passed with warnings');
+    process.exit(0);
+
+  } catch (error) {
+    console.error('❌ Validation error:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+// Run validation
+runA11yValidation();
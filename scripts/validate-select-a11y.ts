@@ -0,0 +1,237 @@
+/**
+ * Accessibility Validation for Select Component
+ *
+ * Validates that kds-select meets WCAG 2.1 AA standards and follows the
+ * WAI-ARIA select-only combobox pattern.
+ *
+ * Checks:
+ * - Combobox role, popup and expanded state
+ * - Listbox, option and group semantics
+ * - Keyboard navigation and typeahead
+ * - Labelling, hint association and required validation
+ *
+ * Usage: tsx scripts/validate-select-a11y.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+interface A11yIssue {
+  type: 'error' | 'warning';
+  category: string;
+  message: string;
+  recommendation?: string;
+}
+
+const issues: A11yIssue[] = [];
+
+function addIssue(type: 'error' | 'warning', category: string, message: string, recommendation?: string) {
+  issues.push({ type, category, message, recommendation });
+}
+
+/**
+ * Read the component source file
+ */
+function readSource(fileName: string): string {
+  const filePath = path.join(__dirname, '../packages/web-components/src/components', fileName);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Component not found at ${filePath}`);
+  }
+  return fs.readFileSync(filePath, 'utf-8');
+}
+
+/**
+ * Check combobox semantics
+ */
+function checkCombobox(source: string): void {
+  console.log('\n🔍 Checking combobox semantics...');
+
+  if (source.includes('role="combobox"')) {
+    console.log('  ✅ Trigger has role="combobox"');
+  } else {
+    addIssue('error', 'ARIA', 'Trigger missing role="combobox"',
+      'Use the WAI-ARIA select-only combobox pattern (WCAG 4.1.2 Name, Role, Value)');
+  }
+
+  const required = ['aria-haspopup="listbox"', 'aria-expanded=', 'aria-controls="listbox"'];
+  const missing = required.filter((attr) => !source.includes(attr));
+  if (missing.length === 0) {
+    console.log('  ✅ aria-haspopup, aria-expanded and aria-controls set');
+  } else {
+    addIssue('error', 'ARIA', `Combobox missing: ${missing.join(', ')}`);
+  }
+
+  if (source.includes('aria-activedescendant=')) {
+    console.log('  ✅ Active option exposed via aria-activedescendant (focus stays on the combobox)');
+  } else {
+    addIssue('error', 'ARIA', 'Active option is not exposed',
+      'Reference the active option with aria-activedescendant');
+  }
+
+  if (source.includes('tabindex=') && source.includes(':focus-visible')) {
+    console.log('  ✅ Focusable trigger with a visible focus ring (WCAG 2.4.7)');
+  } else {
+    addIssue('error', 'Focus', 'Trigger is not focusable or has no visible focus indicator');
+  }
+}
+
+/**
+ * Check listbox semantics
+ */
+function checkListbox(source: string): void {
+  console.log('\n🔍 Checking listbox semantics...');
+
+  if (source.includes('role="listbox"')) {
+    console.log('  ✅ Popup has role="listbox"');
+  } else {
+    addIssue('error', 'ARIA', 'Popup missing role="listbox"');
+  }
+
+  if (source.includes('role="option"') && source.includes('aria-selected=')) {
+    console.log('  ✅ Options have role="option" and aria-selected');
+  } else {
+    addIssue('error', 'ARIA', 'Options missing role="option" or aria-selected');
+  }
+
+  if (source.includes('aria-disabled=${item.disabled')) {
+    console.log('  ✅ Disabled options expose aria-disabled');
+  } else {
+    addIssue('warning', 'ARIA', 'Disabled options are not exposed as disabled');
+  }
+
+  if (source.includes('aria-multiselectable=')) {
+    console.log('  ✅ aria-multiselectable set in multiple mode');
+  } else {
+    addIssue('error', 'ARIA', 'Multiple selection not exposed via aria-multiselectable');
+  }
+
+  if (source.includes('role="group"') && source.includes('aria-labelledby="group-')) {
+    console.log('  ✅ Option groups have role="group" named by their heading');
+  } else {
+    addIssue('error', 'ARIA', 'Option groups are not exposed as labelled groups',
+      'Wrap grouped options in role="group" with aria-labelledby (WCAG 1.3.1 Info and Relationships)');
+  }
+}
+
+/**
+ * Check keyboard navigation
+ */
+function checkKeyboardNavigation(source: string): void {
+  console.log('\n🔍 Checking keyboard navigation...');
+
+  const keys = ['ArrowDown', 'ArrowUp', 'Home', 'End', 'Enter', "' '", 'Escape', 'Tab'];
+  const missing = keys.filter((key) => !source.includes(key.startsWith("'") ? `case ${key}` : `'${key}'`));
+  if (missing.length === 0) {
+    console.log('  ✅ Arrow keys, Home/End, Enter/Space, Escape and Tab handled');
+  } else {
+    addIssue('error', 'Keyboard', `Missing key handling: ${missing.join(', ')}`,
+      'Follow the keyboard model of the WAI-ARIA select-only combobox (WCAG 2.1.1 Keyboard)');
+  }
+
+  if (source.includes('_findTypeaheadMatch')) {
+    console.log('  ✅ Typeahead jumps to matching options');
+  } else {
+    addIssue('warning', 'Keyboard', 'No typeahead support');
+  }
+
+  if (source.includes('!items[index].disabled')) {
+    console.log('  ✅ Disabled options are skipped');
+  } else {
+    addIssue('warning', 'Keyboard', 'Keyboard navigation may land on disabled options');
+  }
+}
+
+/**
+ * Check labelling and validation
+ */
+function checkLabelling(source: string): void {
+  console.log('\n🔍 Checking labelling and validation...');
+
+  if (source.includes('aria-labelledby=') && source.includes('id="label"')) {
+    console.log('  ✅ Combobox is named by its visible label (aria-labelledby)');
+  } else {
+    addIssue('error', 'ARIA', 'Label is not associated with the combobox');
+  }
+
+  if (source.includes("attribute: 'aria-label'")) {
+    console.log('  ✅ aria-label supported for selects without visible label (inline trigger)');
+  } else {
+    addIssue('error', 'ARIA', 'No accessible name for selects without a visible label');
+  }
+
+  if (source.includes('aria-describedby=') && source.includes('id="hint"')) {
+    console.log('  ✅ Hint/error text is associated via aria-describedby');
+  } else {
+    addIssue('error', 'ARIA', 'Hint text is not associated with the combobox',
+      'Reference the hint element from aria-describedby (WCAG 3.3.2 Labels or Instructions)');
+  }
+
+  if (source.includes('aria-invalid=')) {
+    console.log('  ✅ aria-invalid set in destructive state');
+  } else {
+    addIssue('warning', 'ARIA', 'Error state not exposed via aria-invalid');
+  }
+
+  if (source.includes('valueMissing: true')) {
+    console.log('  ✅ Required selects report valueMissing until an option is selected (WCAG 3.3.1)');
+  } else {
+    addIssue('error', 'Form', 'Required selects are not validated');
+  }
+}
+
+/**
+ * Run all accessibility checks
+ */
+function runA11yValidation(): void {
+  console.log('🔍 Select Component - Accessibility Validation');
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+
+  try {
+    const source = readSource('kds-select.ts');
+
+    checkCombobox(source);
+    checkListbox(source);
+    checkKeyboardNavigation(source);
+    checkLabelling(source);
+
+    console.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    console.log('📊 Accessibility Validation Summary\n');
+
+    const errors = issues.filter(i => i.type === 'error');
+    const warnings = issues.filter(i => i.type === 'warning');
+
+    if (errors.length === 0 && warnings.length === 0) {
+      console.log('✅ All accessibility checks passed!');
+      console.log('\n✨ Select component meets WCAG 2.1 AA standards');
+      process.exit(0);
+    }
+
+    [['❌', errors], ['⚠️ ', warnings]].forEach(([icon, list]) => {
+      (list as A11yIssue[]).forEach((issue, index) => {
+        console.log(`${icon} ${index + 1}. [${issue.category}] ${issue.message}`);
+        if (issue.recommendation) {
+          console.log(`   💡 ${issue.recommendation}`);
+        }
+      });
+    });
+
+    if (errors.length > 0) {
+      console.log('\n❌ Accessibility validation failed');
+      process.exit(1);
+    }
+
+    console.log('\n⚠️  Accessibility validation passed with warnings');
+    process.exit(0);
+
+  } catch (error) {
+    console.error('❌ Validation error:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+// Run validation
+runA11yValidation();
@@ -0,0 +1,134 @@
+/**
+ * Accessibility Validation for Spinner Component
+ *
+ * Validates that kds-spinner meets WCAG 2.1 AA standards.
+ *
+ * Checks:
+ * - Indeterminate progressbar role and accessible name
+ * - Reduced motion fallback
+ *
+ * Usage: tsx scripts/validate-spinner-a11y.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+interface A11yIssue {
+  type: 'error' | 'warning';
+  category: string;
+  message: string;
+  recommendation?: string;
+}
+
+const issues: A11yIssue[] = [];
+
+function addIssue(type: 'error' | 'warning', category: string, message: string, recommendation?: string) {
+  issues.push({ type, category, message, recommendation });
+}
+
+/**
+ * Read the component source file
+ */
+function readSource(fileName: string): string {
+  const filePath = path.join(__dirname, '../packages/web-components/src/components', fileName);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Component not found at ${filePath}`);
+  }
+  return fs.readFileSync(filePath, 'utf-8');
+}
+
+/**
+ * Check progressbar semantics
+ */
+function checkSemantics(source: string): void {
+  console.log('\n🔍 Checking spinner semantics...');
+
+  if (source.includes('role="progressbar"') && !source.includes('aria-valuenow')) {
+    console.log('  ✅ Indeterminate role="progressbar"');
+  } else {
+    addIssue('error', 'ARIA', 'Spinner is not an indeterminate progressbar',
+      'Use role="progressbar" without aria-valuenow (WCAG 4.1.2 Name, Role, Value)');
+  }
+
+  if (source.includes('aria-label=${this.label}') && source.includes("label = 'Loading'")) {
+    console.log('  ✅ Named by label (defaults to "Loading")');
+  } else {
+    addIssue('error', 'ARIA', 'Spinner has no accessible name',
+      'Label the progressbar (WCAG 4.1.2)');
+  }
+
+  if (source.includes('<svg viewBox="0 0 20 20" fill="none" aria-hidden="true">')) {
+    console.log('  ✅ Graphic hidden from assistive technology');
+  } else {
+    addIssue('warning', 'ARIA', 'Spinner graphic is exposed to assistive technology');
+  }
+}
+
+/**
+ * Check animation and reduced motion
+ */
+function checkMotion(source: string): void {
+  console.log('\n🔍 Checking motion...');
+
+  if (source.includes('prefers-reduced-motion')) {
+    console.log('  ✅ Respects prefers-reduced-motion');
+  } else {
+    addIssue('error', 'Motion', 'Spinner animation ignores prefers-reduced-motion',
+      'Slow down or stop the animation (WCAG 2.3.3 Animation from Interactions)');
+  }
+}
+
+/**
+ * Run all accessibility checks
+ */
+function runA11yValidation(): void {
+  console.log('🔍 Spinner Component - Accessibility Validation');
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+
+  try {
+    const source = readSource('kds-spinner.ts');
+
+    checkSemantics(source);
+    checkMotion(source);
+
+    console.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    console.log('📊 Accessibility Validation Summary\n');
+
+    const errors = issues.filter(i => i.type === 'error');
+    const warnings = issues.filter(i => i.type === 'warning');
+
+    if (errors.length === 0 && warnings.length === 0) {
+      console.log('✅ All accessibility checks passed!');
+      console.log('\n✨ Spinner component meets WCAG 2.1 AA standards');
+      process.exit(0);
+    }
+
+    [['❌', errors], ['⚠️ ', warnings]].forEach(([icon, list]) => {
+      (list as A11yIssue[]).forEach((issue, index) => {
+        console.log(`${icon} ${index + 1}. [${issue.category}] ${issue.message}`);
+        if (issue.recommendation) {
+          console.log(`   💡 ${issue.recommendation}`);
+        }
+      });
+    });
+
+    if (errors.length > 0) {
+      console.log('\n❌ Accessibility validation failed');
+      process.exit(1);
+    }
+
+    console.log('\n⚠️  Accessibility validation passed with warnings');
+    process.exit(0);
+
+  } catch (error) {
+    console.error('❌ Validation error:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+// Run validation
+runA11yValidation();
@@ -0,0 +1,179 @@
+/**
+ * Accessibility Validation for Table Component
+ *
+ * Validates that kds-table meets WCAG 2.1 AA standards.
+ *
+ * Checks:
+ * - Table headers, aria-sort, aria-busy and virtualized row positions
+ * - Labelled row and select-all checkboxes
+ * - Keyboard scrolling and focus indicators
+ *
+ * Usage: tsx scripts/validate-table-a11y.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+interface A11yIssue {
+  type: 'error' | 'warning';
+  category: string;
+  message: string;
+  recommendation?: string;
+}
+
+const issues: A11yIssue[] = [];
+
+function addIssue(type: 'error' | 'warning', category: string, message: string, recommendation?: string) {
+  issues.push({ type, category, message, recommendation });
+}
+
+/**
+ * Read the component source file
+ */
+function readSource(fileName: string): string {
+  const filePath = path.join(__dirname, '../packages/web-components/src/components', fileName);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Component not found at ${filePath}`);
+  }
+  return fs.readFileSync(filePath, 'utf-8');
+}
+
+/**
+ * Check table semantics
+ */
+function checkSemantics(source: string): void {
+  console.log('\n🔍 Checking table semantics...');
+
+  if (source.includes('<table') && source.includes('<th\n        scope="col"') && source.includes('<thead>')) {
+    console.log('  ✅ Native table with column headers');
+  } else {
+    addIssue('error', 'ARIA', 'Table does not use native header cells',
+      'Render <th scope="col"> in <thead> (WCAG 1.3.1 Info and Relationships)');
+  }
+
+  if (source.includes('aria-label=${this.ariaLabel || nothing}')) {
+    console.log('  ✅ Table can be named with aria-label');
+  } else {
+    addIssue('warning', 'ARIA', 'Table has no accessible name');
+  }
+
+  if (source.includes('aria-sort=${sorted ? this.sortDirection : nothing}') && source.includes('<button type="button" class="sort"')) {
+    console.log('  ✅ Sortable headers are buttons and the sorted column has aria-sort');
+  } else {
+    addIssue('error', 'ARIA', 'Sort state is not exposed',
+      'Use a button in the header and set aria-sort on the sorted column (WCAG 4.1.2 Name, Role, Value)');
+  }
+
+  if (source.includes("aria-busy=${this.loading ? 'true' : 'false'}") && source.includes('<kds-spinner label=${this.loadingLabel}>')) {
+    console.log('  ✅ Loading sets aria-busy and shows a labelled spinner');
+  } else {
+    addIssue('warning', 'ARIA', 'Loading state is not announced');
+  }
+
+  if (source.includes('aria-rowcount=${this.virtualize ? rows.length + 1 : nothing}') &&
+      source.includes('aria-rowindex=${this.virtualize ? index + 2 : nothing}') &&
+      source.includes('<tr class="spacer" aria-hidden="true">')) {
+    console.log('  ✅ Virtualized rows keep their position (aria-rowcount / aria-rowindex)');
+  } else {
+    addIssue('error', 'ARIA', 'Virtualized rows lose their position',
+      'Set aria-rowcount on the table and aria-rowindex on each rendered row (WCAG 1.3.1)');
+  }
+}
+
+/**
+ * Check row selection
+ */
+function checkSelection(source: string): void {
+  console.log('\n🔍 Checking row selection...');
+
+  if (source.includes('aria-label="Select all rows"') && source.includes('.indeterminate=${selectedCount > 0 && selectedCount < total}')) {
+    console.log('  ✅ Select-all checkbox is labelled and indeterminate for a partial selection');
+  } else {
+    addIssue('error', 'Forms', 'Select-all checkbox is unlabelled or has no mixed state',
+      'Name the checkbox and set indeterminate when some rows are selected (WCAG 4.1.2)');
+  }
+
+  if (source.includes('aria-label=${this._rowLabel(row)}')) {
+    console.log('  ✅ Row checkboxes are named after their row');
+  } else {
+    addIssue('error', 'Forms', 'Row checkboxes have no distinguishing name',
+      'Name each checkbox after its row (WCAG 2.4.6 Headings and Labels)');
+  }
+}
+
+/**
+ * Check keyboard support and focus
+ */
+function checkKeyboard(source: string): void {
+  console.log('\n🔍 Checking keyboard support...');
+
+  if (source.includes('tabindex="0"') && source.includes('.scroller:focus-visible')) {
+    console.log('  ✅ Scroll container is focusable for keyboard scrolling');
+  } else {
+    addIssue('error', 'Keyboard', 'Scrollable table cannot be scrolled with the keyboard',
+      'Make the scroll container focusable (WCAG 2.1.1 Keyboard)');
+  }
+
+  if (source.includes('.sort:focus-visible')) {
+    console.log('  ✅ Visible focus indicator on sort buttons');
+  } else {
+    addIssue('error', 'Focus', 'Sort buttons have no focus indicator',
+      'Style :focus-visible (WCAG 2.4.7 Focus Visible)');
+  }
+}
+
+/**
+ * Run all accessibility checks
+ */
+function runA11yValidation(): void {
+  console.log('🔍 Table Component - Accessibility Validation');
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+
+  try {
+    const source = readSource('kds-table.ts');
+
+    checkSemantics(source);
+    checkSelection(source);
+    checkKeyboard(source);
+
+    console.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    console.log('📊 Accessibility Validation Summary\n');
+
+    const errors = issues.filter(i => i.type === 'error');
+    const warnings = issues.filter(i => i.type === 'warning');
+
+    if (errors.length === 0 && warnings.length === 0) {
+      console.log('✅ All accessibility checks passed!');
+      console.log('\n✨ Table component meets WCAG 2.1 AA standards');
+      process.exit(0);
+    }
+
+    [['❌', errors], ['⚠️ ', warnings]].forEach(([icon, list]) => {
+      (list as A11yIssue[]).forEach((issue, index) => {
+        console.log(`${icon} ${index + 1}. [${issue.category}] ${issue.message}`);
+        if (issue.recommendation) {
+          console.log(`   💡 ${issue.recommendation}`);
+        }
+      });
+    });
+
+    if (errors.length > 0) {
+      console.log('\n❌ Accessibility validation failed');
+      process.exit(1);
+    }
+
+    console.log('\n⚠️  Accessibility validation passed with warnings');
+    process.exit(0);
+
+  } catch (error) {
+    console.error('❌ Validation error:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+// Run validation
+runA11yValidation();
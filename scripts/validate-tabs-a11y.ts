@@ -0,0 +1,194 @@
+/**
+ * Accessibility Validation for Tabs Component
+ *
+ * Validates that kds-tabs meets WCAG 2.1 AA standards.
+ *
+ * Checks:
+ * - tablist/tab/tabpanel roles and their relationships
+ * - Roving tabindex and the WAI-ARIA tabs keyboard model
+ * - Focus indicator and reduced motion
+ *
+ * Usage: tsx scripts/validate-tabs-a11y.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+interface A11yIssue {
+  type: 'error' | 'warning';
+  category: string;
+  message: string;
+  recommendation?: string;
+}
+
+const issues: A11yIssue[] = [];
+
+function addIssue(type: 'error' | 'warning', category: string, message: string, recommendation?: string) {
+  issues.push({ type, category, message, recommendation });
+}
+
+/**
+ * Read the component source file
+ */
+function readSource(fileName: string): string {
+  const filePath = path.join(__dirname, '../packages/web-components/src/components', fileName);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Component not found at ${filePath}`);
+  }
+  return fs.readFileSync(filePath, 'utf-8');
+}
+
+/**
+ * Check tabs semantics and relationships
+ */
+function checkSemantics(source: string): void {
+  console.log('\n🔍 Checking tabs semantics...');
+
+  if (source.includes('role="tablist"') && source.includes('role="tab"') && source.includes('role="tabpanel"')) {
+    console.log('  ✅ tablist, tab and tabpanel roles');
+  } else {
+    addIssue('error', 'ARIA', 'Tabs are missing tablist/tab/tabpanel roles',
+      'Follow the WAI-ARIA tabs pattern (WCAG 4.1.2 Name, Role, Value)');
+  }
+
+  if (source.includes("aria-selected=${selected ? 'true' : 'false'}")) {
+    console.log('  ✅ Selected tab exposed with aria-selected');
+  } else {
+    addIssue('error', 'ARIA', 'Selected state is not exposed',
+      'Set aria-selected on every tab (WCAG 4.1.2)');
+  }
+
+  if (source.includes('aria-controls=') && source.includes('aria-labelledby="tab-${index}"')) {
+    console.log('  ✅ Tabs control their panels and panels are labelled by their tabs');
+  } else {
+    addIssue('error', 'ARIA', 'Tabs and panels are not associated',
+      'Use aria-controls on tabs and aria-labelledby on panels (WCAG 1.3.1 Info and Relationships)');
+  }
+
+  if (source.includes('aria-orientation=${this.orientation}')) {
+    console.log('  ✅ aria-orientation matches the layout');
+  } else {
+    addIssue('warning', 'ARIA', 'Vertical tab lists do not set aria-orientation');
+  }
+
+  if (source.includes("aria-disabled=${tab.disabled ? 'true' : nothing}")) {
+    console.log('  ✅ Disabled tabs exposed with aria-disabled');
+  } else {
+    addIssue('warning', 'ARIA', 'Disabled state of tabs is not exposed');
+  }
+
+  if (source.includes('aria-label=${this.ariaLabel || nothing}')) {
+    console.log('  ✅ Tab list can be labelled');
+  } else {
+    addIssue('warning', 'ARIA', 'Tab list has no accessible name');
+  }
+}
+
+/**
+ * Check keyboard model and focus
+ */
+function checkKeyboard(source: string): void {
+  console.log('\n🔍 Checking keyboard and focus...');
+
+  if (source.includes('tabindex=${selected ? 0 : -1}')) {
+    console.log('  ✅ Tab list is a single tab stop on the selected tab (roving tabindex)');
+  } else {
+    addIssue('error', 'Keyboard', 'Every tab is a tab stop',
+      'Only the selected tab should be in the tab order (WAI-ARIA tabs pattern)');
+  }
+
+  const keys = ['ArrowRight', 'ArrowLeft', 'ArrowDown', 'ArrowUp', 'Home', 'End'];
+  const missing = keys.filter((key) => !source.includes(`case '${key}'`));
+  if (missing.length === 0) {
+    console.log('  ✅ Arrow keys, Home and End move between tabs');
+  } else {
+    addIssue('error', 'Keyboard', `Missing key handling: ${missing.join(', ')}`,
+      'Support the WAI-ARIA tabs keyboard model (WCAG 2.1.1 Keyboard)');
+  }
+
+  if (source.includes("direction === 'rtl'")) {
+    console.log('  ✅ Left/Right swapped in RTL');
+  } else {
+    addIssue('warning', 'Keyboard', 'Arrow keys ignore RTL direction');
+  }
+
+  if (source.includes("this.activation === 'automatic'")) {
+    console.log('  ✅ Automatic and manual activation');
+  } else {
+    addIssue('warning', 'Keyboard', 'Manual activation is not supported');
+  }
+
+  if (source.includes('role="tabpanel"') && source.includes('tabindex="0"')) {
+    console.log('  ✅ Panels are focusable so Tab reaches their content');
+  } else {
+    addIssue('warning', 'Focus', 'Panels without focusable content are skipped by Tab');
+  }
+
+  if (source.includes('.tab:focus-visible')) {
+    console.log('  ✅ Visible focus indicator');
+  } else {
+    addIssue('error', 'Focus', 'Tabs have no focus indicator',
+      'Add :focus-visible styles (WCAG 2.4.7 Focus Visible)');
+  }
+
+  if (source.includes('prefers-reduced-motion')) {
+    console.log('  ✅ Respects prefers-reduced-motion');
+  } else {
+    addIssue('warning', 'Motion', 'Transitions ignore prefers-reduced-motion');
+  }
+}
+
+/**
+ * Run all accessibility checks
+ */
+function runA11yValidation(): void {
+  console.log('🔍 Tabs Component - Accessibility Validation');
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+
+  try {
+    const source = readSource('kds-tabs.ts');
+
+    checkSemantics(source);
+    checkKeyboard(source);
+
+    console.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    console.log('📊 Accessibility Validation Summary\n');
+
+    const errors = issues.filter(i => i.type === 'error');
+    const warnings = issues.filter(i => i.type === 'warning');
+
+    if (errors.length === 0 && warnings.length === 0) {
+      console.log('✅ All accessibility checks passed!');
+      console.log('\n✨ Tabs component meets WCAG 2.1 AA standards');
+      process.exit(0);
+    }
+
+    [['❌', errors], ['⚠️ ', warnings]].forEach(([icon, list]) => {
+      (list as A11yIssue[]).forEach((issue, index) => {
+        console.log(`${icon} ${index + 1}. [${issue.category}] ${issue.message}`);
+        if (issue.recommendation) {
+          console.log(`   💡 ${issue.recommendation}`);
+        }
+      });
+    });
+
+    if (errors.length > 0) {
+      console.log('\n❌ Accessibility validation failed');
+      process.exit(1);
+    }
+
+    console.log('\n⚠️  Accessibility validation passed with warnings');
+    process.exit(0);
+
+  } catch (error) {
+    console.error('❌ Validation error:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+// Run validation
+runA11yValidation();
@@ -0,0 +1,182 @@
+/**
+ * Accessibility Validation for Textarea Component
+ *
+ * Validates that kds-textarea meets WCAG 2.1 AA standards.
+ *
+ * Checks:
+ * - Native textarea semantics and labelling
+ * - Hint, error and counter association
+ * - Character counter announcements
+ * - Focus visibility and reduced motion
+ *
+ * Usage: tsx scripts/validate-textarea-a11y.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+interface A11yIssue {
+  type: 'error' | 'warning';
+  category: string;
+  message: string;
+  recommendation?: string;
+}
+
+const issues: A11yIssue[] = [];
+
+function addIssue(type: 'error' | 'warning', category: string, message: string, recommendation?: string) {
+  issues.push({ type, category, message, recommendation });
+}
+
+/**
+ * Read the component source file
+ */
+function readSource(fileName: string): string {
+  const filePath = path.join(__dirname, '../packages/web-components/src/components', fileName);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Component not found at ${filePath}`);
+  }
+  return fs.readFileSync(filePath, 'utf-8');
+}
+
+/**
+ * Check textarea semantics and labelling
+ */
+function checkSemantics(source: string): void {
+  console.log('\n🔍 Checking textarea semantics...');
+
+  if (source.includes('<textarea')) {
+    console.log('  ✅ Uses a native textarea (multi-line text role exposed natively)');
+  } else {
+    addIssue('error', 'ARIA', 'Textarea does not use a native <textarea>',
+      'Use <textarea> so assistive technology announces a multi-line text field (WCAG 4.1.2)');
+  }
+
+  if (source.includes('for="textarea"') && source.includes('id="textarea"')) {
+    console.log('  ✅ Label is associated with the textarea (label for)');
+  } else {
+    addIssue('error', 'ARIA', 'Label is not associated with the textarea',
+      'Point the <label> at the textarea with for/id (WCAG 1.3.1 Info and Relationships)');
+  }
+
+  if (source.includes('aria-label=')) {
+    console.log('  ✅ aria-label fallback for textareas without a visible label');
+  } else {
+    addIssue('warning', 'ARIA', 'No accessible name when the label is omitted');
+  }
+
+  if (source.includes('aria-invalid=')) {
+    console.log('  ✅ aria-invalid set in destructive state');
+  } else {
+    addIssue('error', 'ARIA', 'Error state not exposed via aria-invalid');
+  }
+}
+
+/**
+ * Check hint and counter association
+ */
+function checkDescriptions(source: string): void {
+  console.log('\n🔍 Checking hint and counter association...');
+
+  if (source.includes('aria-describedby=') && source.includes('id="hint"')) {
+    console.log('  ✅ Hint/error text is associated via aria-describedby');
+  } else {
+    addIssue('error', 'ARIA', 'Hint text is not associated with the textarea',
+      'Reference the hint element from aria-describedby (WCAG 3.3.2 Labels or Instructions)');
+  }
+
+  if (source.includes("hasCounter ? 'counter'") && source.includes('id="counter"')) {
+    console.log('  ✅ Character counter is part of the description');
+  } else {
+    addIssue('warning', 'ARIA', 'Character counter is not associated with the textarea');
+  }
+
+  if (source.includes('role="status"') && source.includes('characters remaining')) {
+    console.log('  ✅ Remaining characters announced near the limit (WCAG 4.1.3 Status Messages)');
+  } else {
+    addIssue('error', 'ARIA', 'Character limit is not announced',
+      'Announce the remaining characters through a polite status region (WCAG 4.1.3)');
+  }
+
+  if (source.includes('valueMissing') && source.includes('tooLong')) {
+    console.log('  ✅ Native constraint validation is mirrored onto the host (WCAG 3.3.1)');
+  } else {
+    addIssue('error', 'Form', 'Constraint validation is not reported to the form');
+  }
+}
+
+/**
+ * Check focus visibility and motion
+ */
+function checkFocus(source: string): void {
+  console.log('\n🔍 Checking focus and motion...');
+
+  if (source.includes('.textarea-wrapper:focus-within')) {
+    console.log('  ✅ Visible focus ring on the field (WCAG 2.4.7)');
+  } else {
+    addIssue('error', 'Focus', 'No visible focus indicator',
+      'Show the focus ring while the textarea is focused (WCAG 2.4.7 Focus Visible)');
+  }
+
+  if (source.includes('prefers-reduced-motion')) {
+    console.log('  ✅ Respects prefers-reduced-motion');
+  } else {
+    addIssue('warning', 'Motion', 'Transitions ignore prefers-reduced-motion');
+  }
+}
+
+/**
+ * Run all accessibility checks
+ */
+function runA11yValidation(): void {
+  console.log('🔍 Textarea Component - Accessibility Validation');
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+
+  try {
+    const source = readSource('kds-textarea.ts');
+
+    checkSemantics(source);
+    checkDescriptions(source);
+    checkFocus(source);
+
+    console.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    console.log('📊 Accessibility Validation Summary\n');
+
+    const errors = issues.filter(i => i.type === 'error');
+    const warnings = issues.filter(i => i.type === 'warning');
+
+    if (errors.length === 0 && warnings.length === 0) {
+      console.log('✅ All accessibility checks passed!');
+      console.log('\n✨ Textarea component meets WCAG 2.1 AA standards');
+      process.exit(0);
+    }
+
+    [['❌', errors], ['⚠️ ', warnings]].forEach(([icon, list]) => {
+      (list as A11yIssue[]).forEach((issue, index) => {
+        console.log(`${icon} ${index + 1}. [${issue.category}] ${issue.message}`);
+        if (issue.recommendation) {
+          console.log(`   💡 ${issue.recommendation}`);
+        }
+      });
+    });
+
+    if (errors.length > 0) {
+      console.log('\n❌ Accessibility validation failed');
+      process.exit(1);
+    }
+
+    console.log('\n⚠️  Accessibility validation passed with warnings');
+    process.exit(0);
+
+  } catch (error) {
+    console.error('❌ Validation error:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+// Run validation
+runA11yValidation();
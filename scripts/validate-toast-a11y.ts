@@ -0,0 +1,170 @@
+/**
+ * Accessibility Validation for Toast Component
+ *
+ * Validates that kds-toast meets WCAG 2.1 AA standards.
+ *
+ * Checks:
+ * - aria-live announcements and their politeness
+ * - Labelled toast region landmark
+ * - Pausable auto-dismiss and keyboard-accessible close button
+ * - Reduced motion
+ *
+ * Usage: tsx scripts/validate-toast-a11y.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+interface A11yIssue {
+  type: 'error' | 'warning';
+  category: string;
+  message: string;
+  recommendation?: string;
+}
+
+const issues: A11yIssue[] = [];
+
+function addIssue(type: 'error' | 'warning', category: string, message: string, recommendation?: string) {
+  issues.push({ type, category, message, recommendation });
+}
+
+/**
+ * Read the component source file
+ */
+function readSource(fileName: string): string {
+  const filePath = path.join(__dirname, '../packages/web-components/src/components', fileName);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Component not found at ${filePath}`);
+  }
+  return fs.readFileSync(filePath, 'utf-8');
+}
+
+/**
+ * Check live region announcements
+ */
+function checkAnnouncements(source: string, announcerSource: string): void {
+  console.log('\n🔍 Checking announcements...');
+
+  if (source.includes("import { announce } from './live-announcer.js'") &&
+      announcerSource.includes("setAttribute('aria-live', live)") && announcerSource.includes("create('polite')") && announcerSource.includes("create('assertive')")) {
+    console.log('  ✅ Messages announced through polite and assertive aria-live regions');
+  } else {
+    addIssue('error', 'ARIA', 'Toasts are not announced',
+      'Write toast text into an aria-live region (WCAG 4.1.3 Status Messages)');
+  }
+
+  if (source.includes("this.variant === 'error' || this.variant === 'warning'")) {
+    console.log('  ✅ Error and warning toasts interrupt (assertive), others wait (polite)');
+  } else {
+    addIssue('warning', 'ARIA', 'All toasts use the same politeness',
+      'Use assertive only for errors and warnings');
+  }
+
+  if (announcerSource.includes('ANNOUNCE_DELAY')) {
+    console.log('  ✅ Live region text is set after a delay so repeated messages are re-announced');
+  } else {
+    addIssue('warning', 'ARIA', 'Repeated messages may not be re-announced');
+  }
+
+  if (source.includes('role="region"') && source.includes("ariaLabel: string | null = 'Notifications'")) {
+    console.log('  ✅ Toast region is a labelled landmark');
+  } else {
+    addIssue('warning', 'ARIA', 'Toast region has no landmark role or name');
+  }
+
+  if (source.includes('class="icon" viewBox="0 0 20 20" fill="none" aria-hidden="true"')) {
+    console.log('  ✅ Decorative variant icon hidden from assistive technology');
+  } else {
+    addIssue('warning', 'ARIA', 'Variant icon is exposed to assistive technology');
+  }
+}
+
+/**
+ * Check timing and controls
+ */
+function checkTiming(source: string): void {
+  console.log('\n🔍 Checking timing and controls...');
+
+  if (source.includes("'mouseenter'") && source.includes("'focusin'") && source.includes('_pauseTimer')) {
+    console.log('  ✅ Auto-dismiss pauses on hover and focus');
+  } else {
+    addIssue('error', 'Timing', 'Auto-dismiss cannot be paused',
+      'Pause the timer while the toast is hovered or focused (WCAG 2.2.1 Timing Adjustable)');
+  }
+
+  if (source.includes('aria-label=${this.closeLabel}') && source.includes('<button')) {
+    console.log('  ✅ Close button is a labelled native button');
+  } else {
+    addIssue('error', 'Keyboard', 'Toast cannot be dismissed with the keyboard',
+      'Render the close control as a <button> with an accessible name (WCAG 2.1.1, 4.1.2)');
+  }
+
+  if (source.includes('.close:focus-visible')) {
+    console.log('  ✅ Close button has a visible focus indicator');
+  } else {
+    addIssue('error', 'Focus', 'Close button has no focus indicator',
+      'Add :focus-visible styles (WCAG 2.4.7 Focus Visible)');
+  }
+
+  if (source.includes('prefers-reduced-motion')) {
+    console.log('  ✅ Respects prefers-reduced-motion');
+  } else {
+    addIssue('warning', 'Motion', 'Enter animation ignores prefers-reduced-motion');
+  }
+}
+
+/**
+ * Run all accessibility checks
+ */
+function runA11yValidation(): void {
+  console.log('🔍 Toast Component - Accessibility Validation');
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+
+  try {
+    const source = readSource('kds-toast.ts');
+    const announcerSource = readSource('live-announcer.ts');
+
+    checkAnnouncements(source, announcerSource);
+    checkTiming(source);
+
+    console.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    console.log('📊 Accessibility Validation Summary\n');
+
+    const errors = issues.filter(i => i.type === 'error');
+    const warnings = issues.filter(i => i.type === 'warning');
+
+    if (errors.length === 0 && warnings.length === 0) {
+      console.log('✅ All accessibility checks passed!');
+      console.log('\n✨ Toast component meets WCAG 2.1 AA standards');
+      process.exit(0);
+    }
+
+    [['❌', errors], ['⚠️ ', warnings]].forEach(([icon, list]) => {
+      (list as A11yIssue[]).forEach((issue, index) => {
+        console.log(`${icon} ${index + 1}. [${issue.category}] ${issue.message}`);
+        if (issue.recommendation) {
+          console.log(`   💡 ${issue.recommendation}`);
+        }
+      });
+    });
+
+    if (errors.length > 0) {
+      console.log('\n❌ Accessibility validation failed');
+      process.exit(1);
+    }
+
+    console.log('\n⚠️  Accessibility validation passed with warnings');
+    process.exit(0);
+
+  } catch (error) {
+    console.error('❌ Validation error:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+// Run validation
+runA11yValidation();
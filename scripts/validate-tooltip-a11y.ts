@@ -173,19 +173,48 @@ function checkScreenReaderSupport(source: string): void {
 /**
  * Check tooltip behavior patterns
  */
-function checkBehaviorPatterns(): void {
+function checkBehaviorPatterns(source: string): void {
   console.log('\n🔍 Checking tooltip behavior patterns...');
 
-  console.log('  ℹ️  Tooltip behavior requirements (implementation in consumer):');
-  console.log('     - Show on hover/focus of trigger element');
-  console.log('     - Hide on Escape key press');
-  console.log('     - Persist while tooltip content is hovered');
-  console.log('     - Associate with trigger via aria-describedby');
-  console.log('     - Minimum display delay: 300-500ms on hover');
-  console.log('     - Not dismissible while focused (WCAG 1.4.13)');
+  if (source.includes("'mouseenter'") && source.includes("'focusin'")) {
+    console.log('  ✅ Shows on hover and focus of the trigger element');
+  } else {
+    addIssue('warning', 'Behavior', 'Tooltip does not open on trigger hover/focus',
+      'Listen for mouseenter and focusin on the trigger element');
+  }
+
+  if (source.includes("'Escape'")) {
+    console.log('  ✅ Dismissible with Escape (WCAG 1.4.13)');
+  } else {
+    addIssue('warning', 'Behavior', 'Tooltip cannot be dismissed with Escape',
+      'Close the tooltip on Escape without moving focus (WCAG 1.4.13 Content on Hover or Focus)');
+  }
+
+  if (source.includes('_handleBubbleEnter')) {
+    console.log('  ✅ Persists while the tooltip content is hovered (WCAG 1.4.13)');
+  } else {
+    addIssue('warning', 'Behavior', 'Tooltip may close while its content is hovered',
+      'Cancel the hide timer when the pointer enters the tooltip bubble');
+  }
 
-  addIssue('warning', 'Behavior', 'Tooltip show/hide behavior should be implemented by consumer',
-    'Document required behavior patterns: hover delay, Escape to dismiss, persist on hover (WCAG 1.4.13)');
+  if (source.includes("'aria-describedby'")) {
+    console.log('  ✅ Trigger is associated via aria-describedby');
+  } else {
+    addIssue('warning', 'Behavior', 'Trigger is not associated with the tooltip',
+      'Add the tooltip id to the trigger aria-describedby');
+  }
+
+  if (source.includes("'auto'") && source.includes('_getClipBounds')) {
+    console.log('  ✅ placement="auto" keeps the tooltip inside the viewport and scroll containers');
+  } else {
+    console.log('  ℹ️  Consider collision-aware placement so tooltips are never clipped (WCAG 1.4.10)');
+  }
+
+  if (source.includes('showDelay = 300')) {
+    console.log('  ✅ Default show delay: 300ms');
+  } else {
+    console.log('  ℹ️  Recommended show delay on hover: 300-500ms');
+  }
 }
 
 /**
@@ -203,7 +232,7 @@ function runA11yValidation(): void {
     checkColorContrast();
     checkTextReadability(source);
     checkScreenReaderSupport(source);
-    checkBehaviorPatterns();
+    checkBehaviorPatterns(source);
 
     // Print summary
     console.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');